@@ -0,0 +1,13 @@
+ALTER TABLE "organization_memberships" ALTER COLUMN "user_id" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "workspace_memberships" ALTER COLUMN "user_id" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "organization_memberships" ADD COLUMN "invited_email" text;--> statement-breakpoint
+ALTER TABLE "organization_memberships" ADD COLUMN "invited_by_user_id" uuid;--> statement-breakpoint
+ALTER TABLE "workspace_memberships" ADD COLUMN "status" "membership_status" DEFAULT 'active' NOT NULL;--> statement-breakpoint
+ALTER TABLE "workspace_memberships" ADD COLUMN "invited_email" text;--> statement-breakpoint
+ALTER TABLE "workspace_memberships" ADD COLUMN "invited_by_user_id" uuid;--> statement-breakpoint
+ALTER TABLE "organization_memberships" ADD CONSTRAINT "organization_memberships_invited_by_user_id_users_id_fk" FOREIGN KEY ("invited_by_user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "workspace_memberships" ADD CONSTRAINT "workspace_memberships_invited_by_user_id_users_id_fk" FOREIGN KEY ("invited_by_user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "org_memberships_invited_email_idx" ON "organization_memberships" USING btree ("invited_email");--> statement-breakpoint
+CREATE INDEX "workspace_memberships_invited_email_idx" ON "workspace_memberships" USING btree ("invited_email");--> statement-breakpoint
+ALTER TABLE "organization_memberships" ADD CONSTRAINT "org_memberships_org_invited_email_unique" UNIQUE("organization_id","invited_email");--> statement-breakpoint
+ALTER TABLE "workspace_memberships" ADD CONSTRAINT "workspace_memberships_ws_invited_email_unique" UNIQUE("workspace_id","invited_email");
\ No newline at end of file
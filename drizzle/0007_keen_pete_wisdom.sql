@@ -0,0 +1 @@
+ALTER TABLE "language_model_providers" ADD COLUMN "api_key_encrypted" text;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "usage_events" ADD COLUMN "model" text;
\ No newline at end of file
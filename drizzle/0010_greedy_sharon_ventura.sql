@@ -0,0 +1,13 @@
+ALTER TABLE "language_models" ADD COLUMN "input_price_per_million_tokens" double precision;--> statement-breakpoint
+ALTER TABLE "language_models" ADD COLUMN "output_price_per_million_tokens" double precision;--> statement-breakpoint
+ALTER TABLE "language_models" ADD COLUMN "cached_input_price_per_million_tokens" double precision;--> statement-breakpoint
+ALTER TABLE "messages" ADD COLUMN "input_tokens" integer;--> statement-breakpoint
+ALTER TABLE "messages" ADD COLUMN "output_tokens" integer;--> statement-breakpoint
+ALTER TABLE "messages" ADD COLUMN "cached_input_tokens" integer;--> statement-breakpoint
+ALTER TABLE "messages" ADD COLUMN "cost_micro_usd" bigint;--> statement-breakpoint
+ALTER TABLE "organization_quotas" ADD COLUMN "monthly_budget_micro_usd" bigint;--> statement-breakpoint
+ALTER TABLE "organization_quotas" ADD COLUMN "budget_warning_threshold_percent" integer DEFAULT 80 NOT NULL;--> statement-breakpoint
+ALTER TABLE "organization_quotas" ADD COLUMN "budget_exhausted_action" text DEFAULT 'block' NOT NULL;--> statement-breakpoint
+ALTER TABLE "organization_quotas" ADD COLUMN "budget_downgrade_model" jsonb;--> statement-breakpoint
+ALTER TABLE "organization_quotas" ADD COLUMN "budget_warning_sent_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "usage_events" ADD COLUMN "cost_micro_usd" bigint;
\ No newline at end of file
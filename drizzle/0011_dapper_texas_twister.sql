@@ -0,0 +1 @@
+ALTER TABLE "messages" ADD COLUMN "chat_mode" text;
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TABLE "agent_tool_consents" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"workspace_id" uuid NOT NULL,
+	"user_id" uuid,
+	"tool_name" text NOT NULL,
+	"consent" text NOT NULL,
+	"locked" boolean DEFAULT false NOT NULL,
+	"updated_by_user_id" uuid,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "uniq_agent_tool_consent" UNIQUE NULLS NOT DISTINCT("organization_id","workspace_id","user_id","tool_name")
+);
+--> statement-breakpoint
+ALTER TABLE "agent_tool_consents" ADD CONSTRAINT "agent_tool_consents_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "agent_tool_consents" ADD CONSTRAINT "agent_tool_consents_workspace_id_workspaces_id_fk" FOREIGN KEY ("workspace_id") REFERENCES "public"."workspaces"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "agent_tool_consents" ADD CONSTRAINT "agent_tool_consents_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "agent_tool_consents" ADD CONSTRAINT "agent_tool_consents_updated_by_user_id_users_id_fk" FOREIGN KEY ("updated_by_user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
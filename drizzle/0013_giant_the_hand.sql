@@ -0,0 +1 @@
+ALTER TABLE "messages" ADD COLUMN "proposal_review" jsonb;
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TABLE "workspace_git_credentials" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"workspace_id" uuid NOT NULL,
+	"host" text NOT NULL,
+	"access_token_encrypted" text NOT NULL,
+	"updated_by_user_id" uuid,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "uniq_workspace_git_credential" UNIQUE("workspace_id","host")
+);
+--> statement-breakpoint
+ALTER TABLE "workspace_git_credentials" ADD CONSTRAINT "workspace_git_credentials_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "workspace_git_credentials" ADD CONSTRAINT "workspace_git_credentials_workspace_id_workspaces_id_fk" FOREIGN KEY ("workspace_id") REFERENCES "public"."workspaces"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "workspace_git_credentials" ADD CONSTRAINT "workspace_git_credentials_updated_by_user_id_users_id_fk" FOREIGN KEY ("updated_by_user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "workspace_git_credentials_tenant_idx" ON "workspace_git_credentials" USING btree ("organization_id","workspace_id","id");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "chats" ADD COLUMN "branch" text;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "messages" ADD COLUMN "apply_report" jsonb;
\ No newline at end of file
@@ -0,0 +1,9 @@
+CREATE TABLE "auth_session_bearer_tokens" (
+	"token_hash" text PRIMARY KEY NOT NULL,
+	"session_id" uuid NOT NULL,
+	"expires_at" timestamp with time zone NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "auth_session_bearer_tokens" ADD CONSTRAINT "auth_session_bearer_tokens_session_id_auth_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."auth_sessions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "auth_session_bearer_tokens_session_idx" ON "auth_session_bearer_tokens" USING btree ("session_id");--> statement-breakpoint
+CREATE INDEX "auth_session_bearer_tokens_expires_idx" ON "auth_session_bearer_tokens" USING btree ("expires_at");
\ No newline at end of file
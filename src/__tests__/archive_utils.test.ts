@@ -0,0 +1,101 @@
+import fs from "node:fs";
+import path from "node:path";
+import { buffer } from "node:stream/consumers";
+import { describe, expect, it } from "vitest";
+import {
+  createArchiveStream,
+  normalizeArchivePath,
+  readArchiveEntries,
+} from "/src/ipc/utils/archive_utils.ts";
+
+const LIMITS = { maxEntries: 100, maxTotalBytes: 1024 * 1024 };
+
+function readFixture(name: string) {
+  return fs.readFileSync(path.join(__dirname, "fixtures/archives", name));
+}
+
+describe("archive_utils", () => {
+  it.each([
+    ["demo-app.zip", "zip"],
+    ["demo-app.tar.gz", "tar.gz"],
+  ] as const)("reads files and modes of %s", (fixture, format) => {
+    const entries = readArchiveEntries(readFixture(fixture), format, LIMITS);
+    const files = entries.filter((entry) => entry.type === "file");
+
+    expect(files.map((entry) => entry.path).sort()).toEqual([
+      "demo-app/node_modules/left-pad/index.js",
+      "demo-app/package.json",
+      "demo-app/pnpm-lock.yaml",
+      "demo-app/scripts/setup.sh",
+      "demo-app/src/main.ts",
+    ]);
+    const byPath = new Map(files.map((entry) => [entry.path, entry]));
+    expect(byPath.get("demo-app/src/main.ts")?.data.toString()).toBe(
+      'console.log("demo");\n',
+    );
+    expect(byPath.get("demo-app/scripts/setup.sh")?.executable).toBe(true);
+    expect(byPath.get("demo-app/package.json")?.executable).toBe(false);
+  });
+
+  it("enforces the size and entry limits", () => {
+    expect(() =>
+      readArchiveEntries(readFixture("demo-app.zip"), "zip", {
+        maxEntries: 100,
+        maxTotalBytes: 16,
+      }),
+    ).toThrow("Archive content is larger than 16 bytes");
+    expect(() =>
+      readArchiveEntries(readFixture("demo-app.tar.gz"), "tar.gz", {
+        maxEntries: 2,
+        maxTotalBytes: 1024 * 1024,
+      }),
+    ).toThrow("Archive has more than 2 entries");
+  });
+
+  it("rejects entries outside the archive", () => {
+    expect(() =>
+      readArchiveEntries(readFixture("path-traversal.zip"), "zip", LIMITS),
+    ).toThrow("Archive entry leaves the archive: ../evil.txt");
+    expect(() => normalizeArchivePath("/etc/passwd")).toThrow("absolute path");
+    expect(normalizeArchivePath("./src//App.tsx")).toBe("src/App.tsx");
+  });
+
+  it("rejects data in another format", () => {
+    expect(() =>
+      readArchiveEntries(readFixture("demo-app.zip"), "tar.gz", LIMITS),
+    ).toThrow("Not a gzip-compressed tar archive");
+  });
+
+  it.each(["zip", "tar.gz"] as const)(
+    "writes %s archives that read back",
+    async (format) => {
+      const longPath = `src/${"nested/".repeat(20)}component.tsx`;
+      const files = [
+        { path: "package.json", content: "{}\n", executable: false },
+        { path: "scripts/setup.sh", content: "#!/bin/sh\n", executable: true },
+        { path: longPath, content: "x".repeat(5000), executable: false },
+        { path: "empty.txt", content: "", executable: false },
+      ];
+
+      const archive = await buffer(
+        createArchiveStream(
+          files.map((file) => ({
+            path: file.path,
+            executable: file.executable,
+            read: async () => Buffer.from(file.content),
+          })),
+          format,
+        ),
+      );
+      const entries = readArchiveEntries(archive, format, LIMITS);
+
+      expect(
+        entries.map((entry) => ({
+          path: entry.path,
+          content: entry.data.toString(),
+          executable: entry.executable,
+        })),
+      ).toEqual(files);
+    },
+  );
+});
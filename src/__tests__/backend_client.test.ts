@@ -1,6 +1,7 @@
 import {
   AUTH_REDIRECT_REASON_SESSION_EXPIRED,
   AUTH_REDIRECT_REASON_STORAGE_KEY,
+  AUTH_SESSION_TOKEN_STORAGE_KEY,
   AUTH_TOKEN_STORAGE_KEY,
   BACKEND_BASE_URL_STORAGE_KEY,
   BrowserBackendClient,
@@ -22,12 +23,14 @@ describe("backend_client transport", () => {
     if (typeof storage.removeItem === "function") {
       storage.removeItem(BACKEND_BASE_URL_STORAGE_KEY);
       storage.removeItem(AUTH_TOKEN_STORAGE_KEY);
+      storage.removeItem(AUTH_SESSION_TOKEN_STORAGE_KEY);
       storage.removeItem(DEV_USER_SUB_STORAGE_KEY);
       storage.removeItem(DEV_USER_EMAIL_STORAGE_KEY);
       storage.removeItem(DEV_USER_NAME_STORAGE_KEY);
     } else {
       delete storage[BACKEND_BASE_URL_STORAGE_KEY];
       delete storage[AUTH_TOKEN_STORAGE_KEY];
+      delete storage[AUTH_SESSION_TOKEN_STORAGE_KEY];
       delete storage[DEV_USER_SUB_STORAGE_KEY];
       delete storage[DEV_USER_EMAIL_STORAGE_KEY];
       delete storage[DEV_USER_NAME_STORAGE_KEY];
@@ -173,6 +176,187 @@ describe("backend_client transport", () => {
     );
   });
 
+  it("routes membership channels with strict payloads", async () => {
+    window.__BLAZE_REMOTE_CONFIG__ = {
+      backendClient: {
+        baseUrl: "https://api.example.com",
+      },
+    };
+
+    const fetchMock = vi.fn().mockImplementation(
+      async () =>
+        new Response(JSON.stringify({ data: { id: 3 } }), {
+          status: 200,
+          headers: {
+            "content-type": "application/json",
+          },
+        }),
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const client = createBackendClientTransport();
+
+    await client.invoke("invite-org-member", {
+      orgId: "org-7",
+      email: "teammate@example.com",
+      role: "admin",
+      workspaceId: "legacy",
+    } as any);
+    await client.invoke("update-org-member", {
+      orgId: "org-7",
+      membershipId: 3,
+      role: "viewer",
+    });
+    await client.invoke("remove-workspace-member", {
+      orgId: "org-7",
+      workspaceId: "ws-7",
+      membershipId: 3,
+    });
+
+    expect(fetchMock).toHaveBeenNthCalledWith(
+      1,
+      "https://api.example.com/api/v1/orgs/org-7/members",
+      expect.objectContaining({
+        method: "POST",
+        body: JSON.stringify({ email: "teammate@example.com", role: "admin" }),
+      }),
+    );
+    expect(fetchMock).toHaveBeenNthCalledWith(
+      2,
+      "https://api.example.com/api/v1/orgs/org-7/members/3",
+      expect.objectContaining({
+        method: "PATCH",
+        body: JSON.stringify({ role: "viewer" }),
+      }),
+    );
+    expect(fetchMock).toHaveBeenNthCalledWith(
+      3,
+      "https://api.example.com/api/v1/orgs/org-7/workspaces/ws-7/members/3",
+      expect.objectContaining({
+        method: "DELETE",
+      }),
+    );
+  });
+
+  it("routes audit event channels with query filters", async () => {
+    window.__BLAZE_REMOTE_CONFIG__ = {
+      backendClient: {
+        baseUrl: "https://api.example.com",
+      },
+    };
+
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(
+        new Response(
+          JSON.stringify({ data: { events: [], nextCursor: null } }),
+          {
+            status: 200,
+            headers: {
+              "content-type": "application/json",
+            },
+          },
+        ),
+      )
+      .mockResolvedValueOnce(
+        new Response("id,action\r\n", {
+          status: 200,
+          headers: {
+            "content-type": "text/csv; charset=utf-8",
+          },
+        }),
+      );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const client = createBackendClientTransport();
+
+    await client.invoke("list-audit-events", {
+      orgId: "org-7",
+      action: "member_invite",
+      resourceType: " ",
+      cursor: "abc",
+      limit: 25,
+    });
+    const csv = await client.invoke("export-audit-events", {
+      orgId: "org-7",
+      from: "2026-01-01T00:00:00.000Z",
+      format: "csv",
+    });
+
+    expect(fetchMock).toHaveBeenNthCalledWith(
+      1,
+      "https://api.example.com/api/v1/orgs/org-7/audit-events?action=member_invite&cursor=abc&limit=25",
+      expect.objectContaining({ method: "GET" }),
+    );
+    expect(fetchMock).toHaveBeenNthCalledWith(
+      2,
+      "https://api.example.com/api/v1/orgs/org-7/audit-events/export?from=2026-01-01T00%3A00%3A00.000Z&format=csv",
+      expect.objectContaining({ method: "GET" }),
+    );
+    expect(csv).toBe("id,action\r\n");
+  });
+
+  it("routes quota and usage channels", async () => {
+    window.__BLAZE_REMOTE_CONFIG__ = {
+      backendClient: {
+        baseUrl: "https://api.example.com",
+      },
+    };
+
+    const fetchMock = vi.fn().mockImplementation(
+      async () =>
+        new Response(JSON.stringify({ data: {} }), {
+          status: 200,
+          headers: {
+            "content-type": "application/json",
+          },
+        }),
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const client = createBackendClientTransport();
+
+    await client.invoke("update-org-quotas", {
+      orgId: "org-7",
+      tokensPerDayHardLimit: 1000,
+      monthlyBudgetMicroUsd: null,
+    });
+    await client.invoke("update-user-soft-quota", {
+      orgId: "org-7",
+      userId: "user-7",
+      requestsPerDaySoftLimit: 10,
+    });
+    await client.invoke("get-usage-report", {
+      orgId: "org-7",
+      from: "2026-03-01T00:00:00.000Z",
+    });
+
+    expect(fetchMock).toHaveBeenNthCalledWith(
+      1,
+      "https://api.example.com/api/v1/orgs/org-7/quotas",
+      expect.objectContaining({
+        method: "PATCH",
+        body: JSON.stringify({
+          tokensPerDayHardLimit: 1000,
+          monthlyBudgetMicroUsd: null,
+        }),
+      }),
+    );
+    expect(fetchMock).toHaveBeenNthCalledWith(
+      2,
+      "https://api.example.com/api/v1/orgs/org-7/quotas/users/user-7",
+      expect.objectContaining({
+        method: "PATCH",
+        body: JSON.stringify({ requestsPerDaySoftLimit: 10 }),
+      }),
+    );
+    expect(fetchMock).toHaveBeenNthCalledWith(
+      3,
+      "https://api.example.com/api/v1/orgs/org-7/usage?from=2026-03-01T00%3A00%3A00.000Z",
+      expect.objectContaining({ method: "GET" }),
+    );
+  });
+
   it("routes proposal and file-read core endpoints", async () => {
     window.__BLAZE_REMOTE_CONFIG__ = {
       backendClient: {
@@ -311,6 +495,255 @@ describe("backend_client transport", () => {
     );
   });
 
+  it("routes app git remote channels to dedicated HTTP endpoints", async () => {
+    window.__BLAZE_REMOTE_CONFIG__ = {
+      backendClient: {
+        baseUrl: "https://api.example.com",
+      },
+    };
+
+    const fetchMock = vi.fn().mockImplementation(
+      async () =>
+        new Response(JSON.stringify({ data: { remoteUrl: null } }), {
+          status: 200,
+          headers: {
+            "content-type": "application/json",
+          },
+        }),
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const client = createBackendClientTransport();
+
+    await client.invoke("get-app-git-remote", { appId: 7, fetch: false });
+    await client.invoke("connect-app-git-remote", {
+      appId: 7,
+      remoteUrl: "https://git.example.com/app.git",
+      accessToken: null,
+    });
+    await client.invoke("push-app-git-remote", { appId: 7, force: true });
+    await client.invoke("pull-app-git-remote", { appId: 7, force: true });
+
+    const baseUrl =
+      "https://api.example.com/api/v1/orgs/me/workspaces/me/apps/7";
+    expect(fetchMock).toHaveBeenNthCalledWith(
+      1,
+      `${baseUrl}/git/remote?fetch=false`,
+      expect.objectContaining({ method: "GET" }),
+    );
+    expect(fetchMock).toHaveBeenNthCalledWith(
+      2,
+      `${baseUrl}/git/remote`,
+      expect.objectContaining({
+        method: "PATCH",
+        body: JSON.stringify({
+          remoteUrl: "https://git.example.com/app.git",
+          accessToken: null,
+        }),
+      }),
+    );
+    expect(fetchMock).toHaveBeenNthCalledWith(
+      3,
+      `${baseUrl}/git/push`,
+      expect.objectContaining({
+        method: "POST",
+        body: JSON.stringify({ force: true }),
+      }),
+    );
+    expect(fetchMock).toHaveBeenNthCalledWith(
+      4,
+      `${baseUrl}/git/pull`,
+      expect.objectContaining({ method: "POST", body: JSON.stringify({}) }),
+    );
+  });
+
+  it("routes app git branch channels with encoded branch names", async () => {
+    window.__BLAZE_REMOTE_CONFIG__ = {
+      backendClient: {
+        baseUrl: "https://api.example.com",
+      },
+    };
+
+    const fetchMock = vi.fn().mockImplementation(
+      async () =>
+        new Response(JSON.stringify({ data: { currentBranch: "main" } }), {
+          status: 200,
+          headers: {
+            "content-type": "application/json",
+          },
+        }),
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const client = createBackendClientTransport();
+
+    await client.invoke("create-app-git-branch", {
+      appId: 7,
+      name: "feature/login",
+      checkout: true,
+    });
+    await client.invoke("rename-app-git-branch", {
+      appId: 7,
+      branch: "feature/login",
+      name: "feature/sign-in",
+    });
+    await client.invoke("delete-app-git-branch", {
+      appId: 7,
+      branch: "feature/sign-in",
+    });
+    await client.invoke("merge-app-git-branch", {
+      appId: 7,
+      branch: "experiment",
+    });
+
+    const baseUrl =
+      "https://api.example.com/api/v1/orgs/me/workspaces/me/apps/7/git";
+    expect(fetchMock).toHaveBeenNthCalledWith(
+      1,
+      `${baseUrl}/branches`,
+      expect.objectContaining({
+        method: "POST",
+        body: JSON.stringify({ name: "feature/login", checkout: true }),
+      }),
+    );
+    expect(fetchMock).toHaveBeenNthCalledWith(
+      2,
+      `${baseUrl}/branches/feature%2Flogin`,
+      expect.objectContaining({
+        method: "PATCH",
+        body: JSON.stringify({ name: "feature/sign-in" }),
+      }),
+    );
+    expect(fetchMock).toHaveBeenNthCalledWith(
+      3,
+      `${baseUrl}/branches/feature%2Fsign-in`,
+      expect.objectContaining({ method: "DELETE" }),
+    );
+    expect(fetchMock).toHaveBeenNthCalledWith(
+      4,
+      `${baseUrl}/merge`,
+      expect.objectContaining({
+        method: "POST",
+        body: JSON.stringify({ branch: "experiment" }),
+      }),
+    );
+  });
+
+  it("routes app import to the scoped import endpoint", async () => {
+    window.__BLAZE_REMOTE_CONFIG__ = {
+      backendClient: {
+        baseUrl: "https://api.example.com",
+      },
+    };
+
+    const fetchMock = vi.fn().mockResolvedValue(
+      new Response(JSON.stringify({ data: { app: { id: 9 }, chatId: 3 } }), {
+        status: 200,
+        headers: {
+          "content-type": "application/json",
+        },
+      }),
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const client = createBackendClientTransport();
+    const params = {
+      name: "Landing",
+      source: { type: "git", url: "https://github.com/acme/landing.git" },
+    };
+
+    await client.invoke("import-app", params);
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      "https://api.example.com/api/v1/orgs/me/workspaces/me/apps/import",
+      expect.objectContaining({
+        method: "POST",
+        body: JSON.stringify(params),
+      }),
+    );
+  });
+
+  it("downloads app exports as a blob", async () => {
+    window.__BLAZE_REMOTE_CONFIG__ = {
+      backendClient: {
+        baseUrl: "https://api.example.com",
+      },
+    };
+
+    const fetchMock = vi.fn().mockResolvedValue(
+      new Response(new Uint8Array([0x1f, 0x8b, 0x08]), {
+        status: 200,
+        headers: {
+          "content-type": "application/gzip",
+        },
+      }),
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const client = createBackendClientTransport();
+    const archive = await client.invoke("export-app", {
+      appId: 7,
+      format: "tar.gz",
+      version: "abc1234",
+      includeGit: true,
+    });
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      "https://api.example.com/api/v1/orgs/me/workspaces/me/apps/7/export?format=tar.gz&version=abc1234&includeGit=true",
+      expect.objectContaining({ method: "GET" }),
+    );
+    expect(archive).toBeInstanceOf(Blob);
+    expect(new Uint8Array(await archive.arrayBuffer())).toEqual(
+      new Uint8Array([0x1f, 0x8b, 0x08]),
+    );
+  });
+
+  it("routes version diff and file history channels", async () => {
+    window.__BLAZE_REMOTE_CONFIG__ = {
+      backendClient: {
+        baseUrl: "https://api.example.com",
+      },
+    };
+
+    const fetchMock = vi.fn().mockImplementation(
+      async () =>
+        new Response(JSON.stringify({ data: [] }), {
+          status: 200,
+          headers: {
+            "content-type": "application/json",
+          },
+        }),
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const client = createBackendClientTransport();
+
+    await client.invoke("get-version-diff", {
+      appId: 7,
+      from: "abc1234",
+      to: "def5678",
+      filePath: "src/App.tsx",
+    });
+    await client.invoke("get-app-file-history", {
+      appId: 7,
+      filePath: "src/App.tsx",
+      limit: 20,
+    });
+
+    const baseUrl =
+      "https://api.example.com/api/v1/orgs/me/workspaces/me/apps/7";
+    expect(fetchMock).toHaveBeenNthCalledWith(
+      1,
+      `${baseUrl}/versions/abc1234...def5678/diff?path=src%2FApp.tsx`,
+      expect.objectContaining({ method: "GET" }),
+    );
+    expect(fetchMock).toHaveBeenNthCalledWith(
+      2,
+      `${baseUrl}/file/history?path=src%2FApp.tsx&limit=20`,
+      expect.objectContaining({ method: "GET" }),
+    );
+  });
+
   it("routes preview lifecycle channels and keeps restart payload strict", async () => {
     window.__BLAZE_REMOTE_CONFIG__ = {
       backendClient: {
@@ -475,6 +908,42 @@ describe("backend_client transport", () => {
     expect(result).toEqual({ id: 42, title: "Renamed" });
   });
 
+  it("routes resolve-mcp-tool-consent to the chat consent endpoint", async () => {
+    window.__BLAZE_REMOTE_CONFIG__ = {
+      backendClient: {
+        baseUrl: "https://api.example.com",
+      },
+    };
+
+    const fetchMock = vi.fn().mockResolvedValue(
+      new Response(JSON.stringify({ data: { resolved: true } }), {
+        status: 200,
+        headers: {
+          "content-type": "application/json",
+        },
+      }),
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const client = createBackendClientTransport();
+    await client.invoke("resolve-mcp-tool-consent", {
+      chatId: 42,
+      requestId: "7:search:abc",
+      decision: "accept-once",
+    });
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      "https://api.example.com/api/v1/orgs/me/workspaces/me/chats/42/mcp-consents",
+      expect.objectContaining({
+        method: "POST",
+        body: JSON.stringify({
+          requestId: "7:search:abc",
+          decision: "accept-once",
+        }),
+      }),
+    );
+  });
+
   it("clears auth context and redirects to /auth when JWT is expired", async () => {
     window.__BLAZE_REMOTE_CONFIG__ = {
       backendClient: {
@@ -506,6 +975,144 @@ describe("backend_client transport", () => {
     ).toBe(AUTH_REDIRECT_REASON_SESSION_EXPIRED);
   });
 
+  it("refreshes the auth session on 401 and retries the request", async () => {
+    window.__BLAZE_REMOTE_CONFIG__ = {
+      backendClient: {
+        baseUrl: "https://api.example.com",
+      },
+    };
+    window.localStorage.setItem(AUTH_TOKEN_STORAGE_KEY, "expired-token");
+    window.localStorage.setItem(AUTH_SESSION_TOKEN_STORAGE_KEY, "session-1");
+
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(
+        new Response(JSON.stringify({ error: "JWT is expired" }), {
+          status: 401,
+          headers: { "content-type": "application/json" },
+        }),
+      )
+      .mockResolvedValueOnce(
+        new Response(
+          JSON.stringify({
+            data: { accessToken: "access-2", idToken: "id-token-2" },
+          }),
+          {
+            status: 200,
+            headers: { "content-type": "application/json" },
+          },
+        ),
+      )
+      .mockResolvedValueOnce(
+        new Response(JSON.stringify({ data: [{ id: 1 }] }), {
+          status: 200,
+          headers: { "content-type": "application/json" },
+        }),
+      );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const client = createBackendClientTransport();
+    const result = await client.invoke("get-chats");
+
+    expect(result).toEqual([{ id: 1 }]);
+    expect(fetchMock).toHaveBeenNthCalledWith(
+      2,
+      "https://api.example.com/api/v1/auth/session/refresh",
+      expect.objectContaining({
+        method: "POST",
+        body: JSON.stringify({ sessionToken: "session-1" }),
+      }),
+    );
+    const retryHeaders = fetchMock.mock.calls[2]?.[1]?.headers as Record<
+      string,
+      string
+    >;
+    expect(retryHeaders.Authorization).toBe("Bearer id-token-2");
+    expect(window.localStorage.getItem(AUTH_TOKEN_STORAGE_KEY)).toBe(
+      "id-token-2",
+    );
+  });
+
+  it("signs out when the auth session can no longer be refreshed", async () => {
+    window.__BLAZE_REMOTE_CONFIG__ = {
+      backendClient: {
+        baseUrl: "https://api.example.com",
+      },
+    };
+    window.localStorage.setItem(AUTH_TOKEN_STORAGE_KEY, "expired-token");
+    window.localStorage.setItem(AUTH_SESSION_TOKEN_STORAGE_KEY, "session-1");
+
+    const assignMock = vi
+      .spyOn(window.location, "assign")
+      .mockImplementation((_value: string | URL) => undefined);
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(
+        new Response(JSON.stringify({ error: "JWT is expired" }), {
+          status: 401,
+          headers: { "content-type": "application/json" },
+        }),
+      )
+      .mockResolvedValueOnce(
+        new Response(
+          JSON.stringify({ error: "Auth session is expired or revoked" }),
+          {
+            status: 401,
+            headers: { "content-type": "application/json" },
+          },
+        ),
+      );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const client = createBackendClientTransport();
+    await expect(client.invoke("get-chats")).rejects.toThrow(
+      "Authentication session expired. Please sign in again.",
+    );
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(assignMock).toHaveBeenCalledWith("/auth");
+    expect(window.localStorage.getItem(AUTH_TOKEN_STORAGE_KEY)).toBeNull();
+    expect(
+      window.localStorage.getItem(AUTH_SESSION_TOKEN_STORAGE_KEY),
+    ).toBeNull();
+  });
+
+  it("signs out when the access token belongs to a revoked session", async () => {
+    window.__BLAZE_REMOTE_CONFIG__ = {
+      backendClient: {
+        baseUrl: "https://api.example.com",
+      },
+    };
+    window.localStorage.setItem(AUTH_TOKEN_STORAGE_KEY, "revoked-token");
+    window.localStorage.setItem(AUTH_SESSION_TOKEN_STORAGE_KEY, "session-1");
+
+    const assignMock = vi
+      .spyOn(window.location, "assign")
+      .mockImplementation((_value: string | URL) => undefined);
+    const fetchMock = vi.fn().mockImplementation(
+      async () =>
+        new Response(
+          JSON.stringify({
+            error: "Auth session is revoked",
+            code: "AUTH_SESSION_REVOKED",
+          }),
+          {
+            status: 401,
+            headers: { "content-type": "application/json" },
+          },
+        ),
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const client = createBackendClientTransport();
+    await expect(client.invoke("get-chats")).rejects.toThrow(
+      "Authentication session expired. Please sign in again.",
+    );
+
+    expect(assignMock).toHaveBeenCalledWith("/auth");
+    expect(window.localStorage.getItem(AUTH_TOKEN_STORAGE_KEY)).toBeNull();
+  });
+
   it("retries browser requests with window origin when configured backend URL is unreachable", async () => {
     window.__BLAZE_REMOTE_CONFIG__ = {
       backendClient: {
@@ -0,0 +1,466 @@
+import { describe, expect, it } from "vitest";
+import {
+  BlazeTagTokenizer,
+  parseBlazeActions,
+  parseBlazeMarkup,
+  removeBlazeActions,
+  type BlazeAction,
+  type BlazeTagEvent,
+} from "@/shared/blaze_tags";
+
+function tokenizeInChunks(input: string, chunkSizes: number[]) {
+  const tokenizer = new BlazeTagTokenizer();
+  const events: BlazeTagEvent[] = [];
+  let offset = 0;
+  let i = 0;
+  while (offset < input.length) {
+    const size = chunkSizes[i++ % chunkSizes.length];
+    events.push(...tokenizer.write(input.slice(offset, offset + size)));
+    offset += size;
+  }
+  events.push(...tokenizer.end());
+  return events;
+}
+
+function summarize(events: BlazeTagEvent[]) {
+  let text = "";
+  const elements = [];
+  const errors = [];
+  for (const event of events) {
+    if (event.type === "text") text += event.text;
+    if (event.type === "tag-close") elements.push(event.element);
+    if (event.type === "error") errors.push(event.error);
+  }
+  return { text, elements, errors };
+}
+
+describe("blaze tag tokenizer", () => {
+  it("parses quoted, escaped and reordered attributes", () => {
+    const { actions, errors } = parseBlazeActions(
+      [
+        `<blaze-write description='Use "a > b" here' path="src/a.tsx">x</blaze-write>`,
+        `<blaze-write path="src/b.tsx" description="Say \\"hi\\" &amp; &lt;wave&gt;">y</blaze-write>`,
+        `<blaze-rename to="src/new.ts" from="src/old.ts"></blaze-rename>`,
+        `<blaze-delete path=src/gone.ts />`,
+      ].join("\n"),
+    );
+
+    expect(errors).toEqual([]);
+    expect(actions).toEqual([
+      {
+        type: "write",
+        path: "src/a.tsx",
+        content: "x",
+        description: 'Use "a > b" here',
+      },
+      {
+        type: "write",
+        path: "src/b.tsx",
+        content: "y",
+        description: 'Say "hi" & <wave>',
+      },
+      { type: "rename", from: "src/old.ts", to: "src/new.ts" },
+      { type: "delete", path: "src/gone.ts" },
+    ]);
+  });
+
+  it("keeps closing tag literals inside file content", () => {
+    const content = [
+      `const close = "</blaze-write>";`,
+      'const html = `<blaze-write path="x">${body}</blaze-write>`;',
+      `export const done = true;`,
+    ].join("\n");
+
+    const { actions } = parseBlazeActions(
+      `Intro\n<blaze-write path="src/tags.ts">\n${content}\n</blaze-write>\nOutro`,
+    );
+
+    expect(actions).toEqual([
+      { type: "write", path: "src/tags.ts", content, description: undefined },
+    ]);
+  });
+
+  it("parses patch actions without trimming context lines", () => {
+    const patch = ["@@ -1,2 +1,2 @@", "-a", "+b", "   const c = 1;"].join("\n");
+
+    const { actions } = parseBlazeActions(
+      `<blaze-patch path="src/a.ts" description="Fix">\n${patch}\n</blaze-patch>`,
+    );
+
+    expect(actions).toEqual([
+      {
+        type: "patch",
+        path: "src/a.ts",
+        content: patch,
+        description: "Fix",
+      },
+    ]);
+  });
+
+  it("reports structured errors with positions", () => {
+    const { text, elements, errors } = parseBlazeMarkup(
+      `Hello\n  </blaze-delete>\n<blaze-write path="a.ts" "oops">partial`,
+    );
+
+    expect(text).toBe("Hello\n  \n");
+    expect(elements).toMatchObject([
+      {
+        name: "blaze-write",
+        attributes: { path: "a.ts" },
+        content: "partial",
+        closed: false,
+      },
+    ]);
+    expect(errors).toEqual([
+      {
+        code: "UNEXPECTED_CLOSING_TAG",
+        message: "</blaze-delete> has no matching opening tag",
+        tagName: "blaze-delete",
+        position: { offset: 8, line: 2, column: 3 },
+      },
+      expect.objectContaining({
+        code: "INVALID_ATTRIBUTE",
+        position: { offset: 49, line: 3, column: 26 },
+      }),
+      expect.objectContaining({
+        code: "UNCLOSED_TAG",
+        position: { offset: 24, line: 3, column: 1 },
+      }),
+    ]);
+  });
+
+  it("reports action tags without required attributes", () => {
+    const { actions, errors } = parseBlazeActions(
+      `<blaze-write description="no path">x</blaze-write>`,
+    );
+
+    expect(actions).toEqual([]);
+    expect(errors).toMatchObject([
+      {
+        code: "MISSING_ATTRIBUTE",
+        tagName: "blaze-write",
+        position: { offset: 0, line: 1, column: 1 },
+      },
+    ]);
+  });
+
+  it("holds back partial tags until the next chunk decides them", () => {
+    const tokenizer = new BlazeTagTokenizer();
+
+    expect(tokenizer.write("Hi <bla")).toEqual([{ type: "text", text: "Hi " }]);
+    expect(tokenizer.write('ze-write path="a.ts">const a')).toEqual([
+      {
+        type: "tag-open",
+        name: "blaze-write",
+        attributes: { path: "a.ts" },
+        start: 3,
+      },
+      { type: "tag-content", name: "blaze-write", text: "const a" },
+    ]);
+    expect(tokenizer.write(" = 1;</blaze-wr")).toEqual([
+      { type: "tag-content", name: "blaze-write", text: " = 1;" },
+    ]);
+    // Still undecided: the next character may make this a literal.
+    expect(tokenizer.write("ite>")).toEqual([]);
+    expect(tokenizer.write("\nDone")).toEqual([
+      {
+        type: "tag-close",
+        element: {
+          name: "blaze-write",
+          attributes: { path: "a.ts" },
+          content: "const a = 1;",
+          closed: true,
+          start: 3,
+          end: 54,
+        },
+      },
+      { type: "text", text: "\nDone" },
+    ]);
+    expect(tokenizer.end()).toEqual([]);
+  });
+
+  it("treats configured extra tags as markup", () => {
+    expect(
+      parseBlazeMarkup("<think>plan</think>Answer", {
+        extraTagNames: ["think"],
+      }).text,
+    ).toBe("Answer");
+    expect(parseBlazeMarkup("<think>plan</think>Answer").text).toBe(
+      "<think>plan</think>Answer",
+    );
+  });
+
+  it("removes selected actions and keeps the rest of the response", () => {
+    const input = [
+      "Plan",
+      '<blaze-write path="a.ts">a</blaze-write>',
+      '<blaze-command type="rebuild"></blaze-command>',
+      '<blaze-delete path="b.ts"></blaze-delete>',
+      '<blaze-write path="c.ts">c</blaze-write>',
+    ].join("\n");
+
+    expect(
+      removeBlazeActions(
+        input,
+        (action, index) => action.type === "delete" || index === 2,
+      ),
+    ).toBe(
+      [
+        "Plan",
+        '<blaze-write path="a.ts">a</blaze-write>',
+        '<blaze-command type="rebuild"></blaze-command>',
+        "",
+        "",
+      ].join("\n"),
+    );
+  });
+});
+
+// ============================================================================
+// Property tests
+// ============================================================================
+
+function createRandom(seed: number) {
+  // mulberry32
+  let state = seed;
+  const next = () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const int = (max: number) => Math.floor(next() * max);
+  const pick = <T>(items: readonly T[]): T => items[int(items.length)];
+  return { int, pick };
+}
+
+type Random = ReturnType<typeof createRandom>;
+
+const PROSE_FRAGMENTS = [
+  "Let me update the file.",
+  "a < b and c > d",
+  "<div>",
+  "</span>",
+  "<blazer>",
+  "<blaze>",
+  "x => y",
+  "Привет 👋",
+  "\n",
+  "\n\n",
+  " ",
+];
+
+const CODE_FRAGMENTS = [
+  "const a = 1;",
+  "\n",
+  '"</blaze-write>"',
+  "'</blaze-write>';",
+  "`</blaze-write>`",
+  "<div className={cn(a > b)}>",
+  "</div>",
+  '<blaze-write path="nested.ts">',
+  "return x < y;",
+  "// é ✓",
+  "\t",
+];
+
+const PATH_FRAGMENTS = ["src", "components", "a b", "ü", "x-y", "index.tsx"];
+
+const ATTRIBUTE_VALUE_FRAGMENTS = [
+  "plain",
+  '"quoted"',
+  "it's",
+  "a > b",
+  "<tag>",
+  "&amp;",
+  "\\",
+  " ",
+];
+
+function randomText(random: Random, fragments: string[], maxParts: number) {
+  let text = "";
+  const parts = random.int(maxParts);
+  for (let i = 0; i < parts; i++) {
+    text += random.pick(fragments);
+  }
+  return text;
+}
+
+function randomAction(random: Random): BlazeAction {
+  const path = () =>
+    Array.from({ length: 1 + random.int(3) }, () =>
+      random.pick(PATH_FRAGMENTS),
+    ).join("/");
+  switch (random.int(5)) {
+    case 0:
+      return {
+        type: "write",
+        path: path(),
+        content: `start;${randomText(random, CODE_FRAGMENTS, 12)}end;`,
+        // Attribute values cannot end in a backslash: `\"` escapes the quote.
+        description:
+          random.int(2) === 0
+            ? undefined
+            : `d${randomText(random, ATTRIBUTE_VALUE_FRAGMENTS, 4)}.`,
+      };
+    case 1:
+      return { type: "rename", from: path(), to: path() };
+    case 2:
+      return { type: "delete", path: path() };
+    case 3:
+      return {
+        type: "add-dependency",
+        packages: Array.from({ length: 1 + random.int(3) }, (_, i) =>
+          random.pick([`pkg${i}`, `@scope/pkg${i}`, `lib-${i}@^1.0.0`]),
+        ),
+      };
+    default:
+      return { type: "chat-summary", summary: `Summary ${random.int(100)}` };
+  }
+}
+
+function attribute(random: Random, name: string, value: string): string {
+  // Mix escaping styles; all of them must decode to the same value.
+  switch (random.int(3)) {
+    case 0:
+      return `${name}="${value.replace(/&/g, "&amp;").replace(/"/g, "&quot;")}"`;
+    case 1:
+      return `${name}="${value.replace(/&/g, "&amp;").replace(/"/g, '\\"')}"`;
+    default:
+      return `${name}='${value.replace(/&/g, "&amp;").replace(/'/g, "&#39;")}'`;
+  }
+}
+
+function serializeAction(random: Random, action: BlazeAction): string {
+  const tag = (name: string, attributes: string[], content = "") => {
+    const ordered =
+      random.int(2) === 0 ? attributes : [...attributes].reverse();
+    const attrs = ordered.map((attr) => ` ${attr}`).join("");
+    return `<blaze-${name}${attrs}>${content}</blaze-${name}>`;
+  };
+  switch (action.type) {
+    case "write":
+      return tag(
+        "write",
+        [
+          attribute(random, "path", action.path),
+          ...(action.description !== undefined
+            ? [attribute(random, "description", action.description)]
+            : []),
+        ],
+        `\n${action.content}\n`,
+      );
+    case "search-replace":
+    case "patch":
+      return tag(
+        action.type,
+        [attribute(random, "path", action.path)],
+        `\n${action.content}\n`,
+      );
+    case "rename":
+      return tag("rename", [
+        attribute(random, "from", action.from),
+        attribute(random, "to", action.to),
+      ]);
+    case "delete":
+      return tag("delete", [attribute(random, "path", action.path)]);
+    case "add-dependency":
+      return tag("add-dependency", [
+        attribute(random, "packages", action.packages.join(" ")),
+      ]);
+    case "chat-summary":
+      return tag("chat-summary", [], action.summary);
+  }
+}
+
+describe("blaze tag tokenizer properties", () => {
+  const ITERATIONS = 300;
+
+  it("parses serialized actions back to the same actions", () => {
+    for (let seed = 1; seed <= ITERATIONS; seed++) {
+      const random = createRandom(seed);
+      const actions = Array.from({ length: 1 + random.int(5) }, () =>
+        randomAction(random),
+      );
+      const input = actions
+        .map(
+          (action) =>
+            `${randomText(random, PROSE_FRAGMENTS, 4)}\n${serializeAction(random, action)}\n`,
+        )
+        .join("");
+
+      const parsed = parseBlazeActions(input);
+
+      expect({ seed, actions: parsed.actions }).toEqual({ seed, actions });
+    }
+  });
+
+  it("produces the same result regardless of how the input is chunked", () => {
+    for (let seed = 1; seed <= ITERATIONS; seed++) {
+      const random = createRandom(seed);
+      const input = Array.from({ length: 1 + random.int(4) }, () =>
+        random.int(3) === 0
+          ? randomText(random, [...PROSE_FRAGMENTS, ...CODE_FRAGMENTS], 8)
+          : serializeAction(random, randomAction(random)),
+      ).join(random.pick(["", "\n", " "]));
+      // Cut the last tag short now and then to cover unclosed elements.
+      const truncated =
+        random.int(4) === 0 ? input.slice(0, random.int(input.length)) : input;
+      const chunkSizes = Array.from(
+        { length: 1 + random.int(5) },
+        () => 1 + random.int(7),
+      );
+
+      expect({
+        seed,
+        ...summarize(tokenizeInChunks(truncated, chunkSizes)),
+      }).toEqual({ seed, ...parseBlazeMarkup(truncated) });
+    }
+  });
+
+  it("never throws and keeps element spans ordered on arbitrary input", () => {
+    const alphabet = [
+      "<",
+      ">",
+      "/",
+      '"',
+      "'",
+      "=",
+      "\\",
+      " ",
+      "\n",
+      "a",
+      "blaze-",
+      "write",
+      "delete",
+      "<blaze-write",
+      "</blaze-write>",
+      'path="',
+      "/>",
+    ];
+    for (let seed = 1; seed <= ITERATIONS; seed++) {
+      const random = createRandom(seed);
+      const input = Array.from({ length: random.int(60) }, () =>
+        random.pick(alphabet),
+      ).join("");
+
+      const { elements, errors } = parseBlazeMarkup(input);
+
+      let previousEnd = 0;
+      for (const element of elements) {
+        expect(element.start).toBeGreaterThanOrEqual(previousEnd);
+        expect(element.end).toBeLessThanOrEqual(input.length);
+        expect(input[element.start]).toBe("<");
+        expect(input.slice(element.start, element.end)).toContain(
+          element.content,
+        );
+        previousEnd = element.end;
+      }
+      for (const error of errors) {
+        expect(error.position.offset).toBeLessThanOrEqual(input.length);
+        const before = input.slice(0, error.position.offset);
+        expect(error.position.line).toBe(before.split("\n").length);
+      }
+    }
+  });
+});
@@ -17,8 +17,10 @@ import {
   formatSelectedComponentLabel,
   formatSelectedComponentPromptBlock,
   buildClientServerStreamChunk,
+  readChatStreamSettings,
 } from "../ipc/handlers/chat_stream_handlers";
 import type { TextStreamPart, ToolSet } from "ai";
+import type { UserSettings } from "../lib/schemas";
 import fs from "node:fs";
 import { db } from "../db";
 import { cleanFullResponse } from "../ipc/utils/cleanFullResponse";
@@ -26,6 +28,9 @@ import {
   gitAdd,
   gitRemove,
   gitCommit,
+  gitResetFiles,
+  gitResetHard,
+  assertGitBranchCheckedOut,
   isGitStatusClean,
 } from "../ipc/utils/git_utils";
 
@@ -60,6 +65,9 @@ vi.mock("../ipc/utils/git_utils", () => ({
   gitAdd: vi.fn(),
   gitCommit: vi.fn(),
   gitRemove: vi.fn(),
+  gitResetFiles: vi.fn(),
+  gitResetHard: vi.fn(),
+  assertGitBranchCheckedOut: vi.fn(),
   isGitStatusClean: vi.fn().mockResolvedValue(false),
   gitRenameBranch: vi.fn(),
   gitCurrentBranch: vi.fn(),
@@ -69,6 +77,13 @@ vi.mock("../ipc/utils/git_utils", () => ({
   gitSetRemoteUrl: vi.fn(),
   gitStatus: vi.fn().mockResolvedValue([]),
   getGitUncommittedFiles: vi.fn().mockResolvedValue([]),
+  getCurrentCommitHash: vi.fn().mockResolvedValue("head-commit"),
+}));
+
+vi.mock("../main/settings", () => ({
+  readSettings: vi.fn(() => ({
+    selectedModel: { provider: "auto", name: "auto" },
+  })),
 }));
 
 // Mock paths module to control getBlazeAppPath
@@ -732,6 +747,35 @@ describe("processFullResponse", () => {
     });
   });
 
+  it("refuses to apply while the app is on another branch than the chat", async () => {
+    vi.mocked(db.query.chats.findFirst).mockResolvedValueOnce({
+      id: 1,
+      appId: 1,
+      title: "Test Chat",
+      branch: "experiment",
+      createdAt: new Date(),
+      app: { path: "mock-app-path" },
+    } as any);
+    vi.mocked(assertGitBranchCheckedOut).mockRejectedValueOnce(
+      new Error(
+        "This chat works on branch experiment, but the app is on branch main. Switch the app to branch experiment first.",
+      ),
+    );
+
+    const result = await processFullResponseActions(
+      `<blaze-write path="src/file1.js">console.log('Hello');</blaze-write>`,
+      1,
+      { chatSummary: undefined, messageId: 1 },
+    );
+
+    expect(assertGitBranchCheckedOut).toHaveBeenCalledWith({
+      path: "/mock/user/data/path/mock-app-path",
+      branch: "experiment",
+    });
+    expect(result.error).toContain("Switch the app to branch experiment");
+    expect(fs.writeFileSync).not.toHaveBeenCalled();
+  });
+
   it("ignores legacy blaze-execute-sql tags in client-server-only mode", async () => {
     vi.mocked(db.query.chats.findFirst).mockResolvedValueOnce({
       id: 1,
@@ -822,7 +866,14 @@ describe("processFullResponse", () => {
       }),
     );
     expect(gitCommit).toHaveBeenCalled();
-    expect(result).toEqual({ updatedFiles: true });
+    const actionReports = [
+      { type: "write", path: "src/file1.js", status: "applied" },
+    ];
+    expect(result).toEqual({ updatedFiles: true, actionReports });
+    const setCalls = vi
+      .mocked(db.update)
+      .mock.results.map((result) => vi.mocked(result.value.set).mock.calls[0]);
+    expect(setCalls).toContainEqual([{ applyReport: actionReports }]);
   });
 
   it("should skip commit when applied changes produce no git diff", async () => {
@@ -847,6 +898,7 @@ describe("processFullResponse", () => {
       updatedFiles: false,
       extraFiles: undefined,
       extraFilesError: undefined,
+      actionReports: expect.any(Array),
     });
   });
 
@@ -896,10 +948,152 @@ export const heroTitle = "Моментальный запуск";
       messageId: 1,
     });
 
-    expect(result).toEqual({ updatedFiles: true });
+    expect(result).toEqual({
+      updatedFiles: true,
+      actionReports: expect.any(Array),
+    });
     expect(gitCommit).toHaveBeenCalledTimes(1);
   });
 
+  it("should not write any file when one search-replace edit fails", async () => {
+    vi.mocked(fs.promises.readFile).mockResolvedValue(
+      `export const heroTitle = "Быстрый запуск";`,
+    );
+
+    const response = `
+    <blaze-write path="src/Hero.tsx">export const Hero = () => null;</blaze-write>
+    <blaze-search-replace path="src/Landing.tsx">
+<<<<<<< SEARCH
+export const heroTitle = "Быстрый старт";
+=======
+export const heroTitle = "Моментальный запуск";
+>>>>>>> REPLACE
+    </blaze-search-replace>
+    `;
+
+    const result = await processFullResponseActions(response, 1, {
+      chatSummary: undefined,
+      messageId: 1,
+    });
+
+    expect(result.updatedFiles).toBe(false);
+    expect(result.error).toContain(
+      "Failed to apply search-replace edits: src/Landing.tsx: Failed to apply search-replace to src/Landing.tsx",
+    );
+    expect(result.error).toContain("No changes were applied.");
+    expect(result.actionReports).toEqual([
+      {
+        type: "search-replace",
+        path: "src/Landing.tsx",
+        status: "failed",
+        error: expect.stringContaining("Failed to apply search-replace"),
+      },
+      { type: "write", path: "src/Hero.tsx", status: "not-applied" },
+    ]);
+    expect(fs.writeFileSync).not.toHaveBeenCalled();
+    expect(gitCommit).not.toHaveBeenCalled();
+  });
+
+  it("should restore touched files when applying a staged change fails", async () => {
+    vi.mocked(db.query.messages.findFirst).mockResolvedValueOnce({
+      id: 1,
+      chatId: 1,
+      role: "assistant",
+      content: "some content",
+      createdAt: new Date(),
+      approvalState: null,
+      commitHash: null,
+      sourceCommitHash: "source-commit",
+    } as any);
+    vi.mocked(fs.promises.readFile).mockResolvedValue("old content");
+    vi.mocked(fs.writeFileSync)
+      .mockImplementationOnce(() => undefined)
+      .mockImplementationOnce(() => {
+        throw new Error("Disk full");
+      });
+
+    const response = `
+    <blaze-write path="src/A.tsx">new A</blaze-write>
+    <blaze-write path="src/B.tsx">new B</blaze-write>
+    `;
+
+    const result = await processFullResponseActions(response, 1, {
+      chatSummary: undefined,
+      messageId: 1,
+    });
+
+    expect(result.error).toContain("Disk full");
+    expect(result.actionReports?.map((report) => report.status)).toEqual([
+      "not-applied",
+      "not-applied",
+    ]);
+    expect(fs.writeFileSync).toHaveBeenCalledWith(
+      "/mock/user/data/path/mock-app-path/src/A.tsx",
+      "old content",
+    );
+    expect(gitResetFiles).toHaveBeenCalledWith({
+      path: "/mock/user/data/path/mock-app-path",
+      filepaths: ["src/A.tsx", "src/B.tsx"],
+    });
+    expect(gitResetHard).toHaveBeenCalledWith({
+      path: "/mock/user/data/path/mock-app-path",
+      targetOid: "source-commit",
+    });
+    expect(gitCommit).not.toHaveBeenCalled();
+  });
+
+  it("should apply blaze-patch hunks to the target file", async () => {
+    vi.mocked(fs.promises.readFile).mockResolvedValue(
+      `export const heroTitle = "Быстрый запуск";\nexport const heroSubtitle = "";\n`,
+    );
+    vi.mocked(fs.writeFileSync).mockImplementation(() => undefined);
+
+    const response = `<blaze-patch path="src/Landing.tsx" description="Rename hero">
+@@ -1,2 +1,2 @@
+-export const heroTitle = "Быстрый запуск";
++export const heroTitle = "Моментальный запуск";
+ export const heroSubtitle = "";
+</blaze-patch>`;
+
+    const result = await processFullResponseActions(response, 1, {
+      chatSummary: undefined,
+      messageId: 1,
+    });
+
+    expect(fs.writeFileSync).toHaveBeenCalledWith(
+      "/mock/user/data/path/mock-app-path/src/Landing.tsx",
+      `export const heroTitle = "Моментальный запуск";\nexport const heroSubtitle = "";\n`,
+    );
+    expect(result).toEqual({
+      updatedFiles: true,
+      actionReports: expect.any(Array),
+    });
+  });
+
+  it("should report failed blaze-patch hunks when no other changes are applied", async () => {
+    vi.mocked(fs.promises.readFile).mockResolvedValue(
+      `export const heroTitle = "Быстрый запуск";`,
+    );
+
+    const response = `<blaze-patch path="src/Landing.tsx">
+@@ -1,1 +1,1 @@
+-export const heroTitle = "Быстрый старт";
++export const heroTitle = "Моментальный запуск";
+</blaze-patch>`;
+
+    const result = await processFullResponseActions(response, 1, {
+      chatSummary: undefined,
+      messageId: 1,
+    });
+
+    expect(result.updatedFiles).toBe(false);
+    expect(result.error).toContain(
+      "Failed to apply patch edits: src/Landing.tsx: Failed to apply patch to src/Landing.tsx: Hunk #1 (@@ -1,1 +1,1 @@) failed",
+    );
+    expect(fs.writeFileSync).not.toHaveBeenCalled();
+    expect(gitCommit).not.toHaveBeenCalled();
+  });
+
   it("should handle file system errors gracefully", async () => {
     // Set up the mock to throw an error on mkdirSync
     vi.mocked(fs.mkdirSync).mockImplementationOnce(() => {
@@ -989,7 +1183,10 @@ export const heroTitle = "Моментальный запуск";
 
     // Verify commit was called once after all files were added
     expect(gitCommit).toHaveBeenCalledTimes(1);
-    expect(result).toEqual({ updatedFiles: true });
+    expect(result).toEqual({
+      updatedFiles: true,
+      actionReports: expect.any(Array),
+    });
   });
 
   it("should process blaze-rename tags and rename files", async () => {
@@ -1024,7 +1221,10 @@ export const heroTitle = "Моментальный запуск";
       }),
     );
     expect(gitCommit).toHaveBeenCalled();
-    expect(result).toEqual({ updatedFiles: true });
+    expect(result).toEqual({
+      updatedFiles: true,
+      actionReports: expect.any(Array),
+    });
   });
 
   it("should handle non-existent files during rename gracefully", async () => {
@@ -1038,13 +1238,14 @@ export const heroTitle = "Моментальный запуск";
       messageId: 1,
     });
 
-    expect(fs.mkdirSync).toHaveBeenCalled();
+    expect(fs.mkdirSync).not.toHaveBeenCalled();
     expect(fs.renameSync).not.toHaveBeenCalled();
     expect(gitCommit).not.toHaveBeenCalled();
     expect(result).toEqual({
       updatedFiles: false,
       extraFiles: undefined,
       extraFilesError: undefined,
+      actionReports: expect.any(Array),
     });
   });
 
@@ -1069,7 +1270,10 @@ export const heroTitle = "Моментальный запуск";
       }),
     );
     expect(gitCommit).toHaveBeenCalled();
-    expect(result).toEqual({ updatedFiles: true });
+    expect(result).toEqual({
+      updatedFiles: true,
+      actionReports: expect.any(Array),
+    });
   });
 
   it("should handle non-existent files during delete gracefully", async () => {
@@ -1090,6 +1294,7 @@ export const heroTitle = "Моментальный запуск";
       updatedFiles: false,
       extraFiles: undefined,
       extraFilesError: undefined,
+      actionReports: expect.any(Array),
     });
   });
 
@@ -1142,7 +1347,10 @@ export const heroTitle = "Моментальный запуск";
       }),
     );
 
-    expect(result).toEqual({ updatedFiles: true });
+    expect(result).toEqual({
+      updatedFiles: true,
+      actionReports: expect.any(Array),
+    });
   });
 });
 
@@ -1449,6 +1657,46 @@ describe("formatSelectedComponentPromptBlock", () => {
   });
 });
 
+describe("readChatStreamSettings", () => {
+  it("runs tenant streams on the settings of their user", () => {
+    const userSettings = (name: string) =>
+      ({ selectedModel: { provider: "openai", name } }) as UserSettings;
+    const request = { chatId: 1, prompt: "Hi" };
+
+    expect(
+      readChatStreamSettings({
+        ...request,
+        userId: "user-1",
+        settings: userSettings("gpt-4.1"),
+      }).selectedModel,
+    ).toEqual({ provider: "openai", name: "gpt-4.1" });
+    expect(
+      readChatStreamSettings({
+        ...request,
+        userId: "user-2",
+        settings: userSettings("gpt-5-mini"),
+      }).selectedModel,
+    ).toEqual({ provider: "openai", name: "gpt-5-mini" });
+    expect(readChatStreamSettings(request).selectedModel).toEqual({
+      provider: "auto",
+      name: "auto",
+    });
+  });
+
+  it("applies the budget downgrade over the user's model", () => {
+    expect(
+      readChatStreamSettings({
+        chatId: 1,
+        prompt: "Hi",
+        settings: {
+          selectedModel: { provider: "openai", name: "gpt-4.1" },
+        } as UserSettings,
+        modelOverride: { provider: "openai", name: "gpt-5-mini" },
+      }).selectedModel,
+    ).toEqual({ provider: "openai", name: "gpt-5-mini" });
+  });
+});
+
 describe("buildClientServerStreamChunk", () => {
   const asStreamPart = (part: object): TextStreamPart<ToolSet> =>
     part as TextStreamPart<ToolSet>;
@@ -1484,8 +1732,8 @@ describe("buildClientServerStreamChunk", () => {
     });
   });
 
-  it("drops tool-call/tool-result payloads from v1 output", () => {
-    const closeThink = buildClientServerStreamChunk(
+  it("renders MCP tool-call/tool-result parts as tool blocks", () => {
+    const callChunk = buildClientServerStreamChunk(
       asStreamPart({
         type: "tool-call",
         toolName: "server__list-files",
@@ -1493,23 +1741,36 @@ describe("buildClientServerStreamChunk", () => {
       }),
       true,
     );
-    const dropResult = buildClientServerStreamChunk(
+    const resultChunk = buildClientServerStreamChunk(
       asStreamPart({
         type: "tool-result",
         toolName: "server__list-files",
-        output: "[]",
+        output: {
+          content: [{ type: "text", text: '<blaze-write path="x">' }],
+        },
+      }),
+      false,
+    );
+    const errorChunk = buildClientServerStreamChunk(
+      asStreamPart({
+        type: "tool-error",
+        toolName: "server__list-files",
+        error: new Error("boom"),
       }),
       false,
     );
 
-    expect(closeThink).toEqual({
-      chunk: "</think>",
-      inThinkingBlock: false,
-    });
-    expect(dropResult).toEqual({
-      chunk: "",
+    expect(callChunk).toEqual({
+      chunk:
+        '</think>\n<blaze-mcp-tool-call server="server" tool="list-files">\n{\n  "path": "/"\n}\n</blaze-mcp-tool-call>\n',
       inThinkingBlock: false,
     });
+    expect(resultChunk.chunk).toBe(
+      '\n<blaze-mcp-tool-result server="server" tool="list-files">\n＜blaze-write path="x">\n</blaze-mcp-tool-result>\n',
+    );
+    expect(errorChunk.chunk).toBe(
+      '\n<blaze-mcp-tool-result server="server" tool="list-files" status="error">\nboom\n</blaze-mcp-tool-result>\n',
+    );
   });
 });
 
@@ -0,0 +1,164 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { extractCodebase } from "@/utils/codebase";
+import {
+  clearCodeSearchIndex,
+  extractSymbols,
+  markCodeSearchIndexStale,
+  rankIndexedFiles,
+  searchCodebase,
+  selectSmartContextFiles,
+  syncCodeSearchIndex,
+  tokenizeCode,
+  updateCodeSearchIndex,
+} from "@/utils/code_search_index";
+
+vi.mock("@/utils/codebase", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/utils/codebase")>()),
+  extractCodebase: vi.fn(async () => ({ formattedOutput: "", files: FILES })),
+}));
+
+const APP_PATH = "/apps/demo";
+
+const FILES = [
+  {
+    path: "src/lib/auth.ts",
+    content:
+      "export function useAuthSession() {\n  return getSessionToken();\n}\n",
+  },
+  {
+    path: "src/components/Header.tsx",
+    content:
+      "export const Header = () => <header>Welcome back</header>;\nconst title = 'session';\n",
+  },
+  {
+    path: "src/pages/Checkout.tsx",
+    content: "export default function Checkout() {\n  return null;\n}\n",
+  },
+];
+
+describe("code_search_index", () => {
+  afterEach(() => {
+    clearCodeSearchIndex();
+    vi.useRealTimers();
+    vi.mocked(extractCodebase).mockClear();
+  });
+
+  it("splits identifiers into search terms", () => {
+    expect(tokenizeCode("useAuthSession(HTTPServer)")).toEqual([
+      "useauthsession",
+      "use",
+      "auth",
+      "session",
+      "httpserver",
+      "http",
+      "server",
+    ]);
+    expect(extractSymbols(FILES[0].content)).toEqual(["useAuthSession"]);
+  });
+
+  it("ranks files declaring a matching symbol first", () => {
+    syncCodeSearchIndex(APP_PATH, FILES);
+
+    const matches = rankIndexedFiles(APP_PATH, "auth session");
+
+    expect(matches.map((match) => match.path)).toEqual([
+      "src/lib/auth.ts",
+      "src/components/Header.tsx",
+    ]);
+    expect(matches[0].symbols).toEqual(["useAuthSession"]);
+    expect(rankIndexedFiles(APP_PATH, "checkout")[0].path).toBe(
+      "src/pages/Checkout.tsx",
+    );
+  });
+
+  it("drops files that disappear from the codebase", () => {
+    syncCodeSearchIndex(APP_PATH, FILES);
+    syncCodeSearchIndex(APP_PATH, FILES.slice(1));
+
+    expect(
+      rankIndexedFiles(APP_PATH, "auth").map((match) => match.path),
+    ).toEqual([]);
+  });
+
+  it("applies committed changes to an existing index", async () => {
+    const appPath = fs.mkdtempSync(path.join(os.tmpdir(), "code-index-"));
+    try {
+      syncCodeSearchIndex(appPath, FILES);
+      fs.mkdirSync(path.join(appPath, "src/pages"), { recursive: true });
+      fs.writeFileSync(
+        path.join(appPath, "src/pages/Checkout.tsx"),
+        "export function PaymentForm() {}\n",
+      );
+
+      await updateCodeSearchIndex(appPath, {
+        changedPaths: ["src/pages/Checkout.tsx", "src/missing.ts"],
+        deletedPaths: ["src/lib/auth.ts"],
+      });
+
+      expect(rankIndexedFiles(appPath, "payment")[0].path).toBe(
+        "src/pages/Checkout.tsx",
+      );
+      expect(rankIndexedFiles(appPath, "auth")).toEqual([]);
+    } finally {
+      fs.rmSync(appPath, { recursive: true, force: true });
+    }
+  });
+
+  it("keeps the most relevant and forced files for smart context", () => {
+    const files = [
+      { ...FILES[2], force: true },
+      FILES[1],
+      FILES[0],
+      { path: "src/unrelated.ts", content: "export const answer = 42;\n" },
+    ];
+
+    const selected = selectSmartContextFiles({
+      appPath: APP_PATH,
+      files,
+      query: "auth",
+      maxFiles: 2,
+    });
+
+    expect(selected.map((file) => file.path)).toEqual([
+      "src/pages/Checkout.tsx",
+      "src/lib/auth.ts",
+      "src/unrelated.ts",
+    ]);
+  });
+
+  it("reuses a fresh index and rebuilds a stale or expired one", async () => {
+    vi.useFakeTimers();
+
+    await searchCodebase(APP_PATH, "auth");
+    await searchCodebase(APP_PATH, "checkout");
+    expect(extractCodebase).toHaveBeenCalledTimes(1);
+
+    markCodeSearchIndexStale(APP_PATH);
+    await searchCodebase(APP_PATH, "auth");
+    expect(extractCodebase).toHaveBeenCalledTimes(2);
+
+    vi.advanceTimersByTime(61_000);
+    expect((await searchCodebase(APP_PATH, "auth"))[0].path).toBe(
+      "src/lib/auth.ts",
+    );
+    expect(extractCodebase).toHaveBeenCalledTimes(3);
+  });
+
+  it("evicts the least recently used app indexes", () => {
+    for (let i = 0; i < 17; i++) {
+      syncCodeSearchIndex(`/apps/app-${i}`, FILES);
+      if (i === 0) {
+        continue;
+      }
+      // Searching the first app keeps it the most recently used.
+      rankIndexedFiles("/apps/app-0", "auth");
+    }
+
+    expect(rankIndexedFiles("/apps/app-0", "auth")).not.toEqual([]);
+    expect(rankIndexedFiles("/apps/app-1", "auth")).toEqual([]);
+    expect(rankIndexedFiles("/apps/app-16", "auth")).not.toEqual([]);
+  });
+});
@@ -0,0 +1,135 @@
+import { PgDialect } from "drizzle-orm/pg-core";
+import type { SQL } from "drizzle-orm";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { UserSettings } from "@/lib/schemas";
+import { getModelClient } from "@/ipc/utils/get_model_client";
+
+const { providerRows, whereConditions, mockCreateOpenAICompatible } =
+  vi.hoisted(() => ({
+    providerRows: [] as Record<string, unknown>[],
+    whereConditions: [] as unknown[],
+    mockCreateOpenAICompatible: vi.fn(),
+  }));
+
+vi.mock("/src/db/index.ts", () => ({
+  db: {
+    select: () => ({
+      from: () => ({
+        where: (condition: unknown) => {
+          whereConditions.push(condition);
+          return Object.assign(Promise.resolve(providerRows), {
+            limit: async () =>
+              providerRows.map((row) => ({
+                apiKeyEncrypted: row.api_key_encrypted,
+              })),
+          });
+        },
+      }),
+    }),
+  },
+}));
+
+vi.mock("@/ipc/utils/secret_crypto", () => ({
+  decryptSecret: (value: string) => `decrypted:${value}`,
+}));
+
+vi.mock("@ai-sdk/openai-compatible", () => ({
+  createOpenAICompatible: mockCreateOpenAICompatible,
+}));
+
+const scope = { organizationId: "org-1", workspaceId: "ws-1" };
+
+function createSettings(): UserSettings {
+  return {
+    selectedModel: { provider: "custom::gateway", name: "gateway-model" },
+    providerSettings: {},
+    telemetryConsent: "unset",
+    telemetryUserId: "test-user",
+    hasRunBefore: false,
+    enableProLazyEditsMode: true,
+    enableProSmartFilesContextMode: true,
+    selectedChatMode: "build",
+    enableAutoFixProblems: false,
+    enableAutoUpdate: true,
+    releaseChannel: "stable",
+    selectedTemplateId: "react",
+    selectedThemeId: "default",
+    enableNativeGit: true,
+  };
+}
+
+describe("getModelClient with a workspace scope", () => {
+  beforeEach(() => {
+    providerRows.length = 0;
+    whereConditions.length = 0;
+    mockCreateOpenAICompatible.mockReset();
+    mockCreateOpenAICompatible.mockReturnValue(
+      (modelName: string) => `model:${modelName}`,
+    );
+  });
+
+  it("builds the client from the workspace provider and its stored key", async () => {
+    providerRows.push({
+      id: "custom::gateway",
+      name: "Gateway",
+      api_base_url: "https://llm.example.com/v1",
+      env_var_name: null,
+      trust_self_signed: false,
+      api_key_encrypted: "stored-key",
+    });
+
+    const { modelClient } = await getModelClient(
+      { provider: "custom::gateway", name: "gateway-model" },
+      createSettings(),
+      scope,
+    );
+
+    expect(modelClient.model).toBe("model:gateway-model");
+    expect(mockCreateOpenAICompatible).toHaveBeenCalledWith(
+      expect.objectContaining({
+        name: "custom::gateway",
+        baseURL: "https://llm.example.com/v1",
+        apiKey: "decrypted:stored-key",
+      }),
+    );
+    const query = new PgDialect().sqlToQuery(whereConditions[0] as SQL);
+    expect(query.params).toEqual(expect.arrayContaining(["org-1", "ws-1"]));
+  });
+
+  it("never sends a server env value as the key of a custom provider", async () => {
+    vi.stubEnv("DATABASE_URL", "postgres://secret");
+    providerRows.push({
+      id: "custom::gateway",
+      name: "Gateway",
+      api_base_url: "https://attacker.example.com/v1",
+      env_var_name: "DATABASE_URL",
+      trust_self_signed: false,
+      api_key_encrypted: null,
+    });
+
+    try {
+      await getModelClient(
+        { provider: "custom::gateway", name: "gateway-model" },
+        createSettings(),
+        scope,
+      );
+    } finally {
+      vi.unstubAllEnvs();
+    }
+
+    expect(mockCreateOpenAICompatible).toHaveBeenCalledWith(
+      expect.objectContaining({ apiKey: undefined }),
+    );
+  });
+
+  it("fails for providers outside the workspace", async () => {
+    await expect(
+      getModelClient(
+        { provider: "custom::gateway", name: "gateway-model" },
+        createSettings(),
+        scope,
+      ),
+    ).rejects.toThrow("Configuration not found for provider: custom::gateway");
+    expect(mockCreateOpenAICompatible).not.toHaveBeenCalled();
+  });
+});
@@ -1,8 +1,11 @@
 import fs from "node:fs";
 import os from "node:os";
 import path from "node:path";
-import { beforeEach, describe, expect, it, vi } from "vitest";
-import { isGitStatusClean } from "@/ipc/utils/git_utils";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  assertGitBranchCheckedOut,
+  isGitStatusClean,
+} from "@/ipc/utils/git_utils";
 import { readSettings } from "@/main/settings";
 
 const mockDugiteExec = vi.fn();
@@ -60,3 +63,46 @@ describe("git_utils native git path validation", () => {
     }
   });
 });
+
+describe("assertGitBranchCheckedOut", () => {
+  let projectPath: string;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(readSettings).mockReturnValue({ enableNativeGit: true } as any);
+    projectPath = fs.mkdtempSync(path.join(os.tmpdir(), "blaze-branch-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(projectPath, { recursive: true, force: true });
+  });
+
+  it("passes when the branch is checked out", async () => {
+    mockDugiteExec.mockResolvedValue({
+      exitCode: 0,
+      stdout: "experiment\n",
+      stderr: "",
+    });
+
+    await expect(
+      assertGitBranchCheckedOut({ path: projectPath, branch: "experiment" }),
+    ).resolves.toBeUndefined();
+  });
+
+  it("refuses to switch to another branch", async () => {
+    mockDugiteExec.mockResolvedValue({
+      exitCode: 0,
+      stdout: "main\n",
+      stderr: "",
+    });
+
+    await expect(
+      assertGitBranchCheckedOut({ path: projectPath, branch: "experiment" }),
+    ).rejects.toMatchObject({
+      code: "BRANCH_MISMATCH",
+      message:
+        "This chat works on branch experiment, but the app is on branch main. Switch the app to branch experiment first.",
+    });
+    expect(mockDugiteExec).toHaveBeenCalledTimes(1);
+  });
+});
@@ -173,12 +173,23 @@ vi.mock("@/db", () => ({
     })),
     select: vi.fn(() => ({
       from: vi.fn(() => ({
-        where: vi.fn(() => Promise.resolve([])),
+        // Lists resolve empty; `.limit(1)` is the model price lookup.
+        where: vi.fn(() =>
+          Object.assign(Promise.resolve([]), {
+            limit: vi.fn(async () => mockModelPrices),
+          }),
+        ),
       })),
     })),
   },
 }));
 
+let mockModelPrices: Array<{
+  inputPricePerMillionTokens: number | null;
+  outputPricePerMillionTokens: number | null;
+  cachedInputPricePerMillionTokens: number | null;
+}> = [];
+
 let mockSettings: ReturnType<typeof buildTestSettings> = buildTestSettings();
 
 vi.mock("@/main/settings", () => ({
@@ -224,6 +235,10 @@ vi.mock("@/ipc/utils/token_utils", () => ({
   getTemperature: vi.fn(async () => 0.7),
 }));
 
+vi.mock("@/ipc/utils/findLanguageModel", () => ({
+  modelSupportsImageInput: vi.fn(async () => true),
+}));
+
 vi.mock("@/ipc/utils/provider_options", () => ({
   getProviderOptions: vi.fn(() => ({})),
   getAiHeaders: vi.fn(() => ({})),
@@ -237,9 +252,15 @@ vi.mock("@/ipc/utils/mcp_manager", () => ({
   },
 }));
 
+// Reading the flag would spawn a login shell to resolve the environment.
+vi.mock("@/http/feature_flags", () => ({
+  isMcpChatToolsEnabled: vi.fn(() => false),
+}));
+
 vi.mock("@/core/main/ipc/handlers/local_agent/tool_definitions", () => ({
   TOOL_DEFINITIONS: [],
   buildAgentToolSet: vi.fn(() => ({})),
+  getAgentToolConsents: vi.fn(async () => ({})),
   requireAgentToolConsent: vi.fn(async () => true),
   clearPendingConsentsForChat: vi.fn(),
 }));
@@ -270,6 +291,7 @@ describe("handleLocalAgentStream", () => {
     mockChatData = null;
     mockSettings = buildTestSettings();
     mockStreamResult = null;
+    mockModelPrices = [];
   });
 
   describe("Pro status validation", () => {
@@ -325,6 +347,114 @@ describe("handleLocalAgentStream", () => {
     });
   });
 
+  describe("Settings resolution", () => {
+    it("uses the settings of the request user over the settings file", async () => {
+      const { event, getMessagesByChannel } = createFakeEvent();
+      mockSettings = buildTestSettings({ enableBlazePro: false });
+      mockChatData = null;
+
+      await expect(
+        handleLocalAgentStream(
+          event,
+          {
+            chatId: 999,
+            prompt: "test",
+            settings: buildTestSettings({ enableBlazePro: true }) as any,
+          },
+          new AbortController(),
+          {
+            placeholderMessageId: 10,
+            systemPrompt: "You are helpful",
+            blazeRequestId,
+          },
+        ),
+      ).rejects.toThrow("Chat not found: 999");
+      expect(getMessagesByChannel("chat:response:error")).toHaveLength(0);
+    });
+  });
+
+  describe("Tenant-scoped streams", () => {
+    it("runs without Blaze Pro and reports turn usage on completion", async () => {
+      const { event, getMessagesByChannel } = createFakeEvent();
+      mockSettings = buildTestSettings({ enableBlazePro: false });
+      mockChatData = buildTestChat();
+      mockStreamResult = {
+        ...createFakeStream([{ type: "text-delta", text: "Done" }]),
+        totalUsage: Promise.resolve({ inputTokens: 120, outputTokens: 30 }),
+      } as ReturnType<typeof createFakeStream>;
+
+      await handleLocalAgentStream(
+        event,
+        { chatId: 1, prompt: "test" },
+        new AbortController(),
+        {
+          placeholderMessageId: 10,
+          systemPrompt: "You are helpful",
+          blazeRequestId,
+          settings: mockSettings as any,
+          tenantScope: { organizationId: "org-1", workspaceId: "ws-1" },
+        },
+      );
+
+      expect(getMessagesByChannel("chat:response:error")).toHaveLength(0);
+      const endMessages = getMessagesByChannel("chat:response:end");
+      expect(endMessages).toHaveLength(1);
+      expect(endMessages[0].args[0]).toMatchObject({
+        chatId: 1,
+        inputTokens: 120,
+        outputTokens: 30,
+        costMicroUsd: null,
+      });
+      expect(dbOperations.updates.some((u) => u.data.inputTokens === 120)).toBe(
+        true,
+      );
+    });
+
+    it("prices the turn with the workspace model prices", async () => {
+      const { event, getMessagesByChannel } = createFakeEvent();
+      mockSettings = buildTestSettings({ enableBlazePro: false });
+      mockChatData = buildTestChat();
+      mockModelPrices = [
+        {
+          inputPricePerMillionTokens: 2,
+          outputPricePerMillionTokens: 10,
+          cachedInputPricePerMillionTokens: null,
+        },
+      ];
+      mockStreamResult = {
+        ...createFakeStream([{ type: "text-delta", text: "Done" }]),
+        totalUsage: Promise.resolve({ inputTokens: 120, outputTokens: 30 }),
+      } as ReturnType<typeof createFakeStream>;
+
+      await handleLocalAgentStream(
+        event,
+        { chatId: 1, prompt: "test" },
+        new AbortController(),
+        {
+          placeholderMessageId: 10,
+          systemPrompt: "You are helpful",
+          blazeRequestId,
+          settings: mockSettings as any,
+          tenantScope: { organizationId: "org-1", workspaceId: "ws-1" },
+        },
+      );
+
+      // 120 input tokens at $2 and 30 output tokens at $10 per million.
+      expect(
+        getMessagesByChannel("chat:response:end")[0].args[0],
+      ).toMatchObject({
+        inputTokens: 120,
+        outputTokens: 30,
+        costMicroUsd: 540,
+      });
+      expect(dbOperations.updates).toContainEqual(
+        expect.objectContaining({
+          data: expect.objectContaining({ costMicroUsd: 540 }),
+        }),
+      );
+    });
+  });
+
   describe("Chat lookup", () => {
     it("should throw error when chat is not found", async () => {
       // Arrange
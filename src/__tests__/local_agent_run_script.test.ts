@@ -0,0 +1,129 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  runScriptTool,
+  summarizeScriptFailure,
+} from "@/core/main/ipc/handlers/local_agent/tools/run_script";
+import type { AgentContext } from "@/core/main/ipc/handlers/local_agent/tools/types";
+
+describe("run_script tool", () => {
+  let appPath: string;
+
+  const createContext = () =>
+    ({
+      appId: 1,
+      appPath,
+      onXmlStream: vi.fn(),
+      onXmlComplete: vi.fn(),
+    }) as unknown as AgentContext;
+
+  beforeEach(() => {
+    appPath = fs.mkdtempSync(path.join(os.tmpdir(), "run-script-"));
+    fs.writeFileSync(
+      path.join(appPath, "package.json"),
+      JSON.stringify({
+        name: "demo",
+        scripts: {
+          test: "node -e \"console.log('1 passed')\"",
+          lint: "node -e \"console.error('src/App.tsx: error no-unused-vars'); process.exit(1)\"",
+          hang: 'node -e "setTimeout(() => {}, 60000)"',
+          env: "node -e \"console.log('secret=' + process.env.BLAZE_SECRETS_KEY, 'path=' + Boolean(process.env.PATH))\"",
+          limits: "cat /proc/self/limits",
+        },
+      }),
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(appPath, { recursive: true, force: true });
+    delete process.env.BLAZE_SECRETS_KEY;
+  });
+
+  it("rejects scripts that are not declared in package.json", async () => {
+    await expect(
+      runScriptTool.execute({ script: "deploy" }, createContext()),
+    ).rejects.toThrow("Available scripts: test, lint, hang, env, limits");
+  });
+
+  it("reports passing scripts", async () => {
+    const ctx = createContext();
+
+    const result = await runScriptTool.execute({ script: "test" }, ctx);
+
+    expect(result).toMatch(/^Script "test" passed/);
+    expect(result).toContain("1 passed");
+    expect(ctx.onXmlComplete).toHaveBeenCalledWith(
+      expect.stringContaining('status="passed" exit-code="0"'),
+    );
+  });
+
+  it("summarizes failures", async () => {
+    const result = await runScriptTool.execute(
+      { script: "lint" },
+      createContext(),
+    );
+
+    expect(result).toMatch(/^Script "lint" failed with exit code 1/);
+    expect(result).toContain(
+      "Failure summary:\nsrc/App.tsx: error no-unused-vars",
+    );
+  });
+
+  it("stops scripts that exceed the timeout", async () => {
+    const result = await runScriptTool.execute(
+      { script: "hang", timeoutSeconds: 1 },
+      createContext(),
+    );
+
+    expect(result).toMatch(/^Script "hang" timed out after 1s/);
+  });
+
+  it("stops the script tree when the chat is cancelled", async () => {
+    const abortController = new AbortController();
+    const ctx = {
+      ...createContext(),
+      abortSignal: abortController.signal,
+    } as AgentContext;
+    setTimeout(() => abortController.abort(), 300);
+
+    const result = await runScriptTool.execute({ script: "hang" }, ctx);
+
+    expect(result).toMatch(/^Script "hang" was stopped because the chat/);
+    expect(ctx.onXmlComplete).toHaveBeenCalledWith(
+      expect.stringContaining('status="cancelled"'),
+    );
+  });
+
+  it("passes only allowlisted environment variables", async () => {
+    process.env.BLAZE_SECRETS_KEY = "server-secret";
+
+    const result = await runScriptTool.execute(
+      { script: "env" },
+      createContext(),
+    );
+
+    expect(result).toContain("secret=undefined path=true");
+  });
+
+  it.runIf(process.platform === "linux")(
+    "runs scripts under memory, CPU and process limits",
+    async () => {
+      const result = await runScriptTool.execute(
+        { script: "limits", timeoutSeconds: 30 },
+        createContext(),
+      );
+
+      expect(result).toMatch(/Max cpu time\s+60\s+60/);
+      expect(result).toMatch(/Max data size\s+4294967296\s+4294967296/);
+      expect(result).toMatch(/Max processes\s+1024\s+1024/);
+    },
+  );
+
+  it("falls back to the output tail when no failure lines match", () => {
+    expect(summarizeScriptFailure("building\n\u001b[31mdone\u001b[0m\n")).toBe(
+      "building\ndone",
+    );
+  });
+});
@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { screenshotPreviewTool } from "@/core/main/ipc/handlers/local_agent/tools/screenshot_preview";
+import type { AgentContext } from "@/core/main/ipc/handlers/local_agent/tools/types";
+import {
+  deletePreviewProxyUrl,
+  setPreviewProxyUrl,
+} from "@/http/preview_proxy_registry";
+import {
+  capturePreviewScreenshot,
+  resolvePreviewScreenshotUrl,
+} from "@/http/preview_screenshot";
+
+vi.mock("@/http/preview_screenshot", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/http/preview_screenshot")>()),
+  capturePreviewScreenshot: vi.fn(),
+}));
+
+describe("screenshot_preview tool", () => {
+  const createContext = (overrides: Partial<AgentContext> = {}) =>
+    ({
+      appId: 7,
+      appPath: "/apps/demo",
+      supportsImageInput: true,
+      onXmlStream: vi.fn(),
+      onXmlComplete: vi.fn(),
+      appendUserMessage: vi.fn(),
+      ...overrides,
+    }) as unknown as AgentContext;
+
+  beforeEach(() => {
+    vi.mocked(capturePreviewScreenshot).mockResolvedValue(
+      Buffer.from("png-bytes"),
+    );
+  });
+
+  afterEach(() => {
+    deletePreviewProxyUrl(7);
+    vi.clearAllMocks();
+  });
+
+  it("fails when the preview is not running", async () => {
+    await expect(
+      screenshotPreviewTool.execute({}, createContext()),
+    ).rejects.toThrow("The app preview is not running");
+    expect(capturePreviewScreenshot).not.toHaveBeenCalled();
+  });
+
+  it("captures the route through the preview proxy and attaches the image", async () => {
+    setPreviewProxyUrl(7, "http://127.0.0.1:41000");
+    const ctx = createContext();
+
+    const result = await screenshotPreviewTool.execute(
+      { route: "/settings", device: "mobile" },
+      ctx,
+    );
+
+    expect(capturePreviewScreenshot).toHaveBeenCalledWith({
+      appId: 7,
+      previewUrl: "http://127.0.0.1:41000",
+      route: "/settings",
+      viewport: { width: 390, height: 844 },
+      fullPage: undefined,
+    });
+    expect(ctx.appendUserMessage).toHaveBeenCalledWith([
+      {
+        type: "text",
+        text: "Screenshot of the app preview at route /settings (mobile):",
+      },
+      {
+        type: "image-url",
+        url: `data:image/png;base64,${Buffer.from("png-bytes").toString("base64")}`,
+      },
+    ]);
+    expect(ctx.onXmlComplete).toHaveBeenCalledWith(
+      '<blaze-screenshot-preview route="/settings" device="mobile"></blaze-screenshot-preview>',
+    );
+    expect(result).toContain("captured");
+  });
+
+  it("returns a text result when the model cannot view images", async () => {
+    setPreviewProxyUrl(7, "http://127.0.0.1:41000");
+    const ctx = createContext({ supportsImageInput: false });
+
+    const result = await screenshotPreviewTool.execute({}, ctx);
+
+    expect(capturePreviewScreenshot).toHaveBeenCalled();
+    expect(ctx.appendUserMessage).not.toHaveBeenCalled();
+    expect(ctx.onXmlComplete).toHaveBeenCalledWith(
+      '<blaze-screenshot-preview route="/" device="desktop"></blaze-screenshot-preview>',
+    );
+    expect(result).toContain("cannot view images");
+  });
+
+  it("only resolves same-origin preview routes", () => {
+    expect(
+      resolvePreviewScreenshotUrl("http://127.0.0.1:41000", "/a?b=1#c"),
+    ).toBe("http://127.0.0.1:41000/a?b=1#c");
+    expect(() =>
+      resolvePreviewScreenshotUrl("http://127.0.0.1:41000", "//evil.test/"),
+    ).toThrow("Preview route must be a path");
+    expect(() =>
+      resolvePreviewScreenshotUrl(
+        "http://127.0.0.1:41000",
+        "http://evil.test/",
+      ),
+    ).toThrow("Preview route must be a path");
+  });
+});
@@ -0,0 +1,170 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  buildProposalFileDiffs,
+  computeLineDiff,
+} from "/src/ipc/processors/proposal_diff.ts";
+
+describe("proposal_diff", () => {
+  let appPath: string;
+
+  beforeEach(() => {
+    appPath = fs.mkdtempSync(path.join(os.tmpdir(), "proposal-diff-"));
+    fs.mkdirSync(path.join(appPath, "src"));
+    fs.writeFileSync(
+      path.join(appPath, "src/App.tsx"),
+      "const a = 1;\nconst b = 2;\nconst c = 3;",
+    );
+    fs.writeFileSync(path.join(appPath, "src/old.ts"), "export {};");
+  });
+
+  afterEach(() => {
+    fs.rmSync(appPath, { recursive: true, force: true });
+  });
+
+  it("computes line hunks with old and new positions", () => {
+    expect(computeLineDiff("a\nb\nc\n", "a\nB\nc\n")).toEqual([
+      {
+        oldStart: 1,
+        oldLines: 3,
+        newStart: 1,
+        newLines: 3,
+        lines: [
+          { type: "context", text: "a" },
+          { type: "remove", text: "b" },
+          { type: "add", text: "B" },
+          { type: "context", text: "c" },
+        ],
+      },
+    ]);
+  });
+
+  it("diffs added and modified files from full writes", async () => {
+    const diffs = await buildProposalFileDiffs({
+      appPath,
+      messageContent: `<blaze-write path="src/App.tsx">
+const a = 1;
+const b = 20;
+const c = 3;
+</blaze-write>
+<blaze-write path="src/new.ts">
+export const x = 1;
+</blaze-write>`,
+    });
+
+    expect(diffs.map(({ actionId, status }) => [actionId, status])).toEqual([
+      ["action-0", "modified"],
+      ["action-1", "added"],
+    ]);
+    expect(
+      diffs[0].hunks[0].lines.filter((line) => line.type !== "context"),
+    ).toEqual([
+      { type: "remove", text: "const b = 2;" },
+      { type: "add", text: "const b = 20;" },
+    ]);
+    expect(diffs[1].hunks[0].lines).toEqual([
+      { type: "add", text: "export const x = 1;" },
+    ]);
+  });
+
+  it("resolves search-replace and patch edits against the working tree", async () => {
+    const diffs = await buildProposalFileDiffs({
+      appPath,
+      messageContent: `<blaze-patch path="src/App.tsx">
+@@ -2,2 +2,2 @@
+ const b = 2;
+-const c = 3;
++const c = 30;
+</blaze-patch>
+<blaze-search-replace path="src/App.tsx">
+<<<<<<< SEARCH
+const a = 1;
+=======
+const a = 10;
+>>>>>>> REPLACE
+</blaze-search-replace>`,
+    });
+
+    // Search-replace runs before patches, as in processFullResponseActions.
+    expect(diffs.map((diff) => [diff.actionId, diff.type])).toEqual([
+      ["action-1", "search-replace"],
+      ["action-0", "patch"],
+    ]);
+    expect(diffs.every((diff) => diff.status === "modified")).toBe(true);
+    expect(diffs[1].hunks[0].lines).toContainEqual({
+      type: "context",
+      text: "const a = 10;",
+    });
+    expect(fs.readFileSync(path.join(appPath, "src/App.tsx"), "utf8")).toBe(
+      "const a = 1;\nconst b = 2;\nconst c = 3;",
+    );
+  });
+
+  it("diffs writes to a renamed file against the original content", async () => {
+    const diffs = await buildProposalFileDiffs({
+      appPath,
+      messageContent: `<blaze-write path="src/renamed.ts">
+export const renamed = true;
+</blaze-write>
+<blaze-rename from="src/old.ts" to="src/renamed.ts"></blaze-rename>`,
+    });
+
+    expect(diffs[0]).toMatchObject({
+      actionId: "action-1",
+      type: "rename",
+      fromPath: "src/old.ts",
+      path: "src/renamed.ts",
+      status: "renamed",
+    });
+    expect(diffs[1]).toMatchObject({
+      actionId: "action-0",
+      status: "modified",
+    });
+    expect(diffs[1].hunks[0].lines).toEqual([
+      { type: "remove", text: "export {};" },
+      { type: "add", text: "export const renamed = true;" },
+    ]);
+    expect(fs.existsSync(path.join(appPath, "src/old.ts"))).toBe(true);
+  });
+
+  it("flags blocks that would fail to apply", async () => {
+    const diffs = await buildProposalFileDiffs({
+      appPath,
+      messageContent: `<blaze-search-replace path="src/App.tsx">
+<<<<<<< SEARCH
+const missing = 0;
+=======
+const missing = 1;
+>>>>>>> REPLACE
+</blaze-search-replace>
+<blaze-patch path="src/Missing.tsx">
+@@ -1,1 +1,1 @@
+-a
++b
+</blaze-patch>
+<blaze-delete path="src/gone.ts"></blaze-delete>
+<blaze-delete path="src/old.ts"></blaze-delete>`,
+    });
+
+    const byActionId = Object.fromEntries(
+      diffs.map((diff) => [diff.actionId, diff]),
+    );
+    expect(byActionId["action-0"]).toMatchObject({
+      status: "unchanged",
+      hunks: [],
+    });
+    expect(byActionId["action-0"].error).toContain(
+      "Failed to apply search-replace to src/App.tsx",
+    );
+    expect(byActionId["action-1"].error).toBe(
+      "Patch target file does not exist: src/Missing.tsx",
+    );
+    expect(byActionId["action-2"].error).toBe(
+      "File to delete does not exist: src/gone.ts",
+    );
+    expect(byActionId["action-3"]).toMatchObject({ status: "deleted" });
+    expect(byActionId["action-3"].error).toBeUndefined();
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import {
+  formatProposalReviewFeedback,
+  selectProposalActions,
+} from "/src/ipc/processors/proposal_review.ts";
+
+const MESSAGE = `I updated the hero and moved the helper.
+<blaze-write path="src/App.tsx" description="Hero">
+export default function App() {}
+</blaze-write>
+<blaze-add-dependency packages="zod"></blaze-add-dependency>
+<blaze-rename from="src/utils.ts" to="src/lib/utils.ts"></blaze-rename>
+<blaze-delete path="src/Old.tsx"></blaze-delete>
+<blaze-chat-summary>Hero update</blaze-chat-summary>`;
+
+describe("proposal_review", () => {
+  it("accepts every file change without a selection", () => {
+    const { response, review } = selectProposalActions(MESSAGE);
+
+    expect(response).toBe(MESSAGE);
+    expect(review.rejected).toEqual([]);
+    expect(review.accepted).toEqual([
+      { actionId: "action-0", type: "write", path: "src/App.tsx" },
+      {
+        actionId: "action-2",
+        type: "rename",
+        path: "src/lib/utils.ts",
+        fromPath: "src/utils.ts",
+      },
+      { actionId: "action-3", type: "delete", path: "src/Old.tsx" },
+    ]);
+  });
+
+  it("drops rejected file changes from the response to apply", () => {
+    const { response, review } = selectProposalActions(MESSAGE, {
+      actionIds: ["action-0"],
+      paths: ["src/utils.ts"],
+    });
+
+    expect(review.accepted.map((action) => action.actionId)).toEqual([
+      "action-0",
+      "action-2",
+    ]);
+    expect(review.rejected).toEqual([
+      { actionId: "action-3", type: "delete", path: "src/Old.tsx" },
+    ]);
+    expect(response).not.toContain("blaze-delete");
+    expect(response).toContain('<blaze-write path="src/App.tsx"');
+    expect(response).toContain("<blaze-add-dependency");
+    expect(response).toContain("<blaze-chat-summary>");
+    expect(response).toContain("I updated the hero");
+  });
+
+  it("rejects unknown changes and empty selections", () => {
+    expect(() =>
+      selectProposalActions(MESSAGE, {
+        actionIds: ["action-1", "action-9"],
+        paths: ["src/Missing.tsx"],
+      }),
+    ).toThrow(
+      expect.objectContaining({
+        statusCode: 400,
+        code: "INVALID_PROPOSAL_SELECTION",
+        message:
+          "Unknown proposal changes: action-1, action-9, src/Missing.tsx",
+      }),
+    );
+    expect(() => selectProposalActions(MESSAGE, { actionIds: [] })).toThrow(
+      expect.objectContaining({
+        statusCode: 400,
+        code: "INVALID_PROPOSAL_SELECTION",
+        message: expect.stringContaining(
+          "Select at least one change to approve",
+        ),
+      }),
+    );
+  });
+
+  it("formats the rejected changes as feedback for the model", () => {
+    expect(
+      formatProposalReviewFeedback({
+        accepted: [{ actionId: "action-0", type: "write", path: "src/A.tsx" }],
+        rejected: [
+          { actionId: "action-1", type: "delete", path: "src/B.tsx" },
+          {
+            actionId: "action-2",
+            type: "rename",
+            path: "src/D.ts",
+            fromPath: "src/C.ts",
+          },
+        ],
+      }),
+    ).toBe(
+      [
+        "The user approved only some of the changes above. These were rejected and not applied:",
+        "- delete src/B.tsx",
+        "- rename src/C.ts -> src/D.ts",
+      ].join("\n"),
+    );
+    expect(
+      formatProposalReviewFeedback({ accepted: [], rejected: [] }),
+    ).toBeNull();
+    expect(formatProposalReviewFeedback(null)).toBeNull();
+  });
+});
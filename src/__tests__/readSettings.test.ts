@@ -100,7 +100,7 @@ describe("readSettings", () => {
       expect(result.uiLanguage).toBe("ru");
     });
 
-    it("normalizes legacy chat modes to build for HTTP-only runtime", () => {
+    it("maps the legacy local-agent chat mode to agent", () => {
       const mockFileContent = {
         selectedChatMode: "local-agent",
         defaultChatMode: "agent",
@@ -111,8 +111,21 @@ describe("readSettings", () => {
 
       const result = readSettings();
 
+      expect(result.selectedChatMode).toBe("agent");
+      expect(result.defaultChatMode).toBe("agent");
+    });
+
+    it("normalizes unknown chat modes to build", () => {
+      const mockFileContent = {
+        selectedChatMode: "autopilot",
+      };
+
+      mockFs.existsSync.mockReturnValue(true);
+      mockFs.readFileSync.mockReturnValue(JSON.stringify(mockFileContent));
+
+      const result = readSettings();
+
       expect(result.selectedChatMode).toBe("build");
-      expect(result.defaultChatMode).toBe("build");
     });
 
     it("preserves provider API keys when legacy encrypted settings are loaded", () => {
@@ -0,0 +1,181 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { getBlazeActions } from "/src/ipc/utils/blaze_tag_parser.ts";
+import {
+  getCurrentCommitHash,
+  getGitUncommittedFiles,
+  gitAdd,
+  gitCommit,
+  gitInit,
+  gitRemove,
+} from "/src/ipc/utils/git_utils.ts";
+import {
+  restoreFileSnapshot,
+  rollBackFileSnapshot,
+  stageFileActions,
+  takeFileSnapshot,
+} from "/src/ipc/processors/staged_apply.ts";
+
+vi.mock("/src/main/settings.ts", () => ({
+  readSettings: () => ({ enableNativeGit: false }),
+}));
+
+describe("staged_apply", () => {
+  let appPath: string;
+
+  beforeEach(() => {
+    appPath = fs.mkdtempSync(path.join(os.tmpdir(), "staged-apply-"));
+    fs.mkdirSync(path.join(appPath, "src"));
+    fs.writeFileSync(
+      path.join(appPath, "src/utils.ts"),
+      "export const a = 1;\n",
+    );
+    fs.writeFileSync(path.join(appPath, "src/Old.tsx"), "export {};\n");
+  });
+
+  afterEach(() => {
+    fs.rmSync(appPath, { recursive: true, force: true });
+  });
+
+  it("stages renames before edits of the renamed file", async () => {
+    const staged = await stageFileActions({
+      appPath,
+      actions: getBlazeActions(`
+<blaze-search-replace path="src/lib/utils.ts">
+<<<<<<< SEARCH
+export const a = 1;
+=======
+export const a = 2;
+>>>>>>> REPLACE
+</blaze-search-replace>
+<blaze-rename from="src/utils.ts" to="src/lib/utils.ts"></blaze-rename>
+<blaze-delete path="src/Missing.tsx"></blaze-delete>`),
+    });
+
+    expect(staged.failures).toEqual([]);
+    expect(staged.operations).toEqual([
+      { type: "rename", from: "src/utils.ts", to: "src/lib/utils.ts" },
+      {
+        type: "edit",
+        path: "src/lib/utils.ts",
+        content: "export const a = 2;\n",
+      },
+    ]);
+    expect(staged.reports[0]).toEqual({
+      type: "delete",
+      path: "src/Missing.tsx",
+      status: "skipped",
+      error: "File to delete does not exist: src/Missing.tsx",
+    });
+    // Nothing is applied while staging
+    expect(fs.existsSync(path.join(appPath, "src/utils.ts"))).toBe(true);
+  });
+
+  it("reports every failing action", async () => {
+    const staged = await stageFileActions({
+      appPath,
+      actions: getBlazeActions(`
+<blaze-delete path="src/utils.ts"></blaze-delete>
+<blaze-search-replace path="src/utils.ts">
+<<<<<<< SEARCH
+export const a = 1;
+=======
+export const a = 2;
+>>>>>>> REPLACE
+</blaze-search-replace>
+<blaze-patch path="src/Old.tsx">
+@@ -1,1 +1,1 @@
+-export const b = 1;
++export const b = 2;
+</blaze-patch>
+<blaze-write path="src/New.tsx">export {};</blaze-write>`),
+    });
+
+    expect(
+      staged.failures.map(({ type, path, status }) => ({ type, path, status })),
+    ).toEqual([
+      { type: "search-replace", path: "src/utils.ts", status: "failed" },
+      { type: "patch", path: "src/Old.tsx", status: "failed" },
+    ]);
+    expect(staged.failures[0].error).toBe(
+      "Search-replace target file does not exist: src/utils.ts",
+    );
+  });
+
+  it("restores snapshotted files and removes files created since", async () => {
+    const snapshot = await takeFileSnapshot(appPath, ["src", "src/New.tsx"]);
+    fs.writeFileSync(path.join(appPath, "src/utils.ts"), "broken");
+    fs.rmSync(path.join(appPath, "src/Old.tsx"));
+    fs.writeFileSync(path.join(appPath, "src/New.tsx"), "new");
+
+    restoreFileSnapshot(appPath, snapshot);
+
+    expect(fs.readFileSync(path.join(appPath, "src/utils.ts"), "utf8")).toBe(
+      "export const a = 1;\n",
+    );
+    expect(fs.readFileSync(path.join(appPath, "src/Old.tsx"), "utf8")).toBe(
+      "export {};\n",
+    );
+    expect(fs.existsSync(path.join(appPath, "src/New.tsx"))).toBe(false);
+  });
+
+  it("rolls a partial apply back to the source commit", async () => {
+    fs.writeFileSync(path.join(appPath, "README.md"), "# App\n");
+    await gitInit({ path: appPath });
+    await gitAdd({ path: appPath, filepath: "." });
+    const sourceCommitHash = await gitCommit({
+      path: appPath,
+      message: "Init",
+    });
+    fs.writeFileSync(path.join(appPath, "src/Old.tsx"), "export const b = 1;");
+    await gitAdd({ path: appPath, filepath: "src/Old.tsx" });
+    await gitCommit({ path: appPath, message: "Later" });
+    // Not committed yet when the apply starts
+    fs.writeFileSync(path.join(appPath, "README.md"), "# Edited\n");
+    const staged = await stageFileActions({
+      appPath,
+      actions: getBlazeActions(`
+<blaze-delete path="src/Old.tsx"></blaze-delete>
+<blaze-rename from="src/utils.ts" to="src/lib/utils.ts"></blaze-rename>
+<blaze-write path="src/New.tsx">export {};</blaze-write>`),
+    });
+    const snapshot = await takeFileSnapshot(appPath, [
+      "src/Old.tsx",
+      "src/utils.ts",
+      "src/lib/utils.ts",
+      "src/New.tsx",
+    ]);
+
+    // Apply the way processFullResponseActions does, until a later step fails.
+    fs.rmSync(path.join(appPath, "src/Old.tsx"));
+    await gitRemove({ path: appPath, filepath: "src/Old.tsx" });
+    fs.mkdirSync(path.join(appPath, "src/lib"));
+    fs.renameSync(
+      path.join(appPath, "src/utils.ts"),
+      path.join(appPath, "src/lib/utils.ts"),
+    );
+    await gitAdd({ path: appPath, filepath: "src/lib/utils.ts" });
+    await gitRemove({ path: appPath, filepath: "src/utils.ts" });
+    fs.writeFileSync(path.join(appPath, "src/New.tsx"), "export {};");
+    await gitAdd({ path: appPath, filepath: "src/New.tsx" });
+
+    await rollBackFileSnapshot({ appPath, snapshot, sourceCommitHash });
+
+    expect(staged.failures).toEqual([]);
+    await expect(getCurrentCommitHash({ path: appPath })).resolves.toBe(
+      sourceCommitHash,
+    );
+    expect(fs.readFileSync(path.join(appPath, "src/Old.tsx"), "utf8")).toBe(
+      "export {};\n",
+    );
+    expect(fs.existsSync(path.join(appPath, "src/New.tsx"))).toBe(false);
+    await expect(getGitUncommittedFiles({ path: appPath })).resolves.toEqual([
+      "README.md",
+    ]);
+    expect(fs.readFileSync(path.join(appPath, "README.md"), "utf8")).toBe(
+      "# Edited\n",
+    );
+  });
+});
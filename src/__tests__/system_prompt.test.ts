@@ -18,6 +18,7 @@ describe("system_prompt chat mode contract", () => {
     expect(buildPrompt).toContain("<role> You are Blaze, an AI editor");
     expect(buildPrompt).toContain("Do *not* emit <blaze-command> tags.");
     expect(buildPrompt).not.toContain("<blaze-command type=");
+    expect(buildPrompt).toContain("# Patch file edits");
     expect(turboBuildPrompt.length).toBeGreaterThan(buildPrompt.length);
   });
 
@@ -30,6 +31,18 @@ describe("system_prompt chat mode contract", () => {
     expect(askPrompt).toContain("NO CODE PRODUCTION");
   });
 
+  it("returns tool-based agent prompt with ai rules for agent mode", () => {
+    const prompt = constructSystemPrompt({
+      aiRules: "FOLLOW_PROJECT_GUIDELINES",
+      chatMode: "agent",
+      enableTurboEditsV2: true,
+    });
+
+    expect(prompt).toContain("You work as an agent");
+    expect(prompt).toContain("FOLLOW_PROJECT_GUIDELINES");
+    expect(prompt).not.toContain("[[AI_RULES]]");
+  });
+
   it("injects ai rules and theme prompt in build mode", () => {
     const prompt = constructSystemPrompt({
       aiRules: "FOLLOW_PROJECT_GUIDELINES",
@@ -0,0 +1,89 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { exec } from "dugite";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { buildVersionDiff } from "/src/ipc/processors/version_diff.ts";
+import { gitLog } from "/src/ipc/utils/git_utils.ts";
+
+const { settingsRef } = vi.hoisted(() => ({
+  settingsRef: { current: { enableNativeGit: true } },
+}));
+
+vi.mock("/src/main/settings.ts", () => ({
+  readSettings: () => settingsRef.current,
+}));
+
+async function git(args: string[], cwd: string) {
+  const result = await exec(
+    ["-c", "user.name=Test", "-c", "user.email=test@example.com", ...args],
+    cwd,
+  );
+  if (result.exitCode !== 0) {
+    throw new Error(result.stderr);
+  }
+  return result.stdout.trim();
+}
+
+describe.each([true, false])("version_diff (native git: %s)", (native) => {
+  let appPath: string;
+  let from: string;
+  let to: string;
+
+  beforeEach(async () => {
+    settingsRef.current = { enableNativeGit: native };
+    appPath = fs.mkdtempSync(path.join(os.tmpdir(), "version-diff-"));
+    await git(["init", "-b", "main"], appPath);
+    fs.mkdirSync(path.join(appPath, "src"));
+    fs.writeFileSync(path.join(appPath, "src/App.tsx"), "const a = 1;\n");
+    fs.writeFileSync(path.join(appPath, "src/old.ts"), "export {};\n");
+    await git(["add", "."], appPath);
+    await git(["commit", "-m", "Initial"], appPath);
+    from = await git(["rev-parse", "HEAD"], appPath);
+
+    fs.writeFileSync(path.join(appPath, "src/App.tsx"), "const a = 2;\n");
+    fs.rmSync(path.join(appPath, "src/old.ts"));
+    fs.writeFileSync(path.join(appPath, "logo.png"), "PNG\0data");
+    await git(["add", "-A"], appPath);
+    await git(["commit", "-m", "Update app"], appPath);
+    to = await git(["rev-parse", "HEAD"], appPath);
+  });
+
+  afterEach(() => {
+    fs.rmSync(appPath, { recursive: true, force: true });
+  });
+
+  it("returns per-file hunks and totals between two commits", async () => {
+    const diff = await buildVersionDiff({ appPath, from, to });
+
+    expect(
+      diff.files.map(({ path, status, binary }) => ({ path, status, binary })),
+    ).toEqual([
+      { path: "logo.png", status: "added", binary: true },
+      { path: "src/App.tsx", status: "modified", binary: false },
+      { path: "src/old.ts", status: "deleted", binary: false },
+    ]);
+    expect(diff.files[1].hunks[0].lines).toEqual([
+      { type: "remove", text: "const a = 1;" },
+      { type: "add", text: "const a = 2;" },
+    ]);
+    expect(diff.stats).toEqual({ filesChanged: 3, additions: 1, deletions: 2 });
+  });
+
+  it("limits the diff and the history to one file", async () => {
+    const diff = await buildVersionDiff({
+      appPath,
+      from,
+      to,
+      filePath: "src/App.tsx",
+    });
+    expect(diff.files.map((file) => file.path)).toEqual(["src/App.tsx"]);
+
+    const history = await gitLog({
+      path: appPath,
+      depth: 10,
+      filepath: "src/old.ts",
+    });
+    expect(history.map((entry) => entry.oid)).toEqual([to, from]);
+  });
+});
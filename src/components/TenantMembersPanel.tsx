@@ -0,0 +1,317 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Trash2, Users } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useI18n } from "@/contexts/I18nContext";
+import { IpcClient } from "@/ipc/ipc_client";
+import type {
+  MembershipRole,
+  MembershipScope,
+  TenantMember,
+} from "@/ipc/ipc_types";
+
+const MEMBERSHIP_ROLES: MembershipRole[] = [
+  "owner",
+  "admin",
+  "member",
+  "viewer",
+];
+
+const MEMBERS_QUERY_KEY = (
+  scope: MembershipScope,
+  orgId: string,
+  workspaceId: string,
+) => ["tenant", "members", scope, orgId, workspaceId] as const;
+
+interface TenantMembersPanelProps {
+  orgId: string;
+  workspaceId: string;
+}
+
+export function TenantMembersPanel({
+  orgId,
+  workspaceId,
+}: TenantMembersPanelProps) {
+  const { t } = useI18n();
+  const queryClient = useQueryClient();
+  const [scope, setScope] = useState<MembershipScope>("organization");
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<MembershipRole>("member");
+  const [actionError, setActionError] = useState<string | null>(null);
+  const queryKey = MEMBERS_QUERY_KEY(scope, orgId, workspaceId);
+
+  const membersQuery = useQuery<TenantMember[], Error>({
+    queryKey,
+    retry: 0,
+    queryFn: async () => {
+      return IpcClient.getInstance().listMembers({
+        scope,
+        orgId,
+        workspaceId,
+      });
+    },
+    meta: { showErrorToast: false },
+  });
+  const members = Array.isArray(membersQuery.data) ? membersQuery.data : [];
+
+  const refreshMembers = async () => {
+    await queryClient.invalidateQueries({ queryKey });
+  };
+
+  const inviteMutation = useMutation<
+    TenantMember,
+    Error,
+    { email: string; role: MembershipRole }
+  >({
+    mutationFn: async ({ email, role }) => {
+      return IpcClient.getInstance().inviteMember({
+        scope,
+        orgId,
+        workspaceId,
+        email,
+        role,
+      });
+    },
+    onSuccess: async () => {
+      setActionError(null);
+      setInviteEmail("");
+      await refreshMembers();
+    },
+    onError: (error) => {
+      setActionError(error?.message || t("tenant.members.error.inviteFailed"));
+    },
+  });
+
+  const updateRoleMutation = useMutation<
+    TenantMember,
+    Error,
+    { membershipId: number; role: MembershipRole }
+  >({
+    mutationFn: async ({ membershipId, role }) => {
+      return IpcClient.getInstance().updateMemberRole({
+        scope,
+        orgId,
+        workspaceId,
+        membershipId,
+        role,
+      });
+    },
+    onSuccess: async () => {
+      setActionError(null);
+      await refreshMembers();
+    },
+    onError: (error) => {
+      setActionError(error?.message || t("tenant.members.error.updateFailed"));
+    },
+  });
+
+  const removeMutation = useMutation<void, Error, { membershipId: number }>({
+    mutationFn: async ({ membershipId }) => {
+      await IpcClient.getInstance().removeMember({
+        scope,
+        orgId,
+        workspaceId,
+        membershipId,
+      });
+    },
+    onSuccess: async () => {
+      setActionError(null);
+      await refreshMembers();
+    },
+    onError: (error) => {
+      setActionError(error?.message || t("tenant.members.error.removeFailed"));
+    },
+  });
+
+  const isBusy =
+    inviteMutation.isPending ||
+    updateRoleMutation.isPending ||
+    removeMutation.isPending;
+
+  const handleInvite = async () => {
+    if (isBusy) {
+      return;
+    }
+    const email = inviteEmail.trim();
+    if (!email) {
+      setActionError(t("tenant.members.error.emailRequired"));
+      return;
+    }
+    setActionError(null);
+    try {
+      await inviteMutation.mutateAsync({ email, role: inviteRole });
+    } catch {
+      // Error is surfaced via mutation onError handler.
+    }
+  };
+
+  useEffect(() => {
+    setActionError(null);
+  }, [scope, orgId, workspaceId]);
+
+  return (
+    <div
+      className="mx-2 rounded-lg border border-sidebar-border/80 p-2 space-y-2"
+      data-testid="tenant-members-panel"
+    >
+      <div className="flex items-center gap-1.5 text-[11px] uppercase tracking-wide text-muted-foreground">
+        <Users className="h-3.5 w-3.5" />
+        <span>{t("tenant.members.title")}</span>
+      </div>
+
+      <div className="flex gap-1">
+        {(["organization", "workspace"] as const).map((item) => (
+          <button
+            key={item}
+            type="button"
+            data-testid={`members-scope-${item}`}
+            onClick={() => setScope(item)}
+            className={cn(
+              "flex-1 rounded-md px-2 py-1 text-xs transition-colors",
+              "hover:bg-sidebar-accent/80",
+              scope === item
+                ? "bg-sidebar-accent text-sidebar-accent-foreground"
+                : "",
+            )}
+          >
+            {t(`tenant.members.scope.${item}`)}
+          </button>
+        ))}
+      </div>
+
+      {membersQuery.isLoading ? (
+        <div className="px-2 py-1 text-xs text-muted-foreground">
+          {t("tenant.members.loading")}
+        </div>
+      ) : membersQuery.error ? (
+        <div className="px-2 py-1 text-xs text-red-500">
+          {t("tenant.members.failed")}
+        </div>
+      ) : members.length === 0 ? (
+        <div className="px-2 py-1 text-xs text-muted-foreground">
+          {t("tenant.members.empty")}
+        </div>
+      ) : (
+        <ul className="space-y-1">
+          {members.map((member) => {
+            const label = member.displayName || member.email || member.userId;
+            return (
+              <li
+                key={member.id}
+                data-testid={`member-row-${member.id}`}
+                className="flex items-center gap-1.5 px-2 py-1 text-xs"
+              >
+                <div className="min-w-0 flex-1">
+                  <div className="truncate">{label}</div>
+                  {member.status === "invited" ? (
+                    <div className="text-[10px] uppercase text-muted-foreground">
+                      {t("tenant.members.status.invited")}
+                    </div>
+                  ) : null}
+                </div>
+                <select
+                  aria-label={t("tenant.members.aria.role", {
+                    email: label ?? "",
+                  })}
+                  value={member.role}
+                  disabled={isBusy}
+                  onChange={(event) => {
+                    void updateRoleMutation
+                      .mutateAsync({
+                        membershipId: member.id,
+                        role: event.target.value as MembershipRole,
+                      })
+                      .catch(() => {
+                        // Error is surfaced via mutation onError handler.
+                      });
+                  }}
+                  className="rounded-md border border-sidebar-border/80 bg-background px-1 py-0.5 text-xs"
+                >
+                  {MEMBERSHIP_ROLES.map((role) => (
+                    <option key={role} value={role}>
+                      {t(`tenant.members.role.${role}`)}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  aria-label={t("tenant.members.aria.remove", {
+                    email: label ?? "",
+                  })}
+                  disabled={isBusy}
+                  onClick={() => {
+                    void removeMutation
+                      .mutateAsync({ membershipId: member.id })
+                      .catch(() => {
+                        // Error is surfaced via mutation onError handler.
+                      });
+                  }}
+                  className="rounded-md p-1 text-muted-foreground hover:bg-sidebar-accent/80 disabled:opacity-60"
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <form
+        className="px-2 pt-1 space-y-1"
+        onSubmit={(event) => {
+          event.preventDefault();
+          void handleInvite();
+        }}
+      >
+        <div className="flex gap-1">
+          <input
+            data-testid="invite-member-email"
+            type="email"
+            value={inviteEmail}
+            onChange={(event) => {
+              setInviteEmail(event.target.value);
+              if (actionError) {
+                setActionError(null);
+              }
+            }}
+            placeholder={t("tenant.members.input.email")}
+            className="min-w-0 flex-1 rounded-md border border-sidebar-border/80 bg-background px-2 py-1 text-xs"
+            disabled={isBusy}
+          />
+          <select
+            data-testid="invite-member-role"
+            value={inviteRole}
+            onChange={(event) =>
+              setInviteRole(event.target.value as MembershipRole)
+            }
+            className="rounded-md border border-sidebar-border/80 bg-background px-1 py-1 text-xs"
+            disabled={isBusy}
+          >
+            {MEMBERSHIP_ROLES.map((role) => (
+              <option key={role} value={role}>
+                {t(`tenant.members.role.${role}`)}
+              </option>
+            ))}
+          </select>
+        </div>
+        <button
+          type="submit"
+          data-testid="invite-member-button"
+          disabled={isBusy}
+          className={cn(
+            "w-full rounded-md px-2 py-1.5 text-left text-xs transition-colors",
+            "hover:bg-sidebar-accent/80 disabled:opacity-60",
+            "border border-sidebar-border/80",
+          )}
+        >
+          {inviteMutation.isPending
+            ? t("tenant.members.button.inviting")
+            : t("tenant.members.button.invite")}
+        </button>
+        {actionError ? (
+          <div className="text-[11px] text-red-500">{actionError}</div>
+        ) : null}
+      </form>
+    </div>
+  );
+}
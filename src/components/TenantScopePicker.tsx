@@ -4,6 +4,7 @@ import { Building2, BriefcaseBusiness } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useI18n } from "@/contexts/I18nContext";
 import { IpcClient } from "@/ipc/ipc_client";
+import { TENANT_ORGANIZATIONS_QUERY_KEY } from "@/hooks/useActiveOrganization";
 import {
   getConfiguredTenantScope,
   TENANT_ORG_ID_STORAGE_KEY,
@@ -16,7 +17,7 @@ import {
 } from "./tenant_scope_utils";
 
 const TENANT_QUERY_KEYS = {
-  organizations: ["tenant", "organizations"] as const,
+  organizations: TENANT_ORGANIZATIONS_QUERY_KEY,
   workspaces: (orgId: string) => ["tenant", "workspaces", orgId] as const,
 };
 
@@ -28,9 +28,12 @@ const {
   getChatMock,
   createChatMock,
   listVersionsMock,
+  getVersionDiffMock,
   getProposalMock,
   approveProposalMock,
   revertVersionMock,
+  resolveMcpToolConsentMock,
+  resolveAgentToolConsentMock,
 } = vi.hoisted(() => ({
   createAppMock: vi.fn(),
   streamMessageMock: vi.fn(),
@@ -39,9 +42,12 @@ const {
   getChatMock: vi.fn(),
   createChatMock: vi.fn(),
   listVersionsMock: vi.fn(),
+  getVersionDiffMock: vi.fn(),
   getProposalMock: vi.fn(),
   approveProposalMock: vi.fn(),
   revertVersionMock: vi.fn(),
+  resolveMcpToolConsentMock: vi.fn(),
+  resolveAgentToolConsentMock: vi.fn(),
 }));
 
 const { settingsRef } = vi.hoisted(() => ({
@@ -62,9 +68,12 @@ vi.mock("@/ipc/ipc_client", () => ({
       getChat: getChatMock,
       createChat: createChatMock,
       listVersions: listVersionsMock,
+      getVersionDiff: getVersionDiffMock,
       getProposal: getProposalMock,
       approveProposal: approveProposalMock,
       revertVersion: revertVersionMock,
+      resolveMcpToolConsent: resolveMcpToolConsentMock,
+      resolveAgentToolConsent: resolveAgentToolConsentMock,
     })),
   },
 }));
@@ -481,6 +490,64 @@ describe("BlazeChatArea", () => {
     });
   });
 
+  it("compares two versions from history tab", async () => {
+    listVersionsMock.mockResolvedValue([
+      { oid: "newer1234567", message: "Add CTA", timestamp: 1762000000 },
+      { oid: "middle1234567", message: "Tweak copy", timestamp: 1761500000 },
+      { oid: "older1234567", message: "Initial", timestamp: 1761000000 },
+    ]);
+    getVersionDiffMock.mockResolvedValue({
+      from: "older1234567",
+      to: "newer1234567",
+      files: [
+        {
+          path: "src/App.tsx",
+          status: "modified",
+          additions: 1,
+          deletions: 1,
+          binary: false,
+          hunks: [
+            {
+              oldStart: 1,
+              oldLines: 1,
+              newStart: 1,
+              newLines: 1,
+              lines: [
+                { type: "remove", text: "old" },
+                { type: "add", text: "new" },
+              ],
+            },
+          ],
+        },
+      ],
+      stats: { filesChanged: 1, additions: 1, deletions: 1 },
+    });
+
+    render(<BlazeChatArea activeAppId={21} />);
+
+    fireEvent.click(screen.getByTestId("workspace-chat-tab-history"));
+
+    await waitFor(() => {
+      expect(screen.getByTestId("history-compare-newer1234567")).toBeTruthy();
+    });
+
+    fireEvent.click(screen.getByTestId("history-compare-newer1234567"));
+    expect(screen.queryByTestId("history-compare-view")).toBeNull();
+    fireEvent.click(screen.getByTestId("history-compare-older1234567"));
+
+    await waitFor(() => {
+      expect(getVersionDiffMock).toHaveBeenCalledWith({
+        appId: 21,
+        from: "older1234567",
+        to: "newer1234567",
+      });
+      expect(screen.getByText("src/App.tsx")).toBeTruthy();
+    });
+
+    fireEvent.click(screen.getByTestId("history-compare-close"));
+    expect(screen.queryByTestId("history-compare-view")).toBeNull();
+  });
+
   it("shows optimistic auto-fix start message in chat", async () => {
     render(<BlazeChatArea />);
 
@@ -857,6 +924,193 @@ Files to write: 1</blaze-status>`,
     ).toBeNull();
   });
 
+  it("renders MCP tool calls as expandable blocks with their result", async () => {
+    render(<BlazeChatArea />);
+
+    const input = screen.getByPlaceholderText("Опишите, что нужно собрать...");
+    fireEvent.change(input, { target: { value: "Search the docs" } });
+    fireEvent.keyDown(input, { key: "Enter", code: "Enter" });
+
+    await waitFor(() => {
+      expect(streamMessageMock).toHaveBeenCalledTimes(1);
+    });
+
+    const streamOptions = streamMessageMock.mock.calls[0][1];
+    act(() => {
+      streamOptions.onUpdate([
+        { id: 1, role: "user", content: "Search the docs" },
+        {
+          id: 2,
+          role: "assistant",
+          content: `<blaze-mcp-tool-call server="docs" tool="search">
+{"query":"routing"}
+</blaze-mcp-tool-call>`,
+        },
+      ]);
+    });
+
+    expect(
+      screen.getByTestId("mcp-tool-call-2-0").getAttribute("data-status"),
+    ).toBe("running");
+    expect(
+      screen.queryByText("Ассистент ответил внутренними действиями."),
+    ).toBeNull();
+
+    act(() => {
+      streamOptions.onUpdate([
+        { id: 1, role: "user", content: "Search the docs" },
+        {
+          id: 2,
+          role: "assistant",
+          content: `<blaze-mcp-tool-call server="docs" tool="search">
+{"query":"routing"}
+</blaze-mcp-tool-call>
+<blaze-mcp-tool-result server="docs" tool="search">
+Routing lives in src/router.ts
+</blaze-mcp-tool-result>
+Found it.`,
+        },
+      ]);
+      streamOptions.onEnd({ chatId: 77, updatedFiles: false });
+    });
+
+    const toolCall = screen.getByTestId("mcp-tool-call-2-0");
+    expect(toolCall.getAttribute("data-status")).toBe("success");
+    expect(screen.getByText("Found it.")).toBeTruthy();
+    expect(screen.queryByText("Routing lives in src/router.ts")).toBeNull();
+
+    fireEvent.click(screen.getByRole("button", { name: /docs · search/ }));
+    expect(screen.getByText('{"query":"routing"}')).toBeTruthy();
+    expect(screen.getByText("Routing lives in src/router.ts")).toBeTruthy();
+  });
+
+  it("renders agent-mode tool steps and marks the unfinished one as running", async () => {
+    render(<BlazeChatArea />);
+
+    const input = screen.getByPlaceholderText("Опишите, что нужно собрать...");
+    fireEvent.change(input, { target: { value: "Rename the header" } });
+    fireEvent.keyDown(input, { key: "Enter", code: "Enter" });
+
+    await waitFor(() => {
+      expect(streamMessageMock).toHaveBeenCalledTimes(1);
+    });
+
+    const streamOptions = streamMessageMock.mock.calls[0][1];
+    act(() => {
+      streamOptions.onUpdate([
+        { id: 1, role: "user", content: "Rename the header" },
+        {
+          id: 2,
+          role: "assistant",
+          chatMode: "agent",
+          content: `<blaze-read path="src/Header.tsx"></blaze-read>
+<blaze-grep query="Header">
+src/App.tsx:3
+</blaze-grep>
+<blaze-edit path="src/Header.tsx" description="Rename title">
+export const Header`,
+        },
+      ]);
+    });
+
+    expect(
+      screen.getByTestId("agent-step-2-0").getAttribute("data-status"),
+    ).toBe("success");
+    expect(screen.getByText("Прочитан src/Header.tsx")).toBeTruthy();
+    expect(
+      screen.getByTestId("agent-step-2-2").getAttribute("data-status"),
+    ).toBe("running");
+    expect(
+      screen.queryByText("Ассистент ответил внутренними действиями."),
+    ).toBeNull();
+
+    fireEvent.click(
+      screen.getByRole("button", { name: 'Поиск в коде: "Header"' }),
+    );
+    expect(screen.getByText("src/App.tsx:3")).toBeTruthy();
+  });
+
+  it("asks for MCP tool consent and sends the decision", async () => {
+    resolveMcpToolConsentMock.mockResolvedValue(undefined);
+    render(<BlazeChatArea />);
+
+    const input = screen.getByPlaceholderText("Опишите, что нужно собрать...");
+    fireEvent.change(input, { target: { value: "Search the docs" } });
+    fireEvent.keyDown(input, { key: "Enter", code: "Enter" });
+
+    await waitFor(() => {
+      expect(streamMessageMock).toHaveBeenCalledTimes(1);
+    });
+
+    const streamOptions = streamMessageMock.mock.calls[0][1];
+    act(() => {
+      streamOptions.onMcpToolConsentRequest({
+        requestId: "7:search:abc",
+        chatId: 77,
+        serverId: 7,
+        serverName: "docs",
+        toolName: "search",
+        inputPreview: '{"query":"routing"}',
+      });
+    });
+
+    expect(screen.getByTestId("mcp-consent-request-7:search:abc")).toBeTruthy();
+    fireEvent.click(screen.getByTestId("mcp-consent-accept-once-7:search:abc"));
+
+    await waitFor(() => {
+      expect(resolveMcpToolConsentMock).toHaveBeenCalledWith({
+        chatId: 77,
+        requestId: "7:search:abc",
+        decision: "accept-once",
+      });
+    });
+    await waitFor(() => {
+      expect(
+        screen.queryByTestId("mcp-consent-request-7:search:abc"),
+      ).toBeNull();
+    });
+  });
+
+  it("asks for agent tool consent and sends the decision", async () => {
+    resolveAgentToolConsentMock.mockResolvedValue(undefined);
+    render(<BlazeChatArea />);
+
+    const input = screen.getByPlaceholderText("Опишите, что нужно собрать...");
+    fireEvent.change(input, { target: { value: "Crawl the docs" } });
+    fireEvent.keyDown(input, { key: "Enter", code: "Enter" });
+
+    await waitFor(() => {
+      expect(streamMessageMock).toHaveBeenCalledTimes(1);
+    });
+
+    const streamOptions = streamMessageMock.mock.calls[0][1];
+    act(() => {
+      streamOptions.onAgentToolConsentRequest({
+        requestId: "agent-1",
+        chatId: 77,
+        toolName: "web_crawl",
+        inputPreview: '{"url":"https://example.com"}',
+      });
+    });
+
+    expect(screen.getByTestId("agent-consent-request-agent-1")).toBeTruthy();
+    expect(
+      screen.getByText("Разрешить агенту запустить web_crawl?"),
+    ).toBeTruthy();
+    fireEvent.click(screen.getByTestId("agent-consent-decline-agent-1"));
+
+    await waitFor(() => {
+      expect(resolveAgentToolConsentMock).toHaveBeenCalledWith({
+        chatId: 77,
+        requestId: "agent-1",
+        decision: "decline",
+      });
+    });
+    await waitFor(() => {
+      expect(screen.queryByTestId("agent-consent-request-agent-1")).toBeNull();
+    });
+  });
+
   it("shows marker when assistant message contains only control markup", async () => {
     render(<BlazeChatArea />);
 
@@ -916,6 +1170,144 @@ Files to write: 1</blaze-status>`,
     expect(screen.getByText("Изменения ждут ручного аппрува")).toBeTruthy();
   });
 
+  it("shows the proposal diff and failing blocks on review", async () => {
+    render(<BlazeChatArea />);
+
+    const input = screen.getByPlaceholderText("Опишите, что нужно собрать...");
+    fireEvent.change(input, { target: { value: "Update landing page hero" } });
+    fireEvent.keyDown(input, { key: "Enter", code: "Enter" });
+
+    await waitFor(() => {
+      expect(streamMessageMock).toHaveBeenCalledTimes(1);
+    });
+
+    const pendingProposal = buildPendingProposal();
+    getProposalMock.mockResolvedValue({
+      ...pendingProposal,
+      proposal: {
+        ...pendingProposal.proposal,
+        fileDiffs: [
+          {
+            actionId: "action-0",
+            type: "write" as const,
+            path: "src/App.tsx",
+            status: "modified" as const,
+            hunks: [
+              {
+                oldStart: 1,
+                oldLines: 1,
+                newStart: 1,
+                newLines: 1,
+                lines: [
+                  { type: "remove" as const, text: "old hero" },
+                  { type: "add" as const, text: "new hero" },
+                ],
+              },
+            ],
+          },
+          {
+            actionId: "action-1",
+            type: "search-replace" as const,
+            path: "src/Landing.tsx",
+            status: "unchanged" as const,
+            hunks: [],
+            error: "Search block did not match",
+          },
+        ],
+      },
+    });
+    const streamOptions = streamMessageMock.mock.calls[0][1];
+
+    act(() => {
+      streamOptions.onEnd({ chatId: 77, updatedFiles: false });
+    });
+
+    await waitFor(() => {
+      expect(screen.getByTestId("manual-review-button")).toBeTruthy();
+    });
+    expect(
+      screen.getByTestId("manual-apply-failed-count").textContent,
+    ).toContain("1");
+    expect(screen.queryByTestId("proposal-diff-view")).toBeNull();
+
+    fireEvent.click(screen.getByTestId("manual-review-button"));
+
+    expect(screen.getAllByTestId("proposal-file-diff")).toHaveLength(2);
+    expect(
+      screen.getByText("Не применится: Search block did not match"),
+    ).toBeTruthy();
+
+    fireEvent.click(screen.getByText("src/App.tsx"));
+
+    expect(screen.getByText("old hero")).toBeTruthy();
+    expect(screen.getByText("new hero")).toBeTruthy();
+
+    fireEvent.click(screen.getByTestId("manual-review-button"));
+
+    expect(screen.queryByTestId("proposal-diff-view")).toBeNull();
+  });
+
+  it("approves only the changes left checked in the review", async () => {
+    render(<BlazeChatArea />);
+
+    const input = screen.getByPlaceholderText("Опишите, что нужно собрать...");
+    fireEvent.change(input, { target: { value: "Update landing page hero" } });
+    fireEvent.keyDown(input, { key: "Enter", code: "Enter" });
+
+    await waitFor(() => {
+      expect(streamMessageMock).toHaveBeenCalledTimes(1);
+    });
+
+    const pendingProposal = buildPendingProposal(77, 21);
+    getProposalMock.mockResolvedValue({
+      ...pendingProposal,
+      proposal: {
+        ...pendingProposal.proposal,
+        fileDiffs: ["src/App.tsx", "src/Landing.tsx", "src/Footer.tsx"].map(
+          (path, index) => ({
+            actionId: `action-${index}`,
+            type: "write" as const,
+            path,
+            status: "added" as const,
+            hunks: [],
+          }),
+        ),
+      },
+    });
+    const streamOptions = streamMessageMock.mock.calls[0][1];
+
+    act(() => {
+      streamOptions.onEnd({ chatId: 77, updatedFiles: false });
+    });
+
+    await waitFor(() => {
+      expect(screen.getByTestId("manual-review-button")).toBeTruthy();
+    });
+    fireEvent.click(screen.getByTestId("manual-review-button"));
+    fireEvent.click(screen.getAllByTestId("proposal-file-diff-toggle")[1]);
+
+    expect(screen.getByTestId("manual-approve-button").textContent).toBe(
+      "Применить выбранные (2)",
+    );
+
+    getChatMock.mockResolvedValueOnce({
+      id: 77,
+      appId: 42,
+      title: "Chat",
+      messages: [],
+    });
+    getProposalMock.mockResolvedValueOnce(null);
+    fireEvent.click(screen.getByTestId("manual-approve-button"));
+
+    await waitFor(() => {
+      expect(approveProposalMock).toHaveBeenCalledWith({
+        chatId: 77,
+        messageId: 21,
+        actionIds: ["action-0", "action-2"],
+      });
+    });
+  });
+
   it("approves pending proposal from manual approve button", async () => {
     render(<BlazeChatArea />);
 
@@ -11,6 +11,7 @@ import {
   ChevronDown,
   ChevronUp,
   Code2,
+  GitCompare,
   Globe,
   History,
   Image,
@@ -20,6 +21,7 @@ import {
   Send,
   StopCircle,
   Sparkles,
+  Wrench,
 } from "lucide-react";
 import { useAtom, useAtomValue, useSetAtom } from "jotai";
 import {
@@ -31,8 +33,15 @@ import { SelectedComponentsDisplay } from "../chat/SelectedComponentDisplay";
 import { useI18n } from "@/contexts/I18nContext";
 import { useSettings } from "@/hooks/useSettings";
 import { IpcClient } from "@/ipc/ipc_client";
-import type { Message as BackendMessage, Version } from "@/ipc/ipc_types";
-import type { ProposalResult } from "@/lib/schemas";
+import type {
+  AgentToolConsentRequest,
+  Message as BackendMessage,
+  McpToolConsentDecision,
+  McpToolConsentRequest,
+  Version,
+} from "@/ipc/ipc_types";
+import type { ProposalFileDiff, ProposalResult } from "@/lib/schemas";
+import { formatMicroUsd } from "@/lib/utils";
 import type { TranslationParams } from "@/i18n/types";
 import {
   WORKSPACE_AUTOFIX_COMPLETED_EVENT,
@@ -43,12 +52,53 @@ import {
   type WorkspacePreviewRefreshDetail,
 } from "./autofix_events";
 import { WorkspaceMarkdown } from "./WorkspaceMarkdown";
+import { ProposalDiffView } from "./ProposalDiffView";
+import { VersionCompareView } from "./VersionCompareView";
+import {
+  decodeBlazeEntities,
+  parseBlazeMarkup,
+  type BlazeElement,
+} from "@/shared/blaze_tags";
 
 type StatusBlock = {
   title: string;
   body: string;
 };
 
+type McpToolCall = {
+  server: string;
+  tool: string;
+  input: string;
+  output: string | null;
+  status: "running" | "success" | "error";
+};
+
+const AGENT_STEP_TOOLS = [
+  "read",
+  "write",
+  "edit",
+  "search-replace",
+  "delete",
+  "rename",
+  "add-dependency",
+  "list-files",
+  "grep",
+  "code-search",
+  "web-search",
+  "web-crawl",
+  "read-logs",
+  "run-script",
+  "screenshot-preview",
+  "output",
+] as const;
+
+type AgentStep = {
+  tool: (typeof AGENT_STEP_TOOLS)[number];
+  target: string;
+  body: string;
+  status: "running" | "success" | "error";
+};
+
 type Message = {
   id: string;
   backendId?: number;
@@ -57,7 +107,14 @@ type Message = {
   createdAt?: Date | null;
   isAssistantActionOnly?: boolean;
   statusBlocks?: StatusBlock[];
+  toolCalls?: McpToolCall[];
+  agentSteps?: AgentStep[];
   sourceCommitHash?: string | null;
+  turnUsage?: {
+    inputTokens: number;
+    outputTokens: number;
+    costMicroUsd: number | null;
+  } | null;
 };
 
 type PendingCodeProposal = {
@@ -66,6 +123,7 @@ type PendingCodeProposal = {
   title: string;
   filesCount: number;
   packagesCount: number;
+  fileDiffs: ProposalFileDiff[];
 };
 
 type ChatAreaTabId = "chat" | "history";
@@ -85,6 +143,7 @@ function toPendingCodeProposal(
     title: proposalResult.proposal.title,
     filesCount: proposalResult.proposal.filesChanged.length,
     packagesCount: proposalResult.proposal.packagesAdded.length,
+    fileDiffs: proposalResult.proposal.fileDiffs ?? [],
   };
 }
 
@@ -113,113 +172,178 @@ function buildStarterPrompts(t: TranslateFn) {
   ];
 }
 
+const MCP_CONSENT_DECISIONS: McpToolConsentDecision[] = [
+  "accept-once",
+  "accept-always",
+  "decline",
+];
+
 const MIN_INPUT_HEIGHT = 40;
 const MAX_INPUT_HEIGHT = 120;
 const INITIAL_VISIBLE_MESSAGES = 4;
 const HISTORY_LOAD_STEP = 4;
 
-function findFirstUnclosedControlTagIndex(content: string): number {
-  const tagPattern = /<(\/?)(blaze-[\w-]+|think)(?:\s[^>]*)?>/gi;
-  const openStack: Array<{ name: string; index: number }> = [];
-  let match: RegExpExecArray | null;
-
-  while ((match = tagPattern.exec(content)) !== null) {
-    const isClosing = match[1] === "/";
-    const name = (match[2] || "").toLowerCase();
-    const index = match.index;
+// `<think>` blocks are hidden like Blaze control tags.
+const CONTROL_MARKUP_OPTIONS = { extraTagNames: ["think"] };
 
-    if (!isClosing) {
-      openStack.push({ name, index });
+function extractStatusBlocks(
+  elements: BlazeElement[],
+  defaultStatusTitle: string,
+): StatusBlock[] {
+  const statusBlocks: StatusBlock[] = [];
+  for (const element of elements) {
+    if (element.name !== "blaze-status" || !element.closed) {
       continue;
     }
-
-    for (let i = openStack.length - 1; i >= 0; i--) {
-      if (openStack[i].name === name) {
-        openStack.splice(i, 1);
-        break;
-      }
+    const body = decodeBlazeEntities(element.content.trim());
+    if (!body) {
+      continue;
     }
+    statusBlocks.push({
+      title: element.attributes.title?.trim() || defaultStatusTitle,
+      body,
+    });
   }
+  return statusBlocks;
+}
 
-  if (openStack.length === 0) {
-    return -1;
+function extractMcpToolCalls(elements: BlazeElement[]): McpToolCall[] {
+  const toolCalls: McpToolCall[] = [];
+  for (const element of elements) {
+    if (
+      !element.closed ||
+      (element.name !== "blaze-mcp-tool-call" &&
+        element.name !== "blaze-mcp-tool-result")
+    ) {
+      continue;
+    }
+    const server = element.attributes.server ?? "";
+    const tool = element.attributes.tool ?? "";
+    const body = decodeBlazeEntities(element.content.trim());
+    if (element.name === "blaze-mcp-tool-call") {
+      toolCalls.push({
+        server,
+        tool,
+        input: body,
+        output: null,
+        status: "running",
+      });
+      continue;
+    }
+    const status = element.attributes.status === "error" ? "error" : "success";
+    // Results follow their call, so they complete the oldest pending call.
+    const pendingCall = toolCalls.find(
+      (toolCall) =>
+        toolCall.status === "running" &&
+        toolCall.server === server &&
+        toolCall.tool === tool,
+    );
+    if (pendingCall) {
+      pendingCall.output = body;
+      pendingCall.status = status;
+    } else {
+      toolCalls.push({ server, tool, input: "", output: body, status });
+    }
   }
+  return toolCalls;
+}
 
-  return openStack.reduce(
-    (minIndex, entry) => Math.min(minIndex, entry.index),
-    Number.POSITIVE_INFINITY,
-  );
+function getAgentStepTarget(
+  tool: AgentStep["tool"],
+  attributes: Record<string, string>,
+  body: string,
+): string {
+  const readAttr = (name: string) => attributes[name] ?? "";
+  switch (tool) {
+    case "rename":
+      return `${readAttr("from")} → ${readAttr("to")}`;
+    case "add-dependency":
+      return readAttr("packages");
+    case "list-files":
+      return readAttr("directory") || ".";
+    case "grep":
+    case "code-search":
+    case "web-search":
+      return readAttr("query");
+    case "web-crawl":
+      return body.split("\n")[0]?.trim() ?? "";
+    case "read-logs":
+      return readAttr("type") || readAttr("level");
+    case "run-script":
+      return readAttr("script");
+    case "screenshot-preview":
+      return `${readAttr("route")} (${readAttr("device")})`;
+    case "output":
+      return readAttr("message");
+    default:
+      return readAttr("path");
+  }
 }
 
-function decodeXmlEntities(content: string): string {
-  return content
-    .replace(/&quot;/g, '"')
-    .replace(/&#39;/g, "'")
-    .replace(/&lt;/g, "<")
-    .replace(/&gt;/g, ">")
-    .replace(/&amp;/g, "&");
+const AGENT_STEP_TAGS = new Map<string, AgentStep["tool"]>(
+  AGENT_STEP_TOOLS.map((tool) => [`blaze-${tool}`, tool]),
+);
+
+/**
+ * Agent-mode turns stream one tag per tool step. A tag without its closing
+ * tag is the step that is still running.
+ */
+function extractAgentSteps(elements: BlazeElement[]): AgentStep[] {
+  const steps: AgentStep[] = [];
+  for (const element of elements) {
+    const tool = AGENT_STEP_TAGS.get(element.name);
+    if (!tool) {
+      continue;
+    }
+    const { attributes } = element;
+    if (tool === "output" && attributes.type !== "error") {
+      continue;
+    }
+    const body = decodeBlazeEntities(element.content.trim());
+    steps.push({
+      tool,
+      target: getAgentStepTarget(tool, attributes, body),
+      body,
+      status:
+        tool === "output" ||
+        attributes.status === "failed" ||
+        attributes.status === "timed_out" ||
+        attributes.status === "cancelled"
+          ? "error"
+          : element.closed
+            ? "success"
+            : "running",
+    });
+  }
+  return steps;
 }
 
-function extractStatusBlocks(
-  content: string,
-  defaultStatusTitle: string,
+/**
+ * Splits an assistant message into its prose and the blocks rendered from
+ * control tags. Unclosed tags of a streaming message hide everything after
+ * them.
+ */
+function parseAssistantContent(
+  rawContent: string,
+  options: { defaultStatusTitle: string; isAgentTurn: boolean },
 ): {
-  contentWithoutStatus: string;
+  text: string;
   statusBlocks: StatusBlock[];
+  toolCalls: McpToolCall[];
+  agentSteps: AgentStep[];
 } {
-  const statusBlocks: StatusBlock[] = [];
-  const contentWithoutStatus = content.replace(
-    /<blaze-status(?<attrs>\s[^>]*)?>(?<body>[\s\S]*?)<\/blaze-status>/gi,
-    (_match, attrs = "", body = "", _offset, _string, groups) => {
-      const attrsSource = (groups?.attrs as string | undefined) ?? attrs;
-      const bodySource = (groups?.body as string | undefined) ?? body;
-      const titleMatch = attrsSource.match(/\btitle="([^"]*)"/i);
-      const title =
-        decodeXmlEntities((titleMatch?.[1] ?? "").trim()) || defaultStatusTitle;
-      const summaryBody = decodeXmlEntities(String(bodySource).trim());
-      if (!summaryBody) {
-        return "";
-      }
-      statusBlocks.push({
-        title,
-        body: summaryBody,
-      });
-      return "";
-    },
+  const { text, elements } = parseBlazeMarkup(
+    rawContent,
+    CONTROL_MARKUP_OPTIONS,
   );
   return {
-    contentWithoutStatus,
-    statusBlocks,
+    text: text.replace(/\n{3,}/g, "\n\n").trim(),
+    statusBlocks: extractStatusBlocks(elements, options.defaultStatusTitle),
+    toolCalls: extractMcpToolCalls(elements),
+    agentSteps: options.isAgentTurn ? extractAgentSteps(elements) : [],
   };
 }
 
-function stripControlMarkup(content: string): string {
-  if (!content) {
-    return "";
-  }
-
-  // Remove complete control blocks such as <blaze-write>...</blaze-write>.
-  let cleaned = content;
-  cleaned = cleaned.replace(
-    /<(?<tag>blaze-[\w-]+|think)(?:\s[^>]*)?>[\s\S]*?<\/\k<tag>>/gi,
-    "",
-  );
-
-  // If stream currently contains an unclosed control block, hide the full tail.
-  const firstUnclosedTagIndex = findFirstUnclosedControlTagIndex(cleaned);
-  if (firstUnclosedTagIndex >= 0) {
-    cleaned = cleaned.slice(0, firstUnclosedTagIndex);
-  }
-
-  // Remove dangling opening/closing control tags in partial streams.
-  cleaned = cleaned
-    .replace(/<\/?(?:blaze-[\w-]+|think)(?:\s[^>]*)?>/gi, "")
-    .replace(/\n{3,}/g, "\n\n")
-    .trim();
-
-  return cleaned;
-}
-
 function generateAppName(prompt: string): string {
   const baseName = prompt
     .trim()
@@ -253,17 +377,24 @@ function mapBackendMessages(
         : undefined;
       const isAssistant = message.role === "assistant";
       const rawContent = message.content ?? "";
-      const { contentWithoutStatus, statusBlocks } = isAssistant
-        ? extractStatusBlocks(rawContent, options.defaultStatusTitle)
-        : { contentWithoutStatus: rawContent, statusBlocks: [] };
-      const strippedContent = isAssistant
-        ? stripControlMarkup(contentWithoutStatus)
-        : "";
+      const {
+        text: strippedContent,
+        statusBlocks,
+        toolCalls,
+        agentSteps,
+      } = isAssistant
+        ? parseAssistantContent(rawContent, {
+            defaultStatusTitle: options.defaultStatusTitle,
+            isAgentTurn: message.chatMode === "agent",
+          })
+        : { text: "", statusBlocks: [], toolCalls: [], agentSteps: [] };
       const isAssistantActionOnly =
         isAssistant &&
         rawContent.trim().length > 0 &&
         strippedContent.length === 0 &&
-        statusBlocks.length === 0;
+        statusBlocks.length === 0 &&
+        toolCalls.length === 0 &&
+        agentSteps.length === 0;
       const content = isAssistant
         ? isAssistantActionOnly
           ? options.assistantActionOnlyMessage
@@ -279,14 +410,28 @@ function mapBackendMessages(
         createdAt: parseMessageCreatedAt(message.createdAt),
         isAssistantActionOnly,
         statusBlocks,
+        toolCalls,
+        agentSteps,
         sourceCommitHash: message.sourceCommitHash ?? null,
+        turnUsage:
+          isAssistant &&
+          message.inputTokens != null &&
+          message.outputTokens != null
+            ? {
+                inputTokens: message.inputTokens,
+                outputTokens: message.outputTokens,
+                costMicroUsd: message.costMicroUsd ?? null,
+              }
+            : null,
       };
     })
     .filter(
       (message) =>
         message.role === "user" ||
         message.content.length > 0 ||
-        (message.statusBlocks?.length ?? 0) > 0,
+        (message.statusBlocks?.length ?? 0) > 0 ||
+        (message.toolCalls?.length ?? 0) > 0 ||
+        (message.agentSteps?.length ?? 0) > 0,
     );
 }
 
@@ -318,18 +463,25 @@ function hasHiddenAssistantActivity(
     }
 
     const rawContent = message.content ?? "";
-    const { contentWithoutStatus, statusBlocks } = extractStatusBlocks(
-      rawContent,
-      defaultStatusTitle,
-    );
     if (rawContent.trim().length === 0) {
       return false;
     }
-    if (statusBlocks.length > 0) {
+    const { text, statusBlocks, toolCalls, agentSteps } = parseAssistantContent(
+      rawContent,
+      {
+        defaultStatusTitle,
+        isAgentTurn: message.chatMode === "agent",
+      },
+    );
+    if (
+      statusBlocks.length > 0 ||
+      toolCalls.length > 0 ||
+      agentSteps.length > 0
+    ) {
       return false;
     }
 
-    return stripControlMarkup(contentWithoutStatus).length === 0;
+    return text.length === 0;
   });
 }
 
@@ -400,6 +552,29 @@ export function BlazeChatArea({
       ),
     [settings?.uiLanguage],
   );
+  const messageNumberFormatter = useMemo(
+    () =>
+      new Intl.NumberFormat(settings?.uiLanguage === "ru" ? "ru-RU" : "en-US"),
+    [settings?.uiLanguage],
+  );
+  const formatTurnUsage = useCallback(
+    (turnUsage: NonNullable<Message["turnUsage"]>) => {
+      const tokens = {
+        input: messageNumberFormatter.format(turnUsage.inputTokens),
+        output: messageNumberFormatter.format(turnUsage.outputTokens),
+      };
+      return turnUsage.costMicroUsd === null
+        ? t("chat.messageMeta.tokens", tokens)
+        : t("chat.messageMeta.tokensAndCost", {
+            ...tokens,
+            cost: formatMicroUsd(
+              turnUsage.costMicroUsd,
+              settings?.uiLanguage === "ru" ? "ru-RU" : "en-US",
+            ),
+          });
+    },
+    [messageNumberFormatter, settings?.uiLanguage, t],
+  );
   const formatMessageTimestamp = useCallback(
     (timestamp: Date | null | undefined) =>
       timestamp ? messageTimestampFormatter.format(timestamp) : null,
@@ -443,11 +618,30 @@ export function BlazeChatArea({
   const [revertingHistoryVersionId, setRevertingHistoryVersionId] = useState<
     string | null
   >(null);
+  const [compareVersionIds, setCompareVersionIds] = useState<string[]>([]);
   const [isHiddenAssistantActivity, setIsHiddenAssistantActivity] =
     useState(false);
   const [visibleStartIndex, setVisibleStartIndex] = useState(0);
   const [pendingCodeProposal, setPendingCodeProposal] =
     useState<PendingCodeProposal | null>(null);
+  // Keyed by message so a new proposal starts collapsed.
+  const [reviewedProposalMessageId, setReviewedProposalMessageId] = useState<
+    number | null
+  >(null);
+  // File changes unchecked in the review; the rest is approved.
+  const [excludedProposalActions, setExcludedProposalActions] = useState<{
+    messageId: number;
+    actionIds: string[];
+  } | null>(null);
+  const [mcpConsentRequests, setMcpConsentRequests] = useState<
+    McpToolConsentRequest[]
+  >([]);
+  const [agentConsentRequests, setAgentConsentRequests] = useState<
+    AgentToolConsentRequest[]
+  >([]);
+  const [resolvingConsentRequestId, setResolvingConsentRequestId] = useState<
+    string | null
+  >(null);
   const [expandedStatusKeys, setExpandedStatusKeys] = useState<Set<string>>(
     new Set(),
   );
@@ -524,6 +718,7 @@ export function BlazeChatArea({
     async (targetAppId: number | null) => {
       const requestId = versionHistoryRequestIdRef.current + 1;
       versionHistoryRequestIdRef.current = requestId;
+      setCompareVersionIds([]);
 
       if (targetAppId === null) {
         setVersionHistory([]);
@@ -916,8 +1111,15 @@ export function BlazeChatArea({
           setMessages(mapMessages(updatedMessages));
           setIsHiddenAssistantActivity(hasHiddenActivity(updatedMessages));
         },
+        onMcpToolConsentRequest: (consentRequest) => {
+          setMcpConsentRequests((previous) => [...previous, consentRequest]);
+        },
+        onAgentToolConsentRequest: (consentRequest) => {
+          setAgentConsentRequests((previous) => [...previous, consentRequest]);
+        },
         onEnd: () => {
           pendingStreamChatIdsRef.current.delete(streamChatId);
+          clearConsentRequests(streamChatId);
           if (visibleChatIdRef.current === streamChatId) {
             setIsTyping(false);
             setIsHiddenAssistantActivity(false);
@@ -929,6 +1131,7 @@ export function BlazeChatArea({
         },
         onError: (streamError) => {
           pendingStreamChatIdsRef.current.delete(streamChatId);
+          clearConsentRequests(streamChatId);
           if (visibleChatIdRef.current === streamChatId) {
             setError(streamError);
             setIsTyping(false);
@@ -942,6 +1145,70 @@ export function BlazeChatArea({
     }
   };
 
+  const clearConsentRequests = (streamChatId: number) => {
+    // The backend declines unanswered prompts once its stream stops.
+    setMcpConsentRequests((previous) =>
+      previous.filter(
+        (consentRequest) => consentRequest.chatId !== streamChatId,
+      ),
+    );
+    setAgentConsentRequests((previous) =>
+      previous.filter(
+        (consentRequest) => consentRequest.chatId !== streamChatId,
+      ),
+    );
+  };
+
+  const handleResolveMcpConsent = async (
+    consentRequest: McpToolConsentRequest,
+    decision: McpToolConsentDecision,
+  ) => {
+    setResolvingConsentRequestId(consentRequest.requestId);
+    try {
+      await IpcClient.getInstance().resolveMcpToolConsent({
+        chatId: consentRequest.chatId,
+        requestId: consentRequest.requestId,
+        decision,
+      });
+    } catch (consentError) {
+      setError(
+        resolveErrorMessage(consentError, t("chat.mcpConsent.error.resolve")),
+      );
+    } finally {
+      setResolvingConsentRequestId(null);
+      setMcpConsentRequests((previous) =>
+        previous.filter(
+          (pending) => pending.requestId !== consentRequest.requestId,
+        ),
+      );
+    }
+  };
+
+  const handleResolveAgentConsent = async (
+    consentRequest: AgentToolConsentRequest,
+    decision: McpToolConsentDecision,
+  ) => {
+    setResolvingConsentRequestId(consentRequest.requestId);
+    try {
+      await IpcClient.getInstance().resolveAgentToolConsent({
+        chatId: consentRequest.chatId,
+        requestId: consentRequest.requestId,
+        decision,
+      });
+    } catch (consentError) {
+      setError(
+        resolveErrorMessage(consentError, t("chat.agentConsent.error.resolve")),
+      );
+    } finally {
+      setResolvingConsentRequestId(null);
+      setAgentConsentRequests((previous) =>
+        previous.filter(
+          (pending) => pending.requestId !== consentRequest.requestId,
+        ),
+      );
+    }
+  };
+
   const handleApprovePendingChanges = async () => {
     if (!pendingCodeProposal || isTyping || isApproving) {
       return;
@@ -953,6 +1220,12 @@ export function BlazeChatArea({
       const approveResult = await IpcClient.getInstance().approveProposal({
         chatId: pendingCodeProposal.chatId,
         messageId: pendingCodeProposal.messageId,
+        actionIds:
+          excludedProposalActionIds.size > 0
+            ? pendingCodeProposal.fileDiffs
+                .map((fileDiff) => fileDiff.actionId)
+                .filter((actionId) => !excludedProposalActionIds.has(actionId))
+            : undefined,
       });
       const refreshedChat = await IpcClient.getInstance().getChat(
         pendingCodeProposal.chatId,
@@ -1052,6 +1325,37 @@ export function BlazeChatArea({
     }
   };
 
+  const toggleCompareVersion = (versionId: string) => {
+    setCompareVersionIds((current) => {
+      if (current.includes(versionId)) {
+        return current.filter((id) => id !== versionId);
+      }
+      // Picking a third version starts a new pair from the last pick.
+      return [...current.slice(-1), versionId];
+    });
+  };
+
+  const compareVersions = useMemo(() => {
+    if (compareVersionIds.length !== 2) {
+      return null;
+    }
+    const selected = versionHistory
+      .map((version, index) => ({
+        oid: version.oid,
+        index: versionHistory.length - index,
+      }))
+      .filter((version) => compareVersionIds.includes(version.oid));
+    if (selected.length !== 2) {
+      return null;
+    }
+    // History is newest first, so the later entry is the older version.
+    const [newer, older] = selected;
+    return {
+      from: { oid: older.oid, index: older.index },
+      to: { oid: newer.oid, index: newer.index },
+    };
+  }, [compareVersionIds, versionHistory]);
+
   const handleRestoreVersionFromHistory = async (versionId: string) => {
     if (!appId || isTyping || revertingMessageId || revertingHistoryVersionId) {
       return;
@@ -1092,6 +1396,7 @@ export function BlazeChatArea({
     }
 
     pendingStreamChatIdsRef.current.delete(chatId);
+    clearConsentRequests(chatId);
     setIsTyping(false);
     setIsHiddenAssistantActivity(false);
     IpcClient.getInstance().cancelChatStream(chatId);
@@ -1128,8 +1433,85 @@ export function BlazeChatArea({
   const visibleMessages = messages.slice(normalizedVisibleStartIndex);
   const isEmpty = messages.length === 0;
   const isChatTabActive = activeTab === "chat";
+  const visibleMcpConsentRequests = mcpConsentRequests.filter(
+    (consentRequest) => consentRequest.chatId === chatId,
+  );
+  const visibleAgentConsentRequests = agentConsentRequests.filter(
+    (consentRequest) => consentRequest.chatId === chatId,
+  );
   const hasPendingManualProposal =
     !settings?.autoApproveChanges && pendingCodeProposal !== null;
+  const isReviewingProposal =
+    pendingCodeProposal !== null &&
+    reviewedProposalMessageId === pendingCodeProposal.messageId;
+  const excludedProposalActionIds = new Set(
+    pendingCodeProposal &&
+    excludedProposalActions?.messageId === pendingCodeProposal.messageId
+      ? excludedProposalActions.actionIds
+      : [],
+  );
+  const selectedProposalChangesCount = pendingCodeProposal
+    ? pendingCodeProposal.fileDiffs.length - excludedProposalActionIds.size
+    : 0;
+  const toggleProposalAction = (actionId: string) => {
+    if (!pendingCodeProposal) {
+      return;
+    }
+    const actionIds = excludedProposalActionIds.has(actionId)
+      ? [...excludedProposalActionIds].filter((id) => id !== actionId)
+      : [...excludedProposalActionIds, actionId];
+    setExcludedProposalActions({
+      messageId: pendingCodeProposal.messageId,
+      actionIds,
+    });
+  };
+  const failedProposalChangesCount =
+    pendingCodeProposal?.fileDiffs.filter((fileDiff) => fileDiff.error)
+      .length ?? 0;
+  const renderConsentCard = (card: {
+    kind: "mcp" | "agent";
+    requestId: string;
+    title: string;
+    toolDescription?: string | null;
+    inputPreview?: string | null;
+    onDecision: (decision: McpToolConsentDecision) => void;
+  }) => (
+    <div
+      key={`${card.kind}-${card.requestId}`}
+      data-testid={`${card.kind}-consent-request-${card.requestId}`}
+      className="mx-auto mb-3 max-w-2xl rounded-xl border border-primary/30 bg-primary/5 px-3 py-2.5"
+    >
+      <p className="text-sm font-medium text-foreground">{card.title}</p>
+      {card.toolDescription && (
+        <p className="mt-0.5 text-xs text-muted-foreground">
+          {card.toolDescription}
+        </p>
+      )}
+      {card.inputPreview && (
+        <pre className="mt-2 max-h-32 overflow-auto whitespace-pre-wrap break-words rounded-md bg-muted px-2 py-1 font-mono text-xs text-muted-foreground">
+          {card.inputPreview}
+        </pre>
+      )}
+      <div className="mt-2 flex flex-wrap gap-2">
+        {MCP_CONSENT_DECISIONS.map((decision) => (
+          <button
+            key={decision}
+            type="button"
+            data-testid={`${card.kind}-consent-${decision}-${card.requestId}`}
+            onClick={() => card.onDecision(decision)}
+            disabled={resolvingConsentRequestId !== null}
+            className={`rounded-lg px-3 py-1.5 text-xs font-semibold transition-all disabled:cursor-not-allowed disabled:opacity-60 ${
+              decision === "decline"
+                ? "border border-border text-muted-foreground hover:text-foreground"
+                : "bg-primary text-primary-foreground hover:brightness-105"
+            }`}
+          >
+            {t(`chat.${card.kind}Consent.button.${decision}`)}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
   const toggleStatusKey = (key: string) => {
     setExpandedStatusKeys((previous) => {
       const next = new Set(previous);
@@ -1304,6 +1686,166 @@ export function BlazeChatArea({
                               </div>
                             );
                           })}
+                          {message.toolCalls?.map((toolCall, index) => {
+                            const toolCallKey = `${message.id}:mcp-tool:${index}`;
+                            const isExpanded =
+                              expandedStatusKeys.has(toolCallKey);
+                            return (
+                              <div
+                                key={toolCallKey}
+                                data-testid={`mcp-tool-call-${message.id}-${index}`}
+                                data-status={toolCall.status}
+                                className={`${
+                                  message.content ||
+                                  (message.statusBlocks?.length ?? 0) > 0 ||
+                                  index > 0
+                                    ? "mt-3"
+                                    : ""
+                                } rounded-lg border border-border bg-(--background-lightest)`}
+                              >
+                                <button
+                                  className="w-full flex items-center justify-between gap-2 px-3 py-2 text-left cursor-pointer"
+                                  onClick={() => toggleStatusKey(toolCallKey)}
+                                >
+                                  <span className="flex min-w-0 items-center gap-1.5 text-xs">
+                                    {toolCall.status === "running" ? (
+                                      <Loader2
+                                        size={12}
+                                        className="flex-shrink-0 animate-spin text-muted-foreground"
+                                      />
+                                    ) : (
+                                      <Wrench
+                                        size={12}
+                                        className="flex-shrink-0 text-muted-foreground"
+                                      />
+                                    )}
+                                    <span className="truncate font-medium">
+                                      {t("chat.mcpToolCall.title", {
+                                        server: toolCall.server,
+                                        tool: toolCall.tool,
+                                      })}
+                                    </span>
+                                    <span
+                                      className={
+                                        toolCall.status === "error"
+                                          ? "text-destructive"
+                                          : "text-muted-foreground"
+                                      }
+                                    >
+                                      {t(
+                                        `chat.mcpToolCall.status.${toolCall.status}`,
+                                      )}
+                                    </span>
+                                  </span>
+                                  {isExpanded ? (
+                                    <ChevronUp
+                                      size={16}
+                                      className="flex-shrink-0 text-muted-foreground"
+                                    />
+                                  ) : (
+                                    <ChevronDown
+                                      size={16}
+                                      className="flex-shrink-0 text-muted-foreground"
+                                    />
+                                  )}
+                                </button>
+                                {isExpanded && (
+                                  <div className="px-3 pb-3 text-xs text-muted-foreground">
+                                    {toolCall.input && (
+                                      <>
+                                        <p className="font-medium">
+                                          {t("chat.mcpToolCall.input")}
+                                        </p>
+                                        <pre className="mt-1 whitespace-pre-wrap break-words font-mono overflow-auto max-h-60">
+                                          {toolCall.input}
+                                        </pre>
+                                      </>
+                                    )}
+                                    {toolCall.output !== null && (
+                                      <>
+                                        <p
+                                          className={`${
+                                            toolCall.input ? "mt-2 " : ""
+                                          }font-medium`}
+                                        >
+                                          {t("chat.mcpToolCall.output")}
+                                        </p>
+                                        <pre className="mt-1 whitespace-pre-wrap break-words font-mono overflow-auto max-h-60">
+                                          {toolCall.output}
+                                        </pre>
+                                      </>
+                                    )}
+                                  </div>
+                                )}
+                              </div>
+                            );
+                          })}
+                          {message.agentSteps?.map((agentStep, index) => {
+                            const agentStepKey = `${message.id}:agent-step:${index}`;
+                            const isExpanded =
+                              expandedStatusKeys.has(agentStepKey);
+                            return (
+                              <div
+                                key={agentStepKey}
+                                data-testid={`agent-step-${message.id}-${index}`}
+                                data-status={agentStep.status}
+                                className={`${
+                                  message.content ||
+                                  (message.statusBlocks?.length ?? 0) > 0 ||
+                                  (message.toolCalls?.length ?? 0) > 0 ||
+                                  index > 0
+                                    ? "mt-3"
+                                    : ""
+                                } rounded-lg border border-border bg-(--background-lightest)`}
+                              >
+                                <button
+                                  className="w-full flex items-center justify-between gap-2 px-3 py-2 text-left cursor-pointer"
+                                  onClick={() => toggleStatusKey(agentStepKey)}
+                                  disabled={!agentStep.body}
+                                >
+                                  <span className="flex min-w-0 items-center gap-1.5 text-xs">
+                                    {agentStep.status === "running" ? (
+                                      <Loader2
+                                        size={12}
+                                        className="flex-shrink-0 animate-spin text-muted-foreground"
+                                      />
+                                    ) : (
+                                      <Wrench
+                                        size={12}
+                                        className={`flex-shrink-0 ${
+                                          agentStep.status === "error"
+                                            ? "text-destructive"
+                                            : "text-muted-foreground"
+                                        }`}
+                                      />
+                                    )}
+                                    <span className="truncate font-medium">
+                                      {t(`chat.agentStep.${agentStep.tool}`, {
+                                        target: agentStep.target,
+                                      })}
+                                    </span>
+                                  </span>
+                                  {agentStep.body &&
+                                    (isExpanded ? (
+                                      <ChevronUp
+                                        size={16}
+                                        className="flex-shrink-0 text-muted-foreground"
+                                      />
+                                    ) : (
+                                      <ChevronDown
+                                        size={16}
+                                        className="flex-shrink-0 text-muted-foreground"
+                                      />
+                                    ))}
+                                </button>
+                                {isExpanded && agentStep.body && (
+                                  <pre className="px-3 pb-3 text-xs whitespace-pre-wrap break-words text-muted-foreground font-mono overflow-auto max-h-60">
+                                    {agentStep.body}
+                                  </pre>
+                                )}
+                              </div>
+                            );
+                          })}
                           {message.role === "assistant" &&
                             message.sourceCommitHash && (
                               <div className="mt-3 border-t border-border/60 pt-2">
@@ -1345,6 +1887,14 @@ export function BlazeChatArea({
                                   })}
                             </div>
                           )}
+                          {message.turnUsage && (
+                            <div
+                              data-testid={`turn-usage-${message.id}`}
+                              className="mt-1 text-[11px] text-muted-foreground"
+                            >
+                              {formatTurnUsage(message.turnUsage)}
+                            </div>
+                          )}
                         </div>
                       </motion.div>
                     );
@@ -1377,32 +1927,112 @@ export function BlazeChatArea({
           </div>
 
           <div className="border-t border-border bg-card px-4 py-4">
+            {visibleMcpConsentRequests.map((consentRequest) =>
+              renderConsentCard({
+                kind: "mcp",
+                requestId: consentRequest.requestId,
+                title: t("chat.mcpConsent.title", {
+                  server: consentRequest.serverName,
+                  tool: consentRequest.toolName,
+                }),
+                toolDescription: consentRequest.toolDescription,
+                inputPreview: consentRequest.inputPreview,
+                onDecision: (decision) => {
+                  void handleResolveMcpConsent(consentRequest, decision);
+                },
+              }),
+            )}
+            {visibleAgentConsentRequests.map((consentRequest) =>
+              renderConsentCard({
+                kind: "agent",
+                requestId: consentRequest.requestId,
+                title: t("chat.agentConsent.title", {
+                  tool: consentRequest.toolName,
+                }),
+                toolDescription: consentRequest.toolDescription,
+                inputPreview: consentRequest.inputPreview,
+                onDecision: (decision) => {
+                  void handleResolveAgentConsent(consentRequest, decision);
+                },
+              }),
+            )}
             {hasPendingManualProposal && pendingCodeProposal && (
-              <div className="mx-auto mb-3 flex max-w-2xl items-center justify-between gap-3 rounded-xl border border-primary/30 bg-primary/5 px-3 py-2.5">
-                <div className="min-w-0">
-                  <p className="truncate text-sm font-medium text-foreground">
-                    {t("chat.manualApply.title")}
-                  </p>
-                  <p className="text-xs text-muted-foreground">
-                    {t("chat.manualApply.summary", {
-                      files: pendingCodeProposal.filesCount,
-                      packages: pendingCodeProposal.packagesCount,
-                    })}
-                  </p>
+              <div className="mx-auto mb-3 max-w-2xl rounded-xl border border-primary/30 bg-primary/5 px-3 py-2.5">
+                <div className="flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="truncate text-sm font-medium text-foreground">
+                      {t("chat.manualApply.title")}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {t("chat.manualApply.summary", {
+                        files: pendingCodeProposal.filesCount,
+                        packages: pendingCodeProposal.packagesCount,
+                      })}
+                    </p>
+                    {failedProposalChangesCount > 0 && (
+                      <p
+                        data-testid="manual-apply-failed-count"
+                        className="text-xs text-destructive"
+                      >
+                        {t("chat.manualApply.failedCount", {
+                          count: failedProposalChangesCount,
+                        })}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex flex-shrink-0 items-center gap-2">
+                    {pendingCodeProposal.fileDiffs.length > 0 && (
+                      <button
+                        type="button"
+                        data-testid="manual-review-button"
+                        onClick={() =>
+                          setReviewedProposalMessageId(
+                            isReviewingProposal
+                              ? null
+                              : pendingCodeProposal.messageId,
+                          )
+                        }
+                        aria-expanded={isReviewingProposal}
+                        className="rounded-lg border border-border bg-surface px-3 py-2 text-xs font-semibold text-foreground transition-colors hover:border-primary/50"
+                      >
+                        {isReviewingProposal
+                          ? t("chat.manualApply.button.hideReview")
+                          : t("chat.manualApply.button.review")}
+                      </button>
+                    )}
+                    <button
+                      type="button"
+                      data-testid="manual-approve-button"
+                      onClick={() => {
+                        void handleApprovePendingChanges();
+                      }}
+                      disabled={
+                        isApproving ||
+                        isTyping ||
+                        (pendingCodeProposal.fileDiffs.length > 0 &&
+                          selectedProposalChangesCount === 0)
+                      }
+                      className="rounded-lg bg-primary px-3 py-2 text-xs font-semibold text-primary-foreground transition-all hover:brightness-105 disabled:cursor-not-allowed disabled:opacity-60"
+                    >
+                      {isApproving
+                        ? t("chat.manualApply.button.approving")
+                        : excludedProposalActionIds.size > 0
+                          ? t("chat.manualApply.button.approveSelected", {
+                              count: selectedProposalChangesCount,
+                            })
+                          : t("chat.manualApply.button.approve")}
+                    </button>
+                  </div>
                 </div>
-                <button
-                  type="button"
-                  data-testid="manual-approve-button"
-                  onClick={() => {
-                    void handleApprovePendingChanges();
-                  }}
-                  disabled={isApproving || isTyping}
-                  className="flex-shrink-0 rounded-lg bg-primary px-3 py-2 text-xs font-semibold text-primary-foreground transition-all hover:brightness-105 disabled:cursor-not-allowed disabled:opacity-60"
-                >
-                  {isApproving
-                    ? t("chat.manualApply.button.approving")
-                    : t("chat.manualApply.button.approve")}
-                </button>
+                {isReviewingProposal && (
+                  <div className="mt-2.5 max-h-[45vh] overflow-y-auto">
+                    <ProposalDiffView
+                      fileDiffs={pendingCodeProposal.fileDiffs}
+                      excludedActionIds={excludedProposalActionIds}
+                      onToggleAction={toggleProposalAction}
+                    />
+                  </div>
+                )}
               </div>
             )}
             <div className="mx-auto max-w-2xl">
@@ -1481,9 +2111,24 @@ export function BlazeChatArea({
                 </div>
               ) : (
                 <div className="space-y-3">
+                  {compareVersions ? (
+                    <VersionCompareView
+                      appId={appId}
+                      from={compareVersions.from}
+                      to={compareVersions.to}
+                      onClose={() => setCompareVersionIds([])}
+                    />
+                  ) : compareVersionIds.length === 1 ? (
+                    <p className="text-xs text-muted-foreground">
+                      {t("chat.history.compareHint")}
+                    </p>
+                  ) : null}
                   {versionHistory.map((version, index) => {
                     const isRestoring =
                       revertingHistoryVersionId === version.oid;
+                    const isSelectedForCompare = compareVersionIds.includes(
+                      version.oid,
+                    );
                     return (
                       <div
                         key={version.oid}
@@ -1501,28 +2146,50 @@ export function BlazeChatArea({
                               {formatVersionTimestamp(version.timestamp)}
                             </p>
                           </div>
-                          <button
-                            type="button"
-                            data-testid={`history-restore-${version.oid}`}
-                            onClick={() => {
-                              void handleRestoreVersionFromHistory(version.oid);
-                            }}
-                            disabled={
-                              Boolean(revertingMessageId) ||
-                              Boolean(revertingHistoryVersionId) ||
-                              isTyping
-                            }
-                            className="inline-flex flex-shrink-0 items-center gap-1.5 rounded-md border border-border px-2.5 py-1 text-xs font-medium text-muted-foreground transition-colors hover:text-foreground disabled:cursor-not-allowed disabled:opacity-60"
-                          >
-                            {isRestoring ? (
-                              <Loader2 size={12} className="animate-spin" />
-                            ) : (
-                              <RotateCcw size={12} />
-                            )}
-                            {isRestoring
-                              ? t("chat.history.restoreInProgress")
-                              : t("chat.history.restore")}
-                          </button>
+                          <div className="flex flex-shrink-0 items-center gap-1.5">
+                            <button
+                              type="button"
+                              data-testid={`history-compare-${version.oid}`}
+                              aria-pressed={isSelectedForCompare}
+                              onClick={() => {
+                                toggleCompareVersion(version.oid);
+                              }}
+                              className={`inline-flex items-center gap-1.5 rounded-md border px-2.5 py-1 text-xs font-medium transition-colors ${
+                                isSelectedForCompare
+                                  ? "border-primary/40 bg-primary/10 text-primary"
+                                  : "border-border text-muted-foreground hover:text-foreground"
+                              }`}
+                            >
+                              <GitCompare size={12} />
+                              {isSelectedForCompare
+                                ? t("chat.history.compareSelected")
+                                : t("chat.history.compare")}
+                            </button>
+                            <button
+                              type="button"
+                              data-testid={`history-restore-${version.oid}`}
+                              onClick={() => {
+                                void handleRestoreVersionFromHistory(
+                                  version.oid,
+                                );
+                              }}
+                              disabled={
+                                Boolean(revertingMessageId) ||
+                                Boolean(revertingHistoryVersionId) ||
+                                isTyping
+                              }
+                              className="inline-flex flex-shrink-0 items-center gap-1.5 rounded-md border border-border px-2.5 py-1 text-xs font-medium text-muted-foreground transition-colors hover:text-foreground disabled:cursor-not-allowed disabled:opacity-60"
+                            >
+                              {isRestoring ? (
+                                <Loader2 size={12} className="animate-spin" />
+                              ) : (
+                                <RotateCcw size={12} />
+                              )}
+                              {isRestoring
+                                ? t("chat.history.restoreInProgress")
+                                : t("chat.history.restore")}
+                            </button>
+                          </div>
                         </div>
                         {version.message ? (
                           <p className="mt-2 whitespace-pre-wrap break-words text-sm text-foreground">
@@ -3,16 +3,19 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import type { ComponentProps } from "react";
 import { beforeEach, describe, expect, it, vi } from "vitest";
 import {
+  AUTH_SESSION_TOKEN_STORAGE_KEY,
   AUTH_TOKEN_STORAGE_KEY,
   DEV_USER_EMAIL_STORAGE_KEY,
 } from "@/ipc/backend_client";
 import { BlazeSidebar } from "./BlazeSidebar";
 
-const { listAppsMock, createAppMock, patchAppMock } = vi.hoisted(() => ({
-  listAppsMock: vi.fn(),
-  createAppMock: vi.fn(),
-  patchAppMock: vi.fn(),
-}));
+const { listAppsMock, createAppMock, patchAppMock, logoutAuthSessionMock } =
+  vi.hoisted(() => ({
+    listAppsMock: vi.fn(),
+    createAppMock: vi.fn(),
+    patchAppMock: vi.fn(),
+    logoutAuthSessionMock: vi.fn(),
+  }));
 
 const { settingsRef, updateSettingsMock } = vi.hoisted(() => ({
   settingsRef: {
@@ -43,8 +46,10 @@ vi.mock("@/ipc/ipc_client", () => ({
       listApps: listAppsMock,
       createApp: createAppMock,
       patchApp: patchAppMock,
+      logoutAuthSession: logoutAuthSessionMock,
       listOrganizations: vi.fn().mockResolvedValue([]),
       listWorkspaces: vi.fn().mockResolvedValue([]),
+      listMembers: vi.fn().mockResolvedValue([]),
     })),
   },
 }));
@@ -265,13 +270,19 @@ describe("BlazeSidebar", () => {
   });
 
   it("signs out from sidebar", () => {
+    logoutAuthSessionMock.mockResolvedValue(undefined);
     window.localStorage.setItem(AUTH_TOKEN_STORAGE_KEY, "token-1");
+    window.localStorage.setItem(AUTH_SESSION_TOKEN_STORAGE_KEY, "session-1");
     window.localStorage.setItem(DEV_USER_EMAIL_STORAGE_KEY, "dev@example.com");
     renderSidebar();
 
     fireEvent.click(screen.getByRole("button", { name: "Выйти" }));
 
+    expect(logoutAuthSessionMock).toHaveBeenCalledWith("session-1");
     expect(window.localStorage.getItem(AUTH_TOKEN_STORAGE_KEY)).toBeNull();
+    expect(
+      window.localStorage.getItem(AUTH_SESSION_TOKEN_STORAGE_KEY),
+    ).toBeNull();
     expect(window.localStorage.getItem(DEV_USER_EMAIL_STORAGE_KEY)).toBeNull();
     expect(navigateMock).toHaveBeenCalledWith({ to: "/auth", replace: true });
   });
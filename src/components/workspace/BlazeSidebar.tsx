@@ -15,6 +15,8 @@ import {
   Sun,
   X,
   LogOut,
+  ScrollText,
+  Gauge,
 } from "lucide-react";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { useNavigate } from "@tanstack/react-router";
@@ -25,8 +27,13 @@ import { useI18n } from "@/contexts/I18nContext";
 import { IpcClient } from "@/ipc/ipc_client";
 import { getConfiguredTenantScope } from "@/ipc/backend_client";
 import { getDateFnsLocale, getIntlLocaleCode } from "@/i18n/date_locale";
+import { useActiveOrganization } from "@/hooks/useActiveOrganization";
+import { TenantMembersPanel } from "@/components/TenantMembersPanel";
 import { TenantScopePicker } from "@/components/TenantScopePicker";
-import { clearStoredAuthContext } from "@/lib/auth_storage";
+import {
+  clearStoredAuthContext,
+  getStoredAuthSessionToken,
+} from "@/lib/auth_storage";
 import {
   OAUTH2_CODE_VERIFIER_STORAGE_KEY,
   OAUTH2_STATE_STORAGE_KEY,
@@ -135,6 +142,7 @@ export function BlazeSidebar({
   const queryClient = useQueryClient();
   const [query, setQuery] = useState("");
   const [scope, setScope] = useState(() => getConfiguredTenantScope());
+  const { isAdmin: canManageOrganization } = useActiveOrganization(scope.orgId);
   const [isCreateProjectOpen, setIsCreateProjectOpen] = useState(false);
   const [newProjectName, setNewProjectName] = useState("");
   const [renamingProjectId, setRenamingProjectId] = useState<number | null>(
@@ -299,6 +307,15 @@ export function BlazeSidebar({
   };
 
   const handleSignOut = () => {
+    const sessionToken = getStoredAuthSessionToken();
+    if (sessionToken) {
+      // Best effort: the local sign-out must not wait for the backend.
+      void IpcClient.getInstance()
+        .logoutAuthSession(sessionToken)
+        .catch((error) => {
+          console.warn("Failed to revoke auth session on sign out", error);
+        });
+    }
     clearStoredAuthContext();
     window.sessionStorage.removeItem(OAUTH2_STATE_STORAGE_KEY);
     window.sessionStorage.removeItem(OAUTH2_CODE_VERIFIER_STORAGE_KEY);
@@ -501,6 +518,13 @@ export function BlazeSidebar({
             <TenantScopePicker onScopeChange={handleScopeChange} />
           </div>
 
+          <div className="px-3 pt-3">
+            <TenantMembersPanel
+              orgId={scope.orgId}
+              workspaceId={scope.workspaceId}
+            />
+          </div>
+
           <div className="px-3 pt-3">
             <div className="flex items-center gap-2 rounded-lg bg-muted px-3 py-2">
               <Search size={14} className="text-muted-foreground" />
@@ -676,6 +700,24 @@ export function BlazeSidebar({
                 {scope.orgId}/{scope.workspaceId}
               </div>
             </div>
+            {canManageOrganization && (
+              <button
+                onClick={() => void navigate({ to: "/audit" })}
+                className="mt-2 flex w-full items-center justify-center gap-2 rounded-lg border border-border/80 px-2.5 py-2 text-xs text-muted-foreground transition-colors hover:bg-surface-hover hover:text-foreground"
+              >
+                <ScrollText size={12} />
+                {t("sidebar.button.auditLog")}
+              </button>
+            )}
+            {canManageOrganization && (
+              <button
+                onClick={() => void navigate({ to: "/usage" })}
+                className="mt-2 flex w-full items-center justify-center gap-2 rounded-lg border border-border/80 px-2.5 py-2 text-xs text-muted-foreground transition-colors hover:bg-surface-hover hover:text-foreground"
+              >
+                <Gauge size={12} />
+                {t("sidebar.button.usage")}
+              </button>
+            )}
             <button
               onClick={handleSignOut}
               className="mt-2 flex w-full items-center justify-center gap-2 rounded-lg border border-border/80 px-2.5 py-2 text-xs text-muted-foreground transition-colors hover:bg-surface-hover hover:text-foreground"
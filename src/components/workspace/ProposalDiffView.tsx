@@ -0,0 +1,198 @@
+import { useState } from "react";
+import { AlertTriangle, ChevronDown, ChevronRight } from "lucide-react";
+import { useI18n } from "@/contexts/I18nContext";
+import type { ProposalDiffHunk, ProposalFileDiff } from "@/lib/schemas";
+
+const STATUS_CLASS_NAMES: Record<ProposalFileDiff["status"], string> = {
+  added: "bg-emerald-500/10 text-emerald-600 dark:text-emerald-400",
+  modified: "bg-primary/10 text-primary",
+  deleted: "bg-destructive/10 text-destructive",
+  renamed: "bg-amber-500/10 text-amber-600 dark:text-amber-400",
+  unchanged: "bg-muted text-muted-foreground",
+};
+
+function countChangedLines(hunks: ProposalDiffHunk[]) {
+  let added = 0;
+  let removed = 0;
+  for (const hunk of hunks) {
+    for (const line of hunk.lines) {
+      if (line.type === "add") added++;
+      if (line.type === "remove") removed++;
+    }
+  }
+  return { added, removed };
+}
+
+function DiffHunk({ hunk }: { hunk: ProposalDiffHunk }) {
+  let oldLine = hunk.oldStart;
+  let newLine = hunk.newStart;
+  return (
+    <>
+      <tr>
+        <td
+          colSpan={3}
+          className="bg-muted/60 px-2 py-0.5 text-muted-foreground"
+        >{`@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`}</td>
+      </tr>
+      {hunk.lines.map((line, index) => {
+        const oldNumber = line.type === "add" ? "" : oldLine++;
+        const newNumber = line.type === "remove" ? "" : newLine++;
+        return (
+          <tr
+            key={index}
+            data-diff-line={line.type}
+            className={
+              line.type === "add"
+                ? "bg-emerald-500/10"
+                : line.type === "remove"
+                  ? "bg-destructive/10"
+                  : undefined
+            }
+          >
+            <td className="w-10 select-none px-1 text-right text-muted-foreground/70">
+              {oldNumber}
+            </td>
+            <td className="w-10 select-none px-1 text-right text-muted-foreground/70">
+              {newNumber}
+            </td>
+            <td className="whitespace-pre-wrap break-all px-2">
+              <span className="select-none text-muted-foreground">
+                {line.type === "add" ? "+" : line.type === "remove" ? "-" : " "}
+              </span>
+              {line.text}
+            </td>
+          </tr>
+        );
+      })}
+    </>
+  );
+}
+
+/** File change as shown in a diff; proposals and version diffs share it. */
+export type DiffViewFile = Pick<
+  ProposalFileDiff,
+  "path" | "fromPath" | "status" | "hunks" | "error"
+> & { binary?: boolean };
+
+export function FileDiff({
+  fileDiff,
+  isSelected = true,
+  onToggle,
+}: {
+  fileDiff: DiffViewFile;
+  isSelected?: boolean;
+  onToggle?: () => void;
+}) {
+  const { t } = useI18n();
+  const [isExpanded, setIsExpanded] = useState(false);
+  const { added, removed } = countChangedLines(fileDiff.hunks);
+  const canExpand = fileDiff.hunks.length > 0;
+
+  return (
+    <div
+      data-testid="proposal-file-diff"
+      className="overflow-hidden rounded-lg border border-border bg-surface"
+    >
+      <div className="flex items-center">
+        {onToggle && (
+          <input
+            type="checkbox"
+            data-testid="proposal-file-diff-toggle"
+            checked={isSelected}
+            onChange={onToggle}
+            aria-label={t("chat.proposalDiff.select", { path: fileDiff.path })}
+            className="ml-2.5 flex-shrink-0 accent-primary"
+          />
+        )}
+        <button
+          type="button"
+          onClick={() => setIsExpanded((value) => !value)}
+          disabled={!canExpand}
+          aria-expanded={isExpanded}
+          className="flex min-w-0 flex-1 items-center gap-2 px-2.5 py-1.5 text-left text-xs disabled:cursor-default"
+        >
+          {canExpand ? (
+            isExpanded ? (
+              <ChevronDown size={14} className="flex-shrink-0" />
+            ) : (
+              <ChevronRight size={14} className="flex-shrink-0" />
+            )
+          ) : (
+            <span className="w-3.5 flex-shrink-0" />
+          )}
+          <span
+            className={`flex-shrink-0 rounded px-1.5 py-0.5 font-medium ${STATUS_CLASS_NAMES[fileDiff.status]}`}
+          >
+            {t(`chat.proposalDiff.status.${fileDiff.status}`)}
+          </span>
+          <span className="min-w-0 flex-1 truncate font-mono text-foreground">
+            {fileDiff.fromPath
+              ? `${fileDiff.fromPath} → ${fileDiff.path}`
+              : fileDiff.path}
+          </span>
+          {fileDiff.binary && (
+            <span className="flex-shrink-0 text-muted-foreground">
+              {t("chat.proposalDiff.binary")}
+            </span>
+          )}
+          {canExpand && (
+            <span className="flex-shrink-0 font-mono">
+              <span className="text-emerald-600 dark:text-emerald-400">
+                +{added}
+              </span>{" "}
+              <span className="text-destructive">-{removed}</span>
+            </span>
+          )}
+        </button>
+      </div>
+      {fileDiff.error && (
+        <p className="flex items-start gap-1.5 border-t border-destructive/30 bg-destructive/5 px-2.5 py-1.5 text-xs text-destructive">
+          <AlertTriangle size={13} className="mt-0.5 flex-shrink-0" />
+          <span className="break-words">
+            {t("chat.proposalDiff.failed", { error: fileDiff.error })}
+          </span>
+        </p>
+      )}
+      {isExpanded && (
+        <div className="max-h-80 overflow-auto border-t border-border">
+          <table className="w-full border-collapse font-mono text-[11px] leading-5">
+            <tbody>
+              {fileDiff.hunks.map((hunk, index) => (
+                <DiffHunk key={index} hunk={hunk} />
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Inline diff of every file a pending proposal would change. With
+ * `onToggleAction` each file gets a checkbox to leave it out of the approval.
+ */
+export function ProposalDiffView({
+  fileDiffs,
+  excludedActionIds,
+  onToggleAction,
+}: {
+  fileDiffs: ProposalFileDiff[];
+  excludedActionIds?: ReadonlySet<string>;
+  onToggleAction?: (actionId: string) => void;
+}) {
+  return (
+    <div data-testid="proposal-diff-view" className="space-y-1.5">
+      {fileDiffs.map((fileDiff) => (
+        <FileDiff
+          key={fileDiff.actionId}
+          fileDiff={fileDiff}
+          isSelected={!excludedActionIds?.has(fileDiff.actionId)}
+          onToggle={
+            onToggleAction ? () => onToggleAction(fileDiff.actionId) : undefined
+          }
+        />
+      ))}
+    </div>
+  );
+}
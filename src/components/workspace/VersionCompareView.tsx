@@ -0,0 +1,113 @@
+import { useEffect, useState } from "react";
+import { Loader2, X } from "lucide-react";
+import { useI18n } from "@/contexts/I18nContext";
+import { IpcClient } from "@/ipc/ipc_client";
+import type { VersionDiff } from "@/lib/schemas";
+import { FileDiff } from "./ProposalDiffView";
+
+export interface CompareVersion {
+  oid: string;
+  /** Position in the history, as shown in the version label. */
+  index: number;
+}
+
+/**
+ * Per-file changes between two versions of the app, loaded when the pair
+ * changes. `from` is the older version.
+ */
+export function VersionCompareView({
+  appId,
+  from,
+  to,
+  onClose,
+}: {
+  appId: number;
+  from: CompareVersion;
+  to: CompareVersion;
+  onClose: () => void;
+}) {
+  const { t } = useI18n();
+  const [diff, setDiff] = useState<VersionDiff | null>(null);
+  const [hasError, setHasError] = useState(false);
+
+  useEffect(() => {
+    let isCurrent = true;
+    setDiff(null);
+    setHasError(false);
+    IpcClient.getInstance()
+      .getVersionDiff({ appId, from: from.oid, to: to.oid })
+      .then((result) => {
+        if (isCurrent) {
+          setDiff(result);
+        }
+      })
+      .catch(() => {
+        if (isCurrent) {
+          setHasError(true);
+        }
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, [appId, from.oid, to.oid]);
+
+  return (
+    <div
+      data-testid="history-compare-view"
+      className="rounded-xl border border-primary/40 bg-card p-4"
+    >
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0">
+          <p className="text-sm font-medium text-foreground">
+            {t("chat.history.compareTitle", {
+              from: from.index,
+              to: to.index,
+            })}
+          </p>
+          {diff && (
+            <p className="mt-0.5 font-mono text-xs text-muted-foreground">
+              {t("chat.history.compareStats", {
+                files: diff.stats.filesChanged,
+              })}{" "}
+              <span className="text-emerald-600 dark:text-emerald-400">
+                +{diff.stats.additions}
+              </span>{" "}
+              <span className="text-destructive">-{diff.stats.deletions}</span>
+            </p>
+          )}
+        </div>
+        <button
+          type="button"
+          data-testid="history-compare-close"
+          onClick={onClose}
+          aria-label={t("chat.history.compareClose")}
+          className="flex-shrink-0 rounded-md p-1 text-muted-foreground transition-colors hover:text-foreground"
+        >
+          <X size={14} />
+        </button>
+      </div>
+      <div className="mt-3">
+        {hasError ? (
+          <p className="text-sm text-destructive">
+            {t("chat.history.compareError")}
+          </p>
+        ) : !diff ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 size={16} className="animate-spin" />
+            {t("chat.history.compareLoading")}
+          </div>
+        ) : diff.files.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            {t("chat.history.compareEmpty")}
+          </p>
+        ) : (
+          <div className="space-y-1.5">
+            {diff.files.map((fileDiff) => (
+              <FileDiff key={fileDiff.path} fileDiff={fileDiff} />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
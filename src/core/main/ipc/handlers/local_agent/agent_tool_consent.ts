@@ -1,28 +1,182 @@
+import { and, eq, isNull, or } from "drizzle-orm";
+import { db } from "@/db";
+import { agentToolConsents } from "@/db/schema";
+import type { AgentToolConsent } from "./tools/types";
+
+export type AgentToolConsentDecision =
+  | "accept-once"
+  | "accept-always"
+  | "decline";
+
+/** Workspace (and optionally user) whose consent policies apply. */
+export interface AgentToolConsentScope {
+  organizationId: string;
+  workspaceId: string;
+  userId: string | null;
+}
+
+export interface AgentToolConsentPolicy {
+  workspaceConsent: AgentToolConsent | null;
+  locked: boolean;
+  userConsent: AgentToolConsent | null;
+}
+
+/**
+ * A locked workspace policy always wins. Otherwise the user's override comes
+ * first, then the workspace policy, then the tool default.
+ */
+export function pickEffectiveAgentToolConsent(
+  defaultConsent: AgentToolConsent,
+  policy: AgentToolConsentPolicy | undefined,
+): AgentToolConsent {
+  if (!policy) {
+    return defaultConsent;
+  }
+  if (policy.locked && policy.workspaceConsent) {
+    return policy.workspaceConsent;
+  }
+  return policy.userConsent ?? policy.workspaceConsent ?? defaultConsent;
+}
+
+/** Loads the workspace policies and the user's overrides, keyed by tool. */
+export async function getStoredAgentToolConsentPolicies(
+  scope: AgentToolConsentScope,
+): Promise<Map<string, AgentToolConsentPolicy>> {
+  const rows = await db
+    .select()
+    .from(agentToolConsents)
+    .where(
+      and(
+        eq(agentToolConsents.organizationId, scope.organizationId),
+        eq(agentToolConsents.workspaceId, scope.workspaceId),
+        scope.userId
+          ? or(
+              isNull(agentToolConsents.userId),
+              eq(agentToolConsents.userId, scope.userId),
+            )
+          : isNull(agentToolConsents.userId),
+      ),
+    );
+
+  const policies = new Map<string, AgentToolConsentPolicy>();
+  for (const row of rows) {
+    const policy = policies.get(row.toolName) ?? {
+      workspaceConsent: null,
+      locked: false,
+      userConsent: null,
+    };
+    if (row.userId === null) {
+      policy.workspaceConsent = row.consent as AgentToolConsent;
+      policy.locked = row.locked;
+    } else {
+      policy.userConsent = row.consent as AgentToolConsent;
+    }
+    policies.set(row.toolName, policy);
+  }
+  return policies;
+}
+
+/**
+ * Stores the workspace policy (`userId` null) or a user's override.
+ * `consent: null` removes the stored row.
+ */
+export async function setStoredAgentToolConsent(params: {
+  scope: AgentToolConsentScope;
+  toolName: string;
+  consent: AgentToolConsent | null;
+  locked?: boolean;
+  updatedByUserId: string | null;
+}): Promise<void> {
+  const condition = and(
+    eq(agentToolConsents.organizationId, params.scope.organizationId),
+    eq(agentToolConsents.workspaceId, params.scope.workspaceId),
+    params.scope.userId
+      ? eq(agentToolConsents.userId, params.scope.userId)
+      : isNull(agentToolConsents.userId),
+    eq(agentToolConsents.toolName, params.toolName),
+  );
+
+  if (params.consent === null) {
+    await db.delete(agentToolConsents).where(condition);
+    return;
+  }
+
+  const rows = await db
+    .select({ id: agentToolConsents.id })
+    .from(agentToolConsents)
+    .where(condition)
+    .limit(1);
+  if (rows.length > 0) {
+    await db
+      .update(agentToolConsents)
+      .set({
+        consent: params.consent,
+        locked: params.locked ?? false,
+        updatedByUserId: params.updatedByUserId,
+        updatedAt: new Date(),
+      })
+      .where(condition);
+    return;
+  }
+  await db.insert(agentToolConsents).values({
+    organizationId: params.scope.organizationId,
+    workspaceId: params.scope.workspaceId,
+    userId: params.scope.userId,
+    toolName: params.toolName,
+    consent: params.consent,
+    locked: params.locked ?? false,
+    updatedByUserId: params.updatedByUserId,
+  });
+}
+
 interface PendingConsentEntry {
   chatId: number;
-  resolve: (d: "accept-once" | "accept-always" | "decline") => void;
+  resolve: (decision: AgentToolConsentDecision) => void;
 }
 
 const pendingConsentResolvers = new Map<string, PendingConsentEntry>();
 
 export function waitForAgentToolConsent(
   requestId: string,
-  chatId: number,
-): Promise<"accept-once" | "accept-always" | "decline"> {
+  options: { chatId: number; abortSignal?: AbortSignal },
+): Promise<AgentToolConsentDecision> {
   return new Promise((resolve) => {
-    pendingConsentResolvers.set(requestId, { chatId, resolve });
+    if (options.abortSignal?.aborted) {
+      resolve("decline");
+      return;
+    }
+    // An aborted stream declines the call so the tool never waits forever.
+    const onAbort = () => resolveAgentToolConsent(requestId, "decline");
+    options.abortSignal?.addEventListener("abort", onAbort, { once: true });
+    pendingConsentResolvers.set(requestId, {
+      chatId: options.chatId,
+      resolve: (decision) => {
+        options.abortSignal?.removeEventListener("abort", onAbort);
+        resolve(decision);
+      },
+    });
   });
 }
 
+/**
+ * Resolves a pending consent request. When `chatId` is given the request must
+ * belong to that chat. Returns false when no matching request is pending.
+ */
 export function resolveAgentToolConsent(
   requestId: string,
-  decision: "accept-once" | "accept-always" | "decline",
-) {
+  decision: AgentToolConsentDecision,
+  options?: { chatId?: number },
+): boolean {
   const entry = pendingConsentResolvers.get(requestId);
-  if (entry) {
-    pendingConsentResolvers.delete(requestId);
-    entry.resolve(decision);
+  if (!entry) {
+    return false;
+  }
+  if (options?.chatId !== undefined && entry.chatId !== options.chatId) {
+    return false;
   }
+  pendingConsentResolvers.delete(requestId);
+  entry.resolve(decision);
+  return true;
 }
 
 /**
@@ -3,45 +3,49 @@
  * Main orchestrator for tool-based agent mode with parallel execution
  */
 
-import {
-  streamText,
-  ToolSet,
-  stepCountIs,
-  ModelMessage,
-  type ToolExecutionOptions,
-} from "ai";
+import { streamText, ToolSet, stepCountIs, ModelMessage } from "ai";
 import { log } from "@/lib/logger";
 
 import { db } from "@/db";
 import { chats, messages } from "@/db/schema";
-import { eq } from "drizzle-orm";
+import { and, eq, isNull } from "drizzle-orm";
 
-import { isBlazeProEnabled } from "@/lib/schemas";
+import { isBlazeProEnabled, type UserSettings } from "@/lib/schemas";
 import { readSettings } from "@/main/settings";
 import { getBlazeAppPath } from "@/paths/paths";
 import { getModelClient } from "@/ipc/utils/get_model_client";
 import { safeSend } from "@/ipc/utils/safe_sender";
 import { getMaxTokens, getTemperature } from "@/ipc/utils/token_utils";
+import { modelSupportsImageInput } from "@/ipc/utils/findLanguageModel";
 import { getProviderOptions, getAiHeaders } from "@/ipc/utils/provider_options";
 
 import {
   AgentToolName,
   buildAgentToolSet,
+  getAgentToolConsents,
   requireAgentToolConsent,
   clearPendingConsentsForChat,
 } from "./tool_definitions";
 import { commitAllChanges } from "./processors/file_operations";
-import { mcpManager } from "@/ipc/utils/mcp_manager";
-import { mcpServers } from "@/db/schema";
-import { requireMcpToolConsent } from "@/ipc/utils/mcp_consent";
+import {
+  buildMcpChatToolSet,
+  buildMcpToolBlock,
+  formatMcpToolOutput,
+} from "@/ipc/utils/mcp_chat_tools";
+import { isMcpChatToolsEnabled } from "@/http/feature_flags";
+import type { LanguageModelProviderScope } from "@/ipc/shared/language_model_helpers";
+import {
+  addLanguageModelUsage,
+  computeTokenCostMicroUsd,
+  createEmptyTokenUsage,
+  getModelTokenPrices,
+} from "@/ipc/utils/token_cost";
 import { getAiMessagesJsonIfWithinLimit } from "@/ipc/utils/ai_messages_utils";
 
 import type { ChatStreamParams, ChatResponseEnd } from "@/ipc/ipc_types";
 import {
   AgentContext,
   parsePartialJson,
-  escapeXmlAttr,
-  escapeXmlContent,
   UserMessageContentPart,
 } from "./tools/types";
 import {
@@ -50,7 +54,6 @@ import {
 } from "./prepare_step_utils";
 import { TOOL_DEFINITIONS } from "./tool_definitions";
 import { parseAiMessagesJson } from "@/ipc/utils/ai_messages_utils";
-import { parseMcpToolKey, sanitizeMcpName } from "@/ipc/utils/mcp_tool_utils";
 import type { ServerEventSink } from "@/ipc/utils/server_event_sink";
 
 const logger = log.scope("local_agent_handler");
@@ -103,6 +106,8 @@ export async function handleLocalAgentStream(
     systemPrompt,
     blazeRequestId,
     readOnly = false,
+    settings = req.settings ?? readSettings(),
+    tenantScope,
   }: {
     placeholderMessageId: number;
     systemPrompt: string;
@@ -112,12 +117,20 @@ export async function handleLocalAgentStream(
      * State-modifying tools are disabled, and no commits are made.
      */
     readOnly?: boolean;
+    /**
+     * Settings of the stream, including per-request model overrides. Falls
+     * back to the user's settings on the request, then the settings file.
+     */
+    settings?: UserSettings;
+    /**
+     * Tenant of the chat. Tenant-scoped streams resolve the model from the
+     * workspace providers and get the workspace MCP tools.
+     */
+    tenantScope?: LanguageModelProviderScope;
   },
 ): Promise<void> {
-  const settings = readSettings();
-
-  // Check Pro status
-  if (!isBlazeProEnabled(settings)) {
+  // Without a tenant the model comes from the Blaze Pro gateway.
+  if (!tenantScope && !isBlazeProEnabled(settings)) {
     safeSend(eventSink, "chat:response:error", {
       chatId: req.chatId,
       error:
@@ -155,6 +168,7 @@ export async function handleLocalAgentStream(
   });
 
   let fullResponse = "";
+  let maxTokensUsed: number | undefined;
   let streamingPreview = ""; // Temporary preview for current tool, not persisted
 
   // Track pending user messages to inject after tool results
@@ -167,8 +181,19 @@ export async function handleLocalAgentStream(
     const { modelClient } = await getModelClient(
       settings.selectedModel,
       settings,
+      tenantScope,
     );
 
+    // Consent policies are stored per workspace, with per-user overrides.
+    const consentScope =
+      tenantScope?.organizationId && tenantScope.workspaceId
+        ? {
+            organizationId: tenantScope.organizationId,
+            workspaceId: tenantScope.workspaceId,
+            userId: req.userId ?? null,
+          }
+        : undefined;
+
     // Build tool execute context
     const ctx: AgentContext = {
       eventSink,
@@ -178,6 +203,8 @@ export async function handleLocalAgentStream(
       messageId: placeholderMessageId,
       todos: [],
       blazeRequestId,
+      abortSignal: abortController.signal,
+      supportsImageInput: await modelSupportsImageInput(settings.selectedModel),
       onXmlStream: (accumulatedXml: string) => {
         // Stream accumulated XML to UI without persisting
         streamingPreview = accumulatedXml;
@@ -205,6 +232,8 @@ export async function handleLocalAgentStream(
           toolName: params.toolName as AgentToolName,
           toolDescription: params.toolDescription,
           inputPreview: params.inputPreview,
+          scope: consentScope,
+          abortSignal: abortController.signal,
         });
       },
       appendUserMessage: (content: UserMessageContentPart[]) => {
@@ -221,8 +250,17 @@ export async function handleLocalAgentStream(
     // Build tool set (agent tools + MCP tools)
     // In read-only mode, only include read-only tools and skip MCP tools
     // (since we can't determine if MCP tools modify state)
-    const agentTools = buildAgentToolSet(ctx, { readOnly });
-    const mcpTools = readOnly ? {} : await getMcpTools(eventSink, ctx);
+    const agentTools = buildAgentToolSet(ctx, {
+      readOnly,
+      consents: await getAgentToolConsents(consentScope),
+    });
+    const mcpTools = readOnly
+      ? {}
+      : await getMcpTools(eventSink, {
+          chatId: chat.id,
+          tenantScope,
+          abortSignal: abortController.signal,
+        });
     const allTools: ToolSet = { ...agentTools, ...mcpTools };
 
     // Prepare message history with graceful fallback
@@ -274,6 +312,7 @@ export async function handleLocalAgentStream(
           cachedInputTokens ? (cachedInputTokens ?? 0) / (inputTokens ?? 0) : 0,
         );
         if (typeof totalTokens === "number") {
+          maxTokensUsed = totalTokens;
           await db
             .update(messages)
             .set({ maxTokensUsed: totalTokens })
@@ -293,6 +332,7 @@ export async function handleLocalAgentStream(
 
     // Process the stream
     let inThinkingBlock = false;
+    const isMcpTool = (toolName: string) => toolName in mcpTools;
 
     for await (const part of streamResult.fullStream) {
       if (abortController.signal.aborted) {
@@ -382,12 +422,40 @@ export async function handleLocalAgentStream(
           break;
         }
 
+        // Agent tools render themselves through onXmlStream/onXmlComplete;
+        // MCP tools are shown as call/result blocks.
         case "tool-call":
-          // Tool execution happens via execute callbacks
+          if (isMcpTool(part.toolName)) {
+            chunk += buildMcpToolBlock(
+              "blaze-mcp-tool-call",
+              part.toolName,
+              JSON.stringify(part.input, null, 2) ?? "",
+            );
+          }
           break;
 
         case "tool-result":
-          // Tool results are already handled by the execute callback
+          if (isMcpTool(part.toolName)) {
+            chunk += buildMcpToolBlock(
+              "blaze-mcp-tool-result",
+              part.toolName,
+              formatMcpToolOutput(part.output),
+              (part.output as { isError?: unknown } | null)?.isError === true,
+            );
+          }
+          break;
+
+        case "tool-error":
+          if (isMcpTool(part.toolName)) {
+            chunk += buildMcpToolBlock(
+              "blaze-mcp-tool-result",
+              part.toolName,
+              part.error instanceof Error
+                ? part.error.message
+                : String(part.error),
+              true,
+            );
+          }
           break;
       }
 
@@ -418,6 +486,47 @@ export async function handleLocalAgentStream(
       logger.warn("Failed to save AI messages JSON:", err);
     }
 
+    // Sums the usage of every step of the turn.
+    let tokenUsage = createEmptyTokenUsage();
+    try {
+      tokenUsage = addLanguageModelUsage(
+        tokenUsage,
+        await streamResult.totalUsage,
+      );
+    } catch (err) {
+      logger.warn("Failed to read token usage:", err);
+    }
+    const prices = await getModelTokenPrices({
+      organizationId: tenantScope?.organizationId ?? null,
+      workspaceId: tenantScope?.workspaceId ?? null,
+      provider: settings.selectedModel.provider,
+      apiName: settings.selectedModel.name,
+    }).catch((error) => {
+      logger.warn("Failed to load model prices", error);
+      return null;
+    });
+    // Providers that report no usage leave the turn without counts.
+    const turnUsage =
+      tokenUsage.inputTokens + tokenUsage.outputTokens > 0
+        ? {
+            ...tokenUsage,
+            costMicroUsd: computeTokenCostMicroUsd(tokenUsage, prices),
+          }
+        : {};
+    if (Object.keys(turnUsage).length > 0) {
+      await db
+        .update(messages)
+        .set(turnUsage)
+        .where(eq(messages.id, placeholderMessageId));
+    }
+
+    if (ctx.chatSummary) {
+      await db
+        .update(chats)
+        .set({ title: ctx.chatSummary })
+        .where(and(eq(chats.id, req.chatId), isNull(chats.title)));
+    }
+
     // In read-only mode, skip commits
     if (!readOnly) {
       // Commit all changes
@@ -441,6 +550,9 @@ export async function handleLocalAgentStream(
     safeSend(eventSink, "chat:response:end", {
       chatId: req.chatId,
       updatedFiles: !readOnly,
+      totalTokens: maxTokensUsed,
+      model: settings.selectedModel.name,
+      ...turnUsage,
     } satisfies ChatResponseEnd);
 
     return;
@@ -498,78 +610,34 @@ function sendResponseChunk(
 
 async function getMcpTools(
   eventSink: ServerEventSink,
-  ctx: AgentContext,
+  {
+    chatId,
+    tenantScope,
+    abortSignal,
+  }: {
+    chatId: number;
+    tenantScope?: LanguageModelProviderScope;
+    abortSignal: AbortSignal;
+  },
 ): Promise<ToolSet> {
-  const mcpToolSet: ToolSet = {};
-
+  // MCP servers belong to a workspace, so unscoped streams get none.
+  if (
+    !isMcpChatToolsEnabled() ||
+    !tenantScope?.organizationId ||
+    !tenantScope.workspaceId
+  ) {
+    return {};
+  }
   try {
-    const servers = await db
-      .select()
-      .from(mcpServers)
-      .where(eq(mcpServers.enabled, true as any));
-
-    for (const s of servers) {
-      const client = await mcpManager.getClient(s.id);
-      const toolSet = await client.tools();
-
-      for (const [name, mcpTool] of Object.entries(toolSet)) {
-        const key = `${sanitizeMcpName(s.name || "")}__${sanitizeMcpName(name)}`;
-
-        mcpToolSet[key] = {
-          description: mcpTool.description,
-          inputSchema: mcpTool.inputSchema,
-          execute: async (args: unknown, execCtx: ToolExecutionOptions) => {
-            try {
-              const inputPreview =
-                typeof args === "string"
-                  ? args
-                  : Array.isArray(args)
-                    ? args.join(" ")
-                    : JSON.stringify(args).slice(0, 500);
-
-              const ok = await requireMcpToolConsent(eventSink, {
-                serverId: s.id,
-                serverName: s.name,
-                toolName: name,
-                toolDescription: mcpTool.description,
-                inputPreview,
-              });
-
-              if (!ok) throw new Error(`User declined running tool ${key}`);
-
-              // Emit XML for UI (MCP tools don't stream, so use onXmlComplete directly)
-              const { serverName, toolName } = parseMcpToolKey(key);
-              const content = JSON.stringify(args, null, 2);
-              ctx.onXmlComplete(
-                `<blaze-mcp-tool-call server="${serverName}" tool="${toolName}">\n${content}\n</blaze-mcp-tool-call>`,
-              );
-
-              const res = await mcpTool.execute(args, execCtx);
-              const resultStr =
-                typeof res === "string" ? res : JSON.stringify(res);
-
-              ctx.onXmlComplete(
-                `<blaze-mcp-tool-result server="${serverName}" tool="${toolName}">\n${resultStr}\n</blaze-mcp-tool-result>`,
-              );
-
-              return resultStr;
-            } catch (error) {
-              const errorMessage =
-                error instanceof Error ? error.message : String(error);
-              const errorStack =
-                error instanceof Error && error.stack ? error.stack : "";
-              ctx.onXmlComplete(
-                `<blaze-output type="error" message="MCP tool '${key}' failed: ${escapeXmlAttr(errorMessage)}">${escapeXmlContent(errorStack || errorMessage)}</blaze-output>`,
-              );
-              throw error;
-            }
-          },
-        };
-      }
-    }
+    return await buildMcpChatToolSet({
+      eventSink,
+      chatId,
+      organizationId: tenantScope.organizationId,
+      workspaceId: tenantScope.workspaceId,
+      abortSignal,
+    });
   } catch (e) {
     logger.warn("Failed building MCP toolset for local-agent", e);
+    return {};
   }
-
-  return mcpToolSet;
 }
@@ -1,29 +1,59 @@
 import { describe, expect, it } from "vitest";
+import { pickEffectiveAgentToolConsent } from "./agent_tool_consent";
 import {
   TOOL_DEFINITIONS,
-  getAgentToolConsent,
-  getAllAgentToolConsents,
+  buildAgentToolSet,
+  getAgentToolConsents,
   getDefaultConsent,
-  setAgentToolConsent,
 } from "./tool_definitions";
+import type { AgentContext } from "./tools/types";
 
 describe("agent tool consent defaults", () => {
-  it("uses tool definition defaults when no override is set", () => {
+  it("uses tool definition defaults when no scope is given", async () => {
     const tool = TOOL_DEFINITIONS[0];
     expect(tool).toBeDefined();
     expect(getDefaultConsent(tool.name)).toBe(tool.defaultConsent ?? "ask");
-    expect(getAgentToolConsent(tool.name)).toBe(tool.defaultConsent ?? "ask");
+
+    const consents = await getAgentToolConsents();
+    expect(consents[tool.name]).toBe(tool.defaultConsent ?? "ask");
   });
 
-  it("keeps consent overrides in the local agent consent store", () => {
-    const tool =
-      TOOL_DEFINITIONS.find((entry) => entry.defaultConsent !== "never") ??
-      TOOL_DEFINITIONS[0];
-    expect(tool).toBeDefined();
+  it("skips tools whose effective consent is never", () => {
+    const toolSet = buildAgentToolSet({} as AgentContext, {
+      consents: { web_crawl: "never" },
+    });
+
+    expect(toolSet.web_crawl).toBeUndefined();
+    expect(toolSet.read_file).toBeDefined();
+  });
+});
 
-    setAgentToolConsent(tool.name, "always");
+describe("agent tool consent policies", () => {
+  it("prefers the user override over the workspace policy", () => {
+    expect(
+      pickEffectiveAgentToolConsent("ask", {
+        workspaceConsent: "always",
+        locked: false,
+        userConsent: "never",
+      }),
+    ).toBe("never");
+    expect(
+      pickEffectiveAgentToolConsent("ask", {
+        workspaceConsent: "always",
+        locked: false,
+        userConsent: null,
+      }),
+    ).toBe("always");
+    expect(pickEffectiveAgentToolConsent("ask", undefined)).toBe("ask");
+  });
 
-    expect(getAgentToolConsent(tool.name)).toBe("always");
-    expect(getAllAgentToolConsents()[tool.name]).toBe("always");
+  it("ignores user overrides when the workspace policy is locked", () => {
+    expect(
+      pickEffectiveAgentToolConsent("ask", {
+        workspaceConsent: "never",
+        locked: true,
+        userConsent: "always",
+      }),
+    ).toBe("never");
   });
 });
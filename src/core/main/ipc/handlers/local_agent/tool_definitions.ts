@@ -18,6 +18,8 @@ import { webSearchTool } from "./tools/web_search";
 import { webCrawlTool } from "./tools/web_crawl";
 import { updateTodosTool } from "./tools/update_todos";
 import { runTypeChecksTool } from "./tools/run_type_checks";
+import { runScriptTool } from "./tools/run_script";
+import { screenshotPreviewTool } from "./tools/screenshot_preview";
 import { grepTool } from "./tools/grep";
 import { codeSearchTool } from "./tools/code_search";
 import type { LanguageModelV3ToolResultOutput } from "@ai-sdk/provider";
@@ -29,9 +31,17 @@ import {
   type AgentContext,
   type ToolResult,
 } from "./tools/types";
-import { waitForAgentToolConsent } from "./agent_tool_consent";
+import {
+  getStoredAgentToolConsentPolicies,
+  pickEffectiveAgentToolConsent,
+  setStoredAgentToolConsent,
+  waitForAgentToolConsent,
+  type AgentToolConsentPolicy,
+  type AgentToolConsentScope,
+} from "./agent_tool_consent";
 import { safeSend } from "@/ipc/utils/safe_sender";
 import type { ServerEventSink } from "@/ipc/utils/server_event_sink";
+import { markCodeSearchIndexStale } from "@/utils/code_search_index";
 export {
   clearPendingConsentsForChat,
   resolveAgentToolConsent,
@@ -55,50 +65,37 @@ export const TOOL_DEFINITIONS: readonly ToolDefinition[] = [
   webCrawlTool,
   updateTodosTool,
   runTypeChecksTool,
+  runScriptTool,
+  screenshotPreviewTool,
 ];
 // ============================================================================
 // Agent Tool Name Type (derived from TOOL_DEFINITIONS)
 // ============================================================================
 
 export type AgentToolName = (typeof TOOL_DEFINITIONS)[number]["name"];
-const agentToolConsents = new Map<AgentToolName, AgentToolConsent>();
 
 export function getDefaultConsent(toolName: AgentToolName): AgentToolConsent {
   const tool = TOOL_DEFINITIONS.find((t) => t.name === toolName);
   return tool?.defaultConsent ?? "ask";
 }
 
-export function getAgentToolConsent(toolName: AgentToolName): AgentToolConsent {
-  const stored = agentToolConsents.get(toolName);
-  if (stored != null) {
-    return stored;
-  }
-  return getDefaultConsent(toolName);
-}
-
-export function setAgentToolConsent(
-  toolName: AgentToolName,
-  consent: AgentToolConsent,
-): void {
-  agentToolConsents.set(toolName, consent);
-}
-
-export function getAllAgentToolConsents(): Record<
-  AgentToolName,
-  AgentToolConsent
-> {
+/**
+ * Effective consent of every agent tool. Without a scope only the tool
+ * defaults apply.
+ */
+export async function getAgentToolConsents(
+  scope?: AgentToolConsentScope,
+): Promise<Record<AgentToolName, AgentToolConsent>> {
+  const policies = scope
+    ? await getStoredAgentToolConsentPolicies(scope)
+    : new Map<string, AgentToolConsentPolicy>();
   const result: Record<string, AgentToolConsent> = {};
-
-  // Start with defaults, override with stored values
   for (const tool of TOOL_DEFINITIONS) {
-    const storedConsent = agentToolConsents.get(tool.name as AgentToolName);
-    if (storedConsent != null) {
-      result[tool.name] = storedConsent;
-    } else {
-      result[tool.name] = getDefaultConsent(tool.name as AgentToolName);
-    }
+    result[tool.name] = pickEffectiveAgentToolConsent(
+      getDefaultConsent(tool.name as AgentToolName),
+      policies.get(tool.name),
+    );
   }
-
   return result as Record<AgentToolName, AgentToolConsent>;
 }
 
@@ -109,25 +106,39 @@ export async function requireAgentToolConsent(
     toolName: AgentToolName;
     toolDescription?: string | null;
     inputPreview?: string | null;
+    scope?: AgentToolConsentScope;
+    abortSignal?: AbortSignal;
   },
 ): Promise<boolean> {
-  const current = getAgentToolConsent(params.toolName);
+  const { scope, abortSignal, ...request } = params;
+  const current = (await getAgentToolConsents(scope))[params.toolName];
 
   if (current === "always") return true;
-  if (current === "never")
-    throw new Error("Should not ask for consent for a tool marked as 'never'");
+  // The policy may have changed to "never" after the tool set was built.
+  if (current === "never") return false;
 
-  // Ask renderer for a decision via event bridge
+  // Ask the client for a decision over the chat stream
   const requestId = `agent:${params.toolName}:${crypto.randomUUID()}`;
   safeSend(eventSink, "agent-tool:consent-request", {
     requestId,
-    ...params,
+    ...request,
   });
 
-  const response = await waitForAgentToolConsent(requestId, params.chatId);
+  const response = await waitForAgentToolConsent(requestId, {
+    chatId: params.chatId,
+    abortSignal,
+  });
 
   if (response === "accept-always") {
-    setAgentToolConsent(params.toolName, "always");
+    // Remembered as the user's own override.
+    if (scope?.userId) {
+      await setStoredAgentToolConsent({
+        scope,
+        toolName: params.toolName,
+        consent: "always",
+        updatedByUserId: scope.userId,
+      });
+    }
     return true;
   }
   if (response === "decline") {
@@ -158,6 +169,8 @@ export interface BuildAgentToolSetOptions {
    * Used for read-only modes like "ask" mode.
    */
   readOnly?: boolean;
+  /** Effective consents; tools missing here use their default. */
+  consents?: Partial<Record<AgentToolName, AgentToolConsent>>;
 }
 
 /**
@@ -170,7 +183,8 @@ export function buildAgentToolSet(
   const toolSet: Record<string, any> = {};
 
   for (const tool of TOOL_DEFINITIONS) {
-    const consent = getAgentToolConsent(tool.name);
+    const consent =
+      options.consents?.[tool.name] ?? getDefaultConsent(tool.name);
     if (consent === "never") {
       continue;
     }
@@ -199,7 +213,15 @@ export function buildAgentToolSet(
             throw new Error(`User denied permission for ${tool.name}`);
           }
 
-          const result = await tool.execute(args, ctx);
+          let result: ToolResult;
+          try {
+            result = await tool.execute(args, ctx);
+          } finally {
+            if (tool.modifiesState) {
+              // Even a failed tool may have written some files.
+              markCodeSearchIndexStale(ctx.appPath);
+            }
+          }
           return convertToolResultForAiSdk(result);
         } catch (error) {
           const errorMessage =
@@ -7,6 +7,8 @@ import {
   escapeXmlContent,
 } from "./types";
 import { extractCodebase } from "../../../../../../utils/codebase";
+import { searchCodebase } from "../../../../../../utils/code_search_index";
+import { isRemoteCodeSearchEnabled } from "@/http/feature_flags";
 import { engineFetch } from "./engine_fetch";
 
 const logger = log.scope("code_search");
@@ -31,9 +33,6 @@ async function callCodeSearch(
   },
   ctx: AgentContext,
 ): Promise<string[]> {
-  // Stream initial state to UI
-  ctx.onXmlStream(`<blaze-code-search query="${escapeXmlAttr(params.query)}">`);
-
   const response = await engineFetch(ctx, "/tools/code-search", {
     method: "POST",
     body: JSON.stringify({
@@ -53,7 +52,33 @@ async function callCodeSearch(
   return data.relevantFiles;
 }
 
-const DESCRIPTION = `Search the codebase semantically to find files relevant to a query. Use this tool when you need to discover which files contain code related to a specific concept, feature, or functionality. Returns a list of file paths that are most relevant to the search query.
+async function searchWithEngine(
+  query: string,
+  ctx: AgentContext,
+): Promise<string[]> {
+  // Gather all files from the project
+  const { files } = await extractCodebase({
+    appPath: ctx.appPath,
+    chatContext: {
+      contextPaths: [],
+      smartContextAutoIncludes: [],
+      excludePaths: [],
+    },
+  });
+
+  // Map files to FileContext format
+  const filesContext = files.map((file) => ({
+    path: file.path,
+    content: file.content,
+  }));
+
+  logger.log(`Searching ${filesContext.length} files for query: "${query}"`);
+
+  // Call the code-search endpoint
+  return callCodeSearch({ query, filesContext }, ctx);
+}
+
+const DESCRIPTION = `Search the codebase semantically to find files relevant to a query. Use this tool when you need to discover which files contain code related to a specific concept, feature, or functionality. Returns a list of file paths that are most relevant to the search query, with the matching symbols they declare.
 
 ### When to Use This Tool
 
@@ -87,34 +112,18 @@ export const codeSearchTool: ToolDefinition<z.infer<typeof codeSearchSchema>> =
     execute: async (args, ctx: AgentContext) => {
       logger.log(`Executing code search: ${args.query}`);
 
-      // Gather all files from the project
-      const { files } = await extractCodebase({
-        appPath: ctx.appPath,
-        chatContext: {
-          contextPaths: [],
-          smartContextAutoIncludes: [],
-          excludePaths: [],
-        },
-      });
-
-      // Map files to FileContext format
-      const filesContext = files.map((file) => ({
-        path: file.path,
-        content: file.content,
-      }));
-
-      logger.log(
-        `Searching ${filesContext.length} files for query: "${args.query}"`,
+      // Stream initial state to UI
+      ctx.onXmlStream(
+        `<blaze-code-search query="${escapeXmlAttr(args.query)}">`,
       );
 
-      // Call the code-search endpoint
-      const relevantFiles = await callCodeSearch(
-        {
-          query: args.query,
-          filesContext,
-        },
-        ctx,
-      );
+      const relevantFiles = isRemoteCodeSearchEnabled()
+        ? await searchWithEngine(args.query, ctx)
+        : (await searchCodebase(ctx.appPath, args.query)).map((match) =>
+            match.symbols.length > 0
+              ? `${match.path} (${match.symbols.join(", ")})`
+              : match.path,
+          );
 
       // Format results
       const resultText =
@@ -0,0 +1,351 @@
+import { z } from "zod";
+import { spawn } from "node:child_process";
+import fs from "node:fs";
+import path from "node:path";
+import {
+  ToolDefinition,
+  AgentContext,
+  escapeXmlAttr,
+  escapeXmlContent,
+} from "./types";
+import { withLock } from "@/ipc/utils/lock_utils";
+import { log } from "@/lib/logger";
+
+const logger = log.scope("run_script");
+
+const DEFAULT_TIMEOUT_SECONDS = 120;
+const MAX_TIMEOUT_SECONDS = 600;
+// Only the tail of the output is kept; test runners print failures last.
+const MAX_CAPTURED_OUTPUT_CHARS = 200_000;
+const MAX_RETURNED_OUTPUT_CHARS = 6_000;
+const MAX_SUMMARY_LINES = 30;
+// Keeps runaway test processes from exhausting the host's memory.
+const SCRIPT_MAX_OLD_SPACE_MB = 2048;
+// Per-process limits of the script tree (POSIX only). Data covers heap
+// allocations; processes stop fork bombs; CPU time allows two busy cores.
+const SCRIPT_MAX_DATA_MB = 4096;
+const SCRIPT_MAX_PROCESSES = 1024;
+const SCRIPT_CPU_SECONDS_PER_SECOND = 2;
+
+// Scripts are code the agent can edit, so they get none of the server's
+// secrets (database URL, secrets key, provider keys).
+const SCRIPT_ENV_ALLOWLIST = [
+  "PATH",
+  "HOME",
+  "USER",
+  "LANG",
+  "LC_ALL",
+  "TERM",
+  "TMPDIR",
+  "TMP",
+  "TEMP",
+  "PNPM_HOME",
+  "npm_config_cache",
+  "NODE_EXTRA_CA_CERTS",
+  // Windows needs these to start processes at all.
+  "SystemRoot",
+  "ComSpec",
+  "PATHEXT",
+  "USERPROFILE",
+  "APPDATA",
+  "LOCALAPPDATA",
+];
+
+const FAILURE_LINE_PATTERN =
+  /(\bFAIL\b|\bfailed\b|\berror\b|✗|×|✖|AssertionError|Expected|Received|\berror TS\d+|^\s+at .+:\d+:\d+\)?$)/i;
+
+const runScriptSchema = z.object({
+  script: z
+    .string()
+    .describe("Name of a script declared in the app's package.json"),
+  args: z
+    .array(z.string().max(200))
+    .max(10)
+    .optional()
+    .describe(
+      "Optional extra arguments passed to the script (e.g. a test file to run)",
+    ),
+  timeoutSeconds: z
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_TIMEOUT_SECONDS)
+    .optional()
+    .describe(
+      `Timeout in seconds (default: ${DEFAULT_TIMEOUT_SECONDS}, max: ${MAX_TIMEOUT_SECONDS})`,
+    ),
+});
+
+export type RunScriptStatus = "passed" | "failed" | "timed_out" | "cancelled";
+
+export interface RunScriptResult {
+  script: string;
+  status: RunScriptStatus;
+  exitCode: number | null;
+  durationMs: number;
+  failureSummary: string | null;
+  output: string;
+}
+
+function readDeclaredScripts(appPath: string): Record<string, string> {
+  try {
+    const packageJson = JSON.parse(
+      fs.readFileSync(path.join(appPath, "package.json"), "utf-8"),
+    );
+    return packageJson.scripts && typeof packageJson.scripts === "object"
+      ? packageJson.scripts
+      : {};
+  } catch {
+    return {};
+  }
+}
+
+function getPackageManager(appPath: string): "pnpm" | "npm" {
+  return fs.existsSync(path.join(appPath, "pnpm-lock.yaml")) ? "pnpm" : "npm";
+}
+
+// eslint-disable-next-line no-control-regex
+const ANSI_PATTERN = /\u001b\[[0-9;]*[A-Za-z]/g;
+
+/**
+ * Picks the lines that explain a failure (failing tests, assertion and
+ * compiler errors). Falls back to the last lines of output.
+ */
+export function summarizeScriptFailure(output: string): string {
+  const lines = output
+    .replace(ANSI_PATTERN, "")
+    .split("\n")
+    .map((line) => line.trimEnd())
+    // Drop the "> script" / "> command" lines the package manager echoes.
+    .filter((line) => line.length > 0 && !line.startsWith("> "));
+  const failureLines = lines.filter((line) => FAILURE_LINE_PATTERN.test(line));
+  const summaryLines =
+    failureLines.length > 0 ? failureLines : lines.slice(-MAX_SUMMARY_LINES);
+  return summaryLines.slice(0, MAX_SUMMARY_LINES).join("\n");
+}
+
+function buildScriptEnv(): NodeJS.ProcessEnv {
+  const env: NodeJS.ProcessEnv = {};
+  for (const name of SCRIPT_ENV_ALLOWLIST) {
+    if (process.env[name] !== undefined) {
+      env[name] = process.env[name];
+    }
+  }
+  return {
+    ...env,
+    CI: "true",
+    FORCE_COLOR: "0",
+    NODE_OPTIONS: `--max-old-space-size=${SCRIPT_MAX_OLD_SPACE_MB}`,
+  };
+}
+
+/**
+ * Runs `command` under resource limits set by a wrapping shell. The process
+ * limit falls back to `prlimit` where `ulimit -u` is missing (e.g. dash).
+ */
+function withResourceLimits(
+  command: string[],
+  timeoutMs: number,
+): { file: string; args: string[] } {
+  if (process.platform === "win32") {
+    return { file: command[0], args: command.slice(1) };
+  }
+  const cpuSeconds = Math.ceil(
+    (timeoutMs / 1000) * SCRIPT_CPU_SECONDS_PER_SECOND,
+  );
+  const limits = [
+    `ulimit -t ${cpuSeconds} && ulimit -d ${SCRIPT_MAX_DATA_MB * 1024} || exit 126`,
+    `ulimit -u ${SCRIPT_MAX_PROCESSES} 2>/dev/null || prlimit --pid $$ --nproc=${SCRIPT_MAX_PROCESSES} 2>/dev/null`,
+    'exec "$@"',
+  ].join("\n");
+  return { file: "/bin/sh", args: ["-c", limits, "sh", ...command] };
+}
+
+function truncateOutput(output: string, maxChars: number): string {
+  if (output.length <= maxChars) {
+    return output;
+  }
+  return `...[truncated ${output.length - maxChars} chars]\n${output.slice(-maxChars)}`;
+}
+
+export async function runPackageScript(params: {
+  appPath: string;
+  script: string;
+  args?: string[];
+  timeoutMs: number;
+  /** Stops the script tree, e.g. when the chat is cancelled. */
+  abortSignal?: AbortSignal;
+}): Promise<RunScriptResult> {
+  const packageManager = getPackageManager(params.appPath);
+  const startedAt = Date.now();
+  const command = withResourceLimits(
+    [
+      packageManager,
+      "run",
+      params.script,
+      ...(params.args?.length ? ["--", ...params.args] : []),
+    ],
+    params.timeoutMs,
+  );
+
+  return new Promise((resolve, reject) => {
+    let output = "";
+    let timedOut = false;
+    let cancelled = false;
+
+    const child = spawn(command.file, command.args, {
+      cwd: params.appPath,
+      // Own process group so a timeout can stop the whole script tree.
+      detached: process.platform !== "win32",
+      shell: process.platform === "win32",
+      env: buildScriptEnv(),
+    });
+
+    const append = (data: Buffer) => {
+      output += data.toString();
+      if (output.length > MAX_CAPTURED_OUTPUT_CHARS) {
+        output = output.slice(-MAX_CAPTURED_OUTPUT_CHARS);
+      }
+    };
+    child.stdout?.on("data", append);
+    child.stderr?.on("data", append);
+
+    const stopScriptTree = () => {
+      try {
+        if (child.pid && process.platform !== "win32") {
+          process.kill(-child.pid, "SIGKILL");
+        } else {
+          child.kill("SIGKILL");
+        }
+      } catch (error) {
+        logger.warn(`Failed to stop script ${params.script}`, error);
+      }
+    };
+    const timer = setTimeout(() => {
+      timedOut = true;
+      stopScriptTree();
+    }, params.timeoutMs);
+    const onAbort = () => {
+      cancelled = true;
+      stopScriptTree();
+    };
+    if (params.abortSignal?.aborted) {
+      onAbort();
+    } else {
+      params.abortSignal?.addEventListener("abort", onAbort, { once: true });
+    }
+    const cleanUp = () => {
+      clearTimeout(timer);
+      params.abortSignal?.removeEventListener("abort", onAbort);
+    };
+
+    child.on("error", (error) => {
+      cleanUp();
+      reject(error);
+    });
+
+    child.on("close", (code) => {
+      cleanUp();
+      const cleanOutput = output.replace(ANSI_PATTERN, "");
+      const status: RunScriptStatus = cancelled
+        ? "cancelled"
+        : timedOut
+          ? "timed_out"
+          : code === 0
+            ? "passed"
+            : "failed";
+      resolve({
+        script: params.script,
+        status,
+        exitCode: code,
+        durationMs: Date.now() - startedAt,
+        failureSummary:
+          status === "passed" ? null : summarizeScriptFailure(cleanOutput),
+        output: cleanOutput,
+      });
+    });
+  });
+}
+
+function formatResult(result: RunScriptResult, timeoutMs: number): string {
+  const seconds = (result.durationMs / 1000).toFixed(1);
+  const headline =
+    result.status === "passed"
+      ? `Script "${result.script}" passed in ${seconds}s.`
+      : result.status === "timed_out"
+        ? `Script "${result.script}" timed out after ${timeoutMs / 1000}s and was stopped.`
+        : result.status === "cancelled"
+          ? `Script "${result.script}" was stopped because the chat was cancelled.`
+          : `Script "${result.script}" failed with exit code ${result.exitCode} after ${seconds}s.`;
+  const sections = [headline];
+  if (result.failureSummary) {
+    sections.push(`Failure summary:\n${result.failureSummary}`);
+  }
+  sections.push(
+    `Output:\n${truncateOutput(result.output.trim(), MAX_RETURNED_OUTPUT_CHARS) || "(no output)"}`,
+  );
+  return sections.join("\n\n");
+}
+
+export const runScriptTool: ToolDefinition<z.infer<typeof runScriptSchema>> = {
+  name: "run_script",
+  description: `Run a script declared in the app's package.json (e.g. "test", "lint", "typecheck") and get a pass/fail result with a failure summary.
+
+- Only scripts listed in package.json "scripts" can be run
+- Scripts run non-interactively (CI=true) with limited memory, CPU time and processes, and without the server's environment variables
+- Scripts are stopped when they exceed the timeout
+- Use this after making changes to check for regressions, then fix what fails
+- Do NOT use this to start dev servers or other long-running processes`,
+  inputSchema: runScriptSchema,
+  defaultConsent: "ask",
+  // Scripts can write files (formatters, codegen), so ask mode never runs them.
+  modifiesState: true,
+
+  getConsentPreview: (args) =>
+    [`Run script "${args.script}"`, ...(args.args ?? [])].join(" "),
+
+  buildXml: (args, isComplete) => {
+    if (!args.script || isComplete) return undefined;
+    return `<blaze-run-script script="${escapeXmlAttr(args.script)}">`;
+  },
+
+  execute: async (args, ctx: AgentContext) => {
+    const scripts = readDeclaredScripts(ctx.appPath);
+    if (!Object.prototype.hasOwnProperty.call(scripts, args.script)) {
+      const available = Object.keys(scripts);
+      throw new Error(
+        `Script "${args.script}" is not declared in package.json. Available scripts: ${
+          available.length > 0 ? available.join(", ") : "none"
+        }`,
+      );
+    }
+
+    const timeoutMs = (args.timeoutSeconds ?? DEFAULT_TIMEOUT_SECONDS) * 1000;
+    ctx.onXmlStream(
+      `<blaze-run-script script="${escapeXmlAttr(args.script)}">`,
+    );
+
+    // One script per app at a time; parallel test runs fight over ports and
+    // caches.
+    const result = await withLock(`run-script:${ctx.appId}`, () =>
+      runPackageScript({
+        appPath: ctx.appPath,
+        script: args.script,
+        args: args.args,
+        timeoutMs,
+        abortSignal: ctx.abortSignal,
+      }),
+    );
+    logger.log(
+      `Script ${args.script} finished with status ${result.status} in ${result.durationMs}ms`,
+    );
+
+    ctx.onXmlComplete(
+      `<blaze-run-script script="${escapeXmlAttr(args.script)}" status="${result.status}"${
+        result.exitCode === null ? "" : ` exit-code="${result.exitCode}"`
+      }>${escapeXmlContent(result.failureSummary ?? "")}</blaze-run-script>`,
+    );
+
+    return formatResult(result, timeoutMs);
+  },
+};
@@ -0,0 +1,110 @@
+import { z } from "zod";
+import { ToolDefinition, AgentContext, escapeXmlAttr } from "./types";
+import { getPreviewProxyUrl } from "@/http/preview_proxy_registry";
+import {
+  PREVIEW_SCREENSHOT_DEVICES,
+  capturePreviewScreenshot,
+  type PreviewScreenshotDevice,
+} from "@/http/preview_screenshot";
+import { log } from "@/lib/logger";
+
+const logger = log.scope("screenshot_preview");
+
+const DEVICES = Object.keys(PREVIEW_SCREENSHOT_DEVICES) as [
+  PreviewScreenshotDevice,
+  ...PreviewScreenshotDevice[],
+];
+
+const screenshotPreviewSchema = z.object({
+  route: z
+    .string()
+    .optional()
+    .describe(
+      'Route of the app to render, e.g. "/" or "/settings" (default: "/")',
+    ),
+  device: z
+    .enum(DEVICES)
+    .optional()
+    .describe(
+      `Viewport to render at: ${DEVICES.map((device) => {
+        const { width, height } = PREVIEW_SCREENSHOT_DEVICES[device];
+        return `${device} (${width}x${height})`;
+      }).join(", ")}. Default: desktop`,
+    ),
+  fullPage: z
+    .boolean()
+    .optional()
+    .describe("Capture the whole scrollable page instead of the viewport"),
+});
+
+function buildScreenshotXml(
+  args: Partial<z.infer<typeof screenshotPreviewSchema>>,
+): string {
+  return `<blaze-screenshot-preview route="${escapeXmlAttr(args.route ?? "/")}" device="${args.device ?? "desktop"}">`;
+}
+
+export const screenshotPreviewTool: ToolDefinition<
+  z.infer<typeof screenshotPreviewSchema>
+> = {
+  name: "screenshot_preview",
+  description: `Take a screenshot of a route of the running app preview and look at it.
+
+- Use this after UI changes to check layout, spacing and responsiveness
+- The preview must be running; the screenshot shows the last successfully built version
+- Check mobile and desktop separately when the change affects responsive layout`,
+  inputSchema: screenshotPreviewSchema,
+  defaultConsent: "always",
+
+  getConsentPreview: (args) =>
+    `Screenshot ${args.route ?? "/"} (${args.device ?? "desktop"})`,
+
+  buildXml: (args, isComplete) => {
+    if (isComplete) return undefined;
+    return buildScreenshotXml(args);
+  },
+
+  execute: async (args, ctx: AgentContext) => {
+    const previewUrl = getPreviewProxyUrl(ctx.appId);
+    if (!previewUrl) {
+      throw new Error(
+        "The app preview is not running. Ask the user to start the preview, then try again.",
+      );
+    }
+
+    const device = args.device ?? "desktop";
+    const route = args.route?.trim() || "/";
+    ctx.onXmlStream(buildScreenshotXml({ route, device }));
+
+    const image = await capturePreviewScreenshot({
+      appId: ctx.appId,
+      previewUrl,
+      route,
+      viewport: PREVIEW_SCREENSHOT_DEVICES[device],
+      fullPage: args.fullPage,
+    });
+    logger.log(
+      `Captured ${route} of app ${ctx.appId} at ${device} (${image.length} bytes)`,
+    );
+
+    ctx.onXmlComplete(
+      `${buildScreenshotXml({ route, device })}</blaze-screenshot-preview>`,
+    );
+
+    if (!ctx.supportsImageInput) {
+      return `Screenshot of ${route} (${device}) captured, but the selected model cannot view images. Check the layout through the code instead, or ask the user to look at the preview.`;
+    }
+
+    ctx.appendUserMessage([
+      {
+        type: "text",
+        text: `Screenshot of the app preview at route ${route} (${device}):`,
+      },
+      {
+        type: "image-url",
+        url: `data:image/png;base64,${image.toString("base64")}`,
+      },
+    ]);
+
+    return `Screenshot of ${route} (${device}) captured. It is attached in the next message.`;
+  },
+};
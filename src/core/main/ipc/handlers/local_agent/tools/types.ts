@@ -43,6 +43,10 @@ export interface AgentContext {
   todos: Todo[];
   /** Request ID for tracking requests to the Blaze engine */
   blazeRequestId: string;
+  /** Aborted when the chat stream is cancelled. */
+  abortSignal?: AbortSignal;
+  /** Whether the selected model can read images appended by tools. */
+  supportsImageInput?: boolean;
   /**
    * Streams accumulated XML to UI without persisting to DB (for live preview).
    * Call this repeatedly with the full accumulated XML so far.
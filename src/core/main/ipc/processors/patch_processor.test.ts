@@ -0,0 +1,217 @@
+import { describe, it, expect } from "vitest";
+import { applyUnifiedPatch } from "./patch_processor";
+import { parseUnifiedDiff } from "@/core/shared/unified_diff_parser";
+
+const ORIGINAL = [
+  "import { useState } from 'react';",
+  "",
+  "export function Counter() {",
+  "  const [count, setCount] = useState(0);",
+  "",
+  "  return (",
+  "    <button onClick={() => setCount(count + 1)}>",
+  "      Clicked {count} times",
+  "    </button>",
+  "  );",
+  "}",
+  "",
+].join("\n");
+
+describe("parseUnifiedDiff", () => {
+  it("skips file headers and reads hunk lines", () => {
+    const hunks = parseUnifiedDiff(`--- a/src/Counter.tsx
++++ b/src/Counter.tsx
+@@ -7,3 +7,3 @@ export function Counter() {
+     <button onClick={() => setCount(count + 1)}>
+-      Clicked {count} times
++      Clicked {count} time(s)
+
+@@ @@
+-}
++};
+\\ No newline at end of file
+`);
+
+    expect(hunks).toEqual([
+      {
+        header: "@@ -7,3 +7,3 @@ export function Counter() {",
+        oldStart: 7,
+        lines: [
+          {
+            type: "context",
+            text: "    <button onClick={() => setCount(count + 1)}>",
+          },
+          { type: "remove", text: "      Clicked {count} times" },
+          { type: "add", text: "      Clicked {count} time(s)" },
+        ],
+      },
+      {
+        header: "@@ @@",
+        oldStart: undefined,
+        lines: [
+          { type: "remove", text: "}" },
+          { type: "add", text: "};" },
+        ],
+      },
+    ]);
+  });
+});
+
+describe("applyUnifiedPatch", () => {
+  it("applies multiple hunks and keeps line numbers in sync", () => {
+    const patch = `@@ -1,3 +1,4 @@
+ import { useState } from 'react';
++import { Button } from './Button';
+
+ export function Counter() {
+@@ -6,5 +7,5 @@
+   return (
+-    <button onClick={() => setCount(count + 1)}>
++    <Button onClick={() => setCount(count + 1)}>
+       Clicked {count} times
+-    </button>
++    </Button>
+   );`;
+
+    const result = applyUnifiedPatch(ORIGINAL, patch);
+
+    expect(result.success).toBe(true);
+    expect(result.content).toBe(
+      ORIGINAL.replace(
+        "from 'react';\n",
+        "from 'react';\nimport { Button } from './Button';\n",
+      )
+        .replace(/button>/g, "Button>")
+        .replace("<button", "<Button"),
+    );
+  });
+
+  it("finds hunks whose line numbers are off", () => {
+    const patch = `@@ -40,3 +40,3 @@
+   const [count, setCount] = useState(0);
+-
++  const label = "Clicked";
+   return (`;
+
+    const result = applyUnifiedPatch(ORIGINAL, patch);
+
+    expect(result.success).toBe(true);
+    expect(result.content).toContain(
+      '  const [count, setCount] = useState(0);\n  const label = "Clicked";\n  return (',
+    );
+  });
+
+  it("tolerates indentation differences and keeps the file's context lines", () => {
+    const patch = `@@ -6,4 +6,4 @@
+ return (
+ <button onClick={() => setCount(count + 1)}>
+-      Clicked {count} times
++      Pressed {count} times
+ </button>`;
+
+    const result = applyUnifiedPatch(ORIGINAL, patch);
+
+    expect(result.success).toBe(true);
+    expect(result.content).toBe(ORIGINAL.replace("Clicked", "Pressed"));
+  });
+
+  it("drops mismatching outer context lines with fuzz", () => {
+    const patch = `@@ -7,5 +7,5 @@
+     <button onClick={() => setCount((c) => c + 1)}>
+-      Clicked {count} times
++      Clicked {count} times!
+     </button>
+   );
+ } // Counter`;
+
+    const result = applyUnifiedPatch(ORIGINAL, patch);
+
+    expect(result.success).toBe(true);
+    expect(result.content).toBe(ORIGINAL.replace("times", "times!"));
+  });
+
+  it("applies pure insertions at the line named in the header", () => {
+    const patch = `@@ -11,0 +12,3 @@
++
++export const MAX_COUNT = 10;
++export const MIN_COUNT = 0;`;
+
+    const result = applyUnifiedPatch(ORIGINAL, patch);
+
+    expect(result.success).toBe(true);
+    expect(result.content).toBe(
+      ORIGINAL.replace(
+        "  );\n}\n",
+        "  );\n}\n\nexport const MAX_COUNT = 10;\nexport const MIN_COUNT = 0;\n",
+      ),
+    );
+  });
+
+  it("reports every failing hunk and leaves the file untouched", () => {
+    const patch = `@@ -1,1 +1,1 @@
+-import { useEffect } from 'react';
++import { useEffect, useState } from 'react';
+@@ -8,1 +8,1 @@
+-      Clicked {count} times
++      Clicked {count} times!
+@@ @@
++export default Counter;`;
+
+    const result = applyUnifiedPatch(ORIGINAL, patch);
+
+    expect(result.success).toBe(false);
+    expect(result.content).toBeUndefined();
+    expect(result.failedHunks).toEqual([
+      {
+        hunk: 1,
+        header: "@@ -1,1 +1,1 @@",
+        error: "Context and removed lines did not match the target file",
+      },
+      {
+        hunk: 3,
+        header: "@@ @@",
+        error:
+          "Hunk has no context or removed lines and no line numbers to place it",
+      },
+    ]);
+    expect(result.error).toContain(
+      "Hunk #1 (@@ -1,1 +1,1 @@) failed: Context and removed lines did not match",
+    );
+  });
+
+  it("rejects ambiguous hunks without line numbers", () => {
+    const result = applyUnifiedPatch(
+      "a\nb\na\nb\n",
+      `@@ @@
+ a
+-b
++c`,
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("ambiguous");
+  });
+
+  it("preserves CRLF line endings", () => {
+    const result = applyUnifiedPatch(
+      "one\r\ntwo\r\nthree\r\n",
+      `@@ -1,3 +1,3 @@
+ one
+-two
++TWO
+ three`,
+    );
+
+    expect(result).toEqual({
+      success: true,
+      content: "one\r\nTWO\r\nthree\r\n",
+    });
+  });
+
+  it("fails on content without hunks", () => {
+    const result = applyUnifiedPatch(ORIGINAL, "just some text");
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("no hunks found");
+  });
+});
@@ -0,0 +1,260 @@
+import {
+  parseUnifiedDiff,
+  type UnifiedDiffHunk,
+  type UnifiedDiffLine,
+} from "/src/core/shared/unified_diff_parser.ts";
+import { normalizeString } from "/src/utils/text_normalization.ts";
+import { log } from "/src/lib/logger.ts";
+
+const logger = log.scope("patch_processor");
+
+// Maximum number of context lines that may be dropped from each end of a hunk
+// when it does not match as written (the same "fuzz factor" GNU patch uses).
+const MAX_FUZZ = 2;
+
+export type PatchHunkFailure = {
+  /** 1-based position of the hunk in the patch. */
+  hunk: number;
+  header: string;
+  error: string;
+};
+
+type LineComparator = (fileLine: string, hunkLine: string) => boolean;
+
+const LINE_COMPARATORS: LineComparator[] = [
+  (fileLine, hunkLine) => fileLine === hunkLine,
+  // Lenient: ignore indentation, trailing whitespace and smart quotes.
+  (fileLine, hunkLine) =>
+    normalizeString(fileLine.trim()) === normalizeString(hunkLine.trim()),
+];
+
+function matchesAt(
+  fileLines: string[],
+  expected: string[],
+  index: number,
+  compare: LineComparator,
+): boolean {
+  for (let i = 0; i < expected.length; i++) {
+    if (!compare(fileLines[index + i], expected[i])) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Finds where `expected` occurs in `fileLines` at or after `minIndex`,
+ * preferring the occurrence closest to `preferredIndex`. Without a preferred
+ * index the occurrence must be unique.
+ */
+function findHunkPosition(
+  fileLines: string[],
+  expected: string[],
+  minIndex: number,
+  preferredIndex: number | undefined,
+  compare: LineComparator,
+): { index: number } | { ambiguous: true } | null {
+  const positions: number[] = [];
+  for (let i = minIndex; i <= fileLines.length - expected.length; i++) {
+    if (matchesAt(fileLines, expected, i, compare)) {
+      positions.push(i);
+    }
+  }
+  if (positions.length === 0) {
+    return null;
+  }
+  if (preferredIndex === undefined) {
+    return positions.length === 1
+      ? { index: positions[0] }
+      : { ambiguous: true };
+  }
+  const closest = positions.reduce((best, position) =>
+    Math.abs(position - preferredIndex) < Math.abs(best - preferredIndex)
+      ? position
+      : best,
+  );
+  return { index: closest };
+}
+
+/** Drops up to `fuzz` context lines from each end of the hunk. */
+function trimContext(lines: UnifiedDiffLine[], fuzz: number) {
+  let start = 0;
+  let end = lines.length;
+  while (start < fuzz && lines[start]?.type === "context") {
+    start++;
+  }
+  while (lines.length - end < fuzz && lines[end - 1]?.type === "context") {
+    end--;
+  }
+  return { lines: lines.slice(start, end), skipped: start };
+}
+
+function applyHunk(
+  fileLines: string[],
+  hunk: UnifiedDiffHunk,
+  minIndex: number,
+  lineDelta: number,
+): { fileLines: string[]; end: number; delta: number } | { error: string } {
+  const preferredIndex =
+    hunk.oldStart !== undefined
+      ? Math.max(0, hunk.oldStart - 1 + lineDelta)
+      : undefined;
+
+  if (!hunk.lines.some((line) => line.type !== "context")) {
+    return { error: "Hunk contains no changes" };
+  }
+
+  for (let fuzz = 0; fuzz <= MAX_FUZZ; fuzz++) {
+    const trimmed = trimContext(hunk.lines, fuzz);
+    if (fuzz > 0 && trimmed.lines.length === hunk.lines.length) {
+      // Nothing left to trim; a higher fuzz factor would not change anything.
+      break;
+    }
+    const oldLines = trimmed.lines
+      .filter((line) => line.type !== "add")
+      .map((line) => line.text);
+
+    if (oldLines.length === 0) {
+      if (fuzz > 0) {
+        // Trimming away all context would leave nothing to anchor the hunk.
+        break;
+      }
+      // Pure insertion: "@@ -N,0 +M,K @@" inserts after line N.
+      if (hunk.oldStart === undefined) {
+        return {
+          error:
+            "Hunk has no context or removed lines and no line numbers to place it",
+        };
+      }
+      const index = Math.min(
+        Math.max(hunk.oldStart + lineDelta, minIndex),
+        fileLines.length,
+      );
+      const added = trimmed.lines.map((line) => line.text);
+      return {
+        fileLines: [
+          ...fileLines.slice(0, index),
+          ...added,
+          ...fileLines.slice(index),
+        ],
+        end: index + added.length,
+        delta: added.length,
+      };
+    }
+
+    for (const compare of LINE_COMPARATORS) {
+      const position = findHunkPosition(
+        fileLines,
+        oldLines,
+        minIndex,
+        preferredIndex === undefined
+          ? undefined
+          : preferredIndex + trimmed.skipped,
+        compare,
+      );
+      if (position && "ambiguous" in position) {
+        return {
+          error:
+            "Hunk matched multiple locations in the target file (ambiguous); add line numbers to the @@ header or more context lines",
+        };
+      }
+      if (!position) {
+        continue;
+      }
+
+      // Context lines keep the file's own text so lenient matches do not
+      // rewrite indentation or quotes around the change.
+      const replacement: string[] = [];
+      let fileIndex = position.index;
+      for (const line of trimmed.lines) {
+        if (line.type === "add") {
+          replacement.push(line.text);
+        } else {
+          if (line.type === "context") {
+            replacement.push(fileLines[fileIndex]);
+          }
+          fileIndex++;
+        }
+      }
+      if (fuzz > 0 || compare !== LINE_COMPARATORS[0]) {
+        logger.log(
+          `Applied hunk ${hunk.header} with fuzz ${fuzz}${compare === LINE_COMPARATORS[0] ? "" : " (whitespace-insensitive)"}`,
+        );
+      }
+      return {
+        fileLines: [
+          ...fileLines.slice(0, position.index),
+          ...replacement,
+          ...fileLines.slice(position.index + oldLines.length),
+        ],
+        end: position.index + replacement.length,
+        delta: replacement.length - oldLines.length,
+      };
+    }
+  }
+
+  return {
+    error: "Context and removed lines did not match the target file",
+  };
+}
+
+/**
+ * Applies a unified diff hunk by hunk. Each hunk is placed at the line its
+ * header names, shifted by the lines earlier hunks added or removed, or at the
+ * closest matching location if the file has moved. Hunks that still do not
+ * match are retried with fewer context lines and with whitespace-insensitive
+ * comparison. The patch only succeeds if every hunk applies.
+ */
+export function applyUnifiedPatch(
+  originalContent: string,
+  diffContent: string,
+): {
+  success: boolean;
+  content?: string;
+  error?: string;
+  failedHunks?: PatchHunkFailure[];
+} {
+  const hunks = parseUnifiedDiff(diffContent);
+  if (hunks.length === 0) {
+    return {
+      success: false,
+      error:
+        "Invalid patch format - no hunks found. Expected unified diff hunks starting with @@ -line,count +line,count @@",
+    };
+  }
+
+  const lineEnding = originalContent.includes("\r\n") ? "\r\n" : "\n";
+  let fileLines = originalContent.split(/\r?\n/);
+  let minIndex = 0;
+  let lineDelta = 0;
+  const failedHunks: PatchHunkFailure[] = [];
+
+  hunks.forEach((hunk, index) => {
+    const result = applyHunk(fileLines, hunk, minIndex, lineDelta);
+    if ("error" in result) {
+      failedHunks.push({
+        hunk: index + 1,
+        header: hunk.header,
+        error: result.error,
+      });
+      return;
+    }
+    fileLines = result.fileLines;
+    minIndex = result.end;
+    lineDelta += result.delta;
+  });
+
+  if (failedHunks.length > 0) {
+    return {
+      success: false,
+      error: failedHunks
+        .map(
+          ({ hunk, header, error }) =>
+            `Hunk #${hunk} (${header}) failed: ${error}`,
+        )
+        .join("; "),
+      failedHunks,
+    };
+  }
+  return { success: true, content: fileLines.join(lineEnding) };
+}
@@ -0,0 +1,34 @@
+export const PATCH_EDITS_SYSTEM_PROMPT = `
+
+# Patch file edits
+
+- Use \`blaze-patch\` to change a few places in a large existing file instead of rewriting it with \`blaze-write\`. Use \`blaze-write\` for new files and for rewriting most of a file.
+- The content is a standard unified diff for that one file: one or more hunks, each starting with an \`@@ -oldStart,oldCount +newStart,newCount @@\` header.
+- Inside a hunk, prefix every line with a single character: a space for unchanged context lines, \`-\` for removed lines and \`+\` for added lines. Keep the file's indentation after the prefix.
+- Include about 3 unchanged context lines before and after each change, copied exactly from the latest version of the file, so the hunk can be located even if line numbers are slightly off.
+- List hunks in file order and never let two hunks overlap.
+- Do not use both \`blaze-write\` and \`blaze-patch\` on the same file within a single response.
+- Include a brief description of the changes you are making in the \`description\` parameter.
+
+Usage:
+<blaze-patch path="src/utils/cart.ts" description="Apply a 10% markup when calculating the total">
+@@ -1,7 +1,7 @@
+ export function calculateTotal(items: number[]) {
+   let total = 0;
+   for (const item of items) {
+-    total += item;
++    total += item * 1.1;
+   }
+   return total;
+ }
+@@ -20,3 +20,7 @@
+ export function formatPrice(value: number) {
+   return value.toFixed(2);
+ }
++
++export function isEmpty(items: number[]) {
++  return items.length === 0;
++}
+</blaze-patch>
+
+`;
@@ -0,0 +1,82 @@
+export type UnifiedDiffLine = {
+  type: "context" | "remove" | "add";
+  text: string;
+};
+
+export type UnifiedDiffHunk = {
+  /** The `@@ ... @@` line as written, used in failure reports. */
+  header: string;
+  /** 1-based start line in the original file, when the header has one. */
+  oldStart?: number;
+  lines: UnifiedDiffLine[];
+};
+
+const HUNK_HEADER_REGEX = /^@@(?:\s+-(\d+)(?:,\d+)?\s+\+\d+(?:,\d+)?)?\s+@@/;
+
+/**
+ * Parses the hunks of a unified diff. Line counts in hunk headers are ignored
+ * since models often get them wrong; a hunk runs until the next `@@` line.
+ * A bare `@@ ... @@` header (without line numbers) is accepted as well, and
+ * an empty line inside a hunk is read as an empty context line.
+ */
+export function parseUnifiedDiff(diffContent: string): UnifiedDiffHunk[] {
+  const hunks: UnifiedDiffHunk[] = [];
+  let current: UnifiedDiffHunk | null = null;
+
+  const lines = diffContent.split(/\r?\n/);
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const header = HUNK_HEADER_REGEX.exec(line);
+    if (header || line.startsWith("@@")) {
+      current = {
+        header: line.trim(),
+        oldStart: header?.[1] !== undefined ? Number(header[1]) : undefined,
+        lines: [],
+      };
+      hunks.push(current);
+      continue;
+    }
+    if (!current) {
+      // File headers and any prose before the first hunk.
+      continue;
+    }
+    if (
+      line.startsWith("diff ") ||
+      (line.startsWith("--- ") && lines[i + 1]?.startsWith("+++ "))
+    ) {
+      // Another file header ends the hunk; a tag patches a single file.
+      current = null;
+      continue;
+    }
+    if (line.startsWith("\\")) {
+      // "\ No newline at end of file"
+      continue;
+    }
+    const marker = line[0];
+    if (marker === "+") {
+      current.lines.push({ type: "add", text: line.slice(1) });
+    } else if (marker === "-") {
+      current.lines.push({ type: "remove", text: line.slice(1) });
+    } else if (marker === " ") {
+      current.lines.push({ type: "context", text: line.slice(1) });
+    } else if (line === "") {
+      current.lines.push({ type: "context", text: "" });
+    } else {
+      // Models sometimes drop the leading space of context lines.
+      current.lines.push({ type: "context", text: line });
+    }
+  }
+
+  for (const hunk of hunks) {
+    // Trailing blank lines come from the whitespace around the diff, not
+    // from the file.
+    while (
+      hunk.lines.length > 0 &&
+      hunk.lines[hunk.lines.length - 1].type === "context" &&
+      hunk.lines[hunk.lines.length - 1].text === ""
+    ) {
+      hunk.lines.pop();
+    }
+  }
+  return hunks;
+}
@@ -22,6 +22,10 @@ const RESET_TABLES = [
   "user_soft_quotas",
   "organization_quotas",
   "workspace_model_settings",
+  "auth_sessions",
+  "user_settings",
+  "workspace_settings",
+  "organization_settings",
   "workspace_memberships",
   "organization_memberships",
   "workspaces",
@@ -2,6 +2,7 @@ import { relations } from "drizzle-orm";
 import {
   bigint,
   boolean,
+  doublePrecision,
   index,
   integer,
   jsonb,
@@ -14,6 +15,7 @@ import {
   uuid,
 } from "drizzle-orm/pg-core";
 import type { ModelMessage } from "ai";
+import type { ApplyActionReport, ProposalReview } from "../lib/schemas";
 
 export const AI_MESSAGES_SDK_VERSION = "ai@v6" as const;
 
@@ -98,11 +100,14 @@ export const organizationMemberships = pgTable(
     organizationId: uuid("organization_id")
       .notNull()
       .references(() => organizations.id, { onDelete: "cascade" }),
-    userId: uuid("user_id")
-      .notNull()
-      .references(() => users.id, { onDelete: "cascade" }),
+    // Null while an email invitation has not been accepted by a known user
+    userId: uuid("user_id").references(() => users.id, { onDelete: "cascade" }),
     role: membershipRoleEnum("role").notNull(),
     status: membershipStatusEnum("status").notNull().default("active"),
+    invitedEmail: text("invited_email"),
+    invitedByUserId: uuid("invited_by_user_id").references(() => users.id, {
+      onDelete: "set null",
+    }),
     createdAt: timestamp("created_at", {
       mode: "date",
       withTimezone: true,
@@ -121,8 +126,13 @@ export const organizationMemberships = pgTable(
       table.organizationId,
       table.userId,
     ),
+    unique("org_memberships_org_invited_email_unique").on(
+      table.organizationId,
+      table.invitedEmail,
+    ),
     index("org_memberships_org_idx").on(table.organizationId),
     index("org_memberships_user_idx").on(table.userId),
+    index("org_memberships_invited_email_idx").on(table.invitedEmail),
   ],
 );
 
@@ -165,10 +175,14 @@ export const workspaceMemberships = pgTable(
     workspaceId: uuid("workspace_id")
       .notNull()
       .references(() => workspaces.id, { onDelete: "cascade" }),
-    userId: uuid("user_id")
-      .notNull()
-      .references(() => users.id, { onDelete: "cascade" }),
+    // Null while an email invitation has not been accepted by a known user
+    userId: uuid("user_id").references(() => users.id, { onDelete: "cascade" }),
     role: membershipRoleEnum("role").notNull(),
+    status: membershipStatusEnum("status").notNull().default("active"),
+    invitedEmail: text("invited_email"),
+    invitedByUserId: uuid("invited_by_user_id").references(() => users.id, {
+      onDelete: "set null",
+    }),
     createdAt: timestamp("created_at", {
       mode: "date",
       withTimezone: true,
@@ -187,8 +201,13 @@ export const workspaceMemberships = pgTable(
       table.workspaceId,
       table.userId,
     ),
+    unique("workspace_memberships_ws_invited_email_unique").on(
+      table.workspaceId,
+      table.invitedEmail,
+    ),
     index("workspace_memberships_ws_idx").on(table.workspaceId),
     index("workspace_memberships_user_idx").on(table.userId),
+    index("workspace_memberships_invited_email_idx").on(table.invitedEmail),
   ],
 );
 
@@ -296,6 +315,8 @@ export const chats = pgTable(
       .references(() => apps.id, { onDelete: "cascade" }),
     title: text("title"),
     initialCommitHash: text("initial_commit_hash"),
+    // Git branch the chat was created on; `null` follows the app's current branch.
+    branch: text("branch"),
     createdAt: timestamp("created_at", {
       mode: "date",
       withTimezone: true,
@@ -342,6 +363,17 @@ export const messages = pgTable(
     maxTokensUsed: integer("max_tokens_used"),
     // Model name used for this message (only for assistant messages)
     model: text("model"),
+    // Token usage and cost of the turn (only for assistant messages)
+    inputTokens: integer("input_tokens"),
+    outputTokens: integer("output_tokens"),
+    cachedInputTokens: integer("cached_input_tokens"),
+    costMicroUsd: bigint("cost_micro_usd", { mode: "number" }),
+    // Chat mode the assistant message was produced in (only for assistant messages)
+    chatMode: text("chat_mode", { enum: ["build", "ask", "agent"] }),
+    // File changes accepted/rejected on approval (only for assistant messages)
+    proposalReview: jsonb("proposal_review").$type<ProposalReview | null>(),
+    // Outcome of every file action of the last apply (only for assistant messages)
+    applyReport: jsonb("apply_report").$type<ApplyActionReport[] | null>(),
     // AI SDK messages (v6 envelope) for preserving tool calls/results in agent mode
     aiMessagesJson: jsonb("ai_messages_json").$type<AiMessagesJsonV6 | null>(),
     createdAt: timestamp("created_at", {
@@ -445,6 +477,147 @@ export const workspaceModelSettings = pgTable(
   ],
 );
 
+export const organizationSettings = pgTable("organization_settings", {
+  organizationId: uuid("organization_id")
+    .primaryKey()
+    .references(() => organizations.id, { onDelete: "cascade" }),
+  settingsJson: jsonb("settings_json")
+    .$type<Record<string, unknown>>()
+    .notNull()
+    .default({}),
+  updatedByUserId: uuid("updated_by_user_id").references(() => users.id, {
+    onDelete: "set null",
+  }),
+  createdAt: timestamp("created_at", {
+    mode: "date",
+    withTimezone: true,
+  })
+    .notNull()
+    .defaultNow(),
+  updatedAt: timestamp("updated_at", {
+    mode: "date",
+    withTimezone: true,
+  })
+    .notNull()
+    .defaultNow(),
+});
+
+export const workspaceSettings = pgTable(
+  "workspace_settings",
+  {
+    workspaceId: uuid("workspace_id")
+      .primaryKey()
+      .references(() => workspaces.id, { onDelete: "cascade" }),
+    organizationId: uuid("organization_id")
+      .notNull()
+      .references(() => organizations.id, { onDelete: "cascade" }),
+    settingsJson: jsonb("settings_json")
+      .$type<Record<string, unknown>>()
+      .notNull()
+      .default({}),
+    updatedByUserId: uuid("updated_by_user_id").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("created_at", {
+      mode: "date",
+      withTimezone: true,
+    })
+      .notNull()
+      .defaultNow(),
+    updatedAt: timestamp("updated_at", {
+      mode: "date",
+      withTimezone: true,
+    })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [index("workspace_settings_org_idx").on(table.organizationId)],
+);
+
+export const userSettings = pgTable("user_settings", {
+  userId: uuid("user_id")
+    .primaryKey()
+    .references(() => users.id, { onDelete: "cascade" }),
+  settingsJson: jsonb("settings_json")
+    .$type<Record<string, unknown>>()
+    .notNull()
+    .default({}),
+  createdAt: timestamp("created_at", {
+    mode: "date",
+    withTimezone: true,
+  })
+    .notNull()
+    .defaultNow(),
+  updatedAt: timestamp("updated_at", {
+    mode: "date",
+    withTimezone: true,
+  })
+    .notNull()
+    .defaultNow(),
+});
+
+export const authSessions = pgTable(
+  "auth_sessions",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    userId: uuid("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    sessionTokenHash: text("session_token_hash").notNull(),
+    refreshTokenEncrypted: text("refresh_token_encrypted"),
+    userAgent: text("user_agent"),
+    createdAt: timestamp("created_at", {
+      mode: "date",
+      withTimezone: true,
+    })
+      .notNull()
+      .defaultNow(),
+    lastUsedAt: timestamp("last_used_at", {
+      mode: "date",
+      withTimezone: true,
+    })
+      .notNull()
+      .defaultNow(),
+    expiresAt: timestamp("expires_at", {
+      mode: "date",
+      withTimezone: true,
+    }).notNull(),
+    revokedAt: timestamp("revoked_at", {
+      mode: "date",
+      withTimezone: true,
+    }),
+    revokedByUserId: uuid("revoked_by_user_id").references(() => users.id, {
+      onDelete: "set null",
+    }),
+  },
+  (table) => [
+    unique("auth_sessions_token_hash_unique").on(table.sessionTokenHash),
+    index("auth_sessions_user_idx").on(table.userId, table.createdAt),
+  ],
+);
+
+/**
+ * Hashes of the bearer tokens handed out for a session, so a token the IdP
+ * still accepts stops working once its session is revoked.
+ */
+export const authSessionBearerTokens = pgTable(
+  "auth_session_bearer_tokens",
+  {
+    tokenHash: text("token_hash").primaryKey(),
+    sessionId: uuid("session_id")
+      .notNull()
+      .references(() => authSessions.id, { onDelete: "cascade" }),
+    expiresAt: timestamp("expires_at", {
+      mode: "date",
+      withTimezone: true,
+    }).notNull(),
+  },
+  (table) => [
+    index("auth_session_bearer_tokens_session_idx").on(table.sessionId),
+    index("auth_session_bearer_tokens_expires_idx").on(table.expiresAt),
+  ],
+);
+
 export const organizationQuotas = pgTable("organization_quotas", {
   organizationId: uuid("organization_id")
     .primaryKey()
@@ -458,6 +631,24 @@ export const organizationQuotas = pgTable("organization_quotas", {
   concurrentPreviewJobsHardLimit: integer("concurrent_preview_jobs_hard_limit")
     .notNull()
     .default(1_000_000_000),
+  // Monthly (UTC calendar month) spend limit; null means no budget.
+  monthlyBudgetMicroUsd: bigint("monthly_budget_micro_usd", { mode: "number" }),
+  budgetWarningThresholdPercent: integer("budget_warning_threshold_percent")
+    .notNull()
+    .default(80),
+  budgetExhaustedAction: text("budget_exhausted_action", {
+    enum: ["block", "downgrade"],
+  })
+    .notNull()
+    .default("block"),
+  budgetDowngradeModel: jsonb("budget_downgrade_model").$type<{
+    provider: string;
+    name: string;
+  } | null>(),
+  budgetWarningSentAt: timestamp("budget_warning_sent_at", {
+    mode: "date",
+    withTimezone: true,
+  }),
   createdAt: timestamp("created_at", {
     mode: "date",
     withTimezone: true,
@@ -526,6 +717,8 @@ export const usageEvents = pgTable(
       .references(() => users.id, { onDelete: "cascade" }),
     metricType: quotaMetricTypeEnum("metric_type").notNull(),
     value: integer("value").notNull(),
+    model: text("model"),
+    costMicroUsd: bigint("cost_micro_usd", { mode: "number" }),
     createdAt: timestamp("created_at", {
       mode: "date",
       withTimezone: true,
@@ -643,6 +836,7 @@ export const language_model_providers = pgTable(
     name: text("name").notNull(),
     api_base_url: text("api_base_url").notNull(),
     env_var_name: text("env_var_name"),
+    api_key_encrypted: text("api_key_encrypted"),
     trust_self_signed: boolean("trust_self_signed").notNull().default(false),
     createdAt: timestamp("created_at", {
       mode: "date",
@@ -689,6 +883,16 @@ export const language_models = pgTable(
     description: text("description"),
     max_output_tokens: integer("max_output_tokens"),
     context_window: integer("context_window"),
+    // Prices in USD per million tokens; cached input falls back to input.
+    inputPricePerMillionTokens: doublePrecision(
+      "input_price_per_million_tokens",
+    ),
+    outputPricePerMillionTokens: doublePrecision(
+      "output_price_per_million_tokens",
+    ),
+    cachedInputPricePerMillionTokens: doublePrecision(
+      "cached_input_price_per_million_tokens",
+    ),
     createdAt: timestamp("created_at", {
       mode: "date",
       withTimezone: true,
@@ -815,6 +1019,81 @@ export const mcpToolConsents = pgTable(
   ],
 );
 
+// --- Agent tool consent policies ---
+export const agentToolConsents = pgTable(
+  "agent_tool_consents",
+  {
+    id: serial("id").primaryKey(),
+    organizationId: uuid("organization_id")
+      .notNull()
+      .references(() => organizations.id, { onDelete: "cascade" }),
+    workspaceId: uuid("workspace_id")
+      .notNull()
+      .references(() => workspaces.id, { onDelete: "cascade" }),
+    // Null for the workspace policy, set for a user's own override
+    userId: uuid("user_id").references(() => users.id, {
+      onDelete: "cascade",
+    }),
+    toolName: text("tool_name").notNull(),
+    consent: text("consent").notNull(), // ask | always | never
+    // A locked workspace policy ignores user overrides
+    locked: boolean("locked").notNull().default(false),
+    updatedByUserId: uuid("updated_by_user_id").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    updatedAt: timestamp("updated_at", {
+      mode: "date",
+      withTimezone: true,
+    })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    unique("uniq_agent_tool_consent")
+      .on(table.organizationId, table.workspaceId, table.userId, table.toolName)
+      .nullsNotDistinct(),
+  ],
+);
+
+// --- Git remote credentials, shared by the apps of a workspace per host ---
+export const workspaceGitCredentials = pgTable(
+  "workspace_git_credentials",
+  {
+    id: serial("id").primaryKey(),
+    organizationId: uuid("organization_id")
+      .notNull()
+      .references(() => organizations.id, { onDelete: "cascade" }),
+    workspaceId: uuid("workspace_id")
+      .notNull()
+      .references(() => workspaces.id, { onDelete: "cascade" }),
+    host: text("host").notNull(),
+    accessTokenEncrypted: text("access_token_encrypted").notNull(),
+    updatedByUserId: uuid("updated_by_user_id").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("created_at", {
+      mode: "date",
+      withTimezone: true,
+    })
+      .notNull()
+      .defaultNow(),
+    updatedAt: timestamp("updated_at", {
+      mode: "date",
+      withTimezone: true,
+    })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    unique("uniq_workspace_git_credential").on(table.workspaceId, table.host),
+    index("workspace_git_credentials_tenant_idx").on(
+      table.organizationId,
+      table.workspaceId,
+      table.id,
+    ),
+  ],
+);
+
 export const usersRelations = relations(users, ({ many }) => ({
   organizationMemberships: many(organizationMemberships),
   workspaceMemberships: many(workspaceMemberships),
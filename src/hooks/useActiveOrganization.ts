@@ -0,0 +1,39 @@
+import { useQuery } from "@tanstack/react-query";
+import { IpcClient } from "@/ipc/ipc_client";
+import { getConfiguredTenantScope } from "@/ipc/backend_client";
+import type { TenantOrganization } from "@/ipc/ipc_types";
+import { resolveActiveOrganizationId } from "@/components/tenant_scope_utils";
+
+export const TENANT_ORGANIZATIONS_QUERY_KEY = [
+  "tenant",
+  "organizations",
+] as const;
+
+export function useActiveOrganization(orgId?: string) {
+  const organizationsQuery = useQuery<TenantOrganization[], Error>({
+    queryKey: TENANT_ORGANIZATIONS_QUERY_KEY,
+    retry: 0,
+    queryFn: async () => {
+      return IpcClient.getInstance().listOrganizations();
+    },
+    meta: { showErrorToast: false },
+  });
+
+  const organizations = Array.isArray(organizationsQuery.data)
+    ? organizationsQuery.data
+    : [];
+  const activeOrgId = resolveActiveOrganizationId(
+    organizations,
+    orgId ?? getConfiguredTenantScope().orgId,
+  );
+  const organization =
+    organizations.find((item) => item.id === activeOrgId) ?? null;
+
+  return {
+    organization,
+    isLoading: organizationsQuery.isLoading,
+    isAdmin: organization
+      ? ["owner", "admin"].includes(organization.role)
+      : false,
+  };
+}
@@ -0,0 +1,157 @@
+import { initializeDatabase } from "/src/db/index.ts";
+import { HttpError } from "/src/http/http_errors.ts";
+import type { RequestContext } from "/src/http/request_context.ts";
+import {
+  getStoredAgentToolConsentPolicies,
+  pickEffectiveAgentToolConsent,
+  setStoredAgentToolConsent,
+  type AgentToolConsentScope,
+} from "/src/core/main/ipc/handlers/local_agent/agent_tool_consent.ts";
+import { TOOL_DEFINITIONS } from "/src/core/main/ipc/handlers/local_agent/tool_definitions.ts";
+import type { AgentToolConsent } from "/src/core/main/ipc/handlers/local_agent/tools/types.ts";
+
+export interface AgentToolConsentSummary {
+  toolName: string;
+  description: string;
+  defaultConsent: AgentToolConsent;
+  workspaceConsent: AgentToolConsent | null;
+  locked: boolean;
+  userConsent: AgentToolConsent | null;
+  /** What the agent actually does for this user. */
+  consent: AgentToolConsent;
+}
+
+function assertTenantScope(
+  context: Pick<RequestContext, "orgId" | "workspaceId">,
+) {
+  if (!context.orgId || !context.workspaceId) {
+    throw new HttpError(
+      400,
+      "TENANT_SCOPE_REQUIRED",
+      "organizationId/workspaceId scope is required",
+    );
+  }
+}
+
+function assertKnownAgentTool(toolName: string) {
+  if (!TOOL_DEFINITIONS.some((tool) => tool.name === toolName)) {
+    throw new HttpError(
+      404,
+      "AGENT_TOOL_NOT_FOUND",
+      `Agent tool ${toolName} does not exist`,
+    );
+  }
+}
+
+function toConsentScope(
+  context: Pick<RequestContext, "orgId" | "workspaceId" | "userId">,
+  userId: string | null,
+): AgentToolConsentScope {
+  return {
+    organizationId: context.orgId,
+    workspaceId: context.workspaceId,
+    userId,
+  };
+}
+
+export async function listAgentToolConsentsForScope(
+  context: Pick<RequestContext, "orgId" | "workspaceId" | "userId">,
+): Promise<AgentToolConsentSummary[]> {
+  await initializeDatabase();
+  assertTenantScope(context);
+
+  const policies = await getStoredAgentToolConsentPolicies(
+    toConsentScope(context, context.userId),
+  );
+  return TOOL_DEFINITIONS.map((tool) => {
+    const policy = policies.get(tool.name);
+    return {
+      toolName: tool.name,
+      description: tool.description,
+      defaultConsent: tool.defaultConsent,
+      workspaceConsent: policy?.workspaceConsent ?? null,
+      locked: policy?.locked ?? false,
+      userConsent: policy?.userConsent ?? null,
+      consent: pickEffectiveAgentToolConsent(tool.defaultConsent, policy),
+    };
+  });
+}
+
+async function getAgentToolConsentSummary(
+  context: Pick<RequestContext, "orgId" | "workspaceId" | "userId">,
+  toolName: string,
+): Promise<AgentToolConsentSummary> {
+  const summaries = await listAgentToolConsentsForScope(context);
+  const summary = summaries.find((item) => item.toolName === toolName);
+  if (!summary) {
+    throw new HttpError(
+      404,
+      "AGENT_TOOL_NOT_FOUND",
+      `Agent tool ${toolName} does not exist`,
+    );
+  }
+  return summary;
+}
+
+/** Sets the workspace policy; `consent: null` falls back to the tool default. */
+export async function setWorkspaceAgentToolConsentForScope(params: {
+  context: Pick<RequestContext, "orgId" | "workspaceId" | "userId">;
+  toolName: string;
+  consent: AgentToolConsent | null;
+  locked?: boolean;
+}): Promise<AgentToolConsentSummary> {
+  await initializeDatabase();
+  assertTenantScope(params.context);
+  assertKnownAgentTool(params.toolName);
+
+  if (params.consent === null && params.locked) {
+    throw new HttpError(
+      400,
+      "INVALID_PAYLOAD",
+      'Invalid payload: "locked" requires a consent',
+    );
+  }
+
+  await setStoredAgentToolConsent({
+    scope: toConsentScope(params.context, null),
+    toolName: params.toolName,
+    consent: params.consent,
+    locked: params.locked ?? false,
+    updatedByUserId: params.context.userId,
+  });
+  return getAgentToolConsentSummary(params.context, params.toolName);
+}
+
+/**
+ * Sets the caller's own override. Locked workspace policies cannot be
+ * overridden.
+ */
+export async function setUserAgentToolConsentForScope(params: {
+  context: Pick<RequestContext, "orgId" | "workspaceId" | "userId">;
+  toolName: string;
+  consent: AgentToolConsent | null;
+}): Promise<AgentToolConsentSummary> {
+  await initializeDatabase();
+  assertTenantScope(params.context);
+  assertKnownAgentTool(params.toolName);
+
+  const current = await getAgentToolConsentSummary(
+    params.context,
+    params.toolName,
+  );
+  if (current.locked) {
+    throw new HttpError(
+      409,
+      "AGENT_TOOL_CONSENT_LOCKED",
+      `Agent tool ${params.toolName} is locked by the workspace policy`,
+    );
+  }
+
+  await setStoredAgentToolConsent({
+    scope: toConsentScope(params.context, params.context.userId),
+    toolName: params.toolName,
+    consent: params.consent,
+    updatedByUserId: params.context.userId,
+  });
+  return getAgentToolConsentSummary(params.context, params.toolName);
+}
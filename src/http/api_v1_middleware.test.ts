@@ -1,7 +1,11 @@
 import type { IncomingMessage, ServerResponse } from "node:http";
-import { Readable } from "node:stream";
+import { PassThrough, Readable } from "node:stream";
+import { buffer } from "node:stream/consumers";
 import { describe, expect, it, vi } from "vitest";
+import { selectProposalActions } from "../ipc/processors/proposal_review";
 import { createApiV1Middleware } from "./api_v1_middleware";
+import { MAX_IMPORT_ARCHIVE_BYTES } from "./app_import_repositories";
+import { HttpFileResponse } from "./http_responses";
 import type { RequestContext } from "./request_context";
 
 function createMockRequest({
@@ -116,6 +120,37 @@ describe("createApiV1Middleware", () => {
     expect(next).not.toHaveBeenCalled();
   });
 
+  it("routes PATCH workspace settings to set-workspace-settings channel", async () => {
+    const invoke = vi.fn().mockResolvedValue({ uiLanguage: "en" });
+    const middleware = createApiV1Middleware(invoke, {
+      resolveRequestContext: resolveRequestContextMock as any,
+    });
+    const req = createMockRequest({
+      method: "PATCH",
+      url: "/api/v1/orgs/org-1/workspaces/ws-1/settings",
+      body: JSON.stringify({ uiLanguage: "en" }),
+    });
+    const { response, getBody } = createMockResponse();
+    const next = vi.fn();
+
+    await middleware(req, response, next);
+
+    expect(resolveRequestContextMock).toHaveBeenLastCalledWith(req, {
+      orgId: "org-1",
+      workspaceId: "ws-1",
+    });
+    expect(invoke).toHaveBeenCalledWith(
+      "set-workspace-settings",
+      [{ uiLanguage: "en" }],
+      {
+        requestContext,
+      },
+    );
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(getBody())).toEqual({ data: { uiLanguage: "en" } });
+    expect(next).not.toHaveBeenCalled();
+  });
+
   it("routes dynamic path /api/v1/orgs/:orgId/workspaces/:workspaceId/apps/:appId/chats", async () => {
     const invoke = vi.fn().mockResolvedValue([]);
     const middleware = createApiV1Middleware(invoke, {
@@ -162,6 +197,80 @@ describe("createApiV1Middleware", () => {
     expect(next).not.toHaveBeenCalled();
   });
 
+  it("routes session refresh and logout without auth context", async () => {
+    resolveRequestContextMock.mockClear();
+    const invoke = vi
+      .fn()
+      .mockResolvedValueOnce({ idToken: "next-id-token" })
+      .mockResolvedValueOnce(undefined);
+    const middleware = createApiV1Middleware(invoke, {
+      resolveRequestContext: resolveRequestContextMock as any,
+    });
+    const next = vi.fn();
+
+    const refresh = createMockResponse();
+    await middleware(
+      createMockRequest({
+        method: "POST",
+        url: "/api/v1/auth/session/refresh",
+        body: JSON.stringify({ sessionToken: " session-token " }),
+      }),
+      refresh.response,
+      next,
+    );
+    const logout = createMockResponse();
+    await middleware(
+      createMockRequest({
+        method: "POST",
+        url: "/api/v1/auth/logout",
+        body: JSON.stringify({ sessionToken: "session-token" }),
+      }),
+      logout.response,
+      next,
+    );
+
+    expect(invoke).toHaveBeenNthCalledWith(
+      1,
+      "refresh-auth-session",
+      [{ sessionToken: "session-token" }],
+      { requestContext: undefined },
+    );
+    expect(JSON.parse(refresh.getBody())).toEqual({
+      data: { idToken: "next-id-token" },
+    });
+    expect(invoke).toHaveBeenNthCalledWith(
+      2,
+      "logout-auth-session",
+      [{ sessionToken: "session-token" }],
+      { requestContext: undefined },
+    );
+    expect(logout.response.statusCode).toBe(204);
+    expect(resolveRequestContextMock).not.toHaveBeenCalled();
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it("rejects session refresh without a session token", async () => {
+    const invoke = vi.fn();
+    const middleware = createApiV1Middleware(invoke, {
+      resolveRequestContext: resolveRequestContextMock as any,
+    });
+    const req = createMockRequest({
+      method: "POST",
+      url: "/api/v1/auth/session/refresh",
+      body: JSON.stringify({ refreshToken: "refresh-token" }),
+    });
+    const { response, getBody } = createMockResponse();
+    const next = vi.fn();
+
+    await middleware(req, response, next);
+
+    expect(response.statusCode).toBe(400);
+    expect(JSON.parse(getBody())).toMatchObject({
+      error: expect.stringContaining("unsupported keys"),
+    });
+    expect(invoke).not.toHaveBeenCalled();
+  });
+
   it("routes scoped path /api/v1/orgs/:orgId/workspaces/:workspaceId/apps", async () => {
     const invoke = vi.fn().mockResolvedValue({ apps: [] });
     const middleware = createApiV1Middleware(invoke, {
@@ -347,43 +456,47 @@ describe("createApiV1Middleware", () => {
     expect(next).not.toHaveBeenCalled();
   });
 
-  it("routes create-app endpoint with strict payload", async () => {
-    const invoke = vi.fn().mockResolvedValue({
-      app: { id: 77, name: "My app" },
-      chatId: 9,
-    });
+  it("routes invite-org-member endpoint with default role", async () => {
+    const invoke = vi.fn().mockResolvedValue({ id: 5, status: "invited" });
     const middleware = createApiV1Middleware(invoke, {
       resolveRequestContext: resolveRequestContextMock as any,
     });
     const req = createMockRequest({
       method: "POST",
-      url: "/api/v1/orgs/org-1/workspaces/ws-1/apps",
-      body: JSON.stringify({ name: "My app" }),
+      url: "/api/v1/orgs/org-1/members",
+      body: JSON.stringify({ email: " teammate@example.com " }),
     });
     const { response, getBody } = createMockResponse();
     const next = vi.fn();
 
     await middleware(req, response, next);
 
-    expect(invoke).toHaveBeenCalledWith("create-app", [{ name: "My app" }], {
-      requestContext,
+    expect(resolveRequestContextMock).toHaveBeenLastCalledWith(req, {
+      orgId: "org-1",
     });
+    expect(invoke).toHaveBeenCalledWith(
+      "invite-org-member",
+      [{ email: "teammate@example.com", role: "member" }],
+      {
+        requestContext,
+      },
+    );
     expect(response.statusCode).toBe(200);
     expect(JSON.parse(getBody())).toEqual({
-      data: { app: { id: 77, name: "My app" }, chatId: 9 },
+      data: { id: 5, status: "invited" },
     });
     expect(next).not.toHaveBeenCalled();
   });
 
-  it("rejects create-app payload with unsupported keys", async () => {
+  it("rejects invite-member payload with invalid role", async () => {
     const invoke = vi.fn();
     const middleware = createApiV1Middleware(invoke, {
       resolveRequestContext: resolveRequestContextMock as any,
     });
     const req = createMockRequest({
       method: "POST",
-      url: "/api/v1/orgs/org-1/workspaces/ws-1/apps",
-      body: JSON.stringify({ name: "My app", githubRepo: "legacy" }),
+      url: "/api/v1/orgs/org-1/workspaces/ws-1/members",
+      body: JSON.stringify({ email: "teammate@example.com", role: "root" }),
     });
     const { response, getBody } = createMockResponse();
     const next = vi.fn();
@@ -393,52 +506,51 @@ describe("createApiV1Middleware", () => {
     expect(response.statusCode).toBe(400);
     expect(JSON.parse(getBody())).toMatchObject({
       code: "INVALID_PAYLOAD",
-      error: expect.stringContaining("unsupported keys"),
+      error: expect.stringContaining('"role"'),
     });
     expect(invoke).not.toHaveBeenCalled();
     expect(next).not.toHaveBeenCalled();
   });
 
-  it("routes patch-app endpoint with strict payload", async () => {
-    const invoke = vi
-      .fn()
-      .mockResolvedValue({ id: 77, name: "Renamed", isFavorite: true });
+  it("routes update-workspace-member endpoint with strict payload", async () => {
+    const invoke = vi.fn().mockResolvedValue({ id: 9, role: "viewer" });
     const middleware = createApiV1Middleware(invoke, {
       resolveRequestContext: resolveRequestContextMock as any,
     });
     const req = createMockRequest({
       method: "PATCH",
-      url: "/api/v1/orgs/org-1/workspaces/ws-1/apps/77",
-      body: JSON.stringify({ name: "Renamed", isFavorite: true }),
+      url: "/api/v1/orgs/org-1/workspaces/ws-1/members/9",
+      body: JSON.stringify({ role: "viewer" }),
     });
-    const { response, getBody } = createMockResponse();
+    const { response } = createMockResponse();
     const next = vi.fn();
 
     await middleware(req, response, next);
 
+    expect(resolveRequestContextMock).toHaveBeenLastCalledWith(req, {
+      orgId: "org-1",
+      workspaceId: "ws-1",
+    });
     expect(invoke).toHaveBeenCalledWith(
-      "patch-app",
-      [77, { name: "Renamed", isFavorite: true }],
+      "update-workspace-member",
+      [9, { role: "viewer" }],
       {
         requestContext,
       },
     );
     expect(response.statusCode).toBe(200);
-    expect(JSON.parse(getBody())).toEqual({
-      data: { id: 77, name: "Renamed", isFavorite: true },
-    });
     expect(next).not.toHaveBeenCalled();
   });
 
-  it("rejects patch-app payload with unsupported keys", async () => {
+  it("rejects update-member payload with unsupported keys", async () => {
     const invoke = vi.fn();
     const middleware = createApiV1Middleware(invoke, {
       resolveRequestContext: resolveRequestContextMock as any,
     });
     const req = createMockRequest({
       method: "PATCH",
-      url: "/api/v1/orgs/org-1/workspaces/ws-1/apps/77",
-      body: JSON.stringify({ name: "Renamed", appId: 77 }),
+      url: "/api/v1/orgs/org-1/members/9",
+      body: JSON.stringify({ role: "admin", status: "active" }),
     });
     const { response, getBody } = createMockResponse();
     const next = vi.fn();
@@ -454,203 +566,1285 @@ describe("createApiV1Middleware", () => {
     expect(next).not.toHaveBeenCalled();
   });
 
-  it("routes proposal read endpoint", async () => {
-    const invoke = vi.fn().mockResolvedValue({
-      chatId: 42,
-      messageId: 99,
-      proposal: null,
-    });
+  it("routes remove-org-member endpoint and returns 204", async () => {
+    const invoke = vi.fn().mockResolvedValue(undefined);
     const middleware = createApiV1Middleware(invoke, {
       resolveRequestContext: resolveRequestContextMock as any,
     });
     const req = createMockRequest({
-      method: "GET",
-      url: "/api/v1/orgs/org-1/workspaces/ws-1/chats/42/proposal",
+      method: "DELETE",
+      url: "/api/v1/orgs/org-1/members/9",
     });
-    const { response, getBody } = createMockResponse();
+    const { response } = createMockResponse();
     const next = vi.fn();
 
     await middleware(req, response, next);
 
-    expect(invoke).toHaveBeenCalledWith("get-proposal", [{ chatId: 42 }], {
+    expect(invoke).toHaveBeenCalledWith("remove-org-member", [9], {
       requestContext,
     });
-    expect(response.statusCode).toBe(200);
-    expect(JSON.parse(getBody())).toEqual({
-      data: {
-        chatId: 42,
-        messageId: 99,
-        proposal: null,
-      },
-    });
+    expect(response.statusCode).toBe(204);
     expect(next).not.toHaveBeenCalled();
   });
 
-  it("routes proposal approval endpoint", async () => {
-    const invoke = vi.fn().mockResolvedValue({ success: true });
+  it("routes org member session list and revoke endpoints", async () => {
+    const invoke = vi
+      .fn()
+      .mockResolvedValueOnce([])
+      .mockResolvedValue(undefined);
     const middleware = createApiV1Middleware(invoke, {
       resolveRequestContext: resolveRequestContextMock as any,
     });
-    const req = createMockRequest({
-      method: "POST",
-      url: "/api/v1/orgs/org-1/workspaces/ws-1/chats/42/proposal/approve",
-      body: JSON.stringify({ messageId: 7 }),
-    });
-    const { response, getBody } = createMockResponse();
     const next = vi.fn();
+    const sessionId = "0F8FAD5B-D9CB-469F-A165-70867728950E";
 
-    await middleware(req, response, next);
+    const list = createMockResponse();
+    await middleware(
+      createMockRequest({
+        method: "GET",
+        url: "/api/v1/orgs/org-1/members/9/sessions",
+      }),
+      list.response,
+      next,
+    );
+    const revokeAll = createMockResponse();
+    await middleware(
+      createMockRequest({
+        method: "DELETE",
+        url: "/api/v1/orgs/org-1/members/9/sessions",
+      }),
+      revokeAll.response,
+      next,
+    );
+    const revokeOne = createMockResponse();
+    await middleware(
+      createMockRequest({
+        method: "DELETE",
+        url: `/api/v1/orgs/org-1/members/9/sessions/${sessionId}`,
+      }),
+      revokeOne.response,
+      next,
+    );
 
-    expect(invoke).toHaveBeenCalledWith(
-      "approve-proposal",
-      [{ chatId: 42, messageId: 7 }],
-      {
-        requestContext,
-      },
+    expect(invoke).toHaveBeenNthCalledWith(1, "list-org-member-sessions", [9], {
+      requestContext,
+    });
+    expect(JSON.parse(list.getBody())).toEqual({ data: [] });
+    expect(invoke).toHaveBeenNthCalledWith(
+      2,
+      "revoke-org-member-sessions",
+      [9],
+      { requestContext },
     );
-    expect(response.statusCode).toBe(200);
-    expect(JSON.parse(getBody())).toEqual({ data: { success: true } });
+    expect(invoke).toHaveBeenNthCalledWith(
+      3,
+      "revoke-org-member-sessions",
+      [9, sessionId.toLowerCase()],
+      { requestContext },
+    );
+    expect(revokeAll.response.statusCode).toBe(204);
+    expect(revokeOne.response.statusCode).toBe(204);
     expect(next).not.toHaveBeenCalled();
   });
 
-  it("routes proposal reject endpoint", async () => {
-    const invoke = vi.fn().mockResolvedValue(undefined);
+  it("routes audit event list endpoint with parsed filters", async () => {
+    const invoke = vi.fn().mockResolvedValue({ events: [], nextCursor: null });
     const middleware = createApiV1Middleware(invoke, {
       resolveRequestContext: resolveRequestContextMock as any,
     });
+    const actorUserId = "0F8FAD5B-D9CB-469F-A165-70867728950E";
     const req = createMockRequest({
-      method: "POST",
-      url: "/api/v1/orgs/org-1/workspaces/ws-1/chats/42/proposal/reject",
-      body: JSON.stringify({ messageId: 7 }),
+      method: "GET",
+      url: `/api/v1/orgs/org-1/audit-events?actorUserId=${actorUserId}&action=member_invite&from=2026-01-01T00:00:00.000Z&to=2026-02-01T00:00:00.000Z&cursor=abc&limit=25`,
     });
-    const { response } = createMockResponse();
+    const { response, getBody } = createMockResponse();
     const next = vi.fn();
 
     await middleware(req, response, next);
 
     expect(invoke).toHaveBeenCalledWith(
-      "reject-proposal",
-      [{ chatId: 42, messageId: 7 }],
-      {
-        requestContext,
-      },
+      "list-audit-events",
+      [
+        {
+          filters: {
+            actorUserId: actorUserId.toLowerCase(),
+            action: "member_invite",
+            resourceType: undefined,
+            from: new Date("2026-01-01T00:00:00.000Z"),
+            to: new Date("2026-02-01T00:00:00.000Z"),
+          },
+          cursor: "abc",
+          limit: 25,
+        },
+      ],
+      { requestContext },
     );
-    expect(response.statusCode).toBe(204);
+    expect(JSON.parse(getBody())).toEqual({
+      data: { events: [], nextCursor: null },
+    });
     expect(next).not.toHaveBeenCalled();
   });
 
-  it("rejects proposal action payload with unsupported keys", async () => {
+  it.each([
+    ["unsupported parameter", "orgId=org-2"],
+    ["non-uuid actor", "actorUserId=user-1"],
+    ["invalid date", "from=yesterday"],
+    ["reversed range", "from=2026-02-01T00:00:00Z&to=2026-01-01T00:00:00Z"],
+    ["limit above maximum", "limit=500"],
+  ])("rejects audit event query with %s", async (_label, query) => {
     const invoke = vi.fn();
     const middleware = createApiV1Middleware(invoke, {
       resolveRequestContext: resolveRequestContextMock as any,
     });
     const req = createMockRequest({
-      method: "POST",
-      url: "/api/v1/orgs/org-1/workspaces/ws-1/chats/42/proposal/approve",
-      body: JSON.stringify({
-        messageId: 7,
-        chatId: 999,
-      }),
+      method: "GET",
+      url: `/api/v1/orgs/org-1/audit-events?${query}`,
     });
     const { response, getBody } = createMockResponse();
-    const next = vi.fn();
 
-    await middleware(req, response, next);
+    await middleware(req, response, vi.fn());
 
     expect(response.statusCode).toBe(400);
-    expect(JSON.parse(getBody())).toMatchObject({
-      code: "INVALID_PAYLOAD",
-      error: expect.stringContaining("unsupported keys"),
-    });
+    expect(JSON.parse(getBody())).toMatchObject({ code: "INVALID_QUERY" });
     expect(invoke).not.toHaveBeenCalled();
-    expect(next).not.toHaveBeenCalled();
   });
 
-  it("routes app file read endpoint", async () => {
-    const invoke = vi.fn().mockResolvedValue("file-content");
+  it("writes audit event export as a raw file download", async () => {
+    const invoke = vi.fn().mockResolvedValue(
+      new HttpFileResponse({
+        contentType: "text/csv; charset=utf-8",
+        fileName: "audit-events-2026-01-01.csv",
+        body: "id,action\r\n1,member_invite\r\n",
+        headers: { "X-Audit-Next-Cursor": "next-cursor" },
+      }),
+    );
     const middleware = createApiV1Middleware(invoke, {
       resolveRequestContext: resolveRequestContextMock as any,
     });
     const req = createMockRequest({
       method: "GET",
-      url: "/api/v1/orgs/org-1/workspaces/ws-1/apps/77/file?path=src%2FApp.tsx",
+      url: "/api/v1/orgs/org-1/audit-events/export?format=csv&action=member_invite&cursor=cursor-1",
     });
-    const { response, getBody } = createMockResponse();
+    const { response, headers, getBody } = createMockResponse();
     const next = vi.fn();
 
     await middleware(req, response, next);
 
     expect(invoke).toHaveBeenCalledWith(
-      "read-app-file",
-      [{ appId: 77, filePath: "src/App.tsx" }],
+      "export-audit-events",
+      [
+        {
+          filters: {
+            actorUserId: undefined,
+            action: "member_invite",
+            resourceType: undefined,
+            from: undefined,
+            to: undefined,
+          },
+          cursor: "cursor-1",
+          format: "csv",
+        },
+      ],
+      { requestContext },
+    );
+    expect(response.statusCode).toBe(200);
+    expect(headers["content-type"]).toBe("text/csv; charset=utf-8");
+    expect(headers["x-audit-next-cursor"]).toBe("next-cursor");
+    expect(headers["content-disposition"]).toBe(
+      'attachment; filename="audit-events-2026-01-01.csv"',
+    );
+    expect(getBody()).toBe("id,action\r\n1,member_invite\r\n");
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it("routes quota administration endpoints with strict payloads", async () => {
+    const invoke = vi.fn().mockResolvedValue({ ok: true });
+    const middleware = createApiV1Middleware(invoke, {
+      resolveRequestContext: resolveRequestContextMock as any,
+    });
+    const next = vi.fn();
+    const userId = "0F8FAD5B-D9CB-469F-A165-70867728950E";
+
+    for (const request of [
+      { method: "GET", url: "/api/v1/orgs/org-1/quotas" },
       {
-        requestContext,
+        method: "PATCH",
+        url: "/api/v1/orgs/org-1/quotas",
+        body: JSON.stringify({ tokensPerDayHardLimit: 2_000_000 }),
+      },
+      { method: "GET", url: "/api/v1/orgs/org-1/quotas/users" },
+      {
+        method: "PATCH",
+        url: `/api/v1/orgs/org-1/quotas/users/${userId}`,
+        body: JSON.stringify({ requestsPerDaySoftLimit: 100 }),
       },
+      { method: "DELETE", url: `/api/v1/orgs/org-1/quotas/users/${userId}` },
+    ]) {
+      await middleware(
+        createMockRequest(request),
+        createMockResponse().response,
+        next,
+      );
+    }
+
+    expect(invoke.mock.calls.map(([channel, args]) => [channel, args])).toEqual(
+      [
+        ["get-org-quotas", []],
+        ["update-org-quotas", [{ tokensPerDayHardLimit: 2_000_000 }]],
+        ["list-user-soft-quotas", []],
+        [
+          "update-user-soft-quota",
+          [userId.toLowerCase(), { requestsPerDaySoftLimit: 100 }],
+        ],
+        ["remove-user-soft-quota", [userId.toLowerCase()]],
+      ],
     );
-    expect(response.statusCode).toBe(200);
-    expect(JSON.parse(getBody())).toEqual({ data: "file-content" });
     expect(next).not.toHaveBeenCalled();
   });
 
-  it("routes scoped app versions list endpoint", async () => {
-    const invoke = vi
-      .fn()
-      .mockResolvedValue([{ oid: "abc", message: "Init", timestamp: 1 }]);
+  it.each([
+    ["unsupported key", { requestsPerDaySoftLimit: 1, orgId: "org-2" }],
+    ["negative limit", { requestsPerDaySoftLimit: -1 }],
+    ["fractional limit", { tokensPerDaySoftLimit: 1.5 }],
+    ["empty payload", {}],
+  ])("rejects user soft quota payload with %s", async (_label, payload) => {
+    const invoke = vi.fn();
     const middleware = createApiV1Middleware(invoke, {
       resolveRequestContext: resolveRequestContextMock as any,
     });
     const req = createMockRequest({
-      method: "GET",
-      url: "/api/v1/orgs/org-1/workspaces/ws-1/apps/77/versions",
+      method: "PATCH",
+      url: "/api/v1/orgs/org-1/quotas/users/0f8fad5b-d9cb-469f-a165-70867728950e",
+      body: JSON.stringify(payload),
     });
     const { response, getBody } = createMockResponse();
-    const next = vi.fn();
 
-    await middleware(req, response, next);
+    await middleware(req, response, vi.fn());
 
-    expect(invoke).toHaveBeenCalledWith("list-versions", [{ appId: 77 }], {
-      requestContext,
-    });
-    expect(response.statusCode).toBe(200);
-    expect(JSON.parse(getBody())).toEqual({
-      data: [{ oid: "abc", message: "Init", timestamp: 1 }],
-    });
-    expect(next).not.toHaveBeenCalled();
+    expect(response.statusCode).toBe(400);
+    expect(JSON.parse(getBody())).toMatchObject({ code: "INVALID_PAYLOAD" });
+    expect(invoke).not.toHaveBeenCalled();
   });
 
-  it("routes scoped app checkout endpoint", async () => {
-    const invoke = vi.fn().mockResolvedValue(undefined);
+  it("routes monthly budget settings with hard limits", async () => {
+    const invoke = vi.fn().mockResolvedValue({ ok: true });
     const middleware = createApiV1Middleware(invoke, {
       resolveRequestContext: resolveRequestContextMock as any,
     });
     const req = createMockRequest({
-      method: "POST",
-      url: "/api/v1/orgs/org-1/workspaces/ws-1/apps/77/versions/checkout",
-      body: JSON.stringify({ versionId: "main" }),
+      method: "PATCH",
+      url: "/api/v1/orgs/org-1/quotas",
+      body: JSON.stringify({
+        requestsPerDayHardLimit: 500,
+        monthlyBudgetMicroUsd: 250_000_000,
+        budgetWarningThresholdPercent: 90,
+        budgetExhaustedAction: "downgrade",
+        budgetDowngradeModel: { provider: " openai ", name: "gpt-5-mini" },
+      }),
     });
     const { response } = createMockResponse();
-    const next = vi.fn();
 
-    await middleware(req, response, next);
+    await middleware(req, response, vi.fn());
 
+    expect(response.statusCode).toBe(200);
     expect(invoke).toHaveBeenCalledWith(
-      "checkout-version",
-      [{ appId: 77, versionId: "main" }],
-      {
-        requestContext,
-      },
+      "update-org-quotas",
+      [
+        {
+          requestsPerDayHardLimit: 500,
+          monthlyBudgetMicroUsd: 250_000_000,
+          budgetWarningThresholdPercent: 90,
+          budgetExhaustedAction: "downgrade",
+          budgetDowngradeModel: { provider: "openai", name: "gpt-5-mini" },
+        },
+      ],
+      expect.anything(),
     );
-    expect(response.statusCode).toBe(204);
-    expect(next).not.toHaveBeenCalled();
   });
 
-  it("rejects checkout payload with unsupported keys", async () => {
+  it.each([
+    ["fractional budget", { monthlyBudgetMicroUsd: 1.5 }],
+    ["zero threshold", { budgetWarningThresholdPercent: 0 }],
+    ["threshold above 100", { budgetWarningThresholdPercent: 101 }],
+    ["unknown action", { budgetExhaustedAction: "notify" }],
+    ["model without name", { budgetDowngradeModel: { provider: "openai" } }],
+    [
+      "model with extra keys",
+      { budgetDowngradeModel: { provider: "openai", name: "x", id: 1 } },
+    ],
+    ["invalid hard limit", { monthlyBudgetMicroUsd: null, tokens: 1 }],
+  ])("rejects organization quota payload with %s", async (_label, payload) => {
     const invoke = vi.fn();
     const middleware = createApiV1Middleware(invoke, {
       resolveRequestContext: resolveRequestContextMock as any,
     });
     const req = createMockRequest({
-      method: "POST",
+      method: "PATCH",
+      url: "/api/v1/orgs/org-1/quotas",
+      body: JSON.stringify(payload),
+    });
+    const { response, getBody } = createMockResponse();
+
+    await middleware(req, response, vi.fn());
+
+    expect(response.statusCode).toBe(400);
+    expect(JSON.parse(getBody())).toMatchObject({ code: "INVALID_PAYLOAD" });
+    expect(invoke).not.toHaveBeenCalled();
+  });
+
+  it("routes usage report endpoint with parsed range", async () => {
+    const invoke = vi.fn().mockResolvedValue({ totals: {} });
+    const middleware = createApiV1Middleware(invoke, {
+      resolveRequestContext: resolveRequestContextMock as any,
+    });
+    const req = createMockRequest({
+      method: "GET",
+      url: "/api/v1/orgs/org-1/usage?from=2026-03-01T00:00:00.000Z&to=2026-04-01T00:00:00.000Z",
+    });
+    const { response } = createMockResponse();
+
+    await middleware(req, response, vi.fn());
+
+    expect(invoke).toHaveBeenCalledWith(
+      "get-usage-report",
+      [
+        {
+          from: new Date("2026-03-01T00:00:00.000Z"),
+          to: new Date("2026-04-01T00:00:00.000Z"),
+          workspaceId: undefined,
+        },
+      ],
+      { requestContext },
+    );
+
+    const invalid = createMockResponse();
+    await middleware(
+      createMockRequest({
+        method: "GET",
+        url: "/api/v1/orgs/org-1/usage?workspaceId=ws-1",
+      }),
+      invalid.response,
+      vi.fn(),
+    );
+    expect(invalid.response.statusCode).toBe(400);
+  });
+
+  it("routes create-model-provider endpoint with normalized payload", async () => {
+    const invoke = vi.fn().mockResolvedValue({
+      id: "custom::p1",
+      hasApiKey: true,
+    });
+    const middleware = createApiV1Middleware(invoke, {
+      resolveRequestContext: resolveRequestContextMock as any,
+    });
+    const req = createMockRequest({
+      method: "POST",
+      url: "/api/v1/orgs/org-1/workspaces/ws-1/model-providers",
+      body: JSON.stringify({
+        name: " Team proxy ",
+        apiBaseUrl: "https://llm.example.com/v1",
+        apiKey: "sk-test",
+      }),
+    });
+    const { response, getBody } = createMockResponse();
+    const next = vi.fn();
+
+    await middleware(req, response, next);
+
+    expect(invoke).toHaveBeenCalledWith(
+      "create-model-provider",
+      [
+        {
+          name: "Team proxy",
+          apiBaseUrl: "https://llm.example.com/v1",
+          apiKey: "sk-test",
+        },
+      ],
+      {
+        requestContext,
+      },
+    );
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(getBody())).toEqual({
+      data: { id: "custom::p1", hasApiKey: true },
+    });
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it("rejects model provider payload that names a server env variable", async () => {
+    const invoke = vi.fn();
+    const middleware = createApiV1Middleware(invoke, {
+      resolveRequestContext: resolveRequestContextMock as any,
+    });
+    const { response, getBody } = createMockResponse();
+
+    await middleware(
+      createMockRequest({
+        method: "POST",
+        url: "/api/v1/orgs/org-1/workspaces/ws-1/model-providers",
+        body: JSON.stringify({
+          name: "Team proxy",
+          apiBaseUrl: "https://llm.example.com/v1",
+          envVarName: "DATABASE_URL",
+        }),
+      }),
+      response,
+      vi.fn(),
+    );
+
+    expect(response.statusCode).toBe(400);
+    expect(JSON.parse(getBody())).toMatchObject({ code: "INVALID_PAYLOAD" });
+    expect(invoke).not.toHaveBeenCalled();
+  });
+
+  it("rejects model provider payload with a non-http base URL", async () => {
+    const invoke = vi.fn();
+    const middleware = createApiV1Middleware(invoke, {
+      resolveRequestContext: resolveRequestContextMock as any,
+    });
+    const req = createMockRequest({
+      method: "POST",
+      url: "/api/v1/orgs/org-1/workspaces/ws-1/model-providers",
+      body: JSON.stringify({ name: "Proxy", apiBaseUrl: "file:///etc" }),
+    });
+    const { response, getBody } = createMockResponse();
+    const next = vi.fn();
+
+    await middleware(req, response, next);
+
+    expect(response.statusCode).toBe(400);
+    expect(JSON.parse(getBody())).toMatchObject({
+      code: "INVALID_PAYLOAD",
+      error: expect.stringContaining("apiBaseUrl"),
+    });
+    expect(invoke).not.toHaveBeenCalled();
+  });
+
+  it("routes update-model-provider endpoint with decoded provider id", async () => {
+    const invoke = vi.fn().mockResolvedValue({ id: "custom::p1" });
+    const middleware = createApiV1Middleware(invoke, {
+      resolveRequestContext: resolveRequestContextMock as any,
+    });
+    const req = createMockRequest({
+      method: "PATCH",
+      url: "/api/v1/orgs/org-1/workspaces/ws-1/model-providers/custom%3A%3Ap1",
+      body: JSON.stringify({ apiKey: null, trustSelfSigned: true }),
+    });
+    const { response } = createMockResponse();
+    const next = vi.fn();
+
+    await middleware(req, response, next);
+
+    expect(invoke).toHaveBeenCalledWith(
+      "update-model-provider",
+      ["custom::p1", { apiKey: null, trustSelfSigned: true }],
+      {
+        requestContext,
+      },
+    );
+    expect(response.statusCode).toBe(200);
+  });
+
+  it("rejects providerId changes when updating a workspace model", async () => {
+    const invoke = vi.fn();
+    const middleware = createApiV1Middleware(invoke, {
+      resolveRequestContext: resolveRequestContextMock as any,
+    });
+    const req = createMockRequest({
+      method: "PATCH",
+      url: "/api/v1/orgs/org-1/workspaces/ws-1/models/5",
+      body: JSON.stringify({ providerId: "openai", displayName: "GPT" }),
+    });
+    const { response, getBody } = createMockResponse();
+    const next = vi.fn();
+
+    await middleware(req, response, next);
+
+    expect(response.statusCode).toBe(400);
+    expect(JSON.parse(getBody())).toMatchObject({
+      code: "INVALID_PAYLOAD",
+      error: expect.stringContaining("unsupported keys (providerId)"),
+    });
+    expect(invoke).not.toHaveBeenCalled();
+  });
+
+  it("routes workspace model prices and rejects negative prices", async () => {
+    const invoke = vi.fn().mockResolvedValue({ id: 5 });
+    const middleware = createApiV1Middleware(invoke, {
+      resolveRequestContext: resolveRequestContextMock as any,
+    });
+    const validRequest = createMockRequest({
+      method: "PATCH",
+      url: "/api/v1/orgs/org-1/workspaces/ws-1/models/5",
+      body: JSON.stringify({
+        inputPricePerMillionTokens: 1.25,
+        outputPricePerMillionTokens: 10,
+        cachedInputPricePerMillionTokens: null,
+      }),
+    });
+    await middleware(validRequest, createMockResponse().response, vi.fn());
+
+    expect(invoke).toHaveBeenCalledWith(
+      "update-workspace-model",
+      [
+        5,
+        {
+          inputPricePerMillionTokens: 1.25,
+          outputPricePerMillionTokens: 10,
+          cachedInputPricePerMillionTokens: null,
+        },
+      ],
+      {
+        requestContext,
+      },
+    );
+
+    const invalidRequest = createMockRequest({
+      method: "PATCH",
+      url: "/api/v1/orgs/org-1/workspaces/ws-1/models/5",
+      body: JSON.stringify({ outputPricePerMillionTokens: -1 }),
+    });
+    const { response, getBody } = createMockResponse();
+
+    await middleware(invalidRequest, response, vi.fn());
+
+    expect(response.statusCode).toBe(400);
+    expect(JSON.parse(getBody())).toMatchObject({
+      code: "INVALID_PAYLOAD",
+      error: expect.stringContaining("outputPricePerMillionTokens"),
+    });
+    expect(invoke).toHaveBeenCalledTimes(1);
+  });
+
+  it("routes create-mcp-server endpoint with normalized payload", async () => {
+    const invoke = vi.fn().mockResolvedValue({ id: 3, enabled: false });
+    const middleware = createApiV1Middleware(invoke, {
+      resolveRequestContext: resolveRequestContextMock as any,
+    });
+    const req = createMockRequest({
+      method: "POST",
+      url: "/api/v1/orgs/org-1/workspaces/ws-1/mcp-servers",
+      body: JSON.stringify({
+        name: " Calculator ",
+        transport: "stdio",
+        command: " node ",
+        args: ["server.mjs"],
+        env: { API_TOKEN: "secret" },
+      }),
+    });
+    const { response } = createMockResponse();
+    const next = vi.fn();
+
+    await middleware(req, response, next);
+
+    expect(invoke).toHaveBeenCalledWith(
+      "create-mcp-server",
+      [
+        {
+          name: "Calculator",
+          transport: "stdio",
+          command: "node",
+          args: ["server.mjs"],
+          env: { API_TOKEN: "secret" },
+        },
+      ],
+      {
+        requestContext,
+      },
+    );
+    expect(response.statusCode).toBe(200);
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it("routes MCP server patch, enable, disable, tools and delete endpoints", async () => {
+    const invoke = vi.fn().mockResolvedValue({ id: 3 });
+    const middleware = createApiV1Middleware(invoke, {
+      resolveRequestContext: resolveRequestContextMock as any,
+    });
+    const base = "/api/v1/orgs/org-1/workspaces/ws-1/mcp-servers/3";
+
+    for (const [method, url, body] of [
+      ["PATCH", base, JSON.stringify({ url: null, transport: "stdio" })],
+      ["POST", `${base}/enable`, undefined],
+      ["POST", `${base}/disable`, undefined],
+      ["GET", `${base}/tools`, undefined],
+      ["DELETE", base, undefined],
+    ] as const) {
+      const { response } = createMockResponse();
+      await middleware(
+        createMockRequest({ method, url, body }),
+        response,
+        vi.fn(),
+      );
+      expect(response.statusCode).toBeLessThan(300);
+    }
+
+    expect(invoke.mock.calls.map(([channel, args]) => [channel, args])).toEqual(
+      [
+        ["patch-mcp-server", [3, { url: null, transport: "stdio" }]],
+        ["set-mcp-server-enabled", [3, true]],
+        ["set-mcp-server-enabled", [3, false]],
+        ["list-mcp-server-tools", [3]],
+        ["delete-mcp-server", [3]],
+      ],
+    );
+  });
+
+  it.each([
+    ["unknown transport", { name: "x", transport: "sse" }],
+    ["non-http url", { name: "x", transport: "http", url: "file:///etc" }],
+    ["non-string args", { name: "x", transport: "stdio", args: [1] }],
+    [
+      "invalid env name",
+      { name: "x", transport: "stdio", env: { "A-B": "1" } },
+    ],
+    ["non-string env value", { name: "x", transport: "stdio", env: { A: 1 } }],
+    ["enabled flag", { name: "x", transport: "http", enabled: true }],
+  ])("rejects MCP server payload with %s", async (_label, payload) => {
+    const invoke = vi.fn();
+    const middleware = createApiV1Middleware(invoke, {
+      resolveRequestContext: resolveRequestContextMock as any,
+    });
+    const req = createMockRequest({
+      method: "POST",
+      url: "/api/v1/orgs/org-1/workspaces/ws-1/mcp-servers",
+      body: JSON.stringify(payload),
+    });
+    const { response, getBody } = createMockResponse();
+
+    await middleware(req, response, vi.fn());
+
+    expect(response.statusCode).toBe(400);
+    expect(JSON.parse(getBody())).toMatchObject({ code: "INVALID_PAYLOAD" });
+    expect(invoke).not.toHaveBeenCalled();
+  });
+
+  it("routes MCP tool consent responses to resolve-mcp-tool-consent", async () => {
+    const invoke = vi.fn().mockResolvedValue({ resolved: true });
+    const middleware = createApiV1Middleware(invoke, {
+      resolveRequestContext: resolveRequestContextMock as any,
+    });
+    const req = createMockRequest({
+      method: "POST",
+      url: "/api/v1/orgs/org-1/workspaces/ws-1/chats/22/mcp-consents",
+      body: JSON.stringify({ requestId: "7:search:abc", decision: "decline" }),
+    });
+    const { response } = createMockResponse();
+
+    await middleware(req, response, vi.fn());
+
+    expect(response.statusCode).toBeLessThan(300);
+    expect(invoke).toHaveBeenCalledWith(
+      "resolve-mcp-tool-consent",
+      [{ chatId: 22, requestId: "7:search:abc", decision: "decline" }],
+      expect.anything(),
+    );
+  });
+
+  it.each([
+    ["unknown decision", { requestId: "r1", decision: "allow" }],
+    ["empty request id", { requestId: "", decision: "decline" }],
+    ["extra keys", { requestId: "r1", decision: "decline", serverId: 7 }],
+  ])("rejects MCP consent payload with %s", async (_label, payload) => {
+    const invoke = vi.fn();
+    const middleware = createApiV1Middleware(invoke, {
+      resolveRequestContext: resolveRequestContextMock as any,
+    });
+    const req = createMockRequest({
+      method: "POST",
+      url: "/api/v1/orgs/org-1/workspaces/ws-1/chats/22/mcp-consents",
+      body: JSON.stringify(payload),
+    });
+    const { response, getBody } = createMockResponse();
+
+    await middleware(req, response, vi.fn());
+
+    expect(response.statusCode).toBe(400);
+    expect(JSON.parse(getBody())).toMatchObject({ code: "INVALID_PAYLOAD" });
+    expect(invoke).not.toHaveBeenCalled();
+  });
+
+  it("routes agent tool consent responses to resolve-agent-tool-consent", async () => {
+    const invoke = vi.fn().mockResolvedValue(undefined);
+    const middleware = createApiV1Middleware(invoke, {
+      resolveRequestContext: resolveRequestContextMock as any,
+    });
+    const req = createMockRequest({
+      method: "POST",
+      url: "/api/v1/orgs/org-1/workspaces/ws-1/chats/22/agent-consents",
+      body: JSON.stringify({ requestId: "agent-1", decision: "accept-once" }),
+    });
+    const { response } = createMockResponse();
+
+    await middleware(req, response, vi.fn());
+
+    expect(response.statusCode).toBeLessThan(300);
+    expect(invoke).toHaveBeenCalledWith(
+      "resolve-agent-tool-consent",
+      [{ chatId: 22, requestId: "agent-1", decision: "accept-once" }],
+      expect.anything(),
+    );
+  });
+
+  it("routes agent tool consent policies to workspace and user channels", async () => {
+    const invoke = vi.fn().mockResolvedValue({});
+    const middleware = createApiV1Middleware(invoke, {
+      resolveRequestContext: resolveRequestContextMock as any,
+    });
+
+    await middleware(
+      createMockRequest({
+        method: "PATCH",
+        url: "/api/v1/orgs/org-1/workspaces/ws-1/agent-tool-consents/web_crawl",
+        body: JSON.stringify({ consent: "never", locked: true }),
+      }),
+      createMockResponse().response,
+      vi.fn(),
+    );
+    await middleware(
+      createMockRequest({
+        method: "PATCH",
+        url: "/api/v1/orgs/org-1/workspaces/ws-1/agent-tool-consents/read_file/me",
+        body: JSON.stringify({ consent: null }),
+      }),
+      createMockResponse().response,
+      vi.fn(),
+    );
+
+    expect(invoke).toHaveBeenNthCalledWith(
+      1,
+      "set-workspace-agent-tool-consent",
+      [{ toolName: "web_crawl", consent: "never", locked: true }],
+      expect.anything(),
+    );
+    expect(invoke).toHaveBeenNthCalledWith(
+      2,
+      "set-user-agent-tool-consent",
+      [{ toolName: "read_file", consent: null }],
+      expect.anything(),
+    );
+  });
+
+  it.each([
+    ["unknown consent", "web_crawl", { consent: "maybe" }],
+    ["missing consent", "web_crawl", { locked: true }],
+    ["non-boolean lock", "web_crawl", { consent: "never", locked: "yes" }],
+    [
+      "lock on user override",
+      "web_crawl/me",
+      { consent: "never", locked: true },
+    ],
+  ])(
+    "rejects agent tool consent policy with %s",
+    async (_label, path, payload) => {
+      const invoke = vi.fn();
+      const middleware = createApiV1Middleware(invoke, {
+        resolveRequestContext: resolveRequestContextMock as any,
+      });
+      const req = createMockRequest({
+        method: "PATCH",
+        url: `/api/v1/orgs/org-1/workspaces/ws-1/agent-tool-consents/${path}`,
+        body: JSON.stringify(payload),
+      });
+      const { response, getBody } = createMockResponse();
+
+      await middleware(req, response, vi.fn());
+
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(getBody())).toMatchObject({ code: "INVALID_PAYLOAD" });
+      expect(invoke).not.toHaveBeenCalled();
+    },
+  );
+
+  it("routes PATCH workspace model settings to set-workspace-model-settings channel", async () => {
+    const selectedModel = { provider: "custom::p1", name: "llama-3" };
+    const invoke = vi.fn().mockResolvedValue({ selectedModel });
+    const middleware = createApiV1Middleware(invoke, {
+      resolveRequestContext: resolveRequestContextMock as any,
+    });
+    const req = createMockRequest({
+      method: "PATCH",
+      url: "/api/v1/orgs/org-1/workspaces/ws-1/model-settings",
+      body: JSON.stringify({ selectedModel }),
+    });
+    const { response } = createMockResponse();
+    const next = vi.fn();
+
+    await middleware(req, response, next);
+
+    expect(invoke).toHaveBeenCalledWith(
+      "set-workspace-model-settings",
+      [{ selectedModel }],
+      {
+        requestContext,
+      },
+    );
+    expect(response.statusCode).toBe(200);
+  });
+
+  it("routes create-app endpoint with strict payload", async () => {
+    const invoke = vi.fn().mockResolvedValue({
+      app: { id: 77, name: "My app" },
+      chatId: 9,
+    });
+    const middleware = createApiV1Middleware(invoke, {
+      resolveRequestContext: resolveRequestContextMock as any,
+    });
+    const req = createMockRequest({
+      method: "POST",
+      url: "/api/v1/orgs/org-1/workspaces/ws-1/apps",
+      body: JSON.stringify({ name: "My app" }),
+    });
+    const { response, getBody } = createMockResponse();
+    const next = vi.fn();
+
+    await middleware(req, response, next);
+
+    expect(invoke).toHaveBeenCalledWith("create-app", [{ name: "My app" }], {
+      requestContext,
+    });
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(getBody())).toEqual({
+      data: { app: { id: 77, name: "My app" }, chatId: 9 },
+    });
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it("rejects create-app payload with unsupported keys", async () => {
+    const invoke = vi.fn();
+    const middleware = createApiV1Middleware(invoke, {
+      resolveRequestContext: resolveRequestContextMock as any,
+    });
+    const req = createMockRequest({
+      method: "POST",
+      url: "/api/v1/orgs/org-1/workspaces/ws-1/apps",
+      body: JSON.stringify({ name: "My app", githubRepo: "legacy" }),
+    });
+    const { response, getBody } = createMockResponse();
+    const next = vi.fn();
+
+    await middleware(req, response, next);
+
+    expect(response.statusCode).toBe(400);
+    expect(JSON.parse(getBody())).toMatchObject({
+      code: "INVALID_PAYLOAD",
+      error: expect.stringContaining("unsupported keys"),
+    });
+    expect(invoke).not.toHaveBeenCalled();
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it("routes patch-app endpoint with strict payload", async () => {
+    const invoke = vi
+      .fn()
+      .mockResolvedValue({ id: 77, name: "Renamed", isFavorite: true });
+    const middleware = createApiV1Middleware(invoke, {
+      resolveRequestContext: resolveRequestContextMock as any,
+    });
+    const req = createMockRequest({
+      method: "PATCH",
+      url: "/api/v1/orgs/org-1/workspaces/ws-1/apps/77",
+      body: JSON.stringify({ name: "Renamed", isFavorite: true }),
+    });
+    const { response, getBody } = createMockResponse();
+    const next = vi.fn();
+
+    await middleware(req, response, next);
+
+    expect(invoke).toHaveBeenCalledWith(
+      "patch-app",
+      [77, { name: "Renamed", isFavorite: true }],
+      {
+        requestContext,
+      },
+    );
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(getBody())).toEqual({
+      data: { id: 77, name: "Renamed", isFavorite: true },
+    });
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it("rejects patch-app payload with unsupported keys", async () => {
+    const invoke = vi.fn();
+    const middleware = createApiV1Middleware(invoke, {
+      resolveRequestContext: resolveRequestContextMock as any,
+    });
+    const req = createMockRequest({
+      method: "PATCH",
+      url: "/api/v1/orgs/org-1/workspaces/ws-1/apps/77",
+      body: JSON.stringify({ name: "Renamed", appId: 77 }),
+    });
+    const { response, getBody } = createMockResponse();
+    const next = vi.fn();
+
+    await middleware(req, response, next);
+
+    expect(response.statusCode).toBe(400);
+    expect(JSON.parse(getBody())).toMatchObject({
+      code: "INVALID_PAYLOAD",
+      error: expect.stringContaining("unsupported keys"),
+    });
+    expect(invoke).not.toHaveBeenCalled();
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it("routes proposal read endpoint", async () => {
+    const invoke = vi.fn().mockResolvedValue({
+      chatId: 42,
+      messageId: 99,
+      proposal: null,
+    });
+    const middleware = createApiV1Middleware(invoke, {
+      resolveRequestContext: resolveRequestContextMock as any,
+    });
+    const req = createMockRequest({
+      method: "GET",
+      url: "/api/v1/orgs/org-1/workspaces/ws-1/chats/42/proposal",
+    });
+    const { response, getBody } = createMockResponse();
+    const next = vi.fn();
+
+    await middleware(req, response, next);
+
+    expect(invoke).toHaveBeenCalledWith("get-proposal", [{ chatId: 42 }], {
+      requestContext,
+    });
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(getBody())).toEqual({
+      data: {
+        chatId: 42,
+        messageId: 99,
+        proposal: null,
+      },
+    });
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it("routes proposal approval endpoint", async () => {
+    const invoke = vi.fn().mockResolvedValue({ success: true });
+    const middleware = createApiV1Middleware(invoke, {
+      resolveRequestContext: resolveRequestContextMock as any,
+    });
+    const req = createMockRequest({
+      method: "POST",
+      url: "/api/v1/orgs/org-1/workspaces/ws-1/chats/42/proposal/approve",
+      body: JSON.stringify({ messageId: 7 }),
+    });
+    const { response, getBody } = createMockResponse();
+    const next = vi.fn();
+
+    await middleware(req, response, next);
+
+    expect(invoke).toHaveBeenCalledWith(
+      "approve-proposal",
+      [{ chatId: 42, messageId: 7 }],
+      {
+        requestContext,
+      },
+    );
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(getBody())).toEqual({ data: { success: true } });
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it("routes partial proposal approval with selected changes", async () => {
+    const invoke = vi.fn().mockResolvedValue({ updatedFiles: true });
+    const middleware = createApiV1Middleware(invoke, {
+      resolveRequestContext: resolveRequestContextMock as any,
+    });
+    const req = createMockRequest({
+      method: "POST",
+      url: "/api/v1/orgs/org-1/workspaces/ws-1/chats/42/proposal/approve",
+      body: JSON.stringify({
+        messageId: 7,
+        actionIds: ["action-0"],
+        paths: ["src/App.tsx"],
+      }),
+    });
+    const { response } = createMockResponse();
+    const next = vi.fn();
+
+    await middleware(req, response, next);
+
+    expect(invoke).toHaveBeenCalledWith(
+      "approve-proposal",
+      [
+        {
+          chatId: 42,
+          messageId: 7,
+          actionIds: ["action-0"],
+          paths: ["src/App.tsx"],
+        },
+      ],
+      {
+        requestContext,
+      },
+    );
+    expect(response.statusCode).toBe(200);
+  });
+
+  it("rejects proposal approval with invalid selected changes", async () => {
+    const invoke = vi.fn();
+    const middleware = createApiV1Middleware(invoke, {
+      resolveRequestContext: resolveRequestContextMock as any,
+    });
+    const req = createMockRequest({
+      method: "POST",
+      url: "/api/v1/orgs/org-1/workspaces/ws-1/chats/42/proposal/approve",
+      body: JSON.stringify({ messageId: 7, actionIds: ["action-0", 1] }),
+    });
+    const { response, getBody } = createMockResponse();
+    const next = vi.fn();
+
+    await middleware(req, response, next);
+
+    expect(response.statusCode).toBe(400);
+    expect(JSON.parse(getBody())).toMatchObject({
+      code: "INVALID_PAYLOAD",
+      error: expect.stringContaining('"actionIds" must be an array'),
+    });
+    expect(invoke).not.toHaveBeenCalled();
+  });
+
+  it("rejects request bodies above the route limit while reading them", async () => {
+    const invoke = vi.fn();
+    const middleware = createApiV1Middleware(invoke, {
+      resolveRequestContext: resolveRequestContextMock as any,
+    });
+    const chunk = "x".repeat(1024 * 1024);
+    const read = vi.fn();
+    const req = Object.assign(
+      Readable.from(
+        (function* () {
+          for (let index = 0; index < 20; index++) {
+            read(index);
+            yield chunk;
+          }
+        })(),
+      ),
+      {
+        method: "POST",
+        url: "/api/v1/orgs/org-1/workspaces/ws-1/apps",
+        headers: { "content-type": "application/json" },
+      },
+    ) as unknown as IncomingMessage;
+    const { response, getBody } = createMockResponse();
+
+    await middleware(req, response, vi.fn());
+
+    expect(response.statusCode).toBe(413);
+    expect(JSON.parse(getBody())).toMatchObject({ code: "PAYLOAD_TOO_LARGE" });
+    expect(read).toHaveBeenCalledTimes(11);
+    expect(invoke).not.toHaveBeenCalled();
+  });
+
+  it("rejects a declared content length above the import limit", async () => {
+    const invoke = vi.fn();
+    const middleware = createApiV1Middleware(invoke, {
+      resolveRequestContext: resolveRequestContextMock as any,
+    });
+    const req = createMockRequest({
+      method: "POST",
+      url: "/api/v1/orgs/org-1/workspaces/ws-1/apps/import",
+      body: "{}",
+    });
+    req.headers["content-length"] = String(
+      Math.ceil((MAX_IMPORT_ARCHIVE_BYTES * 4) / 3) + 1024 * 1024,
+    );
+    const { response, getBody } = createMockResponse();
+
+    await middleware(req, response, vi.fn());
+
+    expect(response.statusCode).toBe(413);
+    expect(JSON.parse(getBody())).toMatchObject({ code: "PAYLOAD_TOO_LARGE" });
+    expect(invoke).not.toHaveBeenCalled();
+  });
+
+  it("maps unknown selected proposal changes to 400", async () => {
+    const invoke = vi.fn(async () =>
+      selectProposalActions(
+        '<blaze-write path="src/App.tsx">export {};</blaze-write>',
+        { actionIds: ["action-9"] },
+      ),
+    );
+    const middleware = createApiV1Middleware(invoke, {
+      resolveRequestContext: resolveRequestContextMock as any,
+    });
+    const req = createMockRequest({
+      method: "POST",
+      url: "/api/v1/orgs/org-1/workspaces/ws-1/chats/42/proposal/approve",
+      body: JSON.stringify({ messageId: 7, actionIds: ["action-9"] }),
+    });
+    const { response, getBody } = createMockResponse();
+    const next = vi.fn();
+
+    await middleware(req, response, next);
+
+    expect(response.statusCode).toBe(400);
+    expect(JSON.parse(getBody())).toEqual({
+      error: "Unknown proposal changes: action-9",
+      code: "INVALID_PROPOSAL_SELECTION",
+    });
+  });
+
+  it("does not accept selected changes when rejecting a proposal", async () => {
+    const invoke = vi.fn();
+    const middleware = createApiV1Middleware(invoke, {
+      resolveRequestContext: resolveRequestContextMock as any,
+    });
+    const req = createMockRequest({
+      method: "POST",
+      url: "/api/v1/orgs/org-1/workspaces/ws-1/chats/42/proposal/reject",
+      body: JSON.stringify({ messageId: 7, paths: ["src/App.tsx"] }),
+    });
+    const { response } = createMockResponse();
+    const next = vi.fn();
+
+    await middleware(req, response, next);
+
+    expect(response.statusCode).toBe(400);
+    expect(invoke).not.toHaveBeenCalled();
+  });
+
+  it("routes proposal reject endpoint", async () => {
+    const invoke = vi.fn().mockResolvedValue(undefined);
+    const middleware = createApiV1Middleware(invoke, {
+      resolveRequestContext: resolveRequestContextMock as any,
+    });
+    const req = createMockRequest({
+      method: "POST",
+      url: "/api/v1/orgs/org-1/workspaces/ws-1/chats/42/proposal/reject",
+      body: JSON.stringify({ messageId: 7 }),
+    });
+    const { response } = createMockResponse();
+    const next = vi.fn();
+
+    await middleware(req, response, next);
+
+    expect(invoke).toHaveBeenCalledWith(
+      "reject-proposal",
+      [{ chatId: 42, messageId: 7 }],
+      {
+        requestContext,
+      },
+    );
+    expect(response.statusCode).toBe(204);
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it("rejects proposal action payload with unsupported keys", async () => {
+    const invoke = vi.fn();
+    const middleware = createApiV1Middleware(invoke, {
+      resolveRequestContext: resolveRequestContextMock as any,
+    });
+    const req = createMockRequest({
+      method: "POST",
+      url: "/api/v1/orgs/org-1/workspaces/ws-1/chats/42/proposal/approve",
+      body: JSON.stringify({
+        messageId: 7,
+        chatId: 999,
+      }),
+    });
+    const { response, getBody } = createMockResponse();
+    const next = vi.fn();
+
+    await middleware(req, response, next);
+
+    expect(response.statusCode).toBe(400);
+    expect(JSON.parse(getBody())).toMatchObject({
+      code: "INVALID_PAYLOAD",
+      error: expect.stringContaining("unsupported keys"),
+    });
+    expect(invoke).not.toHaveBeenCalled();
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it("routes app file read endpoint", async () => {
+    const invoke = vi.fn().mockResolvedValue("file-content");
+    const middleware = createApiV1Middleware(invoke, {
+      resolveRequestContext: resolveRequestContextMock as any,
+    });
+    const req = createMockRequest({
+      method: "GET",
+      url: "/api/v1/orgs/org-1/workspaces/ws-1/apps/77/file?path=src%2FApp.tsx",
+    });
+    const { response, getBody } = createMockResponse();
+    const next = vi.fn();
+
+    await middleware(req, response, next);
+
+    expect(invoke).toHaveBeenCalledWith(
+      "read-app-file",
+      [{ appId: 77, filePath: "src/App.tsx" }],
+      {
+        requestContext,
+      },
+    );
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(getBody())).toEqual({ data: "file-content" });
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it("routes scoped app versions list endpoint", async () => {
+    const invoke = vi
+      .fn()
+      .mockResolvedValue([{ oid: "abc", message: "Init", timestamp: 1 }]);
+    const middleware = createApiV1Middleware(invoke, {
+      resolveRequestContext: resolveRequestContextMock as any,
+    });
+    const req = createMockRequest({
+      method: "GET",
+      url: "/api/v1/orgs/org-1/workspaces/ws-1/apps/77/versions",
+    });
+    const { response, getBody } = createMockResponse();
+    const next = vi.fn();
+
+    await middleware(req, response, next);
+
+    expect(invoke).toHaveBeenCalledWith("list-versions", [{ appId: 77 }], {
+      requestContext,
+    });
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(getBody())).toEqual({
+      data: [{ oid: "abc", message: "Init", timestamp: 1 }],
+    });
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it("routes scoped app checkout endpoint", async () => {
+    const invoke = vi.fn().mockResolvedValue(undefined);
+    const middleware = createApiV1Middleware(invoke, {
+      resolveRequestContext: resolveRequestContextMock as any,
+    });
+    const req = createMockRequest({
+      method: "POST",
+      url: "/api/v1/orgs/org-1/workspaces/ws-1/apps/77/versions/checkout",
+      body: JSON.stringify({ versionId: "main" }),
+    });
+    const { response } = createMockResponse();
+    const next = vi.fn();
+
+    await middleware(req, response, next);
+
+    expect(invoke).toHaveBeenCalledWith(
+      "checkout-version",
+      [{ appId: 77, versionId: "main" }],
+      {
+        requestContext,
+      },
+    );
+    expect(response.statusCode).toBe(204);
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it("rejects checkout payload with unsupported keys", async () => {
+    const invoke = vi.fn();
+    const middleware = createApiV1Middleware(invoke, {
+      resolveRequestContext: resolveRequestContextMock as any,
+    });
+    const req = createMockRequest({
+      method: "POST",
       url: "/api/v1/orgs/org-1/workspaces/ws-1/apps/77/versions/checkout",
       body: JSON.stringify({ versionId: "main", appId: 77 }),
     });
@@ -733,6 +1927,414 @@ describe("createApiV1Middleware", () => {
     expect(next).not.toHaveBeenCalled();
   });
 
+  it("routes app git remote status, connect, push and pull endpoints", async () => {
+    const invoke = vi.fn().mockResolvedValue({ remoteUrl: null });
+    const middleware = createApiV1Middleware(invoke, {
+      resolveRequestContext: resolveRequestContextMock as any,
+    });
+    const requests = [
+      { method: "GET", url: "git/remote?fetch=false" },
+      {
+        method: "PATCH",
+        url: "git/remote",
+        body: {
+          remoteUrl: "https://git.example.com/team/app.git",
+          accessToken: "token-1",
+        },
+      },
+      {
+        method: "POST",
+        url: "git/push",
+        body: { branch: "main", force: true },
+      },
+      { method: "POST", url: "git/pull", body: {} },
+    ];
+
+    for (const request of requests) {
+      const req = createMockRequest({
+        method: request.method,
+        url: `/api/v1/orgs/org-1/workspaces/ws-1/apps/77/${request.url}`,
+        body: request.body ? JSON.stringify(request.body) : undefined,
+      });
+      const { response } = createMockResponse();
+      await middleware(req, response, vi.fn());
+      expect(response.statusCode).toBe(200);
+    }
+
+    expect(invoke.mock.calls.map(([channel, args]) => [channel, args])).toEqual(
+      [
+        ["get-app-git-remote", [{ appId: 77, fetch: false }]],
+        [
+          "connect-app-git-remote",
+          [
+            {
+              appId: 77,
+              remoteUrl: "https://git.example.com/team/app.git",
+              accessToken: "token-1",
+            },
+          ],
+        ],
+        ["push-app-git-remote", [{ appId: 77, branch: "main", force: true }]],
+        ["pull-app-git-remote", [{ appId: 77 }]],
+      ],
+    );
+  });
+
+  it("rejects force on pull and invalid git remote payloads", async () => {
+    const invoke = vi.fn();
+    const middleware = createApiV1Middleware(invoke, {
+      resolveRequestContext: resolveRequestContextMock as any,
+    });
+    const requests = [
+      { method: "POST", url: "git/pull", body: { force: true } },
+      { method: "PATCH", url: "git/remote", body: { remoteUrl: "" } },
+      {
+        method: "PATCH",
+        url: "git/remote",
+        body: { remoteUrl: "https://git.example.com/a.git", accessToken: 1 },
+      },
+    ];
+
+    for (const request of requests) {
+      const req = createMockRequest({
+        method: request.method,
+        url: `/api/v1/orgs/org-1/workspaces/ws-1/apps/77/${request.url}`,
+        body: JSON.stringify(request.body),
+      });
+      const { response, getBody } = createMockResponse();
+      await middleware(req, response, vi.fn());
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(getBody())).toMatchObject({ code: "INVALID_PAYLOAD" });
+    }
+    expect(invoke).not.toHaveBeenCalled();
+  });
+
+  it("routes version diff and file history endpoints", async () => {
+    const invoke = vi.fn().mockResolvedValue([]);
+    const middleware = createApiV1Middleware(invoke, {
+      resolveRequestContext: resolveRequestContextMock as any,
+    });
+    const urls = [
+      "versions/abc1234...def5678/diff",
+      "versions/abc1234...def5678/diff?path=src%2FApp.tsx",
+      "file/history?path=src%2FApp.tsx&limit=20",
+    ];
+
+    for (const url of urls) {
+      const req = createMockRequest({
+        method: "GET",
+        url: `/api/v1/orgs/org-1/workspaces/ws-1/apps/77/${url}`,
+      });
+      const { response } = createMockResponse();
+      await middleware(req, response, vi.fn());
+      expect(response.statusCode).toBe(200);
+    }
+
+    expect(invoke.mock.calls.map(([channel, args]) => [channel, args])).toEqual(
+      [
+        ["get-version-diff", [{ appId: 77, from: "abc1234", to: "def5678" }]],
+        [
+          "get-version-diff",
+          [
+            {
+              appId: 77,
+              from: "abc1234",
+              to: "def5678",
+              filePath: "src/App.tsx",
+            },
+          ],
+        ],
+        [
+          "get-app-file-history",
+          [{ appId: 77, filePath: "src/App.tsx", limit: 20 }],
+        ],
+      ],
+    );
+  });
+
+  it("rejects an out-of-range file history limit", async () => {
+    const invoke = vi.fn();
+    const middleware = createApiV1Middleware(invoke, {
+      resolveRequestContext: resolveRequestContextMock as any,
+    });
+    const req = createMockRequest({
+      method: "GET",
+      url: "/api/v1/orgs/org-1/workspaces/ws-1/apps/77/file/history?path=a.ts&limit=0",
+    });
+    const { response, getBody } = createMockResponse();
+
+    await middleware(req, response, vi.fn());
+
+    expect(response.statusCode).toBe(400);
+    expect(JSON.parse(getBody())).toMatchObject({ code: "INVALID_QUERY" });
+    expect(invoke).not.toHaveBeenCalled();
+  });
+
+  it("routes app git branch and merge endpoints", async () => {
+    const invoke = vi.fn().mockResolvedValue({ currentBranch: "main" });
+    const middleware = createApiV1Middleware(invoke, {
+      resolveRequestContext: resolveRequestContextMock as any,
+    });
+    const requests = [
+      { method: "GET", url: "git/branches" },
+      {
+        method: "POST",
+        url: "git/branches",
+        body: { name: "feature/login", from: "main", checkout: true },
+      },
+      { method: "POST", url: "git/branches/feature%2Flogin/checkout" },
+      {
+        method: "PATCH",
+        url: "git/branches/feature%2Flogin",
+        body: { name: "feature/sign-in" },
+      },
+      { method: "DELETE", url: "git/branches/feature%2Fsign-in" },
+      { method: "POST", url: "git/merge", body: { branch: "experiment" } },
+      { method: "GET", url: "git/merge" },
+      { method: "POST", url: "git/merge/abort" },
+    ];
+
+    for (const request of requests) {
+      const req = createMockRequest({
+        method: request.method,
+        url: `/api/v1/orgs/org-1/workspaces/ws-1/apps/77/${request.url}`,
+        body: request.body ? JSON.stringify(request.body) : undefined,
+      });
+      const { response } = createMockResponse();
+      await middleware(req, response, vi.fn());
+      expect(response.statusCode).toBe(200);
+    }
+
+    expect(invoke.mock.calls.map(([channel, args]) => [channel, args])).toEqual(
+      [
+        ["list-app-git-branches", [{ appId: 77 }]],
+        [
+          "create-app-git-branch",
+          [{ appId: 77, name: "feature/login", from: "main", checkout: true }],
+        ],
+        ["checkout-app-git-branch", [{ appId: 77, branch: "feature/login" }]],
+        [
+          "rename-app-git-branch",
+          [{ appId: 77, branch: "feature/login", name: "feature/sign-in" }],
+        ],
+        ["delete-app-git-branch", [{ appId: 77, branch: "feature/sign-in" }]],
+        ["merge-app-git-branch", [{ appId: 77, branch: "experiment" }]],
+        ["get-app-git-merge", [{ appId: 77 }]],
+        ["abort-app-git-merge", [{ appId: 77 }]],
+      ],
+    );
+  });
+
+  it("rejects invalid git branch payloads", async () => {
+    const invoke = vi.fn();
+    const middleware = createApiV1Middleware(invoke, {
+      resolveRequestContext: resolveRequestContextMock as any,
+    });
+    const requests = [
+      { method: "POST", url: "git/branches", body: { name: " " } },
+      {
+        method: "POST",
+        url: "git/branches",
+        body: { name: "feature", checkout: "yes" },
+      },
+      {
+        method: "PATCH",
+        url: "git/branches/main",
+        body: { name: "trunk", force: true },
+      },
+      { method: "POST", url: "git/merge", body: {} },
+    ];
+
+    for (const request of requests) {
+      const req = createMockRequest({
+        method: request.method,
+        url: `/api/v1/orgs/org-1/workspaces/ws-1/apps/77/${request.url}`,
+        body: JSON.stringify(request.body),
+      });
+      const { response, getBody } = createMockResponse();
+      await middleware(req, response, vi.fn());
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(getBody())).toMatchObject({ code: "INVALID_PAYLOAD" });
+    }
+    expect(invoke).not.toHaveBeenCalled();
+  });
+
+  it("routes app import from git and archives", async () => {
+    const invoke = vi.fn().mockResolvedValue({ app: { id: 9 }, chatId: 3 });
+    const middleware = createApiV1Middleware(invoke, {
+      resolveRequestContext: resolveRequestContextMock as any,
+    });
+    const bodies = [
+      {
+        name: " Landing ",
+        source: {
+          type: "git",
+          url: "https://github.com/acme/landing.git",
+          ref: "v1",
+        },
+      },
+      {
+        name: "Landing",
+        source: { type: "archive", format: "tar.gz", data: "H4sI" },
+        installCommand: "npm ci",
+        startCommand: "npm start",
+      },
+    ];
+
+    for (const body of bodies) {
+      const req = createMockRequest({
+        method: "POST",
+        url: "/api/v1/orgs/org-1/workspaces/ws-1/apps/import",
+        body: JSON.stringify(body),
+      });
+      const { response } = createMockResponse();
+      await middleware(req, response, vi.fn());
+      expect(response.statusCode).toBe(200);
+    }
+
+    expect(invoke.mock.calls.map(([channel, args]) => [channel, args])).toEqual(
+      [
+        [
+          "import-app",
+          [
+            {
+              name: "Landing",
+              source: {
+                type: "git",
+                url: "https://github.com/acme/landing.git",
+                ref: "v1",
+              },
+            },
+          ],
+        ],
+        [
+          "import-app",
+          [
+            {
+              name: "Landing",
+              source: { type: "archive", format: "tar.gz", data: "H4sI" },
+              installCommand: "npm ci",
+              startCommand: "npm start",
+            },
+          ],
+        ],
+      ],
+    );
+  });
+
+  it("rejects invalid app import payloads", async () => {
+    const invoke = vi.fn();
+    const middleware = createApiV1Middleware(invoke, {
+      resolveRequestContext: resolveRequestContextMock as any,
+    });
+    const bodies = [
+      { name: "Landing" },
+      { name: "Landing", source: { type: "svn", url: "https://x" } },
+      { name: "Landing", source: { type: "git", url: " " } },
+      {
+        name: "Landing",
+        source: { type: "archive", format: "rar", data: "UmFy" },
+      },
+      {
+        name: "Landing",
+        source: { type: "git", url: "https://x", depth: 1 },
+      },
+      {
+        name: "Landing",
+        source: { type: "git", url: "https://x" },
+        startCommand: "npm start",
+      },
+    ];
+
+    for (const body of bodies) {
+      const req = createMockRequest({
+        method: "POST",
+        url: "/api/v1/orgs/org-1/workspaces/ws-1/apps/import",
+        body: JSON.stringify(body),
+      });
+      const { response, getBody } = createMockResponse();
+      await middleware(req, response, vi.fn());
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(getBody())).toMatchObject({ code: "INVALID_PAYLOAD" });
+    }
+    expect(invoke).not.toHaveBeenCalled();
+  });
+
+  it("streams app exports as archive downloads", async () => {
+    const invoke = vi.fn().mockResolvedValue(
+      new HttpFileResponse({
+        contentType: "application/zip",
+        fileName: "landing-abc1234.zip",
+        body: Readable.from([
+          Buffer.from("PK\u0003\u0004"),
+          Buffer.from("zip"),
+        ]),
+      }),
+    );
+    const middleware = createApiV1Middleware(invoke, {
+      resolveRequestContext: resolveRequestContextMock as any,
+    });
+    const req = createMockRequest({
+      method: "GET",
+      url: "/api/v1/orgs/org-1/workspaces/ws-1/apps/7/export?version=abc1234&includeChats=true",
+    });
+    const headers: Record<string, string> = {};
+    const response = Object.assign(new PassThrough(), {
+      statusCode: 0,
+      setHeader: (headerName: string, headerValue: string) => {
+        headers[headerName.toLowerCase()] = headerValue;
+      },
+    }) as unknown as ServerResponse;
+    const body = buffer(response as unknown as PassThrough);
+
+    await middleware(req, response, vi.fn());
+
+    expect(invoke).toHaveBeenCalledWith(
+      "export-app",
+      [
+        {
+          appId: 7,
+          format: "zip",
+          version: "abc1234",
+          includeGit: false,
+          includeChats: true,
+        },
+      ],
+      { requestContext },
+    );
+    expect(response.statusCode).toBe(200);
+    expect(headers["content-type"]).toBe("application/zip");
+    expect(headers["content-disposition"]).toBe(
+      'attachment; filename="landing-abc1234.zip"',
+    );
+    expect((await body).toString("latin1")).toBe("PK\u0003\u0004zip");
+  });
+
+  it("rejects invalid app export queries", async () => {
+    const invoke = vi.fn();
+    const middleware = createApiV1Middleware(invoke, {
+      resolveRequestContext: resolveRequestContextMock as any,
+    });
+    const queries = [
+      "format=rar",
+      "version=HEAD~1",
+      "includeGit=yes",
+      "includeNodeModules=true",
+    ];
+
+    for (const query of queries) {
+      const req = createMockRequest({
+        method: "GET",
+        url: `/api/v1/orgs/org-1/workspaces/ws-1/apps/7/export?${query}`,
+      });
+      const { response, getBody } = createMockResponse();
+      await middleware(req, response, vi.fn());
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(getBody())).toMatchObject({ code: "INVALID_QUERY" });
+    }
+    expect(invoke).not.toHaveBeenCalled();
+  });
+
   it("routes scoped update chat endpoint with strict payload", async () => {
     const invoke = vi.fn().mockResolvedValue({ id: 42, title: "Renamed" });
     const middleware = createApiV1Middleware(invoke, {
@@ -851,6 +2453,113 @@ describe("createApiV1Middleware", () => {
     expect(next).not.toHaveBeenCalled();
   });
 
+  it("writes preview screenshots inline as PNG", async () => {
+    const png = Buffer.from([0x89, 0x50, 0x4e, 0x47]);
+    const invoke = vi.fn().mockResolvedValue(
+      new HttpFileResponse({
+        contentType: "image/png",
+        fileName: "app-77-preview-390x844.png",
+        body: png,
+        disposition: "inline",
+      }),
+    );
+    const middleware = createApiV1Middleware(invoke, {
+      resolveRequestContext: resolveRequestContextMock as any,
+    });
+    const req = createMockRequest({
+      method: "GET",
+      url: "/api/v1/orgs/org-1/workspaces/ws-1/apps/77/preview/screenshot?route=%2Fsettings%3Ftab%3D2&device=mobile&fullPage=true",
+    });
+    const { response, headers } = createMockResponse();
+
+    await middleware(req, response, vi.fn());
+
+    expect(invoke).toHaveBeenCalledWith(
+      "capture-preview-screenshot",
+      [
+        {
+          appId: 77,
+          route: "/settings?tab=2",
+          viewport: { width: 390, height: 844 },
+          fullPage: true,
+        },
+      ],
+      { requestContext },
+    );
+    expect(response.statusCode).toBe(200);
+    expect(headers["content-type"]).toBe("image/png");
+    expect(headers["content-disposition"]).toBe(
+      'inline; filename="app-77-preview-390x844.png"',
+    );
+    expect(response.end).toHaveBeenCalledWith(png);
+  });
+
+  it("uses custom screenshot sizes and defaults to the desktop home page", async () => {
+    const invoke = vi.fn().mockResolvedValue({ ok: true });
+    const middleware = createApiV1Middleware(invoke, {
+      resolveRequestContext: resolveRequestContextMock as any,
+    });
+
+    await middleware(
+      createMockRequest({
+        method: "GET",
+        url: "/api/v1/orgs/org-1/workspaces/ws-1/apps/77/preview/screenshot",
+      }),
+      createMockResponse().response,
+      vi.fn(),
+    );
+    await middleware(
+      createMockRequest({
+        method: "GET",
+        url: "/api/v1/orgs/org-1/workspaces/ws-1/apps/77/preview/screenshot?width=1024&height=768",
+      }),
+      createMockResponse().response,
+      vi.fn(),
+    );
+
+    expect(invoke.mock.calls.map(([, args]) => args[0])).toEqual([
+      {
+        appId: 77,
+        route: "/",
+        viewport: { width: 1440, height: 900 },
+        fullPage: false,
+      },
+      {
+        appId: 77,
+        route: "/",
+        viewport: { width: 1024, height: 768 },
+        fullPage: false,
+      },
+    ]);
+  });
+
+  it.each([
+    ["unsupported parameters", "scale=2"],
+    ["absolute route", "route=https%3A%2F%2Fexample.com"],
+    ["protocol-relative route", "route=%2F%2Fexample.com"],
+    ["unknown device", "device=watch"],
+    ["device with size", "device=mobile&width=800&height=600"],
+    ["width without height", "width=800"],
+    ["oversized viewport", "width=10000&height=600"],
+    ["invalid fullPage", "fullPage=yes"],
+  ])("rejects preview screenshot query with %s", async (_label, query) => {
+    const invoke = vi.fn();
+    const middleware = createApiV1Middleware(invoke, {
+      resolveRequestContext: resolveRequestContextMock as any,
+    });
+    const req = createMockRequest({
+      method: "GET",
+      url: `/api/v1/orgs/org-1/workspaces/ws-1/apps/77/preview/screenshot?${query}`,
+    });
+    const { response, getBody } = createMockResponse();
+
+    await middleware(req, response, vi.fn());
+
+    expect(response.statusCode).toBe(400);
+    expect(JSON.parse(getBody())).toMatchObject({ code: "INVALID_QUERY" });
+    expect(invoke).not.toHaveBeenCalled();
+  });
+
   it("passes through unknown routes", async () => {
     const invoke = vi.fn();
     const middleware = createApiV1Middleware(invoke, {
@@ -1,5 +1,19 @@
 import type { IncomingMessage, ServerResponse } from "node:http";
+import { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import {
+  MAX_IMPORT_ARCHIVE_BYTES,
+  type AppImportSource,
+} from "/src/http/app_import_repositories.ts";
+import { AUDIT_EVENTS_MAX_PAGE_SIZE } from "/src/http/audit_repositories.ts";
 import { HttpError, isHttpError } from "/src/http/http_errors.ts";
+import { isHttpFileResponse } from "/src/http/http_responses.ts";
+import {
+  PREVIEW_SCREENSHOT_DEVICES,
+  PREVIEW_SCREENSHOT_MAX_SIZE,
+  PREVIEW_SCREENSHOT_MIN_SIZE,
+  type PreviewScreenshotDevice,
+} from "/src/http/preview_screenshot.ts";
 import { resolveRequestContext } from "/src/http/request_context.ts";
 
 type Next = (error?: unknown) => void;
@@ -9,6 +23,7 @@ type IpcInvokeHandler = (
   args: unknown[],
   meta?: {
     requestContext?: unknown;
+    userAgent?: string;
   },
 ) => Promise<unknown>;
 
@@ -27,6 +42,8 @@ interface RouteMatchResult {
 interface RouteDefinition {
   method: HttpMethod;
   pattern: RegExp;
+  /** Largest accepted request body, {@link DEFAULT_MAX_BODY_BYTES} otherwise. */
+  maxBodyBytes?: number;
   build: (
     requestUrl: URL,
     match: RegExpMatchArray,
@@ -34,11 +51,38 @@ interface RouteDefinition {
   ) => RouteMatchResult | null;
 }
 
-async function readJsonBody(req: IncomingMessage): Promise<unknown> {
-  let rawBody = "";
+const DEFAULT_MAX_BODY_BYTES = 10 * 1024 * 1024;
+/** Base64 grows the archive by 4/3, plus room for the other fields. */
+const MAX_IMPORT_BODY_BYTES =
+  Math.ceil((MAX_IMPORT_ARCHIVE_BYTES * 4) / 3) + 64 * 1024;
+
+function payloadTooLarge(maxBytes: number) {
+  return new HttpError(
+    413,
+    "PAYLOAD_TOO_LARGE",
+    `Request body is larger than ${maxBytes} bytes`,
+  );
+}
+
+/** Stops reading as soon as the body grows past `maxBytes`. */
+async function readJsonBody(
+  req: IncomingMessage,
+  maxBytes: number,
+): Promise<unknown> {
+  if (Number(req.headers["content-length"]) > maxBytes) {
+    throw payloadTooLarge(maxBytes);
+  }
+  const chunks: Buffer[] = [];
+  let size = 0;
   for await (const chunk of req) {
-    rawBody += chunk.toString();
+    const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+    size += buffer.length;
+    if (size > maxBytes) {
+      throw payloadTooLarge(maxBytes);
+    }
+    chunks.push(buffer);
   }
+  const rawBody = Buffer.concat(chunks).toString();
 
   if (!rawBody.trim()) {
     return {};
@@ -104,11 +148,165 @@ function parseRestartAppPayload(body: unknown): {
     : {};
 }
 
-function parseProposalActionPayload(body: unknown): {
+function parsePreviewScreenshotQuery(url: URL): {
+  route: string;
+  viewport: { width: number; height: number };
+  fullPage: boolean;
+} {
+  const allowedKeys = new Set([
+    "route",
+    "device",
+    "width",
+    "height",
+    "fullPage",
+  ]);
+  const unsupportedKeys = [...new Set(url.searchParams.keys())].filter(
+    (key) => !allowedKeys.has(key),
+  );
+  if (unsupportedKeys.length > 0) {
+    throw new HttpError(
+      400,
+      "INVALID_QUERY",
+      `Invalid query: unsupported parameters (${unsupportedKeys.join(", ")})`,
+    );
+  }
+
+  const route = url.searchParams.get("route")?.trim() || "/";
+  if (!route.startsWith("/") || route.startsWith("//")) {
+    throw new HttpError(
+      400,
+      "INVALID_QUERY",
+      'Invalid query: "route" must be a path starting with "/"',
+    );
+  }
+
+  const device = url.searchParams.get("device")?.trim();
+  const rawWidth = url.searchParams.get("width");
+  const rawHeight = url.searchParams.get("height");
+  let viewport: { width: number; height: number };
+  if (rawWidth !== null || rawHeight !== null) {
+    if (device) {
+      throw new HttpError(
+        400,
+        "INVALID_QUERY",
+        'Invalid query: "device" cannot be combined with "width"/"height"',
+      );
+    }
+    const width = parseNumber(rawWidth ?? undefined);
+    const height = parseNumber(rawHeight ?? undefined);
+    const isValidSize = (value: number | null): value is number =>
+      value !== null &&
+      Number.isInteger(value) &&
+      value >= PREVIEW_SCREENSHOT_MIN_SIZE &&
+      value <= PREVIEW_SCREENSHOT_MAX_SIZE;
+    if (!isValidSize(width) || !isValidSize(height)) {
+      throw new HttpError(
+        400,
+        "INVALID_QUERY",
+        `Invalid query: "width" and "height" must both be integers between ${PREVIEW_SCREENSHOT_MIN_SIZE} and ${PREVIEW_SCREENSHOT_MAX_SIZE}`,
+      );
+    }
+    viewport = { width, height };
+  } else {
+    const deviceName = device || "desktop";
+    if (
+      !Object.prototype.hasOwnProperty.call(
+        PREVIEW_SCREENSHOT_DEVICES,
+        deviceName,
+      )
+    ) {
+      throw new HttpError(
+        400,
+        "INVALID_QUERY",
+        `Invalid query: "device" must be one of ${Object.keys(PREVIEW_SCREENSHOT_DEVICES).join(", ")}`,
+      );
+    }
+    viewport = {
+      ...PREVIEW_SCREENSHOT_DEVICES[deviceName as PreviewScreenshotDevice],
+    };
+  }
+
+  const fullPage = url.searchParams.get("fullPage");
+  if (fullPage !== null && fullPage !== "true" && fullPage !== "false") {
+    throw new HttpError(
+      400,
+      "INVALID_QUERY",
+      'Invalid query: "fullPage" must be "true" or "false"',
+    );
+  }
+
+  return { route, viewport, fullPage: fullPage === "true" };
+}
+
+function parseExportAppQuery(url: URL): {
+  format: "zip" | "tar.gz";
+  version?: string;
+  includeGit: boolean;
+  includeChats: boolean;
+} {
+  const allowedKeys = new Set([
+    "format",
+    "version",
+    "includeGit",
+    "includeChats",
+  ]);
+  const unsupportedKeys = [...new Set(url.searchParams.keys())].filter(
+    (key) => !allowedKeys.has(key),
+  );
+  if (unsupportedKeys.length > 0) {
+    throw new HttpError(
+      400,
+      "INVALID_QUERY",
+      `Invalid query: unsupported parameters (${unsupportedKeys.join(", ")})`,
+    );
+  }
+
+  const format = url.searchParams.get("format") ?? "zip";
+  if (format !== "zip" && format !== "tar.gz") {
+    throw new HttpError(
+      400,
+      "INVALID_QUERY",
+      'Invalid query: "format" must be "zip" or "tar.gz"',
+    );
+  }
+
+  const version = url.searchParams.get("version");
+  if (version !== null && !/^[0-9a-fA-F]{4,64}$/.test(version)) {
+    throw new HttpError(
+      400,
+      "INVALID_QUERY",
+      'Invalid query: "version" must be a commit hash',
+    );
+  }
+
+  const parseFlag = (key: "includeGit" | "includeChats") => {
+    const value = url.searchParams.get(key);
+    if (value !== null && value !== "true" && value !== "false") {
+      throw new HttpError(
+        400,
+        "INVALID_QUERY",
+        `Invalid query: "${key}" must be "true" or "false"`,
+      );
+    }
+    return value === "true";
+  };
+
+  return {
+    format,
+    ...(version === null ? {} : { version }),
+    includeGit: parseFlag("includeGit"),
+    includeChats: parseFlag("includeChats"),
+  };
+}
+
+function parseProposalActionPayload(
+  body: unknown,
+  extraKeys: string[] = [],
+): {
   messageId: number;
 } {
   const payload = parseRecordBody(body);
-  const allowedKeys = new Set(["messageId"]);
+  const allowedKeys = new Set(["messageId", ...extraKeys]);
   const unsupportedKeys = Object.keys(payload).filter(
     (key) => !allowedKeys.has(key),
   );
@@ -135,6 +333,39 @@ function parseProposalActionPayload(body: unknown): {
   return { messageId: payload.messageId };
 }
 
+function parseApproveProposalPayload(body: unknown): {
+  messageId: number;
+  actionIds?: string[];
+  paths?: string[];
+} {
+  const { messageId } = parseProposalActionPayload(body, [
+    "actionIds",
+    "paths",
+  ]);
+  const payload = parseRecordBody(body);
+  const selection: { actionIds?: string[]; paths?: string[] } = {};
+
+  for (const key of ["actionIds", "paths"] as const) {
+    if (!(key in payload)) {
+      continue;
+    }
+    const value = payload[key];
+    if (
+      !Array.isArray(value) ||
+      value.some((item) => typeof item !== "string" || !item.trim())
+    ) {
+      throw new HttpError(
+        400,
+        "INVALID_PAYLOAD",
+        `Invalid payload: "${key}" must be an array of non-empty strings`,
+      );
+    }
+    selection[key] = value;
+  }
+
+  return { messageId, ...selection };
+}
+
 function parseCheckoutVersionPayload(body: unknown): {
   versionId: string;
 } {
@@ -163,6 +394,174 @@ function parseCheckoutVersionPayload(body: unknown): {
   return { versionId: payload.versionId };
 }
 
+function parseGitRemotePayload(body: unknown): {
+  remoteUrl: string;
+  accessToken?: string | null;
+} {
+  const payload = parseRecordBody(body);
+  const allowedKeys = new Set(["remoteUrl", "accessToken"]);
+  const unsupportedKeys = Object.keys(payload).filter(
+    (key) => !allowedKeys.has(key),
+  );
+
+  if (unsupportedKeys.length > 0) {
+    throw new HttpError(
+      400,
+      "INVALID_PAYLOAD",
+      `Invalid payload: unsupported keys (${unsupportedKeys.join(", ")})`,
+    );
+  }
+
+  if (
+    typeof payload.remoteUrl !== "string" ||
+    payload.remoteUrl.trim().length === 0
+  ) {
+    throw new HttpError(
+      400,
+      "INVALID_PAYLOAD",
+      'Invalid payload: "remoteUrl" must be a non-empty string',
+    );
+  }
+
+  if (!("accessToken" in payload)) {
+    return { remoteUrl: payload.remoteUrl };
+  }
+  if (
+    payload.accessToken !== null &&
+    (typeof payload.accessToken !== "string" ||
+      payload.accessToken.length === 0)
+  ) {
+    throw new HttpError(
+      400,
+      "INVALID_PAYLOAD",
+      'Invalid payload: "accessToken" must be a non-empty string or null',
+    );
+  }
+  return { remoteUrl: payload.remoteUrl, accessToken: payload.accessToken };
+}
+
+function parseGitSyncPayload(
+  body: unknown,
+  options: { allowForce: boolean },
+): { branch?: string; force?: boolean } {
+  const payload = parseRecordBody(body);
+  const allowedKeys = new Set(
+    options.allowForce ? ["branch", "force"] : ["branch"],
+  );
+  const unsupportedKeys = Object.keys(payload).filter(
+    (key) => !allowedKeys.has(key),
+  );
+
+  if (unsupportedKeys.length > 0) {
+    throw new HttpError(
+      400,
+      "INVALID_PAYLOAD",
+      `Invalid payload: unsupported keys (${unsupportedKeys.join(", ")})`,
+    );
+  }
+
+  if (
+    "branch" in payload &&
+    (typeof payload.branch !== "string" || payload.branch.trim().length === 0)
+  ) {
+    throw new HttpError(
+      400,
+      "INVALID_PAYLOAD",
+      'Invalid payload: "branch" must be a non-empty string',
+    );
+  }
+  if ("force" in payload && typeof payload.force !== "boolean") {
+    throw new HttpError(
+      400,
+      "INVALID_PAYLOAD",
+      'Invalid payload: "force" must be a boolean',
+    );
+  }
+
+  return {
+    ...(typeof payload.branch === "string"
+      ? { branch: payload.branch.trim() }
+      : {}),
+    ...(typeof payload.force === "boolean" ? { force: payload.force } : {}),
+  };
+}
+
+function parseCreateGitBranchPayload(body: unknown): {
+  name: string;
+  from?: string;
+  checkout?: boolean;
+} {
+  const payload = parseRecordBody(body);
+  const allowedKeys = new Set(["name", "from", "checkout"]);
+  const unsupportedKeys = Object.keys(payload).filter(
+    (key) => !allowedKeys.has(key),
+  );
+
+  if (unsupportedKeys.length > 0) {
+    throw new HttpError(
+      400,
+      "INVALID_PAYLOAD",
+      `Invalid payload: unsupported keys (${unsupportedKeys.join(", ")})`,
+    );
+  }
+
+  const { name } = parseGitBranchNamePayload({ name: payload.name }, "name");
+  if (
+    "from" in payload &&
+    (typeof payload.from !== "string" || payload.from.trim().length === 0)
+  ) {
+    throw new HttpError(
+      400,
+      "INVALID_PAYLOAD",
+      'Invalid payload: "from" must be a non-empty string',
+    );
+  }
+  if ("checkout" in payload && typeof payload.checkout !== "boolean") {
+    throw new HttpError(
+      400,
+      "INVALID_PAYLOAD",
+      'Invalid payload: "checkout" must be a boolean',
+    );
+  }
+
+  return {
+    name,
+    ...(typeof payload.from === "string" ? { from: payload.from.trim() } : {}),
+    ...(typeof payload.checkout === "boolean"
+      ? { checkout: payload.checkout }
+      : {}),
+  };
+}
+
+function parseGitBranchNamePayload<K extends "name" | "branch">(
+  body: unknown,
+  key: K,
+): Record<K, string> {
+  const payload = parseRecordBody(body);
+  const unsupportedKeys = Object.keys(payload).filter(
+    (payloadKey) => payloadKey !== key,
+  );
+
+  if (unsupportedKeys.length > 0) {
+    throw new HttpError(
+      400,
+      "INVALID_PAYLOAD",
+      `Invalid payload: unsupported keys (${unsupportedKeys.join(", ")})`,
+    );
+  }
+
+  const value = payload[key];
+  if (typeof value !== "string" || value.trim().length === 0) {
+    throw new HttpError(
+      400,
+      "INVALID_PAYLOAD",
+      `Invalid payload: "${key}" must be a non-empty string`,
+    );
+  }
+
+  return { [key]: value.trim() } as Record<K, string>;
+}
+
 function parseRevertVersionPayload(body: unknown): {
   previousVersionId: string;
   currentChatMessageId?: { chatId: number; messageId: number };
@@ -285,40 +684,18 @@ function parseUpdateChatPayload(body: unknown): {
   return typeof payload.title === "string" ? { title: payload.title } : {};
 }
 
-function parseCreateAppPayload(body: unknown): {
-  name: string;
-} {
-  const payload = parseRecordBody(body);
-  const allowedKeys = new Set(["name"]);
-  const unsupportedKeys = Object.keys(payload).filter(
-    (key) => !allowedKeys.has(key),
-  );
-
-  if (unsupportedKeys.length > 0) {
-    throw new HttpError(
-      400,
-      "INVALID_PAYLOAD",
-      `Invalid payload: unsupported keys (${unsupportedKeys.join(", ")})`,
-    );
-  }
-
-  if (typeof payload.name !== "string" || payload.name.trim().length === 0) {
-    throw new HttpError(
-      400,
-      "INVALID_PAYLOAD",
-      'Invalid payload: "name" must be a non-empty string',
-    );
-  }
-
-  return { name: payload.name };
-}
+const TOOL_CONSENT_DECISIONS = new Set([
+  "accept-once",
+  "accept-always",
+  "decline",
+]);
 
-function parsePatchAppPayload(body: unknown): {
-  name?: string;
-  isFavorite?: boolean;
+function parseToolConsentPayload(body: unknown): {
+  requestId: string;
+  decision: "accept-once" | "accept-always" | "decline";
 } {
   const payload = parseRecordBody(body);
-  const allowedKeys = new Set(["name", "isFavorite"]);
+  const allowedKeys = new Set(["requestId", "decision"]);
   const unsupportedKeys = Object.keys(payload).filter(
     (key) => !allowedKeys.has(key),
   );
@@ -331,38 +708,47 @@ function parsePatchAppPayload(body: unknown): {
     );
   }
 
-  if ("name" in payload && typeof payload.name !== "string") {
+  if (
+    typeof payload.requestId !== "string" ||
+    payload.requestId.trim().length === 0
+  ) {
     throw new HttpError(
       400,
       "INVALID_PAYLOAD",
-      'Invalid payload: "name" must be a string',
+      'Invalid payload: "requestId" must be a non-empty string',
     );
   }
 
-  if ("isFavorite" in payload && typeof payload.isFavorite !== "boolean") {
+  if (
+    typeof payload.decision !== "string" ||
+    !TOOL_CONSENT_DECISIONS.has(payload.decision)
+  ) {
     throw new HttpError(
       400,
       "INVALID_PAYLOAD",
-      'Invalid payload: "isFavorite" must be a boolean',
+      'Invalid payload: "decision" must be one of accept-once, accept-always, decline',
     );
   }
 
-  const normalized: { name?: string; isFavorite?: boolean } = {};
-  if (typeof payload.name === "string") {
-    normalized.name = payload.name;
-  }
-  if (typeof payload.isFavorite === "boolean") {
-    normalized.isFavorite = payload.isFavorite;
-  }
-  return normalized;
+  return {
+    requestId: payload.requestId,
+    decision: payload.decision as "accept-once" | "accept-always" | "decline",
+  };
 }
 
-function parseCreateOrgPayload(body: unknown): {
-  name?: string;
-  slug?: string;
+const AGENT_TOOL_CONSENTS = new Set(["ask", "always", "never"]);
+
+function parseAgentToolConsentPolicyPayload(
+  body: unknown,
+  options: { allowLocked: boolean },
+): {
+  consent: "ask" | "always" | "never" | null;
+  locked?: boolean;
 } {
   const payload = parseRecordBody(body);
-  const allowedKeys = new Set(["name", "slug"]);
+  const allowedKeys = new Set(
+    options.allowLocked ? ["consent", "locked"] : ["consent"],
+  );
   const unsupportedKeys = Object.keys(payload).filter(
     (key) => !allowedKeys.has(key),
   );
@@ -375,33 +761,287 @@ function parseCreateOrgPayload(body: unknown): {
     );
   }
 
-  if ("name" in payload && typeof payload.name !== "string") {
+  if (
+    payload.consent !== null &&
+    (typeof payload.consent !== "string" ||
+      !AGENT_TOOL_CONSENTS.has(payload.consent))
+  ) {
     throw new HttpError(
       400,
       "INVALID_PAYLOAD",
-      'Invalid payload: "name" must be a string',
+      'Invalid payload: "consent" must be one of ask, always, never or null',
     );
   }
 
-  if ("slug" in payload && typeof payload.slug !== "string") {
+  if (payload.locked !== undefined && typeof payload.locked !== "boolean") {
     throw new HttpError(
       400,
       "INVALID_PAYLOAD",
-      'Invalid payload: "slug" must be a string',
+      'Invalid payload: "locked" must be a boolean',
     );
   }
 
-  const normalized: { name?: string; slug?: string } = {};
-  if (typeof payload.name === "string") {
-    normalized.name = payload.name;
-  }
-  if (typeof payload.slug === "string") {
-    normalized.slug = payload.slug;
-  }
-  return normalized;
+  return {
+    consent: payload.consent as "ask" | "always" | "never" | null,
+    ...(typeof payload.locked === "boolean" ? { locked: payload.locked } : {}),
+  };
 }
 
-function parsePatchOrgPayload(body: unknown): {
+function parseCreateAppPayload(body: unknown): {
+  name: string;
+} {
+  const payload = parseRecordBody(body);
+  const allowedKeys = new Set(["name"]);
+  const unsupportedKeys = Object.keys(payload).filter(
+    (key) => !allowedKeys.has(key),
+  );
+
+  if (unsupportedKeys.length > 0) {
+    throw new HttpError(
+      400,
+      "INVALID_PAYLOAD",
+      `Invalid payload: unsupported keys (${unsupportedKeys.join(", ")})`,
+    );
+  }
+
+  if (typeof payload.name !== "string" || payload.name.trim().length === 0) {
+    throw new HttpError(
+      400,
+      "INVALID_PAYLOAD",
+      'Invalid payload: "name" must be a non-empty string',
+    );
+  }
+
+  return { name: payload.name };
+}
+
+const IMPORT_ARCHIVE_FORMATS = new Set(["zip", "tar.gz"]);
+
+function parseOptionalStringField(
+  payload: Record<string, unknown>,
+  key: string,
+): string | undefined {
+  if (!(key in payload)) {
+    return undefined;
+  }
+  const value = payload[key];
+  if (typeof value !== "string" || value.trim().length === 0) {
+    throw new HttpError(
+      400,
+      "INVALID_PAYLOAD",
+      `Invalid payload: "${key}" must be a non-empty string`,
+    );
+  }
+  return value.trim();
+}
+
+function parseImportAppSource(value: unknown): AppImportSource {
+  const source = parseRecordBody(value);
+  if (source.type === "git") {
+    const allowedKeys = new Set(["type", "url", "ref", "accessToken"]);
+    const unsupportedKeys = Object.keys(source).filter(
+      (key) => !allowedKeys.has(key),
+    );
+    if (unsupportedKeys.length > 0) {
+      throw new HttpError(
+        400,
+        "INVALID_PAYLOAD",
+        `Invalid payload: unsupported source keys (${unsupportedKeys.join(", ")})`,
+      );
+    }
+    const url = parseOptionalStringField(source, "url");
+    if (!url) {
+      throw new HttpError(
+        400,
+        "INVALID_PAYLOAD",
+        'Invalid payload: "url" must be a non-empty string',
+      );
+    }
+    const ref = parseOptionalStringField(source, "ref");
+    const accessToken = parseOptionalStringField(source, "accessToken");
+    return {
+      type: "git",
+      url,
+      ...(ref ? { ref } : {}),
+      ...(accessToken ? { accessToken } : {}),
+    };
+  }
+
+  if (source.type === "archive") {
+    const allowedKeys = new Set(["type", "format", "data"]);
+    const unsupportedKeys = Object.keys(source).filter(
+      (key) => !allowedKeys.has(key),
+    );
+    if (unsupportedKeys.length > 0) {
+      throw new HttpError(
+        400,
+        "INVALID_PAYLOAD",
+        `Invalid payload: unsupported source keys (${unsupportedKeys.join(", ")})`,
+      );
+    }
+    if (
+      typeof source.format !== "string" ||
+      !IMPORT_ARCHIVE_FORMATS.has(source.format)
+    ) {
+      throw new HttpError(
+        400,
+        "INVALID_PAYLOAD",
+        'Invalid payload: "format" must be "zip" or "tar.gz"',
+      );
+    }
+    if (typeof source.data !== "string" || source.data.length === 0) {
+      throw new HttpError(
+        400,
+        "INVALID_PAYLOAD",
+        'Invalid payload: "data" must be a base64 encoded archive',
+      );
+    }
+    return {
+      type: "archive",
+      format: source.format as "zip" | "tar.gz",
+      data: source.data,
+    };
+  }
+
+  throw new HttpError(
+    400,
+    "INVALID_PAYLOAD",
+    'Invalid payload: "source.type" must be "git" or "archive"',
+  );
+}
+
+function parseImportAppPayload(body: unknown): {
+  name: string;
+  source: AppImportSource;
+  installCommand?: string;
+  startCommand?: string;
+} {
+  const payload = parseRecordBody(body);
+  const allowedKeys = new Set([
+    "name",
+    "source",
+    "installCommand",
+    "startCommand",
+  ]);
+  const unsupportedKeys = Object.keys(payload).filter(
+    (key) => !allowedKeys.has(key),
+  );
+
+  if (unsupportedKeys.length > 0) {
+    throw new HttpError(
+      400,
+      "INVALID_PAYLOAD",
+      `Invalid payload: unsupported keys (${unsupportedKeys.join(", ")})`,
+    );
+  }
+
+  const { name } = parseCreateAppPayload({ name: payload.name });
+  const installCommand = parseOptionalStringField(payload, "installCommand");
+  const startCommand = parseOptionalStringField(payload, "startCommand");
+  if (Boolean(installCommand) !== Boolean(startCommand)) {
+    throw new HttpError(
+      400,
+      "INVALID_PAYLOAD",
+      'Invalid payload: "installCommand" and "startCommand" must be set together',
+    );
+  }
+
+  return {
+    name: name.trim(),
+    source: parseImportAppSource(payload.source),
+    ...(installCommand && startCommand ? { installCommand, startCommand } : {}),
+  };
+}
+
+function parsePatchAppPayload(body: unknown): {
+  name?: string;
+  isFavorite?: boolean;
+} {
+  const payload = parseRecordBody(body);
+  const allowedKeys = new Set(["name", "isFavorite"]);
+  const unsupportedKeys = Object.keys(payload).filter(
+    (key) => !allowedKeys.has(key),
+  );
+
+  if (unsupportedKeys.length > 0) {
+    throw new HttpError(
+      400,
+      "INVALID_PAYLOAD",
+      `Invalid payload: unsupported keys (${unsupportedKeys.join(", ")})`,
+    );
+  }
+
+  if ("name" in payload && typeof payload.name !== "string") {
+    throw new HttpError(
+      400,
+      "INVALID_PAYLOAD",
+      'Invalid payload: "name" must be a string',
+    );
+  }
+
+  if ("isFavorite" in payload && typeof payload.isFavorite !== "boolean") {
+    throw new HttpError(
+      400,
+      "INVALID_PAYLOAD",
+      'Invalid payload: "isFavorite" must be a boolean',
+    );
+  }
+
+  const normalized: { name?: string; isFavorite?: boolean } = {};
+  if (typeof payload.name === "string") {
+    normalized.name = payload.name;
+  }
+  if (typeof payload.isFavorite === "boolean") {
+    normalized.isFavorite = payload.isFavorite;
+  }
+  return normalized;
+}
+
+function parseCreateOrgPayload(body: unknown): {
+  name?: string;
+  slug?: string;
+} {
+  const payload = parseRecordBody(body);
+  const allowedKeys = new Set(["name", "slug"]);
+  const unsupportedKeys = Object.keys(payload).filter(
+    (key) => !allowedKeys.has(key),
+  );
+
+  if (unsupportedKeys.length > 0) {
+    throw new HttpError(
+      400,
+      "INVALID_PAYLOAD",
+      `Invalid payload: unsupported keys (${unsupportedKeys.join(", ")})`,
+    );
+  }
+
+  if ("name" in payload && typeof payload.name !== "string") {
+    throw new HttpError(
+      400,
+      "INVALID_PAYLOAD",
+      'Invalid payload: "name" must be a string',
+    );
+  }
+
+  if ("slug" in payload && typeof payload.slug !== "string") {
+    throw new HttpError(
+      400,
+      "INVALID_PAYLOAD",
+      'Invalid payload: "slug" must be a string',
+    );
+  }
+
+  const normalized: { name?: string; slug?: string } = {};
+  if (typeof payload.name === "string") {
+    normalized.name = payload.name;
+  }
+  if (typeof payload.slug === "string") {
+    normalized.slug = payload.slug;
+  }
+  return normalized;
+}
+
+function parsePatchOrgPayload(body: unknown): {
   name: string;
 } {
   const payload = parseRecordBody(body);
@@ -536,125 +1176,1851 @@ function parsePatchWorkspacePayload(body: unknown): {
   return normalized;
 }
 
-const SCOPED_ROUTES: RouteDefinition[] = [
-  {
-    method: "GET",
-    pattern: /^\/api\/v1\/orgs$/,
-    build: () => ({
-      channel: "list-orgs",
-      args: [],
-      requiresAuth: true,
-    }),
-  },
-  {
-    method: "POST",
-    pattern: /^\/api\/v1\/orgs$/,
-    build: (_url, _match, body) => {
-      const payload = parseCreateOrgPayload(body);
-      return {
-        channel: "create-org",
-        args: [payload],
-        requiresAuth: true,
-      };
-    },
-  },
-  {
-    method: "GET",
-    pattern: /^\/api\/v1\/orgs\/([^/]+)$/,
-    build: (_url, match) => ({
-      channel: "get-org",
-      args: [],
-      tenantPath: { orgId: match[1] },
-      requiresAuth: true,
-    }),
-  },
-  {
-    method: "PATCH",
-    pattern: /^\/api\/v1\/orgs\/([^/]+)$/,
-    build: (_url, match, body) => {
-      const payload = parsePatchOrgPayload(body);
+const MEMBERSHIP_ROLES = ["owner", "admin", "member", "viewer"] as const;
+type MembershipRole = (typeof MEMBERSHIP_ROLES)[number];
+
+function isMembershipRole(value: unknown): value is MembershipRole {
+  return (
+    typeof value === "string" &&
+    (MEMBERSHIP_ROLES as readonly string[]).includes(value)
+  );
+}
+
+function parseInviteMemberPayload(body: unknown): {
+  email: string;
+  role: MembershipRole;
+} {
+  const payload = parseRecordBody(body);
+  const allowedKeys = new Set(["email", "role"]);
+  const unsupportedKeys = Object.keys(payload).filter(
+    (key) => !allowedKeys.has(key),
+  );
+
+  if (unsupportedKeys.length > 0) {
+    throw new HttpError(
+      400,
+      "INVALID_PAYLOAD",
+      `Invalid payload: unsupported keys (${unsupportedKeys.join(", ")})`,
+    );
+  }
+
+  if (
+    typeof payload.email !== "string" ||
+    !/^[^\s@]+@[^\s@]+$/.test(payload.email.trim())
+  ) {
+    throw new HttpError(
+      400,
+      "INVALID_PAYLOAD",
+      'Invalid payload: "email" must be a valid email address',
+    );
+  }
+
+  if ("role" in payload && !isMembershipRole(payload.role)) {
+    throw new HttpError(
+      400,
+      "INVALID_PAYLOAD",
+      `Invalid payload: "role" must be one of ${MEMBERSHIP_ROLES.join(", ")}`,
+    );
+  }
+
+  return {
+    email: payload.email.trim(),
+    role: isMembershipRole(payload.role) ? payload.role : "member",
+  };
+}
+
+function parseUpdateMemberPayload(body: unknown): {
+  role: MembershipRole;
+} {
+  const payload = parseRecordBody(body);
+  const allowedKeys = new Set(["role"]);
+  const unsupportedKeys = Object.keys(payload).filter(
+    (key) => !allowedKeys.has(key),
+  );
+
+  if (unsupportedKeys.length > 0) {
+    throw new HttpError(
+      400,
+      "INVALID_PAYLOAD",
+      `Invalid payload: unsupported keys (${unsupportedKeys.join(", ")})`,
+    );
+  }
+
+  if (!isMembershipRole(payload.role)) {
+    throw new HttpError(
+      400,
+      "INVALID_PAYLOAD",
+      `Invalid payload: "role" must be one of ${MEMBERSHIP_ROLES.join(", ")}`,
+    );
+  }
+
+  return { role: payload.role };
+}
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const AUDIT_EXPORT_FORMATS = ["csv", "jsonl"] as const;
+
+function parseQueryDate(
+  value: string | null,
+  key: "from" | "to",
+): Date | undefined {
+  if (value === null) {
+    return undefined;
+  }
+  const date = new Date(value);
+  if (!value.trim() || Number.isNaN(date.getTime())) {
+    throw new HttpError(
+      400,
+      "INVALID_QUERY",
+      `Invalid query: "${key}" must be an ISO date`,
+    );
+  }
+  return date;
+}
+
+function parseAuditEventQuery(
+  url: URL,
+  options: { export: boolean },
+): {
+  filters: {
+    actorUserId?: string;
+    action?: string;
+    resourceType?: string;
+    from?: Date;
+    to?: Date;
+  };
+  cursor?: string;
+  limit?: number;
+  format?: (typeof AUDIT_EXPORT_FORMATS)[number];
+} {
+  const allowedKeys = new Set([
+    "actorUserId",
+    "action",
+    "resourceType",
+    "from",
+    "to",
+    "cursor",
+    ...(options.export ? ["format"] : ["limit"]),
+  ]);
+  const unsupportedKeys = [...new Set(url.searchParams.keys())].filter(
+    (key) => !allowedKeys.has(key),
+  );
+  if (unsupportedKeys.length > 0) {
+    throw new HttpError(
+      400,
+      "INVALID_QUERY",
+      `Invalid query: unsupported parameters (${unsupportedKeys.join(", ")})`,
+    );
+  }
+
+  const readText = (key: string) =>
+    url.searchParams.get(key)?.trim() || undefined;
+  const actorUserId = readText("actorUserId");
+  if (actorUserId && !UUID_PATTERN.test(actorUserId)) {
+    throw new HttpError(
+      400,
+      "INVALID_QUERY",
+      'Invalid query: "actorUserId" must be a UUID',
+    );
+  }
+  const from = parseQueryDate(url.searchParams.get("from"), "from");
+  const to = parseQueryDate(url.searchParams.get("to"), "to");
+  if (from && to && from > to) {
+    throw new HttpError(
+      400,
+      "INVALID_QUERY",
+      'Invalid query: "from" must not be later than "to"',
+    );
+  }
+
+  const result: ReturnType<typeof parseAuditEventQuery> = {
+    filters: {
+      actorUserId: actorUserId?.toLowerCase(),
+      action: readText("action"),
+      resourceType: readText("resourceType"),
+      from,
+      to,
+    },
+  };
+
+  result.cursor = readText("cursor");
+  if (options.export) {
+    const format = readText("format") ?? "csv";
+    if (!AUDIT_EXPORT_FORMATS.includes(format as "csv")) {
+      throw new HttpError(
+        400,
+        "INVALID_QUERY",
+        `Invalid query: "format" must be one of ${AUDIT_EXPORT_FORMATS.join(", ")}`,
+      );
+    }
+    result.format = format as (typeof AUDIT_EXPORT_FORMATS)[number];
+    return result;
+  }
+
+  const rawLimit = readText("limit");
+  if (rawLimit !== undefined) {
+    const limit = parseNumber(rawLimit);
+    if (
+      limit === null ||
+      !Number.isInteger(limit) ||
+      limit < 1 ||
+      limit > AUDIT_EVENTS_MAX_PAGE_SIZE
+    ) {
+      throw new HttpError(
+        400,
+        "INVALID_QUERY",
+        `Invalid query: "limit" must be an integer between 1 and ${AUDIT_EVENTS_MAX_PAGE_SIZE}`,
+      );
+    }
+    result.limit = limit;
+  }
+  return result;
+}
+
+const MAX_QUOTA_LIMIT = 2_147_483_647;
+
+function parseQuotaLimitsPayload<Key extends string>(
+  body: unknown,
+  keys: readonly Key[],
+): Partial<Record<Key, number>> {
+  const payload = parseRecordBody(body);
+  const allowedKeys = new Set<string>(keys);
+  const unsupportedKeys = Object.keys(payload).filter(
+    (key) => !allowedKeys.has(key),
+  );
+
+  if (unsupportedKeys.length > 0) {
+    throw new HttpError(
+      400,
+      "INVALID_PAYLOAD",
+      `Invalid payload: unsupported keys (${unsupportedKeys.join(", ")})`,
+    );
+  }
+
+  const limits: Partial<Record<Key, number>> = {};
+  for (const key of keys) {
+    if (!(key in payload)) {
+      continue;
+    }
+    const value = payload[key];
+    if (
+      typeof value !== "number" ||
+      !Number.isInteger(value) ||
+      value < 0 ||
+      value > MAX_QUOTA_LIMIT
+    ) {
+      throw new HttpError(
+        400,
+        "INVALID_PAYLOAD",
+        `Invalid payload: "${key}" must be a non-negative integer`,
+      );
+    }
+    limits[key] = value;
+  }
+
+  if (Object.keys(limits).length === 0) {
+    throw new HttpError(
+      400,
+      "INVALID_PAYLOAD",
+      `Invalid payload: expected at least one of ${keys.join(", ")}`,
+    );
+  }
+  return limits;
+}
+
+const ORGANIZATION_HARD_LIMIT_KEYS = [
+  "requestsPerDayHardLimit",
+  "tokensPerDayHardLimit",
+  "concurrentPreviewJobsHardLimit",
+] as const;
+
+const ORGANIZATION_BUDGET_KEYS = [
+  "monthlyBudgetMicroUsd",
+  "budgetWarningThresholdPercent",
+  "budgetExhaustedAction",
+  "budgetDowngradeModel",
+] as const;
+
+function parseBudgetDowngradeModel(
+  value: unknown,
+): { provider: string; name: string } | null {
+  if (value === null) {
+    return null;
+  }
+  if (
+    !value ||
+    typeof value !== "object" ||
+    Array.isArray(value) ||
+    Object.keys(value).some((key) => key !== "provider" && key !== "name")
+  ) {
+    throw new HttpError(
+      400,
+      "INVALID_PAYLOAD",
+      'Invalid payload: "budgetDowngradeModel" must be null or { provider, name }',
+    );
+  }
+  const { provider, name } = value as Record<string, unknown>;
+  if (
+    typeof provider !== "string" ||
+    !provider.trim() ||
+    typeof name !== "string" ||
+    !name.trim()
+  ) {
+    throw new HttpError(
+      400,
+      "INVALID_PAYLOAD",
+      'Invalid payload: "budgetDowngradeModel" must be null or { provider, name }',
+    );
+  }
+  return { provider: provider.trim(), name: name.trim() };
+}
+
+function parseOrganizationQuotaPayload(body: unknown) {
+  const payload = parseRecordBody(body);
+  const budgetKeys = new Set<string>(ORGANIZATION_BUDGET_KEYS);
+  const hardLimitPayload = Object.fromEntries(
+    Object.entries(payload).filter(([key]) => !budgetKeys.has(key)),
+  );
+  const budget: {
+    monthlyBudgetMicroUsd?: number | null;
+    budgetWarningThresholdPercent?: number;
+    budgetExhaustedAction?: "block" | "downgrade";
+    budgetDowngradeModel?: { provider: string; name: string } | null;
+  } = {};
+
+  if ("monthlyBudgetMicroUsd" in payload) {
+    const value = payload.monthlyBudgetMicroUsd;
+    if (
+      value !== null &&
+      (typeof value !== "number" || !Number.isSafeInteger(value) || value < 0)
+    ) {
+      throw new HttpError(
+        400,
+        "INVALID_PAYLOAD",
+        'Invalid payload: "monthlyBudgetMicroUsd" must be null or a non-negative integer',
+      );
+    }
+    budget.monthlyBudgetMicroUsd = value;
+  }
+  if ("budgetWarningThresholdPercent" in payload) {
+    const value = payload.budgetWarningThresholdPercent;
+    if (
+      typeof value !== "number" ||
+      !Number.isInteger(value) ||
+      value < 1 ||
+      value > 100
+    ) {
+      throw new HttpError(
+        400,
+        "INVALID_PAYLOAD",
+        'Invalid payload: "budgetWarningThresholdPercent" must be an integer from 1 to 100',
+      );
+    }
+    budget.budgetWarningThresholdPercent = value;
+  }
+  if ("budgetExhaustedAction" in payload) {
+    const value = payload.budgetExhaustedAction;
+    if (value !== "block" && value !== "downgrade") {
+      throw new HttpError(
+        400,
+        "INVALID_PAYLOAD",
+        'Invalid payload: "budgetExhaustedAction" must be "block" or "downgrade"',
+      );
+    }
+    budget.budgetExhaustedAction = value;
+  }
+  if ("budgetDowngradeModel" in payload) {
+    budget.budgetDowngradeModel = parseBudgetDowngradeModel(
+      payload.budgetDowngradeModel,
+    );
+  }
+
+  if (Object.keys(budget).length === 0) {
+    return parseQuotaLimitsPayload(
+      hardLimitPayload,
+      ORGANIZATION_HARD_LIMIT_KEYS,
+    );
+  }
+  const limits =
+    Object.keys(hardLimitPayload).length > 0
+      ? parseQuotaLimitsPayload(hardLimitPayload, ORGANIZATION_HARD_LIMIT_KEYS)
+      : {};
+  return { ...limits, ...budget };
+}
+
+function parseUsageReportQuery(url: URL): {
+  from?: Date;
+  to?: Date;
+  workspaceId?: string;
+} {
+  const allowedKeys = new Set(["from", "to", "workspaceId"]);
+  const unsupportedKeys = [...new Set(url.searchParams.keys())].filter(
+    (key) => !allowedKeys.has(key),
+  );
+  if (unsupportedKeys.length > 0) {
+    throw new HttpError(
+      400,
+      "INVALID_QUERY",
+      `Invalid query: unsupported parameters (${unsupportedKeys.join(", ")})`,
+    );
+  }
+
+  const workspaceId = url.searchParams.get("workspaceId")?.trim() || undefined;
+  if (workspaceId && !UUID_PATTERN.test(workspaceId)) {
+    throw new HttpError(
+      400,
+      "INVALID_QUERY",
+      'Invalid query: "workspaceId" must be a UUID',
+    );
+  }
+  return {
+    from: parseQueryDate(url.searchParams.get("from"), "from"),
+    to: parseQueryDate(url.searchParams.get("to"), "to"),
+    workspaceId: workspaceId?.toLowerCase(),
+  };
+}
+
+function parseAuthSessionPayload(body: unknown): { sessionToken: string } {
+  const payload = parseRecordBody(body);
+  const allowedKeys = new Set(["sessionToken"]);
+  const unsupportedKeys = Object.keys(payload).filter(
+    (key) => !allowedKeys.has(key),
+  );
+
+  if (unsupportedKeys.length > 0) {
+    throw new HttpError(
+      400,
+      "INVALID_PAYLOAD",
+      `Invalid payload: unsupported keys (${unsupportedKeys.join(", ")})`,
+    );
+  }
+
+  if (
+    typeof payload.sessionToken !== "string" ||
+    !payload.sessionToken.trim()
+  ) {
+    throw new HttpError(
+      400,
+      "INVALID_PAYLOAD",
+      'Invalid payload: "sessionToken" must be a non-empty string',
+    );
+  }
+
+  return { sessionToken: payload.sessionToken.trim() };
+}
+
+function parsePathSegment(value: string | undefined): string | null {
+  if (!value) {
+    return null;
+  }
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return null;
+  }
+}
+
+function parseModelProviderPayload(
+  body: unknown,
+  options: { partial: boolean },
+): {
+  name?: string;
+  apiBaseUrl?: string;
+  trustSelfSigned?: boolean;
+  apiKey?: string | null;
+} {
+  const payload = parseRecordBody(body);
+  // Server env values must never reach a workspace provider: they would be
+  // sent to the admin-chosen base URL and returned by `get-env-vars`.
+  if ("envVarName" in payload) {
+    throw new HttpError(
+      400,
+      "INVALID_PAYLOAD",
+      'Invalid payload: "envVarName" is not supported, store the key as "apiKey"',
+    );
+  }
+  const allowedKeys = new Set([
+    "name",
+    "apiBaseUrl",
+    "trustSelfSigned",
+    "apiKey",
+  ]);
+  const unsupportedKeys = Object.keys(payload).filter(
+    (key) => !allowedKeys.has(key),
+  );
+
+  if (unsupportedKeys.length > 0) {
+    throw new HttpError(
+      400,
+      "INVALID_PAYLOAD",
+      `Invalid payload: unsupported keys (${unsupportedKeys.join(", ")})`,
+    );
+  }
+
+  for (const key of ["name", "apiBaseUrl"] as const) {
+    if (!options.partial || key in payload) {
+      const value = payload[key];
+      if (typeof value !== "string" || value.trim().length === 0) {
+        throw new HttpError(
+          400,
+          "INVALID_PAYLOAD",
+          `Invalid payload: "${key}" must be a non-empty string`,
+        );
+      }
+    }
+  }
+
+  if (typeof payload.apiBaseUrl === "string") {
+    let protocol = "";
+    try {
+      protocol = new URL(payload.apiBaseUrl.trim()).protocol;
+    } catch {
+      protocol = "";
+    }
+    if (protocol !== "http:" && protocol !== "https:") {
+      throw new HttpError(
+        400,
+        "INVALID_PAYLOAD",
+        'Invalid payload: "apiBaseUrl" must be an http(s) URL',
+      );
+    }
+  }
+
+  if (
+    "apiKey" in payload &&
+    payload.apiKey !== null &&
+    typeof payload.apiKey !== "string"
+  ) {
+    throw new HttpError(
+      400,
+      "INVALID_PAYLOAD",
+      'Invalid payload: "apiKey" must be a string or null',
+    );
+  }
+
+  if (
+    "trustSelfSigned" in payload &&
+    typeof payload.trustSelfSigned !== "boolean"
+  ) {
+    throw new HttpError(
+      400,
+      "INVALID_PAYLOAD",
+      'Invalid payload: "trustSelfSigned" must be a boolean',
+    );
+  }
+
+  const normalized: {
+    name?: string;
+    apiBaseUrl?: string;
+    trustSelfSigned?: boolean;
+    apiKey?: string | null;
+  } = {};
+  if (typeof payload.name === "string") {
+    normalized.name = payload.name.trim();
+  }
+  if (typeof payload.apiBaseUrl === "string") {
+    normalized.apiBaseUrl = payload.apiBaseUrl.trim();
+  }
+  if (typeof payload.trustSelfSigned === "boolean") {
+    normalized.trustSelfSigned = payload.trustSelfSigned;
+  }
+  if ("apiKey" in payload) {
+    normalized.apiKey =
+      typeof payload.apiKey === "string" && payload.apiKey.length > 0
+        ? payload.apiKey
+        : null;
+  }
+  return normalized;
+}
+
+/** Prices are USD per million tokens. */
+const LANGUAGE_MODEL_PRICE_KEYS = [
+  "inputPricePerMillionTokens",
+  "outputPricePerMillionTokens",
+  "cachedInputPricePerMillionTokens",
+] as const;
+
+function parseLanguageModelPayload(
+  body: unknown,
+  options: { partial: boolean },
+): {
+  providerId?: string;
+  displayName?: string;
+  apiName?: string;
+  description?: string | null;
+  maxOutputTokens?: number | null;
+  contextWindow?: number | null;
+  inputPricePerMillionTokens?: number | null;
+  outputPricePerMillionTokens?: number | null;
+  cachedInputPricePerMillionTokens?: number | null;
+} {
+  const payload = parseRecordBody(body);
+  const allowedKeys = new Set<string>([
+    "displayName",
+    "apiName",
+    "description",
+    "maxOutputTokens",
+    "contextWindow",
+    ...LANGUAGE_MODEL_PRICE_KEYS,
+  ]);
+  // The provider of an existing model is fixed; recreate the model to move it.
+  if (!options.partial) {
+    allowedKeys.add("providerId");
+  }
+  const unsupportedKeys = Object.keys(payload).filter(
+    (key) => !allowedKeys.has(key),
+  );
+
+  if (unsupportedKeys.length > 0) {
+    throw new HttpError(
+      400,
+      "INVALID_PAYLOAD",
+      `Invalid payload: unsupported keys (${unsupportedKeys.join(", ")})`,
+    );
+  }
+
+  const requiredKeys = options.partial
+    ? (["displayName", "apiName"] as const).filter((key) => key in payload)
+    : (["providerId", "displayName", "apiName"] as const);
+  for (const key of requiredKeys) {
+    const value = payload[key];
+    if (typeof value !== "string" || value.trim().length === 0) {
+      throw new HttpError(
+        400,
+        "INVALID_PAYLOAD",
+        `Invalid payload: "${key}" must be a non-empty string`,
+      );
+    }
+  }
+
+  if (
+    "description" in payload &&
+    payload.description !== null &&
+    typeof payload.description !== "string"
+  ) {
+    throw new HttpError(
+      400,
+      "INVALID_PAYLOAD",
+      'Invalid payload: "description" must be a string or null',
+    );
+  }
+
+  for (const key of ["maxOutputTokens", "contextWindow"] as const) {
+    const value = payload[key];
+    if (
+      key in payload &&
+      value !== null &&
+      (typeof value !== "number" || !Number.isInteger(value) || value <= 0)
+    ) {
+      throw new HttpError(
+        400,
+        "INVALID_PAYLOAD",
+        `Invalid payload: "${key}" must be a positive integer or null`,
+      );
+    }
+  }
+
+  for (const key of LANGUAGE_MODEL_PRICE_KEYS) {
+    const value = payload[key];
+    if (
+      key in payload &&
+      value !== null &&
+      (typeof value !== "number" || !Number.isFinite(value) || value < 0)
+    ) {
+      throw new HttpError(
+        400,
+        "INVALID_PAYLOAD",
+        `Invalid payload: "${key}" must be a non-negative number or null`,
+      );
+    }
+  }
+
+  const normalized: {
+    providerId?: string;
+    displayName?: string;
+    apiName?: string;
+    description?: string | null;
+    maxOutputTokens?: number | null;
+    contextWindow?: number | null;
+    inputPricePerMillionTokens?: number | null;
+    outputPricePerMillionTokens?: number | null;
+    cachedInputPricePerMillionTokens?: number | null;
+  } = {};
+  if (typeof payload.providerId === "string") {
+    normalized.providerId = payload.providerId.trim();
+  }
+  if (typeof payload.displayName === "string") {
+    normalized.displayName = payload.displayName.trim();
+  }
+  if (typeof payload.apiName === "string") {
+    normalized.apiName = payload.apiName.trim();
+  }
+  if ("description" in payload) {
+    normalized.description = payload.description as string | null;
+  }
+  if ("maxOutputTokens" in payload) {
+    normalized.maxOutputTokens = payload.maxOutputTokens as number | null;
+  }
+  if ("contextWindow" in payload) {
+    normalized.contextWindow = payload.contextWindow as number | null;
+  }
+  for (const key of LANGUAGE_MODEL_PRICE_KEYS) {
+    if (key in payload) {
+      normalized[key] = payload[key] as number | null;
+    }
+  }
+  return normalized;
+}
+
+function parseWorkspaceModelDefaultsPayload(body: unknown): {
+  selectedModel: { provider: string; name: string } | null;
+} {
+  const payload = parseRecordBody(body);
+  const allowedKeys = new Set(["selectedModel"]);
+  const unsupportedKeys = Object.keys(payload).filter(
+    (key) => !allowedKeys.has(key),
+  );
+
+  if (unsupportedKeys.length > 0) {
+    throw new HttpError(
+      400,
+      "INVALID_PAYLOAD",
+      `Invalid payload: unsupported keys (${unsupportedKeys.join(", ")})`,
+    );
+  }
+
+  const selectedModel = payload.selectedModel;
+  if (selectedModel === null) {
+    return { selectedModel: null };
+  }
+  const model = parseRecordBody(selectedModel);
+  if (
+    typeof model.provider !== "string" ||
+    model.provider.trim().length === 0 ||
+    typeof model.name !== "string" ||
+    model.name.trim().length === 0
+  ) {
+    throw new HttpError(
+      400,
+      "INVALID_PAYLOAD",
+      'Invalid payload: "selectedModel" must be null or { provider, name }',
+    );
+  }
+
+  return {
+    selectedModel: { provider: model.provider.trim(), name: model.name.trim() },
+  };
+}
+
+const ENV_VAR_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+function parseMcpServerPayload(
+  body: unknown,
+  options: { partial: boolean },
+): {
+  name?: string;
+  transport?: "stdio" | "http";
+  command?: string | null;
+  args?: string[] | null;
+  env?: Record<string, string> | null;
+  url?: string | null;
+} {
+  const payload = parseRecordBody(body);
+  const allowedKeys = new Set([
+    "name",
+    "transport",
+    "command",
+    "args",
+    "env",
+    "url",
+  ]);
+  const unsupportedKeys = Object.keys(payload).filter(
+    (key) => !allowedKeys.has(key),
+  );
+
+  if (unsupportedKeys.length > 0) {
+    throw new HttpError(
+      400,
+      "INVALID_PAYLOAD",
+      `Invalid payload: unsupported keys (${unsupportedKeys.join(", ")})`,
+    );
+  }
+
+  if (!options.partial || "name" in payload) {
+    if (typeof payload.name !== "string" || payload.name.trim().length === 0) {
+      throw new HttpError(
+        400,
+        "INVALID_PAYLOAD",
+        'Invalid payload: "name" must be a non-empty string',
+      );
+    }
+  }
+
+  if (!options.partial || "transport" in payload) {
+    if (payload.transport !== "stdio" && payload.transport !== "http") {
+      throw new HttpError(
+        400,
+        "INVALID_PAYLOAD",
+        'Invalid payload: "transport" must be "stdio" or "http"',
+      );
+    }
+  }
+
+  for (const key of ["command", "url"] as const) {
+    if (
+      key in payload &&
+      payload[key] !== null &&
+      typeof payload[key] !== "string"
+    ) {
+      throw new HttpError(
+        400,
+        "INVALID_PAYLOAD",
+        `Invalid payload: "${key}" must be a string or null`,
+      );
+    }
+  }
+
+  if (typeof payload.url === "string" && payload.url.trim()) {
+    let protocol = "";
+    try {
+      protocol = new URL(payload.url.trim()).protocol;
+    } catch {
+      protocol = "";
+    }
+    if (protocol !== "http:" && protocol !== "https:") {
+      throw new HttpError(
+        400,
+        "INVALID_PAYLOAD",
+        'Invalid payload: "url" must be an http(s) URL',
+      );
+    }
+  }
+
+  if (
+    "args" in payload &&
+    payload.args !== null &&
+    (!Array.isArray(payload.args) ||
+      payload.args.some((arg) => typeof arg !== "string"))
+  ) {
+    throw new HttpError(
+      400,
+      "INVALID_PAYLOAD",
+      'Invalid payload: "args" must be an array of strings or null',
+    );
+  }
+
+  if ("env" in payload && payload.env !== null) {
+    const env = payload.env;
+    if (
+      typeof env !== "object" ||
+      Array.isArray(env) ||
+      Object.entries(env as Record<string, unknown>).some(
+        ([key, value]) =>
+          !ENV_VAR_NAME_PATTERN.test(key) || typeof value !== "string",
+      )
+    ) {
+      throw new HttpError(
+        400,
+        "INVALID_PAYLOAD",
+        'Invalid payload: "env" must map variable names to strings',
+      );
+    }
+  }
+
+  const normalized: {
+    name?: string;
+    transport?: "stdio" | "http";
+    command?: string | null;
+    args?: string[] | null;
+    env?: Record<string, string> | null;
+    url?: string | null;
+  } = {};
+  if (typeof payload.name === "string") {
+    normalized.name = payload.name.trim();
+  }
+  if (payload.transport === "stdio" || payload.transport === "http") {
+    normalized.transport = payload.transport;
+  }
+  for (const key of ["command", "url"] as const) {
+    if (key in payload) {
+      const value = payload[key];
+      normalized[key] =
+        typeof value === "string" && value.trim() ? value.trim() : null;
+    }
+  }
+  if ("args" in payload) {
+    normalized.args = payload.args as string[] | null;
+  }
+  if ("env" in payload) {
+    normalized.env = payload.env as Record<string, string> | null;
+  }
+  return normalized;
+}
+
+const SCOPED_ROUTES: RouteDefinition[] = [
+  {
+    method: "GET",
+    pattern: /^\/api\/v1\/orgs$/,
+    build: () => ({
+      channel: "list-orgs",
+      args: [],
+      requiresAuth: true,
+    }),
+  },
+  {
+    method: "POST",
+    pattern: /^\/api\/v1\/orgs$/,
+    build: (_url, _match, body) => {
+      const payload = parseCreateOrgPayload(body);
+      return {
+        channel: "create-org",
+        args: [payload],
+        requiresAuth: true,
+      };
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/api\/v1\/orgs\/([^/]+)$/,
+    build: (_url, match) => ({
+      channel: "get-org",
+      args: [],
+      tenantPath: { orgId: match[1] },
+      requiresAuth: true,
+    }),
+  },
+  {
+    method: "PATCH",
+    pattern: /^\/api\/v1\/orgs\/([^/]+)$/,
+    build: (_url, match, body) => {
+      const payload = parsePatchOrgPayload(body);
+      return {
+        channel: "patch-org",
+        args: [payload],
+        tenantPath: { orgId: match[1] },
+        requiresAuth: true,
+      };
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/api\/v1\/orgs\/([^/]+)\/members$/,
+    build: (_url, match) => ({
+      channel: "list-org-members",
+      args: [],
+      tenantPath: { orgId: match[1] },
+      requiresAuth: true,
+    }),
+  },
+  {
+    method: "POST",
+    pattern: /^\/api\/v1\/orgs\/([^/]+)\/members$/,
+    build: (_url, match, body) => {
+      const payload = parseInviteMemberPayload(body);
+      return {
+        channel: "invite-org-member",
+        args: [payload],
+        tenantPath: { orgId: match[1] },
+        requiresAuth: true,
+      };
+    },
+  },
+  {
+    method: "PATCH",
+    pattern: /^\/api\/v1\/orgs\/([^/]+)\/members\/(\d+)$/,
+    build: (_url, match, body) => {
+      const membershipId = parseNumber(match[2]);
+      if (membershipId == null) {
+        return null;
+      }
+      const payload = parseUpdateMemberPayload(body);
+      return {
+        channel: "update-org-member",
+        args: [membershipId, payload],
+        tenantPath: { orgId: match[1] },
+        requiresAuth: true,
+      };
+    },
+  },
+  {
+    method: "DELETE",
+    pattern: /^\/api\/v1\/orgs\/([^/]+)\/members\/(\d+)$/,
+    build: (_url, match) => {
+      const membershipId = parseNumber(match[2]);
+      if (membershipId == null) {
+        return null;
+      }
+      return {
+        channel: "remove-org-member",
+        args: [membershipId],
+        tenantPath: { orgId: match[1] },
+        requiresAuth: true,
+      };
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/api\/v1\/orgs\/([^/]+)\/members\/(\d+)\/sessions$/,
+    build: (_url, match) => {
+      const membershipId = parseNumber(match[2]);
+      if (membershipId == null) {
+        return null;
+      }
+      return {
+        channel: "list-org-member-sessions",
+        args: [membershipId],
+        tenantPath: { orgId: match[1] },
+        requiresAuth: true,
+      };
+    },
+  },
+  {
+    method: "DELETE",
+    pattern: /^\/api\/v1\/orgs\/([^/]+)\/members\/(\d+)\/sessions$/,
+    build: (_url, match) => {
+      const membershipId = parseNumber(match[2]);
+      if (membershipId == null) {
+        return null;
+      }
+      return {
+        channel: "revoke-org-member-sessions",
+        args: [membershipId],
+        tenantPath: { orgId: match[1] },
+        requiresAuth: true,
+      };
+    },
+  },
+  {
+    method: "DELETE",
+    pattern:
+      /^\/api\/v1\/orgs\/([^/]+)\/members\/(\d+)\/sessions\/([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})$/i,
+    build: (_url, match) => {
+      const membershipId = parseNumber(match[2]);
+      if (membershipId == null) {
+        return null;
+      }
+      return {
+        channel: "revoke-org-member-sessions",
+        args: [membershipId, match[3].toLowerCase()],
+        tenantPath: { orgId: match[1] },
+        requiresAuth: true,
+      };
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/api\/v1\/orgs\/([^/]+)\/audit-events$/,
+    build: (url, match) => ({
+      channel: "list-audit-events",
+      args: [parseAuditEventQuery(url, { export: false })],
+      tenantPath: { orgId: match[1] },
+      requiresAuth: true,
+    }),
+  },
+  {
+    method: "GET",
+    pattern: /^\/api\/v1\/orgs\/([^/]+)\/audit-events\/export$/,
+    build: (url, match) => ({
+      channel: "export-audit-events",
+      args: [parseAuditEventQuery(url, { export: true })],
+      tenantPath: { orgId: match[1] },
+      requiresAuth: true,
+    }),
+  },
+  {
+    method: "GET",
+    pattern: /^\/api\/v1\/orgs\/([^/]+)\/quotas$/,
+    build: (_url, match) => ({
+      channel: "get-org-quotas",
+      args: [],
+      tenantPath: { orgId: match[1] },
+      requiresAuth: true,
+    }),
+  },
+  {
+    method: "PATCH",
+    pattern: /^\/api\/v1\/orgs\/([^/]+)\/quotas$/,
+    build: (_url, match, body) => ({
+      channel: "update-org-quotas",
+      args: [parseOrganizationQuotaPayload(body)],
+      tenantPath: { orgId: match[1] },
+      requiresAuth: true,
+    }),
+  },
+  {
+    method: "GET",
+    pattern: /^\/api\/v1\/orgs\/([^/]+)\/quotas\/users$/,
+    build: (_url, match) => ({
+      channel: "list-user-soft-quotas",
+      args: [],
+      tenantPath: { orgId: match[1] },
+      requiresAuth: true,
+    }),
+  },
+  {
+    method: "PATCH",
+    pattern:
+      /^\/api\/v1\/orgs\/([^/]+)\/quotas\/users\/([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})$/i,
+    build: (_url, match, body) => ({
+      channel: "update-user-soft-quota",
+      args: [
+        match[2].toLowerCase(),
+        parseQuotaLimitsPayload(body, [
+          "requestsPerDaySoftLimit",
+          "tokensPerDaySoftLimit",
+        ]),
+      ],
+      tenantPath: { orgId: match[1] },
+      requiresAuth: true,
+    }),
+  },
+  {
+    method: "DELETE",
+    pattern:
+      /^\/api\/v1\/orgs\/([^/]+)\/quotas\/users\/([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})$/i,
+    build: (_url, match) => ({
+      channel: "remove-user-soft-quota",
+      args: [match[2].toLowerCase()],
+      tenantPath: { orgId: match[1] },
+      requiresAuth: true,
+    }),
+  },
+  {
+    method: "GET",
+    pattern: /^\/api\/v1\/orgs\/([^/]+)\/usage$/,
+    build: (url, match) => ({
+      channel: "get-usage-report",
+      args: [parseUsageReportQuery(url)],
+      tenantPath: { orgId: match[1] },
+      requiresAuth: true,
+    }),
+  },
+  {
+    method: "GET",
+    pattern: /^\/api\/v1\/orgs\/([^/]+)\/settings$/,
+    build: (_url, match) => ({
+      channel: "get-org-settings",
+      args: [],
+      tenantPath: { orgId: match[1] },
+      requiresAuth: true,
+    }),
+  },
+  {
+    method: "PATCH",
+    pattern: /^\/api\/v1\/orgs\/([^/]+)\/settings$/,
+    build: (_url, match, body) => ({
+      channel: "set-org-settings",
+      args: [body],
+      tenantPath: { orgId: match[1] },
+      requiresAuth: true,
+    }),
+  },
+  {
+    method: "GET",
+    pattern: /^\/api\/v1\/orgs\/([^/]+)\/workspaces$/,
+    build: (_url, match) => ({
+      channel: "list-workspaces",
+      args: [],
+      tenantPath: { orgId: match[1] },
+      requiresAuth: true,
+    }),
+  },
+  {
+    method: "POST",
+    pattern: /^\/api\/v1\/orgs\/([^/]+)\/workspaces$/,
+    build: (_url, match, body) => {
+      const payload = parseCreateWorkspacePayload(body);
+      return {
+        channel: "create-workspace",
+        args: [payload],
+        tenantPath: { orgId: match[1] },
+        requiresAuth: true,
+      };
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/api\/v1\/orgs\/([^/]+)\/workspaces\/([^/]+)$/,
+    build: (_url, match) => ({
+      channel: "get-workspace",
+      args: [],
+      tenantPath: { orgId: match[1], workspaceId: match[2] },
+      requiresAuth: true,
+    }),
+  },
+  {
+    method: "PATCH",
+    pattern: /^\/api\/v1\/orgs\/([^/]+)\/workspaces\/([^/]+)$/,
+    build: (_url, match, body) => {
+      const payload = parsePatchWorkspacePayload(body);
+      return {
+        channel: "patch-workspace",
+        args: [payload],
+        tenantPath: { orgId: match[1], workspaceId: match[2] },
+        requiresAuth: true,
+      };
+    },
+  },
+  {
+    method: "DELETE",
+    pattern: /^\/api\/v1\/orgs\/([^/]+)\/workspaces\/([^/]+)$/,
+    build: (_url, match) => ({
+      channel: "delete-workspace",
+      args: [],
+      tenantPath: { orgId: match[1], workspaceId: match[2] },
+      requiresAuth: true,
+    }),
+  },
+  {
+    method: "GET",
+    pattern: /^\/api\/v1\/orgs\/([^/]+)\/workspaces\/([^/]+)\/settings$/,
+    build: (_url, match) => ({
+      channel: "get-workspace-settings",
+      args: [],
+      tenantPath: { orgId: match[1], workspaceId: match[2] },
+      requiresAuth: true,
+    }),
+  },
+  {
+    method: "PATCH",
+    pattern: /^\/api\/v1\/orgs\/([^/]+)\/workspaces\/([^/]+)\/settings$/,
+    build: (_url, match, body) => ({
+      channel: "set-workspace-settings",
+      args: [body],
+      tenantPath: { orgId: match[1], workspaceId: match[2] },
+      requiresAuth: true,
+    }),
+  },
+  {
+    method: "GET",
+    pattern: /^\/api\/v1\/orgs\/([^/]+)\/workspaces\/([^/]+)\/members$/,
+    build: (_url, match) => ({
+      channel: "list-workspace-members",
+      args: [],
+      tenantPath: { orgId: match[1], workspaceId: match[2] },
+      requiresAuth: true,
+    }),
+  },
+  {
+    method: "POST",
+    pattern: /^\/api\/v1\/orgs\/([^/]+)\/workspaces\/([^/]+)\/members$/,
+    build: (_url, match, body) => {
+      const payload = parseInviteMemberPayload(body);
+      return {
+        channel: "invite-workspace-member",
+        args: [payload],
+        tenantPath: { orgId: match[1], workspaceId: match[2] },
+        requiresAuth: true,
+      };
+    },
+  },
+  {
+    method: "PATCH",
+    pattern: /^\/api\/v1\/orgs\/([^/]+)\/workspaces\/([^/]+)\/members\/(\d+)$/,
+    build: (_url, match, body) => {
+      const membershipId = parseNumber(match[3]);
+      if (membershipId == null) {
+        return null;
+      }
+      const payload = parseUpdateMemberPayload(body);
+      return {
+        channel: "update-workspace-member",
+        args: [membershipId, payload],
+        tenantPath: { orgId: match[1], workspaceId: match[2] },
+        requiresAuth: true,
+      };
+    },
+  },
+  {
+    method: "DELETE",
+    pattern: /^\/api\/v1\/orgs\/([^/]+)\/workspaces\/([^/]+)\/members\/(\d+)$/,
+    build: (_url, match) => {
+      const membershipId = parseNumber(match[3]);
+      if (membershipId == null) {
+        return null;
+      }
+      return {
+        channel: "remove-workspace-member",
+        args: [membershipId],
+        tenantPath: { orgId: match[1], workspaceId: match[2] },
+        requiresAuth: true,
+      };
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/api\/v1\/orgs\/([^/]+)\/workspaces\/([^/]+)\/model-providers$/,
+    build: (_url, match) => ({
+      channel: "list-model-providers",
+      args: [],
+      tenantPath: { orgId: match[1], workspaceId: match[2] },
+      requiresAuth: true,
+    }),
+  },
+  {
+    method: "POST",
+    pattern: /^\/api\/v1\/orgs\/([^/]+)\/workspaces\/([^/]+)\/model-providers$/,
+    build: (_url, match, body) => {
+      const payload = parseModelProviderPayload(body, { partial: false });
+      return {
+        channel: "create-model-provider",
+        args: [payload],
+        tenantPath: { orgId: match[1], workspaceId: match[2] },
+        requiresAuth: true,
+      };
+    },
+  },
+  {
+    method: "PATCH",
+    pattern:
+      /^\/api\/v1\/orgs\/([^/]+)\/workspaces\/([^/]+)\/model-providers\/([^/]+)$/,
+    build: (_url, match, body) => {
+      const providerId = parsePathSegment(match[3]);
+      if (providerId == null) {
+        return null;
+      }
+      const payload = parseModelProviderPayload(body, { partial: true });
+      return {
+        channel: "update-model-provider",
+        args: [providerId, payload],
+        tenantPath: { orgId: match[1], workspaceId: match[2] },
+        requiresAuth: true,
+      };
+    },
+  },
+  {
+    method: "DELETE",
+    pattern:
+      /^\/api\/v1\/orgs\/([^/]+)\/workspaces\/([^/]+)\/model-providers\/([^/]+)$/,
+    build: (_url, match) => {
+      const providerId = parsePathSegment(match[3]);
+      if (providerId == null) {
+        return null;
+      }
+      return {
+        channel: "delete-model-provider",
+        args: [providerId],
+        tenantPath: { orgId: match[1], workspaceId: match[2] },
+        requiresAuth: true,
+      };
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/api\/v1\/orgs\/([^/]+)\/workspaces\/([^/]+)\/models$/,
+    build: (_url, match) => ({
+      channel: "list-workspace-models",
+      args: [],
+      tenantPath: { orgId: match[1], workspaceId: match[2] },
+      requiresAuth: true,
+    }),
+  },
+  {
+    method: "POST",
+    pattern: /^\/api\/v1\/orgs\/([^/]+)\/workspaces\/([^/]+)\/models$/,
+    build: (_url, match, body) => {
+      const payload = parseLanguageModelPayload(body, { partial: false });
+      return {
+        channel: "create-workspace-model",
+        args: [payload],
+        tenantPath: { orgId: match[1], workspaceId: match[2] },
+        requiresAuth: true,
+      };
+    },
+  },
+  {
+    method: "PATCH",
+    pattern: /^\/api\/v1\/orgs\/([^/]+)\/workspaces\/([^/]+)\/models\/(\d+)$/,
+    build: (_url, match, body) => {
+      const modelId = parseNumber(match[3]);
+      if (modelId == null) {
+        return null;
+      }
+      const payload = parseLanguageModelPayload(body, { partial: true });
+      return {
+        channel: "update-workspace-model",
+        args: [modelId, payload],
+        tenantPath: { orgId: match[1], workspaceId: match[2] },
+        requiresAuth: true,
+      };
+    },
+  },
+  {
+    method: "DELETE",
+    pattern: /^\/api\/v1\/orgs\/([^/]+)\/workspaces\/([^/]+)\/models\/(\d+)$/,
+    build: (_url, match) => {
+      const modelId = parseNumber(match[3]);
+      if (modelId == null) {
+        return null;
+      }
+      return {
+        channel: "delete-workspace-model",
+        args: [modelId],
+        tenantPath: { orgId: match[1], workspaceId: match[2] },
+        requiresAuth: true,
+      };
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/api\/v1\/orgs\/([^/]+)\/workspaces\/([^/]+)\/model-settings$/,
+    build: (_url, match) => ({
+      channel: "get-workspace-model-settings",
+      args: [],
+      tenantPath: { orgId: match[1], workspaceId: match[2] },
+      requiresAuth: true,
+    }),
+  },
+  {
+    method: "PATCH",
+    pattern: /^\/api\/v1\/orgs\/([^/]+)\/workspaces\/([^/]+)\/model-settings$/,
+    build: (_url, match, body) => {
+      const payload = parseWorkspaceModelDefaultsPayload(body);
+      return {
+        channel: "set-workspace-model-settings",
+        args: [payload],
+        tenantPath: { orgId: match[1], workspaceId: match[2] },
+        requiresAuth: true,
+      };
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/api\/v1\/orgs\/([^/]+)\/workspaces\/([^/]+)\/mcp-servers$/,
+    build: (_url, match) => ({
+      channel: "list-mcp-servers",
+      args: [],
+      tenantPath: { orgId: match[1], workspaceId: match[2] },
+      requiresAuth: true,
+    }),
+  },
+  {
+    method: "POST",
+    pattern: /^\/api\/v1\/orgs\/([^/]+)\/workspaces\/([^/]+)\/mcp-servers$/,
+    build: (_url, match, body) => {
+      const payload = parseMcpServerPayload(body, { partial: false });
+      return {
+        channel: "create-mcp-server",
+        args: [payload],
+        tenantPath: { orgId: match[1], workspaceId: match[2] },
+        requiresAuth: true,
+      };
+    },
+  },
+  {
+    method: "PATCH",
+    pattern:
+      /^\/api\/v1\/orgs\/([^/]+)\/workspaces\/([^/]+)\/mcp-servers\/(\d+)$/,
+    build: (_url, match, body) => {
+      const serverId = parseNumber(match[3]);
+      if (serverId == null) {
+        return null;
+      }
+      const payload = parseMcpServerPayload(body, { partial: true });
+      return {
+        channel: "patch-mcp-server",
+        args: [serverId, payload],
+        tenantPath: { orgId: match[1], workspaceId: match[2] },
+        requiresAuth: true,
+      };
+    },
+  },
+  {
+    method: "DELETE",
+    pattern:
+      /^\/api\/v1\/orgs\/([^/]+)\/workspaces\/([^/]+)\/mcp-servers\/(\d+)$/,
+    build: (_url, match) => {
+      const serverId = parseNumber(match[3]);
+      if (serverId == null) {
+        return null;
+      }
+      return {
+        channel: "delete-mcp-server",
+        args: [serverId],
+        tenantPath: { orgId: match[1], workspaceId: match[2] },
+        requiresAuth: true,
+      };
+    },
+  },
+  {
+    method: "POST",
+    pattern:
+      /^\/api\/v1\/orgs\/([^/]+)\/workspaces\/([^/]+)\/mcp-servers\/(\d+)\/(enable|disable)$/,
+    build: (_url, match) => {
+      const serverId = parseNumber(match[3]);
+      if (serverId == null) {
+        return null;
+      }
+      return {
+        channel: "set-mcp-server-enabled",
+        args: [serverId, match[4] === "enable"],
+        tenantPath: { orgId: match[1], workspaceId: match[2] },
+        requiresAuth: true,
+      };
+    },
+  },
+  {
+    method: "GET",
+    pattern:
+      /^\/api\/v1\/orgs\/([^/]+)\/workspaces\/([^/]+)\/mcp-servers\/(\d+)\/tools$/,
+    build: (_url, match) => {
+      const serverId = parseNumber(match[3]);
+      if (serverId == null) {
+        return null;
+      }
+      return {
+        channel: "list-mcp-server-tools",
+        args: [serverId],
+        tenantPath: { orgId: match[1], workspaceId: match[2] },
+        requiresAuth: true,
+      };
+    },
+  },
+  {
+    method: "GET",
+    pattern:
+      /^\/api\/v1\/orgs\/([^/]+)\/workspaces\/([^/]+)\/agent-tool-consents$/,
+    build: (_url, match) => ({
+      channel: "list-agent-tool-consents",
+      args: [],
+      tenantPath: { orgId: match[1], workspaceId: match[2] },
+      requiresAuth: true,
+    }),
+  },
+  {
+    method: "PATCH",
+    pattern:
+      /^\/api\/v1\/orgs\/([^/]+)\/workspaces\/([^/]+)\/agent-tool-consents\/([a-z_]+)$/,
+    build: (_url, match, body) => {
+      const payload = parseAgentToolConsentPolicyPayload(body, {
+        allowLocked: true,
+      });
+      return {
+        channel: "set-workspace-agent-tool-consent",
+        args: [{ toolName: match[3], ...payload }],
+        tenantPath: { orgId: match[1], workspaceId: match[2] },
+        requiresAuth: true,
+      };
+    },
+  },
+  {
+    method: "PATCH",
+    pattern:
+      /^\/api\/v1\/orgs\/([^/]+)\/workspaces\/([^/]+)\/agent-tool-consents\/([a-z_]+)\/me$/,
+    build: (_url, match, body) => {
+      const payload = parseAgentToolConsentPolicyPayload(body, {
+        allowLocked: false,
+      });
+      return {
+        channel: "set-user-agent-tool-consent",
+        args: [{ toolName: match[3], consent: payload.consent }],
+        tenantPath: { orgId: match[1], workspaceId: match[2] },
+        requiresAuth: true,
+      };
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/api\/v1\/orgs\/([^/]+)\/workspaces\/([^/]+)\/apps$/,
+    build: (_url, match) => ({
+      channel: "list-apps",
+      args: [],
+      tenantPath: { orgId: match[1], workspaceId: match[2] },
+      requiresAuth: true,
+    }),
+  },
+  {
+    method: "POST",
+    pattern: /^\/api\/v1\/orgs\/([^/]+)\/workspaces\/([^/]+)\/apps$/,
+    build: (_url, match, body) => {
+      const payload = parseCreateAppPayload(body);
+      return {
+        channel: "create-app",
+        args: [payload],
+        tenantPath: { orgId: match[1], workspaceId: match[2] },
+        requiresAuth: true,
+      };
+    },
+  },
+  {
+    method: "POST",
+    pattern: /^\/api\/v1\/orgs\/([^/]+)\/workspaces\/([^/]+)\/apps\/import$/,
+    maxBodyBytes: MAX_IMPORT_BODY_BYTES,
+    build: (_url, match, body) => ({
+      channel: "import-app",
+      args: [parseImportAppPayload(body)],
+      tenantPath: { orgId: match[1], workspaceId: match[2] },
+      requiresAuth: true,
+    }),
+  },
+  {
+    method: "GET",
+    pattern: /^\/api\/v1\/orgs\/([^/]+)\/workspaces\/([^/]+)\/apps:search$/,
+    build: (url, match) => ({
+      channel: "search-app",
+      args: [url.searchParams.get("q") ?? ""],
+      tenantPath: { orgId: match[1], workspaceId: match[2] },
+      requiresAuth: true,
+    }),
+  },
+  {
+    method: "GET",
+    pattern: /^\/api\/v1\/orgs\/([^/]+)\/workspaces\/([^/]+)\/apps\/(\d+)$/,
+    build: (_url, match) => {
+      const appId = parseNumber(match[3]);
+      if (appId == null) {
+        return null;
+      }
+      return {
+        channel: "get-app",
+        args: [appId],
+        tenantPath: { orgId: match[1], workspaceId: match[2] },
+        requiresAuth: true,
+      };
+    },
+  },
+  {
+    method: "GET",
+    pattern:
+      /^\/api\/v1\/orgs\/([^/]+)\/workspaces\/([^/]+)\/apps\/(\d+)\/export$/,
+    build: (url, match) => {
+      const appId = parseNumber(match[3]);
+      if (appId == null) {
+        return null;
+      }
+      return {
+        channel: "export-app",
+        args: [{ appId, ...parseExportAppQuery(url) }],
+        tenantPath: { orgId: match[1], workspaceId: match[2] },
+        requiresAuth: true,
+      };
+    },
+  },
+  {
+    method: "GET",
+    pattern:
+      /^\/api\/v1\/orgs\/([^/]+)\/workspaces\/([^/]+)\/apps\/(\d+)\/file$/,
+    build: (url, match) => {
+      const appId = parseNumber(match[3]);
+      const filePath = url.searchParams.get("path");
+      if (appId == null || !filePath) {
+        return null;
+      }
+      return {
+        channel: "read-app-file",
+        args: [{ appId, filePath }],
+        tenantPath: { orgId: match[1], workspaceId: match[2] },
+        requiresAuth: true,
+      };
+    },
+  },
+  {
+    method: "GET",
+    pattern:
+      /^\/api\/v1\/orgs\/([^/]+)\/workspaces\/([^/]+)\/apps\/(\d+)\/file\/history$/,
+    build: (url, match) => {
+      const appId = parseNumber(match[3]);
+      const filePath = url.searchParams.get("path");
+      if (appId == null || !filePath) {
+        return null;
+      }
+      const limit = url.searchParams.get("limit");
+      const parsedLimit = limit === null ? null : parseNumber(limit);
+      if (
+        limit !== null &&
+        (parsedLimit == null ||
+          !Number.isInteger(parsedLimit) ||
+          parsedLimit < 1 ||
+          parsedLimit > 1000)
+      ) {
+        throw new HttpError(
+          400,
+          "INVALID_QUERY",
+          'Invalid query: "limit" must be an integer between 1 and 1000',
+        );
+      }
+      return {
+        channel: "get-app-file-history",
+        args: [
+          {
+            appId,
+            filePath,
+            ...(parsedLimit == null ? {} : { limit: parsedLimit }),
+          },
+        ],
+        tenantPath: { orgId: match[1], workspaceId: match[2] },
+        requiresAuth: true,
+      };
+    },
+  },
+  {
+    method: "POST",
+    pattern:
+      /^\/api\/v1\/orgs\/([^/]+)\/workspaces\/([^/]+)\/apps\/(\d+)\/favorite\/toggle$/,
+    build: (_url, match) => {
+      const appId = parseNumber(match[3]);
+      if (appId == null) {
+        return null;
+      }
+      return {
+        channel: "add-to-favorite",
+        args: [{ appId }],
+        tenantPath: { orgId: match[1], workspaceId: match[2] },
+        requiresAuth: true,
+      };
+    },
+  },
+  {
+    method: "PATCH",
+    pattern: /^\/api\/v1\/orgs\/([^/]+)\/workspaces\/([^/]+)\/apps\/(\d+)$/,
+    build: (_url, match, body) => {
+      const appId = parseNumber(match[3]);
+      if (appId == null) {
+        return null;
+      }
+      const payload = parsePatchAppPayload(body);
+      return {
+        channel: "patch-app",
+        args: [appId, payload],
+        tenantPath: { orgId: match[1], workspaceId: match[2] },
+        requiresAuth: true,
+      };
+    },
+  },
+  {
+    method: "DELETE",
+    pattern: /^\/api\/v1\/orgs\/([^/]+)\/workspaces\/([^/]+)\/apps\/(\d+)$/,
+    build: (_url, match) => {
+      const appId = parseNumber(match[3]);
+      if (appId == null) {
+        return null;
+      }
+      return {
+        channel: "delete-app",
+        args: [appId],
+        tenantPath: { orgId: match[1], workspaceId: match[2] },
+        requiresAuth: true,
+      };
+    },
+  },
+  {
+    method: "POST",
+    pattern:
+      /^\/api\/v1\/orgs\/([^/]+)\/workspaces\/([^/]+)\/apps\/(\d+)\/run$/,
+    build: (_url, match) => {
+      const appId = parseNumber(match[3]);
+      if (appId == null) {
+        return null;
+      }
+      return {
+        channel: "run-app",
+        args: [{ appId }],
+        tenantPath: { orgId: match[1], workspaceId: match[2] },
+        requiresAuth: true,
+      };
+    },
+  },
+  {
+    method: "POST",
+    pattern:
+      /^\/api\/v1\/orgs\/([^/]+)\/workspaces\/([^/]+)\/apps\/(\d+)\/stop$/,
+    build: (_url, match) => {
+      const appId = parseNumber(match[3]);
+      if (appId == null) {
+        return null;
+      }
       return {
-        channel: "patch-org",
-        args: [payload],
-        tenantPath: { orgId: match[1] },
+        channel: "stop-app",
+        args: [{ appId }],
+        tenantPath: { orgId: match[1], workspaceId: match[2] },
         requiresAuth: true,
       };
     },
   },
   {
     method: "GET",
-    pattern: /^\/api\/v1\/orgs\/([^/]+)\/workspaces$/,
-    build: (_url, match) => ({
-      channel: "list-workspaces",
-      args: [],
-      tenantPath: { orgId: match[1] },
-      requiresAuth: true,
-    }),
+    pattern:
+      /^\/api\/v1\/orgs\/([^/]+)\/workspaces\/([^/]+)\/apps\/(\d+)\/preview\/screenshot$/,
+    build: (url, match) => {
+      const appId = parseNumber(match[3]);
+      if (appId == null) {
+        return null;
+      }
+      return {
+        channel: "capture-preview-screenshot",
+        args: [{ appId, ...parsePreviewScreenshotQuery(url) }],
+        tenantPath: { orgId: match[1], workspaceId: match[2] },
+        requiresAuth: true,
+      };
+    },
   },
   {
     method: "POST",
-    pattern: /^\/api\/v1\/orgs\/([^/]+)\/workspaces$/,
+    pattern:
+      /^\/api\/v1\/orgs\/([^/]+)\/workspaces\/([^/]+)\/apps\/(\d+)\/restart$/,
     build: (_url, match, body) => {
-      const payload = parseCreateWorkspacePayload(body);
+      const appId = parseNumber(match[3]);
+      if (appId == null) {
+        return null;
+      }
+      const payload = parseRestartAppPayload(body);
       return {
-        channel: "create-workspace",
-        args: [payload],
-        tenantPath: { orgId: match[1] },
+        channel: "restart-app",
+        args: [{ appId, ...payload }],
+        tenantPath: { orgId: match[1], workspaceId: match[2] },
         requiresAuth: true,
       };
     },
   },
   {
     method: "GET",
-    pattern: /^\/api\/v1\/orgs\/([^/]+)\/workspaces\/([^/]+)$/,
-    build: (_url, match) => ({
-      channel: "get-workspace",
-      args: [],
-      tenantPath: { orgId: match[1], workspaceId: match[2] },
-      requiresAuth: true,
-    }),
+    pattern:
+      /^\/api\/v1\/orgs\/([^/]+)\/workspaces\/([^/]+)\/apps\/(\d+)\/versions$/,
+    build: (_url, match) => {
+      const appId = parseNumber(match[3]);
+      if (appId == null) {
+        return null;
+      }
+      return {
+        channel: "list-versions",
+        args: [{ appId }],
+        tenantPath: { orgId: match[1], workspaceId: match[2] },
+        requiresAuth: true,
+      };
+    },
   },
   {
-    method: "PATCH",
-    pattern: /^\/api\/v1\/orgs\/([^/]+)\/workspaces\/([^/]+)$/,
+    method: "POST",
+    pattern:
+      /^\/api\/v1\/orgs\/([^/]+)\/workspaces\/([^/]+)\/apps\/(\d+)\/versions\/checkout$/,
     build: (_url, match, body) => {
-      const payload = parsePatchWorkspacePayload(body);
+      const appId = parseNumber(match[3]);
+      if (appId == null) {
+        return null;
+      }
+      const payload = parseCheckoutVersionPayload(body);
       return {
-        channel: "patch-workspace",
-        args: [payload],
+        channel: "checkout-version",
+        args: [{ appId, ...payload }],
         tenantPath: { orgId: match[1], workspaceId: match[2] },
         requiresAuth: true,
       };
     },
   },
-  {
-    method: "DELETE",
-    pattern: /^\/api\/v1\/orgs\/([^/]+)\/workspaces\/([^/]+)$/,
-    build: (_url, match) => ({
-      channel: "delete-workspace",
-      args: [],
-      tenantPath: { orgId: match[1], workspaceId: match[2] },
-      requiresAuth: true,
-    }),
-  },
-  {
-    method: "GET",
-    pattern: /^\/api\/v1\/orgs\/([^/]+)\/workspaces\/([^/]+)\/apps$/,
-    build: (_url, match) => ({
-      channel: "list-apps",
-      args: [],
-      tenantPath: { orgId: match[1], workspaceId: match[2] },
-      requiresAuth: true,
-    }),
-  },
   {
     method: "POST",
-    pattern: /^\/api\/v1\/orgs\/([^/]+)\/workspaces\/([^/]+)\/apps$/,
+    pattern:
+      /^\/api\/v1\/orgs\/([^/]+)\/workspaces\/([^/]+)\/apps\/(\d+)\/versions\/revert$/,
     build: (_url, match, body) => {
-      const payload = parseCreateAppPayload(body);
+      const appId = parseNumber(match[3]);
+      if (appId == null) {
+        return null;
+      }
+      const payload = parseRevertVersionPayload(body);
       return {
-        channel: "create-app",
-        args: [payload],
+        channel: "revert-version",
+        args: [{ appId, ...payload }],
         tenantPath: { orgId: match[1], workspaceId: match[2] },
         requiresAuth: true,
       };
@@ -662,43 +3028,67 @@ const SCOPED_ROUTES: RouteDefinition[] = [
   },
   {
     method: "GET",
-    pattern: /^\/api\/v1\/orgs\/([^/]+)\/workspaces\/([^/]+)\/apps:search$/,
-    build: (url, match) => ({
-      channel: "search-app",
-      args: [url.searchParams.get("q") ?? ""],
-      tenantPath: { orgId: match[1], workspaceId: match[2] },
-      requiresAuth: true,
-    }),
+    pattern:
+      /^\/api\/v1\/orgs\/([^/]+)\/workspaces\/([^/]+)\/apps\/(\d+)\/versions\/([0-9a-fA-F]{4,64})\.\.\.([0-9a-fA-F]{4,64})\/diff$/,
+    build: (url, match) => {
+      const appId = parseNumber(match[3]);
+      if (appId == null) {
+        return null;
+      }
+      const filePath = url.searchParams.get("path");
+      return {
+        channel: "get-version-diff",
+        args: [
+          {
+            appId,
+            from: match[4],
+            to: match[5],
+            ...(filePath ? { filePath } : {}),
+          },
+        ],
+        tenantPath: { orgId: match[1], workspaceId: match[2] },
+        requiresAuth: true,
+      };
+    },
   },
   {
     method: "GET",
-    pattern: /^\/api\/v1\/orgs\/([^/]+)\/workspaces\/([^/]+)\/apps\/(\d+)$/,
-    build: (_url, match) => {
+    pattern:
+      /^\/api\/v1\/orgs\/([^/]+)\/workspaces\/([^/]+)\/apps\/(\d+)\/git\/remote$/,
+    build: (url, match) => {
       const appId = parseNumber(match[3]);
       if (appId == null) {
         return null;
       }
+      const fetch = url.searchParams.get("fetch");
+      if (fetch !== null && fetch !== "true" && fetch !== "false") {
+        throw new HttpError(
+          400,
+          "INVALID_QUERY",
+          'Invalid query: "fetch" must be "true" or "false"',
+        );
+      }
       return {
-        channel: "get-app",
-        args: [appId],
+        channel: "get-app-git-remote",
+        args: [{ appId, fetch: fetch !== "false" }],
         tenantPath: { orgId: match[1], workspaceId: match[2] },
         requiresAuth: true,
       };
     },
   },
   {
-    method: "GET",
+    method: "PATCH",
     pattern:
-      /^\/api\/v1\/orgs\/([^/]+)\/workspaces\/([^/]+)\/apps\/(\d+)\/file$/,
-    build: (url, match) => {
+      /^\/api\/v1\/orgs\/([^/]+)\/workspaces\/([^/]+)\/apps\/(\d+)\/git\/remote$/,
+    build: (_url, match, body) => {
       const appId = parseNumber(match[3]);
-      const filePath = url.searchParams.get("path");
-      if (appId == null || !filePath) {
+      if (appId == null) {
         return null;
       }
+      const payload = parseGitRemotePayload(body);
       return {
-        channel: "read-app-file",
-        args: [{ appId, filePath }],
+        channel: "connect-app-git-remote",
+        args: [{ appId, ...payload }],
         tenantPath: { orgId: match[1], workspaceId: match[2] },
         requiresAuth: true,
       };
@@ -707,48 +3097,51 @@ const SCOPED_ROUTES: RouteDefinition[] = [
   {
     method: "POST",
     pattern:
-      /^\/api\/v1\/orgs\/([^/]+)\/workspaces\/([^/]+)\/apps\/(\d+)\/favorite\/toggle$/,
-    build: (_url, match) => {
+      /^\/api\/v1\/orgs\/([^/]+)\/workspaces\/([^/]+)\/apps\/(\d+)\/git\/push$/,
+    build: (_url, match, body) => {
       const appId = parseNumber(match[3]);
       if (appId == null) {
         return null;
       }
+      const payload = parseGitSyncPayload(body, { allowForce: true });
       return {
-        channel: "add-to-favorite",
-        args: [{ appId }],
+        channel: "push-app-git-remote",
+        args: [{ appId, ...payload }],
         tenantPath: { orgId: match[1], workspaceId: match[2] },
         requiresAuth: true,
       };
     },
   },
   {
-    method: "PATCH",
-    pattern: /^\/api\/v1\/orgs\/([^/]+)\/workspaces\/([^/]+)\/apps\/(\d+)$/,
+    method: "POST",
+    pattern:
+      /^\/api\/v1\/orgs\/([^/]+)\/workspaces\/([^/]+)\/apps\/(\d+)\/git\/pull$/,
     build: (_url, match, body) => {
       const appId = parseNumber(match[3]);
       if (appId == null) {
         return null;
       }
-      const payload = parsePatchAppPayload(body);
+      const payload = parseGitSyncPayload(body, { allowForce: false });
       return {
-        channel: "patch-app",
-        args: [appId, payload],
+        channel: "pull-app-git-remote",
+        args: [{ appId, ...payload }],
         tenantPath: { orgId: match[1], workspaceId: match[2] },
         requiresAuth: true,
       };
     },
   },
   {
-    method: "DELETE",
-    pattern: /^\/api\/v1\/orgs\/([^/]+)\/workspaces\/([^/]+)\/apps\/(\d+)$/,
+    method: "GET",
+    pattern:
+      /^\/api\/v1\/orgs\/([^/]+)\/workspaces\/([^/]+)\/apps\/(\d+)\/git\/branches$/,
     build: (_url, match) => {
       const appId = parseNumber(match[3]);
       if (appId == null) {
         return null;
       }
       return {
-        channel: "delete-app",
-        args: [appId],
+        channel: "list-app-git-branches",
+        args: [{ appId }],
         tenantPath: { orgId: match[1], workspaceId: match[2] },
         requiresAuth: true,
       };
@@ -757,15 +3150,16 @@ const SCOPED_ROUTES: RouteDefinition[] = [
   {
     method: "POST",
     pattern:
-      /^\/api\/v1\/orgs\/([^/]+)\/workspaces\/([^/]+)\/apps\/(\d+)\/run$/,
-    build: (_url, match) => {
+      /^\/api\/v1\/orgs\/([^/]+)\/workspaces\/([^/]+)\/apps\/(\d+)\/git\/branches$/,
+    build: (_url, match, body) => {
       const appId = parseNumber(match[3]);
       if (appId == null) {
         return null;
       }
+      const payload = parseCreateGitBranchPayload(body);
       return {
-        channel: "run-app",
-        args: [{ appId }],
+        channel: "create-app-git-branch",
+        args: [{ appId, ...payload }],
         tenantPath: { orgId: match[1], workspaceId: match[2] },
         requiresAuth: true,
       };
@@ -774,33 +3168,53 @@ const SCOPED_ROUTES: RouteDefinition[] = [
   {
     method: "POST",
     pattern:
-      /^\/api\/v1\/orgs\/([^/]+)\/workspaces\/([^/]+)\/apps\/(\d+)\/stop$/,
+      /^\/api\/v1\/orgs\/([^/]+)\/workspaces\/([^/]+)\/apps\/(\d+)\/git\/branches\/([^/]+)\/checkout$/,
     build: (_url, match) => {
       const appId = parseNumber(match[3]);
-      if (appId == null) {
+      const branch = parsePathSegment(match[4]);
+      if (appId == null || branch == null) {
         return null;
       }
       return {
-        channel: "stop-app",
-        args: [{ appId }],
+        channel: "checkout-app-git-branch",
+        args: [{ appId, branch }],
         tenantPath: { orgId: match[1], workspaceId: match[2] },
         requiresAuth: true,
       };
     },
   },
   {
-    method: "POST",
+    method: "PATCH",
     pattern:
-      /^\/api\/v1\/orgs\/([^/]+)\/workspaces\/([^/]+)\/apps\/(\d+)\/restart$/,
+      /^\/api\/v1\/orgs\/([^/]+)\/workspaces\/([^/]+)\/apps\/(\d+)\/git\/branches\/([^/]+)$/,
     build: (_url, match, body) => {
       const appId = parseNumber(match[3]);
-      if (appId == null) {
+      const branch = parsePathSegment(match[4]);
+      if (appId == null || branch == null) {
         return null;
       }
-      const payload = parseRestartAppPayload(body);
+      const payload = parseGitBranchNamePayload(body, "name");
       return {
-        channel: "restart-app",
-        args: [{ appId, ...payload }],
+        channel: "rename-app-git-branch",
+        args: [{ appId, branch, ...payload }],
+        tenantPath: { orgId: match[1], workspaceId: match[2] },
+        requiresAuth: true,
+      };
+    },
+  },
+  {
+    method: "DELETE",
+    pattern:
+      /^\/api\/v1\/orgs\/([^/]+)\/workspaces\/([^/]+)\/apps\/(\d+)\/git\/branches\/([^/]+)$/,
+    build: (_url, match) => {
+      const appId = parseNumber(match[3]);
+      const branch = parsePathSegment(match[4]);
+      if (appId == null || branch == null) {
+        return null;
+      }
+      return {
+        channel: "delete-app-git-branch",
+        args: [{ appId, branch }],
         tenantPath: { orgId: match[1], workspaceId: match[2] },
         requiresAuth: true,
       };
@@ -809,14 +3223,14 @@ const SCOPED_ROUTES: RouteDefinition[] = [
   {
     method: "GET",
     pattern:
-      /^\/api\/v1\/orgs\/([^/]+)\/workspaces\/([^/]+)\/apps\/(\d+)\/versions$/,
+      /^\/api\/v1\/orgs\/([^/]+)\/workspaces\/([^/]+)\/apps\/(\d+)\/git\/merge$/,
     build: (_url, match) => {
       const appId = parseNumber(match[3]);
       if (appId == null) {
         return null;
       }
       return {
-        channel: "list-versions",
+        channel: "get-app-git-merge",
         args: [{ appId }],
         tenantPath: { orgId: match[1], workspaceId: match[2] },
         requiresAuth: true,
@@ -826,15 +3240,15 @@ const SCOPED_ROUTES: RouteDefinition[] = [
   {
     method: "POST",
     pattern:
-      /^\/api\/v1\/orgs\/([^/]+)\/workspaces\/([^/]+)\/apps\/(\d+)\/versions\/checkout$/,
+      /^\/api\/v1\/orgs\/([^/]+)\/workspaces\/([^/]+)\/apps\/(\d+)\/git\/merge$/,
     build: (_url, match, body) => {
       const appId = parseNumber(match[3]);
       if (appId == null) {
         return null;
       }
-      const payload = parseCheckoutVersionPayload(body);
+      const payload = parseGitBranchNamePayload(body, "branch");
       return {
-        channel: "checkout-version",
+        channel: "merge-app-git-branch",
         args: [{ appId, ...payload }],
         tenantPath: { orgId: match[1], workspaceId: match[2] },
         requiresAuth: true,
@@ -844,16 +3258,15 @@ const SCOPED_ROUTES: RouteDefinition[] = [
   {
     method: "POST",
     pattern:
-      /^\/api\/v1\/orgs\/([^/]+)\/workspaces\/([^/]+)\/apps\/(\d+)\/versions\/revert$/,
-    build: (_url, match, body) => {
+      /^\/api\/v1\/orgs\/([^/]+)\/workspaces\/([^/]+)\/apps\/(\d+)\/git\/merge\/abort$/,
+    build: (_url, match) => {
       const appId = parseNumber(match[3]);
       if (appId == null) {
         return null;
       }
-      const payload = parseRevertVersionPayload(body);
       return {
-        channel: "revert-version",
-        args: [{ appId, ...payload }],
+        channel: "abort-app-git-merge",
+        args: [{ appId }],
         tenantPath: { orgId: match[1], workspaceId: match[2] },
         requiresAuth: true,
       };
@@ -935,7 +3348,7 @@ const SCOPED_ROUTES: RouteDefinition[] = [
       if (chatId == null) {
         return null;
       }
-      const payload = parseProposalActionPayload(body);
+      const payload = parseApproveProposalPayload(body);
       return {
         channel: "approve-proposal",
         args: [{ chatId, ...payload }],
@@ -1005,6 +3418,42 @@ const SCOPED_ROUTES: RouteDefinition[] = [
       };
     },
   },
+  {
+    method: "POST",
+    pattern:
+      /^\/api\/v1\/orgs\/([^/]+)\/workspaces\/([^/]+)\/chats\/(\d+)\/mcp-consents$/,
+    build: (_url, match, body) => {
+      const chatId = parseNumber(match[3]);
+      if (chatId == null) {
+        return null;
+      }
+      const payload = parseToolConsentPayload(body);
+      return {
+        channel: "resolve-mcp-tool-consent",
+        args: [{ chatId, ...payload }],
+        tenantPath: { orgId: match[1], workspaceId: match[2] },
+        requiresAuth: true,
+      };
+    },
+  },
+  {
+    method: "POST",
+    pattern:
+      /^\/api\/v1\/orgs\/([^/]+)\/workspaces\/([^/]+)\/chats\/(\d+)\/agent-consents$/,
+    build: (_url, match, body) => {
+      const chatId = parseNumber(match[3]);
+      if (chatId == null) {
+        return null;
+      }
+      const payload = parseToolConsentPayload(body);
+      return {
+        channel: "resolve-agent-tool-consent",
+        args: [{ chatId, ...payload }],
+        tenantPath: { orgId: match[1], workspaceId: match[2] },
+        requiresAuth: true,
+      };
+    },
+  },
   {
     method: "GET",
     pattern: /^\/api\/v1\/settings\/user$/,
@@ -1050,6 +3499,24 @@ const SCOPED_ROUTES: RouteDefinition[] = [
       requiresAuth: false,
     }),
   },
+  {
+    method: "POST",
+    pattern: /^\/api\/v1\/auth\/session\/refresh$/,
+    build: (_url, _match, body) => ({
+      channel: "refresh-auth-session",
+      args: [parseAuthSessionPayload(body)],
+      requiresAuth: false,
+    }),
+  },
+  {
+    method: "POST",
+    pattern: /^\/api\/v1\/auth\/logout$/,
+    build: (_url, _match, body) => ({
+      channel: "logout-auth-session",
+      args: [parseAuthSessionPayload(body)],
+      requiresAuth: false,
+    }),
+  },
   {
     method: "GET",
     pattern: /^\/api\/v1\/app\/version$/,
@@ -1100,7 +3567,13 @@ export function createApiV1Middleware(
     }
 
     try {
-      const body = route.method === "GET" ? {} : await readJsonBody(req);
+      const body =
+        route.method === "GET"
+          ? {}
+          : await readJsonBody(
+              req,
+              route.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES,
+            );
       const target = route.build(requestUrl, match, body);
       if (!target) {
         writeJson(res, 400, { error: "Invalid route parameters" });
@@ -1111,8 +3584,10 @@ export function createApiV1Middleware(
         ? await resolveContext(req, target.tenantPath)
         : null;
 
+      const userAgent = req.headers["user-agent"];
       const result = await invoke(target.channel, target.args, {
         requestContext: requestContext ?? undefined,
+        userAgent: typeof userAgent === "string" ? userAgent : undefined,
       });
 
       if (typeof result === "undefined") {
@@ -1121,8 +3596,30 @@ export function createApiV1Middleware(
         return;
       }
 
+      if (isHttpFileResponse(result)) {
+        res.statusCode = 200;
+        res.setHeader("Content-Type", result.contentType);
+        res.setHeader(
+          "Content-Disposition",
+          `${result.disposition}; filename="${result.fileName}"`,
+        );
+        for (const [name, value] of Object.entries(result.headers)) {
+          res.setHeader(name, value);
+        }
+        if (result.body instanceof Readable) {
+          await pipeline(result.body, res);
+          return;
+        }
+        res.end(result.body);
+        return;
+      }
+
       writeJson(res, 200, { data: result });
     } catch (error) {
+      // A stream that failed midway has destroyed the response already.
+      if (res.headersSent) {
+        return;
+      }
       if (isHttpError(error)) {
         writeJson(res, error.statusCode, {
           error: error.message,
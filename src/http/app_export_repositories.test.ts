@@ -0,0 +1,114 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { buffer } from "node:stream/consumers";
+import { exec } from "dugite";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { readArchiveEntries } from "/src/ipc/utils/archive_utils.ts";
+import {
+  APP_EXPORT_CHATS_FILE,
+  createAppExportArchive,
+} from "./app_export_repositories";
+
+vi.mock("/src/main/settings.ts", () => ({
+  readSettings: () => ({ enableNativeGit: true }),
+}));
+
+const LIMITS = { maxEntries: 1000, maxTotalBytes: 10 * 1024 * 1024 };
+
+async function git(args: string[], cwd: string) {
+  const result = await exec(
+    ["-c", "user.name=Test", "-c", "user.email=test@example.com", ...args],
+    cwd,
+  );
+  if (result.exitCode !== 0) {
+    throw new Error(result.stderr);
+  }
+  return result.stdout.trim();
+}
+
+function writeFile(appPath: string, file: string, content: string) {
+  fs.mkdirSync(path.dirname(path.join(appPath, file)), { recursive: true });
+  fs.writeFileSync(path.join(appPath, file), content);
+}
+
+describe("createAppExportArchive", () => {
+  let appPath: string;
+  let firstCommit: string;
+
+  beforeEach(async () => {
+    appPath = fs.mkdtempSync(path.join(os.tmpdir(), "app-export-"));
+    await git(["init", "-b", "main"], appPath);
+    writeFile(appPath, ".gitignore", "dist/\n.env\n");
+    writeFile(appPath, "package.json", "{}\n");
+    writeFile(appPath, "src/old.ts", "export {};\n");
+    await git(["add", "-A"], appPath);
+    await git(["commit", "-m", "Init"], appPath);
+    firstCommit = await git(["rev-parse", "HEAD"], appPath);
+
+    fs.rmSync(path.join(appPath, "src/old.ts"));
+    writeFile(appPath, "src/main.ts", 'console.log("main");\n');
+    writeFile(appPath, "dist/index.js", "built\n");
+    writeFile(appPath, ".env", "SECRET=1\n");
+    writeFile(appPath, "node_modules/left-pad/index.js", "module.exports;\n");
+  });
+
+  afterEach(() => {
+    fs.rmSync(appPath, { recursive: true, force: true });
+  });
+
+  async function exportPaths(
+    params: Partial<Parameters<typeof createAppExportArchive>[0]> = {},
+  ) {
+    const format = params.format ?? "zip";
+    const archive = await buffer(
+      await createAppExportArchive({
+        appPath,
+        format,
+        includeGit: false,
+        maxBytes: 1024 * 1024,
+        ...params,
+      }),
+    );
+    return readArchiveEntries(archive, format, LIMITS);
+  }
+
+  it("exports the working tree without ignored files", async () => {
+    const entries = await exportPaths();
+
+    expect(entries.map((entry) => entry.path).sort()).toEqual([
+      ".gitignore",
+      "package.json",
+      "src/main.ts",
+    ]);
+  });
+
+  it("exports a version with history and chats", async () => {
+    const chats = [{ id: 1, title: "Init", messages: [] }];
+    const entries = await exportPaths({
+      format: "tar.gz",
+      commitHash: firstCommit,
+      includeGit: true,
+      chats,
+    });
+    const byPath = new Map(entries.map((entry) => [entry.path, entry]));
+
+    expect(byPath.get("src/old.ts")?.data.toString()).toBe("export {};\n");
+    expect(byPath.has("src/main.ts")).toBe(false);
+    expect(byPath.has(".git/HEAD")).toBe(true);
+    expect(
+      JSON.parse(byPath.get(APP_EXPORT_CHATS_FILE)!.data.toString()),
+    ).toEqual({ chats });
+  });
+
+  it("rejects exports above the size limit before streaming", async () => {
+    await expect(
+      createAppExportArchive({
+        appPath,
+        format: "zip",
+        includeGit: true,
+        maxBytes: 64,
+      }),
+    ).rejects.toMatchObject({ statusCode: 413, code: "EXPORT_TOO_LARGE" });
+  });
+});
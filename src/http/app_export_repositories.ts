@@ -0,0 +1,146 @@
+import fs from "node:fs";
+import path from "node:path";
+import type { Readable } from "node:stream";
+import { HttpError } from "/src/http/http_errors.ts";
+import {
+  type ArchiveFormat,
+  type ArchiveSourceFile,
+  createArchiveStream,
+  ZIP_MAX_ENTRIES,
+} from "/src/ipc/utils/archive_utils.ts";
+import {
+  getFileBufferAtCommit,
+  gitListTreeFiles,
+  gitListWorkingTreeFiles,
+} from "/src/ipc/utils/git_utils.ts";
+
+/** Written next to the sources when chats are part of the export. */
+export const APP_EXPORT_CHATS_FILE = "blaze-chats.json";
+
+interface ExportFile extends ArchiveSourceFile {
+  size: number;
+}
+
+function isInNodeModules(filePath: string): boolean {
+  return filePath.split("/").includes("node_modules");
+}
+
+/** Tracked and untracked files that `.gitignore` does not exclude. */
+async function listWorkingTreeFiles(appPath: string): Promise<ExportFile[]> {
+  const files: ExportFile[] = [];
+  for (const filePath of await gitListWorkingTreeFiles({ path: appPath })) {
+    if (isInNodeModules(filePath)) {
+      continue;
+    }
+    const absolutePath = path.join(appPath, filePath);
+    const stats = await fs.promises.lstat(absolutePath).catch(() => null);
+    // Deleted but still tracked files are not part of the working tree.
+    if (!stats?.isFile()) {
+      continue;
+    }
+    files.push({
+      path: filePath,
+      size: stats.size,
+      executable: (stats.mode & 0o111) !== 0,
+      read: () => fs.promises.readFile(absolutePath),
+    });
+  }
+  return files;
+}
+
+async function listCommitFiles(
+  appPath: string,
+  commitHash: string,
+): Promise<ExportFile[]> {
+  const treeFiles = await gitListTreeFiles({ path: appPath, ref: commitHash });
+  return treeFiles
+    .filter((file) => !isInNodeModules(file.path))
+    .map((file) => ({
+      ...file,
+      read: async () =>
+        (await getFileBufferAtCommit({
+          path: appPath,
+          filePath: file.path,
+          commitHash,
+        })) ?? Buffer.alloc(0),
+    }));
+}
+
+/** Every regular file of `.git`, so the archive is a working repository. */
+async function listGitDirectoryFiles(appPath: string): Promise<ExportFile[]> {
+  const files: ExportFile[] = [];
+  const walk = async (relativeDir: string) => {
+    const entries = await fs.promises.readdir(path.join(appPath, relativeDir), {
+      withFileTypes: true,
+    });
+    for (const entry of entries) {
+      const relativePath = `${relativeDir}/${entry.name}`;
+      if (entry.isDirectory()) {
+        await walk(relativePath);
+      } else if (entry.isFile()) {
+        const absolutePath = path.join(appPath, relativePath);
+        const stats = await fs.promises.stat(absolutePath);
+        files.push({
+          path: relativePath,
+          size: stats.size,
+          executable: (stats.mode & 0o111) !== 0,
+          read: () => fs.promises.readFile(absolutePath),
+        });
+      }
+    }
+  };
+  await walk(".git");
+  return files;
+}
+
+/**
+ * Streams the sources of an app as a zip or tar.gz archive: the working tree
+ * or, with `commitHash`, a committed version. Files ignored by `.gitignore`
+ * and `node_modules` are left out. Sizes are summed before streaming, so an
+ * export above `maxBytes` fails with 413 instead of a truncated download.
+ */
+export async function createAppExportArchive(params: {
+  appPath: string;
+  format: ArchiveFormat;
+  commitHash?: string;
+  includeGit: boolean;
+  /** Dumped as {@link APP_EXPORT_CHATS_FILE} when set. */
+  chats?: unknown[];
+  maxBytes: number;
+}): Promise<Readable> {
+  const files = params.commitHash
+    ? await listCommitFiles(params.appPath, params.commitHash)
+    : await listWorkingTreeFiles(params.appPath);
+  if (params.includeGit) {
+    files.push(...(await listGitDirectoryFiles(params.appPath)));
+  }
+  if (params.chats) {
+    const chatsJson = Buffer.from(
+      `${JSON.stringify({ chats: params.chats }, null, 2)}\n`,
+    );
+    files.push({
+      path: APP_EXPORT_CHATS_FILE,
+      size: chatsJson.length,
+      executable: false,
+      read: async () => chatsJson,
+    });
+  }
+
+  const totalBytes = files.reduce((total, file) => total + file.size, 0);
+  if (totalBytes > params.maxBytes) {
+    throw new HttpError(
+      413,
+      "EXPORT_TOO_LARGE",
+      `Export of ${totalBytes} bytes is larger than the limit of ${params.maxBytes} bytes`,
+    );
+  }
+  if (params.format === "zip" && files.length > ZIP_MAX_ENTRIES) {
+    throw new HttpError(
+      413,
+      "EXPORT_TOO_LARGE",
+      `Zip exports hold at most ${ZIP_MAX_ENTRIES} files, use tar.gz instead`,
+    );
+  }
+
+  return createArchiveStream(files, params.format);
+}
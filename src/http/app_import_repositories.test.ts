@@ -0,0 +1,230 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { buffer } from "node:stream/consumers";
+import { exec } from "dugite";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createArchiveStream } from "../ipc/utils/archive_utils";
+import {
+  detectAppCommands,
+  importAppSource,
+  MAX_IMPORT_ARCHIVE_BYTES,
+} from "./app_import_repositories";
+import type { RequestContext } from "./request_context";
+
+vi.mock("/src/main/settings.ts", () => ({
+  readSettings: () => ({ enableNativeGit: true }),
+}));
+
+const context = {
+  userId: "user-1",
+  orgId: "org-1",
+  workspaceId: "ws-1",
+  organizationRole: "owner",
+  workspaceRole: "owner",
+} as RequestContext;
+
+async function git(args: string[], cwd: string) {
+  const result = await exec(
+    ["-c", "user.name=Test", "-c", "user.email=test@example.com", ...args],
+    cwd,
+  );
+  if (result.exitCode !== 0) {
+    throw new Error(result.stderr);
+  }
+  return result.stdout.trim();
+}
+
+async function commitFile(repoPath: string, file: string, content: string) {
+  fs.writeFileSync(path.join(repoPath, file), content);
+  await git(["add", file], repoPath);
+  await git(["commit", "-m", `Update ${file}`], repoPath);
+  return git(["rev-parse", "HEAD"], repoPath);
+}
+
+function readFixture(name: string) {
+  return fs
+    .readFileSync(path.join(__dirname, "../__tests__/fixtures/archives", name))
+    .toString("base64");
+}
+
+describe("importAppSource", () => {
+  let rootPath: string;
+  let appPath: string;
+
+  beforeEach(() => {
+    rootPath = fs.mkdtempSync(path.join(os.tmpdir(), "app-import-"));
+    appPath = path.join(rootPath, "app");
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootPath, { recursive: true, force: true });
+  });
+
+  describe("from a git repository", () => {
+    let remotePath: string;
+    let taggedCommit: string;
+    let headCommit: string;
+
+    beforeEach(async () => {
+      remotePath = path.join(rootPath, "remote.git");
+      const sourcePath = path.join(rootPath, "source");
+      fs.mkdirSync(remotePath);
+      fs.mkdirSync(sourcePath);
+      await git(["init", "--bare", "-b", "main"], remotePath);
+      await git(["init", "-b", "main"], sourcePath);
+      fs.writeFileSync(path.join(sourcePath, "package-lock.json"), "{}\n");
+      taggedCommit = await commitFile(
+        sourcePath,
+        "package.json",
+        JSON.stringify({ scripts: { start: "node server.js" } }),
+      );
+      await git(["tag", "v1"], sourcePath);
+      headCommit = await commitFile(sourcePath, "server.js", "export {};\n");
+      await git(["remote", "add", "origin", remotePath], sourcePath);
+      await git(["push", "origin", "main", "--tags"], sourcePath);
+    });
+
+    it("clones the default branch and detects the commands", async () => {
+      await expect(
+        importAppSource({
+          context,
+          appPath,
+          source: { type: "git", url: remotePath },
+        }),
+      ).resolves.toEqual({ initialCommitHash: headCommit, branch: "main" });
+
+      expect(await git(["remote", "get-url", "origin"], appPath)).toBe(
+        remotePath,
+      );
+      expect(detectAppCommands(appPath)).toEqual({
+        installCommand: "npm install",
+        startCommand: "npm run start",
+      });
+    });
+
+    it("checks out a tag on a new branch", async () => {
+      const result = await importAppSource({
+        context,
+        appPath,
+        source: { type: "git", url: remotePath, ref: "v1" },
+      });
+
+      expect(result).toEqual({
+        initialCommitHash: taggedCommit,
+        branch: `import-${taggedCommit.slice(0, 7)}`,
+      });
+      expect(fs.existsSync(path.join(appPath, "server.js"))).toBe(false);
+    });
+
+    it("removes the app directory when the ref does not exist", async () => {
+      await expect(
+        importAppSource({
+          context,
+          appPath,
+          source: { type: "git", url: remotePath, ref: "missing" },
+        }),
+      ).rejects.toMatchObject({ statusCode: 404, code: "GIT_REF_NOT_FOUND" });
+      expect(fs.existsSync(appPath)).toBe(false);
+    });
+
+    it("rejects refs that git would read as options", async () => {
+      await expect(
+        importAppSource({
+          context,
+          appPath,
+          source: { type: "git", url: remotePath, ref: "--orphan=x" },
+        }),
+      ).rejects.toMatchObject({ statusCode: 400, code: "INVALID_GIT_REF" });
+      expect(fs.existsSync(appPath)).toBe(false);
+    });
+  });
+
+  it.each([
+    ["demo-app.zip", "zip"],
+    ["demo-app.tar.gz", "tar.gz"],
+  ] as const)("unpacks %s into a new repository", async (fixture, format) => {
+    const result = await importAppSource({
+      context,
+      appPath,
+      source: { type: "archive", format, data: readFixture(fixture) },
+    });
+
+    expect(result.branch).toBe("main");
+    expect(await git(["ls-files"], appPath)).toBe(
+      [
+        "package.json",
+        "pnpm-lock.yaml",
+        "scripts/setup.sh",
+        "src/main.ts",
+      ].join("\n"),
+    );
+    expect(fs.existsSync(path.join(appPath, "node_modules"))).toBe(false);
+    expect(
+      fs.statSync(path.join(appPath, "scripts/setup.sh")).mode & 0o111,
+    ).not.toBe(0);
+    expect(detectAppCommands(appPath)).toEqual({
+      installCommand: "pnpm install",
+      startCommand: "pnpm run dev --port $PORT",
+    });
+  });
+
+  it("rejects archives with entries outside the app", async () => {
+    await expect(
+      importAppSource({
+        context,
+        appPath,
+        source: {
+          type: "archive",
+          format: "zip",
+          data: readFixture("path-traversal.zip"),
+        },
+      }),
+    ).rejects.toMatchObject({ statusCode: 400, code: "INVALID_ARCHIVE" });
+    expect(fs.existsSync(appPath)).toBe(false);
+  });
+
+  it("rejects archives with a file where a directory is needed", async () => {
+    const archive = await buffer(
+      createArchiveStream(
+        ["src", "src/main.ts"].map((filePath) => ({
+          path: filePath,
+          executable: false,
+          read: async () => Buffer.from("x"),
+        })),
+        "tar.gz",
+      ),
+    );
+
+    await expect(
+      importAppSource({
+        context,
+        appPath,
+        source: {
+          type: "archive",
+          format: "tar.gz",
+          data: archive.toString("base64"),
+        },
+      }),
+    ).rejects.toMatchObject({
+      statusCode: 400,
+      code: "INVALID_ARCHIVE",
+      message: "Archive has both a file and a directory at src",
+    });
+    expect(fs.existsSync(appPath)).toBe(false);
+  });
+
+  it("rejects oversized archives before decoding them", async () => {
+    await expect(
+      importAppSource({
+        context,
+        appPath,
+        source: {
+          type: "archive",
+          format: "zip",
+          data: "A".repeat(Math.ceil(MAX_IMPORT_ARCHIVE_BYTES / 3) * 4 + 4),
+        },
+      }),
+    ).rejects.toMatchObject({ statusCode: 413, code: "ARCHIVE_TOO_LARGE" });
+  });
+});
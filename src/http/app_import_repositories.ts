@@ -0,0 +1,316 @@
+import fs from "node:fs";
+import path from "node:path";
+import {
+  DEFAULT_APP_BRANCH,
+  isValidBranchName,
+} from "/src/http/git_branch_repositories.ts";
+import {
+  getWorkspaceGitAccessToken,
+  parseGitRemoteUrl,
+  toGitRemoteHttpError,
+} from "/src/http/git_remote_repositories.ts";
+import { HttpError } from "/src/http/http_errors.ts";
+import type { RequestContext } from "/src/http/request_context.ts";
+import {
+  ArchiveError,
+  type ArchiveEntry,
+  type ArchiveFormat,
+  readArchiveEntries,
+} from "/src/ipc/utils/archive_utils.ts";
+import {
+  getCurrentCommitHash,
+  gitAddAll,
+  gitCheckout,
+  gitClone,
+  gitCommit,
+  gitCreateBranch,
+  gitCurrentBranch,
+  gitInit,
+  gitListBranches,
+  gitSetRemoteUrl,
+} from "/src/ipc/utils/git_utils.ts";
+import { log } from "/src/lib/logger.ts";
+
+const logger = log.scope("app_import_repositories");
+
+export const MAX_IMPORT_ARCHIVE_BYTES = 50 * 1024 * 1024;
+const MAX_IMPORT_EXTRACTED_BYTES = 200 * 1024 * 1024;
+const MAX_IMPORT_ENTRIES = 20_000;
+
+/** Directories of an archive that are never imported. */
+const SKIPPED_ARCHIVE_DIRECTORIES = new Set([".git", "node_modules"]);
+
+export type AppImportSource =
+  | {
+      type: "git";
+      url: string;
+      /** Branch, tag or commit to check out; the remote default otherwise. */
+      ref?: string;
+      /** Used once for the clone, the workspace token of the host otherwise. */
+      accessToken?: string;
+    }
+  | {
+      type: "archive";
+      format: ArchiveFormat;
+      /** Base64 encoded archive. */
+      data: string;
+    };
+
+export interface AppCommands {
+  installCommand: string;
+  startCommand: string;
+}
+
+const PACKAGE_MANAGERS = ["pnpm", "yarn", "bun", "npm"] as const;
+
+/** Lockfiles in the order they win when a project has several. */
+const LOCKFILE_PACKAGE_MANAGERS = [
+  ["pnpm-lock.yaml", "pnpm"],
+  ["yarn.lock", "yarn"],
+  ["bun.lock", "bun"],
+  ["bun.lockb", "bun"],
+  ["package-lock.json", "npm"],
+] as const;
+
+/**
+ * Guesses install/start commands of an imported app from `package.json` and
+ * its lockfile. The start command listens on the preview port, which the
+ * preview runner exports as `PORT`. Returns `null` without a `dev` or `start`
+ * script.
+ */
+export function detectAppCommands(appPath: string): AppCommands | null {
+  let packageJson: {
+    packageManager?: unknown;
+    scripts?: Record<string, unknown>;
+  };
+  try {
+    packageJson = JSON.parse(
+      fs.readFileSync(path.join(appPath, "package.json"), "utf8"),
+    );
+  } catch {
+    return null;
+  }
+
+  const script = ["dev", "start"].find(
+    (name) => typeof packageJson.scripts?.[name] === "string",
+  );
+  if (!script) {
+    return null;
+  }
+
+  const declaredPackageManager =
+    typeof packageJson.packageManager === "string"
+      ? PACKAGE_MANAGERS.find((name) =>
+          (packageJson.packageManager as string).startsWith(`${name}@`),
+        )
+      : undefined;
+  const packageManager =
+    LOCKFILE_PACKAGE_MANAGERS.find(([lockfile]) =>
+      fs.existsSync(path.join(appPath, lockfile)),
+    )?.[1] ??
+    declaredPackageManager ??
+    "npm";
+
+  if (script === "start") {
+    return {
+      installCommand: `${packageManager} install`,
+      startCommand: `${packageManager} run start`,
+    };
+  }
+  // Same port flag as the default preview command of scaffolded apps.
+  return {
+    installCommand: `${packageManager} install`,
+    startCommand:
+      packageManager === "npm"
+        ? "npm run dev -- --port $PORT"
+        : `${packageManager} run dev --port $PORT`,
+  };
+}
+
+/** Drops the single top-level directory that GitHub-style archives have. */
+function stripSharedRootDirectory(entries: ArchiveEntry[]): ArchiveEntry[] {
+  const [firstSegment] = entries[0]?.path.split("/") ?? [];
+  const hasSharedRoot =
+    firstSegment !== undefined &&
+    entries.every(
+      (entry) =>
+        entry.path.startsWith(`${firstSegment}/`) ||
+        (entry.path === firstSegment && entry.type === "directory"),
+    );
+  if (!hasSharedRoot) {
+    return entries;
+  }
+  return entries
+    .filter((entry) => entry.path !== firstSegment)
+    .map((entry) => ({
+      ...entry,
+      path: entry.path.slice(firstSegment.length + 1),
+    }));
+}
+
+async function importArchive(params: {
+  appPath: string;
+  format: ArchiveFormat;
+  data: string;
+}) {
+  // Checked before decoding, base64 is 4/3 of the archive size.
+  if (params.data.length > Math.ceil(MAX_IMPORT_ARCHIVE_BYTES / 3) * 4) {
+    throw new HttpError(
+      413,
+      "ARCHIVE_TOO_LARGE",
+      `Archive is larger than ${MAX_IMPORT_ARCHIVE_BYTES} bytes`,
+    );
+  }
+  const archive = Buffer.from(params.data, "base64");
+  if (archive.length === 0) {
+    throw new HttpError(400, "INVALID_ARCHIVE", "Archive is empty");
+  }
+  if (archive.length > MAX_IMPORT_ARCHIVE_BYTES) {
+    throw new HttpError(
+      413,
+      "ARCHIVE_TOO_LARGE",
+      `Archive is larger than ${MAX_IMPORT_ARCHIVE_BYTES} bytes`,
+    );
+  }
+
+  let entries: ArchiveEntry[];
+  try {
+    entries = readArchiveEntries(archive, params.format, {
+      maxEntries: MAX_IMPORT_ENTRIES,
+      maxTotalBytes: MAX_IMPORT_EXTRACTED_BYTES,
+    });
+  } catch (error) {
+    if (error instanceof ArchiveError) {
+      throw new HttpError(400, "INVALID_ARCHIVE", error.message);
+    }
+    throw error;
+  }
+
+  const files = stripSharedRootDirectory(entries).filter(
+    (entry) =>
+      entry.type === "file" &&
+      !entry.path
+        .split("/")
+        .some((segment) => SKIPPED_ARCHIVE_DIRECTORIES.has(segment)),
+  );
+  if (files.length === 0) {
+    throw new HttpError(400, "INVALID_ARCHIVE", "Archive contains no files");
+  }
+
+  for (const file of files) {
+    const filePath = path.join(params.appPath, file.path);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, file.data, {
+      mode: file.executable ? 0o755 : 0o644,
+    });
+  }
+
+  await gitInit({ path: params.appPath, ref: DEFAULT_APP_BRANCH });
+  await gitAddAll({ path: params.appPath });
+  await gitCommit({ path: params.appPath, message: "Import Blaze app" });
+}
+
+async function importGitRepository(params: {
+  context: RequestContext;
+  appPath: string;
+  url: string;
+  ref?: string;
+  accessToken?: string;
+}) {
+  // Branch and tag names follow the branch rules, commit hashes pass them
+  // too; a leading "-" would be read as an option of git checkout.
+  if (params.ref !== undefined && !isValidBranchName(params.ref)) {
+    throw new HttpError(
+      400,
+      "INVALID_GIT_REF",
+      `"${params.ref}" is not a valid branch, tag or commit`,
+    );
+  }
+  const { remoteUrl, host } = parseGitRemoteUrl(params.url);
+  const accessToken =
+    params.accessToken ??
+    (await getWorkspaceGitAccessToken(params.context, host)) ??
+    undefined;
+
+  await fs.promises.mkdir(path.dirname(params.appPath), { recursive: true });
+  try {
+    await gitClone({
+      path: params.appPath,
+      url: remoteUrl,
+      accessToken,
+      singleBranch: !params.ref,
+    });
+  } catch (error) {
+    throw toGitRemoteHttpError(error);
+  }
+  // Native clones keep the token in the origin URL, reset it to the plain one.
+  await gitSetRemoteUrl({ path: params.appPath, remoteUrl });
+
+  if (!params.ref) {
+    return;
+  }
+  try {
+    await gitCheckout({ path: params.appPath, ref: params.ref });
+  } catch {
+    throw new HttpError(
+      404,
+      "GIT_REF_NOT_FOUND",
+      `Ref ${params.ref} does not exist in the repository`,
+    );
+  }
+  if (await gitCurrentBranch({ path: params.appPath })) {
+    return;
+  }
+  // A tag or commit leaves HEAD detached, chats need a branch to work on.
+  const commitHash = await getCurrentCommitHash({ path: params.appPath });
+  const branches = await gitListBranches({ path: params.appPath });
+  const branch = branches.includes(DEFAULT_APP_BRANCH)
+    ? `import-${commitHash.slice(0, 7)}`
+    : DEFAULT_APP_BRANCH;
+  await gitCreateBranch({ path: params.appPath, branch });
+  await gitCheckout({ path: params.appPath, ref: branch });
+}
+
+/**
+ * Creates the directory of a new app from a git repository or an archive and
+ * returns its first commit. The directory is removed when the import fails.
+ */
+export async function importAppSource(params: {
+  context: RequestContext;
+  appPath: string;
+  source: AppImportSource;
+}): Promise<{ initialCommitHash: string; branch: string }> {
+  if (fs.existsSync(params.appPath)) {
+    throw new Error(`App already exists at: ${params.appPath}`);
+  }
+
+  try {
+    if (params.source.type === "git") {
+      await importGitRepository({
+        context: params.context,
+        appPath: params.appPath,
+        url: params.source.url,
+        ref: params.source.ref,
+        accessToken: params.source.accessToken,
+      });
+    } else {
+      await fs.promises.mkdir(params.appPath, { recursive: true });
+      await importArchive({
+        appPath: params.appPath,
+        format: params.source.format,
+        data: params.source.data,
+      });
+    }
+
+    return {
+      initialCommitHash: await getCurrentCommitHash({ path: params.appPath }),
+      branch:
+        (await gitCurrentBranch({ path: params.appPath })) ??
+        DEFAULT_APP_BRANCH,
+    };
+  } catch (error) {
+    logger.warn(`Import into ${params.appPath} failed, removing it`);
+    await fs.promises.rm(params.appPath, { recursive: true, force: true });
+    throw error;
+  }
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import {
+  assertCanReadAuditEvents,
+  decodeAuditEventCursor,
+  encodeAuditEventCursor,
+  formatAuditEventsAsCsv,
+  formatAuditEventsAsJsonl,
+  type AuditEventRecord,
+} from "./audit_repositories";
+
+function createAuditEvent(
+  overrides: Partial<AuditEventRecord> = {},
+): AuditEventRecord {
+  return {
+    id: 7,
+    actorUserId: "user-1",
+    actorEmail: "dev@example.com",
+    actorDisplayName: "Dev",
+    organizationId: "org-1",
+    workspaceId: "ws-1",
+    action: "member_invite",
+    resourceType: "organization_member",
+    resourceId: "9",
+    metadata: { role: "member" },
+    createdAt: "2026-01-01T00:00:00.000Z",
+    ...overrides,
+  };
+}
+
+describe("audit event access", () => {
+  it("allows only owner/admin to read audit events", () => {
+    expect(() =>
+      assertCanReadAuditEvents({ organizationRole: "owner" }),
+    ).not.toThrow();
+    expect(() =>
+      assertCanReadAuditEvents({ organizationRole: "admin" }),
+    ).not.toThrow();
+    expect(() =>
+      assertCanReadAuditEvents({ organizationRole: "member" }),
+    ).toThrow("Only owner/admin can read audit events");
+  });
+});
+
+describe("audit event cursors", () => {
+  it("round-trips the last event id", () => {
+    expect(decodeAuditEventCursor(encodeAuditEventCursor(42))).toBe(42);
+  });
+
+  it("rejects malformed cursors", () => {
+    expect(() => decodeAuditEventCursor("not-a-cursor")).toThrow(
+      "Invalid audit event cursor",
+    );
+    expect(() =>
+      decodeAuditEventCursor(Buffer.from("audit:-1").toString("base64url")),
+    ).toThrow("Invalid audit event cursor");
+  });
+});
+
+describe("audit event export formats", () => {
+  it("writes CSV with a header row and escaped values", () => {
+    const csv = formatAuditEventsAsCsv([
+      createAuditEvent({ actorDisplayName: 'Dev, "Lead"' }),
+    ]);
+    const [header, row, trailing] = csv.split("\r\n");
+
+    expect(header).toBe(
+      "id,createdAt,actorUserId,actorEmail,actorDisplayName,organizationId,workspaceId,action,resourceType,resourceId,metadata",
+    );
+    expect(row).toBe(
+      '7,2026-01-01T00:00:00.000Z,user-1,dev@example.com,"Dev, ""Lead""",org-1,ws-1,member_invite,organization_member,9,"{""role"":""member""}"',
+    );
+    expect(trailing).toBe("");
+  });
+
+  it("neutralises spreadsheet formulas in CSV values", () => {
+    const csv = formatAuditEventsAsCsv([
+      createAuditEvent({ resourceId: "=HYPERLINK(1)", metadata: null }),
+    ]);
+
+    expect(csv).toContain(",'=HYPERLINK(1),\r\n");
+  });
+
+  it("writes one JSON object per line", () => {
+    const events = [createAuditEvent(), createAuditEvent({ id: 6 })];
+    const lines = formatAuditEventsAsJsonl(events).split("\n");
+
+    expect(lines).toHaveLength(3);
+    expect(JSON.parse(lines[0])).toEqual(events[0]);
+    expect(JSON.parse(lines[1])).toEqual(events[1]);
+  });
+});
@@ -0,0 +1,237 @@
+import { and, desc, eq, gte, lt, lte, type SQL } from "drizzle-orm";
+import { db, initializeDatabase } from "/src/db/index.ts";
+import { auditEvents, users } from "/src/db/schema.ts";
+import { HttpError } from "/src/http/http_errors.ts";
+import type { RequestContext } from "/src/http/request_context.ts";
+
+export const AUDIT_EVENTS_DEFAULT_PAGE_SIZE = 50;
+export const AUDIT_EVENTS_MAX_PAGE_SIZE = 200;
+export const AUDIT_EVENTS_MAX_EXPORT_ROWS = 10_000;
+/** Set on exports cut off at the row limit; pass it back as `cursor`. */
+export const AUDIT_EXPORT_NEXT_CURSOR_HEADER = "X-Audit-Next-Cursor";
+
+export interface AuditEventFilters {
+  actorUserId?: string;
+  action?: string;
+  resourceType?: string;
+  from?: Date;
+  to?: Date;
+}
+
+export interface AuditEventRecord {
+  id: number;
+  actorUserId: string | null;
+  actorEmail: string | null;
+  actorDisplayName: string | null;
+  organizationId: string | null;
+  workspaceId: string | null;
+  action: string;
+  resourceType: string;
+  resourceId: string | null;
+  metadata: Record<string, unknown> | null;
+  createdAt: string;
+}
+
+const AUDIT_EVENT_EXPORT_COLUMNS = [
+  "id",
+  "createdAt",
+  "actorUserId",
+  "actorEmail",
+  "actorDisplayName",
+  "organizationId",
+  "workspaceId",
+  "action",
+  "resourceType",
+  "resourceId",
+  "metadata",
+] as const;
+
+export function assertCanReadAuditEvents(
+  context: Pick<RequestContext, "organizationRole">,
+) {
+  if (!["owner", "admin"].includes(context.organizationRole)) {
+    throw new HttpError(
+      403,
+      "FORBIDDEN",
+      "Only owner/admin can read audit events",
+    );
+  }
+}
+
+/**
+ * Cursors point at the last event of a page. Event ids grow with insertion
+ * order, so paging by id stays stable while new events are being written.
+ */
+export function encodeAuditEventCursor(lastEventId: number): string {
+  return Buffer.from(`audit:${lastEventId}`, "utf8").toString("base64url");
+}
+
+export function decodeAuditEventCursor(value: string): number {
+  const match = Buffer.from(value, "base64url")
+    .toString("utf8")
+    .match(/^audit:(\d+)$/);
+  const id = match ? Number(match[1]) : Number.NaN;
+  if (!Number.isSafeInteger(id)) {
+    throw new HttpError(400, "INVALID_CURSOR", "Invalid audit event cursor");
+  }
+  return id;
+}
+
+function buildAuditEventConditions(
+  context: RequestContext,
+  filters: AuditEventFilters,
+  beforeEventId: number | null,
+) {
+  const conditions: SQL[] = [eq(auditEvents.organizationId, context.orgId)];
+  if (filters.actorUserId) {
+    conditions.push(eq(auditEvents.actorUserId, filters.actorUserId));
+  }
+  if (filters.action) {
+    conditions.push(eq(auditEvents.action, filters.action));
+  }
+  if (filters.resourceType) {
+    conditions.push(eq(auditEvents.resourceType, filters.resourceType));
+  }
+  if (filters.from) {
+    conditions.push(gte(auditEvents.createdAt, filters.from));
+  }
+  if (filters.to) {
+    conditions.push(lte(auditEvents.createdAt, filters.to));
+  }
+  if (beforeEventId !== null) {
+    conditions.push(lt(auditEvents.id, beforeEventId));
+  }
+  return and(...conditions);
+}
+
+async function selectAuditEvents(params: {
+  context: RequestContext;
+  filters: AuditEventFilters;
+  beforeEventId: number | null;
+  limit: number;
+}) {
+  const rows = await db
+    .select({
+      id: auditEvents.id,
+      actorUserId: auditEvents.actorUserId,
+      actorEmail: users.email,
+      actorDisplayName: users.displayName,
+      organizationId: auditEvents.organizationId,
+      workspaceId: auditEvents.workspaceId,
+      action: auditEvents.action,
+      resourceType: auditEvents.resourceType,
+      resourceId: auditEvents.resourceId,
+      metadata: auditEvents.metadataJson,
+      createdAt: auditEvents.createdAt,
+    })
+    .from(auditEvents)
+    .leftJoin(users, eq(auditEvents.actorUserId, users.id))
+    .where(
+      buildAuditEventConditions(
+        params.context,
+        params.filters,
+        params.beforeEventId,
+      ),
+    )
+    .orderBy(desc(auditEvents.id))
+    .limit(params.limit);
+
+  return rows.map((row) => ({
+    ...row,
+    actorEmail: row.actorEmail ?? null,
+    actorDisplayName: row.actorDisplayName ?? null,
+    metadata: row.metadata ?? null,
+  }));
+}
+
+function toAuditEventRecord(
+  row: Awaited<ReturnType<typeof selectAuditEvents>>[number],
+): AuditEventRecord {
+  return { ...row, createdAt: row.createdAt.toISOString() };
+}
+
+export async function listAuditEventsForScope(params: {
+  context: RequestContext;
+  filters: AuditEventFilters;
+  cursor?: string | null;
+  limit?: number;
+}): Promise<{ events: AuditEventRecord[]; nextCursor: string | null }> {
+  await initializeDatabase();
+  assertCanReadAuditEvents(params.context);
+  const limit = Math.min(
+    params.limit ?? AUDIT_EVENTS_DEFAULT_PAGE_SIZE,
+    AUDIT_EVENTS_MAX_PAGE_SIZE,
+  );
+
+  // One extra row tells whether another page exists.
+  const rows = await selectAuditEvents({
+    context: params.context,
+    filters: params.filters,
+    beforeEventId: params.cursor ? decodeAuditEventCursor(params.cursor) : null,
+    limit: limit + 1,
+  });
+  const page = rows.slice(0, limit);
+  const last = page[page.length - 1];
+  return {
+    events: page.map(toAuditEventRecord),
+    nextCursor:
+      rows.length > limit && last ? encodeAuditEventCursor(last.id) : null,
+  };
+}
+
+/**
+ * Returns at most {@link AUDIT_EVENTS_MAX_EXPORT_ROWS} events; a `nextCursor`
+ * means the export was cut off and continues from that cursor.
+ */
+export async function exportAuditEventsForScope(params: {
+  context: RequestContext;
+  filters: AuditEventFilters;
+  cursor?: string | null;
+}): Promise<{ events: AuditEventRecord[]; nextCursor: string | null }> {
+  await initializeDatabase();
+  assertCanReadAuditEvents(params.context);
+  const rows = await selectAuditEvents({
+    context: params.context,
+    filters: params.filters,
+    beforeEventId: params.cursor ? decodeAuditEventCursor(params.cursor) : null,
+    limit: AUDIT_EVENTS_MAX_EXPORT_ROWS + 1,
+  });
+  const events = rows.slice(0, AUDIT_EVENTS_MAX_EXPORT_ROWS);
+  const last = events[events.length - 1];
+  return {
+    events: events.map(toAuditEventRecord),
+    nextCursor:
+      rows.length > AUDIT_EVENTS_MAX_EXPORT_ROWS && last
+        ? encodeAuditEventCursor(last.id)
+        : null,
+  };
+}
+
+function escapeCsvValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return "";
+  }
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  // Leading formula characters are neutralised so spreadsheets do not
+  // evaluate attacker-controlled metadata.
+  const safeText = /^[=+\-@\t\r]/.test(text) ? `'${text}` : text;
+  return /[",\r\n]/.test(safeText)
+    ? `"${safeText.replace(/"/g, '""')}"`
+    : safeText;
+}
+
+export function formatAuditEventsAsCsv(events: AuditEventRecord[]): string {
+  const lines = [AUDIT_EVENT_EXPORT_COLUMNS.join(",")];
+  for (const event of events) {
+    lines.push(
+      AUDIT_EVENT_EXPORT_COLUMNS.map((column) =>
+        escapeCsvValue(event[column]),
+      ).join(","),
+    );
+  }
+  return `${lines.join("\r\n")}\r\n`;
+}
+
+export function formatAuditEventsAsJsonl(events: AuditEventRecord[]): string {
+  return events.map((event) => `${JSON.stringify(event)}\n`).join("");
+}
@@ -0,0 +1,389 @@
+import { createHash, randomBytes } from "node:crypto";
+import { and, desc, eq, gt, isNull, lt } from "drizzle-orm";
+import { db, initializeDatabase } from "/src/db/index.ts";
+import {
+  authSessionBearerTokens,
+  authSessions,
+  organizationMemberships,
+  users,
+} from "/src/db/schema.ts";
+import { HttpError } from "/src/http/http_errors.ts";
+import { type JwtClaims, validateAndDecodeJwt } from "/src/http/jwt_utils.ts";
+import {
+  upsertUserFromJwtClaims,
+  type RequestContext,
+} from "/src/http/request_context.ts";
+import { getEnvVar } from "/src/ipc/utils/read_env.ts";
+import {
+  decryptSecret,
+  encryptSecret,
+  isSecretEncryptionConfigured,
+} from "/src/ipc/utils/secret_crypto.ts";
+import { log } from "/src/lib/logger.ts";
+
+const logger = log.scope("auth_session_repositories");
+
+const DEFAULT_SESSION_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+export interface ActiveAuthSession {
+  id: string;
+  userId: string;
+  /** `sub` of the tokens issued for this session. */
+  userExternalSub: string;
+  refreshToken: string | null;
+  expiresAt: Date;
+}
+
+function toIsoDate(value: Date | null | undefined): string | null {
+  if (!value) {
+    return null;
+  }
+  return value.toISOString();
+}
+
+function resolveSessionTtlMs(): number {
+  const raw = Number(
+    process.env.AUTH_SESSION_TTL_SECONDS ??
+      getEnvVar("AUTH_SESSION_TTL_SECONDS"),
+  );
+  const seconds =
+    Number.isFinite(raw) && raw > 0 ? raw : DEFAULT_SESSION_TTL_SECONDS;
+  return seconds * 1000;
+}
+
+/** Only the hash of a session token is stored, like a password. */
+export function hashSessionToken(sessionToken: string): string {
+  return createHash("sha256").update(sessionToken).digest("hex");
+}
+
+function encryptRefreshToken(refreshToken: string | null): string | null {
+  if (!refreshToken) {
+    return null;
+  }
+  if (!isSecretEncryptionConfigured()) {
+    // Without a key the session still supports logout and revocation, but
+    // the browser has to sign in again once its access token expires.
+    logger.warn(
+      "BLAZE_SECRETS_KEY is not configured; refresh token is not stored",
+    );
+    return null;
+  }
+  return encryptSecret(refreshToken);
+}
+
+function mapSessionRow(row: typeof authSessions.$inferSelect) {
+  // Neither the session token nor the refresh token leaves the server.
+  return {
+    id: row.id,
+    userId: row.userId,
+    userAgent: row.userAgent ?? null,
+    hasRefreshToken: Boolean(row.refreshTokenEncrypted),
+    createdAt: toIsoDate(row.createdAt),
+    lastUsedAt: toIsoDate(row.lastUsedAt),
+    expiresAt: toIsoDate(row.expiresAt),
+  };
+}
+
+function activeSessionCondition() {
+  return and(
+    isNull(authSessions.revokedAt),
+    gt(authSessions.expiresAt, new Date()),
+  );
+}
+
+/**
+ * Links a bearer token to its session until the token expires, so requests
+ * made with it can be refused once the session is revoked.
+ */
+async function recordSessionBearerToken(params: {
+  sessionId: string;
+  bearerToken: string;
+  claims: Pick<JwtClaims, "exp">;
+  sessionExpiresAt: Date;
+}): Promise<void> {
+  const expiresAt =
+    typeof params.claims.exp === "number"
+      ? new Date(params.claims.exp * 1000)
+      : params.sessionExpiresAt;
+  await db
+    .delete(authSessionBearerTokens)
+    .where(lt(authSessionBearerTokens.expiresAt, new Date()));
+  await db
+    .insert(authSessionBearerTokens)
+    .values({
+      tokenHash: hashSessionToken(params.bearerToken),
+      sessionId: params.sessionId,
+      expiresAt,
+    })
+    .onConflictDoNothing();
+}
+
+/**
+ * Refuses a bearer token issued for a session that was revoked since, e.g. by
+ * logout or by an admin. Tokens not issued through a session pass.
+ */
+export async function assertBearerTokenSessionActive(
+  bearerToken: string,
+): Promise<void> {
+  const [row] = await db
+    .select({ revokedAt: authSessions.revokedAt })
+    .from(authSessionBearerTokens)
+    .innerJoin(
+      authSessions,
+      eq(authSessionBearerTokens.sessionId, authSessions.id),
+    )
+    .where(eq(authSessionBearerTokens.tokenHash, hashSessionToken(bearerToken)))
+    .limit(1);
+  if (row?.revokedAt) {
+    throw new HttpError(401, "AUTH_SESSION_REVOKED", "Auth session is revoked");
+  }
+}
+
+/**
+ * Opens a server-side session for a freshly exchanged OAuth2 login. The
+ * bearer token is verified the same way API requests verify it, so a session
+ * always belongs to a user the API would accept.
+ */
+export async function createAuthSessionForToken(params: {
+  bearerToken: string;
+  refreshToken: string | null;
+  userAgent?: string | null;
+}): Promise<{ sessionId: string; sessionToken: string; expiresAt: string }> {
+  await initializeDatabase();
+  let claims;
+  try {
+    claims = await validateAndDecodeJwt(params.bearerToken);
+  } catch (error) {
+    throw new HttpError(
+      401,
+      "UNAUTHORIZED",
+      error instanceof Error ? error.message : "Invalid OAuth2 token",
+    );
+  }
+
+  const user = await upsertUserFromJwtClaims(claims);
+  const sessionToken = randomBytes(32).toString("base64url");
+  const [row] = await db
+    .insert(authSessions)
+    .values({
+      userId: user.id,
+      sessionTokenHash: hashSessionToken(sessionToken),
+      refreshTokenEncrypted: encryptRefreshToken(params.refreshToken),
+      userAgent: params.userAgent?.slice(0, 512) || null,
+      expiresAt: new Date(Date.now() + resolveSessionTtlMs()),
+    })
+    .returning();
+  await recordSessionBearerToken({
+    sessionId: row.id,
+    bearerToken: params.bearerToken,
+    claims,
+    sessionExpiresAt: row.expiresAt,
+  });
+
+  return {
+    sessionId: row.id,
+    sessionToken,
+    expiresAt: row.expiresAt.toISOString(),
+  };
+}
+
+export async function getActiveAuthSessionByToken(
+  sessionToken: string,
+): Promise<ActiveAuthSession> {
+  await initializeDatabase();
+  const [row] = await db
+    .select({
+      id: authSessions.id,
+      userId: authSessions.userId,
+      userExternalSub: users.externalSub,
+      refreshTokenEncrypted: authSessions.refreshTokenEncrypted,
+      expiresAt: authSessions.expiresAt,
+    })
+    .from(authSessions)
+    .innerJoin(users, eq(authSessions.userId, users.id))
+    .where(
+      and(
+        eq(authSessions.sessionTokenHash, hashSessionToken(sessionToken)),
+        activeSessionCondition(),
+      ),
+    )
+    .limit(1);
+  if (!row) {
+    throw new HttpError(
+      401,
+      "AUTH_SESSION_INVALID",
+      "Auth session is expired or revoked",
+    );
+  }
+
+  return {
+    id: row.id,
+    userId: row.userId,
+    userExternalSub: row.userExternalSub,
+    refreshToken: row.refreshTokenEncrypted
+      ? decryptSecret(row.refreshTokenEncrypted)
+      : null,
+    expiresAt: row.expiresAt,
+  };
+}
+
+/**
+ * Marks a session as used after a refresh, storing the rotated refresh token
+ * if any and linking the new bearer token to the session.
+ */
+export async function touchAuthSession(params: {
+  session: Pick<ActiveAuthSession, "id" | "expiresAt">;
+  refreshToken: string | null;
+  bearerToken: string;
+  claims: Pick<JwtClaims, "exp">;
+}): Promise<void> {
+  await initializeDatabase();
+  await db
+    .update(authSessions)
+    .set({
+      lastUsedAt: new Date(),
+      refreshTokenEncrypted: params.refreshToken
+        ? encryptRefreshToken(params.refreshToken)
+        : undefined,
+    })
+    .where(eq(authSessions.id, params.session.id));
+  await recordSessionBearerToken({
+    sessionId: params.session.id,
+    bearerToken: params.bearerToken,
+    claims: params.claims,
+    sessionExpiresAt: params.session.expiresAt,
+  });
+}
+
+export async function revokeAuthSession(params: {
+  sessionId: string;
+  revokedByUserId?: string | null;
+}): Promise<void> {
+  await initializeDatabase();
+  await db
+    .update(authSessions)
+    .set({
+      revokedAt: new Date(),
+      revokedByUserId: params.revokedByUserId ?? null,
+      refreshTokenEncrypted: null,
+    })
+    .where(
+      and(
+        eq(authSessions.id, params.sessionId),
+        isNull(authSessions.revokedAt),
+      ),
+    );
+}
+
+/** Logout is idempotent: unknown or already revoked tokens are ignored. */
+export async function revokeAuthSessionByToken(
+  sessionToken: string,
+): Promise<void> {
+  await initializeDatabase();
+  const [row] = await db
+    .select({ id: authSessions.id, userId: authSessions.userId })
+    .from(authSessions)
+    .where(eq(authSessions.sessionTokenHash, hashSessionToken(sessionToken)))
+    .limit(1);
+  if (!row) {
+    return;
+  }
+  await revokeAuthSession({ sessionId: row.id, revokedByUserId: row.userId });
+}
+
+async function getManagedMemberUserId(
+  context: RequestContext,
+  membershipId: number,
+): Promise<string | null> {
+  const [member] = await db
+    .select({
+      userId: organizationMemberships.userId,
+      role: organizationMemberships.role,
+    })
+    .from(organizationMemberships)
+    .where(
+      and(
+        eq(organizationMemberships.id, membershipId),
+        eq(organizationMemberships.organizationId, context.orgId),
+      ),
+    )
+    .limit(1);
+  if (!member) {
+    throw new HttpError(404, "MEMBER_NOT_FOUND", "Member not found");
+  }
+  // Sessions stay an owner/admin tool, but only owners act on other owners.
+  if (
+    context.organizationRole !== "owner" &&
+    (context.organizationRole !== "admin" || member.role === "owner")
+  ) {
+    throw new HttpError(
+      403,
+      "FORBIDDEN",
+      "Only owner/admin can manage member sessions",
+    );
+  }
+  return member.userId;
+}
+
+export async function listActiveAuthSessionsForMember(params: {
+  context: RequestContext;
+  membershipId: number;
+}) {
+  await initializeDatabase();
+  const userId = await getManagedMemberUserId(
+    params.context,
+    params.membershipId,
+  );
+  if (!userId) {
+    // Pending invitations have no user and therefore no sessions.
+    return [];
+  }
+
+  const rows = await db
+    .select()
+    .from(authSessions)
+    .where(and(eq(authSessions.userId, userId), activeSessionCondition()))
+    .orderBy(desc(authSessions.lastUsedAt));
+  return rows.map(mapSessionRow);
+}
+
+/**
+ * Revokes one active session of a member, or all of them when `sessionId` is
+ * omitted. Returns the ids of the sessions that were revoked.
+ */
+export async function revokeAuthSessionsForMember(params: {
+  context: RequestContext;
+  membershipId: number;
+  sessionId?: string;
+}): Promise<{ userId: string | null; sessionIds: string[] }> {
+  await initializeDatabase();
+  const userId = await getManagedMemberUserId(
+    params.context,
+    params.membershipId,
+  );
+  const conditions = [activeSessionCondition()];
+  if (params.sessionId) {
+    conditions.push(eq(authSessions.id, params.sessionId));
+  }
+
+  const rows = userId
+    ? await db
+        .update(authSessions)
+        .set({
+          revokedAt: new Date(),
+          revokedByUserId: params.context.userId,
+          refreshTokenEncrypted: null,
+        })
+        .where(and(eq(authSessions.userId, userId), ...conditions))
+        .returning({ id: authSessions.id })
+    : [];
+  if (params.sessionId && rows.length === 0) {
+    throw new HttpError(
+      404,
+      "AUTH_SESSION_NOT_FOUND",
+      `Auth session not found: ${params.sessionId}`,
+    );
+  }
+
+  return { userId, sessionIds: rows.map((row) => row.id) };
+}
@@ -3,7 +3,9 @@ import type { ChatResponseEnd } from "../ipc/ipc_types";
 export type ChatStreamEventName =
   | "chat:response:chunk"
   | "chat:response:error"
-  | "chat:response:end";
+  | "chat:response:end"
+  | "mcp:tool-consent-request"
+  | "agent-tool:consent-request";
 
 export interface ChatStreamEvent {
   event: ChatStreamEventName;
@@ -14,6 +16,10 @@ export interface ChatStreamStableEmitter {
   emitChunk(payload: unknown): void;
   emitError(payload: unknown): void;
   emitEnd(payload: ChatResponseEnd): void;
+  /** Asks the client to approve an MCP tool call; dropped after the end. */
+  emitMcpToolConsentRequest(payload: unknown): void;
+  /** Asks the client to approve an agent tool call; dropped after the end. */
+  emitAgentToolConsentRequest(payload: unknown): void;
   isEnded(): boolean;
 }
 
@@ -54,6 +60,12 @@ export function createChatStreamStableEmitter(params: {
         payload,
       });
     },
+    emitMcpToolConsentRequest(payload) {
+      emitEvent("mcp:tool-consent-request", payload);
+    },
+    emitAgentToolConsentRequest(payload) {
+      emitEvent("agent-tool:consent-request", payload);
+    },
     isEnded() {
       return ended;
     },
@@ -12,6 +12,7 @@ const {
   mockEnsureChatInScope,
   mockEnforceAndRecordUsage,
   mockWriteAuditEvent,
+  mockReadUserSettingsForScope,
 } = vi.hoisted(() => ({
   mockHandleChatStreamRequest: vi.fn(),
   mockHandleChatCancelRequest: vi.fn(),
@@ -20,6 +21,7 @@ const {
   mockEnsureChatInScope: vi.fn(),
   mockEnforceAndRecordUsage: vi.fn(),
   mockWriteAuditEvent: vi.fn(),
+  mockReadUserSettingsForScope: vi.fn(),
 }));
 
 vi.mock("../db", () => ({
@@ -42,6 +44,7 @@ function createMiddleware() {
     ensureChatInScope: mockEnsureChatInScope,
     enforceAndRecordUsage: mockEnforceAndRecordUsage,
     writeAuditEvent: mockWriteAuditEvent,
+    readUserSettingsForScope: mockReadUserSettingsForScope,
   });
 }
 
@@ -129,8 +132,11 @@ describe("createChatStreamMiddleware", () => {
       id: 1,
       appId: 1,
     });
-    mockEnforceAndRecordUsage.mockResolvedValue(undefined);
+    mockEnforceAndRecordUsage.mockResolvedValue({ downgradeModel: null });
     mockWriteAuditEvent.mockResolvedValue(undefined);
+    mockReadUserSettingsForScope.mockResolvedValue({
+      selectedModel: { provider: "openai", name: "gpt-4.1" },
+    });
   });
 
   it("initializes database once when middleware is created", () => {
@@ -344,6 +350,105 @@ describe("createChatStreamMiddleware", () => {
     expect(next).not.toHaveBeenCalled();
   });
 
+  it("runs each user's stream with that user's settings", async () => {
+    const contexts = {
+      "user-1": { userId: "user-1", orgId: "org-1", workspaceId: "ws-1" },
+      "user-2": { userId: "user-2", orgId: "org-1", workspaceId: "ws-1" },
+    };
+    const selectedModels = {
+      "user-1": { provider: "openai", name: "gpt-4.1" },
+      "user-2": { provider: "anthropic", name: "claude-sonnet-4" },
+    };
+    mockReadUserSettingsForScope.mockImplementation(
+      async (context: { userId: keyof typeof selectedModels }) => ({
+        selectedModel: selectedModels[context.userId],
+      }),
+    );
+    mockHandleChatStreamRequest.mockImplementation(
+      async (eventSink: any, request: ChatStreamParams) => {
+        eventSink.send("chat:response:end", {
+          chatId: request.chatId,
+          updatedFiles: false,
+        });
+      },
+    );
+
+    const middleware = createMiddleware();
+    for (const userId of ["user-1", "user-2"] as const) {
+      mockResolveRequestContext.mockResolvedValueOnce(contexts[userId]);
+      await middleware(
+        createMockRequest({
+          method: "POST",
+          url: "/api/v1/orgs/org-1/workspaces/ws-1/chats/22/stream",
+          body: JSON.stringify({ prompt: "Build a landing page" }),
+        }),
+        createMockResponse().response,
+        vi.fn(),
+      );
+    }
+
+    expect(mockReadUserSettingsForScope).toHaveBeenCalledWith(
+      contexts["user-1"],
+    );
+    expect(mockReadUserSettingsForScope).toHaveBeenCalledWith(
+      contexts["user-2"],
+    );
+    expect(
+      mockHandleChatStreamRequest.mock.calls.map(([, request]) => [
+        request.userId,
+        request.settings.selectedModel,
+      ]),
+    ).toEqual([
+      ["user-1", selectedModels["user-1"]],
+      ["user-2", selectedModels["user-2"]],
+    ]);
+  });
+
+  it("passes the requested chat mode to the stream handler", async () => {
+    mockHandleChatStreamRequest.mockImplementationOnce(
+      async (eventSink: any, request: ChatStreamParams) => {
+        eventSink.send("chat:response:end", {
+          chatId: request.chatId,
+          updatedFiles: false,
+        });
+      },
+    );
+
+    const middleware = createMiddleware();
+    const req = createMockRequest({
+      method: "POST",
+      url: "/api/v1/orgs/org-1/workspaces/ws-1/chats/22/stream",
+      body: JSON.stringify({
+        prompt: "Refactor the header",
+        chatMode: "agent",
+      }),
+    });
+    const { response } = createMockResponse();
+
+    await middleware(req, response, vi.fn());
+
+    expect(response.statusCode).toBe(200);
+    expect(mockHandleChatStreamRequest).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ chatId: 22, chatMode: "agent" }),
+    );
+
+    const reqInvalidMode = createMockRequest({
+      method: "POST",
+      url: "/api/v1/orgs/org-1/workspaces/ws-1/chats/22/stream",
+      body: JSON.stringify({
+        prompt: "Refactor the header",
+        chatMode: "local-agent",
+      }),
+    });
+    const responseInvalidMode = createMockResponse();
+    await middleware(reqInvalidMode, responseInvalidMode.response, vi.fn());
+    expect(responseInvalidMode.response.statusCode).toBe(400);
+    expect(JSON.parse(responseInvalidMode.getBody())).toEqual({
+      error: 'Invalid payload: "chatMode" must be one of build, ask, agent',
+    });
+  });
+
   it("ignores non-chat stream channels in HTTP-only mode", async () => {
     mockHandleChatStreamRequest.mockImplementationOnce(
       async (eventSink: any, request: ChatStreamParams) => {
@@ -351,9 +456,39 @@ describe("createChatStreamMiddleware", () => {
           requestId: "mcp-1",
           chatId: request.chatId,
         });
+        eventSink.send("app:output", {
+          appId: 1,
+          message: "compiled",
+        });
+        eventSink.send("chat:response:end", {
+          chatId: request.chatId,
+          updatedFiles: false,
+        });
+      },
+    );
+
+    const middleware = createMiddleware();
+    const req = createMockRequest({
+      method: "POST",
+      url: "/api/v1/orgs/org-1/workspaces/ws-1/chats/22/stream",
+      body: JSON.stringify({ prompt: "Ignore non-chat channels" }),
+    });
+    const { response, getBody } = createMockResponse();
+
+    await middleware(req, response, vi.fn());
+
+    expect(response.statusCode).toBe(200);
+    expect(getBody()).toContain("event: chat:response:end");
+    expect(getBody()).not.toContain("app:output");
+  });
+
+  it("forwards agent tool consent prompts with the requesting user", async () => {
+    mockHandleChatStreamRequest.mockImplementationOnce(
+      async (eventSink: any, request: ChatStreamParams) => {
         eventSink.send("agent-tool:consent-request", {
           requestId: "agent-1",
           chatId: request.chatId,
+          toolName: "web_crawl",
         });
         eventSink.send("chat:response:end", {
           chatId: request.chatId,
@@ -366,16 +501,72 @@ describe("createChatStreamMiddleware", () => {
     const req = createMockRequest({
       method: "POST",
       url: "/api/v1/orgs/org-1/workspaces/ws-1/chats/22/stream",
-      body: JSON.stringify({ prompt: "Ignore non-chat channels" }),
+      body: JSON.stringify({ prompt: "Crawl the docs", chatMode: "agent" }),
     });
     const { response, getBody } = createMockResponse();
 
     await middleware(req, response, vi.fn());
 
     expect(response.statusCode).toBe(200);
-    expect(getBody()).toContain("event: chat:response:end");
-    expect(getBody()).not.toContain("mcp:tool-consent-request");
-    expect(getBody()).not.toContain("agent-tool:consent-request");
+    expect(getBody()).toContain("event: agent-tool:consent-request");
+    expect(getBody()).toContain('"toolName":"web_crawl"');
+    expect(mockHandleChatStreamRequest).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ chatId: 22, userId: "user-1" }),
+    );
+  });
+
+  it("forwards MCP consent prompts and audits MCP tool calls", async () => {
+    mockHandleChatStreamRequest.mockImplementationOnce(
+      async (eventSink: any, request: ChatStreamParams) => {
+        eventSink.send("mcp:tool-consent-request", {
+          requestId: "mcp-1",
+          chatId: request.chatId,
+          toolName: "search",
+        });
+        eventSink.send("mcp:tool-call", {
+          chatId: request.chatId,
+          serverId: 7,
+          serverName: "docs",
+          toolName: "search",
+          status: "success",
+          durationMs: 12,
+        });
+        eventSink.send("chat:response:end", {
+          chatId: request.chatId,
+          updatedFiles: false,
+        });
+      },
+    );
+
+    const middleware = createMiddleware();
+    const req = createMockRequest({
+      method: "POST",
+      url: "/api/v1/orgs/org-1/workspaces/ws-1/chats/22/stream",
+      body: JSON.stringify({ prompt: "Search the docs" }),
+    });
+    const { response, getBody } = createMockResponse();
+
+    await middleware(req, response, vi.fn());
+
+    expect(getBody()).toContain(
+      'event: mcp:tool-consent-request\ndata: {"requestId":"mcp-1","chatId":22,"toolName":"search"}',
+    );
+    expect(getBody()).not.toContain("event: mcp:tool-call");
+    expect(mockWriteAuditEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: "mcp_tool_call",
+        resourceType: "mcp_server",
+        resourceId: 7,
+        metadata: {
+          transport: "sse",
+          chatId: 22,
+          toolName: "search",
+          status: "success",
+          durationMs: 12,
+        },
+      }),
+    );
   });
 
   it("supports scoped SSE stream route", async () => {
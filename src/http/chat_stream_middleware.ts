@@ -1,8 +1,11 @@
 import type { IncomingMessage, ServerResponse } from "node:http";
 import { initializeDatabase } from "/src/db/index.ts";
 import type { ChatResponseEnd, ChatStreamParams } from "/src/ipc/ipc_types.ts";
+import type { UserSettings } from "/src/lib/schemas.ts";
+import type { readUserSettingsForScope } from "/src/http/ipc_http_gateway.ts";
 import {
   parseOptionalAttachments,
+  parseOptionalChatMode,
   parseOptionalSelectedComponents,
 } from "/src/http/chat_stream_payload_validation.ts";
 import {
@@ -14,8 +17,14 @@ import {
   enforceAndRecordUsage,
   writeAuditEvent,
 } from "/src/http/quota_audit.ts";
+import type { RequestContext } from "/src/http/request_context.ts";
 import { resolveRequestContext } from "/src/http/request_context.ts";
 import { ensureChatInScope } from "/src/http/scoped_repositories.ts";
+import type { ChatStreamEventName } from "/src/http/chat_stream_core.ts";
+import {
+  MCP_TOOL_CALL_EVENT,
+  type McpToolCallReport,
+} from "/src/ipc/utils/mcp_chat_tools.ts";
 
 type Next = (error?: unknown) => void;
 
@@ -43,12 +52,23 @@ function defaultLoadChatStreamHandlers(): Promise<ChatStreamHandlerModule> {
   );
 }
 
+/** Resolves the DB-backed settings of the user a stream runs for. */
+async function defaultReadUserSettingsForScope(
+  context: RequestContext,
+): Promise<UserSettings> {
+  const gateway = await dynamicImportModule<
+    typeof import("/src/http/ipc_http_gateway.ts")
+  >("/src/http/ipc_http_gateway.ts");
+  return gateway.readUserSettingsForScope(context);
+}
+
 interface ChatStreamMiddlewareOptions {
   loadChatStreamHandlers?: ChatStreamHandlersLoader;
   resolveRequestContext?: typeof resolveRequestContext;
   ensureChatInScope?: typeof ensureChatInScope;
   enforceAndRecordUsage?: typeof enforceAndRecordUsage;
   writeAuditEvent?: typeof writeAuditEvent;
+  readUserSettingsForScope?: typeof readUserSettingsForScope;
 }
 
 async function readJsonBody(req: IncomingMessage): Promise<unknown> {
@@ -69,6 +89,7 @@ const STREAM_PAYLOAD_ALLOWED_KEYS = new Set([
   "redo",
   "attachments",
   "selectedComponents",
+  "chatMode",
 ]);
 
 function parseChatStreamPayload(rawPayload: unknown): {
@@ -76,6 +97,7 @@ function parseChatStreamPayload(rawPayload: unknown): {
   redo?: boolean;
   attachments?: ChatStreamParams["attachments"];
   selectedComponents?: ChatStreamParams["selectedComponents"];
+  chatMode?: ChatStreamParams["chatMode"];
 } {
   if (
     !rawPayload ||
@@ -118,12 +140,19 @@ function parseChatStreamPayload(rawPayload: unknown): {
       'Invalid payload: "selectedComponents" must be an array of valid component selections',
     );
   }
+  const chatMode = parseOptionalChatMode(payload.chatMode);
+  if (chatMode === null) {
+    throw new Error(
+      'Invalid payload: "chatMode" must be one of build, ask, agent',
+    );
+  }
 
   return {
     prompt,
     redo: payload.redo === true ? true : undefined,
     attachments,
     selectedComponents,
+    chatMode,
   };
 }
 
@@ -135,7 +164,7 @@ function writeJson(res: ServerResponse, statusCode: number, body: unknown) {
 
 function writeSseEvent(
   res: ServerResponse,
-  event: "chat:response:chunk" | "chat:response:end" | "chat:response:error",
+  event: ChatStreamEventName,
   payload: unknown,
 ) {
   if (res.writableEnded || res.destroyed) {
@@ -152,10 +181,22 @@ function createNoopEvent(): ServerEventSink {
 function createHttpEvent(
   res: ServerResponse,
   onEnd: (payload: ChatResponseEnd) => void,
+  onMcpToolCall: (report: McpToolCallReport) => void,
 ): ServerEventSink {
   return {
     send: (channel: string, ...args: unknown[]) => {
       const payload = args[0];
+      if (
+        channel === "mcp:tool-consent-request" ||
+        channel === "agent-tool:consent-request"
+      ) {
+        writeSseEvent(res, channel, payload);
+        return;
+      }
+      if (channel === MCP_TOOL_CALL_EVENT) {
+        onMcpToolCall(payload as McpToolCallReport);
+        return;
+      }
       if (
         channel === "chat:response:chunk" ||
         channel === "chat:response:error" ||
@@ -245,6 +286,8 @@ export function createChatStreamMiddleware(
   const ensureChatScoped = options?.ensureChatInScope ?? ensureChatInScope;
   const enforceUsage = options?.enforceAndRecordUsage ?? enforceAndRecordUsage;
   const recordAudit = options?.writeAuditEvent ?? writeAuditEvent;
+  const readScopedSettings =
+    options?.readUserSettingsForScope ?? defaultReadUserSettingsForScope;
 
   return async (req: IncomingMessage, res: ServerResponse, next: Next) => {
     const method = req.method?.toUpperCase();
@@ -311,12 +354,7 @@ export function createChatStreamMiddleware(
         return;
       }
 
-      let payload: {
-        prompt: string;
-        redo?: boolean;
-        attachments?: ChatStreamParams["attachments"];
-        selectedComponents?: ChatStreamParams["selectedComponents"];
-      };
+      let payload: ReturnType<typeof parseChatStreamPayload>;
       try {
         const rawPayload = await readJsonBody(req);
         payload = parseChatStreamPayload(rawPayload);
@@ -333,10 +371,11 @@ export function createChatStreamMiddleware(
         return;
       }
 
-      await enforceUsage({
+      const { downgradeModel } = await enforceUsage({
         context: requestContext,
         metricType: "requests",
         value: 1,
+        enforceBudget: true,
       });
 
       const streamRequest: ChatStreamParams = {
@@ -345,6 +384,10 @@ export function createChatStreamMiddleware(
         redo: payload.redo,
         attachments: payload.attachments,
         selectedComponents: payload.selectedComponents,
+        chatMode: payload.chatMode,
+        userId: requestContext.userId,
+        modelOverride: downgradeModel ?? undefined,
+        settings: await readScopedSettings(requestContext),
       };
 
       res.statusCode = 200;
@@ -381,6 +424,8 @@ export function createChatStreamMiddleware(
             context: requestContext,
             metricType: "tokens",
             value: payload.totalTokens,
+            model: payload.model,
+            costMicroUsd: payload.costMicroUsd,
           }).catch((error) => {
             console.error(
               "[chat_stream_middleware] token usage record failed",
@@ -405,7 +450,23 @@ export function createChatStreamMiddleware(
         });
       };
 
-      const event = createHttpEvent(res, onStreamEnd);
+      const onMcpToolCall = (report: McpToolCallReport) => {
+        void recordAudit({
+          context: requestContext,
+          action: "mcp_tool_call",
+          resourceType: "mcp_server",
+          resourceId: report.serverId,
+          metadata: {
+            transport: "sse",
+            chatId: routeState.chatId,
+            toolName: report.toolName,
+            status: report.status,
+            durationMs: report.durationMs,
+          },
+        });
+      };
+
+      const event = createHttpEvent(res, onStreamEnd, onMcpToolCall);
       activeHttpEvents.set(routeState.chatId, event);
 
       let handleChatCancelRequest:
@@ -1,4 +1,5 @@
 import type { ChatStreamParams, ComponentSelection } from "../ipc/ipc_types";
+import { ChatModeSchema } from "../lib/schemas";
 
 type AttachmentType = NonNullable<
   ChatStreamParams["attachments"]
@@ -165,3 +166,12 @@ export function parseOptionalSelectedComponents(
   }
   return parsed as ChatStreamParams["selectedComponents"];
 }
+
+export function parseOptionalChatMode(
+  value: unknown,
+): ChatStreamParams["chatMode"] | undefined | null {
+  if (value === undefined) {
+    return undefined;
+  }
+  return ChatModeSchema.safeParse(value).data ?? null;
+}
@@ -120,6 +120,40 @@ describe("chat_ws_adapter", () => {
         }),
       ),
     ).toThrow("Invalid start_chat_stream payload");
+
+    expect(() =>
+      parseWsClientMessage(
+        JSON.stringify({
+          type: "start_chat_stream",
+          requestId: "req-1",
+          orgId: "org-1",
+          workspaceId: "ws-1",
+          chatId: 11,
+          prompt: "Build a page",
+          chatMode: "local-agent",
+        }),
+      ),
+    ).toThrow("Invalid start_chat_stream payload");
+  });
+
+  it("parses start_chat_stream chat mode", () => {
+    const parsed = parseWsClientMessage(
+      JSON.stringify({
+        type: "start_chat_stream",
+        requestId: "req-3",
+        orgId: "org-1",
+        workspaceId: "ws-1",
+        chatId: 11,
+        prompt: "Build a page",
+        chatMode: "agent",
+      }),
+    );
+
+    expect(parsed).toMatchObject({
+      type: "start_chat_stream",
+      chatId: 11,
+      chatMode: "agent",
+    });
   });
 
   it("rejects start_chat_stream payload with unsupported top-level keys", () => {
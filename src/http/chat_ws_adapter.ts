@@ -1,11 +1,13 @@
 import type { ChatStreamParams } from "../ipc/ipc_types";
+import type { ChatStreamEventName } from "/src/http/chat_stream_core.ts";
 import {
   parseOptionalAttachments,
+  parseOptionalChatMode,
   parseOptionalSelectedComponents,
 } from "/src/http/chat_stream_payload_validation.ts";
 
 export interface WsStartChatStreamMessage
-  extends Omit<ChatStreamParams, "chatId" | "prompt"> {
+  extends Omit<ChatStreamParams, "chatId" | "prompt" | "modelOverride"> {
   type: "start_chat_stream";
   requestId: string;
   orgId: string;
@@ -24,7 +26,7 @@ export type WsClientMessage =
   | WsCancelChatStreamMessage;
 
 export interface WsServerEvent {
-  event: "chat:response:chunk" | "chat:response:error" | "chat:response:end";
+  event: ChatStreamEventName;
   requestId?: string;
   payload: unknown;
 }
@@ -39,6 +41,7 @@ const START_CHAT_STREAM_ALLOWED_KEYS = new Set([
   "redo",
   "attachments",
   "selectedComponents",
+  "chatMode",
 ]);
 
 const CANCEL_CHAT_STREAM_ALLOWED_KEYS = new Set(["type", "requestId"]);
@@ -100,6 +103,7 @@ export function parseWsClientMessage(raw: string): WsClientMessage {
     const selectedComponents = parseOptionalSelectedComponents(
       msg.selectedComponents,
     );
+    const chatMode = parseOptionalChatMode(msg.chatMode);
     if (
       !requestId ||
       !orgId ||
@@ -108,7 +112,8 @@ export function parseWsClientMessage(raw: string): WsClientMessage {
       !prompt ||
       redo === null ||
       attachments === null ||
-      selectedComponents === null
+      selectedComponents === null ||
+      chatMode === null
     ) {
       throw new Error("Invalid start_chat_stream payload");
     }
@@ -122,6 +127,7 @@ export function parseWsClientMessage(raw: string): WsClientMessage {
       redo,
       attachments,
       selectedComponents,
+      chatMode,
     };
   }
 
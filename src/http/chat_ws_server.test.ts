@@ -15,6 +15,11 @@ const baseContext = {
   authSource: "dev-bypass",
 } as const;
 
+const userSettings = {
+  selectedModel: { provider: "anthropic", name: "claude-sonnet-4" },
+};
+const readUserSettings = vi.fn().mockResolvedValue(userSettings);
+
 describe("chat_ws_server", () => {
   it("streams start_chat_stream messages with requestId and writes usage/audit", async () => {
     const sent: Array<{
@@ -23,7 +28,7 @@ describe("chat_ws_server", () => {
       payload: any;
     }> = [];
 
-    const enforceUsage = vi.fn().mockResolvedValue(undefined);
+    const enforceUsage = vi.fn().mockResolvedValue({ downgradeModel: null });
     const recordAudit = vi.fn().mockResolvedValue(undefined);
 
     const session = createChatWsSession({
@@ -34,6 +39,7 @@ describe("chat_ws_server", () => {
       isOpen: () => true,
       resolveRequestContext: vi.fn().mockResolvedValue(baseContext),
       ensureChatInScope: vi.fn().mockResolvedValue(undefined),
+      readUserSettingsForScope: readUserSettings,
       enforceAndRecordUsage: enforceUsage,
       writeAuditEvent: recordAudit,
       loadChatStreamHandlers: async () =>
@@ -50,6 +56,7 @@ describe("chat_ws_server", () => {
               chatId: req.chatId,
               updatedFiles: false,
               totalTokens: 7,
+              model: "gpt-5",
             });
           },
           handleChatCancelRequest: async () => true,
@@ -88,6 +95,7 @@ describe("chat_ws_server", () => {
           chatId: 42,
           updatedFiles: false,
           totalTokens: 7,
+          model: "gpt-5",
         },
       },
     ]);
@@ -96,11 +104,13 @@ describe("chat_ws_server", () => {
       context: baseContext,
       metricType: "requests",
       value: 1,
+      enforceBudget: true,
     });
     expect(enforceUsage).toHaveBeenCalledWith({
       context: baseContext,
       metricType: "tokens",
       value: 7,
+      model: "gpt-5",
     });
 
     expect(recordAudit).toHaveBeenCalledWith(
@@ -121,6 +131,66 @@ describe("chat_ws_server", () => {
     );
   });
 
+  it("passes the user's settings and the budget downgrade model to the chat stream", async () => {
+    const downgradeModel = { provider: "openai", name: "gpt-5-mini" };
+    const handleChatStreamRequest = vi.fn(async (eventSink: any, req: any) => {
+      eventSink.send("chat:response:end", {
+        chatId: req.chatId,
+        updatedFiles: false,
+        totalTokens: 12,
+        model: downgradeModel.name,
+        costMicroUsd: 340,
+      });
+    });
+    const enforceUsage = vi.fn().mockResolvedValue({ downgradeModel });
+
+    const session = createChatWsSession({
+      req: { headers: {} } as IncomingMessage,
+      send: () => {},
+      isOpen: () => true,
+      resolveRequestContext: vi.fn().mockResolvedValue(baseContext),
+      ensureChatInScope: vi.fn().mockResolvedValue(undefined),
+      readUserSettingsForScope: readUserSettings,
+      enforceAndRecordUsage: enforceUsage,
+      writeAuditEvent: vi.fn().mockResolvedValue(undefined),
+      loadChatStreamHandlers: async () =>
+        ({
+          handleChatStreamRequest,
+          handleChatCancelRequest: async () => true,
+        }) as any,
+    });
+
+    await session.handleRawMessage(
+      Buffer.from(
+        JSON.stringify({
+          type: "start_chat_stream",
+          requestId: "req-budget",
+          orgId: "org-1",
+          workspaceId: "ws-1",
+          chatId: 7,
+          prompt: "Fix the header",
+        }),
+      ),
+    );
+    await Promise.resolve();
+
+    expect(handleChatStreamRequest).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({
+        chatId: 7,
+        modelOverride: downgradeModel,
+        settings: userSettings,
+      }),
+    );
+    expect(enforceUsage).toHaveBeenCalledWith({
+      context: baseContext,
+      metricType: "tokens",
+      value: 12,
+      model: "gpt-5-mini",
+      costMicroUsd: 340,
+    });
+  });
+
   it("cancels active stream by requestId", async () => {
     const sent: Array<{ event: string; requestId?: string; payload: any }> = [];
 
@@ -147,7 +217,10 @@ describe("chat_ws_server", () => {
       isOpen: () => true,
       resolveRequestContext: vi.fn().mockResolvedValue(baseContext),
       ensureChatInScope: vi.fn().mockResolvedValue(undefined),
-      enforceAndRecordUsage: vi.fn().mockResolvedValue(undefined),
+      readUserSettingsForScope: readUserSettings,
+      enforceAndRecordUsage: vi
+        .fn()
+        .mockResolvedValue({ downgradeModel: null }),
       writeAuditEvent: vi.fn().mockResolvedValue(undefined),
       loadChatStreamHandlers: async () =>
         ({
@@ -200,7 +273,7 @@ describe("chat_ws_server", () => {
     });
   });
 
-  it("ignores non-chat stream channels in HTTP-only mode", async () => {
+  it("forwards consent prompts and ignores other non-chat channels", async () => {
     const sent: Array<{
       event: string;
       requestId?: string;
@@ -215,7 +288,10 @@ describe("chat_ws_server", () => {
       isOpen: () => true,
       resolveRequestContext: vi.fn().mockResolvedValue(baseContext),
       ensureChatInScope: vi.fn().mockResolvedValue(undefined),
-      enforceAndRecordUsage: vi.fn().mockResolvedValue(undefined),
+      readUserSettingsForScope: readUserSettings,
+      enforceAndRecordUsage: vi
+        .fn()
+        .mockResolvedValue({ downgradeModel: null }),
       writeAuditEvent: vi.fn().mockResolvedValue(undefined),
       loadChatStreamHandlers: async () =>
         ({
@@ -231,6 +307,7 @@ describe("chat_ws_server", () => {
               requestId: "agent-1",
               chatId: req.chatId,
             });
+            eventSink.send("app:output", { appId: 1, message: "compiled" });
             eventSink.send("chat:response:end", {
               chatId: req.chatId,
               updatedFiles: false,
@@ -254,6 +331,22 @@ describe("chat_ws_server", () => {
     );
 
     expect(sent).toEqual([
+      {
+        event: "mcp:tool-consent-request",
+        requestId: "req-3",
+        payload: {
+          requestId: "mcp-1",
+          chatId: 99,
+        },
+      },
+      {
+        event: "agent-tool:consent-request",
+        requestId: "req-3",
+        payload: {
+          requestId: "agent-1",
+          chatId: 99,
+        },
+      },
       {
         event: "chat:response:end",
         requestId: "req-3",
@@ -3,6 +3,8 @@ import type { Duplex } from "node:stream";
 import { WebSocket, WebSocketServer, type RawData } from "ws";
 import { initializeDatabase } from "/src/db/index.ts";
 import type { ChatResponseEnd, ChatStreamParams } from "/src/ipc/ipc_types.ts";
+import type { UserSettings } from "/src/lib/schemas.ts";
+import type { readUserSettingsForScope } from "/src/http/ipc_http_gateway.ts";
 import type { ServerEventSink } from "/src/ipc/utils/server_event_sink.ts";
 import { isWebSocketStreamingEnabled } from "/src/http/feature_flags.ts";
 import { isHttpError } from "/src/http/http_errors.ts";
@@ -19,7 +21,14 @@ import {
   type WsCancelChatStreamMessage,
   type WsStartChatStreamMessage,
 } from "/src/http/chat_ws_adapter.ts";
-import { createChatStreamStableEmitter } from "/src/http/chat_stream_core.ts";
+import {
+  createChatStreamStableEmitter,
+  type ChatStreamEventName,
+} from "/src/http/chat_stream_core.ts";
+import {
+  MCP_TOOL_CALL_EVENT,
+  type McpToolCallReport,
+} from "/src/ipc/utils/mcp_chat_tools.ts";
 
 type ChatStreamHandlerModule =
   typeof import("/src/ipc/handlers/chat_stream_handlers.ts");
@@ -49,6 +58,16 @@ function defaultLoadChatStreamHandlers(): Promise<ChatStreamHandlerModule> {
   );
 }
 
+/** Resolves the DB-backed settings of the user a stream runs for. */
+async function defaultReadUserSettingsForScope(
+  context: RequestContext,
+): Promise<UserSettings> {
+  const gateway = await dynamicImportModule<
+    typeof import("/src/http/ipc_http_gateway.ts")
+  >("/src/http/ipc_http_gateway.ts");
+  return gateway.readUserSettingsForScope(context);
+}
+
 function serializeError(error: unknown): string {
   if (error instanceof Error) {
     return error.message;
@@ -93,6 +112,7 @@ interface ChatWsSessionOptions {
   ensureChatInScope?: typeof ensureChatInScope;
   enforceAndRecordUsage?: typeof enforceAndRecordUsage;
   writeAuditEvent?: typeof writeAuditEvent;
+  readUserSettingsForScope?: typeof readUserSettingsForScope;
 }
 
 export interface ChatWsSession {
@@ -109,6 +129,8 @@ export function createChatWsSession(
   const ensureChatScoped = options.ensureChatInScope ?? ensureChatInScope;
   const enforceUsage = options.enforceAndRecordUsage ?? enforceAndRecordUsage;
   const recordAudit = options.writeAuditEvent ?? writeAuditEvent;
+  const readScopedSettings =
+    options.readUserSettingsForScope ?? defaultReadUserSettingsForScope;
 
   let handlersPromise: Promise<ChatStreamHandlers> | null = null;
 
@@ -116,7 +138,7 @@ export function createChatWsSession(
   const activeByChatId = new Map<number, ActiveStream>();
 
   const sendEvent = (params: {
-    event: "chat:response:chunk" | "chat:response:error" | "chat:response:end";
+    event: ChatStreamEventName;
     requestId?: string;
     payload: unknown;
   }) => {
@@ -181,6 +203,7 @@ export function createChatWsSession(
     requestId: string;
     chatId: number;
     onEnd: (payload: ChatResponseEnd) => void;
+    onMcpToolCall: (report: McpToolCallReport) => void;
   }): ServerEventSink => {
     const stableEmitter = createChatStreamStableEmitter({
       chatId: params.chatId,
@@ -224,6 +247,21 @@ export function createChatWsSession(
           );
           return;
         }
+
+        if (channel === "mcp:tool-consent-request") {
+          stableEmitter.emitMcpToolConsentRequest(payload);
+          return;
+        }
+
+        if (channel === "agent-tool:consent-request") {
+          stableEmitter.emitAgentToolConsentRequest(payload);
+          return;
+        }
+
+        if (channel === MCP_TOOL_CALL_EVENT) {
+          params.onMcpToolCall(payload as McpToolCallReport);
+          return;
+        }
       },
       isClosed: () => !options.isOpen() || stableEmitter.isEnded(),
     };
@@ -252,10 +290,11 @@ export function createChatWsSession(
     );
     await ensureChatScoped(requestContext, message.chatId);
 
-    await enforceUsage({
+    const { downgradeModel } = await enforceUsage({
       context: requestContext,
       metricType: "requests",
       value: 1,
+      enforceBudget: true,
     });
 
     const active: ActiveStream = {
@@ -281,6 +320,8 @@ export function createChatWsSession(
           context: requestContext,
           metricType: "tokens",
           value: payload.totalTokens,
+          model: payload.model,
+          costMicroUsd: payload.costMicroUsd,
         }).catch((error) => {
           console.error("[chat_ws_server] token usage record failed", error);
         });
@@ -303,10 +344,28 @@ export function createChatWsSession(
       });
     };
 
+    const onMcpToolCall = (report: McpToolCallReport) => {
+      void recordAudit({
+        context: requestContext,
+        action: "mcp_tool_call",
+        resourceType: "mcp_server",
+        resourceId: report.serverId,
+        metadata: {
+          transport: "websocket",
+          requestId: message.requestId,
+          chatId: message.chatId,
+          toolName: report.toolName,
+          status: report.status,
+          durationMs: report.durationMs,
+        },
+      });
+    };
+
     active.eventSink = createWsEventSink({
       requestId: message.requestId,
       chatId: message.chatId,
       onEnd,
+      onMcpToolCall,
     });
 
     activeByRequestId.set(message.requestId, active);
@@ -332,6 +391,10 @@ export function createChatWsSession(
       redo: message.redo === true ? true : undefined,
       attachments: message.attachments,
       selectedComponents: message.selectedComponents,
+      chatMode: message.chatMode,
+      userId: requestContext.userId,
+      modelOverride: downgradeModel ?? undefined,
+      settings: await readScopedSettings(requestContext),
     };
 
     try {
@@ -465,6 +528,7 @@ interface AttachChatWsServerOptions {
   ensureChatInScope?: typeof ensureChatInScope;
   enforceAndRecordUsage?: typeof enforceAndRecordUsage;
   writeAuditEvent?: typeof writeAuditEvent;
+  readUserSettingsForScope?: typeof readUserSettingsForScope;
 }
 
 export interface ChatWsServerHandle {
@@ -497,6 +561,7 @@ export function attachChatWsServer(
       ensureChatInScope: options.ensureChatInScope,
       enforceAndRecordUsage: options.enforceAndRecordUsage,
       writeAuditEvent: options.writeAuditEvent,
+      readUserSettingsForScope: options.readUserSettingsForScope,
     });
 
     ws.on("message", (raw: RawData) => {
@@ -42,3 +42,49 @@ export function isDevBypassEnabled(): boolean {
   }
   return readBooleanFlag("AUTH_DEV_BYPASS_ENABLED", true);
 }
+
+/**
+ * stdio MCP servers run arbitrary commands on the host, so they are off in
+ * production unless explicitly enabled.
+ */
+export function isMcpStdioTransportEnabled(): boolean {
+  const isProduction =
+    (process.env.NODE_ENV ?? "").toLowerCase() === "production";
+  return readBooleanFlag("MCP_STDIO_ENABLED", !isProduction);
+}
+
+/** Exposes tools of enabled MCP servers to the model during chat streams. */
+export function isMcpChatToolsEnabled(): boolean {
+  return readBooleanFlag("BLAZE_MCP_ENABLED", false);
+}
+
+/**
+ * Sends `code_search` to the Blaze engine instead of the local code index.
+ * The engine receives the whole extracted codebase.
+ */
+export function isRemoteCodeSearchEnabled(): boolean {
+  return readBooleanFlag("BLAZE_REMOTE_CODE_SEARCH", false);
+}
+
+/**
+ * Local paths as git remotes point at other directories of the host, so they
+ * are off in production unless explicitly enabled.
+ */
+export function isLocalGitRemoteEnabled(): boolean {
+  const isProduction =
+    (process.env.NODE_ENV ?? "").toLowerCase() === "production";
+  return readBooleanFlag("BLAZE_LOCAL_GIT_REMOTES", !isProduction);
+}
+
+const DEFAULT_APP_EXPORT_MAX_BYTES = 512 * 1024 * 1024;
+
+/**
+ * Upper bound of the uncompressed content of an app export, checked before
+ * the archive starts streaming.
+ */
+export function getAppExportMaxBytes(): number {
+  const parsed = Number(readFlag("BLAZE_APP_EXPORT_MAX_BYTES")?.trim());
+  return Number.isInteger(parsed) && parsed > 0
+    ? parsed
+    : DEFAULT_APP_EXPORT_MAX_BYTES;
+}
@@ -0,0 +1,151 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { exec } from "dugite";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  assertValidBranchName,
+  getAppGitMergeConflicts,
+  mergeAppGitBranch,
+  parseMergeConflictHunks,
+} from "./git_branch_repositories";
+import { gitSwitchBranch } from "../ipc/utils/git_utils";
+
+vi.mock("/src/main/settings.ts", () => ({
+  readSettings: () => ({ enableNativeGit: true }),
+}));
+
+async function git(args: string[], cwd: string) {
+  const result = await exec(
+    ["-c", "user.name=Test", "-c", "user.email=test@example.com", ...args],
+    cwd,
+  );
+  if (result.exitCode !== 0) {
+    throw new Error(result.stderr);
+  }
+  return result.stdout.trim();
+}
+
+async function commitFile(repoPath: string, file: string, content: string) {
+  fs.writeFileSync(path.join(repoPath, file), content);
+  await git(["add", file], repoPath);
+  await git(["commit", "-m", `Update ${file}`], repoPath);
+}
+
+describe("git branch merge", () => {
+  let appPath: string;
+
+  beforeEach(async () => {
+    appPath = fs.mkdtempSync(path.join(os.tmpdir(), "git-branch-"));
+    await git(["init", "-b", "main"], appPath);
+    await commitFile(appPath, "App.tsx", "const a = 1;\nconst b = 1;\n");
+    await git(["branch", "experiment"], appPath);
+  });
+
+  afterEach(() => {
+    fs.rmSync(appPath, { recursive: true, force: true });
+  });
+
+  it("merges a branch into the current branch", async () => {
+    await git(["checkout", "experiment"], appPath);
+    await commitFile(appPath, "Other.tsx", "export {};\n");
+    await git(["checkout", "main"], appPath);
+
+    const result = await mergeAppGitBranch({ appPath, branch: "experiment" });
+
+    expect(result).toMatchObject({
+      status: "merged",
+      branch: "experiment",
+      into: "main",
+    });
+    expect(fs.existsSync(path.join(appPath, "Other.tsx"))).toBe(true);
+  });
+
+  it("returns conflicting hunks and keeps the merge in progress", async () => {
+    await git(["checkout", "experiment"], appPath);
+    await commitFile(appPath, "App.tsx", "const a = 2;\nconst b = 1;\n");
+    await git(["checkout", "main"], appPath);
+    await commitFile(appPath, "App.tsx", "const a = 3;\nconst b = 1;\n");
+
+    const result = await mergeAppGitBranch({ appPath, branch: "experiment" });
+
+    expect(result.status).toBe("conflicts");
+    if (result.status !== "conflicts") {
+      return;
+    }
+    expect(result.conflicts).toEqual([
+      {
+        path: "App.tsx",
+        hunks: [
+          {
+            startLine: 1,
+            endLine: 5,
+            ours: "const a = 3;",
+            base: null,
+            theirs: "const a = 2;",
+          },
+        ],
+      },
+    ]);
+    expect(result.resolutionPrompt).toContain(
+      "Merging branch experiment into main stopped on conflicts.",
+    );
+    expect(result.resolutionPrompt).toContain("<<<<<<< main");
+    await expect(getAppGitMergeConflicts({ appPath })).resolves.toEqual({
+      inProgress: true,
+      conflicts: result.conflicts,
+    });
+    await expect(
+      mergeAppGitBranch({ appPath, branch: "experiment" }),
+    ).rejects.toMatchObject({ statusCode: 409, code: "MERGE_IN_PROGRESS" });
+  });
+
+  it("refuses to switch branches with uncommitted changes", async () => {
+    fs.writeFileSync(path.join(appPath, "App.tsx"), "const a = 4;\n");
+
+    await expect(
+      gitSwitchBranch({ path: appPath, branch: "experiment" }),
+    ).rejects.toMatchObject({ code: "UNCOMMITTED_CHANGES" });
+    expect(await git(["branch", "--show-current"], appPath)).toBe("main");
+  });
+});
+
+describe("parseMergeConflictHunks", () => {
+  it("reads diff3 hunks and ignores lines outside the markers", () => {
+    expect(
+      parseMergeConflictHunks(
+        [
+          "keep",
+          "<<<<<<< HEAD",
+          "ours",
+          "||||||| base",
+          "base",
+          "=======",
+          "theirs 1",
+          "theirs 2",
+          ">>>>>>> experiment",
+          "keep",
+        ].join("\n"),
+      ),
+    ).toEqual([
+      {
+        startLine: 2,
+        endLine: 9,
+        ours: "ours",
+        base: "base",
+        theirs: "theirs 1\ntheirs 2",
+      },
+    ]);
+  });
+});
+
+describe("assertValidBranchName", () => {
+  it("applies git ref name rules", () => {
+    expect(() => assertValidBranchName("feature/login-2")).not.toThrow();
+    for (const name of ["-x", "a..b", "a b", "a.lock", "a/", "HEAD", "a~1"]) {
+      expect(() => assertValidBranchName(name)).toThrow(
+        "is not a valid branch name",
+      );
+    }
+  });
+});
@@ -0,0 +1,524 @@
+import fs from "node:fs";
+import path from "node:path";
+import { and, eq, sql } from "drizzle-orm";
+import { db, initializeDatabase } from "/src/db/index.ts";
+import { chats } from "/src/db/schema.ts";
+import { HttpError, isHttpError } from "/src/http/http_errors.ts";
+import type { RequestContext } from "/src/http/request_context.ts";
+import {
+  GIT_ERROR_CODES,
+  getCurrentCommitHash,
+  gitCreateBranch,
+  gitCurrentBranch,
+  gitDeleteBranch,
+  gitGetMergeConflicts,
+  gitListBranches,
+  gitMerge,
+  gitMergeAbort,
+  gitRenameBranch,
+  gitSwitchBranch,
+  isGitMergeInProgress,
+  isGitRebaseInProgress,
+  isGitStatusClean,
+} from "/src/ipc/utils/git_utils.ts";
+import { log } from "/src/lib/logger.ts";
+
+const logger = log.scope("git_branch_repositories");
+
+/** Branch of new apps, and of apps whose HEAD is detached. */
+export const DEFAULT_APP_BRANCH = "main";
+
+export interface GitBranchSummary {
+  name: string;
+  isCurrent: boolean;
+  /** Chats bound to the branch. */
+  chatCount: number;
+}
+
+export interface AppGitBranches {
+  /** `null` while a version is checked out (detached HEAD). */
+  currentBranch: string | null;
+  branches: GitBranchSummary[];
+  mergeInProgress: boolean;
+}
+
+export interface GitMergeConflictHunk {
+  /** 1-based lines of the `<<<<<<<` and `>>>>>>>` markers. */
+  startLine: number;
+  endLine: number;
+  ours: string;
+  /** Common ancestor, only present with the `diff3` conflict style. */
+  base: string | null;
+  theirs: string;
+}
+
+export interface GitMergeConflictFile {
+  path: string;
+  /** Empty when one side deleted the file. */
+  hunks: GitMergeConflictHunk[];
+}
+
+export type AppGitMergeResult =
+  | {
+      status: "merged";
+      branch: string;
+      into: string;
+      commitHash: string;
+    }
+  | {
+      status: "conflicts";
+      branch: string;
+      into: string;
+      conflicts: GitMergeConflictFile[];
+      /** Ready-made chat prompt asking the model to resolve the conflicts. */
+      resolutionPrompt: string;
+    };
+
+const INVALID_BRANCH_NAME_PATTERN =
+  /(^[-/.])|([/.]$)|(\.lock$)|(\.\.)|(\/\/)|(@\{)|(\/\.)|[\s~^:?*[\\\x00-\x1f\x7f]/;
+
+function assertTenantScope(
+  context: Pick<RequestContext, "orgId" | "workspaceId">,
+) {
+  if (!context.orgId || !context.workspaceId) {
+    throw new HttpError(
+      400,
+      "TENANT_SCOPE_REQUIRED",
+      "organizationId/workspaceId scope is required",
+    );
+  }
+}
+
+/** Applies the `git check-ref-format --branch` rules without a git call. */
+export function isValidBranchName(name: string): boolean {
+  return (
+    name !== "HEAD" && name !== "@" && !INVALID_BRANCH_NAME_PATTERN.test(name)
+  );
+}
+
+export function assertValidBranchName(name: string) {
+  if (!isValidBranchName(name)) {
+    throw new HttpError(
+      400,
+      "INVALID_GIT_BRANCH_NAME",
+      `"${name}" is not a valid branch name`,
+    );
+  }
+}
+
+/**
+ * Turns git state errors of branch operations into typed HTTP errors.
+ * Unknown failures are returned unchanged.
+ */
+function toGitBranchHttpError(error: unknown): unknown {
+  if (isHttpError(error)) {
+    return error;
+  }
+  const code = (error as { code?: unknown } | null)?.code;
+  const message = error instanceof Error ? error.message : String(error);
+  if (
+    code === GIT_ERROR_CODES.MERGE_IN_PROGRESS ||
+    code === GIT_ERROR_CODES.REBASE_IN_PROGRESS
+  ) {
+    return new HttpError(409, code, message);
+  }
+  if (code === GIT_ERROR_CODES.UNCOMMITTED_CHANGES) {
+    return new HttpError(409, "GIT_UNCOMMITTED_CHANGES", message);
+  }
+  return error;
+}
+
+/** The branch a new chat of the app is bound to. */
+export async function getAppBranchForNewChat(
+  appPath: string,
+): Promise<string | null> {
+  try {
+    return await gitCurrentBranch({ path: appPath });
+  } catch (error) {
+    logger.warn(`Failed to read the current branch of ${appPath}:`, error);
+    return null;
+  }
+}
+
+async function requireExistingBranch(appPath: string, branch: string) {
+  const branches = await gitListBranches({ path: appPath });
+  if (!branches.includes(branch)) {
+    throw new HttpError(
+      404,
+      "GIT_BRANCH_NOT_FOUND",
+      `Branch ${branch} does not exist`,
+    );
+  }
+  return branches;
+}
+
+function assertNoMergeOrRebase(appPath: string) {
+  if (isGitMergeInProgress({ path: appPath })) {
+    throw new HttpError(
+      409,
+      GIT_ERROR_CODES.MERGE_IN_PROGRESS,
+      "A merge is in progress in the app. Resolve or abort it first.",
+    );
+  }
+  if (isGitRebaseInProgress({ path: appPath })) {
+    throw new HttpError(
+      409,
+      GIT_ERROR_CODES.REBASE_IN_PROGRESS,
+      "A rebase is in progress in the app",
+    );
+  }
+}
+
+function chatsOfApp(context: RequestContext, appId: number) {
+  return [
+    eq(chats.organizationId, context.orgId),
+    eq(chats.workspaceId, context.workspaceId),
+    eq(chats.appId, appId),
+  ];
+}
+
+export async function listAppGitBranches(params: {
+  context: RequestContext;
+  appId: number;
+  appPath: string;
+}): Promise<AppGitBranches> {
+  assertTenantScope(params.context);
+  await initializeDatabase();
+
+  const [branches, currentBranch, chatCounts] = await Promise.all([
+    gitListBranches({ path: params.appPath }),
+    gitCurrentBranch({ path: params.appPath }),
+    db
+      .select({ branch: chats.branch, total: sql<number>`COUNT(*)` })
+      .from(chats)
+      .where(and(...chatsOfApp(params.context, params.appId)))
+      .groupBy(chats.branch),
+  ]);
+  const chatCountByBranch = new Map(
+    chatCounts.map((row) => [row.branch, Number(row.total)]),
+  );
+
+  return {
+    currentBranch,
+    branches: [...branches].sort().map((name) => ({
+      name,
+      isCurrent: name === currentBranch,
+      chatCount: chatCountByBranch.get(name) ?? 0,
+    })),
+    mergeInProgress: isGitMergeInProgress({ path: params.appPath }),
+  };
+}
+
+/** Creates `name` from `from` (a branch or commit, by default HEAD). */
+export async function createAppGitBranch(params: {
+  context: RequestContext;
+  appId: number;
+  appPath: string;
+  name: string;
+  from?: string;
+  checkout?: boolean;
+}): Promise<AppGitBranches> {
+  assertValidBranchName(params.name);
+  const branches = await gitListBranches({ path: params.appPath });
+  if (branches.includes(params.name)) {
+    throw new HttpError(
+      409,
+      "GIT_BRANCH_EXISTS",
+      `Branch ${params.name} already exists`,
+    );
+  }
+
+  if (params.from) {
+    await getCurrentCommitHash({
+      path: params.appPath,
+      ref: params.from,
+    }).catch(() => {
+      throw new HttpError(
+        404,
+        "GIT_REF_NOT_FOUND",
+        `Branch or commit ${params.from} does not exist`,
+      );
+    });
+  }
+
+  await gitCreateBranch({
+    path: params.appPath,
+    branch: params.name,
+    from: params.from,
+  });
+  if (params.checkout) {
+    return switchAppGitBranch({ ...params, branch: params.name });
+  }
+  return listAppGitBranches(params);
+}
+
+/**
+ * Checks out `branch`. Chats bound to other branches switch back when they
+ * stream or apply changes.
+ */
+export async function switchAppGitBranch(params: {
+  context: RequestContext;
+  appId: number;
+  appPath: string;
+  branch: string;
+}): Promise<AppGitBranches> {
+  await requireExistingBranch(params.appPath, params.branch);
+  try {
+    await gitSwitchBranch({ path: params.appPath, branch: params.branch });
+  } catch (error) {
+    throw toGitBranchHttpError(error);
+  }
+  return listAppGitBranches(params);
+}
+
+/** Renames `branch` to `name` and moves the chats bound to it along. */
+export async function renameAppGitBranch(params: {
+  context: RequestContext;
+  appId: number;
+  appPath: string;
+  branch: string;
+  name: string;
+}): Promise<AppGitBranches> {
+  assertTenantScope(params.context);
+  assertValidBranchName(params.name);
+  const branches = await requireExistingBranch(params.appPath, params.branch);
+  if (branches.includes(params.name)) {
+    throw new HttpError(
+      409,
+      "GIT_BRANCH_EXISTS",
+      `Branch ${params.name} already exists`,
+    );
+  }
+
+  await gitRenameBranch({
+    path: params.appPath,
+    oldBranch: params.branch,
+    newBranch: params.name,
+  });
+  await initializeDatabase();
+  await db
+    .update(chats)
+    .set({ branch: params.name })
+    .where(
+      and(
+        ...chatsOfApp(params.context, params.appId),
+        eq(chats.branch, params.branch),
+      ),
+    );
+  return listAppGitBranches(params);
+}
+
+/**
+ * Deletes `branch`, merged or not. Its chats are unbound and follow the
+ * app's current branch from then on.
+ */
+export async function deleteAppGitBranch(params: {
+  context: RequestContext;
+  appId: number;
+  appPath: string;
+  branch: string;
+}): Promise<AppGitBranches> {
+  assertTenantScope(params.context);
+  await requireExistingBranch(params.appPath, params.branch);
+  if ((await gitCurrentBranch({ path: params.appPath })) === params.branch) {
+    throw new HttpError(
+      409,
+      "GIT_BRANCH_CHECKED_OUT",
+      `Branch ${params.branch} is checked out. Switch to another branch first.`,
+    );
+  }
+
+  await gitDeleteBranch({ path: params.appPath, branch: params.branch });
+  await initializeDatabase();
+  await db
+    .update(chats)
+    .set({ branch: null })
+    .where(
+      and(
+        ...chatsOfApp(params.context, params.appId),
+        eq(chats.branch, params.branch),
+      ),
+    );
+  return listAppGitBranches(params);
+}
+
+/**
+ * Splits a file with conflict markers into its conflicting hunks. Lines
+ * outside the markers are not part of any hunk.
+ */
+export function parseMergeConflictHunks(
+  content: string,
+): GitMergeConflictHunk[] {
+  const hunks: GitMergeConflictHunk[] = [];
+  let current: {
+    startLine: number;
+    section: "ours" | "base" | "theirs";
+    lines: Record<"ours" | "base" | "theirs", string[]>;
+    hasBase: boolean;
+  } | null = null;
+
+  content.split(/\r?\n/).forEach((line, index) => {
+    if (line.startsWith("<<<<<<<")) {
+      current = {
+        startLine: index + 1,
+        section: "ours",
+        lines: { ours: [], base: [], theirs: [] },
+        hasBase: false,
+      };
+      return;
+    }
+    if (!current) {
+      return;
+    }
+    if (line.startsWith("|||||||") && current.section === "ours") {
+      current.section = "base";
+      current.hasBase = true;
+    } else if (line === "=======" && current.section !== "theirs") {
+      current.section = "theirs";
+    } else if (line.startsWith(">>>>>>>") && current.section === "theirs") {
+      hunks.push({
+        startLine: current.startLine,
+        endLine: index + 1,
+        ours: current.lines.ours.join("\n"),
+        base: current.hasBase ? current.lines.base.join("\n") : null,
+        theirs: current.lines.theirs.join("\n"),
+      });
+      current = null;
+    } else {
+      current.lines[current.section].push(line);
+    }
+  });
+  return hunks;
+}
+
+async function readMergeConflicts(
+  appPath: string,
+): Promise<GitMergeConflictFile[]> {
+  const files = await gitGetMergeConflicts({ path: appPath });
+  return Promise.all(
+    files.map(async (file) => {
+      const content = await fs.promises
+        .readFile(path.join(appPath, file), "utf8")
+        .catch(() => "");
+      return { path: file, hunks: parseMergeConflictHunks(content) };
+    }),
+  );
+}
+
+export function formatMergeConflictPrompt(params: {
+  branch: string;
+  into: string;
+  conflicts: GitMergeConflictFile[];
+}): string {
+  const sections = params.conflicts.map((file) => {
+    if (file.hunks.length === 0) {
+      return `${file.path}: deleted on one branch and changed on the other. Keep or delete the file.`;
+    }
+    const hunks = file.hunks.map((hunk) =>
+      [
+        `${file.path}, lines ${hunk.startLine}-${hunk.endLine}:`,
+        `<<<<<<< ${params.into}`,
+        hunk.ours,
+        ...(hunk.base === null ? [] : ["||||||| base", hunk.base]),
+        "=======",
+        hunk.theirs,
+        `>>>>>>> ${params.branch}`,
+      ].join("\n"),
+    );
+    return hunks.join("\n\n");
+  });
+  return [
+    `Merging branch ${params.branch} into ${params.into} stopped on conflicts.`,
+    "Resolve them by writing every conflicting file in full without conflict markers, keeping the intended changes of both branches.",
+    ...sections,
+  ].join("\n\n");
+}
+
+/**
+ * Merges `branch` into the current branch. Conflicts leave the merge in
+ * progress and come back as hunks: the next applied chat response that
+ * writes the conflicting files concludes it, or it can be aborted.
+ */
+export async function mergeAppGitBranch(params: {
+  appPath: string;
+  branch: string;
+}): Promise<AppGitMergeResult> {
+  const into = await gitCurrentBranch({ path: params.appPath });
+  if (!into) {
+    throw new HttpError(
+      409,
+      "GIT_DETACHED_HEAD",
+      "Switch to a branch before merging",
+    );
+  }
+  if (into === params.branch) {
+    throw new HttpError(
+      400,
+      "INVALID_PAYLOAD",
+      `Cannot merge branch ${params.branch} into itself`,
+    );
+  }
+  await requireExistingBranch(params.appPath, params.branch);
+  assertNoMergeOrRebase(params.appPath);
+  if (!(await isGitStatusClean({ path: params.appPath }))) {
+    throw new HttpError(
+      409,
+      "GIT_UNCOMMITTED_CHANGES",
+      "The app has uncommitted changes. Commit or discard them before merging.",
+    );
+  }
+
+  try {
+    await gitMerge({ path: params.appPath, branch: params.branch });
+  } catch (error) {
+    if (error instanceof Error && error.name === "GitConflictError") {
+      const conflicts = await readMergeConflicts(params.appPath);
+      return {
+        status: "conflicts",
+        branch: params.branch,
+        into,
+        conflicts,
+        resolutionPrompt: formatMergeConflictPrompt({
+          branch: params.branch,
+          into,
+          conflicts,
+        }),
+      };
+    }
+    throw error;
+  }
+  return {
+    status: "merged",
+    branch: params.branch,
+    into,
+    commitHash: await getCurrentCommitHash({ path: params.appPath }),
+  };
+}
+
+export async function getAppGitMergeConflicts(params: {
+  appPath: string;
+}): Promise<{ inProgress: boolean; conflicts: GitMergeConflictFile[] }> {
+  if (!isGitMergeInProgress({ path: params.appPath })) {
+    return { inProgress: false, conflicts: [] };
+  }
+  return {
+    inProgress: true,
+    conflicts: await readMergeConflicts(params.appPath),
+  };
+}
+
+export async function abortAppGitMerge(params: {
+  context: RequestContext;
+  appId: number;
+  appPath: string;
+}): Promise<AppGitBranches> {
+  if (!isGitMergeInProgress({ path: params.appPath })) {
+    throw new HttpError(
+      409,
+      "GIT_MERGE_NOT_IN_PROGRESS",
+      "No merge is in progress in the app",
+    );
+  }
+  await gitMergeAbort({ path: params.appPath });
+  return listAppGitBranches(params);
+}
@@ -0,0 +1,210 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { exec } from "dugite";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  connectAppGitRemote,
+  getAppGitRemoteStatus,
+  parseGitRemoteUrl,
+  pullAppFromGitRemote,
+  pushAppToGitRemote,
+  toGitRemoteHttpError,
+} from "./git_remote_repositories";
+import type { RequestContext } from "./request_context";
+
+vi.mock("/src/main/settings.ts", () => ({
+  readSettings: () => ({ enableNativeGit: true }),
+}));
+
+const context = {
+  userId: "user-1",
+  orgId: "org-1",
+  workspaceId: "ws-1",
+  organizationRole: "owner",
+  workspaceRole: "owner",
+} as RequestContext;
+
+async function git(args: string[], cwd: string) {
+  const result = await exec(
+    ["-c", "user.name=Test", "-c", "user.email=test@example.com", ...args],
+    cwd,
+  );
+  if (result.exitCode !== 0) {
+    throw new Error(result.stderr);
+  }
+  return result.stdout.trim();
+}
+
+async function commitFile(repoPath: string, file: string, content: string) {
+  fs.writeFileSync(path.join(repoPath, file), content);
+  await git(["add", file], repoPath);
+  await git(["commit", "-m", `Update ${file}`], repoPath);
+}
+
+describe("git remote sync", () => {
+  let rootPath: string;
+  let appPath: string;
+  let remotePath: string;
+  let otherClonePath: string;
+
+  beforeEach(async () => {
+    rootPath = fs.mkdtempSync(path.join(os.tmpdir(), "git-remote-"));
+    appPath = path.join(rootPath, "app");
+    remotePath = path.join(rootPath, "remote.git");
+    otherClonePath = path.join(rootPath, "other");
+    fs.mkdirSync(appPath);
+    fs.mkdirSync(remotePath);
+    await git(["init", "--bare", "-b", "main"], remotePath);
+    await git(["init", "-b", "main"], appPath);
+    await commitFile(appPath, "App.tsx", "export const a = 1;\n");
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootPath, { recursive: true, force: true });
+  });
+
+  async function pushFromOtherClone(file: string, content: string) {
+    await git(["clone", remotePath, otherClonePath], rootPath);
+    await commitFile(otherClonePath, file, content);
+    await git(["push", "origin", "main"], otherClonePath);
+  }
+
+  it("connects a remote and pushes with ahead/behind status", async () => {
+    expect(await getAppGitRemoteStatus({ context, appPath })).toEqual({
+      remoteUrl: null,
+      branch: "main",
+      hasAccessToken: false,
+      ahead: null,
+      behind: null,
+    });
+
+    const connected = await connectAppGitRemote({
+      context,
+      appPath,
+      remote: { remoteUrl: remotePath },
+    });
+    expect(connected).toMatchObject({ remoteUrl: remotePath, ahead: 1 });
+
+    const pushed = await pushAppToGitRemote({ context, appPath });
+    expect(pushed).toMatchObject({ pushedCommits: 1, ahead: 0, behind: 0 });
+    expect(await git(["log", "--format=%s", "main"], remotePath)).toBe(
+      "Update App.tsx",
+    );
+  });
+
+  it("rejects a non-fast-forward push and pulls the remote commits", async () => {
+    await connectAppGitRemote({
+      context,
+      appPath,
+      remote: { remoteUrl: remotePath },
+    });
+    await pushAppToGitRemote({ context, appPath });
+    await pushFromOtherClone("Other.tsx", "export const b = 2;\n");
+    await commitFile(appPath, "App.tsx", "export const a = 3;\n");
+
+    await expect(
+      getAppGitRemoteStatus({ context, appPath, fetch: true }),
+    ).resolves.toMatchObject({ ahead: 1, behind: 1 });
+    await expect(
+      pushAppToGitRemote({ context, appPath }),
+    ).rejects.toMatchObject({ statusCode: 409, code: "GIT_PUSH_REJECTED" });
+
+    const pulled = await pullAppFromGitRemote({ context, appPath });
+    expect(pulled).toMatchObject({ pulledCommits: 1, behind: 0 });
+    expect(fs.existsSync(path.join(appPath, "Other.tsx"))).toBe(true);
+  });
+
+  it("aborts a conflicting pull and reports the conflicting files", async () => {
+    await connectAppGitRemote({
+      context,
+      appPath,
+      remote: { remoteUrl: remotePath },
+    });
+    await pushAppToGitRemote({ context, appPath });
+    await pushFromOtherClone("App.tsx", "export const a = 2;\n");
+    await commitFile(appPath, "App.tsx", "export const a = 3;\n");
+
+    await expect(
+      pullAppFromGitRemote({ context, appPath }),
+    ).rejects.toMatchObject({
+      statusCode: 409,
+      code: "GIT_MERGE_CONFLICT",
+      message: expect.stringContaining("App.tsx"),
+    });
+    expect(fs.existsSync(path.join(appPath, ".git", "MERGE_HEAD"))).toBe(false);
+    expect(fs.readFileSync(path.join(appPath, "App.tsx"), "utf8")).toBe(
+      "export const a = 3;\n",
+    );
+  });
+
+  it("rejects branch names that git would read as options", async () => {
+    await expect(
+      pushAppToGitRemote({ context, appPath, branch: "--upload-pack=touch" }),
+    ).rejects.toMatchObject({
+      statusCode: 400,
+      code: "INVALID_GIT_BRANCH_NAME",
+    });
+    await expect(
+      pullAppFromGitRemote({ context, appPath, branch: "-x" }),
+    ).rejects.toMatchObject({
+      statusCode: 400,
+      code: "INVALID_GIT_BRANCH_NAME",
+    });
+  });
+
+  it("requires a connected remote to push", async () => {
+    await expect(
+      pushAppToGitRemote({ context, appPath }),
+    ).rejects.toMatchObject({
+      statusCode: 409,
+      code: "GIT_REMOTE_NOT_CONNECTED",
+    });
+  });
+});
+
+describe("parseGitRemoteUrl", () => {
+  it("keys credentials by host and rejects embedded credentials", () => {
+    expect(parseGitRemoteUrl(" https://Git.Example.com/team/app.git ")).toEqual(
+      {
+        remoteUrl: "https://Git.Example.com/team/app.git",
+        host: "git.example.com",
+      },
+    );
+    expect(() =>
+      parseGitRemoteUrl("https://token@git.example.com/team/app.git"),
+    ).toThrow("Pass credentials as accessToken");
+    expect(() => parseGitRemoteUrl("git@github.com:team/app.git")).toThrow(
+      "Remote URL must be an https URL",
+    );
+    // A stored token would go out as a Basic header in clear text.
+    expect(() => parseGitRemoteUrl("http://github.com/team/app.git")).toThrow(
+      "Remote URL must be an https URL",
+    );
+  });
+});
+
+describe("toGitRemoteHttpError", () => {
+  it("maps auth failures of native and isomorphic git", () => {
+    expect(
+      toGitRemoteHttpError(
+        new Error(
+          "Git push failed: fatal: Authentication failed for 'https://git.example.com/app.git/'",
+        ),
+      ),
+    ).toMatchObject({ statusCode: 403, code: "GIT_REMOTE_AUTH_FAILED" });
+    expect(
+      toGitRemoteHttpError(
+        Object.assign(new Error("HTTP Error: 401 Unauthorized"), {
+          code: "HttpError",
+          data: { statusCode: 401 },
+        }),
+      ),
+    ).toMatchObject({ statusCode: 403, code: "GIT_REMOTE_AUTH_FAILED" });
+  });
+
+  it("keeps unknown failures unchanged", () => {
+    const error = new Error("disk full");
+    expect(toGitRemoteHttpError(error)).toBe(error);
+  });
+});
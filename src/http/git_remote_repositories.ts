@@ -0,0 +1,464 @@
+import { and, eq } from "drizzle-orm";
+import { db, initializeDatabase } from "/src/db/index.ts";
+import { workspaceGitCredentials } from "/src/db/schema.ts";
+import { isLocalGitRemoteEnabled } from "/src/http/feature_flags.ts";
+import {
+  assertValidBranchName,
+  DEFAULT_APP_BRANCH,
+} from "/src/http/git_branch_repositories.ts";
+import { HttpError, isHttpError } from "/src/http/http_errors.ts";
+import type { RequestContext } from "/src/http/request_context.ts";
+import {
+  GIT_ERROR_CODES,
+  gitAheadBehind,
+  gitCurrentBranch,
+  gitFetch,
+  gitGetMergeConflicts,
+  gitGetRemoteUrl,
+  gitMergeAbort,
+  gitPull,
+  gitPush,
+  gitSetRemoteUrl,
+  isGitMergeInProgress,
+  isGitRebaseInProgress,
+} from "/src/ipc/utils/git_utils.ts";
+import {
+  decryptSecret,
+  encryptSecret,
+  isSecretEncryptionConfigured,
+} from "/src/ipc/utils/secret_crypto.ts";
+import { log } from "/src/lib/logger.ts";
+
+const logger = log.scope("git_remote_repositories");
+
+export interface GitRemoteInput {
+  remoteUrl: string;
+  /** `null` removes the stored token of the remote host, `undefined` keeps it. */
+  accessToken?: string | null;
+}
+
+export interface GitRemoteStatus {
+  remoteUrl: string | null;
+  branch: string;
+  hasAccessToken: boolean;
+  /** Commits to push and to pull; `null` without a connected remote. */
+  ahead: number | null;
+  behind: number | null;
+}
+
+/** Credentials key of local remotes, which never use a token. */
+const LOCAL_REMOTE_HOST = "local";
+
+const AUTH_FAILURE_PATTERN =
+  /authentication failed|could not read username|terminal prompts disabled|invalid username or password|\b(401|403)\b/i;
+const PUSH_REJECTED_PATTERN =
+  /non-fast-forward|\[rejected\]|fetch first|updates were rejected/i;
+const REMOTE_UNAVAILABLE_PATTERN =
+  /could not resolve host|does not appear to be a git repository|repository .*not found|unable to access|ENOTFOUND|ECONNREFUSED/i;
+const UNCOMMITTED_CHANGES_PATTERN =
+  /would be overwritten by merge|commit your changes or stash them/i;
+
+function assertTenantScope(
+  context: Pick<RequestContext, "orgId" | "workspaceId">,
+) {
+  if (!context.orgId || !context.workspaceId) {
+    throw new HttpError(
+      400,
+      "TENANT_SCOPE_REQUIRED",
+      "organizationId/workspaceId scope is required",
+    );
+  }
+}
+
+/**
+ * Checks a remote URL and returns the host its credentials are stored under.
+ * Only https remotes are accepted, so a stored token is never sent in clear
+ * text. Credentials embedded in the URL would end up in the repository
+ * config, so they must come as `accessToken` instead.
+ */
+export function parseGitRemoteUrl(remoteUrl: string): {
+  remoteUrl: string;
+  host: string;
+} {
+  const trimmed = remoteUrl.trim();
+  if (trimmed.startsWith("/") || trimmed.startsWith("file://")) {
+    if (!isLocalGitRemoteEnabled()) {
+      throw new HttpError(
+        403,
+        "LOCAL_GIT_REMOTE_DISABLED",
+        "Local git remotes are disabled on this deployment",
+      );
+    }
+    return { remoteUrl: trimmed, host: LOCAL_REMOTE_HOST };
+  }
+
+  let url: URL;
+  try {
+    url = new URL(trimmed);
+  } catch {
+    throw new HttpError(
+      400,
+      "INVALID_GIT_REMOTE_URL",
+      "Remote URL must be an https URL",
+    );
+  }
+  if (url.protocol !== "https:") {
+    throw new HttpError(
+      400,
+      "INVALID_GIT_REMOTE_URL",
+      "Remote URL must be an https URL",
+    );
+  }
+  if (url.username || url.password) {
+    throw new HttpError(
+      400,
+      "INVALID_GIT_REMOTE_URL",
+      "Pass credentials as accessToken, not in the remote URL",
+    );
+  }
+  return { remoteUrl: trimmed, host: url.host.toLowerCase() };
+}
+
+/**
+ * Turns git failures of remote operations into typed HTTP errors. Unknown
+ * failures are returned unchanged.
+ */
+export function toGitRemoteHttpError(error: unknown): unknown {
+  if (isHttpError(error)) {
+    return error;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  const name = error instanceof Error ? error.name : "";
+  const code = (error as { code?: unknown } | null)?.code;
+  const statusCode = (error as { data?: { statusCode?: unknown } } | null)?.data
+    ?.statusCode;
+
+  if (name === "GitConflictError") {
+    return new HttpError(409, "GIT_MERGE_CONFLICT", message);
+  }
+  if (
+    code === GIT_ERROR_CODES.MERGE_IN_PROGRESS ||
+    code === GIT_ERROR_CODES.REBASE_IN_PROGRESS
+  ) {
+    return new HttpError(409, code, message);
+  }
+  if (code === "PushRejectedError" || PUSH_REJECTED_PATTERN.test(message)) {
+    return new HttpError(
+      409,
+      "GIT_PUSH_REJECTED",
+      "The remote branch has commits that are not in the app. Pull before pushing.",
+    );
+  }
+  if (
+    (code === "HttpError" && (statusCode === 401 || statusCode === 403)) ||
+    AUTH_FAILURE_PATTERN.test(message)
+  ) {
+    return new HttpError(
+      403,
+      "GIT_REMOTE_AUTH_FAILED",
+      "The remote rejected the credentials. Check the access token of the remote.",
+    );
+  }
+  if (UNCOMMITTED_CHANGES_PATTERN.test(message)) {
+    return new HttpError(
+      409,
+      "GIT_UNCOMMITTED_CHANGES",
+      "The app has uncommitted changes that the pull would overwrite",
+    );
+  }
+  if (REMOTE_UNAVAILABLE_PATTERN.test(message)) {
+    return new HttpError(502, "GIT_REMOTE_UNAVAILABLE", message);
+  }
+  return error;
+}
+
+async function runRemoteOperation<T>(operation: () => Promise<T>) {
+  try {
+    return await operation();
+  } catch (error) {
+    throw toGitRemoteHttpError(error);
+  }
+}
+
+export async function getWorkspaceGitAccessToken(
+  context: RequestContext,
+  host: string,
+): Promise<string | null> {
+  if (host === LOCAL_REMOTE_HOST) {
+    return null;
+  }
+  assertTenantScope(context);
+  await initializeDatabase();
+  const [row] = await db
+    .select({
+      accessTokenEncrypted: workspaceGitCredentials.accessTokenEncrypted,
+    })
+    .from(workspaceGitCredentials)
+    .where(
+      and(
+        eq(workspaceGitCredentials.organizationId, context.orgId),
+        eq(workspaceGitCredentials.workspaceId, context.workspaceId),
+        eq(workspaceGitCredentials.host, host),
+      ),
+    )
+    .limit(1);
+  return row ? decryptSecret(row.accessTokenEncrypted) : null;
+}
+
+async function saveWorkspaceGitAccessToken(params: {
+  context: RequestContext;
+  host: string;
+  accessToken: string | null;
+}) {
+  assertTenantScope(params.context);
+  await initializeDatabase();
+  const scope = and(
+    eq(workspaceGitCredentials.organizationId, params.context.orgId),
+    eq(workspaceGitCredentials.workspaceId, params.context.workspaceId),
+    eq(workspaceGitCredentials.host, params.host),
+  );
+  if (params.accessToken === null) {
+    await db.delete(workspaceGitCredentials).where(scope);
+    return;
+  }
+  if (!isSecretEncryptionConfigured()) {
+    throw new HttpError(
+      503,
+      "SECRETS_KEY_NOT_CONFIGURED",
+      "BLAZE_SECRETS_KEY must be configured to store git credentials",
+    );
+  }
+  const accessTokenEncrypted = encryptSecret(params.accessToken);
+  await db
+    .insert(workspaceGitCredentials)
+    .values({
+      organizationId: params.context.orgId,
+      workspaceId: params.context.workspaceId,
+      host: params.host,
+      accessTokenEncrypted,
+      updatedByUserId: params.context.userId,
+    })
+    .onConflictDoUpdate({
+      target: [
+        workspaceGitCredentials.workspaceId,
+        workspaceGitCredentials.host,
+      ],
+      set: {
+        accessTokenEncrypted,
+        updatedByUserId: params.context.userId,
+        updatedAt: new Date(),
+      },
+    });
+}
+
+async function resolveBranch(appPath: string, branch?: string) {
+  if (branch) {
+    assertValidBranchName(branch);
+  }
+  return (
+    branch || (await gitCurrentBranch({ path: appPath })) || DEFAULT_APP_BRANCH
+  );
+}
+
+/** The connected remote of an app with the token stored for its host. */
+async function requireAppGitRemote(context: RequestContext, appPath: string) {
+  const remoteUrl = await gitGetRemoteUrl({ path: appPath });
+  if (!remoteUrl) {
+    throw new HttpError(
+      409,
+      "GIT_REMOTE_NOT_CONNECTED",
+      "Connect a git remote to the app first",
+    );
+  }
+  const { host } = parseGitRemoteUrl(remoteUrl);
+  return {
+    remoteUrl,
+    accessToken: await getWorkspaceGitAccessToken(context, host),
+  };
+}
+
+async function readGitRemoteStatus(params: {
+  appPath: string;
+  remoteUrl: string | null;
+  accessToken: string | null;
+  branch: string;
+}): Promise<GitRemoteStatus> {
+  if (!params.remoteUrl) {
+    return {
+      remoteUrl: null,
+      branch: params.branch,
+      hasAccessToken: false,
+      ahead: null,
+      behind: null,
+    };
+  }
+  const { ahead, behind } = await gitAheadBehind({
+    path: params.appPath,
+    branch: params.branch,
+  });
+  return {
+    remoteUrl: params.remoteUrl,
+    branch: params.branch,
+    hasAccessToken: params.accessToken !== null,
+    ahead,
+    behind,
+  };
+}
+
+/**
+ * Sync status of the app's current branch. With `fetch` the remote is asked
+ * for its branches first; otherwise the counts are as of the last fetch.
+ */
+export async function getAppGitRemoteStatus(params: {
+  context: RequestContext;
+  appPath: string;
+  fetch?: boolean;
+}): Promise<GitRemoteStatus> {
+  const branch = await resolveBranch(params.appPath);
+  const remoteUrl = await gitGetRemoteUrl({ path: params.appPath });
+  if (!remoteUrl) {
+    return readGitRemoteStatus({
+      appPath: params.appPath,
+      remoteUrl: null,
+      accessToken: null,
+      branch,
+    });
+  }
+  const remote = await requireAppGitRemote(params.context, params.appPath);
+  if (params.fetch) {
+    await runRemoteOperation(() =>
+      gitFetch({
+        path: params.appPath,
+        accessToken: remote.accessToken ?? undefined,
+      }),
+    );
+  }
+  return readGitRemoteStatus({ appPath: params.appPath, ...remote, branch });
+}
+
+/**
+ * Points the app's `origin` at `remoteUrl`. A given access token is stored
+ * encrypted for the remote host, so other apps of the workspace reuse it.
+ */
+export async function connectAppGitRemote(params: {
+  context: RequestContext;
+  appPath: string;
+  remote: GitRemoteInput;
+}): Promise<GitRemoteStatus> {
+  const { remoteUrl, host } = parseGitRemoteUrl(params.remote.remoteUrl);
+  if (params.remote.accessToken !== undefined) {
+    if (host === LOCAL_REMOTE_HOST) {
+      throw new HttpError(
+        400,
+        "INVALID_PAYLOAD",
+        "Local git remotes do not use an access token",
+      );
+    }
+    await saveWorkspaceGitAccessToken({
+      context: params.context,
+      host,
+      accessToken: params.remote.accessToken,
+    });
+  }
+  await gitSetRemoteUrl({ path: params.appPath, remoteUrl });
+  return getAppGitRemoteStatus({
+    context: params.context,
+    appPath: params.appPath,
+  });
+}
+
+export async function pushAppToGitRemote(params: {
+  context: RequestContext;
+  appPath: string;
+  branch?: string;
+  force?: boolean;
+}): Promise<GitRemoteStatus & { pushedCommits: number }> {
+  const branch = await resolveBranch(params.appPath, params.branch);
+  const remote = await requireAppGitRemote(params.context, params.appPath);
+  const accessToken = remote.accessToken ?? undefined;
+
+  await runRemoteOperation(() =>
+    gitFetch({ path: params.appPath, accessToken }),
+  );
+  const { ahead } = await gitAheadBehind({ path: params.appPath, branch });
+  await runRemoteOperation(() =>
+    gitPush({
+      path: params.appPath,
+      branch,
+      accessToken,
+      force: params.force,
+    }),
+  );
+  return {
+    ...(await readGitRemoteStatus({
+      appPath: params.appPath,
+      ...remote,
+      branch,
+    })),
+    pushedCommits: ahead,
+  };
+}
+
+/**
+ * Merges the remote branch into the app. A conflicting pull is aborted, so
+ * the app stays as it was, and reported with the conflicting files.
+ */
+export async function pullAppFromGitRemote(params: {
+  context: RequestContext;
+  appPath: string;
+  branch?: string;
+}): Promise<GitRemoteStatus & { pulledCommits: number }> {
+  const branch = await resolveBranch(params.appPath, params.branch);
+  const remote = await requireAppGitRemote(params.context, params.appPath);
+  const accessToken = remote.accessToken ?? undefined;
+
+  if (isGitMergeInProgress({ path: params.appPath })) {
+    throw new HttpError(
+      409,
+      GIT_ERROR_CODES.MERGE_IN_PROGRESS,
+      "A merge is in progress in the app",
+    );
+  }
+  if (isGitRebaseInProgress({ path: params.appPath })) {
+    throw new HttpError(
+      409,
+      GIT_ERROR_CODES.REBASE_IN_PROGRESS,
+      "A rebase is in progress in the app",
+    );
+  }
+
+  await runRemoteOperation(() =>
+    gitFetch({ path: params.appPath, accessToken }),
+  );
+  const { behind } = await gitAheadBehind({ path: params.appPath, branch });
+  if (behind > 0) {
+    try {
+      await gitPull({ path: params.appPath, branch, accessToken });
+    } catch (error) {
+      if (error instanceof Error && error.name === "GitConflictError") {
+        const conflicts = await gitGetMergeConflicts({
+          path: params.appPath,
+        }).catch(() => [] as string[]);
+        try {
+          await gitMergeAbort({ path: params.appPath });
+        } catch (abortError) {
+          logger.error("Failed to abort conflicting pull:", abortError);
+        }
+        throw new HttpError(
+          409,
+          "GIT_MERGE_CONFLICT",
+          `Changes from origin/${branch} conflict with the app in: ${conflicts.join(", ")}. Nothing was merged.`,
+        );
+      }
+      throw toGitRemoteHttpError(error);
+    }
+  }
+  return {
+    ...(await readGitRemoteStatus({
+      appPath: params.appPath,
+      ...remote,
+      branch,
+    })),
+    pulledCommits: behind,
+  };
+}
@@ -0,0 +1,31 @@
+import type { Readable } from "node:stream";
+
+/** A handler result sent as-is instead of the `{ data }` JSON envelope. */
+export class HttpFileResponse {
+  public readonly contentType: string;
+  public readonly fileName: string;
+  /** Streams are piped to the response, e.g. archives built on the fly. */
+  public readonly body: string | Buffer | Readable;
+  /** `inline` lets browsers display the file (e.g. images) in place. */
+  public readonly disposition: "attachment" | "inline";
+  /** Extra response headers, e.g. a continuation cursor. */
+  public readonly headers: Record<string, string>;
+
+  constructor(params: {
+    contentType: string;
+    fileName: string;
+    body: string | Buffer | Readable;
+    disposition?: "attachment" | "inline";
+    headers?: Record<string, string>;
+  }) {
+    this.contentType = params.contentType;
+    this.fileName = params.fileName;
+    this.body = params.body;
+    this.disposition = params.disposition ?? "attachment";
+    this.headers = params.headers ?? {};
+  }
+}
+
+export function isHttpFileResponse(value: unknown): value is HttpFileResponse {
+  return value instanceof HttpFileResponse;
+}
@@ -3,6 +3,41 @@ import path from "node:path";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import { invokeIpcChannelOverHttp } from "./ipc_http_gateway";
 
+const {
+  mockCreateAuthSessionForToken,
+  mockGetActiveAuthSessionByToken,
+  mockRevokeAuthSession,
+  mockTouchAuthSession,
+  mockValidateAndDecodeJwt,
+} = vi.hoisted(() => ({
+  mockCreateAuthSessionForToken: vi.fn(),
+  mockGetActiveAuthSessionByToken: vi.fn(),
+  mockRevokeAuthSession: vi.fn(),
+  mockTouchAuthSession: vi.fn(),
+  mockValidateAndDecodeJwt: vi.fn(),
+}));
+
+vi.mock("./auth_session_repositories", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./auth_session_repositories")>()),
+  createAuthSessionForToken: mockCreateAuthSessionForToken,
+  getActiveAuthSessionByToken: mockGetActiveAuthSessionByToken,
+  revokeAuthSession: mockRevokeAuthSession,
+  touchAuthSession: mockTouchAuthSession,
+}));
+
+vi.mock("./jwt_utils", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./jwt_utils")>()),
+  validateAndDecodeJwt: mockValidateAndDecodeJwt,
+}));
+
+const activeSession = {
+  id: "session-1",
+  userId: "user-1",
+  userExternalSub: "sub-1",
+  refreshToken: "refresh-token",
+  expiresAt: new Date("2026-11-18T00:00:00.000Z"),
+};
+
 const hasDatabaseUrl = Boolean(
   process.env.DATABASE_URL || process.env.POSTGRES_URL,
 );
@@ -11,6 +46,7 @@ describe("invokeIpcChannelOverHttp", () => {
   const envSnapshot = { ...process.env };
 
   beforeEach(() => {
+    vi.clearAllMocks();
     vi.unstubAllGlobals();
     process.env = { ...envSnapshot };
   });
@@ -220,6 +256,11 @@ describe("invokeIpcChannelOverHttp", () => {
         }),
     });
     vi.stubGlobal("fetch", fetchMock);
+    mockCreateAuthSessionForToken.mockResolvedValue({
+      sessionId: "11111111-2222-3333-4444-555555555555",
+      sessionToken: "session-token",
+      expiresAt: "2026-11-18T00:00:00.000Z",
+    });
 
     const exchangeResult = (await invokeIpcChannelOverHttp(
       "exchange-oauth2-code",
@@ -230,22 +271,23 @@ describe("invokeIpcChannelOverHttp", () => {
           redirectUri: "http://localhost:5173/auth",
         },
       ],
-    )) as {
-      accessToken: string | null;
-      idToken: string | null;
-      refreshToken: string | null;
-      tokenType: string | null;
-      expiresIn: number | null;
-      scope: string | null;
-    };
+      { userAgent: "vitest" },
+    )) as Record<string, unknown>;
     expect(exchangeResult).toEqual({
       accessToken: "access-token",
       idToken: "id-token",
-      refreshToken: "refresh-token",
+      sessionToken: "session-token",
+      sessionExpiresAt: "2026-11-18T00:00:00.000Z",
       tokenType: "Bearer",
       expiresIn: 3600,
       scope: "openid profile email",
     });
+    expect(exchangeResult).not.toHaveProperty("refreshToken");
+    expect(mockCreateAuthSessionForToken).toHaveBeenCalledWith({
+      bearerToken: "id-token",
+      refreshToken: "refresh-token",
+      userAgent: "vitest",
+    });
 
     expect(fetchMock).toHaveBeenCalledWith("https://oauth.example.com/token", {
       method: "POST",
@@ -264,6 +306,196 @@ describe("invokeIpcChannelOverHttp", () => {
     expect(body).toContain("audience=api");
   });
 
+  it("refreshes an auth session with its stored refresh token", async () => {
+    process.env.AUTH_OAUTH2_ENABLED = "true";
+    process.env.AUTH_OAUTH2_CLIENT_ID = "client-123";
+    process.env.AUTH_OAUTH2_TOKEN_URL = "https://oauth.example.com/token";
+    mockGetActiveAuthSessionByToken.mockResolvedValue(activeSession);
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      text: async () =>
+        JSON.stringify({
+          id_token: "next-id-token",
+          refresh_token: "rotated-refresh-token",
+          expires_in: "3600",
+        }),
+    });
+    vi.stubGlobal("fetch", fetchMock);
+    mockValidateAndDecodeJwt.mockResolvedValue({ sub: "sub-1", exp: 1e10 });
+
+    const result = await invokeIpcChannelOverHttp("refresh-auth-session", [
+      { sessionToken: "session-token" },
+    ]);
+
+    expect(result).toEqual({
+      accessToken: null,
+      idToken: "next-id-token",
+      tokenType: null,
+      expiresIn: 3600,
+      scope: null,
+    });
+    expect(mockGetActiveAuthSessionByToken).toHaveBeenCalledWith(
+      "session-token",
+    );
+    const body = String(fetchMock.mock.calls[0]?.[1]?.body ?? "");
+    expect(body).toContain("grant_type=refresh_token");
+    expect(body).toContain("refresh_token=refresh-token");
+    expect(mockValidateAndDecodeJwt).toHaveBeenCalledWith("next-id-token");
+    expect(mockTouchAuthSession).toHaveBeenCalledWith({
+      session: activeSession,
+      refreshToken: "rotated-refresh-token",
+      bearerToken: "next-id-token",
+      claims: { sub: "sub-1", exp: 1e10 },
+    });
+  });
+
+  it("rejects a refreshed token issued to another user", async () => {
+    process.env.AUTH_OAUTH2_ENABLED = "true";
+    process.env.AUTH_OAUTH2_CLIENT_ID = "client-123";
+    process.env.AUTH_OAUTH2_TOKEN_URL = "https://oauth.example.com/token";
+    mockGetActiveAuthSessionByToken.mockResolvedValue(activeSession);
+    vi.stubGlobal(
+      "fetch",
+      vi.fn().mockResolvedValue({
+        ok: true,
+        status: 200,
+        text: async () => JSON.stringify({ id_token: "other-id-token" }),
+      }),
+    );
+    mockValidateAndDecodeJwt.mockResolvedValue({ sub: "sub-2" });
+
+    await expect(
+      invokeIpcChannelOverHttp("refresh-auth-session", [
+        { sessionToken: "session-token" },
+      ]),
+    ).rejects.toMatchObject({ statusCode: 401, code: "AUTH_SESSION_INVALID" });
+    expect(mockRevokeAuthSession).toHaveBeenCalledWith({
+      sessionId: "session-1",
+    });
+    expect(mockTouchAuthSession).not.toHaveBeenCalled();
+  });
+
+  it("refreshes one session at a time so a rotated token is not reused", async () => {
+    process.env.AUTH_OAUTH2_ENABLED = "true";
+    process.env.AUTH_OAUTH2_CLIENT_ID = "client-123";
+    process.env.AUTH_OAUTH2_TOKEN_URL = "https://oauth.example.com/token";
+    let storedRefreshToken = "refresh-token-1";
+    mockGetActiveAuthSessionByToken.mockImplementation(async () => ({
+      ...activeSession,
+      refreshToken: storedRefreshToken,
+    }));
+    mockTouchAuthSession.mockImplementation(
+      async (params: { refreshToken: string }) => {
+        storedRefreshToken = params.refreshToken;
+      },
+    );
+    mockValidateAndDecodeJwt.mockResolvedValue({ sub: "sub-1" });
+    let rotation = 1;
+    const fetchMock = vi.fn(async (_url: string, init: { body: string }) => {
+      const sent = new URLSearchParams(init.body).get("refresh_token");
+      if (sent !== `refresh-token-${rotation}`) {
+        return {
+          ok: false,
+          status: 400,
+          text: async () => JSON.stringify({ error: "invalid_grant" }),
+        };
+      }
+      rotation++;
+      return {
+        ok: true,
+        status: 200,
+        text: async () =>
+          JSON.stringify({
+            id_token: `id-token-${rotation}`,
+            refresh_token: `refresh-token-${rotation}`,
+          }),
+      };
+    });
+    vi.stubGlobal("fetch", fetchMock);
+
+    const results = await Promise.all(
+      [1, 2].map(() =>
+        invokeIpcChannelOverHttp("refresh-auth-session", [
+          { sessionToken: "session-token" },
+        ]),
+      ),
+    );
+
+    expect(results).toMatchObject([
+      { idToken: "id-token-2" },
+      { idToken: "id-token-3" },
+    ]);
+    expect(mockRevokeAuthSession).not.toHaveBeenCalled();
+  });
+
+  it("revokes the auth session when the provider rejects its refresh token", async () => {
+    process.env.AUTH_OAUTH2_ENABLED = "true";
+    process.env.AUTH_OAUTH2_CLIENT_ID = "client-123";
+    process.env.AUTH_OAUTH2_TOKEN_URL = "https://oauth.example.com/token";
+    mockGetActiveAuthSessionByToken.mockResolvedValue(activeSession);
+    vi.stubGlobal(
+      "fetch",
+      vi.fn().mockResolvedValue({
+        ok: false,
+        status: 400,
+        text: async () =>
+          JSON.stringify({
+            error: "invalid_grant",
+            error_description: "Token has been expired or revoked.",
+          }),
+      }),
+    );
+
+    await expect(
+      invokeIpcChannelOverHttp("refresh-auth-session", [
+        { sessionToken: "session-token" },
+      ]),
+    ).rejects.toMatchObject({
+      statusCode: 401,
+      code: "AUTH_SESSION_INVALID",
+      message: "Token has been expired or revoked.",
+    });
+    expect(mockRevokeAuthSession).toHaveBeenCalledWith({
+      sessionId: "session-1",
+    });
+  });
+
+  it.each([
+    {
+      name: "an outage of the provider",
+      fetchMock: vi.fn().mockRejectedValue(new TypeError("fetch failed")),
+      statusCode: 503,
+      code: "AUTH_PROVIDER_UNAVAILABLE",
+    },
+    {
+      name: "a provider server error",
+      fetchMock: vi.fn().mockResolvedValue({
+        ok: false,
+        status: 500,
+        text: async () => JSON.stringify({ error: "server_error" }),
+      }),
+      statusCode: 502,
+      code: "AUTH_PROVIDER_ERROR",
+    },
+  ])(
+    "keeps the auth session on $name",
+    async ({ fetchMock, statusCode, code }) => {
+      process.env.AUTH_OAUTH2_ENABLED = "true";
+      process.env.AUTH_OAUTH2_CLIENT_ID = "client-123";
+      process.env.AUTH_OAUTH2_TOKEN_URL = "https://oauth.example.com/token";
+      mockGetActiveAuthSessionByToken.mockResolvedValue(activeSession);
+      vi.stubGlobal("fetch", fetchMock);
+
+      await expect(
+        invokeIpcChannelOverHttp("refresh-auth-session", [
+          { sessionToken: "session-token" },
+        ]),
+      ).rejects.toMatchObject({ statusCode, code });
+      expect(mockRevokeAuthSession).not.toHaveBeenCalled();
+    },
+  );
+
   (hasDatabaseUrl ? it : it.skip)(
     "supports proposal channels over HTTP IPC",
     async () => {
@@ -32,19 +32,141 @@ import {
   LOCAL_PROVIDERS,
   PROVIDER_TO_ENV_VAR,
 } from "/src/ipc/shared/language_model_constants.ts";
-import { UserSettingsSchema, type UserSettings } from "/src/lib/schemas.ts";
+import {
+  ChatModeSchema,
+  UserSettingsSchema,
+  type ChatMode,
+  type UserSettings,
+} from "/src/lib/schemas.ts";
 import { DEFAULT_TEMPLATE_ID } from "/src/shared/templates.ts";
 import { DEFAULT_THEME_ID } from "/src/shared/themes.ts";
 import { getAppPort } from "/shared/ports.ts";
-import { isMultitenantEnforced } from "/src/http/feature_flags.ts";
-import { HttpError } from "/src/http/http_errors.ts";
+import {
+  getAppExportMaxBytes,
+  isMultitenantEnforced,
+} from "/src/http/feature_flags.ts";
+import {
+  AUDIT_EXPORT_NEXT_CURSOR_HEADER,
+  exportAuditEventsForScope,
+  formatAuditEventsAsCsv,
+  formatAuditEventsAsJsonl,
+  listAuditEventsForScope,
+  type AuditEventFilters,
+} from "/src/http/audit_repositories.ts";
+import {
+  createAuthSessionForToken,
+  getActiveAuthSessionByToken,
+  hashSessionToken,
+  listActiveAuthSessionsForMember,
+  revokeAuthSession,
+  revokeAuthSessionByToken,
+  revokeAuthSessionsForMember,
+  touchAuthSession,
+} from "/src/http/auth_session_repositories.ts";
+import { createAppExportArchive } from "/src/http/app_export_repositories.ts";
+import {
+  detectAppCommands,
+  importAppSource,
+  type AppImportSource,
+} from "/src/http/app_import_repositories.ts";
+import {
+  abortAppGitMerge,
+  createAppGitBranch,
+  DEFAULT_APP_BRANCH,
+  deleteAppGitBranch,
+  getAppBranchForNewChat,
+  getAppGitMergeConflicts,
+  listAppGitBranches,
+  mergeAppGitBranch,
+  renameAppGitBranch,
+  switchAppGitBranch,
+} from "/src/http/git_branch_repositories.ts";
+import {
+  connectAppGitRemote,
+  getAppGitRemoteStatus,
+  pullAppFromGitRemote,
+  pushAppToGitRemote,
+  type GitRemoteInput,
+} from "/src/http/git_remote_repositories.ts";
+import { type JwtClaims, validateAndDecodeJwt } from "/src/http/jwt_utils.ts";
+import { HttpError, isHttpError } from "/src/http/http_errors.ts";
+import { HttpFileResponse } from "/src/http/http_responses.ts";
+import { resolveOAuth2Config } from "/src/http/oauth2_config.ts";
 import { cleanUpPortWithVerification } from "/src/http/preview_port_cleanup.ts";
 import {
+  deletePreviewProxyUrl,
+  getPreviewProxyUrl,
+  setPreviewProxyUrl,
+} from "/src/http/preview_proxy_registry.ts";
+import {
+  capturePreviewScreenshot,
+  type PreviewViewport,
+} from "/src/http/preview_screenshot.ts";
+import {
+  countRunningPreviewJobs,
   enforceAndRecordUsage,
   writeAuditEvent,
 } from "/src/http/quota_audit.ts";
+import {
+  getOrganizationQuotaForScope,
+  getUsageReportForScope,
+  listUserSoftQuotasForScope,
+  removeUserSoftQuotaForScope,
+  updateOrganizationQuotaForScope,
+  updateUserSoftQuotaForScope,
+  type OrganizationBudgetSettings,
+  type OrganizationQuotaLimits,
+  type UserSoftQuotaLimits,
+} from "/src/http/quota_repositories.ts";
+import {
+  inviteOrganizationMemberForScope,
+  inviteWorkspaceMemberForScope,
+  listOrganizationMembersForScope,
+  listWorkspaceMembersForScope,
+  removeOrganizationMemberForScope,
+  removeWorkspaceMemberForScope,
+  updateOrganizationMemberRoleForScope,
+  updateWorkspaceMemberRoleForScope,
+} from "/src/http/membership_repositories.ts";
+import {
+  createLanguageModelForScope,
+  createModelProviderForScope,
+  deleteLanguageModelForScope,
+  deleteModelProviderForScope,
+  getWorkspaceModelDefaultsForScope,
+  listLanguageModelsForScope,
+  listModelProvidersForScope,
+  setWorkspaceModelDefaultsForScope,
+  updateLanguageModelForScope,
+  updateModelProviderForScope,
+  type LanguageModelInput,
+  type ModelProviderInput,
+  type WorkspaceModelDefaults,
+} from "/src/http/model_config_repositories.ts";
+import {
+  createMcpServerForScope,
+  deleteMcpServerForScope,
+  listMcpServerToolsForScope,
+  listMcpServersForScope,
+  setMcpServerEnabledForScope,
+  updateMcpServerForScope,
+  type McpServerInput,
+} from "/src/http/mcp_server_repositories.ts";
+import {
+  listAgentToolConsentsForScope,
+  setUserAgentToolConsentForScope,
+  setWorkspaceAgentToolConsentForScope,
+} from "/src/http/agent_tool_consent_repositories.ts";
 import type { RequestContext } from "/src/http/request_context.ts";
 import { requireRoleForMutation } from "/src/http/request_context.ts";
+import {
+  maybeMigrateLegacyUserSettingsFile,
+  mergeSettingsLayers,
+  readSettingsLayersForScope,
+  writeOrganizationSettingsLayer,
+  writeUserSettingsLayer,
+  writeWorkspaceSettingsLayer,
+} from "/src/http/settings_repositories.ts";
 import {
   createAppRecordForScope,
   createChatForScope,
@@ -60,18 +182,33 @@ import {
   toggleAppFavoriteForScope,
 } from "/src/http/scoped_repositories.ts";
 import { processFullResponseActions } from "/src/ipc/processors/response_processor.ts";
+import { buildProposalFileDiffs } from "/src/ipc/processors/proposal_diff.ts";
+import { selectProposalActions } from "/src/ipc/processors/proposal_review.ts";
+import { buildVersionDiff } from "/src/ipc/processors/version_diff.ts";
 import {
   getBlazeAddDependencyTags,
   getBlazeChatSummaryTag,
   getBlazeDeleteTags,
+  getBlazePatchTags,
   getBlazeRenameTags,
   getBlazeSearchReplaceTags,
   getBlazeWriteTags,
 } from "/src/ipc/utils/blaze_tag_parser.ts";
+import { getCurrentCommitHash, gitLog } from "/src/ipc/utils/git_utils.ts";
 import { applyManualChangesWithSelfHealing } from "/src/ipc/utils/manual_apply_self_heal.ts";
+import {
+  resolveConsent,
+  type ConsentDecision,
+} from "/src/ipc/utils/mcp_consent.ts";
+import {
+  resolveAgentToolConsent,
+  type AgentToolConsentDecision,
+} from "/src/core/main/ipc/handlers/local_agent/agent_tool_consent.ts";
+import type { AgentToolConsent } from "/src/core/main/ipc/handlers/local_agent/tools/types.ts";
 
 interface InvokeMeta {
   requestContext?: RequestContext;
+  userAgent?: string | null;
 }
 
 type InvokeHandler = (args: unknown[], meta?: InvokeMeta) => Promise<unknown>;
@@ -87,18 +224,7 @@ interface OAuth2TokenResponse {
   error_description?: string;
 }
 
-interface OAuth2ResolvedConfig {
-  enabled: boolean;
-  providerName: string;
-  authorizationUrl: string | null;
-  tokenUrl: string | null;
-  clientId: string | null;
-  clientSecret: string | null;
-  scope: string;
-  redirectUri: string | null;
-  extraAuthParams: Record<string, string>;
-  extraTokenParams: Record<string, string>;
-}
+const FILE_HISTORY_DEFAULT_LIMIT = 200;
 
 const DEFAULT_USER_SETTINGS: UserSettings = UserSettingsSchema.parse({
   selectedModel: {
@@ -122,8 +248,11 @@ const DEFAULT_USER_SETTINGS: UserSettings = UserSettingsSchema.parse({
   enableNativeGit: true,
 });
 
-function normalizeChatModeForHttpOnly(value: unknown): "build" | "ask" {
-  return value === "ask" ? "ask" : "build";
+function normalizeChatModeForHttpOnly(value: unknown): ChatMode {
+  if (value === "local-agent") {
+    return "agent";
+  }
+  return ChatModeSchema.safeParse(value).data ?? "build";
 }
 
 function normalizeLegacyUserSettingsModes(
@@ -179,116 +308,165 @@ function parseUserSettingsPatch(patch: unknown): Partial<UserSettings> {
   throw new Error("Invalid settings payload");
 }
 
-function readRuntimeEnv(name: string): string | undefined {
-  return process.env[name] ?? getEnvVar(name);
+function parseNullableInt(value: unknown): number | null {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return value;
+  }
+  if (typeof value === "string") {
+    const parsed = Number(value);
+    if (Number.isFinite(parsed)) {
+      return parsed;
+    }
+  }
+  return null;
 }
 
-function readBooleanEnv(name: string, defaultValue: boolean): boolean {
-  const raw = readRuntimeEnv(name);
-  if (!raw) {
-    return defaultValue;
+/** The token endpoint answered with an error status. */
+class OAuth2TokenRequestError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    /** The OAuth2 `error` code of the response, e.g. `invalid_grant`. */
+    readonly oauthError: string | null,
+  ) {
+    super(message);
+    this.name = "OAuth2TokenRequestError";
   }
+}
 
-  const normalized = raw.trim().toLowerCase();
-  if (["1", "true", "yes", "on"].includes(normalized)) {
-    return true;
+async function requestOAuth2Tokens(
+  tokenUrl: string,
+  params: URLSearchParams,
+): Promise<OAuth2TokenResponse> {
+  const tokenResponse = await fetch(tokenUrl, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/x-www-form-urlencoded",
+      Accept: "application/json",
+    },
+    body: params.toString(),
+  });
+
+  const rawResponseText = await tokenResponse.text();
+  let parsedResponse: OAuth2TokenResponse = {};
+  if (rawResponseText.trim()) {
+    try {
+      parsedResponse = JSON.parse(rawResponseText) as OAuth2TokenResponse;
+    } catch {
+      throw new Error("OAuth2 token endpoint returned invalid JSON");
+    }
   }
-  if (["0", "false", "no", "off"].includes(normalized)) {
-    return false;
+
+  if (!tokenResponse.ok) {
+    const description =
+      parsedResponse.error_description?.trim() ||
+      parsedResponse.error?.trim() ||
+      `OAuth2 token request failed with status ${tokenResponse.status}`;
+    throw new OAuth2TokenRequestError(
+      description,
+      tokenResponse.status,
+      parsedResponse.error?.trim() || null,
+    );
   }
-  return defaultValue;
+
+  return parsedResponse;
 }
 
-function parseOAuthExtraParams(
-  value: string | undefined,
-): Record<string, string> {
-  if (!value) {
-    return {};
+async function refreshAuthSession(sessionToken: string) {
+  const session = await getActiveAuthSessionByToken(sessionToken);
+  if (!session.refreshToken) {
+    throw new HttpError(
+      401,
+      "AUTH_SESSION_REFRESH_UNAVAILABLE",
+      "Auth session has no refresh token",
+    );
   }
 
-  const source = value.trim();
-  if (!source) {
-    return {};
+  const config = resolveOAuth2Config();
+  if (!config.enabled || !config.clientId || !config.tokenUrl) {
+    throw new Error("OAuth2 is not configured");
   }
 
-  const searchParams = new URLSearchParams(
-    source.startsWith("?") ? source.slice(1) : source,
-  );
-  const result: Record<string, string> = {};
+  const tokenRequestParams = new URLSearchParams({
+    grant_type: "refresh_token",
+    refresh_token: session.refreshToken,
+    client_id: config.clientId,
+  });
+  if (config.clientSecret) {
+    tokenRequestParams.set("client_secret", config.clientSecret);
+  }
+  for (const [key, value] of Object.entries(config.extraTokenParams)) {
+    tokenRequestParams.set(key, value);
+  }
 
-  for (const [key, rawValue] of searchParams.entries()) {
-    const trimmedKey = key.trim();
-    if (!trimmedKey) {
-      continue;
+  let tokens: OAuth2TokenResponse;
+  try {
+    tokens = await requestOAuth2Tokens(config.tokenUrl, tokenRequestParams);
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : "OAuth2 refresh failed";
+    if (
+      error instanceof OAuth2TokenRequestError &&
+      error.status < 500 &&
+      error.oauthError === "invalid_grant"
+    ) {
+      // A rejected refresh token will not start working again, so the
+      // session is over and the user has to sign in.
+      await revokeAuthSession({ sessionId: session.id });
+      throw new HttpError(401, "AUTH_SESSION_INVALID", message);
     }
-    result[trimmedKey] = rawValue;
+    // Outages and other provider errors may pass, so the session is kept
+    // for the next refresh.
+    if (error instanceof OAuth2TokenRequestError) {
+      throw new HttpError(502, "AUTH_PROVIDER_ERROR", message);
+    }
+    throw new HttpError(503, "AUTH_PROVIDER_UNAVAILABLE", message);
   }
 
-  return result;
-}
-
-function toNullableTrimmed(value: string | undefined): string | null {
-  const trimmed = value?.trim();
-  return trimmed ? trimmed : null;
-}
-
-function parseNullableInt(value: unknown): number | null {
-  if (typeof value === "number" && Number.isFinite(value)) {
-    return value;
+  const accessToken = tokens.access_token?.trim() || null;
+  const idToken = tokens.id_token?.trim() || null;
+  // Same token the sign-in exchange verifies and the browser sends.
+  const bearerToken = idToken || accessToken;
+  if (!bearerToken) {
+    throw new HttpError(
+      502,
+      "AUTH_PROVIDER_ERROR",
+      "OAuth2 token endpoint returned no token",
+    );
   }
-  if (typeof value === "string") {
-    const parsed = Number(value);
-    if (Number.isFinite(parsed)) {
-      return parsed;
-    }
+  let claims: JwtClaims;
+  try {
+    claims = await validateAndDecodeJwt(bearerToken);
+  } catch (error) {
+    throw new HttpError(
+      502,
+      "AUTH_PROVIDER_ERROR",
+      error instanceof Error ? error.message : "Invalid OAuth2 token",
+    );
+  }
+  if (claims.sub !== session.userExternalSub) {
+    // The stored refresh token does not belong to the session's user.
+    await revokeAuthSession({ sessionId: session.id });
+    throw new HttpError(
+      401,
+      "AUTH_SESSION_INVALID",
+      "Refreshed token belongs to another user",
+    );
   }
-  return null;
-}
-
-function resolveOAuth2Config(): OAuth2ResolvedConfig {
-  const clientId = toNullableTrimmed(readRuntimeEnv("AUTH_OAUTH2_CLIENT_ID"));
-  const clientSecret = toNullableTrimmed(
-    readRuntimeEnv("AUTH_OAUTH2_CLIENT_SECRET"),
-  );
-  const authorizationUrl =
-    toNullableTrimmed(readRuntimeEnv("AUTH_OAUTH2_AUTHORIZATION_URL")) ??
-    "https://accounts.google.com/o/oauth2/v2/auth";
-  const tokenUrl =
-    toNullableTrimmed(readRuntimeEnv("AUTH_OAUTH2_TOKEN_URL")) ??
-    "https://oauth2.googleapis.com/token";
-  const redirectUri = toNullableTrimmed(
-    readRuntimeEnv("AUTH_OAUTH2_REDIRECT_URI"),
-  );
-  const providerName =
-    toNullableTrimmed(readRuntimeEnv("AUTH_OAUTH2_PROVIDER_NAME")) ?? "Google";
-  const scope =
-    toNullableTrimmed(readRuntimeEnv("AUTH_OAUTH2_SCOPE")) ??
-    "openid profile email";
-  const extraAuthParams = parseOAuthExtraParams(
-    readRuntimeEnv("AUTH_OAUTH2_AUTH_EXTRA_PARAMS"),
-  );
-  const extraTokenParams = parseOAuthExtraParams(
-    readRuntimeEnv("AUTH_OAUTH2_TOKEN_EXTRA_PARAMS"),
-  );
 
-  const enabledFromEnv = readBooleanEnv("AUTH_OAUTH2_ENABLED", true);
-  const enabled =
-    enabledFromEnv &&
-    Boolean(clientId) &&
-    Boolean(authorizationUrl) &&
-    Boolean(tokenUrl);
+  await touchAuthSession({
+    session,
+    refreshToken: tokens.refresh_token?.trim() || null,
+    bearerToken,
+    claims,
+  });
 
   return {
-    enabled,
-    providerName,
-    authorizationUrl,
-    tokenUrl,
-    clientId,
-    clientSecret,
-    scope,
-    redirectUri,
-    extraAuthParams,
-    extraTokenParams,
+    accessToken,
+    idToken,
+    tokenType: tokens.token_type?.trim() || null,
+    expiresIn: parseNullableInt(tokens.expires_in),
+    scope: tokens.scope?.trim() || null,
   };
 }
 
@@ -411,9 +589,32 @@ async function stageWorkspaceToTargetCommit(
   }
 }
 
+/**
+ * Branch a revert lands on: the branch of the reverted chat, else the current
+ * branch, else (while a version is checked out) the default branch.
+ */
+async function resolveRevertBranch(params: {
+  appId: number;
+  appPath: string;
+  chatId?: number;
+}): Promise<string> {
+  if (typeof params.chatId === "number") {
+    const chat = await db.query.chats.findFirst({
+      where: and(eq(chats.id, params.chatId), eq(chats.appId, params.appId)),
+      columns: { branch: true },
+    });
+    if (chat?.branch) {
+      return chat.branch;
+    }
+  }
+  return (
+    (await git.currentBranch({ fs, dir: params.appPath })) ?? DEFAULT_APP_BRANCH
+  );
+}
+
 async function ensureWorkspaceForApp(
   appPath: string,
-): Promise<{ initialCommitHash: string }> {
+): Promise<{ initialCommitHash: string; branch: string }> {
   const resolvedPath = getBlazeAppPath(appPath);
   const scaffoldPath = path.resolve(process.cwd(), "scaffold");
 
@@ -429,7 +630,11 @@ async function ensureWorkspaceForApp(
 
   try {
     await fs.promises.cp(scaffoldPath, resolvedPath, { recursive: true });
-    await git.init({ fs, dir: resolvedPath, defaultBranch: "main" });
+    await git.init({
+      fs,
+      dir: resolvedPath,
+      defaultBranch: DEFAULT_APP_BRANCH,
+    });
     await stageAllFiles(resolvedPath);
 
     const initialCommitHash = await git.commit({
@@ -442,7 +647,7 @@ async function ensureWorkspaceForApp(
       },
     });
 
-    return { initialCommitHash };
+    return { initialCommitHash, branch: DEFAULT_APP_BRANCH };
   } catch (error) {
     await fs.promises.rm(resolvedPath, { recursive: true, force: true });
     throw error;
@@ -492,9 +697,59 @@ function writeUserSettings(settings: Partial<UserSettings>): UserSettings {
   return stripLegacyUserSettings(mergedSettings);
 }
 
+const LegacyUserSettingsFileSchema = UserSettingsSchema.partial();
+
+export async function readUserSettingsForScope(
+  context: RequestContext | null,
+): Promise<UserSettings> {
+  if (!context) {
+    return readUserSettings();
+  }
+
+  await maybeMigrateLegacyUserSettingsFile({
+    userId: context.userId,
+    settingsPath: getSettingsFilePath(),
+    parseLegacySettings: (raw) =>
+      LegacyUserSettingsFileSchema.parse(
+        normalizeLegacyUserSettingsModes(raw as Record<string, unknown>),
+      ),
+  });
+  const layers = await readSettingsLayersForScope(context);
+  const modelDefaults = await getWorkspaceModelDefaultsForScope(context);
+  return stripLegacyUserSettings(
+    mergeSettingsLayers(
+      DEFAULT_USER_SETTINGS,
+      layers.organization,
+      layers.workspace,
+      // The pinned workspace model applies unless the user picked their own.
+      modelDefaults.selectedModel
+        ? { selectedModel: modelDefaults.selectedModel }
+        : undefined,
+      layers.user,
+    ),
+  );
+}
+
+async function writeUserSettingsForScope(
+  context: RequestContext | null,
+  settings: Partial<UserSettings>,
+): Promise<UserSettings> {
+  if (!context) {
+    return writeUserSettings(settings);
+  }
+
+  // Validate the merged result before persisting the override.
+  UserSettingsSchema.parse(
+    mergeSettingsLayers(await readUserSettingsForScope(context), settings),
+  );
+  await writeUserSettingsLayer({ context, patch: settings });
+  return readUserSettingsForScope(context);
+}
+
 type AppRow = typeof apps.$inferSelect;
 type ChatRow = typeof chats.$inferSelect;
 type MessageRow = typeof messages.$inferSelect;
+type MembershipRole = RequestContext["organizationRole"];
 
 function mapAppRow(row: AppRow) {
   const appPath = String(row.path ?? "");
@@ -522,6 +777,7 @@ function mapChatRow(row: ChatRow) {
     createdByUserId: row.createdByUserId ?? null,
     appId: Number(row.appId),
     title: row.title ?? null,
+    branch: row.branch ?? null,
     createdAt: toIsoDate(row.createdAt),
   };
 }
@@ -541,6 +797,12 @@ function mapMessageRow(row: MessageRow) {
     requestId: row.requestId ?? null,
     maxTokensUsed: row.maxTokensUsed == null ? null : Number(row.maxTokensUsed),
     model: row.model ?? null,
+    inputTokens: row.inputTokens ?? null,
+    outputTokens: row.outputTokens ?? null,
+    cachedInputTokens: row.cachedInputTokens ?? null,
+    costMicroUsd: row.costMicroUsd ?? null,
+    proposalReview: row.proposalReview ?? null,
+    applyReport: row.applyReport ?? null,
     aiMessagesJson: row.aiMessagesJson ?? null,
     createdAt: toIsoDate(row.createdAt),
   };
@@ -550,12 +812,17 @@ function buildCodeProposalFromMessage(messageContent: string) {
   const proposalTitle = getBlazeChatSummaryTag(messageContent);
   const proposalWriteFiles = getBlazeWriteTags(messageContent);
   const proposalSearchReplaceFiles = getBlazeSearchReplaceTags(messageContent);
+  const proposalPatchFiles = getBlazePatchTags(messageContent);
   const proposalRenameFiles = getBlazeRenameTags(messageContent);
   const proposalDeleteFiles = getBlazeDeleteTags(messageContent);
   const packagesAdded = getBlazeAddDependencyTags(messageContent);
 
   const filesChanged = [
-    ...proposalWriteFiles.concat(proposalSearchReplaceFiles).map((tag) => ({
+    ...[
+      ...proposalWriteFiles,
+      ...proposalSearchReplaceFiles,
+      ...proposalPatchFiles,
+    ].map((tag) => ({
       name: path.basename(tag.path),
       path: tag.path,
       summary: tag.description ?? "(no change summary found)",
@@ -604,6 +871,77 @@ function requireScopedContext(meta?: InvokeMeta): RequestContext {
   return context;
 }
 
+function requireWorkspaceModelManager(context: RequestContext) {
+  if (
+    !["owner", "admin"].includes(context.organizationRole) &&
+    !["owner", "admin"].includes(context.workspaceRole)
+  ) {
+    throw new HttpError(
+      403,
+      "FORBIDDEN",
+      "Only owner/admin can manage workspace model configuration",
+    );
+  }
+}
+
+function requireWorkspaceMcpManager(context: RequestContext) {
+  if (
+    !["owner", "admin"].includes(context.organizationRole) &&
+    !["owner", "admin"].includes(context.workspaceRole)
+  ) {
+    throw new HttpError(
+      403,
+      "FORBIDDEN",
+      "Only owner/admin can manage workspace MCP servers",
+    );
+  }
+}
+
+function requireWorkspaceAgentToolPolicyManager(context: RequestContext) {
+  if (
+    !["owner", "admin"].includes(context.organizationRole) &&
+    !["owner", "admin"].includes(context.workspaceRole)
+  ) {
+    throw new HttpError(
+      403,
+      "FORBIDDEN",
+      "Only owner/admin can manage workspace agent tool policies",
+    );
+  }
+}
+
+function requireWorkspaceGitCredentialsManager(context: RequestContext) {
+  if (
+    !["owner", "admin"].includes(context.organizationRole) &&
+    !["owner", "admin"].includes(context.workspaceRole)
+  ) {
+    throw new HttpError(
+      403,
+      "FORBIDDEN",
+      "Only owner/admin can manage workspace git credentials",
+    );
+  }
+}
+
+/** Rejects paths that point outside the app, such as `../secrets`. */
+function assertRelativeAppFilePath(appPath: string, filePath: string) {
+  const resolvedAppPath = path.resolve(appPath);
+  const resolvedFilePath = path.resolve(resolvedAppPath, filePath);
+  if (!resolvedFilePath.startsWith(`${resolvedAppPath}${path.sep}`)) {
+    throw new HttpError(400, "INVALID_FILE_PATH", "Invalid file path");
+  }
+}
+
+function parseAppIdPayload<T extends object>(
+  args: unknown[],
+): { appId: number } & Partial<T> {
+  const [payload] = args as [({ appId?: number } & Partial<T>) | undefined];
+  if (typeof payload?.appId !== "number") {
+    throw new Error("Invalid app ID");
+  }
+  return payload as { appId: number } & Partial<T>;
+}
+
 export type HttpChatMessage = {
   id: number;
   role: "user" | "assistant";
@@ -699,7 +1037,6 @@ async function listLanguageModelProviders(context?: RequestContext | null) {
             id: language_model_providers.id,
             name: language_model_providers.name,
             api_base_url: language_model_providers.api_base_url,
-            env_var_name: language_model_providers.env_var_name,
             trust_self_signed: language_model_providers.trust_self_signed,
           })
           .from(language_model_providers)
@@ -714,7 +1051,6 @@ async function listLanguageModelProviders(context?: RequestContext | null) {
             id: language_model_providers.id,
             name: language_model_providers.name,
             api_base_url: language_model_providers.api_base_url,
-            env_var_name: language_model_providers.env_var_name,
             trust_self_signed: language_model_providers.trust_self_signed,
           })
           .from(language_model_providers);
@@ -740,7 +1076,6 @@ async function listLanguageModelProviders(context?: RequestContext | null) {
       id: provider.id,
       name: provider.name,
       apiBaseUrl: provider.api_base_url,
-      envVarName: provider.env_var_name ?? undefined,
       trustSelfSigned: Boolean(provider.trust_self_signed),
       type: "custom" as const,
     })),
@@ -770,7 +1105,6 @@ function getRunCommand({
 type PreviewProxyWorker = Awaited<ReturnType<typeof startProxy>>;
 
 const previewProxyWorkers = new Map<number, PreviewProxyWorker>();
-const previewProxyUrls = new Map<number, string>();
 
 function getOriginalPreviewUrl(appId: number): string {
   return `http://127.0.0.1:${getAppPort(appId)}`;
@@ -779,7 +1113,7 @@ function getOriginalPreviewUrl(appId: number): string {
 async function stopPreviewProxyForApp(appId: number): Promise<void> {
   const worker = previewProxyWorkers.get(appId);
   previewProxyWorkers.delete(appId);
-  previewProxyUrls.delete(appId);
+  deletePreviewProxyUrl(appId);
 
   if (!worker) {
     return;
@@ -797,7 +1131,7 @@ function stopPreviewProxyForAppInBackground(appId: number): void {
 }
 
 async function getOrCreatePreviewProxyUrl(appId: number): Promise<string> {
-  const existingProxyUrl = previewProxyUrls.get(appId);
+  const existingProxyUrl = getPreviewProxyUrl(appId);
   if (existingProxyUrl) {
     return existingProxyUrl;
   }
@@ -851,12 +1185,12 @@ async function getOrCreatePreviewProxyUrl(appId: number): Promise<string> {
   }
 
   previewProxyWorkers.set(appId, worker);
-  previewProxyUrls.set(appId, startedProxyUrl);
+  setPreviewProxyUrl(appId, startedProxyUrl);
   worker.once("exit", () => {
     const activeWorker = previewProxyWorkers.get(appId);
     if (activeWorker === worker) {
       previewProxyWorkers.delete(appId);
-      previewProxyUrls.delete(appId);
+      deletePreviewProxyUrl(appId);
     }
   });
 
@@ -976,11 +1310,14 @@ async function startPreviewAppForHttp(
     startCommand: app.startCommand,
   });
 
+  const appPort = getAppPort(appId);
+  // Custom start commands read the preview port from the environment.
   const process = spawn(command, [], {
     cwd: appPath,
     shell: true,
     stdio: "pipe",
     detached: false,
+    env: { ...globalThis.process.env, PORT: String(appPort) },
   });
 
   if (!process.pid) {
@@ -1021,7 +1358,6 @@ async function startPreviewAppForHttp(
     stopPreviewProxyForAppInBackground(appId);
   });
 
-  const appPort = getAppPort(appId);
   try {
     await waitForAppReady({
       appId,
@@ -1043,14 +1379,83 @@ async function startPreviewAppForHttp(
 }
 
 const handlers: Record<string, InvokeHandler> = {
-  async "get-user-settings"() {
-    return readUserSettings();
+  async "get-user-settings"(_args, meta) {
+    return readUserSettingsForScope(getRequestContext(meta));
+  },
+
+  async "set-user-settings"(args, meta) {
+    const [nextSettingsRaw] = args as [unknown];
+    const nextSettings = parseUserSettingsPatch(nextSettingsRaw);
+    return writeUserSettingsForScope(getRequestContext(meta), nextSettings);
+  },
+
+  async "get-org-settings"(_args, meta) {
+    const context = requireScopedContext(meta);
+    const layers = await readSettingsLayersForScope(context);
+    return layers.organization;
+  },
+
+  async "set-org-settings"(args, meta) {
+    const context = requireScopedContext(meta);
+    if (!["owner", "admin"].includes(context.organizationRole)) {
+      throw new HttpError(
+        403,
+        "FORBIDDEN",
+        "Only organization owner/admin can update organization default settings",
+      );
+    }
+    const [nextSettingsRaw] = args as [unknown];
+    const nextSettings = parseUserSettingsPatch(nextSettingsRaw);
+    const settings = await writeOrganizationSettingsLayer({
+      context,
+      patch: nextSettings,
+    });
+
+    await writeAuditEvent({
+      context,
+      action: "organization_settings_update",
+      resourceType: "organization",
+      resourceId: context.orgId,
+      metadata: { fields: Object.keys(nextSettings) },
+    });
+
+    return settings;
   },
 
-  async "set-user-settings"(args) {
+  async "get-workspace-settings"(_args, meta) {
+    const context = requireScopedContext(meta);
+    const layers = await readSettingsLayersForScope(context);
+    return layers.workspace;
+  },
+
+  async "set-workspace-settings"(args, meta) {
+    const context = requireScopedContext(meta);
+    if (
+      !["owner", "admin"].includes(context.organizationRole) &&
+      !["owner", "admin"].includes(context.workspaceRole)
+    ) {
+      throw new HttpError(
+        403,
+        "FORBIDDEN",
+        "Only owner/admin can update workspace default settings",
+      );
+    }
     const [nextSettingsRaw] = args as [unknown];
     const nextSettings = parseUserSettingsPatch(nextSettingsRaw);
-    return writeUserSettings(nextSettings);
+    const settings = await writeWorkspaceSettingsLayer({
+      context,
+      patch: nextSettings,
+    });
+
+    await writeAuditEvent({
+      context,
+      action: "workspace_settings_update",
+      resourceType: "workspace",
+      resourceId: context.workspaceId,
+      metadata: { fields: Object.keys(nextSettings) },
+    });
+
+    return settings;
   },
 
   async "get-oauth2-config"() {
@@ -1066,7 +1471,7 @@ const handlers: Record<string, InvokeHandler> = {
     };
   },
 
-  async "exchange-oauth2-code"(args) {
+  async "exchange-oauth2-code"(args, meta) {
     const [payload] = args as [
       | { code?: string; codeVerifier?: string; redirectUri?: string }
       | undefined,
@@ -1109,43 +1514,52 @@ const handlers: Record<string, InvokeHandler> = {
       tokenRequestParams.set(key, value);
     }
 
-    const tokenResponse = await fetch(config.tokenUrl, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/x-www-form-urlencoded",
-        Accept: "application/json",
-      },
-      body: tokenRequestParams.toString(),
-    });
-
-    const rawResponseText = await tokenResponse.text();
-    let parsedResponse: OAuth2TokenResponse = {};
-    if (rawResponseText.trim()) {
-      try {
-        parsedResponse = JSON.parse(rawResponseText) as OAuth2TokenResponse;
-      } catch {
-        throw new Error("OAuth2 token endpoint returned invalid JSON");
-      }
+    const tokens = await requestOAuth2Tokens(
+      config.tokenUrl,
+      tokenRequestParams,
+    );
+    const accessToken = tokens.access_token?.trim() || null;
+    const idToken = tokens.id_token?.trim() || null;
+    const bearerToken = idToken || accessToken;
+    if (!bearerToken) {
+      throw new Error("OAuth2 token endpoint returned no token");
     }
 
-    if (!tokenResponse.ok) {
-      const description =
-        parsedResponse.error_description?.trim() ||
-        parsedResponse.error?.trim() ||
-        `OAuth2 token exchange failed with status ${tokenResponse.status}`;
-      throw new Error(description);
-    }
+    // The refresh token stays on the server; the browser only gets an opaque
+    // session token it can trade for new access tokens or revoke on logout.
+    const session = await createAuthSessionForToken({
+      bearerToken,
+      refreshToken: tokens.refresh_token?.trim() || null,
+      userAgent: meta?.userAgent,
+    });
 
     return {
-      accessToken: parsedResponse.access_token?.trim() || null,
-      idToken: parsedResponse.id_token?.trim() || null,
-      refreshToken: parsedResponse.refresh_token?.trim() || null,
-      tokenType: parsedResponse.token_type?.trim() || null,
-      expiresIn: parseNullableInt(parsedResponse.expires_in),
-      scope: parsedResponse.scope?.trim() || null,
+      accessToken,
+      idToken,
+      sessionToken: session.sessionToken,
+      sessionExpiresAt: session.expiresAt,
+      tokenType: tokens.token_type?.trim() || null,
+      expiresIn: parseNullableInt(tokens.expires_in),
+      scope: tokens.scope?.trim() || null,
     };
   },
 
+  async "refresh-auth-session"(args) {
+    const [payload] = args as [{ sessionToken: string }];
+    // A concurrent refresh would reuse a refresh token the other one just
+    // rotated, and its invalid_grant would revoke the session.
+    return withLock(
+      `auth-session:${hashSessionToken(payload.sessionToken)}`,
+      () => refreshAuthSession(payload.sessionToken),
+    );
+  },
+
+  async "logout-auth-session"(args) {
+    const [payload] = args as [{ sessionToken: string }];
+    await revokeAuthSessionByToken(payload.sessionToken);
+    return;
+  },
+
   async "list-orgs"(_args, meta) {
     const context = requireScopedContext(meta);
     return listOrganizationsForUser(context.userId);
@@ -1501,47 +1915,694 @@ const handlers: Record<string, InvokeHandler> = {
     return;
   },
 
-  async "get-app-version"() {
-    const packageJsonPath = path.resolve(process.cwd(), "package.json");
-    const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, "utf-8"));
-    return { version: packageJson.version };
+  async "list-org-members"(_args, meta) {
+    const context = requireScopedContext(meta);
+    return listOrganizationMembersForScope(context);
   },
 
-  async "list-apps"(_args, meta) {
-    const scopedContext = getRequestContext(meta);
-    if (scopedContext) {
-      return {
-        apps: await listAppsForScope(scopedContext),
-      };
-    }
-    if (isMultitenantEnforced()) {
-      throw new HttpError(
-        400,
-        "TENANT_SCOPE_REQUIRED",
-        "list-apps requires tenant scope in enforce mode",
-      );
-    }
+  async "invite-org-member"(args, meta) {
+    const context = requireScopedContext(meta);
+    const [payload] = args as [{ email: string; role: MembershipRole }];
+    const member = await inviteOrganizationMemberForScope({
+      context,
+      email: payload.email,
+      role: payload.role,
+    });
 
-    const rows = await db.select().from(apps).orderBy(desc(apps.createdAt));
-    return {
-      apps: rows.map(mapAppRow),
-    };
+    await writeAuditEvent({
+      context,
+      action: "organization_member_invite",
+      resourceType: "organization_membership",
+      resourceId: member.id,
+      metadata: { email: member.invitedEmail, role: member.role },
+    });
+
+    return member;
   },
 
-  async "read-app-file"(args, meta) {
-    const [params] = args as [
-      { appId?: number; filePath?: string } | undefined,
-    ];
-    const appId = params?.appId;
-    const filePath = params?.filePath;
-    if (typeof appId !== "number") {
-      throw new Error("Invalid app ID");
-    }
-    if (typeof filePath !== "string" || filePath.trim().length === 0) {
-      throw new Error("Invalid file path");
-    }
+  async "update-org-member"(args, meta) {
+    const context = requireScopedContext(meta);
+    const [membershipId, payload] = args as [number, { role: MembershipRole }];
+    const { previousRole, member } = await updateOrganizationMemberRoleForScope(
+      {
+        context,
+        membershipId,
+        role: payload.role,
+      },
+    );
 
-    const scopedContext = getRequestContext(meta);
+    await writeAuditEvent({
+      context,
+      action: "organization_member_role_update",
+      resourceType: "organization_membership",
+      resourceId: member.id,
+      metadata: { previousRole, role: member.role },
+    });
+
+    return member;
+  },
+
+  async "remove-org-member"(args, meta) {
+    const context = requireScopedContext(meta);
+    const [membershipId] = args as [number];
+    const member = await removeOrganizationMemberForScope({
+      context,
+      membershipId,
+    });
+
+    await writeAuditEvent({
+      context,
+      action: "organization_member_remove",
+      resourceType: "organization_membership",
+      resourceId: member.id,
+      metadata: {
+        userId: member.userId,
+        email: member.email,
+        role: member.role,
+      },
+    });
+    return;
+  },
+
+  async "list-org-member-sessions"(args, meta) {
+    const context = requireScopedContext(meta);
+    const [membershipId] = args as [number];
+    return listActiveAuthSessionsForMember({ context, membershipId });
+  },
+
+  async "revoke-org-member-sessions"(args, meta) {
+    const context = requireScopedContext(meta);
+    const [membershipId, sessionId] = args as [number, string | undefined];
+    const revoked = await revokeAuthSessionsForMember({
+      context,
+      membershipId,
+      sessionId,
+    });
+
+    await writeAuditEvent({
+      context,
+      action: "auth_session_revoke",
+      resourceType: "organization_membership",
+      resourceId: membershipId,
+      metadata: {
+        userId: revoked.userId,
+        sessionIds: revoked.sessionIds,
+      },
+    });
+    return;
+  },
+
+  async "list-audit-events"(args, meta) {
+    const context = requireScopedContext(meta);
+    const [query] = args as [
+      { filters: AuditEventFilters; cursor?: string; limit?: number },
+    ];
+    return listAuditEventsForScope({
+      context,
+      filters: query.filters,
+      cursor: query.cursor,
+      limit: query.limit,
+    });
+  },
+
+  async "export-audit-events"(args, meta) {
+    const context = requireScopedContext(meta);
+    const [query] = args as [
+      { filters: AuditEventFilters; format: "csv" | "jsonl"; cursor?: string },
+    ];
+    const { events, nextCursor } = await exportAuditEventsForScope({
+      context,
+      filters: query.filters,
+      cursor: query.cursor,
+    });
+
+    // Exports leave the system, so they are part of the trail themselves.
+    await writeAuditEvent({
+      context,
+      action: "audit_events_export",
+      resourceType: "audit_events",
+      metadata: {
+        format: query.format,
+        count: events.length,
+        truncated: nextCursor !== null,
+        filters: query.filters,
+      },
+    });
+
+    const date = new Date().toISOString().slice(0, 10);
+    return new HttpFileResponse({
+      contentType:
+        query.format === "csv"
+          ? "text/csv; charset=utf-8"
+          : "application/x-ndjson; charset=utf-8",
+      fileName: `audit-events-${date}.${query.format}`,
+      body:
+        query.format === "csv"
+          ? formatAuditEventsAsCsv(events)
+          : formatAuditEventsAsJsonl(events),
+      // Larger exports are cut off; the rest continues from this cursor.
+      headers: nextCursor
+        ? { [AUDIT_EXPORT_NEXT_CURSOR_HEADER]: nextCursor }
+        : {},
+    });
+  },
+
+  async "get-org-quotas"(_args, meta) {
+    const context = requireScopedContext(meta);
+    return getOrganizationQuotaForScope(context);
+  },
+
+  async "update-org-quotas"(args, meta) {
+    const context = requireScopedContext(meta);
+    const [limits] = args as [
+      Partial<OrganizationQuotaLimits & OrganizationBudgetSettings>,
+    ];
+    const { previous, quota } = await updateOrganizationQuotaForScope({
+      context,
+      limits,
+    });
+
+    await writeAuditEvent({
+      context,
+      action: "organization_quota_update",
+      resourceType: "organization_quota",
+      resourceId: context.orgId,
+      metadata: { previous, limits },
+    });
+
+    return quota;
+  },
+
+  async "list-user-soft-quotas"(_args, meta) {
+    const context = requireScopedContext(meta);
+    return listUserSoftQuotasForScope(context);
+  },
+
+  async "update-user-soft-quota"(args, meta) {
+    const context = requireScopedContext(meta);
+    const [userId, limits] = args as [string, Partial<UserSoftQuotaLimits>];
+    const quota = await updateUserSoftQuotaForScope({
+      context,
+      userId,
+      limits,
+    });
+
+    await writeAuditEvent({
+      context,
+      action: "user_soft_quota_update",
+      resourceType: "user_soft_quota",
+      resourceId: userId,
+      metadata: { limits },
+    });
+
+    return quota;
+  },
+
+  async "remove-user-soft-quota"(args, meta) {
+    const context = requireScopedContext(meta);
+    const [userId] = args as [string];
+    const removed = await removeUserSoftQuotaForScope({ context, userId });
+    if (removed) {
+      await writeAuditEvent({
+        context,
+        action: "user_soft_quota_remove",
+        resourceType: "user_soft_quota",
+        resourceId: userId,
+      });
+    }
+  },
+
+  async "get-usage-report"(args, meta) {
+    const context = requireScopedContext(meta);
+    const [query] = args as [{ from?: Date; to?: Date; workspaceId?: string }];
+    return getUsageReportForScope({ context, ...query });
+  },
+
+  async "list-workspace-members"(_args, meta) {
+    const context = requireScopedContext(meta);
+    return listWorkspaceMembersForScope(context);
+  },
+
+  async "invite-workspace-member"(args, meta) {
+    const context = requireScopedContext(meta);
+    const [payload] = args as [{ email: string; role: MembershipRole }];
+    const member = await inviteWorkspaceMemberForScope({
+      context,
+      email: payload.email,
+      role: payload.role,
+    });
+
+    await writeAuditEvent({
+      context,
+      action: "workspace_member_invite",
+      resourceType: "workspace_membership",
+      resourceId: member.id,
+      metadata: { email: member.invitedEmail, role: member.role },
+    });
+
+    return member;
+  },
+
+  async "update-workspace-member"(args, meta) {
+    const context = requireScopedContext(meta);
+    const [membershipId, payload] = args as [number, { role: MembershipRole }];
+    const { previousRole, member } = await updateWorkspaceMemberRoleForScope({
+      context,
+      membershipId,
+      role: payload.role,
+    });
+
+    await writeAuditEvent({
+      context,
+      action: "workspace_member_role_update",
+      resourceType: "workspace_membership",
+      resourceId: member.id,
+      metadata: { previousRole, role: member.role },
+    });
+
+    return member;
+  },
+
+  async "remove-workspace-member"(args, meta) {
+    const context = requireScopedContext(meta);
+    const [membershipId] = args as [number];
+    const member = await removeWorkspaceMemberForScope({
+      context,
+      membershipId,
+    });
+
+    await writeAuditEvent({
+      context,
+      action: "workspace_member_remove",
+      resourceType: "workspace_membership",
+      resourceId: member.id,
+      metadata: {
+        userId: member.userId,
+        email: member.email,
+        role: member.role,
+      },
+    });
+    return;
+  },
+
+  async "list-model-providers"(_args, meta) {
+    const context = requireScopedContext(meta);
+    return listModelProvidersForScope(context);
+  },
+
+  async "create-model-provider"(args, meta) {
+    const context = requireScopedContext(meta);
+    requireWorkspaceModelManager(context);
+    const [payload] = args as [ModelProviderInput];
+    const provider = await createModelProviderForScope({
+      context,
+      provider: payload,
+    });
+
+    await writeAuditEvent({
+      context,
+      action: "model_provider_create",
+      resourceType: "language_model_provider",
+      resourceId: provider.id,
+      metadata: {
+        name: provider.name,
+        apiBaseUrl: provider.apiBaseUrl,
+        hasApiKey: provider.hasApiKey,
+      },
+    });
+    return provider;
+  },
+
+  async "update-model-provider"(args, meta) {
+    const context = requireScopedContext(meta);
+    requireWorkspaceModelManager(context);
+    const [providerId, patch] = args as [string, Partial<ModelProviderInput>];
+    const provider = await updateModelProviderForScope({
+      context,
+      providerId,
+      patch,
+    });
+
+    await writeAuditEvent({
+      context,
+      action: "model_provider_update",
+      resourceType: "language_model_provider",
+      resourceId: provider.id,
+      // Record which fields changed, never the API key itself.
+      metadata: { fields: Object.keys(patch) },
+    });
+    return provider;
+  },
+
+  async "delete-model-provider"(args, meta) {
+    const context = requireScopedContext(meta);
+    requireWorkspaceModelManager(context);
+    const [providerId] = args as [string];
+    await deleteModelProviderForScope({ context, providerId });
+
+    await writeAuditEvent({
+      context,
+      action: "model_provider_delete",
+      resourceType: "language_model_provider",
+      resourceId: providerId,
+    });
+    return;
+  },
+
+  async "list-workspace-models"(_args, meta) {
+    const context = requireScopedContext(meta);
+    return listLanguageModelsForScope(context);
+  },
+
+  async "create-workspace-model"(args, meta) {
+    const context = requireScopedContext(meta);
+    requireWorkspaceModelManager(context);
+    const [payload] = args as [LanguageModelInput];
+    const model = await createLanguageModelForScope({
+      context,
+      model: payload,
+    });
+
+    await writeAuditEvent({
+      context,
+      action: "language_model_create",
+      resourceType: "language_model",
+      resourceId: model.id,
+      metadata: { providerId: model.providerId, apiName: model.apiName },
+    });
+    return model;
+  },
+
+  async "update-workspace-model"(args, meta) {
+    const context = requireScopedContext(meta);
+    requireWorkspaceModelManager(context);
+    const [modelId, patch] = args as [
+      number,
+      Partial<Omit<LanguageModelInput, "providerId">>,
+    ];
+    const model = await updateLanguageModelForScope({
+      context,
+      modelId,
+      patch,
+    });
+
+    await writeAuditEvent({
+      context,
+      action: "language_model_update",
+      resourceType: "language_model",
+      resourceId: model.id,
+      metadata: { fields: Object.keys(patch) },
+    });
+    return model;
+  },
+
+  async "delete-workspace-model"(args, meta) {
+    const context = requireScopedContext(meta);
+    requireWorkspaceModelManager(context);
+    const [modelId] = args as [number];
+    await deleteLanguageModelForScope({ context, modelId });
+
+    await writeAuditEvent({
+      context,
+      action: "language_model_delete",
+      resourceType: "language_model",
+      resourceId: modelId,
+    });
+    return;
+  },
+
+  async "get-workspace-model-settings"(_args, meta) {
+    const context = requireScopedContext(meta);
+    return getWorkspaceModelDefaultsForScope(context);
+  },
+
+  async "set-workspace-model-settings"(args, meta) {
+    const context = requireScopedContext(meta);
+    requireWorkspaceModelManager(context);
+    const [defaults] = args as [WorkspaceModelDefaults];
+    const result = await setWorkspaceModelDefaultsForScope({
+      context,
+      defaults,
+    });
+
+    await writeAuditEvent({
+      context,
+      action: "workspace_model_settings_update",
+      resourceType: "workspace",
+      resourceId: context.workspaceId,
+      metadata: { selectedModel: result.selectedModel },
+    });
+    return result;
+  },
+
+  async "list-mcp-servers"(_args, meta) {
+    const context = requireScopedContext(meta);
+    return listMcpServersForScope(context);
+  },
+
+  async "create-mcp-server"(args, meta) {
+    const context = requireScopedContext(meta);
+    requireWorkspaceMcpManager(context);
+    const [payload] = args as [McpServerInput];
+    const server = await createMcpServerForScope({ context, server: payload });
+
+    await writeAuditEvent({
+      context,
+      action: "mcp_server_create",
+      resourceType: "mcp_server",
+      resourceId: server.id,
+      // Environment values may hold credentials; record only their names.
+      metadata: {
+        name: server.name,
+        transport: server.transport,
+        envKeys: Object.keys(server.env),
+      },
+    });
+    return server;
+  },
+
+  async "patch-mcp-server"(args, meta) {
+    const context = requireScopedContext(meta);
+    requireWorkspaceMcpManager(context);
+    const [serverId, patch] = args as [number, Partial<McpServerInput>];
+    const server = await updateMcpServerForScope({
+      context,
+      serverId,
+      patch,
+    });
+
+    await writeAuditEvent({
+      context,
+      action: "mcp_server_update",
+      resourceType: "mcp_server",
+      resourceId: server.id,
+      metadata: { fields: Object.keys(patch) },
+    });
+    return server;
+  },
+
+  async "delete-mcp-server"(args, meta) {
+    const context = requireScopedContext(meta);
+    requireWorkspaceMcpManager(context);
+    const [serverId] = args as [number];
+    await deleteMcpServerForScope({ context, serverId });
+
+    await writeAuditEvent({
+      context,
+      action: "mcp_server_delete",
+      resourceType: "mcp_server",
+      resourceId: serverId,
+    });
+    return;
+  },
+
+  async "set-mcp-server-enabled"(args, meta) {
+    const context = requireScopedContext(meta);
+    requireWorkspaceMcpManager(context);
+    const [serverId, enabled] = args as [number, boolean];
+    const server = await setMcpServerEnabledForScope({
+      context,
+      serverId,
+      enabled,
+    });
+
+    await writeAuditEvent({
+      context,
+      action: enabled ? "mcp_server_enable" : "mcp_server_disable",
+      resourceType: "mcp_server",
+      resourceId: server.id,
+    });
+    return server;
+  },
+
+  async "resolve-mcp-tool-consent"(args, meta) {
+    const context = requireScopedContext(meta);
+    requireRoleForMutation(context);
+    const [payload] = args as [
+      { chatId: number; requestId: string; decision: ConsentDecision },
+    ];
+    await getChatForScope(context, payload.chatId);
+    if (
+      !resolveConsent(payload.requestId, payload.decision, {
+        chatId: payload.chatId,
+      })
+    ) {
+      throw new HttpError(
+        404,
+        "MCP_CONSENT_REQUEST_NOT_FOUND",
+        "MCP tool consent request is not pending",
+      );
+    }
+
+    await writeAuditEvent({
+      context,
+      action: "mcp_tool_consent_resolve",
+      resourceType: "chat",
+      resourceId: payload.chatId,
+      metadata: { requestId: payload.requestId, decision: payload.decision },
+    });
+    return;
+  },
+
+  async "resolve-agent-tool-consent"(args, meta) {
+    const context = requireScopedContext(meta);
+    requireRoleForMutation(context);
+    const [payload] = args as [
+      {
+        chatId: number;
+        requestId: string;
+        decision: AgentToolConsentDecision;
+      },
+    ];
+    await getChatForScope(context, payload.chatId);
+    if (
+      !resolveAgentToolConsent(payload.requestId, payload.decision, {
+        chatId: payload.chatId,
+      })
+    ) {
+      throw new HttpError(
+        404,
+        "AGENT_CONSENT_REQUEST_NOT_FOUND",
+        "Agent tool consent request is not pending",
+      );
+    }
+
+    await writeAuditEvent({
+      context,
+      action: "agent_tool_consent_resolve",
+      resourceType: "chat",
+      resourceId: payload.chatId,
+      metadata: { requestId: payload.requestId, decision: payload.decision },
+    });
+    return;
+  },
+
+  async "list-agent-tool-consents"(_args, meta) {
+    const context = requireScopedContext(meta);
+    return listAgentToolConsentsForScope(context);
+  },
+
+  async "set-workspace-agent-tool-consent"(args, meta) {
+    const context = requireScopedContext(meta);
+    requireWorkspaceAgentToolPolicyManager(context);
+    const [payload] = args as [
+      { toolName: string; consent: AgentToolConsent | null; locked?: boolean },
+    ];
+    const summary = await setWorkspaceAgentToolConsentForScope({
+      context,
+      toolName: payload.toolName,
+      consent: payload.consent,
+      locked: payload.locked,
+    });
+
+    await writeAuditEvent({
+      context,
+      action: "agent_tool_consent_update",
+      resourceType: "workspace",
+      resourceId: context.workspaceId,
+      metadata: {
+        scope: "workspace",
+        toolName: payload.toolName,
+        consent: payload.consent,
+        locked: summary.locked,
+      },
+    });
+    return summary;
+  },
+
+  async "set-user-agent-tool-consent"(args, meta) {
+    const context = requireScopedContext(meta);
+    requireRoleForMutation(context);
+    const [payload] = args as [
+      { toolName: string; consent: AgentToolConsent | null },
+    ];
+    const summary = await setUserAgentToolConsentForScope({
+      context,
+      toolName: payload.toolName,
+      consent: payload.consent,
+    });
+
+    await writeAuditEvent({
+      context,
+      action: "agent_tool_consent_update",
+      resourceType: "workspace",
+      resourceId: context.workspaceId,
+      metadata: {
+        scope: "user",
+        toolName: payload.toolName,
+        consent: payload.consent,
+      },
+    });
+    return summary;
+  },
+
+  async "list-mcp-server-tools"(args, meta) {
+    const context = requireScopedContext(meta);
+    const [serverId] = args as [number];
+    return listMcpServerToolsForScope({ context, serverId });
+  },
+
+  async "get-app-version"() {
+    const packageJsonPath = path.resolve(process.cwd(), "package.json");
+    const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, "utf-8"));
+    return { version: packageJson.version };
+  },
+
+  async "list-apps"(_args, meta) {
+    const scopedContext = getRequestContext(meta);
+    if (scopedContext) {
+      return {
+        apps: await listAppsForScope(scopedContext),
+      };
+    }
+    if (isMultitenantEnforced()) {
+      throw new HttpError(
+        400,
+        "TENANT_SCOPE_REQUIRED",
+        "list-apps requires tenant scope in enforce mode",
+      );
+    }
+
+    const rows = await db.select().from(apps).orderBy(desc(apps.createdAt));
+    return {
+      apps: rows.map(mapAppRow),
+    };
+  },
+
+  async "read-app-file"(args, meta) {
+    const [params] = args as [
+      { appId?: number; filePath?: string } | undefined,
+    ];
+    const appId = params?.appId;
+    const filePath = params?.filePath;
+    if (typeof appId !== "number") {
+      throw new Error("Invalid app ID");
+    }
+    if (typeof filePath !== "string" || filePath.trim().length === 0) {
+      throw new Error("Invalid file path");
+    }
+
+    const scopedContext = getRequestContext(meta);
     let appPath: string;
     if (scopedContext) {
       const app = await getAppByIdForScope(scopedContext, appId);
@@ -1728,7 +2789,7 @@ const handlers: Record<string, InvokeHandler> = {
     }
 
     const appPath = `${sanitizePathName(appName)}-${Date.now()}`;
-    const { initialCommitHash } = await ensureWorkspaceForApp(appPath);
+    const { initialCommitHash, branch } = await ensureWorkspaceForApp(appPath);
 
     const scopedContext = getRequestContext(meta);
     if (scopedContext) {
@@ -1743,6 +2804,7 @@ const handlers: Record<string, InvokeHandler> = {
         name: appName,
         path: appPath,
         initialCommitHash,
+        branch,
       });
       await writeAuditEvent({
         context: scopedContext,
@@ -1783,19 +2845,151 @@ const handlers: Record<string, InvokeHandler> = {
           appId: createdApp.id,
           title: null,
           initialCommitHash,
+          branch,
         })
         .returning({ id: chats.id });
 
-      return {
-        appRow: createdApp,
-        chatId: Number(createdChat.id),
-      };
+      return {
+        appRow: createdApp,
+        chatId: Number(createdChat.id),
+      };
+    });
+
+    return {
+      app: mapAppRow(appRow),
+      chatId,
+    };
+  },
+
+  async "import-app"(args, meta) {
+    const context = requireScopedContext(meta);
+    requireRoleForMutation(context);
+    const [params] = args as [
+      {
+        name: string;
+        source: AppImportSource;
+        installCommand?: string;
+        startCommand?: string;
+      },
+    ];
+    await enforceAndRecordUsage({
+      context,
+      metricType: "requests",
+      value: 1,
+    });
+
+    const appPath = `${sanitizePathName(params.name)}-${Date.now()}`;
+    const resolvedPath = getBlazeAppPath(appPath);
+    const { initialCommitHash, branch } = await importAppSource({
+      context,
+      appPath: resolvedPath,
+      source: params.source,
+    });
+    const commands =
+      params.installCommand && params.startCommand
+        ? {
+            installCommand: params.installCommand,
+            startCommand: params.startCommand,
+          }
+        : detectAppCommands(resolvedPath);
+
+    const result = await createAppRecordForScope({
+      context,
+      name: params.name,
+      path: appPath,
+      initialCommitHash,
+      branch,
+      installCommand: commands?.installCommand,
+      startCommand: commands?.startCommand,
+      recordInitialVersion: true,
+    });
+    await writeAuditEvent({
+      context,
+      action: "app_import",
+      resourceType: "app",
+      resourceId: result.app.id,
+      metadata: { sourceType: params.source.type },
+    });
+    return {
+      app: {
+        ...result.app,
+        resolvedPath,
+      },
+      chatId: result.chatId,
+    };
+  },
+
+  async "export-app"(args, meta) {
+    const context = requireScopedContext(meta);
+    // The API middleware has validated the query; zip is its default format.
+    const {
+      appId,
+      format = "zip",
+      version,
+      includeGit,
+      includeChats,
+    } = parseAppIdPayload<{
+      format: "zip" | "tar.gz";
+      version: string;
+      includeGit: boolean;
+      includeChats: boolean;
+    }>(args);
+    await enforceAndRecordUsage({
+      context,
+      metricType: "requests",
+      value: 1,
+    });
+
+    const app = await getAppByIdForScope(context, appId);
+    const appPath = getBlazeAppPath(app.path);
+    const commitHash =
+      version === undefined
+        ? undefined
+        : await getCurrentCommitHash({ path: appPath, ref: version }).catch(
+            () => {
+              throw new HttpError(
+                404,
+                "VERSION_NOT_FOUND",
+                `Version ${version} does not exist`,
+              );
+            },
+          );
+    const chats = includeChats
+      ? await Promise.all(
+          (await listChatsForScope(context, appId)).map((chat) =>
+            getChatForScope(context, chat.id),
+          ),
+        )
+      : undefined;
+
+    const body = await createAppExportArchive({
+      appPath,
+      format,
+      commitHash,
+      includeGit: Boolean(includeGit),
+      chats,
+      maxBytes: getAppExportMaxBytes(),
+    });
+    // Source code leaves the system, like audit exports.
+    await writeAuditEvent({
+      context,
+      action: "app_export",
+      resourceType: "app",
+      resourceId: appId,
+      metadata: {
+        format,
+        version: commitHash ?? null,
+        includeGit: Boolean(includeGit),
+        includeChats: Boolean(includeChats),
+      },
     });
 
-    return {
-      app: mapAppRow(appRow),
-      chatId,
-    };
+    const suffix = commitHash ? `-${commitHash.slice(0, 7)}` : "";
+    return new HttpFileResponse({
+      contentType: format === "zip" ? "application/zip" : "application/gzip",
+      fileName: `${sanitizePathName(app.name)}${suffix}.${format}`,
+      body,
+    });
   },
 
   async "add-to-favorite"(args, meta) {
@@ -1885,7 +3079,12 @@ const handlers: Record<string, InvokeHandler> = {
         metricType: "requests",
         value: 1,
       });
-      const chatId = await createChatForScope(scopedContext, appId);
+      const app = await getAppByIdForScope(scopedContext, appId);
+      const chatId = await createChatForScope(
+        scopedContext,
+        appId,
+        await getAppBranchForNewChat(getBlazeAppPath(app.path)),
+      );
       await writeAuditEvent({
         context: scopedContext,
         action: "chat_create",
@@ -1904,7 +3103,7 @@ const handlers: Record<string, InvokeHandler> = {
     }
 
     const appExists = await db
-      .select({ id: apps.id })
+      .select({ id: apps.id, path: apps.path })
       .from(apps)
       .where(eq(apps.id, appId))
       .limit(1);
@@ -1919,6 +3118,9 @@ const handlers: Record<string, InvokeHandler> = {
         appId,
         title: null,
         initialCommitHash: null,
+        branch: await getAppBranchForNewChat(
+          getBlazeAppPath(appExists[0].path),
+        ),
       })
       .returning({ id: chats.id });
 
@@ -1951,6 +3153,7 @@ const handlers: Record<string, InvokeHandler> = {
         appId: true,
         title: true,
         initialCommitHash: true,
+        branch: true,
         createdAt: true,
       },
     });
@@ -1970,6 +3173,7 @@ const handlers: Record<string, InvokeHandler> = {
       appId: Number(chatRow.appId),
       title: chatRow.title ?? null,
       initialCommitHash: chatRow.initialCommitHash ?? null,
+      branch: chatRow.branch ?? null,
       createdAt: toIsoDate(chatRow.createdAt),
       messages: messageRows.map(mapMessageRow),
     };
@@ -2025,6 +3229,61 @@ const handlers: Record<string, InvokeHandler> = {
     }));
   },
 
+  async "get-version-diff"(args, meta) {
+    const context = requireScopedContext(meta);
+    const { appId, from, to, filePath } = parseAppIdPayload<{
+      from: string;
+      to: string;
+      filePath: string;
+    }>(args);
+    if (typeof from !== "string" || typeof to !== "string") {
+      throw new Error("Invalid version ID");
+    }
+
+    const app = await getAppByIdForScope(context, appId);
+    const appPath = getBlazeAppPath(app.path);
+    if (filePath !== undefined) {
+      assertRelativeAppFilePath(appPath, filePath);
+    }
+    const [fromOid, toOid] = await Promise.all(
+      [from, to].map((versionId) =>
+        getCurrentCommitHash({ path: appPath, ref: versionId }).catch(() => {
+          throw new HttpError(
+            404,
+            "VERSION_NOT_FOUND",
+            `Version ${versionId} does not exist`,
+          );
+        }),
+      ),
+    );
+    return buildVersionDiff({ appPath, from: fromOid, to: toOid, filePath });
+  },
+
+  async "get-app-file-history"(args, meta) {
+    const context = requireScopedContext(meta);
+    const { appId, filePath, limit } = parseAppIdPayload<{
+      filePath: string;
+      limit: number;
+    }>(args);
+    if (typeof filePath !== "string") {
+      throw new Error("Invalid file path");
+    }
+
+    const app = await getAppByIdForScope(context, appId);
+    const appPath = getBlazeAppPath(app.path);
+    assertRelativeAppFilePath(appPath, filePath);
+    const commits = await gitLog({
+      path: appPath,
+      depth: limit ?? FILE_HISTORY_DEFAULT_LIMIT,
+      filepath: filePath,
+    });
+    return commits.map((commit) => ({
+      oid: commit.oid,
+      message: commit.commit.message,
+      timestamp: commit.commit.author.timestamp,
+    }));
+  },
+
   async "checkout-version"(args, meta) {
     const [payload] = args as [
       | {
@@ -2137,7 +3396,15 @@ const handlers: Record<string, InvokeHandler> = {
         appPath = getBlazeAppPath(app.path);
       }
 
-      await git.checkout({ fs, dir: appPath, ref: "main" });
+      await git.checkout({
+        fs,
+        dir: appPath,
+        ref: await resolveRevertBranch({
+          appId,
+          appPath,
+          chatId: currentChatMessageId?.chatId,
+        }),
+      });
       await stageWorkspaceToTargetCommit(appPath, previousVersionId);
 
       const hasNoChangesToCommit = await isGitWorkingTreeClean(appPath);
@@ -2219,6 +3486,295 @@ const handlers: Record<string, InvokeHandler> = {
     });
   },
 
+  async "get-app-git-remote"(args, meta) {
+    const context = requireScopedContext(meta);
+    const { appId, fetch } = parseAppIdPayload<{ fetch: boolean }>(args);
+    const app = await getAppByIdForScope(context, appId);
+    return getAppGitRemoteStatus({
+      context,
+      appPath: getBlazeAppPath(app.path),
+      fetch,
+    });
+  },
+
+  async "connect-app-git-remote"(args, meta) {
+    const context = requireScopedContext(meta);
+    requireRoleForMutation(context);
+    const { appId, remoteUrl, accessToken } =
+      parseAppIdPayload<GitRemoteInput>(args);
+    if (typeof remoteUrl !== "string") {
+      throw new Error("Invalid remote URL");
+    }
+    if (accessToken !== undefined) {
+      requireWorkspaceGitCredentialsManager(context);
+    }
+
+    return withLock(appId, async () => {
+      const app = await getAppByIdForScope(context, appId);
+      const status = await connectAppGitRemote({
+        context,
+        appPath: getBlazeAppPath(app.path),
+        remote: { remoteUrl, accessToken },
+      });
+
+      await writeAuditEvent({
+        context,
+        action: "app_git_remote_connect",
+        resourceType: "app",
+        resourceId: appId,
+        // Record whether the token changed, never the token itself.
+        metadata: {
+          remoteUrl: status.remoteUrl,
+          accessToken:
+            accessToken === undefined
+              ? "kept"
+              : accessToken === null
+                ? "removed"
+                : "updated",
+        },
+      });
+      return status;
+    });
+  },
+
+  async "push-app-git-remote"(args, meta) {
+    const context = requireScopedContext(meta);
+    requireRoleForMutation(context);
+    const { appId, branch, force } = parseAppIdPayload<{
+      branch: string;
+      force: boolean;
+    }>(args);
+
+    return withLock(appId, async () => {
+      const app = await getAppByIdForScope(context, appId);
+      try {
+        const result = await pushAppToGitRemote({
+          context,
+          appPath: getBlazeAppPath(app.path),
+          branch,
+          force,
+        });
+        await writeAuditEvent({
+          context,
+          action: "app_git_push",
+          resourceType: "app",
+          resourceId: appId,
+          metadata: {
+            status: "succeeded",
+            remoteUrl: result.remoteUrl,
+            branch: result.branch,
+            force: Boolean(force),
+            pushedCommits: result.pushedCommits,
+          },
+        });
+        return result;
+      } catch (error) {
+        await writeAuditEvent({
+          context,
+          action: "app_git_push",
+          resourceType: "app",
+          resourceId: appId,
+          metadata: {
+            status: "failed",
+            branch: branch ?? null,
+            force: Boolean(force),
+            errorCode: isHttpError(error) ? error.code : null,
+          },
+        });
+        throw error;
+      }
+    });
+  },
+
+  async "pull-app-git-remote"(args, meta) {
+    const context = requireScopedContext(meta);
+    requireRoleForMutation(context);
+    const { appId, branch } = parseAppIdPayload<{ branch: string }>(args);
+
+    return withLock(appId, async () => {
+      const app = await getAppByIdForScope(context, appId);
+      return pullAppFromGitRemote({
+        context,
+        appPath: getBlazeAppPath(app.path),
+        branch,
+      });
+    });
+  },
+
+  async "list-app-git-branches"(args, meta) {
+    const context = requireScopedContext(meta);
+    const { appId } = parseAppIdPayload(args);
+    const app = await getAppByIdForScope(context, appId);
+    return listAppGitBranches({
+      context,
+      appId,
+      appPath: getBlazeAppPath(app.path),
+    });
+  },
+
+  async "create-app-git-branch"(args, meta) {
+    const context = requireScopedContext(meta);
+    requireRoleForMutation(context);
+    const { appId, name, from, checkout } = parseAppIdPayload<{
+      name: string;
+      from: string;
+      checkout: boolean;
+    }>(args);
+    if (typeof name !== "string") {
+      throw new Error("Invalid branch name");
+    }
+
+    return withLock(appId, async () => {
+      const app = await getAppByIdForScope(context, appId);
+      const result = await createAppGitBranch({
+        context,
+        appId,
+        appPath: getBlazeAppPath(app.path),
+        name,
+        from,
+        checkout,
+      });
+      await writeAuditEvent({
+        context,
+        action: "app_git_branch_create",
+        resourceType: "app",
+        resourceId: appId,
+        metadata: { branch: name, from: from ?? null },
+      });
+      return result;
+    });
+  },
+
+  async "checkout-app-git-branch"(args, meta) {
+    const context = requireScopedContext(meta);
+    requireRoleForMutation(context);
+    const { appId, branch } = parseAppIdPayload<{ branch: string }>(args);
+    if (typeof branch !== "string") {
+      throw new Error("Invalid branch name");
+    }
+
+    return withLock(appId, async () => {
+      const app = await getAppByIdForScope(context, appId);
+      return switchAppGitBranch({
+        context,
+        appId,
+        appPath: getBlazeAppPath(app.path),
+        branch,
+      });
+    });
+  },
+
+  async "rename-app-git-branch"(args, meta) {
+    const context = requireScopedContext(meta);
+    requireRoleForMutation(context);
+    const { appId, branch, name } = parseAppIdPayload<{
+      branch: string;
+      name: string;
+    }>(args);
+    if (typeof branch !== "string" || typeof name !== "string") {
+      throw new Error("Invalid branch name");
+    }
+
+    return withLock(appId, async () => {
+      const app = await getAppByIdForScope(context, appId);
+      const result = await renameAppGitBranch({
+        context,
+        appId,
+        appPath: getBlazeAppPath(app.path),
+        branch,
+        name,
+      });
+      await writeAuditEvent({
+        context,
+        action: "app_git_branch_rename",
+        resourceType: "app",
+        resourceId: appId,
+        metadata: { branch, name },
+      });
+      return result;
+    });
+  },
+
+  async "delete-app-git-branch"(args, meta) {
+    const context = requireScopedContext(meta);
+    requireRoleForMutation(context);
+    const { appId, branch } = parseAppIdPayload<{ branch: string }>(args);
+    if (typeof branch !== "string") {
+      throw new Error("Invalid branch name");
+    }
+
+    return withLock(appId, async () => {
+      const app = await getAppByIdForScope(context, appId);
+      const result = await deleteAppGitBranch({
+        context,
+        appId,
+        appPath: getBlazeAppPath(app.path),
+        branch,
+      });
+      await writeAuditEvent({
+        context,
+        action: "app_git_branch_delete",
+        resourceType: "app",
+        resourceId: appId,
+        metadata: { branch },
+      });
+      return result;
+    });
+  },
+
+  async "merge-app-git-branch"(args, meta) {
+    const context = requireScopedContext(meta);
+    requireRoleForMutation(context);
+    const { appId, branch } = parseAppIdPayload<{ branch: string }>(args);
+    if (typeof branch !== "string") {
+      throw new Error("Invalid branch name");
+    }
+
+    return withLock(appId, async () => {
+      const app = await getAppByIdForScope(context, appId);
+      const result = await mergeAppGitBranch({
+        appPath: getBlazeAppPath(app.path),
+        branch,
+      });
+      await writeAuditEvent({
+        context,
+        action: "app_git_merge",
+        resourceType: "app",
+        resourceId: appId,
+        metadata: {
+          status: result.status,
+          branch: result.branch,
+          into: result.into,
+          conflictingFiles:
+            result.status === "conflicts" ? result.conflicts.length : 0,
+        },
+      });
+      return result;
+    });
+  },
+
+  async "get-app-git-merge"(args, meta) {
+    const context = requireScopedContext(meta);
+    const { appId } = parseAppIdPayload(args);
+    const app = await getAppByIdForScope(context, appId);
+    return getAppGitMergeConflicts({ appPath: getBlazeAppPath(app.path) });
+  },
+
+  async "abort-app-git-merge"(args, meta) {
+    const context = requireScopedContext(meta);
+    requireRoleForMutation(context);
+    const { appId } = parseAppIdPayload(args);
+
+    return withLock(appId, async () => {
+      const app = await getAppByIdForScope(context, appId);
+      return abortAppGitMerge({
+        context,
+        appId,
+        appPath: getBlazeAppPath(app.path),
+      });
+    });
+  },
+
   async "get-proposal"(args, meta) {
     const [payload] = args as [{ chatId?: number } | undefined];
     const chatId = payload?.chatId;
@@ -2235,12 +3791,17 @@ const handlers: Record<string, InvokeHandler> = {
             approvalState: "approved" | "rejected" | null;
           }
         | undefined;
+      let loadAppPath: () => Promise<string | null>;
 
       if (scopedContext) {
         const chat = await getChatForScope(scopedContext, chatId);
         latestAssistantMessage = [...chat.messages]
           .reverse()
           .find((message) => message.role === "assistant");
+        loadAppPath = async () =>
+          getBlazeAppPath(
+            (await getAppByIdForScope(scopedContext, chat.appId)).path,
+          );
       } else {
         if (isMultitenantEnforced()) {
           throw new HttpError(
@@ -2262,6 +3823,13 @@ const handlers: Record<string, InvokeHandler> = {
             approvalState: true,
           },
         });
+        loadAppPath = async () => {
+          const chat = await db.query.chats.findFirst({
+            where: eq(chats.id, chatId),
+            with: { app: { columns: { path: true } } },
+          });
+          return chat?.app ? getBlazeAppPath(chat.app.path) : null;
+        };
       }
 
       if (
@@ -2278,8 +3846,17 @@ const handlers: Record<string, InvokeHandler> = {
         return null;
       }
 
+      const appPath = await loadAppPath();
       return {
-        proposal,
+        proposal: {
+          ...proposal,
+          fileDiffs: appPath
+            ? await buildProposalFileDiffs({
+                appPath,
+                messageContent: latestAssistantMessage.content,
+              })
+            : undefined,
+        },
         chatId,
         messageId: latestAssistantMessage.id,
       };
@@ -2287,9 +3864,20 @@ const handlers: Record<string, InvokeHandler> = {
   },
 
   async "approve-proposal"(args, meta) {
-    const [payload] = args as [{ chatId?: number; messageId?: number }];
+    const [payload] = args as [
+      {
+        chatId?: number;
+        messageId?: number;
+        actionIds?: string[];
+        paths?: string[];
+      },
+    ];
     const chatId = payload?.chatId;
     const messageId = payload?.messageId;
+    const selection =
+      payload?.actionIds || payload?.paths
+        ? { actionIds: payload.actionIds, paths: payload.paths }
+        : undefined;
 
     if (typeof chatId !== "number") {
       throw new Error("Invalid chat ID");
@@ -2298,7 +3886,7 @@ const handlers: Record<string, InvokeHandler> = {
       throw new Error("Invalid message ID");
     }
 
-    const settings = readUserSettings();
+    const settings = await readUserSettingsForScope(getRequestContext(meta));
     if (settings.selectedChatMode === "ask") {
       throw new Error(
         "Ask mode is not supported for proposal approval. Please switch to build mode.",
@@ -2341,9 +3929,13 @@ const handlers: Record<string, InvokeHandler> = {
         );
       }
 
+      const { response, review } = selectProposalActions(
+        messageToApprove.content,
+        selection,
+      );
       const chatSummary = getBlazeChatSummaryTag(messageToApprove.content);
       const selfHealingResult = await applyManualChangesWithSelfHealing({
-        rawResponse: messageToApprove.content,
+        rawResponse: response,
         applyResponse: async (responsePayload) =>
           processFullResponseActions(responsePayload, chatId, {
             chatSummary: chatSummary ?? undefined,
@@ -2365,18 +3957,26 @@ const handlers: Record<string, InvokeHandler> = {
         );
       }
 
+      await db
+        .update(messages)
+        .set({ proposalReview: review })
+        .where(eq(messages.id, messageId));
+
       const selfHealErrors = selfHealingResult.attempts
         .map((attempt) => attempt.error)
         .filter((value): value is string => Boolean(value));
 
       return {
         updatedFiles: processResult.updatedFiles,
+        acceptedActionIds: review.accepted.map((action) => action.actionId),
+        rejectedActionIds: review.rejected.map((action) => action.actionId),
         extraFiles: processResult.extraFiles,
         extraFilesError: processResult.extraFilesError,
         selfHealAttempted: selfHealingResult.attempts.length > 1,
         selfHealRecovered: selfHealingResult.recoveredBySelfHealing,
         selfHealAttempts: selfHealingResult.attempts.length,
         selfHealErrors: selfHealErrors.length > 0 ? selfHealErrors : undefined,
+        actionReports: processResult.actionReports,
       };
     });
   },
@@ -2511,9 +4111,10 @@ const handlers: Record<string, InvokeHandler> = {
   async "get-env-vars"(_args, meta) {
     const providers = await listLanguageModelProviders(getRequestContext(meta));
     const envVars: Record<string, string | undefined> = {};
+    // Only built-in cloud providers map to server env keys.
     for (const provider of providers) {
       const envVarName =
-        "envVarName" in provider ? provider.envVarName : undefined;
+        provider.type === "cloud" ? provider.envVarName : undefined;
       if (envVarName) {
         envVars[envVarName] = getEnvVar(envVarName);
       }
@@ -2529,14 +4130,6 @@ const handlers: Record<string, InvokeHandler> = {
     }
 
     const scopedContext = getRequestContext(meta);
-    if (scopedContext) {
-      await enforceAndRecordUsage({
-        context: scopedContext,
-        metricType: "concurrent_preview_jobs",
-        value: 1,
-      });
-    }
-
     return withLock(appId, async () => {
       const originalPreviewUrl = getOriginalPreviewUrl(appId);
       if (runningApps.has(appId)) {
@@ -2554,16 +4147,36 @@ const handlers: Record<string, InvokeHandler> = {
         await stopPreviewProxyForApp(appId);
       }
 
-      await cleanUpPort(getAppPort(appId));
-      const startedPreview = await startPreviewAppForHttp(appId, scopedContext);
-      if (scopedContext) {
-        await writeAuditEvent({
-          context: scopedContext,
-          action: "preview_run",
-          resourceType: "app",
-          resourceId: appId,
-        });
+      const startPreview = async () => {
+        await cleanUpPort(getAppPort(appId));
+        return startPreviewAppForHttp(appId, scopedContext);
+      };
+      if (!scopedContext) {
+        return startPreview();
       }
+      // Counting and starting under one organization lock keeps parallel
+      // starts of different apps from passing the limit together.
+      const startedPreview = await withLock(
+        `preview-jobs:${scopedContext.orgId}`,
+        async () => {
+          await enforceAndRecordUsage({
+            context: scopedContext,
+            metricType: "concurrent_preview_jobs",
+            value: 1,
+            runningPreviewJobs: await countRunningPreviewJobs(
+              scopedContext.orgId,
+              { excludeAppId: appId },
+            ),
+          });
+          return startPreview();
+        },
+      );
+      await writeAuditEvent({
+        context: scopedContext,
+        action: "preview_run",
+        resourceType: "app",
+        resourceId: appId,
+      });
       return startedPreview;
     });
   },
@@ -2594,6 +4207,58 @@ const handlers: Record<string, InvokeHandler> = {
     });
   },
 
+  async "capture-preview-screenshot"(args, meta) {
+    const [params] = args as [
+      {
+        appId?: number;
+        route?: string;
+        viewport?: PreviewViewport;
+        fullPage?: boolean;
+      },
+    ];
+    const appId = params?.appId;
+    if (typeof appId !== "number") {
+      throw new Error("Invalid app ID");
+    }
+    if (!params.viewport) {
+      throw new Error("Invalid viewport");
+    }
+
+    const scopedContext = getRequestContext(meta);
+    if (scopedContext) {
+      await getAppByIdForScope(scopedContext, appId);
+    } else if (isMultitenantEnforced()) {
+      throw new HttpError(
+        400,
+        "TENANT_SCOPE_REQUIRED",
+        "capture-preview-screenshot requires tenant scope in enforce mode",
+      );
+    }
+
+    const previewUrl = getPreviewProxyUrl(appId);
+    if (!previewUrl || !runningApps.has(appId)) {
+      throw new HttpError(
+        409,
+        "PREVIEW_NOT_RUNNING",
+        `Preview of app ${appId} is not running`,
+      );
+    }
+
+    const image = await capturePreviewScreenshot({
+      appId,
+      previewUrl,
+      route: params.route,
+      viewport: params.viewport,
+      fullPage: params.fullPage,
+    });
+    return new HttpFileResponse({
+      contentType: "image/png",
+      fileName: `app-${appId}-preview-${params.viewport.width}x${params.viewport.height}.png`,
+      body: image,
+      disposition: "inline",
+    });
+  },
+
   async "restart-app"(args, meta) {
     const [params] = args as [{ appId?: number; removeNodeModules?: boolean }];
     const appId = params?.appId;
@@ -2658,6 +4323,8 @@ const NON_DATABASE_CHANNELS = new Set([
   "set-user-settings",
   "get-oauth2-config",
   "exchange-oauth2-code",
+  "refresh-auth-session",
+  "logout-auth-session",
   "get-app-version",
 ]);
 
@@ -1,6 +1,28 @@
-import { createHmac } from "node:crypto";
-import { afterEach, describe, expect, it } from "vitest";
-import { validateAndDecodeJwt } from "./jwt_utils";
+// @vitest-environment node
+import {
+  createHmac,
+  generateKeyPairSync,
+  sign,
+  type KeyObject,
+} from "node:crypto";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+import { clearJwksCacheForTests, validateAndDecodeJwt } from "./jwt_utils";
+
+// getEnvVar caches its first snapshot, so read the live env in every test.
+vi.mock("/src/ipc/utils/read_env.ts", () => ({
+  getEnvVar: (key: string) => process.env[key],
+}));
 
 function toBase64Url(input: string): string {
   return Buffer.from(input, "utf8")
@@ -23,6 +45,49 @@ function signHs256(header: object, payload: object, secret: string): string {
   return `${signingInput}.${signature}`;
 }
 
+function signAsymmetric(
+  header: { alg: "RS256" | "ES256" | "EdDSA"; kid?: string },
+  payload: object,
+  privateKey: KeyObject,
+): string {
+  const encodedHeader = toBase64Url(JSON.stringify({ ...header, typ: "JWT" }));
+  const encodedPayload = toBase64Url(JSON.stringify(payload));
+  const signingInput = `${encodedHeader}.${encodedPayload}`;
+  const data = Buffer.from(signingInput);
+  const signature =
+    header.alg === "EdDSA"
+      ? sign(null, data, privateKey)
+      : sign(
+          "sha256",
+          data,
+          header.alg === "ES256"
+            ? { key: privateKey, dsaEncoding: "ieee-p1363" }
+            : privateKey,
+        );
+  return `${signingInput}.${signature
+    .toString("base64")
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/g, "")}`;
+}
+
+function createSigningKey(
+  kid: string,
+  alg: "RS256" | "ES256" | "EdDSA",
+): { kid: string; privateKey: KeyObject; jwk: Record<string, unknown> } {
+  const { privateKey, publicKey } =
+    alg === "RS256"
+      ? generateKeyPairSync("rsa", { modulusLength: 2048 })
+      : alg === "ES256"
+        ? generateKeyPairSync("ec", { namedCurve: "P-256" })
+        : generateKeyPairSync("ed25519");
+  return {
+    kid,
+    privateKey,
+    jwk: { ...publicKey.export({ format: "jwk" }), kid, alg, use: "sig" },
+  };
+}
+
 describe("validateAndDecodeJwt", () => {
   afterEach(() => {
     delete process.env.AUTH_JWT_HS256_SECRET;
@@ -31,7 +96,7 @@ describe("validateAndDecodeJwt", () => {
     delete process.env.AUTH_JWT_AUDIENCE;
   });
 
-  it("validates HS256 signature and returns claims", () => {
+  it("validates HS256 signature and returns claims", async () => {
     process.env.AUTH_JWT_HS256_SECRET = "test-secret";
     const token = signHs256(
       { alg: "HS256", typ: "JWT" },
@@ -43,13 +108,13 @@ describe("validateAndDecodeJwt", () => {
       "test-secret",
     );
 
-    const claims = validateAndDecodeJwt(token);
+    const claims = await validateAndDecodeJwt(token);
 
     expect(claims.sub).toBe("user-1");
     expect(claims.email).toBe("u@example.com");
   });
 
-  it("throws for expired JWT", () => {
+  it("throws for expired JWT", async () => {
     process.env.AUTH_JWT_HS256_SECRET = "test-secret";
     const token = signHs256(
       { alg: "HS256", typ: "JWT" },
@@ -60,10 +125,25 @@ describe("validateAndDecodeJwt", () => {
       "test-secret",
     );
 
-    expect(() => validateAndDecodeJwt(token)).toThrow("JWT is expired");
+    await expect(validateAndDecodeJwt(token)).rejects.toThrow("JWT is expired");
+  });
+
+  it("rejects asymmetric tokens when only an HS256 secret is configured", async () => {
+    process.env.AUTH_JWT_HS256_SECRET = "test-secret";
+    const header = toBase64Url(JSON.stringify({ alg: "RS256", typ: "JWT" }));
+    const payload = toBase64Url(
+      JSON.stringify({
+        sub: "user-1",
+        exp: Math.floor(Date.now() / 1000) + 3600,
+      }),
+    );
+
+    await expect(
+      validateAndDecodeJwt(`${header}.${payload}.sig`),
+    ).rejects.toThrow("JWT algorithm RS256 has no configured verifier");
   });
 
-  it("throws in strict mode when no supported verifier is configured", () => {
+  it("throws in strict mode when no supported verifier is configured", async () => {
     process.env.AUTH_JWT_STRICT_SIGNATURE = "true";
     const header = toBase64Url(JSON.stringify({ alg: "RS256", typ: "JWT" }));
     const payload = toBase64Url(
@@ -74,8 +154,203 @@ describe("validateAndDecodeJwt", () => {
     );
     const token = `${header}.${payload}.sig`;
 
-    expect(() => validateAndDecodeJwt(token)).toThrow(
+    await expect(validateAndDecodeJwt(token)).rejects.toThrow(
       "JWT signature verification is enabled",
     );
   });
 });
+
+describe("validateAndDecodeJwt with JWKS", () => {
+  const rsaKey = createSigningKey("rsa-1", "RS256");
+  const ecKey = createSigningKey("ec-1", "ES256");
+  const edKey = createSigningKey("ed-1", "EdDSA");
+  let server: Server;
+  let baseUrl = "";
+  let publishedKeys: Array<Record<string, unknown>> = [];
+  let jwksRequests = 0;
+
+  const validClaims = () => ({
+    sub: "user-1",
+    email: "u@example.com",
+    exp: Math.floor(Date.now() / 1000) + 3600,
+  });
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      res.setHeader("Content-Type", "application/json");
+      if (req.url === "/.well-known/openid-configuration") {
+        res.end(
+          JSON.stringify({ issuer: baseUrl, jwks_uri: `${baseUrl}/jwks` }),
+        );
+        return;
+      }
+      if (req.url === "/jwks") {
+        jwksRequests += 1;
+        res.end(JSON.stringify({ keys: publishedKeys }));
+        return;
+      }
+      res.statusCode = 404;
+      res.end("{}");
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve),
+    );
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    clearJwksCacheForTests();
+    publishedKeys = [rsaKey.jwk, ecKey.jwk, edKey.jwk];
+    jwksRequests = 0;
+    process.env.AUTH_JWT_JWKS_URL = `${baseUrl}/jwks`;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    delete process.env.AUTH_JWT_JWKS_URL;
+    delete process.env.AUTH_JWT_ISSUER;
+    delete process.env.AUTH_JWT_AUDIENCE;
+    delete process.env.AUTH_OAUTH2_CLIENT_ID;
+    delete process.env.AUTH_OAUTH2_ISSUER;
+    delete process.env.AUTH_OAUTH2_JWKS_URL;
+    delete process.env.AUTH_OAUTH2_AUTHORIZATION_URL;
+  });
+
+  it.each([
+    ["RS256", rsaKey],
+    ["ES256", ecKey],
+    ["EdDSA", edKey],
+  ] as const)("verifies %s signatures by kid", async (alg, key) => {
+    const token = signAsymmetric(
+      { alg, kid: key.kid },
+      validClaims(),
+      key.privateKey,
+    );
+
+    const claims = await validateAndDecodeJwt(token);
+
+    expect(claims.sub).toBe("user-1");
+  });
+
+  it("caches the key set between verifications", async () => {
+    const token = signAsymmetric(
+      { alg: "RS256", kid: rsaKey.kid },
+      validClaims(),
+      rsaKey.privateKey,
+    );
+
+    await validateAndDecodeJwt(token);
+    await validateAndDecodeJwt(token);
+
+    expect(jwksRequests).toBe(1);
+  });
+
+  it("rejects a token signed by a key outside the key set", async () => {
+    const foreignKey = createSigningKey(rsaKey.kid, "RS256");
+    const token = signAsymmetric(
+      { alg: "RS256", kid: rsaKey.kid },
+      validClaims(),
+      foreignKey.privateKey,
+    );
+
+    await expect(validateAndDecodeJwt(token)).rejects.toThrow(
+      "Invalid JWT signature",
+    );
+  });
+
+  it("refetches the key set when an unknown kid appears after rotation", async () => {
+    const oldToken = signAsymmetric(
+      { alg: "RS256", kid: rsaKey.kid },
+      validClaims(),
+      rsaKey.privateKey,
+    );
+    await validateAndDecodeJwt(oldToken);
+
+    const rotatedKey = createSigningKey("rsa-2", "RS256");
+    publishedKeys = [rotatedKey.jwk];
+    const now = Date.now();
+    vi.spyOn(Date, "now").mockReturnValue(now + 31_000);
+    const newToken = signAsymmetric(
+      { alg: "RS256", kid: rotatedKey.kid },
+      validClaims(),
+      rotatedKey.privateKey,
+    );
+
+    await expect(validateAndDecodeJwt(newToken)).resolves.toMatchObject({
+      sub: "user-1",
+    });
+    expect(jwksRequests).toBe(2);
+  });
+
+  it("does not refetch for unknown kids within the cooldown", async () => {
+    const token = signAsymmetric(
+      { alg: "RS256", kid: rsaKey.kid },
+      validClaims(),
+      rsaKey.privateKey,
+    );
+    await validateAndDecodeJwt(token);
+    const unknownKey = createSigningKey("unknown", "RS256");
+    const forged = signAsymmetric(
+      { alg: "RS256", kid: unknownKey.kid },
+      validClaims(),
+      unknownKey.privateKey,
+    );
+
+    await expect(validateAndDecodeJwt(forged)).rejects.toThrow(
+      "No matching JWKS key for JWT",
+    );
+    expect(jwksRequests).toBe(1);
+  });
+
+  it.each(["none", "HS256"])(
+    "rejects unsigned tokens downgraded to alg %s",
+    async (alg) => {
+      const header = toBase64Url(JSON.stringify({ alg, typ: "JWT" }));
+      const payload = toBase64Url(JSON.stringify(validClaims()));
+
+      await expect(
+        validateAndDecodeJwt(`${header}.${payload}.`),
+      ).rejects.toThrow(`JWT algorithm ${alg} has no configured verifier`);
+    },
+  );
+
+  it("discovers the JWKS endpoint from the issuer", async () => {
+    delete process.env.AUTH_JWT_JWKS_URL;
+    process.env.AUTH_JWT_ISSUER = baseUrl;
+    const token = signAsymmetric(
+      { alg: "ES256", kid: ecKey.kid },
+      { ...validClaims(), iss: baseUrl },
+      ecKey.privateKey,
+    );
+
+    await expect(validateAndDecodeJwt(token)).resolves.toMatchObject({
+      iss: baseUrl,
+    });
+    expect(jwksRequests).toBe(1);
+  });
+
+  it("applies issuer and audience from the OAuth2 config", async () => {
+    delete process.env.AUTH_JWT_JWKS_URL;
+    process.env.AUTH_OAUTH2_CLIENT_ID = "blaze-client";
+    process.env.AUTH_OAUTH2_AUTHORIZATION_URL = `${baseUrl}/authorize`;
+    process.env.AUTH_OAUTH2_ISSUER = baseUrl;
+    process.env.AUTH_OAUTH2_JWKS_URL = `${baseUrl}/jwks`;
+    const sign = (aud: string) =>
+      signAsymmetric(
+        { alg: "RS256", kid: rsaKey.kid },
+        { ...validClaims(), iss: baseUrl, aud },
+        rsaKey.privateKey,
+      );
+
+    await expect(
+      validateAndDecodeJwt(sign("blaze-client")),
+    ).resolves.toMatchObject({ aud: "blaze-client" });
+    await expect(validateAndDecodeJwt(sign("other-client"))).rejects.toThrow(
+      "Invalid JWT audience",
+    );
+  });
+});
@@ -1,4 +1,12 @@
-import { createHmac, timingSafeEqual } from "node:crypto";
+import {
+  createHmac,
+  createPublicKey,
+  timingSafeEqual,
+  verify as verifySignature,
+  type JsonWebKey,
+  type KeyObject,
+} from "node:crypto";
+import { resolveOAuth2Config } from "/src/http/oauth2_config.ts";
 import { getEnvVar } from "/src/ipc/utils/read_env.ts";
 
 export interface JwtClaims {
@@ -6,6 +14,7 @@ export interface JwtClaims {
   email?: string;
   name?: string;
   exp?: number;
+  nbf?: number;
   iss?: string;
   aud?: string | string[];
   [key: string]: unknown;
@@ -14,18 +23,93 @@ export interface JwtClaims {
 interface JwtHeader {
   alg?: string;
   typ?: string;
+  kid?: string;
 }
 
+type AsymmetricAlgorithm = "RS256" | "ES256" | "EdDSA";
+
+interface JwtVerificationConfig {
+  hsSecret: string | null;
+  jwksUrl: string | null;
+  issuer: string | null;
+  audience: string | null;
+  strictSignature: boolean;
+}
+
+interface JwksKey {
+  kid: string | null;
+  kty: string | null;
+  crv: string | null;
+  alg: string | null;
+  key: KeyObject;
+}
+
+interface JwksCacheEntry {
+  keys: JwksKey[];
+  fetchedAt: number;
+}
+
+const ASYMMETRIC_ALGORITHMS: AsymmetricAlgorithm[] = [
+  "RS256",
+  "ES256",
+  "EdDSA",
+];
+const DEFAULT_JWKS_CACHE_TTL_SECONDS = 600;
+// Unknown `kid`s trigger a refetch, but not more often than this, so forged
+// tokens cannot turn the API into a JWKS request amplifier.
+const JWKS_REFRESH_COOLDOWN_MS = 30_000;
+const JWKS_FETCH_TIMEOUT_MS = 5_000;
+
+const jwksCache = new Map<string, JwksCacheEntry>();
+const jwksFetchPromises = new Map<string, Promise<JwksCacheEntry>>();
+const discoveredJwksUrls = new Map<string, string>();
+
 function readConfig(name: string): string | undefined {
   return process.env[name] ?? getEnvVar(name);
 }
 
-function decodeBase64Url(input: string): string {
+function readTrimmedConfig(name: string): string | null {
+  return readConfig(name)?.trim() || null;
+}
+
+function resolveVerificationConfig(): JwtVerificationConfig {
+  // API auth accepts the ID tokens issued by the configured OAuth2 login, so
+  // its issuer, keys and client ID are the defaults for JWT verification.
+  const oauth2 = resolveOAuth2Config();
+  return {
+    hsSecret: readConfig("AUTH_JWT_HS256_SECRET") || null,
+    jwksUrl:
+      readTrimmedConfig("AUTH_JWT_JWKS_URL") ??
+      (oauth2.enabled ? oauth2.jwksUrl : null),
+    issuer:
+      readTrimmedConfig("AUTH_JWT_ISSUER") ??
+      (oauth2.enabled ? oauth2.issuer : null),
+    audience:
+      readTrimmedConfig("AUTH_JWT_AUDIENCE") ??
+      (oauth2.enabled ? oauth2.clientId : null),
+    strictSignature:
+      (readConfig("AUTH_JWT_STRICT_SIGNATURE") ?? "false").toLowerCase() ===
+      "true",
+  };
+}
+
+function resolveJwksCacheTtlMs(): number {
+  const raw = Number(readConfig("AUTH_JWT_JWKS_CACHE_TTL_SECONDS"));
+  const seconds =
+    Number.isFinite(raw) && raw > 0 ? raw : DEFAULT_JWKS_CACHE_TTL_SECONDS;
+  return seconds * 1000;
+}
+
+function decodeBase64UrlToBuffer(input: string): Buffer {
   const normalized = input.replace(/-/g, "+").replace(/_/g, "/");
   const padding = normalized.length % 4;
   const padded =
     padding === 0 ? normalized : normalized + "=".repeat(4 - padding);
-  return Buffer.from(padded, "base64").toString("utf8");
+  return Buffer.from(padded, "base64");
+}
+
+function decodeBase64Url(input: string): string {
+  return decodeBase64UrlToBuffer(input).toString("utf8");
 }
 
 function encodeBase64Url(input: Buffer): string {
@@ -86,47 +170,255 @@ function verifyHs256Signature(params: {
   }
 }
 
-function validateStandardClaims(claims: JwtClaims) {
-  if (typeof claims.exp === "number") {
-    const nowSeconds = Math.floor(Date.now() / 1000);
-    if (claims.exp < nowSeconds) {
-      throw new Error("JWT is expired");
+function isAsymmetricAlgorithm(
+  alg: string | undefined,
+): alg is AsymmetricAlgorithm {
+  return (ASYMMETRIC_ALGORITHMS as Array<string | undefined>).includes(alg);
+}
+
+async function fetchJson(url: string): Promise<Record<string, unknown>> {
+  const response = await fetch(url, {
+    headers: { Accept: "application/json" },
+    signal: AbortSignal.timeout(JWKS_FETCH_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${url}: HTTP ${response.status}`);
+  }
+  const body = (await response.json()) as unknown;
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    throw new Error(`Invalid JSON document at ${url}`);
+  }
+  return body as Record<string, unknown>;
+}
+
+async function resolveJwksUrl(
+  config: JwtVerificationConfig,
+): Promise<string | null> {
+  if (config.jwksUrl) {
+    return config.jwksUrl;
+  }
+  if (!config.issuer) {
+    return null;
+  }
+
+  const cached = discoveredJwksUrls.get(config.issuer);
+  if (cached) {
+    return cached;
+  }
+  const discoveryUrl = `${config.issuer.replace(/\/+$/, "")}/.well-known/openid-configuration`;
+  const document = await fetchJson(discoveryUrl);
+  if (typeof document.jwks_uri !== "string" || !document.jwks_uri) {
+    throw new Error("OpenID configuration does not define jwks_uri");
+  }
+  discoveredJwksUrls.set(config.issuer, document.jwks_uri);
+  return document.jwks_uri;
+}
+
+function parseJwks(document: Record<string, unknown>): JwksKey[] {
+  const rawKeys = Array.isArray(document.keys) ? document.keys : [];
+  const keys: JwksKey[] = [];
+  for (const rawKey of rawKeys) {
+    if (!rawKey || typeof rawKey !== "object") {
+      continue;
+    }
+    const jwk = rawKey as JsonWebKey & { kid?: unknown; use?: unknown };
+    if (jwk.use !== undefined && jwk.use !== "sig") {
+      continue;
+    }
+    try {
+      keys.push({
+        kid: typeof jwk.kid === "string" ? jwk.kid : null,
+        kty: typeof jwk.kty === "string" ? jwk.kty : null,
+        crv: typeof jwk.crv === "string" ? jwk.crv : null,
+        alg: typeof jwk.alg === "string" ? jwk.alg : null,
+        key: createPublicKey({ key: jwk, format: "jwk" }),
+      });
+    } catch {
+      // Skip keys Node cannot import instead of failing the whole set.
+    }
+  }
+  return keys;
+}
+
+async function loadJwks(
+  url: string,
+  options: { forceRefresh: boolean },
+): Promise<JwksCacheEntry> {
+  const cached = jwksCache.get(url);
+  const now = Date.now();
+  if (cached) {
+    const age = now - cached.fetchedAt;
+    const isFresh = age < resolveJwksCacheTtlMs();
+    if ((isFresh && !options.forceRefresh) || age < JWKS_REFRESH_COOLDOWN_MS) {
+      return cached;
     }
   }
 
-  const expectedIssuer = readConfig("AUTH_JWT_ISSUER");
-  if (expectedIssuer && claims.iss !== expectedIssuer) {
+  const pending = jwksFetchPromises.get(url);
+  if (pending) {
+    return pending;
+  }
+
+  const fetchPromise = fetchJson(url)
+    .then((document) => {
+      const entry = { keys: parseJwks(document), fetchedAt: Date.now() };
+      jwksCache.set(url, entry);
+      return entry;
+    })
+    .finally(() => {
+      jwksFetchPromises.delete(url);
+    });
+  jwksFetchPromises.set(url, fetchPromise);
+  return fetchPromise;
+}
+
+function isKeyCompatible(key: JwksKey, alg: AsymmetricAlgorithm): boolean {
+  if (key.alg && key.alg !== alg) {
+    return false;
+  }
+  switch (alg) {
+    case "RS256":
+      return key.kty === "RSA";
+    case "ES256":
+      return key.kty === "EC" && key.crv === "P-256";
+    case "EdDSA":
+      return key.kty === "OKP" && key.crv === "Ed25519";
+  }
+}
+
+function selectCandidateKeys(
+  keys: JwksKey[],
+  header: JwtHeader,
+  alg: AsymmetricAlgorithm,
+): JwksKey[] {
+  return keys.filter(
+    (key) =>
+      (!header.kid || key.kid === header.kid) && isKeyCompatible(key, alg),
+  );
+}
+
+function verifyAsymmetricSignature(params: {
+  alg: AsymmetricAlgorithm;
+  key: KeyObject;
+  signingInput: string;
+  signature: Buffer;
+}): boolean {
+  const data = Buffer.from(params.signingInput);
+  switch (params.alg) {
+    case "RS256":
+      return verifySignature("sha256", data, params.key, params.signature);
+    case "ES256":
+      // JWS encodes ECDSA signatures as raw r||s rather than DER.
+      return verifySignature(
+        "sha256",
+        data,
+        { key: params.key, dsaEncoding: "ieee-p1363" },
+        params.signature,
+      );
+    case "EdDSA":
+      return verifySignature(null, data, params.key, params.signature);
+  }
+}
+
+async function verifyJwksSignature(params: {
+  jwksUrl: string;
+  header: JwtHeader;
+  alg: AsymmetricAlgorithm;
+  signingInput: string;
+  signature: string;
+}) {
+  let jwks = await loadJwks(params.jwksUrl, { forceRefresh: false });
+  let candidates = selectCandidateKeys(jwks.keys, params.header, params.alg);
+  if (candidates.length === 0) {
+    // The issuer may have rotated keys since the set was cached.
+    jwks = await loadJwks(params.jwksUrl, { forceRefresh: true });
+    candidates = selectCandidateKeys(jwks.keys, params.header, params.alg);
+  }
+  if (candidates.length === 0) {
+    throw new Error("No matching JWKS key for JWT");
+  }
+
+  const signature = decodeBase64UrlToBuffer(params.signature);
+  const isValid = candidates.some((candidate) =>
+    verifyAsymmetricSignature({
+      alg: params.alg,
+      key: candidate.key,
+      signingInput: params.signingInput,
+      signature,
+    }),
+  );
+  if (!isValid) {
+    throw new Error("Invalid JWT signature");
+  }
+}
+
+function validateStandardClaims(
+  claims: JwtClaims,
+  config: JwtVerificationConfig,
+) {
+  const nowSeconds = Math.floor(Date.now() / 1000);
+  if (typeof claims.exp === "number" && claims.exp < nowSeconds) {
+    throw new Error("JWT is expired");
+  }
+  if (typeof claims.nbf === "number" && claims.nbf > nowSeconds) {
+    throw new Error("JWT is not active yet");
+  }
+
+  if (config.issuer && claims.iss !== config.issuer) {
     throw new Error("Invalid JWT issuer");
   }
 
-  const expectedAudience = readConfig("AUTH_JWT_AUDIENCE");
-  if (expectedAudience) {
+  if (config.audience) {
     const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
-    if (!audiences.includes(expectedAudience)) {
+    if (!audiences.includes(config.audience)) {
       throw new Error("Invalid JWT audience");
     }
   }
 }
 
-export function validateAndDecodeJwt(token: string): JwtClaims {
+/** The issuer alone is enough: its JWKS URL is discovered on demand. */
+function hasConfiguredVerifier(config: JwtVerificationConfig): boolean {
+  return Boolean(config.hsSecret || config.jwksUrl || config.issuer);
+}
+
+export async function validateAndDecodeJwt(token: string): Promise<JwtClaims> {
   const parsed = parseJwt(token);
-  const hsSecret = readConfig("AUTH_JWT_HS256_SECRET");
-  const strictSignatureMode =
-    (readConfig("AUTH_JWT_STRICT_SIGNATURE") ?? "false").toLowerCase() ===
-    "true";
+  const config = resolveVerificationConfig();
+  const alg = parsed.header.alg;
+  const jwksUrl = isAsymmetricAlgorithm(alg)
+    ? await resolveJwksUrl(config)
+    : null;
 
-  if (parsed.header.alg === "HS256" && hsSecret) {
+  if (alg === "HS256" && config.hsSecret) {
     verifyHs256Signature({
       signingInput: parsed.signingInput,
       signature: parsed.signature,
-      secret: hsSecret,
+      secret: config.hsSecret,
     });
-  } else if (strictSignatureMode) {
+  } else if (isAsymmetricAlgorithm(alg) && jwksUrl) {
+    await verifyJwksSignature({
+      jwksUrl,
+      header: parsed.header,
+      alg,
+      signingInput: parsed.signingInput,
+      signature: parsed.signature,
+    });
+  } else if (hasConfiguredVerifier(config)) {
+    // Tokens that no configured verifier can check, such as `alg: "none"`,
+    // would otherwise pass unsigned.
+    throw new Error(`JWT algorithm ${String(alg)} has no configured verifier`);
+  } else if (config.strictSignature) {
     throw new Error(
       "JWT signature verification is enabled but no supported verifier is configured",
     );
   }
 
-  validateStandardClaims(parsed.claims);
+  validateStandardClaims(parsed.claims, config);
   return parsed.claims;
 }
+
+export function clearJwksCacheForTests(): void {
+  jwksCache.clear();
+  jwksFetchPromises.clear();
+  discoveredJwksUrls.clear();
+}
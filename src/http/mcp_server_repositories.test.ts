@@ -0,0 +1,67 @@
+import path from "node:path";
+import { createMCPClient } from "@ai-sdk/mcp";
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { describe, expect, it } from "vitest";
+import {
+  MASKED_ENV_VALUE,
+  describeMcpTools,
+  maskMcpServerEnv,
+  mergeMcpServerEnv,
+} from "./mcp_server_repositories";
+
+describe("MCP server env masking", () => {
+  it("masks every value and keeps the names", () => {
+    expect(maskMcpServerEnv({ API_TOKEN: "secret", REGION: "eu" })).toEqual({
+      API_TOKEN: MASKED_ENV_VALUE,
+      REGION: MASKED_ENV_VALUE,
+    });
+    expect(maskMcpServerEnv(null)).toBeNull();
+  });
+
+  it("keeps stored values for masked entries and drops removed keys", () => {
+    expect(
+      mergeMcpServerEnv(
+        { API_TOKEN: "secret", REGION: "eu", OLD: "x" },
+        { API_TOKEN: MASKED_ENV_VALUE, REGION: "us", NEW: "y" },
+      ),
+    ).toEqual({ API_TOKEN: "secret", REGION: "us", NEW: "y" });
+    expect(mergeMcpServerEnv({ A: "1" }, null)).toBeNull();
+  });
+
+  it("never stores the mask for a key that had no value", () => {
+    expect(mergeMcpServerEnv(null, { API_TOKEN: MASKED_ENV_VALUE })).toEqual(
+      {},
+    );
+  });
+});
+
+describe("describeMcpTools", () => {
+  it("returns schemas and stored consents of a stdio server's tools", async () => {
+    const client = await createMCPClient({
+      transport: new StdioClientTransport({
+        command: process.execPath,
+        args: [path.resolve("testing/fake-stdio-mcp-server.mjs")],
+      }),
+    });
+    try {
+      const tools = await describeMcpTools(
+        await client.tools(),
+        new Map([["print_envs", "denied"]]),
+      );
+
+      expect(tools.map((tool) => [tool.name, tool.consent])).toEqual([
+        ["calculator_add", "ask"],
+        ["print_envs", "denied"],
+      ]);
+      expect(tools[0].inputSchema).toMatchObject({
+        type: "object",
+        properties: {
+          a: { type: "number" },
+          b: { type: "number" },
+        },
+      });
+    } finally {
+      await client.close();
+    }
+  });
+});
@@ -0,0 +1,382 @@
+import type { MCPClient } from "@ai-sdk/mcp";
+import { asSchema } from "ai";
+import { and, asc, eq } from "drizzle-orm";
+import { db, initializeDatabase } from "/src/db/index.ts";
+import { mcpServers, mcpToolConsents } from "/src/db/schema.ts";
+import { isMcpStdioTransportEnabled } from "/src/http/feature_flags.ts";
+import { HttpError } from "/src/http/http_errors.ts";
+import type { RequestContext } from "/src/http/request_context.ts";
+import type { Consent } from "/src/ipc/utils/mcp_consent.ts";
+import { mcpManager } from "/src/ipc/utils/mcp_manager.ts";
+
+export type McpTransport = "stdio" | "http";
+
+export interface McpServerInput {
+  name: string;
+  transport: McpTransport;
+  command?: string | null;
+  args?: string[] | null;
+  /** Values equal to `MASKED_ENV_VALUE` keep the stored value. */
+  env?: Record<string, string> | null;
+  url?: string | null;
+}
+
+export interface McpToolDescription {
+  name: string;
+  title: string | null;
+  description: string | null;
+  inputSchema: unknown;
+  consent: Consent;
+}
+
+export const MASKED_ENV_VALUE = "********";
+
+const MCP_TOOLS_TIMEOUT_MS = 15_000;
+
+function toIsoDate(value: Date | null | undefined): string | null {
+  if (!value) {
+    return null;
+  }
+  return value.toISOString();
+}
+
+function assertTenantScope(
+  context: Pick<RequestContext, "orgId" | "workspaceId">,
+) {
+  if (!context.orgId || !context.workspaceId) {
+    throw new HttpError(
+      400,
+      "TENANT_SCOPE_REQUIRED",
+      "organizationId/workspaceId scope is required",
+    );
+  }
+}
+
+function assertTransportAllowed(transport: string) {
+  if (transport === "stdio" && !isMcpStdioTransportEnabled()) {
+    throw new HttpError(
+      403,
+      "MCP_STDIO_DISABLED",
+      "stdio MCP servers are disabled on this deployment",
+    );
+  }
+}
+
+export function maskMcpServerEnv(
+  env: Record<string, string> | null | undefined,
+): Record<string, string> | null {
+  if (!env) {
+    return null;
+  }
+  return Object.fromEntries(
+    Object.keys(env).map((key) => [key, MASKED_ENV_VALUE]),
+  );
+}
+
+/**
+ * Clients only ever see masked values, so a masked value sent back means
+ * "keep what is stored". Keys missing from `next` are removed.
+ */
+export function mergeMcpServerEnv(
+  previous: Record<string, string> | null | undefined,
+  next: Record<string, string> | null,
+): Record<string, string> | null {
+  if (!next) {
+    return null;
+  }
+  const merged: Record<string, string> = {};
+  for (const [key, value] of Object.entries(next)) {
+    if (value === MASKED_ENV_VALUE) {
+      if (previous && key in previous) {
+        merged[key] = previous[key];
+      }
+      continue;
+    }
+    merged[key] = value;
+  }
+  return merged;
+}
+
+function mapMcpServerRow(row: typeof mcpServers.$inferSelect) {
+  // Environment values often hold credentials; only their names leave the server.
+  return {
+    id: row.id,
+    name: row.name,
+    transport: row.transport as McpTransport,
+    command: row.command ?? null,
+    args: row.args ?? [],
+    env: maskMcpServerEnv(row.envJson) ?? {},
+    url: row.url ?? null,
+    enabled: row.enabled,
+    createdByUserId: row.createdByUserId ?? null,
+    createdAt: toIsoDate(row.createdAt),
+    updatedAt: toIsoDate(row.updatedAt),
+  };
+}
+
+/** Drops fields the transport does not use and checks the required ones. */
+function normalizeTransportFields(server: {
+  transport: McpTransport;
+  command: string | null;
+  args: string[] | null;
+  envJson: Record<string, string> | null;
+  url: string | null;
+}) {
+  if (server.transport === "stdio") {
+    if (!server.command) {
+      throw new HttpError(
+        400,
+        "INVALID_PAYLOAD",
+        'Invalid payload: "command" is required for stdio transport',
+      );
+    }
+    return { ...server, url: null };
+  }
+  if (!server.url) {
+    throw new HttpError(
+      400,
+      "INVALID_PAYLOAD",
+      'Invalid payload: "url" is required for http transport',
+    );
+  }
+  return { ...server, command: null, args: null, envJson: null };
+}
+
+function mcpServerScopeCondition(context: RequestContext, serverId: number) {
+  return and(
+    eq(mcpServers.id, serverId),
+    eq(mcpServers.organizationId, context.orgId),
+    eq(mcpServers.workspaceId, context.workspaceId),
+  );
+}
+
+async function getMcpServerRowForScope(
+  context: RequestContext,
+  serverId: number,
+) {
+  const [row] = await db
+    .select()
+    .from(mcpServers)
+    .where(mcpServerScopeCondition(context, serverId))
+    .limit(1);
+  if (!row) {
+    throw new HttpError(
+      404,
+      "MCP_SERVER_NOT_FOUND",
+      `MCP server not found: ${serverId}`,
+    );
+  }
+  return row;
+}
+
+export async function listMcpServersForScope(context: RequestContext) {
+  await initializeDatabase();
+  assertTenantScope(context);
+  const rows = await db
+    .select()
+    .from(mcpServers)
+    .where(
+      and(
+        eq(mcpServers.organizationId, context.orgId),
+        eq(mcpServers.workspaceId, context.workspaceId),
+      ),
+    )
+    .orderBy(asc(mcpServers.id));
+  return rows.map(mapMcpServerRow);
+}
+
+export async function createMcpServerForScope(params: {
+  context: RequestContext;
+  server: McpServerInput;
+}) {
+  await initializeDatabase();
+  assertTenantScope(params.context);
+  assertTransportAllowed(params.server.transport);
+  const fields = normalizeTransportFields({
+    transport: params.server.transport,
+    command: params.server.command ?? null,
+    args: params.server.args ?? null,
+    envJson: mergeMcpServerEnv(null, params.server.env ?? null),
+    url: params.server.url ?? null,
+  });
+  // New servers start disabled and are enabled explicitly.
+  const [row] = await db
+    .insert(mcpServers)
+    .values({
+      organizationId: params.context.orgId,
+      workspaceId: params.context.workspaceId,
+      createdByUserId: params.context.userId,
+      name: params.server.name,
+      ...fields,
+    })
+    .returning();
+  return mapMcpServerRow(row);
+}
+
+export async function updateMcpServerForScope(params: {
+  context: RequestContext;
+  serverId: number;
+  patch: Partial<McpServerInput>;
+}) {
+  await initializeDatabase();
+  assertTenantScope(params.context);
+  const existing = await getMcpServerRowForScope(
+    params.context,
+    params.serverId,
+  );
+  const transport =
+    params.patch.transport ?? (existing.transport as McpTransport);
+  assertTransportAllowed(transport);
+  const fields = normalizeTransportFields({
+    transport,
+    command:
+      params.patch.command === undefined
+        ? (existing.command ?? null)
+        : params.patch.command,
+    args:
+      params.patch.args === undefined
+        ? (existing.args ?? null)
+        : params.patch.args,
+    envJson:
+      params.patch.env === undefined
+        ? (existing.envJson ?? null)
+        : mergeMcpServerEnv(existing.envJson, params.patch.env),
+    url:
+      params.patch.url === undefined
+        ? (existing.url ?? null)
+        : params.patch.url,
+  });
+
+  const [row] = await db
+    .update(mcpServers)
+    .set({
+      name: params.patch.name,
+      ...fields,
+      updatedAt: new Date(),
+    })
+    .where(mcpServerScopeCondition(params.context, params.serverId))
+    .returning();
+  // Reconnect with the new configuration on next use.
+  mcpManager.dispose(params.serverId);
+  return mapMcpServerRow(row);
+}
+
+export async function deleteMcpServerForScope(params: {
+  context: RequestContext;
+  serverId: number;
+}) {
+  await initializeDatabase();
+  assertTenantScope(params.context);
+  await getMcpServerRowForScope(params.context, params.serverId);
+  // Stored tool consents cascade with their server.
+  await db
+    .delete(mcpServers)
+    .where(mcpServerScopeCondition(params.context, params.serverId));
+  mcpManager.dispose(params.serverId);
+}
+
+export async function setMcpServerEnabledForScope(params: {
+  context: RequestContext;
+  serverId: number;
+  enabled: boolean;
+}) {
+  await initializeDatabase();
+  assertTenantScope(params.context);
+  const existing = await getMcpServerRowForScope(
+    params.context,
+    params.serverId,
+  );
+  if (params.enabled) {
+    assertTransportAllowed(existing.transport);
+  }
+  const [row] = await db
+    .update(mcpServers)
+    .set({ enabled: params.enabled, updatedAt: new Date() })
+    .where(mcpServerScopeCondition(params.context, params.serverId))
+    .returning();
+  if (!params.enabled) {
+    mcpManager.dispose(params.serverId);
+  }
+  return mapMcpServerRow(row);
+}
+
+export async function describeMcpTools(
+  tools: Awaited<ReturnType<MCPClient["tools"]>>,
+  consents: ReadonlyMap<string, Consent>,
+): Promise<McpToolDescription[]> {
+  const descriptions = await Promise.all(
+    Object.entries(tools).map(async ([name, tool]) => ({
+      name,
+      title: tool.title ?? null,
+      description: tool.description ?? null,
+      inputSchema: await asSchema(tool.inputSchema).jsonSchema,
+      consent: consents.get(name) ?? "ask",
+    })),
+  );
+  return descriptions.sort((left, right) =>
+    left.name.localeCompare(right.name),
+  );
+}
+
+async function withToolsTimeout<T>(promise: Promise<T>): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    return await Promise.race([
+      promise,
+      new Promise<never>((_resolve, reject) => {
+        timer = setTimeout(
+          () => reject(new Error("Timed out listing MCP tools")),
+          MCP_TOOLS_TIMEOUT_MS,
+        );
+      }),
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+export async function listMcpServerToolsForScope(params: {
+  context: RequestContext;
+  serverId: number;
+}): Promise<McpToolDescription[]> {
+  await initializeDatabase();
+  assertTenantScope(params.context);
+  const server = await getMcpServerRowForScope(params.context, params.serverId);
+  if (!server.enabled) {
+    throw new HttpError(
+      409,
+      "MCP_SERVER_DISABLED",
+      `MCP server is disabled: ${params.serverId}`,
+    );
+  }
+  assertTransportAllowed(server.transport);
+
+  let tools: Awaited<ReturnType<MCPClient["tools"]>>;
+  try {
+    tools = await withToolsTimeout(
+      mcpManager.getClient(server.id).then((client) => client.tools()),
+    );
+  } catch (error) {
+    // Drop a broken connection so the next request reconnects.
+    mcpManager.dispose(server.id);
+    throw new HttpError(
+      502,
+      "MCP_SERVER_UNAVAILABLE",
+      `Failed to list tools of MCP server ${server.id}: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+    );
+  }
+
+  const consentRows = await db
+    .select({
+      toolName: mcpToolConsents.toolName,
+      consent: mcpToolConsents.consent,
+    })
+    .from(mcpToolConsents)
+    .where(eq(mcpToolConsents.serverId, server.id));
+  return describeMcpTools(
+    tools,
+    new Map(consentRows.map((row) => [row.toolName, row.consent as Consent])),
+  );
+}
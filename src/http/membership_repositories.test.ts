@@ -0,0 +1,146 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  assertCanManageMembers,
+  removeWorkspaceMemberForScope,
+  resolveWorkspaceManagerRole,
+  updateOrganizationMemberRoleForScope,
+} from "./membership_repositories";
+import type { RequestContext } from "./request_context";
+
+const { dbMock } = vi.hoisted(() => {
+  const results: unknown[][] = [];
+  const calls: string[] = [];
+  const builder: Record<string, unknown> = {};
+  for (const method of [
+    "select",
+    "from",
+    "leftJoin",
+    "where",
+    "update",
+    "set",
+    "delete",
+  ]) {
+    builder[method] = () => {
+      calls.push(method);
+      return builder;
+    };
+  }
+  // Queries end in one of these and resolve to the next queued result.
+  for (const method of ["limit", "for"]) {
+    builder[method] = async (...args: unknown[]) => {
+      calls.push(method === "for" ? `for ${args[0]}` : method);
+      return results.shift() ?? [];
+    };
+  }
+  builder.transaction = async (
+    run: (tx: Record<string, unknown>) => Promise<unknown>,
+  ) => {
+    calls.push("transaction");
+    return run(builder);
+  };
+  return { dbMock: { builder, results, calls } };
+});
+
+vi.mock("/src/db/index.ts", () => ({
+  db: dbMock.builder,
+  initializeDatabase: vi.fn(),
+}));
+
+const context = {
+  userId: "user-1",
+  orgId: "org-1",
+  workspaceId: "ws-1",
+  organizationRole: "owner",
+  workspaceRole: "owner",
+} as RequestContext;
+
+function memberRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 7,
+    userId: "user-2",
+    role: "owner",
+    status: "active",
+    invitedEmail: null,
+    invitedByUserId: null,
+    createdAt: new Date("2026-01-01T00:00:00.000Z"),
+    updatedAt: new Date("2026-01-01T00:00:00.000Z"),
+    email: "owner@example.com",
+    displayName: null,
+    ...overrides,
+  };
+}
+
+describe("membership guards", () => {
+  it("allows only owners to manage members", () => {
+    expect(() => assertCanManageMembers("owner")).not.toThrow();
+    for (const role of ["admin", "member", "viewer"] as const) {
+      expect(() => assertCanManageMembers(role)).toThrow(
+        "Only owner can manage members",
+      );
+    }
+  });
+
+  it("lets organization owner/admin manage any workspace", () => {
+    expect(
+      resolveWorkspaceManagerRole({
+        organizationRole: "admin",
+        workspaceRole: "viewer",
+      }),
+    ).toBe("admin");
+    expect(
+      resolveWorkspaceManagerRole({
+        organizationRole: "member",
+        workspaceRole: "owner",
+      }),
+    ).toBe("owner");
+    expect(
+      resolveWorkspaceManagerRole({
+        organizationRole: "member",
+        workspaceRole: "viewer",
+      }),
+    ).toBe("viewer");
+  });
+});
+
+describe("last owner checks", () => {
+  beforeEach(() => {
+    dbMock.results.length = 0;
+    dbMock.calls.length = 0;
+  });
+
+  it("rejects admins before reading the member", async () => {
+    await expect(
+      updateOrganizationMemberRoleForScope({
+        context: { ...context, organizationRole: "admin" },
+        membershipId: 7,
+        role: "member",
+      }),
+    ).rejects.toMatchObject({ statusCode: 403, code: "FORBIDDEN" });
+    expect(dbMock.calls).toEqual([]);
+  });
+
+  it("counts locked owner rows inside the transaction that demotes", async () => {
+    dbMock.results.push([memberRow()], [{ id: 7 }]);
+
+    await expect(
+      updateOrganizationMemberRoleForScope({
+        context,
+        membershipId: 7,
+        role: "admin",
+      }),
+    ).rejects.toMatchObject({ statusCode: 400, code: "LAST_OWNER_REQUIRED" });
+    const transactionAt = dbMock.calls.indexOf("transaction");
+    expect(transactionAt).toBeGreaterThan(-1);
+    expect(dbMock.calls.indexOf("for update")).toBeGreaterThan(transactionAt);
+    expect(dbMock.calls).not.toContain("update");
+  });
+
+  it("removes an owner when another active owner is left", async () => {
+    dbMock.results.push([memberRow()], [{ id: 7 }, { id: 8 }]);
+
+    await expect(
+      removeWorkspaceMemberForScope({ context, membershipId: 7 }),
+    ).resolves.toMatchObject({ id: 7, scope: "workspace" });
+    expect(dbMock.calls.slice(-3)).toEqual(["for update", "delete", "where"]);
+  });
+});
@@ -0,0 +1,666 @@
+import { and, asc, eq, inArray, isNull, ne, or, sql } from "drizzle-orm";
+import { db, initializeDatabase } from "/src/db/index.ts";
+import {
+  membershipRoleEnum,
+  organizationMemberships,
+  users,
+  workspaceMemberships,
+  workspaces,
+} from "/src/db/schema.ts";
+import { HttpError } from "/src/http/http_errors.ts";
+import type { RequestContext } from "/src/http/request_context.ts";
+
+type MembershipRole = (typeof membershipRoleEnum.enumValues)[number];
+type MembershipScope = "organization" | "workspace";
+
+const ROLE_RANK: Record<MembershipRole, number> = {
+  owner: 0,
+  admin: 1,
+  member: 2,
+  viewer: 3,
+};
+
+function toIsoDate(value: Date | null | undefined): string | null {
+  if (!value) {
+    return null;
+  }
+  return value.toISOString();
+}
+
+export function normalizeInviteEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+function assertTenantScope(
+  context: Pick<RequestContext, "orgId" | "workspaceId">,
+) {
+  if (!context.orgId || !context.workspaceId) {
+    throw new HttpError(
+      400,
+      "TENANT_SCOPE_REQUIRED",
+      "organizationId/workspaceId scope is required",
+    );
+  }
+}
+
+/**
+ * Org owners/admins act on every workspace in the org with their organization
+ * role, so the effective workspace manager role is the stronger of the two
+ * memberships.
+ */
+export function resolveWorkspaceManagerRole(
+  context: Pick<RequestContext, "organizationRole" | "workspaceRole">,
+): MembershipRole {
+  if (
+    (context.organizationRole === "owner" ||
+      context.organizationRole === "admin") &&
+    ROLE_RANK[context.organizationRole] < ROLE_RANK[context.workspaceRole]
+  ) {
+    return context.organizationRole;
+  }
+  return context.workspaceRole;
+}
+
+export function assertCanManageMembers(actorRole: MembershipRole): void {
+  if (actorRole !== "owner") {
+    throw new HttpError(403, "FORBIDDEN", "Only owner can manage members");
+  }
+}
+
+/**
+ * `activeOwnerIds` must come from {@link lockActiveOrganizationOwnerIds} or
+ * {@link lockActiveWorkspaceOwnerIds} in the transaction that applies the
+ * change, so concurrent demotions cannot each see another owner left.
+ */
+function assertNotLastOwner(params: {
+  targetId: number;
+  nextRole: MembershipRole | null;
+  activeOwnerIds: number[];
+}) {
+  if (
+    params.activeOwnerIds.includes(params.targetId) &&
+    params.nextRole !== "owner" &&
+    params.activeOwnerIds.length <= 1
+  ) {
+    throw new HttpError(
+      400,
+      "LAST_OWNER_REQUIRED",
+      "Cannot remove or demote the last owner",
+    );
+  }
+}
+
+const organizationMemberColumns = {
+  id: organizationMemberships.id,
+  userId: organizationMemberships.userId,
+  role: organizationMemberships.role,
+  status: organizationMemberships.status,
+  invitedEmail: organizationMemberships.invitedEmail,
+  invitedByUserId: organizationMemberships.invitedByUserId,
+  createdAt: organizationMemberships.createdAt,
+  updatedAt: organizationMemberships.updatedAt,
+  email: users.email,
+  displayName: users.displayName,
+};
+
+const workspaceMemberColumns = {
+  id: workspaceMemberships.id,
+  userId: workspaceMemberships.userId,
+  role: workspaceMemberships.role,
+  status: workspaceMemberships.status,
+  invitedEmail: workspaceMemberships.invitedEmail,
+  invitedByUserId: workspaceMemberships.invitedByUserId,
+  createdAt: workspaceMemberships.createdAt,
+  updatedAt: workspaceMemberships.updatedAt,
+  email: users.email,
+  displayName: users.displayName,
+};
+
+function mapMemberRow(
+  scope: MembershipScope,
+  row: {
+    id: number;
+    userId: string | null;
+    role: MembershipRole;
+    status: string;
+    invitedEmail: string | null;
+    invitedByUserId: string | null;
+    createdAt: Date;
+    updatedAt: Date;
+    email: string | null;
+    displayName: string | null;
+  },
+) {
+  return {
+    id: Number(row.id),
+    scope,
+    userId: row.userId,
+    email: row.email ?? row.invitedEmail,
+    displayName: row.displayName ?? null,
+    role: row.role,
+    status: row.status,
+    invitedEmail: row.invitedEmail,
+    invitedByUserId: row.invitedByUserId,
+    createdAt: toIsoDate(row.createdAt),
+    updatedAt: toIsoDate(row.updatedAt),
+  };
+}
+
+async function findUserIdByEmail(email: string): Promise<string | null> {
+  const [user] = await db
+    .select({ id: users.id })
+    .from(users)
+    .where(eq(sql`lower(${users.email})`, email))
+    .limit(1);
+  return user?.id ?? null;
+}
+
+async function getOrganizationMember(orgId: string, membershipId: number) {
+  const [row] = await db
+    .select(organizationMemberColumns)
+    .from(organizationMemberships)
+    .leftJoin(users, eq(organizationMemberships.userId, users.id))
+    .where(
+      and(
+        eq(organizationMemberships.id, membershipId),
+        eq(organizationMemberships.organizationId, orgId),
+      ),
+    )
+    .limit(1);
+  if (!row) {
+    throw new HttpError(404, "MEMBER_NOT_FOUND", "Member not found");
+  }
+  return row;
+}
+
+async function getWorkspaceMember(workspaceId: string, membershipId: number) {
+  const [row] = await db
+    .select(workspaceMemberColumns)
+    .from(workspaceMemberships)
+    .leftJoin(users, eq(workspaceMemberships.userId, users.id))
+    .where(
+      and(
+        eq(workspaceMemberships.id, membershipId),
+        eq(workspaceMemberships.workspaceId, workspaceId),
+      ),
+    )
+    .limit(1);
+  if (!row) {
+    throw new HttpError(404, "MEMBER_NOT_FOUND", "Member not found");
+  }
+  return row;
+}
+
+/** Locks the active owner rows of the organization until the transaction ends. */
+async function lockActiveOrganizationOwnerIds(
+  tx: Pick<typeof db, "select">,
+  orgId: string,
+): Promise<number[]> {
+  const rows = await tx
+    .select({ id: organizationMemberships.id })
+    .from(organizationMemberships)
+    .where(
+      and(
+        eq(organizationMemberships.organizationId, orgId),
+        eq(organizationMemberships.role, "owner"),
+        eq(organizationMemberships.status, "active"),
+      ),
+    )
+    .for("update");
+  return rows.map((row) => Number(row.id));
+}
+
+/** Locks the active owner rows of the workspace until the transaction ends. */
+async function lockActiveWorkspaceOwnerIds(
+  tx: Pick<typeof db, "select">,
+  workspaceId: string,
+): Promise<number[]> {
+  const rows = await tx
+    .select({ id: workspaceMemberships.id })
+    .from(workspaceMemberships)
+    .where(
+      and(
+        eq(workspaceMemberships.workspaceId, workspaceId),
+        eq(workspaceMemberships.role, "owner"),
+        eq(workspaceMemberships.status, "active"),
+      ),
+    )
+    .for("update");
+  return rows.map((row) => Number(row.id));
+}
+
+export async function listOrganizationMembersForScope(context: RequestContext) {
+  await initializeDatabase();
+  const rows = await db
+    .select(organizationMemberColumns)
+    .from(organizationMemberships)
+    .leftJoin(users, eq(organizationMemberships.userId, users.id))
+    .where(eq(organizationMemberships.organizationId, context.orgId))
+    .orderBy(asc(organizationMemberships.createdAt));
+  return rows.map((row) => mapMemberRow("organization", row));
+}
+
+export async function listWorkspaceMembersForScope(context: RequestContext) {
+  assertTenantScope(context);
+  await initializeDatabase();
+  const rows = await db
+    .select(workspaceMemberColumns)
+    .from(workspaceMemberships)
+    .leftJoin(users, eq(workspaceMemberships.userId, users.id))
+    .where(eq(workspaceMemberships.workspaceId, context.workspaceId))
+    .orderBy(asc(workspaceMemberships.createdAt));
+  return rows.map((row) => mapMemberRow("workspace", row));
+}
+
+export async function inviteOrganizationMemberForScope(params: {
+  context: RequestContext;
+  email: string;
+  role: MembershipRole;
+}) {
+  await initializeDatabase();
+  assertCanManageMembers(params.context.organizationRole);
+
+  const email = normalizeInviteEmail(params.email);
+  const userId = await findUserIdByEmail(email);
+
+  const [existing] = await db
+    .select({ id: organizationMemberships.id })
+    .from(organizationMemberships)
+    .where(
+      and(
+        eq(organizationMemberships.organizationId, params.context.orgId),
+        userId
+          ? or(
+              eq(organizationMemberships.userId, userId),
+              eq(organizationMemberships.invitedEmail, email),
+            )
+          : eq(organizationMemberships.invitedEmail, email),
+      ),
+    )
+    .limit(1);
+  if (existing) {
+    throw new HttpError(
+      409,
+      "MEMBER_ALREADY_EXISTS",
+      "User is already a member or has a pending invitation",
+    );
+  }
+
+  const [inserted] = await db
+    .insert(organizationMemberships)
+    .values({
+      organizationId: params.context.orgId,
+      userId,
+      role: params.role,
+      status: "invited",
+      invitedEmail: email,
+      invitedByUserId: params.context.userId,
+    })
+    .returning({ id: organizationMemberships.id });
+
+  return mapMemberRow(
+    "organization",
+    await getOrganizationMember(params.context.orgId, inserted.id),
+  );
+}
+
+export async function inviteWorkspaceMemberForScope(params: {
+  context: RequestContext;
+  email: string;
+  role: MembershipRole;
+}) {
+  assertTenantScope(params.context);
+  await initializeDatabase();
+  assertCanManageMembers(resolveWorkspaceManagerRole(params.context));
+
+  const [workspace] = await db
+    .select({ type: workspaces.type })
+    .from(workspaces)
+    .where(
+      and(
+        eq(workspaces.id, params.context.workspaceId),
+        eq(workspaces.organizationId, params.context.orgId),
+      ),
+    )
+    .limit(1);
+  if (!workspace) {
+    throw new HttpError(404, "WORKSPACE_NOT_FOUND", "Workspace not found");
+  }
+  if (workspace.type === "personal") {
+    throw new HttpError(
+      400,
+      "INVALID_WORKSPACE_MEMBERSHIP",
+      "Members cannot be invited to a personal workspace",
+    );
+  }
+
+  const email = normalizeInviteEmail(params.email);
+  const userId = await findUserIdByEmail(email);
+
+  const [existing] = await db
+    .select({ id: workspaceMemberships.id })
+    .from(workspaceMemberships)
+    .where(
+      and(
+        eq(workspaceMemberships.workspaceId, params.context.workspaceId),
+        userId
+          ? or(
+              eq(workspaceMemberships.userId, userId),
+              eq(workspaceMemberships.invitedEmail, email),
+            )
+          : eq(workspaceMemberships.invitedEmail, email),
+      ),
+    )
+    .limit(1);
+  if (existing) {
+    throw new HttpError(
+      409,
+      "MEMBER_ALREADY_EXISTS",
+      "User is already a member or has a pending invitation",
+    );
+  }
+
+  const insertedId = await db.transaction(async (tx) => {
+    // Workspace access requires an organization membership, so invite the
+    // user to the organization as a regular member when they are not in it.
+    const [organizationMembership] = await tx
+      .select({ id: organizationMemberships.id })
+      .from(organizationMemberships)
+      .where(
+        and(
+          eq(organizationMemberships.organizationId, params.context.orgId),
+          userId
+            ? or(
+                eq(organizationMemberships.userId, userId),
+                eq(organizationMemberships.invitedEmail, email),
+              )
+            : eq(organizationMemberships.invitedEmail, email),
+        ),
+      )
+      .limit(1);
+    if (!organizationMembership) {
+      await tx.insert(organizationMemberships).values({
+        organizationId: params.context.orgId,
+        userId,
+        role: "member",
+        status: "invited",
+        invitedEmail: email,
+        invitedByUserId: params.context.userId,
+      });
+    }
+
+    const [inserted] = await tx
+      .insert(workspaceMemberships)
+      .values({
+        workspaceId: params.context.workspaceId,
+        userId,
+        role: params.role,
+        status: "invited",
+        invitedEmail: email,
+        invitedByUserId: params.context.userId,
+      })
+      .returning({ id: workspaceMemberships.id });
+    return inserted.id;
+  });
+
+  return mapMemberRow(
+    "workspace",
+    await getWorkspaceMember(params.context.workspaceId, insertedId),
+  );
+}
+
+export async function updateOrganizationMemberRoleForScope(params: {
+  context: RequestContext;
+  membershipId: number;
+  role: MembershipRole;
+}) {
+  await initializeDatabase();
+  assertCanManageMembers(params.context.organizationRole);
+  const target = await getOrganizationMember(
+    params.context.orgId,
+    params.membershipId,
+  );
+
+  await db.transaction(async (tx) => {
+    assertNotLastOwner({
+      targetId: target.id,
+      nextRole: params.role,
+      activeOwnerIds: await lockActiveOrganizationOwnerIds(
+        tx,
+        params.context.orgId,
+      ),
+    });
+    await tx
+      .update(organizationMemberships)
+      .set({ role: params.role, updatedAt: new Date() })
+      .where(eq(organizationMemberships.id, target.id));
+  });
+
+  return {
+    previousRole: target.role,
+    member: mapMemberRow(
+      "organization",
+      await getOrganizationMember(params.context.orgId, target.id),
+    ),
+  };
+}
+
+export async function updateWorkspaceMemberRoleForScope(params: {
+  context: RequestContext;
+  membershipId: number;
+  role: MembershipRole;
+}) {
+  assertTenantScope(params.context);
+  await initializeDatabase();
+  assertCanManageMembers(resolveWorkspaceManagerRole(params.context));
+  const target = await getWorkspaceMember(
+    params.context.workspaceId,
+    params.membershipId,
+  );
+
+  await db.transaction(async (tx) => {
+    assertNotLastOwner({
+      targetId: target.id,
+      nextRole: params.role,
+      activeOwnerIds: await lockActiveWorkspaceOwnerIds(
+        tx,
+        params.context.workspaceId,
+      ),
+    });
+    await tx
+      .update(workspaceMemberships)
+      .set({ role: params.role, updatedAt: new Date() })
+      .where(eq(workspaceMemberships.id, target.id));
+  });
+
+  return {
+    previousRole: target.role,
+    member: mapMemberRow(
+      "workspace",
+      await getWorkspaceMember(params.context.workspaceId, target.id),
+    ),
+  };
+}
+
+export async function removeOrganizationMemberForScope(params: {
+  context: RequestContext;
+  membershipId: number;
+}) {
+  await initializeDatabase();
+  assertCanManageMembers(params.context.organizationRole);
+  const target = await getOrganizationMember(
+    params.context.orgId,
+    params.membershipId,
+  );
+
+  await db.transaction(async (tx) => {
+    assertNotLastOwner({
+      targetId: target.id,
+      nextRole: null,
+      activeOwnerIds: await lockActiveOrganizationOwnerIds(
+        tx,
+        params.context.orgId,
+      ),
+    });
+    const organizationWorkspaceIds = tx
+      .select({ id: workspaces.id })
+      .from(workspaces)
+      .where(eq(workspaces.organizationId, params.context.orgId));
+    const matchers = [];
+    if (target.userId) {
+      matchers.push(eq(workspaceMemberships.userId, target.userId));
+    }
+    if (target.invitedEmail) {
+      matchers.push(eq(workspaceMemberships.invitedEmail, target.invitedEmail));
+    }
+    if (matchers.length > 0) {
+      await tx
+        .delete(workspaceMemberships)
+        .where(
+          and(
+            inArray(workspaceMemberships.workspaceId, organizationWorkspaceIds),
+            or(...matchers),
+          ),
+        );
+    }
+    await tx
+      .delete(organizationMemberships)
+      .where(eq(organizationMemberships.id, target.id));
+  });
+
+  return mapMemberRow("organization", target);
+}
+
+export async function removeWorkspaceMemberForScope(params: {
+  context: RequestContext;
+  membershipId: number;
+}) {
+  assertTenantScope(params.context);
+  await initializeDatabase();
+  assertCanManageMembers(resolveWorkspaceManagerRole(params.context));
+  const target = await getWorkspaceMember(
+    params.context.workspaceId,
+    params.membershipId,
+  );
+
+  await db.transaction(async (tx) => {
+    assertNotLastOwner({
+      targetId: target.id,
+      nextRole: null,
+      activeOwnerIds: await lockActiveWorkspaceOwnerIds(
+        tx,
+        params.context.workspaceId,
+      ),
+    });
+    await tx
+      .delete(workspaceMemberships)
+      .where(eq(workspaceMemberships.id, target.id));
+  });
+
+  return mapMemberRow("workspace", target);
+}
+
+/**
+ * Binds pending email invitations to the signed-in user and activates them.
+ * Invitations that duplicate an existing membership are dropped.
+ */
+export async function acceptPendingInvitations(params: {
+  userId: string;
+  email: string;
+}): Promise<void> {
+  const email = normalizeInviteEmail(params.email);
+  if (!email) {
+    return;
+  }
+
+  const pendingOrganizationInvites = await db
+    .select({
+      id: organizationMemberships.id,
+      organizationId: organizationMemberships.organizationId,
+    })
+    .from(organizationMemberships)
+    .where(
+      and(
+        eq(organizationMemberships.invitedEmail, email),
+        eq(organizationMemberships.status, "invited"),
+        or(
+          isNull(organizationMemberships.userId),
+          eq(organizationMemberships.userId, params.userId),
+        ),
+      ),
+    );
+
+  const pendingWorkspaceInvites = await db
+    .select({
+      id: workspaceMemberships.id,
+      workspaceId: workspaceMemberships.workspaceId,
+    })
+    .from(workspaceMemberships)
+    .where(
+      and(
+        eq(workspaceMemberships.invitedEmail, email),
+        eq(workspaceMemberships.status, "invited"),
+        or(
+          isNull(workspaceMemberships.userId),
+          eq(workspaceMemberships.userId, params.userId),
+        ),
+      ),
+    );
+
+  if (
+    pendingOrganizationInvites.length === 0 &&
+    pendingWorkspaceInvites.length === 0
+  ) {
+    return;
+  }
+
+  await db.transaction(async (tx) => {
+    for (const invite of pendingOrganizationInvites) {
+      const [duplicate] = await tx
+        .select({ id: organizationMemberships.id })
+        .from(organizationMemberships)
+        .where(
+          and(
+            eq(organizationMemberships.organizationId, invite.organizationId),
+            eq(organizationMemberships.userId, params.userId),
+            ne(organizationMemberships.id, invite.id),
+          ),
+        )
+        .limit(1);
+      if (duplicate) {
+        await tx
+          .delete(organizationMemberships)
+          .where(eq(organizationMemberships.id, invite.id));
+        continue;
+      }
+      await tx
+        .update(organizationMemberships)
+        .set({ userId: params.userId, status: "active", updatedAt: new Date() })
+        .where(eq(organizationMemberships.id, invite.id));
+    }
+
+    for (const invite of pendingWorkspaceInvites) {
+      const [duplicate] = await tx
+        .select({ id: workspaceMemberships.id })
+        .from(workspaceMemberships)
+        .where(
+          and(
+            eq(workspaceMemberships.workspaceId, invite.workspaceId),
+            eq(workspaceMemberships.userId, params.userId),
+            ne(workspaceMemberships.id, invite.id),
+          ),
+        )
+        .limit(1);
+      if (duplicate) {
+        await tx
+          .delete(workspaceMemberships)
+          .where(eq(workspaceMemberships.id, invite.id));
+        continue;
+      }
+      await tx
+        .update(workspaceMemberships)
+        .set({ userId: params.userId, status: "active", updatedAt: new Date() })
+        .where(eq(workspaceMemberships.id, invite.id));
+    }
+  });
+}
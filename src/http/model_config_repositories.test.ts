@@ -0,0 +1,196 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  createLanguageModelForScope,
+  createModelProviderForScope,
+  getWorkspaceModelDefaultsForScope,
+  listModelProvidersForScope,
+  setWorkspaceModelDefaultsForScope,
+} from "./model_config_repositories";
+import type { RequestContext } from "./request_context";
+
+const { dbMock, secretsConfigured } = vi.hoisted(() => {
+  const results: unknown[][] = [];
+  const insertedValues: unknown[] = [];
+  const builder: Record<string, unknown> = {};
+  for (const method of [
+    "select",
+    "from",
+    "where",
+    "insert",
+    "update",
+    "set",
+    "delete",
+  ]) {
+    builder[method] = () => builder;
+  }
+  builder.values = (values: unknown) => {
+    insertedValues.push(values);
+    return builder;
+  };
+  // Queries end in one of these and resolve to the next queued result.
+  for (const method of [
+    "limit",
+    "orderBy",
+    "returning",
+    "onConflictDoUpdate",
+  ]) {
+    builder[method] = async () => results.shift() ?? [];
+  }
+  return {
+    dbMock: { builder, results, insertedValues },
+    secretsConfigured: { value: true },
+  };
+});
+
+vi.mock("/src/db/index.ts", () => ({
+  db: dbMock.builder,
+  initializeDatabase: vi.fn(),
+}));
+
+vi.mock("/src/ipc/utils/secret_crypto.ts", () => ({
+  isSecretEncryptionConfigured: () => secretsConfigured.value,
+  encryptSecret: (value: string) => `encrypted:${value}`,
+}));
+
+const context = {
+  userId: "user-1",
+  orgId: "org-1",
+  workspaceId: "ws-1",
+  organizationRole: "owner",
+  workspaceRole: "owner",
+} as RequestContext;
+
+function providerRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "custom::provider-1",
+    name: "Gateway",
+    api_base_url: "https://llm.example.com/v1",
+    env_var_name: null,
+    trust_self_signed: false,
+    api_key_encrypted: null,
+    createdByUserId: "user-1",
+    createdAt: new Date("2026-01-01T00:00:00.000Z"),
+    updatedAt: new Date("2026-01-01T00:00:00.000Z"),
+    ...overrides,
+  };
+}
+
+describe("model_config_repositories", () => {
+  beforeEach(() => {
+    dbMock.results.length = 0;
+    dbMock.insertedValues.length = 0;
+    secretsConfigured.value = true;
+  });
+
+  it("requires a tenant scope", async () => {
+    await expect(
+      listModelProvidersForScope({ ...context, workspaceId: "" }),
+    ).rejects.toMatchObject({ statusCode: 400, code: "TENANT_SCOPE_REQUIRED" });
+  });
+
+  it("stores provider API keys encrypted and never returns them", async () => {
+    dbMock.results.push([
+      providerRow({ api_key_encrypted: "encrypted:sk-test" }),
+    ]);
+
+    const provider = await createModelProviderForScope({
+      context,
+      provider: {
+        name: "Gateway",
+        apiBaseUrl: "https://llm.example.com/v1",
+        apiKey: "sk-test",
+      },
+    });
+
+    expect(dbMock.insertedValues[0]).toMatchObject({
+      id: expect.stringMatching(/^custom::/),
+      organizationId: "org-1",
+      workspaceId: "ws-1",
+      api_key_encrypted: "encrypted:sk-test",
+    });
+    expect(provider).toMatchObject({
+      id: "custom::provider-1",
+      hasApiKey: true,
+    });
+    expect(JSON.stringify(provider)).not.toContain("sk-test");
+  });
+
+  it("refuses to store API keys without a secrets key", async () => {
+    secretsConfigured.value = false;
+
+    await expect(
+      createModelProviderForScope({
+        context,
+        provider: {
+          name: "Gateway",
+          apiBaseUrl: "https://llm.example.com/v1",
+          apiKey: "sk-test",
+        },
+      }),
+    ).rejects.toMatchObject({
+      statusCode: 503,
+      code: "SECRETS_KEY_NOT_CONFIGURED",
+    });
+    expect(dbMock.insertedValues).toEqual([]);
+  });
+
+  it("rejects models of unknown providers and of other workspaces", async () => {
+    const model = { displayName: "Model", apiName: "model-1" };
+
+    await expect(
+      createLanguageModelForScope({
+        context,
+        model: { ...model, providerId: "unknown" },
+      }),
+    ).rejects.toMatchObject({ statusCode: 400, code: "INVALID_PAYLOAD" });
+    // The provider lookup is scoped to the workspace and finds nothing.
+    dbMock.results.push([]);
+    await expect(
+      createLanguageModelForScope({
+        context,
+        model: { ...model, providerId: "custom::other-workspace" },
+      }),
+    ).rejects.toMatchObject({
+      statusCode: 404,
+      code: "MODEL_PROVIDER_NOT_FOUND",
+    });
+    expect(dbMock.insertedValues).toEqual([]);
+  });
+
+  it("reads and validates the workspace default model", async () => {
+    dbMock.results.push([
+      { selectedModelJson: { provider: "openai", name: "gpt-4.1" } },
+    ]);
+    await expect(getWorkspaceModelDefaultsForScope(context)).resolves.toEqual({
+      selectedModel: { provider: "openai", name: "gpt-4.1" },
+    });
+
+    dbMock.results.push([{ selectedModelJson: { provider: 1 } }]);
+    await expect(getWorkspaceModelDefaultsForScope(context)).resolves.toEqual({
+      selectedModel: null,
+    });
+
+    await expect(
+      setWorkspaceModelDefaultsForScope({
+        context,
+        defaults: { selectedModel: { provider: "unknown", name: "x" } },
+      }),
+    ).rejects.toMatchObject({ statusCode: 400, code: "INVALID_PAYLOAD" });
+    await expect(
+      setWorkspaceModelDefaultsForScope({
+        context,
+        defaults: { selectedModel: { provider: "openai", name: "gpt-4.1" } },
+      }),
+    ).resolves.toEqual({
+      selectedModel: { provider: "openai", name: "gpt-4.1" },
+    });
+    expect(dbMock.insertedValues).toEqual([
+      {
+        organizationId: "org-1",
+        workspaceId: "ws-1",
+        selectedModelJson: { provider: "openai", name: "gpt-4.1" },
+        updatedByUserId: "user-1",
+      },
+    ]);
+  });
+});
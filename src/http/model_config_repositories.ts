@@ -0,0 +1,415 @@
+import { randomUUID } from "node:crypto";
+import { and, asc, eq } from "drizzle-orm";
+import { db, initializeDatabase } from "/src/db/index.ts";
+import {
+  language_model_providers,
+  language_models,
+  workspaceModelSettings,
+} from "/src/db/schema.ts";
+import { HttpError } from "/src/http/http_errors.ts";
+import type { RequestContext } from "/src/http/request_context.ts";
+import {
+  CLOUD_PROVIDERS,
+  LOCAL_PROVIDERS,
+} from "/src/ipc/shared/language_model_constants.ts";
+import {
+  CUSTOM_PROVIDER_PREFIX,
+  isCustomProvider,
+} from "/src/ipc/shared/language_model_helpers.ts";
+import {
+  encryptSecret,
+  isSecretEncryptionConfigured,
+} from "/src/ipc/utils/secret_crypto.ts";
+
+export interface ModelProviderInput {
+  name: string;
+  apiBaseUrl: string;
+  trustSelfSigned?: boolean;
+  /** `null` clears the stored key, `undefined` keeps it. */
+  apiKey?: string | null;
+}
+
+export interface LanguageModelInput {
+  providerId: string;
+  displayName: string;
+  apiName: string;
+  description?: string | null;
+  maxOutputTokens?: number | null;
+  contextWindow?: number | null;
+  /** USD per million tokens; cached input falls back to the input price. */
+  inputPricePerMillionTokens?: number | null;
+  outputPricePerMillionTokens?: number | null;
+  cachedInputPricePerMillionTokens?: number | null;
+}
+
+export interface WorkspaceModelDefaults {
+  selectedModel: { provider: string; name: string } | null;
+}
+
+function toIsoDate(value: Date | null | undefined): string | null {
+  if (!value) {
+    return null;
+  }
+  return value.toISOString();
+}
+
+function assertTenantScope(
+  context: Pick<RequestContext, "orgId" | "workspaceId">,
+) {
+  if (!context.orgId || !context.workspaceId) {
+    throw new HttpError(
+      400,
+      "TENANT_SCOPE_REQUIRED",
+      "organizationId/workspaceId scope is required",
+    );
+  }
+}
+
+function encryptProviderApiKey(apiKey: string | null): string | null {
+  if (apiKey === null) {
+    return null;
+  }
+  if (!isSecretEncryptionConfigured()) {
+    throw new HttpError(
+      503,
+      "SECRETS_KEY_NOT_CONFIGURED",
+      "BLAZE_SECRETS_KEY must be configured to store provider API keys",
+    );
+  }
+  return encryptSecret(apiKey);
+}
+
+function isBuiltinProvider(providerId: string): boolean {
+  return providerId in CLOUD_PROVIDERS || providerId in LOCAL_PROVIDERS;
+}
+
+function mapProviderRow(row: typeof language_model_providers.$inferSelect) {
+  // The API key never leaves the server; callers only learn whether one is set.
+  return {
+    id: row.id,
+    name: row.name,
+    apiBaseUrl: row.api_base_url,
+    trustSelfSigned: Boolean(row.trust_self_signed),
+    hasApiKey: Boolean(row.api_key_encrypted),
+    createdByUserId: row.createdByUserId ?? null,
+    createdAt: toIsoDate(row.createdAt),
+    updatedAt: toIsoDate(row.updatedAt),
+  };
+}
+
+function mapModelRow(row: typeof language_models.$inferSelect) {
+  return {
+    id: Number(row.id),
+    providerId: row.customProviderId ?? row.builtinProviderId ?? "",
+    displayName: row.displayName,
+    apiName: row.apiName,
+    description: row.description ?? null,
+    maxOutputTokens: row.max_output_tokens ?? null,
+    contextWindow: row.context_window ?? null,
+    inputPricePerMillionTokens: row.inputPricePerMillionTokens ?? null,
+    outputPricePerMillionTokens: row.outputPricePerMillionTokens ?? null,
+    cachedInputPricePerMillionTokens:
+      row.cachedInputPricePerMillionTokens ?? null,
+    createdByUserId: row.createdByUserId ?? null,
+    createdAt: toIsoDate(row.createdAt),
+    updatedAt: toIsoDate(row.updatedAt),
+  };
+}
+
+function providerScopeCondition(context: RequestContext, providerId: string) {
+  return and(
+    eq(language_model_providers.id, providerId),
+    eq(language_model_providers.organizationId, context.orgId),
+    eq(language_model_providers.workspaceId, context.workspaceId),
+  );
+}
+
+async function getProviderRowForScope(
+  context: RequestContext,
+  providerId: string,
+) {
+  const [row] = await db
+    .select()
+    .from(language_model_providers)
+    .where(providerScopeCondition(context, providerId))
+    .limit(1);
+  if (!row) {
+    throw new HttpError(
+      404,
+      "MODEL_PROVIDER_NOT_FOUND",
+      `Model provider not found: ${providerId}`,
+    );
+  }
+  return row;
+}
+
+async function assertProviderAvailableForScope(
+  context: RequestContext,
+  providerId: string,
+) {
+  if (isCustomProvider({ providerId })) {
+    await getProviderRowForScope(context, providerId);
+    return;
+  }
+  if (!isBuiltinProvider(providerId)) {
+    throw new HttpError(
+      400,
+      "INVALID_PAYLOAD",
+      `Unknown model provider: ${providerId}`,
+    );
+  }
+}
+
+export async function listModelProvidersForScope(context: RequestContext) {
+  await initializeDatabase();
+  assertTenantScope(context);
+  const rows = await db
+    .select()
+    .from(language_model_providers)
+    .where(
+      and(
+        eq(language_model_providers.organizationId, context.orgId),
+        eq(language_model_providers.workspaceId, context.workspaceId),
+      ),
+    )
+    .orderBy(asc(language_model_providers.createdAt));
+  return rows.map(mapProviderRow);
+}
+
+export async function createModelProviderForScope(params: {
+  context: RequestContext;
+  provider: ModelProviderInput;
+}) {
+  await initializeDatabase();
+  assertTenantScope(params.context);
+  const apiKeyEncrypted = encryptProviderApiKey(params.provider.apiKey ?? null);
+  const [row] = await db
+    .insert(language_model_providers)
+    .values({
+      id: `${CUSTOM_PROVIDER_PREFIX}${randomUUID()}`,
+      organizationId: params.context.orgId,
+      workspaceId: params.context.workspaceId,
+      createdByUserId: params.context.userId,
+      name: params.provider.name,
+      api_base_url: params.provider.apiBaseUrl,
+      env_var_name: null,
+      api_key_encrypted: apiKeyEncrypted,
+      trust_self_signed: params.provider.trustSelfSigned ?? false,
+    })
+    .returning();
+  return mapProviderRow(row);
+}
+
+export async function updateModelProviderForScope(params: {
+  context: RequestContext;
+  providerId: string;
+  patch: Partial<ModelProviderInput>;
+}) {
+  await initializeDatabase();
+  assertTenantScope(params.context);
+  await getProviderRowForScope(params.context, params.providerId);
+
+  const [row] = await db
+    .update(language_model_providers)
+    .set({
+      name: params.patch.name,
+      api_base_url: params.patch.apiBaseUrl,
+      // Clears env names that rows created before they were rejected kept.
+      env_var_name: null,
+      trust_self_signed: params.patch.trustSelfSigned,
+      api_key_encrypted:
+        params.patch.apiKey === undefined
+          ? undefined
+          : encryptProviderApiKey(params.patch.apiKey),
+      updatedAt: new Date(),
+    })
+    .where(providerScopeCondition(params.context, params.providerId))
+    .returning();
+  return mapProviderRow(row);
+}
+
+export async function deleteModelProviderForScope(params: {
+  context: RequestContext;
+  providerId: string;
+}) {
+  await initializeDatabase();
+  assertTenantScope(params.context);
+  await getProviderRowForScope(params.context, params.providerId);
+  // Custom models cascade with their provider.
+  await db
+    .delete(language_model_providers)
+    .where(providerScopeCondition(params.context, params.providerId));
+}
+
+function modelScopeCondition(context: RequestContext, modelId: number) {
+  return and(
+    eq(language_models.id, modelId),
+    eq(language_models.organizationId, context.orgId),
+    eq(language_models.workspaceId, context.workspaceId),
+  );
+}
+
+async function getModelRowForScope(context: RequestContext, modelId: number) {
+  const [row] = await db
+    .select()
+    .from(language_models)
+    .where(modelScopeCondition(context, modelId))
+    .limit(1);
+  if (!row) {
+    throw new HttpError(
+      404,
+      "MODEL_NOT_FOUND",
+      `Language model not found: ${modelId}`,
+    );
+  }
+  return row;
+}
+
+export async function listLanguageModelsForScope(context: RequestContext) {
+  await initializeDatabase();
+  assertTenantScope(context);
+  const rows = await db
+    .select()
+    .from(language_models)
+    .where(
+      and(
+        eq(language_models.organizationId, context.orgId),
+        eq(language_models.workspaceId, context.workspaceId),
+      ),
+    )
+    .orderBy(asc(language_models.id));
+  return rows.map(mapModelRow);
+}
+
+export async function createLanguageModelForScope(params: {
+  context: RequestContext;
+  model: LanguageModelInput;
+}) {
+  await initializeDatabase();
+  assertTenantScope(params.context);
+  const { providerId } = params.model;
+  await assertProviderAvailableForScope(params.context, providerId);
+
+  const custom = isCustomProvider({ providerId });
+  const [row] = await db
+    .insert(language_models)
+    .values({
+      organizationId: params.context.orgId,
+      workspaceId: params.context.workspaceId,
+      createdByUserId: params.context.userId,
+      displayName: params.model.displayName,
+      apiName: params.model.apiName,
+      builtinProviderId: custom ? null : providerId,
+      customProviderId: custom ? providerId : null,
+      description: params.model.description ?? null,
+      max_output_tokens: params.model.maxOutputTokens ?? null,
+      context_window: params.model.contextWindow ?? null,
+      inputPricePerMillionTokens:
+        params.model.inputPricePerMillionTokens ?? null,
+      outputPricePerMillionTokens:
+        params.model.outputPricePerMillionTokens ?? null,
+      cachedInputPricePerMillionTokens:
+        params.model.cachedInputPricePerMillionTokens ?? null,
+    })
+    .returning();
+  return mapModelRow(row);
+}
+
+export async function updateLanguageModelForScope(params: {
+  context: RequestContext;
+  modelId: number;
+  patch: Partial<Omit<LanguageModelInput, "providerId">>;
+}) {
+  await initializeDatabase();
+  assertTenantScope(params.context);
+  await getModelRowForScope(params.context, params.modelId);
+
+  const [row] = await db
+    .update(language_models)
+    .set({
+      displayName: params.patch.displayName,
+      apiName: params.patch.apiName,
+      description: params.patch.description,
+      max_output_tokens: params.patch.maxOutputTokens,
+      context_window: params.patch.contextWindow,
+      inputPricePerMillionTokens: params.patch.inputPricePerMillionTokens,
+      outputPricePerMillionTokens: params.patch.outputPricePerMillionTokens,
+      cachedInputPricePerMillionTokens:
+        params.patch.cachedInputPricePerMillionTokens,
+      updatedAt: new Date(),
+    })
+    .where(modelScopeCondition(params.context, params.modelId))
+    .returning();
+  return mapModelRow(row);
+}
+
+export async function deleteLanguageModelForScope(params: {
+  context: RequestContext;
+  modelId: number;
+}) {
+  await initializeDatabase();
+  assertTenantScope(params.context);
+  await getModelRowForScope(params.context, params.modelId);
+  await db
+    .delete(language_models)
+    .where(modelScopeCondition(params.context, params.modelId));
+}
+
+function parseSelectedModel(
+  value: Record<string, unknown> | null | undefined,
+): WorkspaceModelDefaults["selectedModel"] {
+  if (
+    value &&
+    typeof value.provider === "string" &&
+    typeof value.name === "string"
+  ) {
+    return { provider: value.provider, name: value.name };
+  }
+  return null;
+}
+
+export async function getWorkspaceModelDefaultsForScope(
+  context: RequestContext,
+): Promise<WorkspaceModelDefaults> {
+  await initializeDatabase();
+  assertTenantScope(context);
+  const [row] = await db
+    .select({ selectedModelJson: workspaceModelSettings.selectedModelJson })
+    .from(workspaceModelSettings)
+    .where(eq(workspaceModelSettings.workspaceId, context.workspaceId))
+    .limit(1);
+  return { selectedModel: parseSelectedModel(row?.selectedModelJson) };
+}
+
+export async function setWorkspaceModelDefaultsForScope(params: {
+  context: RequestContext;
+  defaults: WorkspaceModelDefaults;
+}): Promise<WorkspaceModelDefaults> {
+  await initializeDatabase();
+  assertTenantScope(params.context);
+  const { selectedModel } = params.defaults;
+  if (selectedModel) {
+    await assertProviderAvailableForScope(
+      params.context,
+      selectedModel.provider,
+    );
+  }
+
+  await db
+    .insert(workspaceModelSettings)
+    .values({
+      organizationId: params.context.orgId,
+      workspaceId: params.context.workspaceId,
+      selectedModelJson: selectedModel,
+      updatedByUserId: params.context.userId,
+    })
+    .onConflictDoUpdate({
+      target: workspaceModelSettings.workspaceId,
+      set: {
+        selectedModelJson: selectedModel,
+        updatedByUserId: params.context.userId,
+        updatedAt: new Date(),
+      },
+    });
+  return { selectedModel };
+}
@@ -0,0 +1,133 @@
+import { getEnvVar } from "/src/ipc/utils/read_env.ts";
+
+const GOOGLE_AUTHORIZATION_URL = "https://accounts.google.com/o/oauth2/v2/auth";
+const GOOGLE_ISSUER = "https://accounts.google.com";
+const GOOGLE_JWKS_URL = "https://www.googleapis.com/oauth2/v3/certs";
+
+export interface OAuth2ResolvedConfig {
+  enabled: boolean;
+  providerName: string;
+  authorizationUrl: string | null;
+  tokenUrl: string | null;
+  clientId: string | null;
+  clientSecret: string | null;
+  scope: string;
+  redirectUri: string | null;
+  extraAuthParams: Record<string, string>;
+  extraTokenParams: Record<string, string>;
+  /** Expected `iss` of ID tokens issued by the provider. */
+  issuer: string | null;
+  /** Explicit JWKS endpoint; when null it is discovered from the issuer. */
+  jwksUrl: string | null;
+}
+
+function readRuntimeEnv(name: string): string | undefined {
+  return process.env[name] ?? getEnvVar(name);
+}
+
+function readBooleanEnv(name: string, defaultValue: boolean): boolean {
+  const raw = readRuntimeEnv(name);
+  if (!raw) {
+    return defaultValue;
+  }
+
+  const normalized = raw.trim().toLowerCase();
+  if (["1", "true", "yes", "on"].includes(normalized)) {
+    return true;
+  }
+  if (["0", "false", "no", "off"].includes(normalized)) {
+    return false;
+  }
+  return defaultValue;
+}
+
+function parseOAuthExtraParams(
+  value: string | undefined,
+): Record<string, string> {
+  if (!value) {
+    return {};
+  }
+
+  const source = value.trim();
+  if (!source) {
+    return {};
+  }
+
+  const searchParams = new URLSearchParams(
+    source.startsWith("?") ? source.slice(1) : source,
+  );
+  const result: Record<string, string> = {};
+
+  for (const [key, rawValue] of searchParams.entries()) {
+    const trimmedKey = key.trim();
+    if (!trimmedKey) {
+      continue;
+    }
+    result[trimmedKey] = rawValue;
+  }
+
+  return result;
+}
+
+function toNullableTrimmed(value: string | undefined): string | null {
+  const trimmed = value?.trim();
+  return trimmed ? trimmed : null;
+}
+
+export function resolveOAuth2Config(): OAuth2ResolvedConfig {
+  const clientId = toNullableTrimmed(readRuntimeEnv("AUTH_OAUTH2_CLIENT_ID"));
+  const clientSecret = toNullableTrimmed(
+    readRuntimeEnv("AUTH_OAUTH2_CLIENT_SECRET"),
+  );
+  const authorizationUrl =
+    toNullableTrimmed(readRuntimeEnv("AUTH_OAUTH2_AUTHORIZATION_URL")) ??
+    GOOGLE_AUTHORIZATION_URL;
+  const tokenUrl =
+    toNullableTrimmed(readRuntimeEnv("AUTH_OAUTH2_TOKEN_URL")) ??
+    "https://oauth2.googleapis.com/token";
+  const redirectUri = toNullableTrimmed(
+    readRuntimeEnv("AUTH_OAUTH2_REDIRECT_URI"),
+  );
+  const providerName =
+    toNullableTrimmed(readRuntimeEnv("AUTH_OAUTH2_PROVIDER_NAME")) ?? "Google";
+  const scope =
+    toNullableTrimmed(readRuntimeEnv("AUTH_OAUTH2_SCOPE")) ??
+    "openid profile email";
+  const extraAuthParams = parseOAuthExtraParams(
+    readRuntimeEnv("AUTH_OAUTH2_AUTH_EXTRA_PARAMS"),
+  );
+  const extraTokenParams = parseOAuthExtraParams(
+    readRuntimeEnv("AUTH_OAUTH2_TOKEN_EXTRA_PARAMS"),
+  );
+  // Google is the default provider, so its issuer and keys are the defaults
+  // too; any other provider has to configure them explicitly.
+  const isGoogleProvider = authorizationUrl === GOOGLE_AUTHORIZATION_URL;
+  const issuer =
+    toNullableTrimmed(readRuntimeEnv("AUTH_OAUTH2_ISSUER")) ??
+    (isGoogleProvider ? GOOGLE_ISSUER : null);
+  const jwksUrl =
+    toNullableTrimmed(readRuntimeEnv("AUTH_OAUTH2_JWKS_URL")) ??
+    (isGoogleProvider ? GOOGLE_JWKS_URL : null);
+
+  const enabledFromEnv = readBooleanEnv("AUTH_OAUTH2_ENABLED", true);
+  const enabled =
+    enabledFromEnv &&
+    Boolean(clientId) &&
+    Boolean(authorizationUrl) &&
+    Boolean(tokenUrl);
+
+  return {
+    enabled,
+    providerName,
+    authorizationUrl,
+    tokenUrl,
+    clientId,
+    clientSecret,
+    scope,
+    redirectUri,
+    extraAuthParams,
+    extraTokenParams,
+    issuer,
+    jwksUrl,
+  };
+}
@@ -0,0 +1,18 @@
+/**
+ * Proxy URLs of the running previews, keyed by app id. The gateway starts and
+ * stops the proxy workers; other server code (screenshots, agent tools) only
+ * reads the URLs.
+ */
+const previewProxyUrls = new Map<number, string>();
+
+export function getPreviewProxyUrl(appId: number): string | undefined {
+  return previewProxyUrls.get(appId);
+}
+
+export function setPreviewProxyUrl(appId: number, proxyUrl: string): void {
+  previewProxyUrls.set(appId, proxyUrl);
+}
+
+export function deletePreviewProxyUrl(appId: number): void {
+  previewProxyUrls.delete(appId);
+}
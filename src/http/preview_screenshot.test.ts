@@ -0,0 +1,121 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { capturePreviewScreenshot } from "./preview_screenshot";
+
+const { browserMock } = vi.hoisted(() => {
+  type RouteHandler = (route: unknown) => Promise<void>;
+  const state = {
+    routeHandler: null as RouteHandler | null,
+    finalUrl: null as string | null,
+    gotoGate: null as Promise<void> | null,
+    openBrowsers: 0,
+    maxOpenBrowsers: 0,
+  };
+  const launch = vi.fn(async () => {
+    state.openBrowsers++;
+    state.maxOpenBrowsers = Math.max(state.maxOpenBrowsers, state.openBrowsers);
+    return {
+      newPage: async () => {
+        let currentUrl = "";
+        return {
+          route: async (_pattern: string, handler: RouteHandler) => {
+            state.routeHandler = handler;
+          },
+          routeWebSocket: async () => {},
+          goto: async (url: string) => {
+            currentUrl = state.finalUrl ?? url;
+            await state.gotoGate;
+          },
+          url: () => currentUrl,
+          screenshot: async () => Buffer.from("png"),
+        };
+      },
+      close: async () => {
+        state.openBrowsers--;
+      },
+    };
+  });
+  return { browserMock: { state, launch } };
+});
+
+vi.mock("playwright-core", () => ({
+  chromium: { launch: browserMock.launch },
+}));
+
+const viewport = { width: 1440, height: 900 };
+
+function createRoute(url: string) {
+  return {
+    request: () => ({ url: () => url }),
+    abort: vi.fn(async () => {}),
+    fetch: vi.fn(async () => ({ status: () => 302 })),
+    fulfill: vi.fn(async () => {}),
+  };
+}
+
+describe("capturePreviewScreenshot", () => {
+  beforeEach(() => {
+    Object.assign(browserMock.state, {
+      routeHandler: null,
+      finalUrl: null,
+      gotoGate: null,
+      openBrowsers: 0,
+      maxOpenBrowsers: 0,
+    });
+    browserMock.launch.mockClear();
+  });
+
+  it("aborts every request outside the preview origin", async () => {
+    await capturePreviewScreenshot({
+      appId: 1,
+      previewUrl: "http://127.0.0.1:41000",
+      viewport,
+    });
+    const handler = browserMock.state.routeHandler!;
+
+    const foreign = createRoute("http://169.254.169.254/latest/meta-data");
+    await handler(foreign);
+    expect(foreign.abort).toHaveBeenCalledWith("blockedbyclient");
+    expect(foreign.fetch).not.toHaveBeenCalled();
+
+    const sameOrigin = createRoute("http://127.0.0.1:41000/assets/app.js");
+    await handler(sameOrigin);
+    expect(sameOrigin.abort).not.toHaveBeenCalled();
+    // Redirects go back to the browser so their target is checked too.
+    expect(sameOrigin.fetch).toHaveBeenCalledWith({ maxRedirects: 0 });
+    expect(sameOrigin.fulfill).toHaveBeenCalled();
+  });
+
+  it("fails when the page navigates away from the preview origin", async () => {
+    browserMock.state.finalUrl = "http://internal.test/";
+
+    await expect(
+      capturePreviewScreenshot({
+        appId: 1,
+        previewUrl: "http://127.0.0.1:41000",
+        viewport,
+      }),
+    ).rejects.toMatchObject({ statusCode: 400, code: "INVALID_PREVIEW_ROUTE" });
+    expect(browserMock.state.openBrowsers).toBe(0);
+  });
+
+  it("serializes captures per app and bounds browsers across apps", async () => {
+    let openGate: () => void = () => {};
+    browserMock.state.gotoGate = new Promise((resolve) => {
+      openGate = resolve;
+    });
+
+    const captures = [1, 1, 2, 3].map((appId) =>
+      capturePreviewScreenshot({
+        appId,
+        previewUrl: `http://127.0.0.1:4100${appId}`,
+        viewport,
+      }),
+    );
+    await vi.waitFor(() => expect(browserMock.launch).toHaveBeenCalledTimes(2));
+    openGate();
+    await Promise.all(captures);
+
+    expect(browserMock.launch).toHaveBeenCalledTimes(4);
+    expect(browserMock.state.maxOpenBrowsers).toBe(2);
+  });
+});
@@ -0,0 +1,178 @@
+import { HttpError } from "/src/http/http_errors.ts";
+import { withLock } from "/src/ipc/utils/lock_utils.ts";
+
+export interface PreviewViewport {
+  width: number;
+  height: number;
+}
+
+export const PREVIEW_SCREENSHOT_DEVICES = {
+  mobile: { width: 390, height: 844 },
+  tablet: { width: 820, height: 1180 },
+  desktop: { width: 1440, height: 900 },
+} as const satisfies Record<string, PreviewViewport>;
+
+export type PreviewScreenshotDevice = keyof typeof PREVIEW_SCREENSHOT_DEVICES;
+
+export const PREVIEW_SCREENSHOT_MIN_SIZE = 240;
+export const PREVIEW_SCREENSHOT_MAX_SIZE = 3840;
+
+const NAVIGATION_TIMEOUT_MS = 30_000;
+const SCREENSHOT_TIMEOUT_MS = 15_000;
+/** Browsers that may run at once across all apps. */
+const MAX_CONCURRENT_CAPTURES = 2;
+
+let playwright: Promise<typeof import("playwright-core")> | undefined;
+
+/** Loaded on first capture so the server starts without Playwright. */
+function loadPlaywright() {
+  playwright ??= import("playwright-core");
+  return playwright;
+}
+
+let activeCaptures = 0;
+const captureQueue: (() => void)[] = [];
+
+async function withCaptureSlot<T>(fn: () => Promise<T>): Promise<T> {
+  if (activeCaptures >= MAX_CONCURRENT_CAPTURES) {
+    // The releasing capture hands its slot over without decrementing.
+    await new Promise<void>((resolve) => captureQueue.push(resolve));
+  } else {
+    activeCaptures++;
+  }
+  try {
+    return await fn();
+  } finally {
+    const next = captureQueue.shift();
+    if (next) {
+      next();
+    } else {
+      activeCaptures--;
+    }
+  }
+}
+
+function isSameOrigin(url: string, origin: string): boolean {
+  try {
+    return new URL(url).origin === origin;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Resolves a preview route against the preview URL. Only same-origin paths
+ * are allowed so the headless browser cannot be pointed at other hosts.
+ */
+export function resolvePreviewScreenshotUrl(
+  previewUrl: string,
+  route: string,
+): string {
+  const base = new URL(previewUrl);
+  const target = route.startsWith("/") ? new URL(route, base) : null;
+  if (!target || target.origin !== base.origin) {
+    throw new HttpError(
+      400,
+      "INVALID_PREVIEW_ROUTE",
+      `Preview route must be a path starting with "/": ${route}`,
+    );
+  }
+  return target.toString();
+}
+
+/**
+ * Renders a preview route in headless Chromium and returns a PNG. Captures of
+ * one app run one at a time and at most {@link MAX_CONCURRENT_CAPTURES}
+ * browsers run overall. Every request of the page, including redirects and
+ * web sockets, is aborted unless it targets the preview origin, so app code
+ * cannot make the browser render other hosts.
+ */
+export async function capturePreviewScreenshot(params: {
+  appId: number;
+  previewUrl: string;
+  route?: string;
+  viewport: PreviewViewport;
+  fullPage?: boolean;
+}): Promise<Buffer> {
+  const targetUrl = resolvePreviewScreenshotUrl(
+    params.previewUrl,
+    params.route ?? "/",
+  );
+
+  const previewOrigin = new URL(params.previewUrl).origin;
+
+  return withLock(`preview-screenshot:${params.appId}`, () =>
+    withCaptureSlot(async () => {
+      const { chromium } = await loadPlaywright();
+      let browser: Awaited<ReturnType<typeof chromium.launch>>;
+      try {
+        browser = await chromium.launch({
+          headless: true,
+          executablePath:
+            process.env.BLAZE_SCREENSHOT_CHROMIUM_PATH || undefined,
+        });
+      } catch (error) {
+        throw new HttpError(
+          503,
+          "PREVIEW_SCREENSHOT_UNAVAILABLE",
+          `Headless browser is not available: ${
+            error instanceof Error
+              ? error.message.split("\n")[0]
+              : String(error)
+          }`,
+        );
+      }
+
+      try {
+        const page = await browser.newPage({
+          viewport: params.viewport,
+          isMobile:
+            params.viewport.width < PREVIEW_SCREENSHOT_DEVICES.tablet.width,
+          // Service worker requests bypass page.route.
+          serviceWorkers: "block",
+        });
+        await page.route("**/*", async (route) => {
+          if (!isSameOrigin(route.request().url(), previewOrigin)) {
+            await route.abort("blockedbyclient");
+            return;
+          }
+          // Redirects are returned to the browser, which routes the followed
+          // request through this handler again.
+          const response = await route.fetch({ maxRedirects: 0 });
+          await route.fulfill({ response });
+        });
+        await page.routeWebSocket(
+          (url) => !isSameOrigin(url.toString(), previewOrigin),
+          (ws) => ws.close(),
+        );
+        await page.goto(targetUrl, {
+          waitUntil: "networkidle",
+          timeout: NAVIGATION_TIMEOUT_MS,
+        });
+        if (!isSameOrigin(page.url(), previewOrigin)) {
+          throw new HttpError(
+            400,
+            "INVALID_PREVIEW_ROUTE",
+            `Preview navigated away from ${previewOrigin}`,
+          );
+        }
+        return await page.screenshot({
+          type: "png",
+          fullPage: params.fullPage ?? false,
+          timeout: SCREENSHOT_TIMEOUT_MS,
+        });
+      } catch (error) {
+        if (error instanceof Error && error.name === "TimeoutError") {
+          throw new HttpError(
+            504,
+            "PREVIEW_SCREENSHOT_TIMEOUT",
+            `Timed out rendering ${targetUrl}`,
+          );
+        }
+        throw error;
+      } finally {
+        await browser.close();
+      }
+    }),
+  );
+}
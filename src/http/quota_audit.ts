@@ -1,6 +1,7 @@
-import { and, eq, gte, sql } from "drizzle-orm";
+import { and, eq, gte, inArray, isNull, lt, or, sql } from "drizzle-orm";
 import { db, initializeDatabase } from "/src/db/index.ts";
 import {
+  apps,
   auditEvents,
   organizationQuotas,
   usageEvents,
@@ -8,30 +9,52 @@ import {
 } from "/src/db/schema.ts";
 import { HttpError } from "/src/http/http_errors.ts";
 import type { RequestContext } from "/src/http/request_context.ts";
+import { runningApps } from "/src/ipc/utils/process_manager.ts";
 
+/**
+ * `concurrent_preview_jobs` events record one preview start each; its hard
+ * limit caps the previews running at once, see {@link countRunningPreviewJobs}.
+ */
 export type UsageMetric = "requests" | "tokens" | "concurrent_preview_jobs";
 
-const HARD_LIMIT_FLOOR_BY_METRIC: Record<UsageMetric, number> = {
-  requests: 1_000_000_000,
-  tokens: 1_000_000_000,
-  concurrent_preview_jobs: 1_000_000_000,
-};
+export type BudgetStatus = "none" | "ok" | "warning" | "exhausted";
+
+export interface BudgetDowngradeModel {
+  provider: string;
+  name: string;
+}
+
+export interface UsageEnforcementResult {
+  /** Set when the monthly budget is exhausted and the org downgrades. */
+  downgradeModel: BudgetDowngradeModel | null;
+}
 
-function getUtcDayStart(date = new Date()): Date {
+export function getUtcDayStart(date = new Date()): Date {
   return new Date(
     Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()),
   );
 }
 
-async function ensureOrganizationQuota(orgId: string) {
+export function getUtcMonthStart(date = new Date()): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+}
+
+const organizationQuotaColumns = {
+  organizationId: organizationQuotas.organizationId,
+  requestsPerDayHardLimit: organizationQuotas.requestsPerDayHardLimit,
+  tokensPerDayHardLimit: organizationQuotas.tokensPerDayHardLimit,
+  concurrentPreviewJobsHardLimit:
+    organizationQuotas.concurrentPreviewJobsHardLimit,
+  monthlyBudgetMicroUsd: organizationQuotas.monthlyBudgetMicroUsd,
+  budgetWarningThresholdPercent:
+    organizationQuotas.budgetWarningThresholdPercent,
+  budgetExhaustedAction: organizationQuotas.budgetExhaustedAction,
+  budgetDowngradeModel: organizationQuotas.budgetDowngradeModel,
+};
+
+export async function ensureOrganizationQuota(orgId: string) {
   const [row] = await db
-    .select({
-      organizationId: organizationQuotas.organizationId,
-      requestsPerDayHardLimit: organizationQuotas.requestsPerDayHardLimit,
-      tokensPerDayHardLimit: organizationQuotas.tokensPerDayHardLimit,
-      concurrentPreviewJobsHardLimit:
-        organizationQuotas.concurrentPreviewJobsHardLimit,
-    })
+    .select(organizationQuotaColumns)
     .from(organizationQuotas)
     .where(eq(organizationQuotas.organizationId, orgId))
     .limit(1);
@@ -45,17 +68,107 @@ async function ensureOrganizationQuota(orgId: string) {
     .values({
       organizationId: orgId,
     })
-    .returning({
-      organizationId: organizationQuotas.organizationId,
-      requestsPerDayHardLimit: organizationQuotas.requestsPerDayHardLimit,
-      tokensPerDayHardLimit: organizationQuotas.tokensPerDayHardLimit,
-      concurrentPreviewJobsHardLimit:
-        organizationQuotas.concurrentPreviewJobsHardLimit,
-    });
+    .returning(organizationQuotaColumns);
 
   return created;
 }
 
+export function resolveBudgetStatus(params: {
+  monthlyBudgetMicroUsd: number | null;
+  budgetWarningThresholdPercent: number;
+  spentMicroUsd: number;
+}): BudgetStatus {
+  if (params.monthlyBudgetMicroUsd === null) {
+    return "none";
+  }
+  if (params.spentMicroUsd >= params.monthlyBudgetMicroUsd) {
+    return "exhausted";
+  }
+  if (
+    params.spentMicroUsd * 100 >=
+    params.monthlyBudgetMicroUsd * params.budgetWarningThresholdPercent
+  ) {
+    return "warning";
+  }
+  return "ok";
+}
+
+export async function getMonthToDateCostMicroUsd(
+  orgId: string,
+): Promise<number> {
+  const rows = await db
+    .select({
+      total: sql<number>`COALESCE(SUM(${usageEvents.costMicroUsd}), 0)`,
+    })
+    .from(usageEvents)
+    .where(
+      and(
+        eq(usageEvents.organizationId, orgId),
+        gte(usageEvents.createdAt, getUtcMonthStart()),
+      ),
+    );
+  return Number(rows[0]?.total ?? 0);
+}
+
+/**
+ * Records the first threshold crossing of the month as an audit event. The
+ * conditional update makes concurrent streams report it only once.
+ */
+async function notifyBudgetWarningOnce(params: {
+  context: RequestContext;
+  quota: Awaited<ReturnType<typeof ensureOrganizationQuota>>;
+  spentMicroUsd: number;
+  status: BudgetStatus;
+}) {
+  const monthStart = getUtcMonthStart();
+  const updated = await db
+    .update(organizationQuotas)
+    .set({ budgetWarningSentAt: new Date() })
+    .where(
+      and(
+        eq(organizationQuotas.organizationId, params.context.orgId),
+        or(
+          isNull(organizationQuotas.budgetWarningSentAt),
+          lt(organizationQuotas.budgetWarningSentAt, monthStart),
+        ),
+      ),
+    )
+    .returning({ organizationId: organizationQuotas.organizationId });
+  if (updated.length === 0) {
+    return;
+  }
+  await writeAuditEvent({
+    context: params.context,
+    action: "organization_budget_warning",
+    resourceType: "organization_quota",
+    resourceId: params.context.orgId,
+    metadata: {
+      status: params.status,
+      spentMicroUsd: params.spentMicroUsd,
+      monthlyBudgetMicroUsd: params.quota.monthlyBudgetMicroUsd,
+      budgetWarningThresholdPercent: params.quota.budgetWarningThresholdPercent,
+    },
+  });
+}
+
+/** Previews of the organization this server runs right now. */
+export async function countRunningPreviewJobs(
+  orgId: string,
+  options?: { excludeAppId?: number },
+): Promise<number> {
+  const appIds = [...runningApps.keys()].filter(
+    (appId) => appId !== options?.excludeAppId,
+  );
+  if (appIds.length === 0) {
+    return 0;
+  }
+  const rows = await db
+    .select({ total: sql<number>`COUNT(*)` })
+    .from(apps)
+    .where(and(eq(apps.organizationId, orgId), inArray(apps.id, appIds)));
+  return Number(rows[0]?.total ?? 0);
+}
+
 async function getTodayUsageTotal(params: {
   orgId: string;
   metricType: UsageMetric;
@@ -80,29 +193,65 @@ export async function enforceAndRecordUsage(params: {
   context: RequestContext;
   metricType: UsageMetric;
   value: number;
-}) {
+  /** Model that produced the usage, recorded for per-model reports. */
+  model?: string | null;
+  /** Cost of the usage, counted against the monthly budget. */
+  costMicroUsd?: number | null;
+  /**
+   * Previews of the organization running besides the one being started;
+   * `concurrent_preview_jobs` is checked against it instead of a daily total.
+   */
+  runningPreviewJobs?: number;
+  /**
+   * Rejects (or downgrades) the usage when the monthly budget is exhausted.
+   * Set when a new chat turn starts; usage that already happened is always
+   * recorded.
+   */
+  enforceBudget?: boolean;
+}): Promise<UsageEnforcementResult> {
   await initializeDatabase();
 
   if (params.value <= 0) {
-    return;
+    return { downgradeModel: null };
   }
 
   const quota = await ensureOrganizationQuota(params.context.orgId);
-  const currentValue = await getTodayUsageTotal({
-    orgId: params.context.orgId,
-    metricType: params.metricType,
-  });
+  let downgradeModel: BudgetDowngradeModel | null = null;
+  if (params.enforceBudget && quota.monthlyBudgetMicroUsd !== null) {
+    const status = resolveBudgetStatus({
+      ...quota,
+      spentMicroUsd: await getMonthToDateCostMicroUsd(params.context.orgId),
+    });
+    if (status === "exhausted") {
+      if (
+        quota.budgetExhaustedAction === "downgrade" &&
+        quota.budgetDowngradeModel
+      ) {
+        downgradeModel = quota.budgetDowngradeModel;
+      } else {
+        throw new HttpError(
+          402,
+          "BUDGET_EXHAUSTED",
+          "Organization monthly budget exhausted",
+        );
+      }
+    }
+  }
+
+  const currentValue =
+    params.metricType === "concurrent_preview_jobs"
+      ? (params.runningPreviewJobs ?? 0)
+      : await getTodayUsageTotal({
+          orgId: params.context.orgId,
+          metricType: params.metricType,
+        });
 
-  const storedHardLimit =
+  const hardLimit =
     params.metricType === "requests"
       ? quota.requestsPerDayHardLimit
       : params.metricType === "tokens"
         ? quota.tokensPerDayHardLimit
         : quota.concurrentPreviewJobsHardLimit;
-  const hardLimit = Math.max(
-    storedHardLimit,
-    HARD_LIMIT_FLOOR_BY_METRIC[params.metricType],
-  );
 
   if (currentValue + params.value > hardLimit) {
     throw new HttpError(
@@ -118,7 +267,26 @@ export async function enforceAndRecordUsage(params: {
     userId: params.context.userId,
     metricType: params.metricType,
     value: params.value,
+    model: params.model ?? null,
+    costMicroUsd: params.costMicroUsd ?? null,
   });
+
+  if (params.costMicroUsd && quota.monthlyBudgetMicroUsd !== null) {
+    const spentMicroUsd = await getMonthToDateCostMicroUsd(
+      params.context.orgId,
+    );
+    const status = resolveBudgetStatus({ ...quota, spentMicroUsd });
+    if (status === "warning" || status === "exhausted") {
+      await notifyBudgetWarningOnce({
+        context: params.context,
+        quota,
+        spentMicroUsd,
+        status,
+      });
+    }
+  }
+
+  return { downgradeModel };
 }
 
 export async function isUserSoftQuotaExceeded(params: {
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import {
+  assertCanManageQuotas,
+  resolveUsageReportRange,
+} from "./quota_repositories";
+import { getUtcMonthStart, resolveBudgetStatus } from "./quota_audit";
+
+describe("quota guards", () => {
+  it("allows only owner/admin to manage quotas", () => {
+    expect(() =>
+      assertCanManageQuotas({ organizationRole: "owner" }),
+    ).not.toThrow();
+    expect(() =>
+      assertCanManageQuotas({ organizationRole: "admin" }),
+    ).not.toThrow();
+    expect(() => assertCanManageQuotas({ organizationRole: "member" })).toThrow(
+      "Only owner/admin can manage quotas",
+    );
+  });
+});
+
+describe("resolveUsageReportRange", () => {
+  it("defaults to the last 30 UTC days", () => {
+    const to = new Date("2026-03-31T15:30:00.000Z");
+
+    expect(resolveUsageReportRange({ to })).toEqual({
+      from: new Date("2026-03-02T00:00:00.000Z"),
+      to,
+    });
+  });
+
+  it("rejects empty and oversized ranges", () => {
+    const to = new Date("2026-03-31T00:00:00.000Z");
+
+    expect(() => resolveUsageReportRange({ from: to, to })).toThrow(
+      '"from" must be earlier than "to"',
+    );
+    expect(() =>
+      resolveUsageReportRange({
+        from: new Date("2025-01-01T00:00:00.000Z"),
+        to,
+      }),
+    ).toThrow("must not exceed 366 days");
+  });
+});
+
+describe("monthly budgets", () => {
+  it("starts the budget period at the UTC calendar month", () => {
+    expect(getUtcMonthStart(new Date("2026-03-31T23:59:59.000Z"))).toEqual(
+      new Date("2026-03-01T00:00:00.000Z"),
+    );
+  });
+
+  it("resolves budget status from the warning threshold", () => {
+    const quota = {
+      monthlyBudgetMicroUsd: 100_000_000,
+      budgetWarningThresholdPercent: 80,
+    };
+
+    expect(
+      resolveBudgetStatus({
+        ...quota,
+        monthlyBudgetMicroUsd: null,
+        spentMicroUsd: 5,
+      }),
+    ).toBe("none");
+    expect(resolveBudgetStatus({ ...quota, spentMicroUsd: 79_999_999 })).toBe(
+      "ok",
+    );
+    expect(resolveBudgetStatus({ ...quota, spentMicroUsd: 80_000_000 })).toBe(
+      "warning",
+    );
+    expect(resolveBudgetStatus({ ...quota, spentMicroUsd: 100_000_000 })).toBe(
+      "exhausted",
+    );
+  });
+});
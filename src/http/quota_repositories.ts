@@ -0,0 +1,434 @@
+import { and, asc, desc, eq, gte, lt, sql } from "drizzle-orm";
+import { db, initializeDatabase } from "/src/db/index.ts";
+import {
+  organizationMemberships,
+  organizationQuotas,
+  usageEvents,
+  userSoftQuotas,
+  users,
+  workspaces,
+} from "/src/db/schema.ts";
+import { HttpError } from "/src/http/http_errors.ts";
+import {
+  countRunningPreviewJobs,
+  ensureOrganizationQuota,
+  getMonthToDateCostMicroUsd,
+  getUtcDayStart,
+  getUtcMonthStart,
+  resolveBudgetStatus,
+  type BudgetDowngradeModel,
+  type UsageMetric,
+} from "/src/http/quota_audit.ts";
+import type { RequestContext } from "/src/http/request_context.ts";
+
+const DEFAULT_USAGE_REPORT_DAYS = 30;
+export const USAGE_REPORT_MAX_DAYS = 366;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface UsageTotals {
+  requests: number;
+  tokens: number;
+  /** Preview starts; running previews are reported by the quota itself. */
+  previewStarts: number;
+  costMicroUsd: number;
+}
+
+export interface OrganizationQuotaLimits {
+  requestsPerDayHardLimit: number;
+  tokensPerDayHardLimit: number;
+  concurrentPreviewJobsHardLimit: number;
+}
+
+export interface OrganizationBudgetSettings {
+  /** Null disables the monthly budget. */
+  monthlyBudgetMicroUsd: number | null;
+  budgetWarningThresholdPercent: number;
+  budgetExhaustedAction: "block" | "downgrade";
+  budgetDowngradeModel: BudgetDowngradeModel | null;
+}
+
+export interface UserSoftQuotaLimits {
+  requestsPerDaySoftLimit: number;
+  tokensPerDaySoftLimit: number;
+}
+
+function toIsoDate(value: Date | null | undefined): string | null {
+  if (!value) {
+    return null;
+  }
+  return value.toISOString();
+}
+
+export function assertCanManageQuotas(
+  context: Pick<RequestContext, "organizationRole">,
+) {
+  if (!["owner", "admin"].includes(context.organizationRole)) {
+    throw new HttpError(403, "FORBIDDEN", "Only owner/admin can manage quotas");
+  }
+}
+
+function sumMetric(metric: UsageMetric) {
+  return sql<number>`COALESCE(SUM(${usageEvents.value}) FILTER (WHERE ${usageEvents.metricType} = ${metric}), 0)`.mapWith(
+    Number,
+  );
+}
+
+const usageTotalColumns = {
+  requests: sumMetric("requests"),
+  tokens: sumMetric("tokens"),
+  previewStarts: sumMetric("concurrent_preview_jobs"),
+  costMicroUsd:
+    sql<number>`COALESCE(SUM(${usageEvents.costMicroUsd}), 0)`.mapWith(Number),
+};
+
+const EMPTY_USAGE_TOTALS: UsageTotals = {
+  requests: 0,
+  tokens: 0,
+  previewStarts: 0,
+  costMicroUsd: 0,
+};
+
+function pickUsageTotals(row: UsageTotals): UsageTotals {
+  return {
+    requests: row.requests,
+    tokens: row.tokens,
+    previewStarts: row.previewStarts,
+    costMicroUsd: row.costMicroUsd,
+  };
+}
+
+function pickBudgetSettings(
+  quota: OrganizationBudgetSettings,
+): OrganizationBudgetSettings {
+  return {
+    monthlyBudgetMicroUsd: quota.monthlyBudgetMicroUsd,
+    budgetWarningThresholdPercent: quota.budgetWarningThresholdPercent,
+    budgetExhaustedAction: quota.budgetExhaustedAction,
+    budgetDowngradeModel: quota.budgetDowngradeModel,
+  };
+}
+
+async function getUsageTotalsSince(orgId: string, since: Date) {
+  const [row] = await db
+    .select(usageTotalColumns)
+    .from(usageEvents)
+    .where(
+      and(
+        eq(usageEvents.organizationId, orgId),
+        gte(usageEvents.createdAt, since),
+      ),
+    );
+  return row ? pickUsageTotals(row) : EMPTY_USAGE_TOTALS;
+}
+
+export async function getOrganizationQuotaForScope(context: RequestContext) {
+  await initializeDatabase();
+  assertCanManageQuotas(context);
+  const quota = await ensureOrganizationQuota(context.orgId);
+  const spentMicroUsd = await getMonthToDateCostMicroUsd(context.orgId);
+  return {
+    organizationId: context.orgId,
+    requestsPerDayHardLimit: quota.requestsPerDayHardLimit,
+    tokensPerDayHardLimit: quota.tokensPerDayHardLimit,
+    concurrentPreviewJobsHardLimit: quota.concurrentPreviewJobsHardLimit,
+    ...pickBudgetSettings(quota),
+    runningPreviewJobs: await countRunningPreviewJobs(context.orgId),
+    usageToday: await getUsageTotalsSince(context.orgId, getUtcDayStart()),
+    budgetUsage: {
+      periodStart: getUtcMonthStart().toISOString(),
+      spentMicroUsd,
+      status: resolveBudgetStatus({ ...quota, spentMicroUsd }),
+    },
+  };
+}
+
+export async function updateOrganizationQuotaForScope(params: {
+  context: RequestContext;
+  limits: Partial<OrganizationQuotaLimits & OrganizationBudgetSettings>;
+}) {
+  await initializeDatabase();
+  assertCanManageQuotas(params.context);
+  const previous = await ensureOrganizationQuota(params.context.orgId);
+  const next = { ...previous, ...params.limits };
+  if (
+    next.budgetExhaustedAction === "downgrade" &&
+    !next.budgetDowngradeModel
+  ) {
+    throw new HttpError(
+      400,
+      "INVALID_PAYLOAD",
+      'Invalid payload: "budgetDowngradeModel" is required when "budgetExhaustedAction" is "downgrade"',
+    );
+  }
+  // A changed budget or threshold may be crossed again this month.
+  const resetsBudgetWarning =
+    next.monthlyBudgetMicroUsd !== previous.monthlyBudgetMicroUsd ||
+    next.budgetWarningThresholdPercent !==
+      previous.budgetWarningThresholdPercent;
+  await db
+    .update(organizationQuotas)
+    .set({
+      ...params.limits,
+      ...(resetsBudgetWarning ? { budgetWarningSentAt: null } : {}),
+      updatedAt: new Date(),
+    })
+    .where(eq(organizationQuotas.organizationId, params.context.orgId));
+
+  return {
+    previous: {
+      requestsPerDayHardLimit: previous.requestsPerDayHardLimit,
+      tokensPerDayHardLimit: previous.tokensPerDayHardLimit,
+      concurrentPreviewJobsHardLimit: previous.concurrentPreviewJobsHardLimit,
+      ...pickBudgetSettings(previous),
+    },
+    quota: await getOrganizationQuotaForScope(params.context),
+  };
+}
+
+/**
+ * Lists active members with their soft limits and today's usage. A member
+ * without a `user_soft_quotas` row has no soft limit, matching
+ * `isUserSoftQuotaExceeded`.
+ */
+export async function listUserSoftQuotasForScope(context: RequestContext) {
+  await initializeDatabase();
+  assertCanManageQuotas(context);
+
+  const members = await db
+    .select({
+      userId: users.id,
+      email: users.email,
+      displayName: users.displayName,
+      role: organizationMemberships.role,
+      requestsPerDaySoftLimit: userSoftQuotas.requestsPerDaySoftLimit,
+      tokensPerDaySoftLimit: userSoftQuotas.tokensPerDaySoftLimit,
+      quotaUpdatedAt: userSoftQuotas.updatedAt,
+    })
+    .from(organizationMemberships)
+    .innerJoin(users, eq(organizationMemberships.userId, users.id))
+    .leftJoin(
+      userSoftQuotas,
+      and(
+        eq(
+          userSoftQuotas.organizationId,
+          organizationMemberships.organizationId,
+        ),
+        eq(userSoftQuotas.userId, organizationMemberships.userId),
+      ),
+    )
+    .where(
+      and(
+        eq(organizationMemberships.organizationId, context.orgId),
+        eq(organizationMemberships.status, "active"),
+      ),
+    )
+    .orderBy(asc(organizationMemberships.createdAt));
+
+  const usageRows = await db
+    .select({ userId: usageEvents.userId, ...usageTotalColumns })
+    .from(usageEvents)
+    .where(
+      and(
+        eq(usageEvents.organizationId, context.orgId),
+        gte(usageEvents.createdAt, getUtcDayStart()),
+      ),
+    )
+    .groupBy(usageEvents.userId);
+  const usageByUserId = new Map(
+    usageRows.map((row) => [row.userId, pickUsageTotals(row)]),
+  );
+
+  return members.map((member) => {
+    const usageToday = usageByUserId.get(member.userId);
+    return {
+      userId: member.userId,
+      email: member.email,
+      displayName: member.displayName ?? null,
+      role: member.role,
+      requestsPerDaySoftLimit: member.requestsPerDaySoftLimit ?? null,
+      tokensPerDaySoftLimit: member.tokensPerDaySoftLimit ?? null,
+      updatedAt: toIsoDate(member.quotaUpdatedAt),
+      usageToday: {
+        requests: usageToday?.requests ?? 0,
+        tokens: usageToday?.tokens ?? 0,
+      },
+    };
+  });
+}
+
+async function assertActiveOrganizationMember(orgId: string, userId: string) {
+  const [member] = await db
+    .select({ id: organizationMemberships.id })
+    .from(organizationMemberships)
+    .where(
+      and(
+        eq(organizationMemberships.organizationId, orgId),
+        eq(organizationMemberships.userId, userId),
+        eq(organizationMemberships.status, "active"),
+      ),
+    )
+    .limit(1);
+  if (!member) {
+    throw new HttpError(404, "MEMBER_NOT_FOUND", "Member not found");
+  }
+}
+
+export async function updateUserSoftQuotaForScope(params: {
+  context: RequestContext;
+  userId: string;
+  limits: Partial<UserSoftQuotaLimits>;
+}) {
+  await initializeDatabase();
+  assertCanManageQuotas(params.context);
+  await assertActiveOrganizationMember(params.context.orgId, params.userId);
+
+  const [row] = await db
+    .insert(userSoftQuotas)
+    .values({
+      organizationId: params.context.orgId,
+      userId: params.userId,
+      ...params.limits,
+    })
+    .onConflictDoUpdate({
+      target: [userSoftQuotas.organizationId, userSoftQuotas.userId],
+      set: { ...params.limits, updatedAt: new Date() },
+    })
+    .returning();
+
+  return {
+    userId: row.userId,
+    requestsPerDaySoftLimit: row.requestsPerDaySoftLimit,
+    tokensPerDaySoftLimit: row.tokensPerDaySoftLimit,
+    updatedAt: toIsoDate(row.updatedAt),
+  };
+}
+
+/** Removes a member's soft limits; returns whether there were any. */
+export async function removeUserSoftQuotaForScope(params: {
+  context: RequestContext;
+  userId: string;
+}): Promise<boolean> {
+  await initializeDatabase();
+  assertCanManageQuotas(params.context);
+  const rows = await db
+    .delete(userSoftQuotas)
+    .where(
+      and(
+        eq(userSoftQuotas.organizationId, params.context.orgId),
+        eq(userSoftQuotas.userId, params.userId),
+      ),
+    )
+    .returning({ id: userSoftQuotas.id });
+  return rows.length > 0;
+}
+
+/**
+ * Reports on `[from, to)`. Without bounds the last 30 days up to now are
+ * used; days are UTC, like the quota windows.
+ */
+export function resolveUsageReportRange(params: { from?: Date; to?: Date }) {
+  const to = params.to ?? new Date();
+  const from =
+    params.from ??
+    getUtcDayStart(
+      new Date(to.getTime() - (DEFAULT_USAGE_REPORT_DAYS - 1) * DAY_MS),
+    );
+  if (from >= to) {
+    throw new HttpError(
+      400,
+      "INVALID_QUERY",
+      'Invalid query: "from" must be earlier than "to"',
+    );
+  }
+  if (to.getTime() - from.getTime() > USAGE_REPORT_MAX_DAYS * DAY_MS) {
+    throw new HttpError(
+      400,
+      "INVALID_QUERY",
+      `Invalid query: report range must not exceed ${USAGE_REPORT_MAX_DAYS} days`,
+    );
+  }
+  return { from, to };
+}
+
+export async function getUsageReportForScope(params: {
+  context: RequestContext;
+  from?: Date;
+  to?: Date;
+  workspaceId?: string;
+}) {
+  await initializeDatabase();
+  assertCanManageQuotas(params.context);
+  const { from, to } = resolveUsageReportRange(params);
+  const conditions = [
+    eq(usageEvents.organizationId, params.context.orgId),
+    gte(usageEvents.createdAt, from),
+    lt(usageEvents.createdAt, to),
+  ];
+  if (params.workspaceId) {
+    conditions.push(eq(usageEvents.workspaceId, params.workspaceId));
+  }
+  const where = and(...conditions);
+  const day = sql<string>`to_char(${usageEvents.createdAt} AT TIME ZONE 'UTC', 'YYYY-MM-DD')`;
+
+  const [totals] = await db
+    .select(usageTotalColumns)
+    .from(usageEvents)
+    .where(where);
+  const daily = await db
+    .select({ date: day, ...usageTotalColumns })
+    .from(usageEvents)
+    .where(where)
+    .groupBy(day)
+    .orderBy(asc(day));
+  const byUser = await db
+    .select({
+      userId: usageEvents.userId,
+      email: users.email,
+      displayName: users.displayName,
+      ...usageTotalColumns,
+    })
+    .from(usageEvents)
+    .leftJoin(users, eq(usageEvents.userId, users.id))
+    .where(where)
+    .groupBy(usageEvents.userId, users.email, users.displayName)
+    .orderBy(desc(usageTotalColumns.tokens));
+  const byWorkspace = await db
+    .select({
+      workspaceId: usageEvents.workspaceId,
+      name: workspaces.name,
+      ...usageTotalColumns,
+    })
+    .from(usageEvents)
+    .leftJoin(workspaces, eq(usageEvents.workspaceId, workspaces.id))
+    .where(where)
+    .groupBy(usageEvents.workspaceId, workspaces.name)
+    .orderBy(desc(usageTotalColumns.tokens));
+  const byModel = await db
+    .select({ model: usageEvents.model, ...usageTotalColumns })
+    .from(usageEvents)
+    .where(where)
+    .groupBy(usageEvents.model)
+    .orderBy(desc(usageTotalColumns.tokens));
+
+  return {
+    from: from.toISOString(),
+    to: to.toISOString(),
+    totals: totals ? pickUsageTotals(totals) : EMPTY_USAGE_TOTALS,
+    daily: daily.map((row) => ({ date: row.date, ...pickUsageTotals(row) })),
+    byUser: byUser.map((row) => ({
+      userId: row.userId,
+      email: row.email ?? null,
+      displayName: row.displayName ?? null,
+      ...pickUsageTotals(row),
+    })),
+    byWorkspace: byWorkspace.map((row) => ({
+      workspaceId: row.workspaceId,
+      name: row.name ?? null,
+      ...pickUsageTotals(row),
+    })),
+    byModel: byModel.map((row) => ({
+      model: row.model ?? null,
+      ...pickUsageTotals(row),
+    })),
+  };
+}
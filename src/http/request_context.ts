@@ -1,6 +1,6 @@
 import { randomUUID } from "node:crypto";
 import type { IncomingMessage } from "node:http";
-import { and, asc, eq, isNull, or } from "drizzle-orm";
+import { and, asc, eq, isNull, or, sql } from "drizzle-orm";
 import { db, initializeDatabase } from "/src/db/index.ts";
 import {
   apps,
@@ -19,9 +19,11 @@ import {
   workspaceMemberships,
   workspaces,
 } from "/src/db/schema.ts";
+import { assertBearerTokenSessionActive } from "/src/http/auth_session_repositories.ts";
 import { isDevBypassEnabled } from "/src/http/feature_flags.ts";
 import { HttpError } from "/src/http/http_errors.ts";
-import { validateAndDecodeJwt } from "/src/http/jwt_utils.ts";
+import { validateAndDecodeJwt, type JwtClaims } from "/src/http/jwt_utils.ts";
+import { acceptPendingInvitations } from "/src/http/membership_repositories.ts";
 
 type MembershipRole = (typeof membershipRoleEnum.enumValues)[number];
 
@@ -41,6 +43,8 @@ export interface RequestContext {
 interface AuthIdentity {
   externalSub: string;
   email: string | null;
+  /** Only a verified email may accept invitations sent to it. */
+  emailVerified: boolean;
   displayName: string | null;
   source: "jwt" | "dev-bypass";
   devOrgHint?: string | null;
@@ -92,18 +96,33 @@ function normalizeTenantIdentifier(value?: string | null): string | null {
   return normalized;
 }
 
+function identityFromJwtClaims(claims: JwtClaims): AuthIdentity {
+  return {
+    externalSub: claims.sub,
+    email: typeof claims.email === "string" ? claims.email : null,
+    emailVerified: claims.email_verified === true,
+    displayName: typeof claims.name === "string" ? claims.name : null,
+    source: "jwt",
+  };
+}
+
 async function resolveAuthIdentity(
   req: IncomingMessage,
 ): Promise<AuthIdentity> {
   const token = getBearerToken(req);
   if (token) {
-    const claims = validateAndDecodeJwt(token);
-    return {
-      externalSub: claims.sub,
-      email: typeof claims.email === "string" ? claims.email : null,
-      displayName: typeof claims.name === "string" ? claims.name : null,
-      source: "jwt",
-    };
+    let claims: JwtClaims;
+    try {
+      claims = await validateAndDecodeJwt(token);
+    } catch (error) {
+      throw new HttpError(
+        401,
+        "UNAUTHORIZED",
+        error instanceof Error ? error.message : "Invalid Bearer token",
+      );
+    }
+    await assertBearerTokenSessionActive(token);
+    return identityFromJwtClaims(claims);
   }
 
   if (!isDevBypassEnabled()) {
@@ -124,6 +143,7 @@ async function resolveAuthIdentity(
   return {
     externalSub: devSub,
     email: devEmail,
+    emailVerified: false,
     displayName: devName,
     source: "dev-bypass",
     devOrgHint,
@@ -136,6 +156,8 @@ async function upsertUser(identity: AuthIdentity): Promise<{
   externalSub: string;
   email: string | null;
   displayName: string | null;
+  /** `null` as well when the row was created by this upsert. */
+  previousEmail: string | null;
 }> {
   const [user] = await db
     .insert(users)
@@ -157,11 +179,50 @@ async function upsertUser(identity: AuthIdentity): Promise<{
       externalSub: users.externalSub,
       email: users.email,
       displayName: users.displayName,
+      // The subquery runs on the statement's snapshot and therefore still
+      // sees the row as it was before the upsert.
+      previousEmail: sql<string | null>`(
+        select previous.email from users as previous
+        where previous.external_sub = ${identity.externalSub}
+      )`,
     });
 
   return user;
 }
 
+/**
+ * Upserts the user and binds pending invitations to them when they sign in
+ * for the first time or their email changes, or on every call with
+ * `acceptInvitations: "always"` (OAuth2 login). Only verified emails accept.
+ */
+async function upsertUserAndAcceptInvitations(
+  identity: AuthIdentity,
+  acceptInvitations: "on-email-change" | "always",
+) {
+  const { previousEmail, ...user } = await upsertUser(identity);
+  if (
+    identity.source === "jwt" &&
+    identity.emailVerified &&
+    user.email &&
+    (acceptInvitations === "always" || user.email !== previousEmail)
+  ) {
+    await acceptPendingInvitations({ userId: user.id, email: user.email });
+  }
+  return user;
+}
+
+/**
+ * Records the user behind a verified token outside of a request, e.g. when an
+ * OAuth2 login opens a server-side session before the first API call.
+ */
+export async function upsertUserFromJwtClaims(claims: JwtClaims) {
+  await initializeDatabase();
+  return upsertUserAndAcceptInvitations(
+    identityFromJwtClaims(claims),
+    "always",
+  );
+}
+
 async function createPersonalTenant(
   userId: string,
   identity: AuthIdentity,
@@ -251,6 +312,7 @@ async function ensurePersonalWorkspaceInOrg(
     .where(
       and(
         eq(workspaceMemberships.userId, userId),
+        eq(workspaceMemberships.status, "active"),
         eq(workspaces.organizationId, organizationId),
       ),
     )
@@ -422,6 +484,7 @@ async function resolveWorkspaceForRequest(params: {
       .where(
         and(
           eq(workspaceMemberships.userId, params.userId),
+          eq(workspaceMemberships.status, "active"),
           eq(workspaces.organizationId, params.organizationId),
           or(
             eq(workspaces.id, params.defaultWorkspaceId),
@@ -476,6 +539,7 @@ async function resolveWorkspaceForRequest(params: {
       and(
         eq(workspaceMemberships.workspaceId, workspace.workspaceId),
         eq(workspaceMemberships.userId, params.userId),
+        eq(workspaceMemberships.status, "active"),
       ),
     )
     .limit(1);
@@ -622,7 +686,10 @@ export async function resolveRequestContext(
   await initializeDatabase();
 
   const identity = await resolveAuthIdentity(req);
-  const user = await upsertUser(identity);
+  const user = await upsertUserAndAcceptInvitations(
+    identity,
+    "on-email-change",
+  );
   const defaults = await ensureDefaultTenant(user.id, identity);
 
   const requestedOrgIdentifier =
@@ -6,6 +6,7 @@ import {
   messages,
   organizationMemberships,
   organizations,
+  versions,
   workspaces,
 } from "/src/db/schema.ts";
 import type { RequestContext } from "/src/http/request_context.ts";
@@ -71,6 +72,7 @@ function mapChatRow(row: typeof chats.$inferSelect) {
     createdByUserId: row.createdByUserId,
     title: row.title ?? null,
     initialCommitHash: row.initialCommitHash ?? null,
+    branch: row.branch ?? null,
     createdAt: toIsoDate(row.createdAt),
   };
 }
@@ -90,6 +92,13 @@ function mapMessageRow(row: typeof messages.$inferSelect) {
     requestId: row.requestId ?? null,
     maxTokensUsed: row.maxTokensUsed == null ? null : Number(row.maxTokensUsed),
     model: row.model ?? null,
+    inputTokens: row.inputTokens ?? null,
+    outputTokens: row.outputTokens ?? null,
+    cachedInputTokens: row.cachedInputTokens ?? null,
+    costMicroUsd: row.costMicroUsd ?? null,
+    chatMode: row.chatMode ?? null,
+    proposalReview: row.proposalReview ?? null,
+    applyReport: row.applyReport ?? null,
     aiMessagesJson: row.aiMessagesJson ?? null,
     createdAt: toIsoDate(row.createdAt),
   };
@@ -308,6 +317,11 @@ export async function createAppRecordForScope(params: {
   name: string;
   path: string;
   initialCommitHash: string | null;
+  branch: string | null;
+  installCommand?: string | null;
+  startCommand?: string | null;
+  /** Records the initial commit in `versions`, used for imported apps. */
+  recordInitialVersion?: boolean;
 }) {
   assertTenantScope(params.context);
   await initializeDatabase();
@@ -321,10 +335,22 @@ export async function createAppRecordForScope(params: {
         createdByUserId: params.context.userId,
         name: params.name,
         path: params.path,
+        installCommand: params.installCommand ?? null,
+        startCommand: params.startCommand ?? null,
         isFavorite: false,
       })
       .returning();
 
+    if (params.recordInitialVersion && params.initialCommitHash) {
+      await tx.insert(versions).values({
+        organizationId: params.context.orgId,
+        workspaceId: params.context.workspaceId,
+        createdByUserId: params.context.userId,
+        appId: createdApp.id,
+        commitHash: params.initialCommitHash,
+      });
+    }
+
     const [createdChat] = await tx
       .insert(chats)
       .values({
@@ -334,6 +360,7 @@ export async function createAppRecordForScope(params: {
         appId: createdApp.id,
         title: null,
         initialCommitHash: params.initialCommitHash,
+        branch: params.branch,
       })
       .returning({ id: chats.id });
 
@@ -415,6 +442,7 @@ export async function listChatsForScope(
 export async function createChatForScope(
   context: RequestContext,
   appId: number,
+  branch: string | null = null,
 ) {
   assertTenantScope(context);
   await initializeDatabase();
@@ -443,6 +471,7 @@ export async function createChatForScope(
       appId,
       title: null,
       initialCommitHash: null,
+      branch,
     })
     .returning({ id: chats.id });
   return Number(inserted.id);
@@ -463,6 +492,7 @@ export async function getChatForScope(context: RequestContext, chatId: number) {
       appId: true,
       title: true,
       initialCommitHash: true,
+      branch: true,
       createdAt: true,
       organizationId: true,
       workspaceId: true,
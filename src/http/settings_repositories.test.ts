@@ -0,0 +1,181 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { tenantMigrationMarkers, userSettings } from "/src/db/schema.ts";
+import {
+  maybeMigrateLegacyUserSettingsFile,
+  mergeSettingsLayers,
+  resetLegacyUserSettingsFileMigrationForTests,
+} from "./settings_repositories";
+
+const { dbMock } = vi.hoisted(() => {
+  const state = {
+    markerExists: false,
+    /** Whether the marker insert wins; false when a concurrent read did. */
+    claimSucceeds: true,
+    storedUserSettings: null as Record<string, unknown> | null,
+    selectCount: 0,
+    inserts: [] as Array<{ table: unknown; values: unknown }>,
+  };
+  const selectRows = (table: unknown) => ({
+    from: () => ({
+      where: () => ({
+        limit: async () => {
+          state.selectCount += 1;
+          if (table === "marker") {
+            return state.markerExists ? [{ key: "marker" }] : [];
+          }
+          return state.storedUserSettings
+            ? [{ settingsJson: state.storedUserSettings }]
+            : [];
+        },
+      }),
+    }),
+  });
+  const tx = {
+    select: (fields: Record<string, unknown>) =>
+      selectRows("settingsJson" in fields ? "user" : "marker"),
+    insert: (table: unknown) => ({
+      values: (values: unknown) => {
+        state.inserts.push({ table, values });
+        return {
+          onConflictDoNothing: () => ({
+            returning: async () => (state.claimSucceeds ? [values] : []),
+          }),
+          onConflictDoUpdate: async () => undefined,
+        };
+      },
+    }),
+  };
+  return {
+    dbMock: {
+      state,
+      db: {
+        select: tx.select,
+        transaction: async (callback: (txArg: typeof tx) => Promise<void>) =>
+          callback(tx),
+      },
+    },
+  };
+});
+
+vi.mock("/src/db/index.ts", () => ({
+  db: dbMock.db,
+  initializeDatabase: vi.fn(),
+}));
+
+describe("mergeSettingsLayers", () => {
+  it("applies org, workspace and user layers in order", () => {
+    const merged = mergeSettingsLayers(
+      { uiLanguage: "ru", autoApproveChanges: true },
+      { uiLanguage: "en" },
+      { autoApproveChanges: false },
+      { uiLanguage: "ru" },
+    );
+
+    expect(merged).toEqual({ uiLanguage: "ru", autoApproveChanges: false });
+  });
+
+  it("merges nested provider settings key by key", () => {
+    const merged = mergeSettingsLayers(
+      {
+        providerSettings: { openai: { apiKey: { value: "org-key" } } },
+        selectedModel: { name: "auto", provider: "auto" },
+      },
+      {
+        providerSettings: { anthropic: { apiKey: { value: "user-key" } } },
+      },
+      undefined,
+    );
+
+    expect(merged).toEqual({
+      providerSettings: {
+        openai: { apiKey: { value: "org-key" } },
+        anthropic: { apiKey: { value: "user-key" } },
+      },
+      selectedModel: { name: "auto", provider: "auto" },
+    });
+  });
+
+  it("ignores undefined values and replaces arrays", () => {
+    expect(
+      mergeSettingsLayers(
+        { experiments: ["a"], uiLanguage: "en" },
+        { experiments: ["b"], uiLanguage: undefined },
+      ),
+    ).toEqual({ experiments: ["b"], uiLanguage: "en" });
+  });
+});
+
+describe("maybeMigrateLegacyUserSettingsFile", () => {
+  let settingsPath: string;
+
+  beforeEach(() => {
+    resetLegacyUserSettingsFileMigrationForTests();
+    Object.assign(dbMock.state, {
+      markerExists: false,
+      claimSucceeds: true,
+      storedUserSettings: null,
+      selectCount: 0,
+      inserts: [],
+    });
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "legacy-settings-"));
+    settingsPath = path.join(dir, "user-settings.json");
+    fs.writeFileSync(
+      settingsPath,
+      JSON.stringify({ uiLanguage: "ru", autoApproveChanges: true }),
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(path.dirname(settingsPath), { recursive: true, force: true });
+  });
+
+  const migrate = () =>
+    maybeMigrateLegacyUserSettingsFile({
+      userId: "user-1",
+      settingsPath,
+      parseLegacySettings: (raw) => raw as Record<string, unknown>,
+    });
+
+  it("imports the file under the user, keeping values saved in the database", async () => {
+    dbMock.state.storedUserSettings = { autoApproveChanges: false };
+
+    await migrate();
+
+    expect(dbMock.state.inserts).toEqual([
+      {
+        table: tenantMigrationMarkers,
+        values: { key: "user_settings_file_migration_v1" },
+      },
+      {
+        table: userSettings,
+        values: {
+          userId: "user-1",
+          settingsJson: { uiLanguage: "ru", autoApproveChanges: false },
+        },
+      },
+    ]);
+  });
+
+  it("skips the import when a concurrent read claimed the marker", async () => {
+    dbMock.state.claimSucceeds = false;
+
+    await expect(migrate()).resolves.toBeUndefined();
+
+    expect(dbMock.state.inserts.map((insert) => insert.table)).toEqual([
+      tenantMigrationMarkers,
+    ]);
+  });
+
+  it("remembers a finished migration without querying again", async () => {
+    dbMock.state.markerExists = true;
+
+    await migrate();
+    await migrate();
+
+    expect(dbMock.state.selectCount).toBe(1);
+    expect(dbMock.state.inserts).toEqual([]);
+  });
+});
@@ -0,0 +1,237 @@
+import fs from "node:fs";
+import { eq } from "drizzle-orm";
+import { db, initializeDatabase } from "/src/db/index.ts";
+import {
+  organizationSettings,
+  tenantMigrationMarkers,
+  userSettings,
+  workspaceSettings,
+} from "/src/db/schema.ts";
+import type { RequestContext } from "/src/http/request_context.ts";
+
+type SettingsLayer = Record<string, unknown>;
+
+export interface SettingsLayers {
+  organization: SettingsLayer;
+  workspace: SettingsLayer;
+  user: SettingsLayer;
+}
+
+const LEGACY_USER_SETTINGS_FILE_MARKER = "user_settings_file_migration_v1";
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * Merges settings layers from lowest to highest precedence. Nested plain
+ * objects (e.g. `providerSettings`) are merged key by key; any other value
+ * from a later layer replaces the earlier one.
+ */
+export function mergeSettingsLayers(
+  ...layers: Array<Record<string, unknown> | null | undefined>
+): Record<string, unknown> {
+  const merged: Record<string, unknown> = {};
+  for (const layer of layers) {
+    if (!layer) {
+      continue;
+    }
+    for (const [key, value] of Object.entries(layer)) {
+      if (value === undefined) {
+        continue;
+      }
+      const current = merged[key];
+      merged[key] =
+        isPlainObject(current) && isPlainObject(value)
+          ? mergeSettingsLayers(current, value)
+          : value;
+    }
+  }
+  return merged;
+}
+
+export async function readSettingsLayersForScope(
+  context: RequestContext,
+): Promise<SettingsLayers> {
+  await initializeDatabase();
+  const [organizationRow] = await db
+    .select({ settingsJson: organizationSettings.settingsJson })
+    .from(organizationSettings)
+    .where(eq(organizationSettings.organizationId, context.orgId))
+    .limit(1);
+  const [workspaceRow] = await db
+    .select({ settingsJson: workspaceSettings.settingsJson })
+    .from(workspaceSettings)
+    .where(eq(workspaceSettings.workspaceId, context.workspaceId))
+    .limit(1);
+  const [userRow] = await db
+    .select({ settingsJson: userSettings.settingsJson })
+    .from(userSettings)
+    .where(eq(userSettings.userId, context.userId))
+    .limit(1);
+
+  return {
+    organization: organizationRow?.settingsJson ?? {},
+    workspace: workspaceRow?.settingsJson ?? {},
+    user: userRow?.settingsJson ?? {},
+  };
+}
+
+export async function writeUserSettingsLayer(params: {
+  context: RequestContext;
+  patch: SettingsLayer;
+}): Promise<SettingsLayer> {
+  await initializeDatabase();
+  return db.transaction(async (tx) => {
+    const [current] = await tx
+      .select({ settingsJson: userSettings.settingsJson })
+      .from(userSettings)
+      .where(eq(userSettings.userId, params.context.userId))
+      .limit(1);
+    const next = mergeSettingsLayers(current?.settingsJson, params.patch);
+    await tx
+      .insert(userSettings)
+      .values({ userId: params.context.userId, settingsJson: next })
+      .onConflictDoUpdate({
+        target: userSettings.userId,
+        set: { settingsJson: next, updatedAt: new Date() },
+      });
+    return next;
+  });
+}
+
+export async function writeOrganizationSettingsLayer(params: {
+  context: RequestContext;
+  patch: SettingsLayer;
+}): Promise<SettingsLayer> {
+  await initializeDatabase();
+  return db.transaction(async (tx) => {
+    const [current] = await tx
+      .select({ settingsJson: organizationSettings.settingsJson })
+      .from(organizationSettings)
+      .where(eq(organizationSettings.organizationId, params.context.orgId))
+      .limit(1);
+    const next = mergeSettingsLayers(current?.settingsJson, params.patch);
+    await tx
+      .insert(organizationSettings)
+      .values({
+        organizationId: params.context.orgId,
+        settingsJson: next,
+        updatedByUserId: params.context.userId,
+      })
+      .onConflictDoUpdate({
+        target: organizationSettings.organizationId,
+        set: {
+          settingsJson: next,
+          updatedByUserId: params.context.userId,
+          updatedAt: new Date(),
+        },
+      });
+    return next;
+  });
+}
+
+export async function writeWorkspaceSettingsLayer(params: {
+  context: RequestContext;
+  patch: SettingsLayer;
+}): Promise<SettingsLayer> {
+  await initializeDatabase();
+  return db.transaction(async (tx) => {
+    const [current] = await tx
+      .select({ settingsJson: workspaceSettings.settingsJson })
+      .from(workspaceSettings)
+      .where(eq(workspaceSettings.workspaceId, params.context.workspaceId))
+      .limit(1);
+    const next = mergeSettingsLayers(current?.settingsJson, params.patch);
+    await tx
+      .insert(workspaceSettings)
+      .values({
+        workspaceId: params.context.workspaceId,
+        organizationId: params.context.orgId,
+        settingsJson: next,
+        updatedByUserId: params.context.userId,
+      })
+      .onConflictDoUpdate({
+        target: workspaceSettings.workspaceId,
+        set: {
+          settingsJson: next,
+          updatedByUserId: params.context.userId,
+          updatedAt: new Date(),
+        },
+      });
+    return next;
+  });
+}
+
+// Once the marker exists it never goes away, so later reads skip the query.
+let legacyUserSettingsFileMigrated = false;
+
+/**
+ * Imports the pre-multitenant shared `user-settings.json` once, as the
+ * personal settings of the first user who reads settings after the upgrade.
+ */
+export async function maybeMigrateLegacyUserSettingsFile(params: {
+  userId: string;
+  settingsPath: string;
+  parseLegacySettings: (raw: unknown) => SettingsLayer;
+}): Promise<void> {
+  if (legacyUserSettingsFileMigrated) {
+    return;
+  }
+  await initializeDatabase();
+  const [marker] = await db
+    .select({ key: tenantMigrationMarkers.key })
+    .from(tenantMigrationMarkers)
+    .where(eq(tenantMigrationMarkers.key, LEGACY_USER_SETTINGS_FILE_MARKER))
+    .limit(1);
+  if (marker) {
+    legacyUserSettingsFileMigrated = true;
+    return;
+  }
+
+  let legacySettings: SettingsLayer | null = null;
+  try {
+    if (fs.existsSync(params.settingsPath)) {
+      legacySettings = params.parseLegacySettings(
+        JSON.parse(fs.readFileSync(params.settingsPath, "utf-8")),
+      );
+    }
+  } catch {
+    legacySettings = null;
+  }
+
+  await db.transaction(async (tx) => {
+    // Claiming the marker first makes a concurrent first read wait for this
+    // transaction and then skip, instead of failing on the primary key.
+    const claimed = await tx
+      .insert(tenantMigrationMarkers)
+      .values({ key: LEGACY_USER_SETTINGS_FILE_MARKER })
+      .onConflictDoNothing()
+      .returning({ key: tenantMigrationMarkers.key });
+    if (claimed.length === 0) {
+      return;
+    }
+
+    if (legacySettings && Object.keys(legacySettings).length > 0) {
+      const [current] = await tx
+        .select({ settingsJson: userSettings.settingsJson })
+        .from(userSettings)
+        .where(eq(userSettings.userId, params.userId))
+        .limit(1);
+      // Values the user already saved in the database win over the file.
+      const next = mergeSettingsLayers(legacySettings, current?.settingsJson);
+      await tx
+        .insert(userSettings)
+        .values({ userId: params.userId, settingsJson: next })
+        .onConflictDoUpdate({
+          target: userSettings.userId,
+          set: { settingsJson: next, updatedAt: new Date() },
+        });
+    }
+  });
+  legacyUserSettingsFileMigrated = true;
+}
+
+export function resetLegacyUserSettingsFileMigrationForTests(): void {
+  legacyUserSettingsFileMigrated = false;
+}
@@ -93,6 +93,8 @@ export const en = {
   "sidebar.title.signOut": "Sign out",
   "sidebar.button.newProject": "New project",
   "sidebar.button.signOut": "Sign out",
+  "sidebar.button.auditLog": "Audit log",
+  "sidebar.button.usage": "Usage and quotas",
   "sidebar.search.placeholder": "Search projects...",
   "sidebar.loadingProjects": "Loading projects...",
   "sidebar.failedProjects": "Failed to load projects history",
@@ -123,6 +125,18 @@ export const en = {
   "chat.manualApply.summary": "{files} files, {packages} packages",
   "chat.manualApply.button.approve": "Apply changes",
   "chat.manualApply.button.approving": "Applying...",
+  "chat.manualApply.button.approveSelected": "Apply selected ({count})",
+  "chat.manualApply.button.review": "Review changes",
+  "chat.manualApply.button.hideReview": "Hide changes",
+  "chat.manualApply.failedCount": "{count} of the changes will fail to apply",
+  "chat.proposalDiff.status.added": "Added",
+  "chat.proposalDiff.status.modified": "Modified",
+  "chat.proposalDiff.status.deleted": "Deleted",
+  "chat.proposalDiff.status.renamed": "Renamed",
+  "chat.proposalDiff.status.unchanged": "No changes",
+  "chat.proposalDiff.binary": "Binary file",
+  "chat.proposalDiff.failed": "Will not apply: {error}",
+  "chat.proposalDiff.select": "Include {path} in the approval",
   "chat.rollback.button": "Rollback changes",
   "chat.rollback.button.reverting": "Rolling back...",
   "chat.empty.title": "Nessy Blaze",
@@ -140,6 +154,38 @@ export const en = {
   "chat.starter.redesign.label": "Redesign",
   "chat.starter.redesign.prompt":
     "Redesign the About page in a modern and minimalist style with clear typography.",
+  "chat.mcpToolCall.title": "{server} · {tool}",
+  "chat.mcpToolCall.status.running": "running...",
+  "chat.mcpToolCall.status.success": "done",
+  "chat.mcpToolCall.status.error": "failed",
+  "chat.mcpToolCall.input": "Input",
+  "chat.mcpToolCall.output": "Output",
+  "chat.agentStep.read": "Read {target}",
+  "chat.agentStep.write": "Wrote {target}",
+  "chat.agentStep.edit": "Edited {target}",
+  "chat.agentStep.search-replace": "Edited {target}",
+  "chat.agentStep.delete": "Deleted {target}",
+  "chat.agentStep.rename": "Renamed {target}",
+  "chat.agentStep.add-dependency": "Added packages {target}",
+  "chat.agentStep.list-files": "Listed files in {target}",
+  "chat.agentStep.grep": 'Searched code for "{target}"',
+  "chat.agentStep.code-search": 'Searched codebase for "{target}"',
+  "chat.agentStep.web-search": 'Searched the web for "{target}"',
+  "chat.agentStep.web-crawl": "Opened {target}",
+  "chat.agentStep.read-logs": "Read logs {target}",
+  "chat.agentStep.run-script": "Ran script {target}",
+  "chat.agentStep.screenshot-preview": "Took a screenshot of {target}",
+  "chat.agentStep.output": "Step failed: {target}",
+  "chat.mcpConsent.title": "Allow MCP tool {tool} from {server}?",
+  "chat.mcpConsent.button.accept-once": "Allow once",
+  "chat.mcpConsent.button.accept-always": "Always allow",
+  "chat.mcpConsent.button.decline": "Decline",
+  "chat.mcpConsent.error.resolve": "Failed to send the MCP tool decision.",
+  "chat.agentConsent.title": "Allow the agent to run {tool}?",
+  "chat.agentConsent.button.accept-once": "Allow once",
+  "chat.agentConsent.button.accept-always": "Always allow",
+  "chat.agentConsent.button.decline": "Decline",
+  "chat.agentConsent.error.resolve": "Failed to send the agent tool decision.",
   "chat.typing.thinking": "Assistant is thinking and applying changes...",
   "chat.typing.drafting": "Assistant is drafting a response...",
   "chat.input.placeholder": "Describe what should be built...",
@@ -147,6 +193,9 @@ export const en = {
   "chat.input.cancel": "Cancel generation",
   "chat.messageMeta.sentAt": "Sent: {timestamp}",
   "chat.messageMeta.receivedAt": "Received: {timestamp}",
+  "chat.messageMeta.tokens": "Tokens: {input} in / {output} out",
+  "chat.messageMeta.tokensAndCost":
+    "Tokens: {input} in / {output} out · Cost: {cost}",
   "chat.tab.chat": "Chat",
   "chat.tab.history": "History",
   "chat.history.loading": "Loading changes history...",
@@ -158,6 +207,15 @@ export const en = {
   "chat.history.versionLabel": "Version {index} ({hash})",
   "chat.history.restore": "Restore",
   "chat.history.restoreInProgress": "Restoring...",
+  "chat.history.compare": "Compare",
+  "chat.history.compareSelected": "Selected",
+  "chat.history.compareHint": "Select one more version to compare.",
+  "chat.history.compareTitle": "Changes from version {from} to version {to}",
+  "chat.history.compareStats": "{files} files changed",
+  "chat.history.compareLoading": "Loading changes...",
+  "chat.history.compareEmpty": "No file changes between these versions.",
+  "chat.history.compareError": "Failed to load changes. Please try again.",
+  "chat.history.compareClose": "Close comparison",
   "chat.history.hint":
     "Use this tab to inspect and rollback saved project versions.",
   "chat.footer.hint": "The assistant drafts pages based on your design system.",
@@ -214,6 +272,104 @@ export const en = {
   "tenant.button.creatingWorkspace": "Creating workspace...",
   "tenant.button.createWorkspace": "Create workspace",
   "tenant.hint.ownerAdminOnly": "Only owner/admin can create workspaces",
+  "audit.title": "Audit log",
+  "audit.loading": "Loading audit events...",
+  "audit.failed": "Failed to load audit events",
+  "audit.empty": "No audit events found",
+  "audit.forbidden":
+    "Only organization owners and admins can view the audit log",
+  "audit.aria.back": "Back to workspace",
+  "audit.filter.actor": "Actor user ID",
+  "audit.filter.action": "Action",
+  "audit.filter.resourceType": "Resource type",
+  "audit.filter.from": "From",
+  "audit.filter.to": "To",
+  "audit.column.time": "Time",
+  "audit.column.actor": "Actor",
+  "audit.column.action": "Action",
+  "audit.column.resource": "Resource",
+  "audit.column.metadata": "Details",
+  "audit.actor.system": "system",
+  "audit.button.apply": "Apply",
+  "audit.button.reset": "Reset",
+  "audit.button.loadMore": "Load more",
+  "audit.button.loadingMore": "Loading...",
+  "audit.button.export": "Export {format}",
+  "audit.button.exporting": "Exporting...",
+  "audit.error.exportFailed": "Failed to export audit events",
+  "usage.title": "Usage and quotas",
+  "usage.loading": "Loading usage...",
+  "usage.failed": "Failed to load usage",
+  "usage.forbidden": "Only organization owners and admins can manage quotas",
+  "usage.aria.back": "Back to workspace",
+  "usage.metric.requests": "Requests",
+  "usage.metric.tokens": "Tokens",
+  "usage.metric.previewJobs": "Preview runs",
+  "usage.metric.runningPreviews": "Running previews",
+  "usage.metric.cost": "Cost",
+  "usage.hardLimits.title": "Organization hard limits",
+  "usage.hardLimits.usedToday": "{used} of {limit} used today",
+  "usage.hardLimits.runningNow": "{used} of {limit} running now",
+  "usage.hardLimits.saved": "Organization limits saved",
+  "usage.budget.title": "Monthly budget",
+  "usage.budget.amount": "Budget per month (USD)",
+  "usage.budget.noBudget": "No budget",
+  "usage.budget.warningThreshold": "Warn at (% of budget)",
+  "usage.budget.exhaustedAction": "When the budget is exhausted",
+  "usage.budget.action.block": "Block new requests",
+  "usage.budget.action.downgrade": "Switch to a cheaper model",
+  "usage.budget.downgradeProvider": "Fallback provider",
+  "usage.budget.downgradeModel": "Fallback model",
+  "usage.budget.status.none": "{spent} spent this month",
+  "usage.budget.status.ok": "{spent} of {budget} spent this month",
+  "usage.budget.status.warning":
+    "{spent} of {budget} spent this month: approaching the budget",
+  "usage.budget.status.exhausted":
+    "{spent} of {budget} spent this month: budget exhausted",
+  "usage.budget.saved": "Budget saved",
+  "usage.budget.error.invalidAmount": "Enter a non-negative amount",
+  "usage.budget.error.downgradeModelRequired":
+    "Enter the fallback provider and model",
+  "usage.softLimits.title": "Member daily soft limits",
+  "usage.softLimits.column.member": "Member",
+  "usage.softLimits.column.requests": "Requests today",
+  "usage.softLimits.column.tokens": "Tokens today",
+  "usage.softLimits.noLimit": "No limit",
+  "usage.softLimits.aria.requests": "Daily request limit for {email}",
+  "usage.softLimits.aria.tokens": "Daily token limit for {email}",
+  "usage.report.title": "Usage report",
+  "usage.report.range": "{days} days",
+  "usage.report.daily": "By day (tokens)",
+  "usage.report.dailyValue": "{requests} req · {tokens} tok",
+  "usage.report.byUser": "By member",
+  "usage.report.byWorkspace": "By workspace",
+  "usage.report.byModel": "By model",
+  "usage.report.unknownModel": "unknown",
+  "usage.report.empty": "No usage in this period",
+  "usage.button.save": "Save",
+  "usage.button.clear": "Remove limits",
+  "usage.error.saveFailed": "Failed to save limits",
+  "usage.error.limitRequired": "Enter at least one limit",
+  "tenant.members.title": "Members",
+  "tenant.members.scope.organization": "Organization",
+  "tenant.members.scope.workspace": "Workspace",
+  "tenant.members.loading": "Loading members...",
+  "tenant.members.failed": "Failed to load members",
+  "tenant.members.empty": "No members found",
+  "tenant.members.status.invited": "invited",
+  "tenant.members.role.owner": "Owner",
+  "tenant.members.role.admin": "Admin",
+  "tenant.members.role.member": "Member",
+  "tenant.members.role.viewer": "Viewer",
+  "tenant.members.aria.role": "Role for {email}",
+  "tenant.members.aria.remove": "Remove {email}",
+  "tenant.members.input.email": "Teammate email",
+  "tenant.members.button.invite": "Invite",
+  "tenant.members.button.inviting": "Inviting...",
+  "tenant.members.error.emailRequired": "Email is required",
+  "tenant.members.error.inviteFailed": "Failed to invite member",
+  "tenant.members.error.updateFailed": "Failed to change member role",
+  "tenant.members.error.removeFailed": "Failed to remove member",
 
   "errorBoundary.title": "Sorry, that shouldn't have happened!",
   "errorBoundary.subtitle": "There was an error loading the app...",
@@ -96,6 +96,8 @@ export const ru = {
   "sidebar.title.signOut": "Выйти",
   "sidebar.button.newProject": "Новый проект",
   "sidebar.button.signOut": "Выйти",
+  "sidebar.button.auditLog": "Журнал аудита",
+  "sidebar.button.usage": "Использование и квоты",
   "sidebar.search.placeholder": "Поиск проектов...",
   "sidebar.loadingProjects": "Загрузка проектов...",
   "sidebar.failedProjects": "Не удалось загрузить историю проектов",
@@ -128,6 +130,18 @@ export const ru = {
   "chat.manualApply.summary": "Файлов: {files}, пакетов: {packages}",
   "chat.manualApply.button.approve": "Применить изменения",
   "chat.manualApply.button.approving": "Применяем...",
+  "chat.manualApply.button.approveSelected": "Применить выбранные ({count})",
+  "chat.manualApply.button.review": "Посмотреть изменения",
+  "chat.manualApply.button.hideReview": "Скрыть изменения",
+  "chat.manualApply.failedCount": "Не применится изменений: {count}",
+  "chat.proposalDiff.status.added": "Новый",
+  "chat.proposalDiff.status.modified": "Изменён",
+  "chat.proposalDiff.status.deleted": "Удалён",
+  "chat.proposalDiff.status.renamed": "Переименован",
+  "chat.proposalDiff.status.unchanged": "Без изменений",
+  "chat.proposalDiff.binary": "Бинарный файл",
+  "chat.proposalDiff.failed": "Не применится: {error}",
+  "chat.proposalDiff.select": "Включить {path} в аппрув",
   "chat.rollback.button": "Откатить изменения",
   "chat.rollback.button.reverting": "Откатываем...",
   "chat.empty.title": "Nessy Blaze",
@@ -145,6 +159,40 @@ export const ru = {
   "chat.starter.redesign.label": "Редизайн",
   "chat.starter.redesign.prompt":
     "Сделай редизайн страницы About в современном минималистичном стиле с четкой типографикой.",
+  "chat.mcpToolCall.title": "{server} · {tool}",
+  "chat.mcpToolCall.status.running": "выполняется...",
+  "chat.mcpToolCall.status.success": "готово",
+  "chat.mcpToolCall.status.error": "ошибка",
+  "chat.mcpToolCall.input": "Вход",
+  "chat.mcpToolCall.output": "Результат",
+  "chat.agentStep.read": "Прочитан {target}",
+  "chat.agentStep.write": "Записан {target}",
+  "chat.agentStep.edit": "Изменён {target}",
+  "chat.agentStep.search-replace": "Изменён {target}",
+  "chat.agentStep.delete": "Удалён {target}",
+  "chat.agentStep.rename": "Переименован {target}",
+  "chat.agentStep.add-dependency": "Добавлены пакеты {target}",
+  "chat.agentStep.list-files": "Список файлов в {target}",
+  "chat.agentStep.grep": 'Поиск в коде: "{target}"',
+  "chat.agentStep.code-search": 'Поиск по кодовой базе: "{target}"',
+  "chat.agentStep.web-search": 'Поиск в интернете: "{target}"',
+  "chat.agentStep.web-crawl": "Открыта страница {target}",
+  "chat.agentStep.read-logs": "Прочитаны логи {target}",
+  "chat.agentStep.run-script": "Запущен скрипт {target}",
+  "chat.agentStep.screenshot-preview": "Сделан скриншот {target}",
+  "chat.agentStep.output": "Шаг завершился ошибкой: {target}",
+  "chat.mcpConsent.title": "Разрешить MCP-инструмент {tool} сервера {server}?",
+  "chat.mcpConsent.button.accept-once": "Разрешить один раз",
+  "chat.mcpConsent.button.accept-always": "Разрешать всегда",
+  "chat.mcpConsent.button.decline": "Отклонить",
+  "chat.mcpConsent.error.resolve":
+    "Не удалось отправить решение по MCP-инструменту.",
+  "chat.agentConsent.title": "Разрешить агенту запустить {tool}?",
+  "chat.agentConsent.button.accept-once": "Разрешить один раз",
+  "chat.agentConsent.button.accept-always": "Разрешать всегда",
+  "chat.agentConsent.button.decline": "Отклонить",
+  "chat.agentConsent.error.resolve":
+    "Не удалось отправить решение по инструменту агента.",
   "chat.typing.thinking": "Ассистент думает и применяет изменения...",
   "chat.typing.drafting": "Ассистент формирует ответ...",
   "chat.input.placeholder": "Опишите, что нужно собрать...",
@@ -152,6 +200,9 @@ export const ru = {
   "chat.input.cancel": "Остановить генерацию",
   "chat.messageMeta.sentAt": "Отправлено: {timestamp}",
   "chat.messageMeta.receivedAt": "Получено: {timestamp}",
+  "chat.messageMeta.tokens": "Токены: {input} вход / {output} выход",
+  "chat.messageMeta.tokensAndCost":
+    "Токены: {input} вход / {output} выход · Стоимость: {cost}",
   "chat.tab.chat": "Чат",
   "chat.tab.history": "История",
   "chat.history.loading": "Загружаем историю изменений...",
@@ -163,6 +214,16 @@ export const ru = {
   "chat.history.versionLabel": "Версия {index} ({hash})",
   "chat.history.restore": "Восстановить",
   "chat.history.restoreInProgress": "Восстанавливаем...",
+  "chat.history.compare": "Сравнить",
+  "chat.history.compareSelected": "Выбрана",
+  "chat.history.compareHint": "Выберите еще одну версию для сравнения.",
+  "chat.history.compareTitle": "Изменения с версии {from} по версию {to}",
+  "chat.history.compareStats": "Изменено файлов: {files}",
+  "chat.history.compareLoading": "Загружаем изменения...",
+  "chat.history.compareEmpty": "Между этими версиями файлы не менялись.",
+  "chat.history.compareError":
+    "Не удалось загрузить изменения. Попробуйте еще раз.",
+  "chat.history.compareClose": "Закрыть сравнение",
   "chat.history.hint":
     "Во вкладке можно посмотреть и откатить сохраненные версии проекта.",
   "chat.footer.hint": "Ассистент создает страницы по вашей дизайн-системе.",
@@ -220,6 +281,105 @@ export const ru = {
   "tenant.button.createWorkspace": "Создать рабочую область",
   "tenant.hint.ownerAdminOnly":
     "Только owner/admin может создавать рабочие области",
+  "audit.title": "Журнал аудита",
+  "audit.loading": "Загрузка событий аудита...",
+  "audit.failed": "Не удалось загрузить события аудита",
+  "audit.empty": "События аудита не найдены",
+  "audit.forbidden":
+    "Журнал аудита доступен только владельцам и администраторам организации",
+  "audit.aria.back": "Вернуться в рабочую область",
+  "audit.filter.actor": "ID пользователя",
+  "audit.filter.action": "Действие",
+  "audit.filter.resourceType": "Тип ресурса",
+  "audit.filter.from": "С",
+  "audit.filter.to": "По",
+  "audit.column.time": "Время",
+  "audit.column.actor": "Пользователь",
+  "audit.column.action": "Действие",
+  "audit.column.resource": "Ресурс",
+  "audit.column.metadata": "Подробности",
+  "audit.actor.system": "система",
+  "audit.button.apply": "Применить",
+  "audit.button.reset": "Сбросить",
+  "audit.button.loadMore": "Загрузить еще",
+  "audit.button.loadingMore": "Загрузка...",
+  "audit.button.export": "Экспорт {format}",
+  "audit.button.exporting": "Экспорт...",
+  "audit.error.exportFailed": "Не удалось экспортировать события аудита",
+  "usage.title": "Использование и квоты",
+  "usage.loading": "Загрузка данных об использовании...",
+  "usage.failed": "Не удалось загрузить данные об использовании",
+  "usage.forbidden":
+    "Квотами могут управлять только владельцы и администраторы организации",
+  "usage.aria.back": "Вернуться в рабочую область",
+  "usage.metric.requests": "Запросы",
+  "usage.metric.tokens": "Токены",
+  "usage.metric.previewJobs": "Запуски превью",
+  "usage.metric.runningPreviews": "Запущенные превью",
+  "usage.metric.cost": "Стоимость",
+  "usage.hardLimits.title": "Жесткие лимиты организации",
+  "usage.hardLimits.usedToday": "Сегодня использовано {used} из {limit}",
+  "usage.hardLimits.runningNow": "Сейчас запущено {used} из {limit}",
+  "usage.hardLimits.saved": "Лимиты организации сохранены",
+  "usage.budget.title": "Месячный бюджет",
+  "usage.budget.amount": "Бюджет в месяц (USD)",
+  "usage.budget.noBudget": "Без бюджета",
+  "usage.budget.warningThreshold": "Предупреждать при (% бюджета)",
+  "usage.budget.exhaustedAction": "Когда бюджет исчерпан",
+  "usage.budget.action.block": "Блокировать новые запросы",
+  "usage.budget.action.downgrade": "Переключать на более дешевую модель",
+  "usage.budget.downgradeProvider": "Резервный провайдер",
+  "usage.budget.downgradeModel": "Резервная модель",
+  "usage.budget.status.none": "Потрачено в этом месяце: {spent}",
+  "usage.budget.status.ok": "Потрачено в этом месяце: {spent} из {budget}",
+  "usage.budget.status.warning":
+    "Потрачено в этом месяце: {spent} из {budget}, бюджет почти исчерпан",
+  "usage.budget.status.exhausted":
+    "Потрачено в этом месяце: {spent} из {budget}, бюджет исчерпан",
+  "usage.budget.saved": "Бюджет сохранен",
+  "usage.budget.error.invalidAmount": "Укажите неотрицательную сумму",
+  "usage.budget.error.downgradeModelRequired":
+    "Укажите резервного провайдера и модель",
+  "usage.softLimits.title": "Дневные мягкие лимиты участников",
+  "usage.softLimits.column.member": "Участник",
+  "usage.softLimits.column.requests": "Запросы сегодня",
+  "usage.softLimits.column.tokens": "Токены сегодня",
+  "usage.softLimits.noLimit": "Без лимита",
+  "usage.softLimits.aria.requests": "Дневной лимит запросов для {email}",
+  "usage.softLimits.aria.tokens": "Дневной лимит токенов для {email}",
+  "usage.report.title": "Отчет об использовании",
+  "usage.report.range": "{days} дн.",
+  "usage.report.daily": "По дням (токены)",
+  "usage.report.dailyValue": "{requests} запр. · {tokens} ток.",
+  "usage.report.byUser": "По участникам",
+  "usage.report.byWorkspace": "По рабочим областям",
+  "usage.report.byModel": "По моделям",
+  "usage.report.unknownModel": "неизвестно",
+  "usage.report.empty": "За этот период нет использования",
+  "usage.button.save": "Сохранить",
+  "usage.button.clear": "Снять лимиты",
+  "usage.error.saveFailed": "Не удалось сохранить лимиты",
+  "usage.error.limitRequired": "Укажите хотя бы один лимит",
+  "tenant.members.title": "Участники",
+  "tenant.members.scope.organization": "Организация",
+  "tenant.members.scope.workspace": "Рабочая область",
+  "tenant.members.loading": "Загрузка участников...",
+  "tenant.members.failed": "Не удалось загрузить участников",
+  "tenant.members.empty": "Участники не найдены",
+  "tenant.members.status.invited": "приглашен",
+  "tenant.members.role.owner": "Владелец",
+  "tenant.members.role.admin": "Администратор",
+  "tenant.members.role.member": "Участник",
+  "tenant.members.role.viewer": "Наблюдатель",
+  "tenant.members.aria.role": "Роль для {email}",
+  "tenant.members.aria.remove": "Удалить {email}",
+  "tenant.members.input.email": "Email коллеги",
+  "tenant.members.button.invite": "Пригласить",
+  "tenant.members.button.inviting": "Отправка приглашения...",
+  "tenant.members.error.emailRequired": "Введите email",
+  "tenant.members.error.inviteFailed": "Не удалось пригласить участника",
+  "tenant.members.error.updateFailed": "Не удалось изменить роль участника",
+  "tenant.members.error.removeFailed": "Не удалось удалить участника",
 
   "errorBoundary.title": "Извините, этого не должно было произойти!",
   "errorBoundary.subtitle": "Во время загрузки приложения произошла ошибка...",
@@ -4,6 +4,7 @@ export const BACKEND_BASE_URL_STORAGE_KEY = "blaze.backend.base_url";
 export const TENANT_ORG_ID_STORAGE_KEY = "blaze.tenant.org_id";
 export const TENANT_WORKSPACE_ID_STORAGE_KEY = "blaze.tenant.workspace_id";
 export const AUTH_TOKEN_STORAGE_KEY = "blaze.auth.token";
+export const AUTH_SESSION_TOKEN_STORAGE_KEY = "blaze.auth.session_token";
 export const DEV_USER_SUB_STORAGE_KEY = "blaze.dev.user_sub";
 export const DEV_USER_EMAIL_STORAGE_KEY = "blaze.dev.user_email";
 export const DEV_USER_NAME_STORAGE_KEY = "blaze.dev.user_name";
@@ -13,6 +14,18 @@ export const AUTH_REDIRECT_REASON_SESSION_EXPIRED = "session-expired";
 const OAUTH2_STATE_STORAGE_KEY = "blaze.auth.oauth2.state";
 const OAUTH2_CODE_VERIFIER_STORAGE_KEY = "blaze.auth.oauth2.code_verifier";
 const AUTH_SESSION_EXPIRED_ERROR_CODE = "AUTH_SESSION_EXPIRED";
+const AUTH_SESSION_REFRESH_PATH = "/api/v1/auth/session/refresh";
+// Auth endpoints answer 401 for bad credentials, not for an expired token.
+const AUTH_SESSION_CHANNELS = new Set([
+  "exchange-oauth2-code",
+  "logout-auth-session",
+]);
+// File downloads such as app exports, returned as a `Blob`.
+const BINARY_CONTENT_TYPES = [
+  "application/zip",
+  "application/gzip",
+  "application/octet-stream",
+];
 
 export interface BackendClient {
   invoke<T = any>(channel: string, ...args: unknown[]): Promise<T>;
@@ -252,12 +265,30 @@ function removeStorageValue(
   delete (storage as Record<string, unknown>)[key];
 }
 
+function writeStorageValue(
+  storage: Storage | Partial<Storage> | undefined,
+  key: string,
+  value: string,
+) {
+  if (!storage) {
+    return;
+  }
+
+  if (typeof storage.setItem === "function") {
+    storage.setItem(key, value);
+    return;
+  }
+
+  (storage as Record<string, unknown>)[key] = value;
+}
+
 function clearExpiredAuthStorage() {
   if (typeof window === "undefined") {
     return;
   }
 
   removeStorageValue(window.localStorage, AUTH_TOKEN_STORAGE_KEY);
+  removeStorageValue(window.localStorage, AUTH_SESSION_TOKEN_STORAGE_KEY);
   removeStorageValue(window.localStorage, DEV_USER_SUB_STORAGE_KEY);
   removeStorageValue(window.localStorage, DEV_USER_EMAIL_STORAGE_KEY);
   removeStorageValue(window.localStorage, DEV_USER_NAME_STORAGE_KEY);
@@ -298,8 +329,12 @@ function createBackendError(args: {
 }): Error {
   const normalizedErrorText = args.errorText.trim();
   const backendErrorMessage = extractBackendErrorMessage(normalizedErrorText);
+  // A revoked session also ends the tokens issued for it.
   const isJwtExpired =
-    args.status === 401 && /jwt\s+is\s+expired/i.test(backendErrorMessage);
+    args.status === 401 &&
+    /jwt\s+is\s+expired|auth\s+session\s+is\s+revoked/i.test(
+      backendErrorMessage,
+    );
 
   if (isJwtExpired) {
     handleExpiredAuthSession();
@@ -371,6 +406,188 @@ function resolveApiRoute(
         body,
       };
     }
+    case "list-org-members": {
+      const params = getFirstArg<{ orgId?: string }>(args);
+      const orgId = params?.orgId?.trim() || tenantScope.orgId;
+      return {
+        method: "GET",
+        path: `/api/v1/orgs/${encodeURIComponent(orgId)}/members`,
+      };
+    }
+    case "list-audit-events":
+    case "export-audit-events": {
+      const params = getFirstArg<Record<string, unknown>>(args) ?? {};
+      const orgId =
+        (typeof params.orgId === "string" && params.orgId.trim()) ||
+        tenantScope.orgId;
+      const query: Record<string, string> = {};
+      for (const key of [
+        "actorUserId",
+        "action",
+        "resourceType",
+        "from",
+        "to",
+        "cursor",
+        "limit",
+        "format",
+      ]) {
+        const value = params[key];
+        if (
+          (typeof value === "string" && value.trim()) ||
+          typeof value === "number"
+        ) {
+          query[key] = String(value).trim();
+        }
+      }
+      return {
+        method: "GET",
+        path: `/api/v1/orgs/${encodeURIComponent(orgId)}/audit-events${
+          channel === "export-audit-events" ? "/export" : ""
+        }`,
+        query,
+      };
+    }
+    case "invite-org-member": {
+      const params = getFirstArg<{
+        orgId?: string;
+        email?: string;
+        role?: string;
+      }>(args);
+      if (!params || typeof params.email !== "string") {
+        return null;
+      }
+      const orgId = params.orgId?.trim() || tenantScope.orgId;
+      const body: { email: string; role?: string } = { email: params.email };
+      if (typeof params.role === "string") {
+        body.role = params.role;
+      }
+      return {
+        method: "POST",
+        path: `/api/v1/orgs/${encodeURIComponent(orgId)}/members`,
+        body,
+      };
+    }
+    case "update-org-member": {
+      const params = getFirstArg<{
+        orgId?: string;
+        membershipId?: number;
+        role?: string;
+      }>(args);
+      if (!params || typeof params.membershipId !== "number") {
+        return null;
+      }
+      const orgId = params.orgId?.trim() || tenantScope.orgId;
+      return {
+        method: "PATCH",
+        path: `/api/v1/orgs/${encodeURIComponent(orgId)}/members/${params.membershipId}`,
+        body: { role: params.role },
+      };
+    }
+    case "remove-org-member": {
+      const params = getFirstArg<{ orgId?: string; membershipId?: number }>(
+        args,
+      );
+      if (!params || typeof params.membershipId !== "number") {
+        return null;
+      }
+      const orgId = params.orgId?.trim() || tenantScope.orgId;
+      return {
+        method: "DELETE",
+        path: `/api/v1/orgs/${encodeURIComponent(orgId)}/members/${params.membershipId}`,
+      };
+    }
+    case "get-org-quotas":
+    case "list-user-soft-quotas": {
+      const params = getFirstArg<{ orgId?: string }>(args);
+      const orgId = params?.orgId?.trim() || tenantScope.orgId;
+      return {
+        method: "GET",
+        path: `/api/v1/orgs/${encodeURIComponent(orgId)}/quotas${
+          channel === "list-user-soft-quotas" ? "/users" : ""
+        }`,
+      };
+    }
+    case "update-org-quotas": {
+      const params = getFirstArg<{
+        orgId?: string;
+        requestsPerDayHardLimit?: number;
+        tokensPerDayHardLimit?: number;
+        concurrentPreviewJobsHardLimit?: number;
+        monthlyBudgetMicroUsd?: number | null;
+        budgetWarningThresholdPercent?: number;
+        budgetExhaustedAction?: "block" | "downgrade";
+        budgetDowngradeModel?: { provider: string; name: string } | null;
+      }>(args);
+      if (!params) {
+        return null;
+      }
+      const orgId = params.orgId?.trim() || tenantScope.orgId;
+      return {
+        method: "PATCH",
+        path: `/api/v1/orgs/${encodeURIComponent(orgId)}/quotas`,
+        body: {
+          requestsPerDayHardLimit: params.requestsPerDayHardLimit,
+          tokensPerDayHardLimit: params.tokensPerDayHardLimit,
+          concurrentPreviewJobsHardLimit: params.concurrentPreviewJobsHardLimit,
+          monthlyBudgetMicroUsd: params.monthlyBudgetMicroUsd,
+          budgetWarningThresholdPercent: params.budgetWarningThresholdPercent,
+          budgetExhaustedAction: params.budgetExhaustedAction,
+          budgetDowngradeModel: params.budgetDowngradeModel,
+        },
+      };
+    }
+    case "update-user-soft-quota": {
+      const params = getFirstArg<{
+        orgId?: string;
+        userId?: string;
+        requestsPerDaySoftLimit?: number;
+        tokensPerDaySoftLimit?: number;
+      }>(args);
+      if (!params || typeof params.userId !== "string") {
+        return null;
+      }
+      const orgId = params.orgId?.trim() || tenantScope.orgId;
+      return {
+        method: "PATCH",
+        path: `/api/v1/orgs/${encodeURIComponent(orgId)}/quotas/users/${encodeURIComponent(params.userId)}`,
+        body: {
+          requestsPerDaySoftLimit: params.requestsPerDaySoftLimit,
+          tokensPerDaySoftLimit: params.tokensPerDaySoftLimit,
+        },
+      };
+    }
+    case "remove-user-soft-quota": {
+      const params = getFirstArg<{ orgId?: string; userId?: string }>(args);
+      if (!params || typeof params.userId !== "string") {
+        return null;
+      }
+      const orgId = params.orgId?.trim() || tenantScope.orgId;
+      return {
+        method: "DELETE",
+        path: `/api/v1/orgs/${encodeURIComponent(orgId)}/quotas/users/${encodeURIComponent(params.userId)}`,
+      };
+    }
+    case "get-usage-report": {
+      const params = getFirstArg<{
+        orgId?: string;
+        from?: string;
+        to?: string;
+        workspaceId?: string;
+      }>(args);
+      const orgId = params?.orgId?.trim() || tenantScope.orgId;
+      const query: Record<string, string> = {};
+      for (const key of ["from", "to", "workspaceId"] as const) {
+        const value = params?.[key]?.trim();
+        if (value) {
+          query[key] = value;
+        }
+      }
+      return {
+        method: "GET",
+        path: `/api/v1/orgs/${encodeURIComponent(orgId)}/usage`,
+        query,
+      };
+    }
     case "list-workspaces": {
       const params = getFirstArg<{ orgId?: string }>(args);
       const orgId = params?.orgId?.trim() || tenantScope.orgId;
@@ -459,6 +676,74 @@ function resolveApiRoute(
         path: `/api/v1/orgs/${encodeURIComponent(orgId)}/workspaces/${encodeURIComponent(workspaceId)}`,
       };
     }
+    case "list-workspace-members": {
+      const params = getFirstArg<{ orgId?: string; workspaceId?: string }>(
+        args,
+      );
+      const orgId = params?.orgId?.trim() || tenantScope.orgId;
+      const workspaceId =
+        params?.workspaceId?.trim() || tenantScope.workspaceId;
+      return {
+        method: "GET",
+        path: `/api/v1/orgs/${encodeURIComponent(orgId)}/workspaces/${encodeURIComponent(workspaceId)}/members`,
+      };
+    }
+    case "invite-workspace-member": {
+      const params = getFirstArg<{
+        orgId?: string;
+        workspaceId?: string;
+        email?: string;
+        role?: string;
+      }>(args);
+      if (!params || typeof params.email !== "string") {
+        return null;
+      }
+      const orgId = params.orgId?.trim() || tenantScope.orgId;
+      const workspaceId = params.workspaceId?.trim() || tenantScope.workspaceId;
+      const body: { email: string; role?: string } = { email: params.email };
+      if (typeof params.role === "string") {
+        body.role = params.role;
+      }
+      return {
+        method: "POST",
+        path: `/api/v1/orgs/${encodeURIComponent(orgId)}/workspaces/${encodeURIComponent(workspaceId)}/members`,
+        body,
+      };
+    }
+    case "update-workspace-member": {
+      const params = getFirstArg<{
+        orgId?: string;
+        workspaceId?: string;
+        membershipId?: number;
+        role?: string;
+      }>(args);
+      if (!params || typeof params.membershipId !== "number") {
+        return null;
+      }
+      const orgId = params.orgId?.trim() || tenantScope.orgId;
+      const workspaceId = params.workspaceId?.trim() || tenantScope.workspaceId;
+      return {
+        method: "PATCH",
+        path: `/api/v1/orgs/${encodeURIComponent(orgId)}/workspaces/${encodeURIComponent(workspaceId)}/members/${params.membershipId}`,
+        body: { role: params.role },
+      };
+    }
+    case "remove-workspace-member": {
+      const params = getFirstArg<{
+        orgId?: string;
+        workspaceId?: string;
+        membershipId?: number;
+      }>(args);
+      if (!params || typeof params.membershipId !== "number") {
+        return null;
+      }
+      const orgId = params.orgId?.trim() || tenantScope.orgId;
+      const workspaceId = params.workspaceId?.trim() || tenantScope.workspaceId;
+      return {
+        method: "DELETE",
+        path: `/api/v1/orgs/${encodeURIComponent(orgId)}/workspaces/${encodeURIComponent(workspaceId)}/members/${params.membershipId}`,
+      };
+    }
     case "get-user-settings":
       return {
         method: "GET",
@@ -491,6 +776,34 @@ function resolveApiRoute(
         path: `${scopedBasePath}/apps`,
         body: getFirstArg(args),
       };
+    case "import-app":
+      return {
+        method: "POST",
+        path: `${scopedBasePath}/apps/import`,
+        body: getFirstArg(args),
+      };
+    case "export-app": {
+      const params = getFirstArg<{
+        appId?: number;
+        format?: string;
+        version?: string;
+        includeGit?: boolean;
+        includeChats?: boolean;
+      }>(args);
+      if (!params || typeof params.appId !== "number") {
+        return null;
+      }
+      return {
+        method: "GET",
+        path: `${scopedBasePath}/apps/${params.appId}/export`,
+        query: {
+          format: params.format ?? "zip",
+          ...(params.version ? { version: params.version } : {}),
+          ...(params.includeGit ? { includeGit: "true" } : {}),
+          ...(params.includeChats ? { includeChats: "true" } : {}),
+        },
+      };
+    }
     case "search-app": {
       const query = getFirstArg<string>(args);
       if (typeof query !== "string") {
@@ -584,6 +897,45 @@ function resolveApiRoute(
         path: `${scopedBasePath}/apps/${params.appId}/versions`,
       };
     }
+    case "get-version-diff": {
+      const params = getFirstArg<{
+        appId?: number;
+        from?: string;
+        to?: string;
+        filePath?: string;
+      }>(args);
+      if (
+        !params ||
+        typeof params.appId !== "number" ||
+        !params.from ||
+        !params.to
+      ) {
+        return null;
+      }
+      return {
+        method: "GET",
+        path: `${scopedBasePath}/apps/${params.appId}/versions/${params.from}...${params.to}/diff`,
+        query: params.filePath ? { path: params.filePath } : undefined,
+      };
+    }
+    case "get-app-file-history": {
+      const params = getFirstArg<{
+        appId?: number;
+        filePath?: string;
+        limit?: number;
+      }>(args);
+      if (!params || typeof params.appId !== "number" || !params.filePath) {
+        return null;
+      }
+      return {
+        method: "GET",
+        path: `${scopedBasePath}/apps/${params.appId}/file/history`,
+        query: {
+          path: params.filePath,
+          ...(params.limit ? { limit: String(params.limit) } : {}),
+        },
+      };
+    }
     case "checkout-version": {
       const params = getFirstArg<{ appId?: number; versionId?: string }>(args);
       if (!params || typeof params.appId !== "number") {
@@ -634,6 +986,136 @@ function resolveApiRoute(
         },
       };
     }
+    case "get-app-git-remote": {
+      const params = getFirstArg<{ appId?: number; fetch?: boolean }>(args);
+      if (!params || typeof params.appId !== "number") {
+        return null;
+      }
+      return {
+        method: "GET",
+        path: `${scopedBasePath}/apps/${params.appId}/git/remote`,
+        query:
+          typeof params.fetch === "boolean"
+            ? { fetch: String(params.fetch) }
+            : undefined,
+      };
+    }
+    case "connect-app-git-remote": {
+      const params = getFirstArg<{
+        appId?: number;
+        remoteUrl?: string;
+        accessToken?: string | null;
+      }>(args);
+      if (!params || typeof params.appId !== "number") {
+        return null;
+      }
+      if (typeof params.remoteUrl !== "string" || !params.remoteUrl) {
+        return null;
+      }
+      return {
+        method: "PATCH",
+        path: `${scopedBasePath}/apps/${params.appId}/git/remote`,
+        body:
+          params.accessToken === undefined
+            ? { remoteUrl: params.remoteUrl }
+            : { remoteUrl: params.remoteUrl, accessToken: params.accessToken },
+      };
+    }
+    case "push-app-git-remote":
+    case "pull-app-git-remote": {
+      const params = getFirstArg<{
+        appId?: number;
+        branch?: string;
+        force?: boolean;
+      }>(args);
+      if (!params || typeof params.appId !== "number") {
+        return null;
+      }
+      const body: { branch?: string; force?: boolean } = {};
+      if (params.branch) {
+        body.branch = params.branch;
+      }
+      if (channel === "push-app-git-remote" && params.force !== undefined) {
+        body.force = params.force;
+      }
+      return {
+        method: "POST",
+        path: `${scopedBasePath}/apps/${params.appId}/git/${channel === "push-app-git-remote" ? "push" : "pull"}`,
+        body,
+      };
+    }
+    case "list-app-git-branches":
+    case "get-app-git-merge":
+    case "abort-app-git-merge": {
+      const params = getFirstArg<{ appId?: number }>(args);
+      if (!params || typeof params.appId !== "number") {
+        return null;
+      }
+      const basePath = `${scopedBasePath}/apps/${params.appId}/git`;
+      if (channel === "list-app-git-branches") {
+        return { method: "GET", path: `${basePath}/branches` };
+      }
+      if (channel === "get-app-git-merge") {
+        return { method: "GET", path: `${basePath}/merge` };
+      }
+      return { method: "POST", path: `${basePath}/merge/abort` };
+    }
+    case "create-app-git-branch": {
+      const params = getFirstArg<{
+        appId?: number;
+        name?: string;
+        from?: string;
+        checkout?: boolean;
+      }>(args);
+      if (!params || typeof params.appId !== "number" || !params.name) {
+        return null;
+      }
+      return {
+        method: "POST",
+        path: `${scopedBasePath}/apps/${params.appId}/git/branches`,
+        body: {
+          name: params.name,
+          ...(params.from ? { from: params.from } : {}),
+          ...(params.checkout !== undefined
+            ? { checkout: params.checkout }
+            : {}),
+        },
+      };
+    }
+    case "checkout-app-git-branch":
+    case "rename-app-git-branch":
+    case "delete-app-git-branch": {
+      const params = getFirstArg<{
+        appId?: number;
+        branch?: string;
+        name?: string;
+      }>(args);
+      if (!params || typeof params.appId !== "number" || !params.branch) {
+        return null;
+      }
+      const branchPath = `${scopedBasePath}/apps/${params.appId}/git/branches/${encodeURIComponent(params.branch)}`;
+      if (channel === "checkout-app-git-branch") {
+        return { method: "POST", path: `${branchPath}/checkout` };
+      }
+      if (channel === "delete-app-git-branch") {
+        return { method: "DELETE", path: branchPath };
+      }
+      if (!params.name) {
+        return null;
+      }
+      return { method: "PATCH", path: branchPath, body: { name: params.name } };
+    }
+    case "merge-app-git-branch": {
+      const params = getFirstArg<{ appId?: number; branch?: string }>(args);
+      if (!params || typeof params.appId !== "number" || !params.branch) {
+        return null;
+      }
+      return {
+        method: "POST",
+        path: `${scopedBasePath}/apps/${params.appId}/git/merge`,
+        body: { branch: params.branch },
+      };
+    }
     case "read-app-file": {
       const params = getFirstArg<{ appId?: number; filePath?: string }>(args);
       if (!params || typeof params.appId !== "number") {
@@ -695,6 +1177,36 @@ function resolveApiRoute(
             : undefined,
       };
     }
+    case "resolve-mcp-tool-consent": {
+      const params = getFirstArg<{
+        chatId?: number;
+        requestId?: string;
+        decision?: string;
+      }>(args);
+      if (!params || typeof params.chatId !== "number") {
+        return null;
+      }
+      return {
+        method: "POST",
+        path: `${scopedBasePath}/chats/${params.chatId}/mcp-consents`,
+        body: { requestId: params.requestId, decision: params.decision },
+      };
+    }
+    case "resolve-agent-tool-consent": {
+      const params = getFirstArg<{
+        chatId?: number;
+        requestId?: string;
+        decision?: string;
+      }>(args);
+      if (!params || typeof params.chatId !== "number") {
+        return null;
+      }
+      return {
+        method: "POST",
+        path: `${scopedBasePath}/chats/${params.chatId}/agent-consents`,
+        body: { requestId: params.requestId, decision: params.decision },
+      };
+    }
     case "delete-chat": {
       const chatId = getFirstArg<number>(args);
       if (typeof chatId !== "number") {
@@ -716,7 +1228,12 @@ function resolveApiRoute(
       };
     }
     case "approve-proposal": {
-      const params = getFirstArg<{ chatId?: number; messageId?: number }>(args);
+      const params = getFirstArg<{
+        chatId?: number;
+        messageId?: number;
+        actionIds?: string[];
+        paths?: string[];
+      }>(args);
       if (
         !params ||
         typeof params.chatId !== "number" ||
@@ -729,6 +1246,8 @@ function resolveApiRoute(
         path: `${scopedBasePath}/chats/${params.chatId}/proposal/approve`,
         body: {
           messageId: params.messageId,
+          actionIds: params.actionIds,
+          paths: params.paths,
         },
       };
     }
@@ -770,6 +1289,14 @@ function resolveApiRoute(
         path: "/api/v1/auth/oauth/exchange",
         body: getFirstArg(args),
       };
+    case "logout-auth-session":
+      return {
+        method: "POST",
+        path: "/api/v1/auth/logout",
+        body: {
+          sessionToken: getFirstArg<string>(args),
+        },
+      };
     default:
       return null;
   }
@@ -888,14 +1415,74 @@ function getFetchPathWithQuery(
   return `${path}?${queryString}`;
 }
 
+let pendingSessionRefresh: Promise<boolean> | null = null;
+
+/**
+ * Trades the stored session token for a fresh access token. Concurrent 401s
+ * share one refresh so a rotated refresh token is only used once.
+ */
+function refreshAuthSession(baseUrl: string): Promise<boolean> {
+  if (!pendingSessionRefresh) {
+    pendingSessionRefresh = requestAuthSessionRefresh(baseUrl).finally(() => {
+      pendingSessionRefresh = null;
+    });
+  }
+  return pendingSessionRefresh;
+}
+
+async function requestAuthSessionRefresh(baseUrl: string): Promise<boolean> {
+  const sessionToken = getLocalStorageValue(
+    AUTH_SESSION_TOKEN_STORAGE_KEY,
+  )?.trim();
+  if (!sessionToken) {
+    return false;
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(`${baseUrl}${AUTH_SESSION_REFRESH_PATH}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ sessionToken }),
+    });
+  } catch {
+    return false;
+  }
+
+  if (!response.ok) {
+    if (response.status === 401) {
+      // The session was revoked or expired server-side; it cannot recover.
+      removeStorageValue(window.localStorage, AUTH_SESSION_TOKEN_STORAGE_KEY);
+    }
+    return false;
+  }
+
+  const payload = (await response.json().catch(() => null)) as {
+    data?: { idToken?: string | null; accessToken?: string | null };
+  } | null;
+  // Same preference as the sign-in page: the ID token is what the API verifies.
+  const nextToken =
+    payload?.data?.idToken?.trim() || payload?.data?.accessToken?.trim();
+  if (!nextToken) {
+    return false;
+  }
+
+  writeStorageValue(window.localStorage, AUTH_TOKEN_STORAGE_KEY, nextToken);
+  return true;
+}
+
 async function invokeApiRoute<T>({
   baseUrl,
   channel,
   request,
+  allowSessionRefresh = true,
 }: {
   baseUrl: string;
   channel: string;
   request: HttpApiRequest;
+  allowSessionRefresh?: boolean;
 }): Promise<T> {
   const url = `${baseUrl}${getFetchPathWithQuery(request.path, request.query)}`;
   const headers = getDefaultRequestHeaders(channel);
@@ -905,6 +1492,20 @@ async function invokeApiRoute<T>({
     body: request.body === undefined ? undefined : JSON.stringify(request.body),
   });
 
+  if (
+    response.status === 401 &&
+    allowSessionRefresh &&
+    !AUTH_SESSION_CHANNELS.has(channel) &&
+    (await refreshAuthSession(baseUrl))
+  ) {
+    return invokeApiRoute<T>({
+      baseUrl,
+      channel,
+      request,
+      allowSessionRefresh: false,
+    });
+  }
+
   if (!response.ok) {
     const errorText = await response.text().catch(() => "");
     throw createBackendError({
@@ -930,6 +1531,9 @@ async function invokeApiRoute<T>({
     }
     return payload as T;
   }
+  if (BINARY_CONTENT_TYPES.some((type) => contentType.startsWith(type))) {
+    return (await response.blob()) as T;
+  }
 
   return (await response.text()) as T;
 }
@@ -18,6 +18,9 @@ export interface GitCommitParams extends GitBaseParams {
 export interface GitFileParams extends GitBaseParams {
   filepath: string;
 }
+export interface GitFilesParams extends GitBaseParams {
+  filepaths: string[];
+}
 export interface GitCheckoutParams extends GitBaseParams {
   ref: string;
 }
@@ -34,6 +37,19 @@ export interface GitCloneParams {
 }
 export interface GitLogParams extends GitBaseParams {
   depth?: number;
+  /** Only commits that changed this file, following renames. */
+  filepath?: string;
+}
+export interface GitDiffParams extends GitBaseParams {
+  from: string;
+  to: string;
+  filepath?: string;
+}
+export interface GitChangedFile {
+  status: "added" | "modified" | "deleted" | "renamed";
+  path: string;
+  /** Source path of a rename. */
+  fromPath?: string;
 }
 
 export interface GitResult {
@@ -42,10 +58,18 @@ export interface GitResult {
 }
 export interface GitPushParams extends GitBaseParams {
   branch: string;
-  accessToken: string;
+  accessToken?: string;
   force?: boolean;
   forceWithLease?: boolean;
 }
+export interface GitTreeParams extends GitBaseParams {
+  ref: string;
+}
+export interface GitTreeFile {
+  path: string;
+  size: number;
+  executable: boolean;
+}
 export interface GitFileAtCommitParams extends GitBaseParams {
   filePath: string;
   commitHash: string;
@@ -59,6 +83,9 @@ export interface GitInitParams extends GitBaseParams {
 export interface GitStageToRevertParams extends GitBaseParams {
   targetOid: string;
 }
+export interface GitResetHardParams extends GitBaseParams {
+  targetOid: string;
+}
 export interface GitAuthorParam {
   name: string;
   email: string;
@@ -66,6 +93,14 @@ export interface GitAuthorParam {
   timezoneOffset?: number;
 }
 
+export interface GitRemoteParams extends GitBaseParams {
+  remote?: string;
+}
+
+export interface GitAheadBehindParams extends GitRemoteParams {
+  branch: string;
+}
+
 export interface GitFetchParams extends GitBaseParams {
   remote?: string;
   accessToken?: string;
@@ -92,3 +127,7 @@ export interface GitCreateBranchParams extends GitBaseParams {
 export interface GitDeleteBranchParams extends GitBaseParams {
   branch: string;
 }
+
+export interface GitSwitchBranchParams extends GitBaseParams {
+  branch: string;
+}
@@ -25,8 +25,10 @@ import type { ChatResponseEnd, ChatStreamParams } from "../ipc_types";
 import {
   CodebaseFile,
   extractCodebase,
+  formatCodebaseFiles,
   readFileWithCache,
 } from "../../utils/codebase";
+import { selectSmartContextFiles } from "../../utils/code_search_index";
 import {
   dryRunSearchReplace,
   processFullResponseActions,
@@ -34,6 +36,7 @@ import {
 import { streamTestResponse } from "./testing_chat_handlers";
 import { getTestResponse } from "./testing_chat_handlers";
 import { getModelClient, ModelClient } from "../utils/get_model_client";
+import type { LanguageModelProviderScope } from "../shared/language_model_helpers";
 import { log } from "@/lib/logger";
 import { sendTelemetryEvent } from "../utils/telemetry";
 import { SUMMARIZE_CHAT_SYSTEM_PROMPT } from "../../prompts/summarize_chat_system_prompt";
@@ -52,11 +55,13 @@ import { getProviderOptions, getAiHeaders } from "../utils/provider_options";
 import { safeSend } from "../utils/safe_sender";
 import { cleanFullResponse } from "../utils/cleanFullResponse";
 import { generateProblemReport } from "../processors/tsc";
+import { formatProposalReviewFeedback } from "../processors/proposal_review";
 import { createProblemFixPrompt } from "../../shared/problem_prompt";
 import { AsyncVirtualFileSystem } from "../../../shared/VirtualFilesystem";
 import {
   getBlazeAddDependencyTags,
   getBlazeSearchReplaceTags,
+  getBlazePatchTags,
   getBlazeWriteTags,
   getBlazeDeleteTags,
   getBlazeRenameTags,
@@ -65,12 +70,16 @@ import { fileExists } from "../utils/file_utils";
 import { FileUploadsState } from "../utils/file_uploads_state";
 import { extractMentionedAppsCodebases } from "../utils/mention_apps";
 import { parseAppMentions } from "../../shared/parse_mention_apps";
+import { parseBlazeMarkup } from "../../shared/blaze_tags";
 import { prompts as promptsTable } from "/src/db/schema.ts";
 import { inArray } from "drizzle-orm";
 import { replacePromptReference } from "../utils/replacePromptReference";
 import { isTurboEditsV2Enabled } from "../../lib/schemas";
 import { AI_STREAMING_ERROR_MESSAGE_PREFIX } from "../../shared/texts";
-import { getCurrentCommitHash } from "../utils/git_utils";
+import {
+  assertGitBranchCheckedOut,
+  getCurrentCommitHash,
+} from "../utils/git_utils";
 import {
   processChatMessagesWithVersionedFiles as getVersionedFiles,
   VersionedFiles,
@@ -84,6 +93,19 @@ import {
 } from "../utils/response_language_prompt";
 import { extractActionableBlazeTags } from "../utils/actionable_blaze_tags";
 import { type ServerEventSink } from "../utils/server_event_sink";
+import {
+  addLanguageModelUsage,
+  computeTokenCostMicroUsd,
+  createEmptyTokenUsage,
+  getModelTokenPrices,
+} from "../utils/token_cost";
+import {
+  buildMcpChatToolSet,
+  buildMcpToolBlock,
+  formatMcpToolOutput,
+} from "../utils/mcp_chat_tools";
+import { isMcpChatToolsEnabled } from "/src/http/feature_flags.ts";
+import { handleLocalAgentStream } from "/src/core/main/ipc/handlers/local_agent/local_agent_handler.ts";
 
 type AsyncIterableStream<T> = AsyncIterable<T> & ReadableStream<T>;
 
@@ -126,6 +148,7 @@ function escapeXml(unsafe: string): string {
 const DIAGNOSTIC_TITLE = "Diagnostic details";
 const MAX_DIAGNOSTIC_BLOCK_CHARS = 18000;
 const MAX_SUMMARY_INPUT_CHARS = 12000;
+const LOCAL_SMART_CONTEXT_MAX_FILES = 100;
 
 type ApplyStatus = {
   updatedFiles?: boolean;
@@ -143,6 +166,21 @@ const COMMAND_RECOMMENDATION_PATTERNS = [
 ];
 const DOM_COMPONENT_PATH_PREFIX = "__dom__/";
 
+export function readChatStreamSettings(req: ChatStreamParams): UserSettings {
+  // Streams without a tenant (desktop) keep using the settings file.
+  const settings = req.settings ?? readSettings();
+  if (!req.modelOverride) {
+    return settings;
+  }
+  return {
+    ...settings,
+    selectedModel: {
+      provider: req.modelOverride.provider,
+      name: req.modelOverride.name,
+    },
+  };
+}
+
 function truncateText(value: string, maxChars: number): string {
   if (value.length <= maxChars) {
     return value;
@@ -445,6 +483,7 @@ function hasApplicableChangeTags(rawResponse: string): boolean {
   return (
     getBlazeWriteTags(rawResponse).length > 0 ||
     getBlazeSearchReplaceTags(rawResponse).length > 0 ||
+    getBlazePatchTags(rawResponse).length > 0 ||
     getBlazeRenameTags(rawResponse).length > 0 ||
     getBlazeDeleteTags(rawResponse).length > 0 ||
     getBlazeAddDependencyTags(rawResponse).length > 0
@@ -465,11 +504,13 @@ async function collectStreamText(
 
 async function generateSummaryWithExternalLlm({
   settings,
+  tenantScope,
   appId,
   diagnosticsPayload,
   autoApplied,
 }: {
   settings: UserSettings;
+  tenantScope: LanguageModelProviderScope;
   appId: number;
   diagnosticsPayload: string;
   autoApplied: boolean;
@@ -477,6 +518,7 @@ async function generateSummaryWithExternalLlm({
   const { modelClient } = await getModelClient(
     settings.selectedModel,
     settings,
+    tenantScope,
   );
   const userPrompt = [
     "Summarize this coding-agent run for the end user.",
@@ -542,8 +584,26 @@ export function buildClientServerStreamChunk(
       nextThinkingBlock = true;
     }
     chunk += escapeBlazeTags(part.text);
-  } else if (part.type === "tool-call" || part.type === "tool-result") {
-    // MCP tool call/result chunks are not part of the active client-server v1 stream contract.
+  } else if (part.type === "tool-call") {
+    chunk += buildMcpToolBlock(
+      "blaze-mcp-tool-call",
+      part.toolName,
+      JSON.stringify(part.input, null, 2) ?? "",
+    );
+  } else if (part.type === "tool-result") {
+    chunk += buildMcpToolBlock(
+      "blaze-mcp-tool-result",
+      part.toolName,
+      formatMcpToolOutput(part.output),
+      (part.output as { isError?: unknown } | null)?.isError === true,
+    );
+  } else if (part.type === "tool-error") {
+    chunk += buildMcpToolBlock(
+      "blaze-mcp-tool-result",
+      part.toolName,
+      part.error instanceof Error ? part.error.message : String(part.error),
+      true,
+    );
   }
 
   return {
@@ -640,6 +700,14 @@ export async function handleChatStreamRequest(
       app: initialChatApp,
     });
 
+    // Work on the branch the chat was created on, so the model sees its files
+    if (chat.branch) {
+      await assertGitBranchCheckedOut({
+        path: getBlazeAppPath(initialChatApp.path),
+        branch: chat.branch,
+      });
+    }
+
     // Handle redo option: remove the most recent messages if needed
     if (req.redo) {
       // Get the most recent messages
@@ -807,9 +875,9 @@ export async function handleChatStreamRequest(
       })
       .returning({ id: messages.id });
     const userMessageId = insertedUserMessage.id;
-    const settings = readSettings();
+    const settings = readChatStreamSettings(req);
     const selectedChatMode =
-      settings.selectedChatMode === "ask" ? "ask" : "build";
+      req.chatMode ?? settings.selectedChatMode ?? "build";
     const responseLanguage = resolveUiLanguage(settings.uiLanguage);
     logger.log(
       "chat stream start",
@@ -837,6 +905,7 @@ export async function handleChatStreamRequest(
         content: "", // Start with empty content
         requestId: blazeRequestId,
         model: settings.selectedModel.name,
+        chatMode: selectedChatMode,
         sourceCommitHash: await getCurrentCommitHash({
           path: getBlazeAppPath(initialChatApp.path),
         }),
@@ -875,6 +944,8 @@ export async function handleChatStreamRequest(
 
     let fullResponse = "";
     let maxTokensUsed: number | undefined;
+    // Unlike maxTokensUsed, this sums every model call made for the turn.
+    let tokenUsage = createEmptyTokenUsage();
 
     // Check if this is a test prompt
     const testResponse = getTestResponse(req.prompt);
@@ -888,10 +959,33 @@ export async function handleChatStreamRequest(
         abortController,
         updatedChat,
       );
+    } else if (selectedChatMode === "agent") {
+      // The agent edits files through tools and commits on its own, so it
+      // skips the tag processing below.
+      await handleLocalAgentStream(eventSink, req, abortController, {
+        placeholderMessageId: placeholderAssistantMessage.id,
+        systemPrompt: appendResponseLanguageInstruction(
+          constructSystemPrompt({
+            aiRules: await readAiRules(getBlazeAppPath(chatApp.path)),
+            chatMode: "agent",
+            enableTurboEditsV2: false,
+            themePrompt: getThemePrompt(chatApp.themeId),
+          }),
+          settings.uiLanguage,
+        ),
+        blazeRequestId: blazeRequestId ?? uuidv4(),
+        settings,
+        tenantScope: messageTenantScope,
+      });
+      return;
     } else {
       // Normal AI processing for non-test prompts
       const { modelClient, isEngineEnabled, isSmartContextEnabled } =
-        await getModelClient(settings.selectedModel, settings);
+        await getModelClient(
+          settings.selectedModel,
+          settings,
+          messageTenantScope,
+        );
 
       const appPath = getBlazeAppPath(chatApp.path);
       // When we don't have smart context enabled, we
@@ -912,10 +1006,37 @@ export async function handleChatStreamRequest(
           : validateChatContext(chatApp.chatContext);
 
       // Extract codebase for current app
-      const { formattedOutput: codebaseInfo, files } = await extractCodebase({
+      const extractedCodebase = await extractCodebase({
         appPath,
         chatContext,
       });
+      let codebaseInfo = extractedCodebase.formattedOutput;
+      let files = extractedCodebase.files;
+
+      // Without the engine, smart context is done locally: larger codebases
+      // are capped, keeping the files the code index ranks highest for the
+      // prompt.
+      if (
+        !isEngineEnabled &&
+        settings.enableProSmartFilesContextMode &&
+        !req.selectedComponents?.length &&
+        !chatContext.contextPaths?.length &&
+        files.length > LOCAL_SMART_CONTEXT_MAX_FILES
+      ) {
+        const selectedFiles = selectSmartContextFiles({
+          appPath,
+          files,
+          query: req.prompt,
+          maxFiles: LOCAL_SMART_CONTEXT_MAX_FILES,
+        });
+        if (selectedFiles.length < files.length) {
+          logger.log(
+            `Local smart context selected ${selectedFiles.length} of ${files.length} files`,
+          );
+          files = selectedFiles;
+          codebaseInfo = formatCodebaseFiles(selectedFiles);
+        }
+      }
 
       // For smart context and selected components, we will mark the selected components' files as focused.
       // This means that we don't do the regular smart context handling, but we'll allow fetching
@@ -978,12 +1099,21 @@ export async function handleChatStreamRequest(
       );
 
       // Prepare message history for the AI
-      const messageHistory = updatedChat.messages.map((message) => ({
-        role: message.role as "user" | "assistant" | "system",
-        content: message.content,
-        sourceCommitHash: message.sourceCommitHash,
-        commitHash: message.commitHash,
-      }));
+      const messageHistory = updatedChat.messages.map((message) => {
+        // Tell the model which changes of a partially approved proposal
+        // were rejected.
+        const proposalFeedback = formatProposalReviewFeedback(
+          message.proposalReview,
+        );
+        return {
+          role: message.role as "user" | "assistant" | "system",
+          content: proposalFeedback
+            ? `${message.content}\n\n${proposalFeedback}`
+            : message.content,
+          sourceCommitHash: message.sourceCommitHash,
+          commitHash: message.commitHash,
+        };
+      });
 
       // For Blaze Pro + Deep Context, we set to 200 chat turns (+1)
       // this is to enable more cache hits. Practically, users should
@@ -1288,6 +1418,7 @@ This conversation includes one or more image attachments. When the user uploads
           tools,
           messages: chatMessages.filter((m) => m.content),
           onFinish: (response) => {
+            tokenUsage = addLanguageModelUsage(tokenUsage, response.totalUsage);
             const totalTokens = response.usage?.totalTokens;
 
             if (typeof totalTokens === "number") {
@@ -1380,11 +1511,31 @@ This conversation includes one or more image attachments. When the user uploads
         return fullResponse;
       };
 
+      let mcpTools: ToolSet | undefined;
+      if (
+        isMcpChatToolsEnabled() &&
+        messageTenantScope.organizationId &&
+        messageTenantScope.workspaceId
+      ) {
+        try {
+          mcpTools = await buildMcpChatToolSet({
+            eventSink,
+            chatId: req.chatId,
+            organizationId: messageTenantScope.organizationId,
+            workspaceId: messageTenantScope.workspaceId,
+            abortSignal: abortController.signal,
+          });
+        } catch (error) {
+          logger.warn("Failed to build MCP tools for chat stream", error);
+        }
+      }
+
       // When calling streamText, the messages need to be properly formatted for mixed content
       const { fullStream } = await simpleStreamText({
         chatMessages,
         modelClient,
         files: files,
+        tools: mcpTools,
       });
 
       // Process the stream as before
@@ -1399,7 +1550,7 @@ This conversation includes one or more image attachments. When the user uploads
         fullResponse = result.fullResponse;
 
         const shouldRetryForMissingActionableTags =
-          settings.selectedChatMode !== "ask" &&
+          selectedChatMode !== "ask" &&
           (req.selectedComponents?.length ?? 0) > 0 &&
           !hasApplicableChangeTags(fullResponse);
 
@@ -1410,7 +1561,7 @@ This conversation includes one or more image attachments. When the user uploads
 
           const retryPrompt = `Your previous response did not include any actionable Blaze change tags.
 Generate ONLY actionable tags that implement the user's request for the selected components:
-- Use <blaze-write>, <blaze-search-replace>, <blaze-rename>, <blaze-delete>, and <blaze-add-dependency> when needed.
+- Use <blaze-write>, <blaze-patch>, <blaze-search-replace>, <blaze-rename>, <blaze-delete>, and <blaze-add-dependency> when needed.
 - You may include <blaze-chat-summary>.
 - Do not provide plain-language completion claims without actionable tags.`;
 
@@ -1441,9 +1592,10 @@ Generate ONLY actionable tags that implement the user's request for the selected
         }
 
         const shouldFixSearchReplaceIssues =
-          settings.selectedChatMode !== "ask" &&
+          selectedChatMode !== "ask" &&
           (isTurboEditsV2Enabled(settings) ||
-            getBlazeSearchReplaceTags(fullResponse).length > 0);
+            getBlazeSearchReplaceTags(fullResponse).length > 0 ||
+            getBlazePatchTags(fullResponse).length > 0);
 
         if (shouldFixSearchReplaceIssues) {
           let issues = await dryRunSearchReplace({
@@ -1488,8 +1640,8 @@ Generate ONLY actionable tags that implement the user's request for the selected
 
             const fixSearchReplacePrompt =
               searchReplaceFixAttempts === 0
-                ? `There was an issue with the following \`blaze-search-replace\` tags. Make sure you use \`blaze-read\` to read the latest version of the file and then trying to do search & replace again.`
-                : `There was an issue with the following \`blaze-search-replace\` tags. Please fix the errors by generating the code changes using \`blaze-write\` tags instead.`;
+                ? `There was an issue with the following \`blaze-search-replace\` or \`blaze-patch\` tags. Make sure you use \`blaze-read\` to read the latest version of the file and then trying to do search & replace or patch again.`
+                : `There was an issue with the following \`blaze-search-replace\` or \`blaze-patch\` tags. Please fix the errors by generating the code changes using \`blaze-write\` tags instead.`;
             searchReplaceFixAttempts++;
             const userPrompt = {
               role: "user",
@@ -1544,7 +1696,7 @@ ${formattedSearchReplaceIssues}`,
 
         if (
           !abortController.signal.aborted &&
-          settings.selectedChatMode !== "ask" &&
+          selectedChatMode !== "ask" &&
           hasUnclosedBlazeWrite(fullResponse)
         ) {
           let continuationAttempts = 0;
@@ -1590,7 +1742,7 @@ ${formattedSearchReplaceIssues}`,
           // installed yet.
           addDependencies.length === 0 &&
           settings.enableAutoFixProblems &&
-          settings.selectedChatMode !== "ask"
+          selectedChatMode !== "ask"
         ) {
           try {
             // IF auto-fix is enabled
@@ -1647,6 +1799,7 @@ ${problemReport.problems
               const { modelClient } = await getModelClient(
                 settings.selectedModel,
                 settings,
+                messageTenantScope,
               );
 
               const { fullStream } = await simpleStreamText({
@@ -1754,14 +1907,32 @@ ${problemReport.problems
       }
       const chatSummary = chatTitle?.[1];
 
+      const settings = readChatStreamSettings(req);
+      const prices = await getModelTokenPrices({
+        organizationId: messageTenantScope.organizationId,
+        workspaceId: messageTenantScope.workspaceId,
+        provider: settings.selectedModel.provider,
+        apiName: settings.selectedModel.name,
+      }).catch((error) => {
+        logger.warn("Failed to load model prices", error);
+        return null;
+      });
+      // Providers that report no usage leave the turn without counts.
+      const turnUsage =
+        tokenUsage.inputTokens + tokenUsage.outputTokens > 0
+          ? {
+              ...tokenUsage,
+              costMicroUsd: computeTokenCostMicroUsd(tokenUsage, prices),
+            }
+          : {};
+
       // Update the placeholder assistant message with the full response
       await db
         .update(messages)
-        .set({ content: fullResponse })
+        .set({ content: fullResponse, ...turnUsage })
         .where(eq(messages.id, placeholderAssistantMessage.id));
-      const settings = readSettings();
       const autoApplied = Boolean(
-        settings.autoApproveChanges && settings.selectedChatMode !== "ask",
+        settings.autoApproveChanges && selectedChatMode !== "ask",
       );
       let status: ApplyStatus = {
         updatedFiles: false,
@@ -1821,6 +1992,7 @@ ${problemReport.problems
         try {
           summaryMessageContent = await generateSummaryWithExternalLlm({
             settings,
+            tenantScope: messageTenantScope,
             appId: chatApp.id,
             diagnosticsPayload,
             autoApplied,
@@ -1882,6 +2054,9 @@ ${problemReport.problems
         updatedFiles: status.updatedFiles ?? false,
         extraFiles: status.extraFiles,
         extraFilesError: status.extraFilesError,
+        totalTokens: maxTokensUsed,
+        model: settings.selectedModel.name,
+        ...turnUsage,
       } satisfies ChatResponseEnd);
     }
 
@@ -2099,25 +2274,10 @@ export function removeBlazeTags(text: string): string {
 }
 
 export function hasUnclosedBlazeWrite(text: string): boolean {
-  // Find the last opening blaze-write tag
-  const openRegex = /<blaze-write[^>]*>/g;
-  let lastOpenIndex = -1;
-  let match;
-
-  while ((match = openRegex.exec(text)) !== null) {
-    lastOpenIndex = match.index;
-  }
-
-  // If no opening tag found, there's nothing unclosed
-  if (lastOpenIndex === -1) {
-    return false;
-  }
-
-  // Look for a closing tag after the last opening tag
-  const textAfterLastOpen = text.substring(lastOpenIndex);
-  const hasClosingTag = /<\/blaze-write>/.test(textAfterLastOpen);
-
-  return !hasClosingTag;
+  // Tags do not nest, so only the last element can still be open.
+  const { elements } = parseBlazeMarkup(text);
+  const lastElement = elements[elements.length - 1];
+  return lastElement?.name === "blaze-write" && !lastElement.closed;
 }
 
 function escapeBlazeTags(text: string): string {
@@ -1,26 +1,55 @@
 import {
+  type ChatMode,
   type ChatSummary,
   ChatSummariesSchema,
   type UserSettings,
   type ProposalResult,
+  type VersionDiff,
 } from "@/lib/schemas";
 import type {
+  AgentToolConsentRequest,
   App,
   AppOutput,
   ApproveProposalResult,
+  AuditEventPage,
   Chat,
   ChatResponseEnd,
   ComponentSelection,
   CreateAppParams,
   CreateAppResult,
   CreateWorkspaceParams,
+  ExportAppParams,
+  ExportAuditEventsParams,
   FileAttachment,
+  ImportAppParams,
+  ImportAppResult,
+  InviteMemberParams,
+  ListAuditEventsParams,
+  ListMembersParams,
+  McpToolConsentRequest,
   Message,
+  OrganizationQuota,
   PatchAppParams,
+  RemoveMemberParams,
+  ResolveAgentToolConsentParams,
+  ResolveMcpToolConsentParams,
   RevertVersionParams,
   RevertVersionResponse,
+  AppGitBranches,
+  AppGitMergeResult,
+  AppGitRemoteStatus,
+  ConnectAppGitRemoteParams,
+  CreateAppGitBranchParams,
+  GitMergeConflictFile,
+  TenantMember,
   TenantOrganization,
   TenantWorkspace,
+  UpdateMemberRoleParams,
+  UpdateOrganizationQuotaParams,
+  UpdateUserSoftQuotaParams,
+  UsageReport,
+  UsageReportParams,
+  UserSoftQuota,
   Version,
 } from "./ipc_types";
 import {
@@ -44,9 +73,13 @@ interface StreamMessageOptions {
   chatId: number;
   redo?: boolean;
   attachments?: FileAttachment[];
+  /** Overrides the user's selected chat mode for this turn. */
+  chatMode?: ChatMode;
   onUpdate: (messages: Message[]) => void;
   onEnd: (response: ChatResponseEnd) => void;
   onError: (error: string) => void;
+  onMcpToolConsentRequest?: (request: McpToolConsentRequest) => void;
+  onAgentToolConsentRequest?: (request: AgentToolConsentRequest) => void;
 }
 
 function normalizeDate(value: unknown): Date {
@@ -275,6 +308,104 @@ export class IpcClient {
     return this.backend.invoke("create-workspace", params);
   }
 
+  public async listMembers(params: ListMembersParams): Promise<TenantMember[]> {
+    const { scope, ...scopeParams } = params;
+    const data = await this.backend.invoke<unknown>(
+      scope === "organization" ? "list-org-members" : "list-workspace-members",
+      scopeParams,
+    );
+    return Array.isArray(data) ? (data as TenantMember[]) : [];
+  }
+
+  public async listAuditEvents(
+    params: ListAuditEventsParams,
+  ): Promise<AuditEventPage> {
+    const data = await this.backend.invoke<AuditEventPage | null>(
+      "list-audit-events",
+      params,
+    );
+    return {
+      events: Array.isArray(data?.events) ? data.events : [],
+      nextCursor: data?.nextCursor ?? null,
+    };
+  }
+
+  /** Returns the exported file contents (CSV or JSON Lines). */
+  public async exportAuditEvents(
+    params: ExportAuditEventsParams,
+  ): Promise<string> {
+    return this.backend.invoke<string>("export-audit-events", params);
+  }
+
+  public async getOrganizationQuota(
+    orgId?: string,
+  ): Promise<OrganizationQuota> {
+    return this.backend.invoke("get-org-quotas", { orgId });
+  }
+
+  public async updateOrganizationQuota(
+    params: UpdateOrganizationQuotaParams,
+  ): Promise<OrganizationQuota> {
+    return this.backend.invoke("update-org-quotas", params);
+  }
+
+  public async listUserSoftQuotas(orgId?: string): Promise<UserSoftQuota[]> {
+    const data = await this.backend.invoke<UserSoftQuota[] | null>(
+      "list-user-soft-quotas",
+      { orgId },
+    );
+    return Array.isArray(data) ? data : [];
+  }
+
+  public async updateUserSoftQuota(
+    params: UpdateUserSoftQuotaParams,
+  ): Promise<void> {
+    await this.backend.invoke("update-user-soft-quota", params);
+  }
+
+  public async removeUserSoftQuota(params: {
+    orgId?: string;
+    userId: string;
+  }): Promise<void> {
+    await this.backend.invoke("remove-user-soft-quota", params);
+  }
+
+  public async getUsageReport(params: UsageReportParams): Promise<UsageReport> {
+    return this.backend.invoke("get-usage-report", params);
+  }
+
+  public async inviteMember(params: InviteMemberParams): Promise<TenantMember> {
+    const { scope, ...payload } = params;
+    return this.backend.invoke(
+      scope === "organization"
+        ? "invite-org-member"
+        : "invite-workspace-member",
+      payload,
+    );
+  }
+
+  public async updateMemberRole(
+    params: UpdateMemberRoleParams,
+  ): Promise<TenantMember> {
+    const { scope, ...payload } = params;
+    return this.backend.invoke(
+      scope === "organization"
+        ? "update-org-member"
+        : "update-workspace-member",
+      payload,
+    );
+  }
+
+  public async removeMember(params: RemoveMemberParams): Promise<void> {
+    const { scope, ...payload } = params;
+    await this.backend.invoke(
+      scope === "organization"
+        ? "remove-org-member"
+        : "remove-workspace-member",
+      payload,
+    );
+  }
+
   public async listApps(): Promise<{ apps: App[] }> {
     const response = await this.backend.invoke<{ apps: App[] }>("list-apps");
     return {
@@ -294,6 +425,15 @@ export class IpcClient {
     return this.backend.invoke("create-app", params);
   }
 
+  public async importApp(params: ImportAppParams): Promise<ImportAppResult> {
+    return this.backend.invoke("import-app", params);
+  }
+
+  /** Returns the archive of the app sources for download. */
+  public async exportApp(params: ExportAppParams): Promise<Blob> {
+    return this.backend.invoke<Blob>("export-app", params);
+  }
+
   public async patchApp(appId: number, params: PatchAppParams): Promise<App> {
     const updatedApp = await this.backend.invoke<App>("patch-app", appId, {
       ...params,
@@ -327,12 +467,111 @@ export class IpcClient {
     return this.backend.invoke("list-versions", params);
   }
 
+  /** Per-file changes between two versions, optionally for one file. */
+  public async getVersionDiff(params: {
+    appId: number;
+    from: string;
+    to: string;
+    filePath?: string;
+  }): Promise<VersionDiff> {
+    return this.backend.invoke("get-version-diff", params);
+  }
+
+  /** Versions that changed `filePath`, newest first. */
+  public async getAppFileHistory(params: {
+    appId: number;
+    filePath: string;
+    limit?: number;
+  }): Promise<Version[]> {
+    return this.backend.invoke("get-app-file-history", params);
+  }
+
   public async revertVersion(
     params: RevertVersionParams,
   ): Promise<RevertVersionResponse> {
     return this.backend.invoke("revert-version", params);
   }
 
+  /** Sync status of the app's git remote; `fetch: false` skips the network. */
+  public async getAppGitRemote(params: {
+    appId: number;
+    fetch?: boolean;
+  }): Promise<AppGitRemoteStatus> {
+    return this.backend.invoke("get-app-git-remote", params);
+  }
+
+  public async connectAppGitRemote(
+    params: ConnectAppGitRemoteParams,
+  ): Promise<AppGitRemoteStatus> {
+    return this.backend.invoke("connect-app-git-remote", params);
+  }
+
+  public async pushAppGitRemote(params: {
+    appId: number;
+    branch?: string;
+    force?: boolean;
+  }): Promise<AppGitRemoteStatus & { pushedCommits: number }> {
+    return this.backend.invoke("push-app-git-remote", params);
+  }
+
+  public async pullAppGitRemote(params: {
+    appId: number;
+    branch?: string;
+  }): Promise<AppGitRemoteStatus & { pulledCommits: number }> {
+    return this.backend.invoke("pull-app-git-remote", params);
+  }
+
+  public async listAppGitBranches(appId: number): Promise<AppGitBranches> {
+    return this.backend.invoke("list-app-git-branches", { appId });
+  }
+
+  public async createAppGitBranch(
+    params: CreateAppGitBranchParams,
+  ): Promise<AppGitBranches> {
+    return this.backend.invoke("create-app-git-branch", params);
+  }
+
+  public async checkoutAppGitBranch(params: {
+    appId: number;
+    branch: string;
+  }): Promise<AppGitBranches> {
+    return this.backend.invoke("checkout-app-git-branch", params);
+  }
+
+  public async renameAppGitBranch(params: {
+    appId: number;
+    branch: string;
+    name: string;
+  }): Promise<AppGitBranches> {
+    return this.backend.invoke("rename-app-git-branch", params);
+  }
+
+  public async deleteAppGitBranch(params: {
+    appId: number;
+    branch: string;
+  }): Promise<AppGitBranches> {
+    return this.backend.invoke("delete-app-git-branch", params);
+  }
+
+  /** Merges `branch` into the current branch of the app. */
+  public async mergeAppGitBranch(params: {
+    appId: number;
+    branch: string;
+  }): Promise<AppGitMergeResult> {
+    return this.backend.invoke("merge-app-git-branch", params);
+  }
+
+  public async getAppGitMerge(appId: number): Promise<{
+    inProgress: boolean;
+    conflicts: GitMergeConflictFile[];
+  }> {
+    return this.backend.invoke("get-app-git-merge", { appId });
+  }
+
+  public async abortAppGitMerge(appId: number): Promise<AppGitBranches> {
+    return this.backend.invoke("abort-app-git-merge", { appId });
+  }
+
   public async readAppFile(appId: number, filePath: string): Promise<string> {
     return this.backend.invoke("read-app-file", {
       appId,
@@ -344,9 +583,15 @@ export class IpcClient {
     return this.backend.invoke("get-proposal", { chatId });
   }
 
+  /**
+   * Applies the proposal of an assistant message. `actionIds` or `paths`
+   * approve only those file changes and reject the rest.
+   */
   public async approveProposal(params: {
     chatId: number;
     messageId: number;
+    actionIds?: string[];
+    paths?: string[];
   }): Promise<ApproveProposalResult> {
     return this.backend.invoke("approve-proposal", params);
   }
@@ -410,6 +655,22 @@ export class IpcClient {
     return this.backend.invoke("get-env-vars");
   }
 
+  public async logoutAuthSession(sessionToken: string): Promise<void> {
+    await this.backend.invoke("logout-auth-session", sessionToken);
+  }
+
+  public async resolveMcpToolConsent(
+    params: ResolveMcpToolConsentParams,
+  ): Promise<void> {
+    await this.backend.invoke("resolve-mcp-tool-consent", params);
+  }
+
+  public async resolveAgentToolConsent(
+    params: ResolveAgentToolConsentParams,
+  ): Promise<void> {
+    await this.backend.invoke("resolve-agent-tool-consent", params);
+  }
+
   public async getAppVersion(): Promise<string> {
     const response = await this.backend.invoke<{ version: string }>(
       "get-app-version",
@@ -494,9 +755,12 @@ export class IpcClient {
       redo,
       attachments,
       selectedComponents,
+      chatMode,
       onUpdate,
       onEnd,
       onError,
+      onMcpToolConsentRequest,
+      onAgentToolConsentRequest,
     } = options;
 
     for (const handler of this.globalChatStreamStartHandlers) {
@@ -559,6 +823,7 @@ export class IpcClient {
                 redo,
                 selectedComponents,
                 attachments: encodedAttachments,
+                chatMode,
               }),
               signal: abortController.signal,
             });
@@ -634,6 +899,30 @@ export class IpcClient {
               continue;
             }
 
+            if (parsedEvent.event === "mcp:tool-consent-request") {
+              if (
+                payload &&
+                typeof payload === "object" &&
+                typeof (payload as { requestId?: unknown }).requestId ===
+                  "string"
+              ) {
+                onMcpToolConsentRequest?.(payload as McpToolConsentRequest);
+              }
+              continue;
+            }
+
+            if (parsedEvent.event === "agent-tool:consent-request") {
+              if (
+                payload &&
+                typeof payload === "object" &&
+                typeof (payload as { requestId?: unknown }).requestId ===
+                  "string"
+              ) {
+                onAgentToolConsentRequest?.(payload as AgentToolConsentRequest);
+              }
+              continue;
+            }
+
             if (parsedEvent.event === "chat:response:error") {
               const errorMessage =
                 payload &&
@@ -1,4 +1,10 @@
 import { z } from "zod";
+import type {
+  ApplyActionReport,
+  ChatMode,
+  ProposalReview,
+  UserSettings,
+} from "../lib/schemas";
 import type { ProblemReport, Problem } from "../../shared/tsc_types";
 export type { ProblemReport, Problem };
 
@@ -50,6 +56,17 @@ export interface ChatStreamParams {
     attachmentType: "upload-to-codebase" | "chat-context"; // FileAttachment type
   }>;
   selectedComponents?: ComponentSelection[];
+  /** Overrides the user's selected chat mode for this turn. */
+  chatMode?: ChatMode;
+  /** Set by the server to the user the turn runs for. */
+  userId?: string;
+  /** Set by the server when the organization budget forces a cheaper model. */
+  modelOverride?: {
+    provider: string;
+    name: string;
+  };
+  /** Set by the server to the settings of `userId` in the chat's workspace. */
+  settings?: UserSettings;
 }
 
 export interface ChatResponseEnd {
@@ -59,6 +76,49 @@ export interface ChatResponseEnd {
   extraFilesError?: string;
   totalTokens?: number;
   contextWindow?: number;
+  model?: string;
+  inputTokens?: number;
+  outputTokens?: number;
+  cachedInputTokens?: number;
+  /** Null when the model has no prices configured. */
+  costMicroUsd?: number | null;
+}
+
+export type McpToolConsentDecision =
+  | "accept-once"
+  | "accept-always"
+  | "decline";
+
+/** Sent over the chat stream when an MCP tool call needs approval. */
+export interface McpToolConsentRequest {
+  requestId: string;
+  chatId: number;
+  serverId: number;
+  serverName: string;
+  toolName: string;
+  toolDescription?: string | null;
+  inputPreview?: string | null;
+}
+
+export interface ResolveMcpToolConsentParams {
+  chatId: number;
+  requestId: string;
+  decision: McpToolConsentDecision;
+}
+
+/** Sent over the chat stream when an agent tool call needs approval. */
+export interface AgentToolConsentRequest {
+  requestId: string;
+  chatId: number;
+  toolName: string;
+  toolDescription?: string | null;
+  inputPreview?: string | null;
+}
+
+export interface ResolveAgentToolConsentParams {
+  chatId: number;
+  requestId: string;
+  decision: McpToolConsentDecision;
 }
 
 export interface ChatProblemsEvent {
@@ -98,12 +158,19 @@ export interface Message {
   role: "user" | "assistant";
   content: string;
   approvalState?: "approved" | "rejected" | null;
+  proposalReview?: ProposalReview | null;
+  applyReport?: ApplyActionReport[] | null;
   commitHash?: string | null;
   sourceCommitHash?: string | null;
   createdAt?: Date | string;
   requestId?: string | null;
   totalTokens?: number | null;
   model?: string | null;
+  inputTokens?: number | null;
+  outputTokens?: number | null;
+  cachedInputTokens?: number | null;
+  costMicroUsd?: number | null;
+  chatMode?: ChatMode | null;
 }
 
 export interface Chat {
@@ -115,6 +182,8 @@ export interface Chat {
   title: string;
   messages: Message[];
   initialCommitHash?: string | null;
+  /** Git branch the chat streams and applies on; `null` follows the app. */
+  branch?: string | null;
 }
 
 export interface App {
@@ -249,6 +318,7 @@ export type LanguageModel =
       contextWindow?: number;
       temperature?: number;
       dollarSigns?: number;
+      supportsImageInput?: boolean;
       type: "local" | "cloud";
     };
 
@@ -275,20 +345,29 @@ export interface DoesReleaseNoteExistParams {
 
 export interface ApproveProposalResult {
   updatedFiles?: boolean;
+  acceptedActionIds?: string[];
+  rejectedActionIds?: string[];
   extraFiles?: string[];
   extraFilesError?: string;
   selfHealAttempted?: boolean;
   selfHealRecovered?: boolean;
   selfHealAttempts?: number;
   selfHealErrors?: string[];
+  /** Outcome of every applied file action. */
+  actionReports?: ApplyActionReport[];
 }
 
+export type ImportAppSource =
+  | { type: "git"; url: string; ref?: string; accessToken?: string }
+  /** `data` is the base64 encoded archive. */
+  | { type: "archive"; format: "zip" | "tar.gz"; data: string };
+
 export interface ImportAppParams {
-  path: string;
-  appName: string;
+  name: string;
+  source: ImportAppSource;
+  /** Detected from `package.json` and the lockfile when omitted. */
   installCommand?: string;
   startCommand?: string;
-  skipCopy?: boolean;
 }
 
 export interface CopyAppParams {
@@ -297,9 +376,17 @@ export interface CopyAppParams {
   withHistory: boolean;
 }
 
-export interface ImportAppResult {
+export type ImportAppResult = CreateAppResult;
+
+export interface ExportAppParams {
   appId: number;
-  chatId: number;
+  format: "zip" | "tar.gz";
+  /** Commit of a version to export; the working tree otherwise. */
+  version?: string;
+  /** Adds the `.git` directory with the full history. */
+  includeGit?: boolean;
+  /** Adds the app's chats as `blaze-chats.json`. */
+  includeChats?: boolean;
 }
 
 export interface RenameBranchParams {
@@ -450,6 +537,63 @@ export type RevertVersionResponse =
   | { successMessage: string }
   | { warningMessage: string };
 
+export interface AppGitRemoteStatus {
+  remoteUrl: string | null;
+  branch: string;
+  hasAccessToken: boolean;
+  /** Commits to push and to pull; `null` without a connected remote. */
+  ahead: number | null;
+  behind: number | null;
+}
+
+export interface ConnectAppGitRemoteParams {
+  appId: number;
+  remoteUrl: string;
+  /** `null` removes the stored token of the remote host. */
+  accessToken?: string | null;
+}
+
+export interface AppGitBranches {
+  /** `null` while a version is checked out. */
+  currentBranch: string | null;
+  branches: Array<{ name: string; isCurrent: boolean; chatCount: number }>;
+  mergeInProgress: boolean;
+}
+
+export interface GitMergeConflictFile {
+  path: string;
+  hunks: Array<{
+    startLine: number;
+    endLine: number;
+    ours: string;
+    base: string | null;
+    theirs: string;
+  }>;
+}
+
+export type AppGitMergeResult =
+  | {
+      status: "merged";
+      branch: string;
+      into: string;
+      commitHash: string;
+    }
+  | {
+      status: "conflicts";
+      branch: string;
+      into: string;
+      conflicts: GitMergeConflictFile[];
+      resolutionPrompt: string;
+    };
+
+export interface CreateAppGitBranchParams {
+  appId: number;
+  name: string;
+  /** Branch or commit to start from; defaults to the current HEAD. */
+  from?: string;
+  checkout?: boolean;
+}
+
 export type MembershipRole = "owner" | "admin" | "member" | "viewer";
 
 export interface TenantOrganization {
@@ -480,6 +624,171 @@ export interface CreateWorkspaceParams {
   type?: "personal" | "team";
 }
 
+export type MembershipScope = "organization" | "workspace";
+
+export interface TenantMember {
+  id: number;
+  scope: MembershipScope;
+  userId: string | null;
+  email: string | null;
+  displayName: string | null;
+  role: MembershipRole;
+  status: "active" | "invited" | "suspended";
+  invitedEmail: string | null;
+  invitedByUserId: string | null;
+  createdAt: string | null;
+  updatedAt: string | null;
+}
+
+export interface ListMembersParams {
+  scope: MembershipScope;
+  orgId?: string;
+  workspaceId?: string;
+}
+
+export interface InviteMemberParams extends ListMembersParams {
+  email: string;
+  role?: MembershipRole;
+}
+
+export interface UpdateMemberRoleParams extends ListMembersParams {
+  membershipId: number;
+  role: MembershipRole;
+}
+
+export interface RemoveMemberParams extends ListMembersParams {
+  membershipId: number;
+}
+
+export interface AuditEvent {
+  id: number;
+  actorUserId: string | null;
+  actorEmail: string | null;
+  actorDisplayName: string | null;
+  organizationId: string | null;
+  workspaceId: string | null;
+  action: string;
+  resourceType: string;
+  resourceId: string | null;
+  metadata: Record<string, unknown> | null;
+  createdAt: string;
+}
+
+export interface AuditEventFilters {
+  actorUserId?: string;
+  action?: string;
+  resourceType?: string;
+  /** ISO timestamps, inclusive. */
+  from?: string;
+  to?: string;
+}
+
+export interface ListAuditEventsParams extends AuditEventFilters {
+  orgId?: string;
+  cursor?: string;
+  limit?: number;
+}
+
+export interface AuditEventPage {
+  events: AuditEvent[];
+  nextCursor: string | null;
+}
+
+export type AuditExportFormat = "csv" | "jsonl";
+
+export interface ExportAuditEventsParams extends AuditEventFilters {
+  orgId?: string;
+  format: AuditExportFormat;
+}
+
+export interface UsageTotals {
+  requests: number;
+  tokens: number;
+  previewStarts: number;
+  costMicroUsd: number;
+}
+
+export interface OrganizationQuotaLimits {
+  requestsPerDayHardLimit: number;
+  tokensPerDayHardLimit: number;
+  concurrentPreviewJobsHardLimit: number;
+}
+
+export type BudgetStatus = "none" | "ok" | "warning" | "exhausted";
+
+export interface OrganizationBudgetSettings {
+  /** `null` means the organization has no monthly budget. */
+  monthlyBudgetMicroUsd: number | null;
+  budgetWarningThresholdPercent: number;
+  budgetExhaustedAction: "block" | "downgrade";
+  budgetDowngradeModel: { provider: string; name: string } | null;
+}
+
+export interface OrganizationQuota
+  extends OrganizationQuotaLimits,
+    OrganizationBudgetSettings {
+  organizationId: string;
+  /** Previews of the organization running now, capped by the preview limit. */
+  runningPreviewJobs: number;
+  usageToday: UsageTotals;
+  /** Spend in the current UTC calendar month. */
+  budgetUsage: {
+    periodStart: string;
+    spentMicroUsd: number;
+    status: BudgetStatus;
+  };
+}
+
+export interface UpdateOrganizationQuotaParams
+  extends Partial<OrganizationQuotaLimits & OrganizationBudgetSettings> {
+  orgId?: string;
+}
+
+export interface UserSoftQuota {
+  userId: string;
+  email: string;
+  displayName: string | null;
+  role: MembershipRole;
+  /** `null` means the member has no soft limit for the metric. */
+  requestsPerDaySoftLimit: number | null;
+  tokensPerDaySoftLimit: number | null;
+  updatedAt: string | null;
+  usageToday: Pick<UsageTotals, "requests" | "tokens">;
+}
+
+export interface UpdateUserSoftQuotaParams {
+  orgId?: string;
+  userId: string;
+  requestsPerDaySoftLimit?: number;
+  tokensPerDaySoftLimit?: number;
+}
+
+export interface UsageReportParams {
+  orgId?: string;
+  /** ISO timestamps; `from` is inclusive and `to` exclusive. */
+  from?: string;
+  to?: string;
+  workspaceId?: string;
+}
+
+export interface UsageReport {
+  from: string;
+  to: string;
+  totals: UsageTotals;
+  daily: Array<UsageTotals & { date: string }>;
+  byUser: Array<
+    UsageTotals & {
+      userId: string;
+      email: string | null;
+      displayName: string | null;
+    }
+  >;
+  byWorkspace: Array<
+    UsageTotals & { workspaceId: string; name: string | null }
+  >;
+  byModel: Array<UsageTotals & { model: string | null }>;
+}
+
 export interface SetNodePathParams {
   nodePath: string;
 }
@@ -0,0 +1,207 @@
+import fs from "node:fs";
+import { structuredPatch } from "diff";
+import { safeJoin } from "/src/ipc/utils/path_utils.ts";
+import { getBlazeActions } from "/src/ipc/utils/blaze_tag_parser.ts";
+import { applySearchReplace } from "/src/core/main/ipc/processors/search_replace_processor.ts";
+import { applyUnifiedPatch } from "/src/core/main/ipc/processors/patch_processor.ts";
+import type { BlazeAction } from "/src/shared/blaze_tags.ts";
+import type { ProposalDiffHunk, ProposalFileDiff } from "/src/lib/schemas.ts";
+
+const readFile = fs.promises.readFile;
+
+const DIFF_CONTEXT_LINES = 3;
+
+// processFullResponseActions applies file actions in this order.
+const APPLY_ORDER: BlazeAction["type"][] = [
+  "delete",
+  "rename",
+  "search-replace",
+  "patch",
+  "write",
+];
+
+export function getProposalActionId(index: number): string {
+  return `action-${index}`;
+}
+
+export function computeLineDiff(
+  oldContent: string,
+  newContent: string,
+): ProposalDiffHunk[] {
+  const patch = structuredPatch("a", "b", oldContent, newContent, "", "", {
+    context: DIFF_CONTEXT_LINES,
+  });
+  return patch.hunks.map((hunk) => ({
+    oldStart: hunk.oldStart,
+    oldLines: hunk.oldLines,
+    newStart: hunk.newStart,
+    newLines: hunk.newLines,
+    lines: hunk.lines
+      // "\ No newline at end of file"
+      .filter((line) => !line.startsWith("\\"))
+      .map((line) => ({
+        type: line[0] === "+" ? "add" : line[0] === "-" ? "remove" : "context",
+        text: line.slice(1),
+      })),
+  }));
+}
+
+/**
+ * Dry-runs the file actions of an assistant message against the app's working
+ * tree and returns what each one would change. Actions see the results of the
+ * actions applied before them (e.g. a write after a rename diffs against the
+ * renamed file), and nothing is written to disk.
+ */
+export async function buildProposalFileDiffs({
+  appPath,
+  messageContent,
+}: {
+  appPath: string;
+  messageContent: string;
+}): Promise<ProposalFileDiff[]> {
+  // Files changed by earlier actions; null marks a deleted file.
+  const overlay = new Map<string, string | null>();
+  const readCurrent = async (filePath: string): Promise<string | null> => {
+    if (overlay.has(filePath)) {
+      return overlay.get(filePath) ?? null;
+    }
+    const fullFilePath = safeJoin(appPath, filePath);
+    if (
+      !fs.existsSync(fullFilePath) ||
+      fs.statSync(fullFilePath).isDirectory()
+    ) {
+      return null;
+    }
+    return readFile(fullFilePath, "utf8");
+  };
+
+  const indexedActions = getBlazeActions(messageContent).map(
+    (action, index) => ({ action, actionId: getProposalActionId(index) }),
+  );
+  const diffs: ProposalFileDiff[] = [];
+
+  for (const type of APPLY_ORDER) {
+    for (const { action, actionId } of indexedActions) {
+      if (action.type !== type) {
+        continue;
+      }
+      switch (action.type) {
+        case "delete": {
+          const fullFilePath = safeJoin(appPath, action.path);
+          const original = await readCurrent(action.path);
+          const isDirectory =
+            !overlay.has(action.path) &&
+            fs.existsSync(fullFilePath) &&
+            fs.statSync(fullFilePath).isDirectory();
+          if (original === null && !isDirectory) {
+            diffs.push({
+              actionId,
+              type: "delete",
+              path: action.path,
+              status: "unchanged",
+              hunks: [],
+              error: `File to delete does not exist: ${action.path}`,
+            });
+            break;
+          }
+          overlay.set(action.path, null);
+          diffs.push({
+            actionId,
+            type: "delete",
+            path: action.path,
+            status: "deleted",
+            hunks: original === null ? [] : computeLineDiff(original, ""),
+          });
+          break;
+        }
+        case "rename": {
+          const original = await readCurrent(action.from);
+          if (original === null) {
+            diffs.push({
+              actionId,
+              type: "rename",
+              path: action.to,
+              fromPath: action.from,
+              status: "unchanged",
+              hunks: [],
+              error: `Source file for rename does not exist: ${action.from}`,
+            });
+            break;
+          }
+          overlay.set(action.from, null);
+          overlay.set(action.to, original);
+          diffs.push({
+            actionId,
+            type: "rename",
+            path: action.to,
+            fromPath: action.from,
+            status: "renamed",
+            hunks: [],
+          });
+          break;
+        }
+        case "search-replace":
+        case "patch": {
+          const label = action.type === "patch" ? "Patch" : "Search-replace";
+          const original = await readCurrent(action.path);
+          if (original === null) {
+            diffs.push({
+              actionId,
+              type: action.type,
+              path: action.path,
+              status: "unchanged",
+              hunks: [],
+              error: `${label} target file does not exist: ${action.path}`,
+            });
+            break;
+          }
+          const result =
+            action.type === "patch"
+              ? applyUnifiedPatch(original, action.content)
+              : applySearchReplace(original, action.content);
+          if (!result.success || typeof result.content !== "string") {
+            diffs.push({
+              actionId,
+              type: action.type,
+              path: action.path,
+              status: "unchanged",
+              hunks: [],
+              error: `Failed to apply ${label.toLowerCase()} to ${action.path}: ${result.error ?? "unknown"}`,
+            });
+            break;
+          }
+          overlay.set(action.path, result.content);
+          const hunks = computeLineDiff(original, result.content);
+          diffs.push({
+            actionId,
+            type: action.type,
+            path: action.path,
+            status: hunks.length > 0 ? "modified" : "unchanged",
+            hunks,
+          });
+          break;
+        }
+        case "write": {
+          const original = await readCurrent(action.path);
+          overlay.set(action.path, action.content);
+          const hunks = computeLineDiff(original ?? "", action.content);
+          diffs.push({
+            actionId,
+            type: "write",
+            path: action.path,
+            status:
+              original === null
+                ? "added"
+                : hunks.length > 0
+                  ? "modified"
+                  : "unchanged",
+            hunks,
+          });
+          break;
+        }
+      }
+    }
+  }
+
+  return diffs;
+}
@@ -0,0 +1,125 @@
+import { HttpError } from "/src/http/http_errors.ts";
+import { getBlazeActions } from "/src/ipc/utils/blaze_tag_parser.ts";
+import { getProposalActionId } from "/src/ipc/processors/proposal_diff.ts";
+import {
+  removeBlazeActions,
+  type BlazeAction,
+} from "/src/shared/blaze_tags.ts";
+import type { ProposalReview, ProposalReviewAction } from "/src/lib/schemas.ts";
+
+/** File changes to approve, by action id (`action-N`) or file path. */
+export interface ProposalSelection {
+  actionIds?: string[];
+  paths?: string[];
+}
+
+function toProposalReviewAction(
+  action: BlazeAction,
+  actionId: string,
+): ProposalReviewAction | null {
+  switch (action.type) {
+    case "write":
+    case "search-replace":
+    case "patch":
+    case "delete":
+      return { actionId, type: action.type, path: action.path };
+    case "rename":
+      return {
+        actionId,
+        type: "rename",
+        path: action.to,
+        fromPath: action.from,
+      };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Splits the file changes of an assistant message into accepted and rejected
+ * ones and returns the response to apply. Only file changes are selectable;
+ * dependencies and other actions are applied with any approval. Without a
+ * selection every change is accepted.
+ */
+export function selectProposalActions(
+  messageContent: string,
+  selection?: ProposalSelection,
+): { response: string; review: ProposalReview } {
+  const fileActions = getBlazeActions(messageContent)
+    .map((action, index) =>
+      toProposalReviewAction(action, getProposalActionId(index)),
+    )
+    .filter((action): action is ProposalReviewAction => action !== null);
+
+  if (!selection) {
+    return {
+      response: messageContent,
+      review: { accepted: fileActions, rejected: [] },
+    };
+  }
+
+  const actionIds = new Set(selection.actionIds ?? []);
+  const paths = new Set(selection.paths ?? []);
+  const knownActionIds = new Set(fileActions.map((action) => action.actionId));
+  const knownPaths = new Set(
+    fileActions.flatMap((action) =>
+      action.fromPath ? [action.path, action.fromPath] : [action.path],
+    ),
+  );
+  const unknown = [
+    ...[...actionIds].filter((actionId) => !knownActionIds.has(actionId)),
+    ...[...paths].filter((path) => !knownPaths.has(path)),
+  ];
+  if (unknown.length > 0) {
+    throw new HttpError(
+      400,
+      "INVALID_PROPOSAL_SELECTION",
+      `Unknown proposal changes: ${unknown.join(", ")}`,
+    );
+  }
+
+  const review: ProposalReview = { accepted: [], rejected: [] };
+  for (const action of fileActions) {
+    const isAccepted =
+      actionIds.has(action.actionId) ||
+      paths.has(action.path) ||
+      (action.fromPath !== undefined && paths.has(action.fromPath));
+    (isAccepted ? review.accepted : review.rejected).push(action);
+  }
+  if (review.accepted.length === 0) {
+    throw new HttpError(
+      400,
+      "INVALID_PROPOSAL_SELECTION",
+      "Select at least one change to approve, or reject the proposal",
+    );
+  }
+
+  const rejectedActionIds = new Set(
+    review.rejected.map((action) => action.actionId),
+  );
+  return {
+    response: removeBlazeActions(messageContent, (_action, index) =>
+      rejectedActionIds.has(getProposalActionId(index)),
+    ),
+    review,
+  };
+}
+
+/**
+ * Note appended to an assistant message in the chat history so the model
+ * knows which of its changes the user did not apply.
+ */
+export function formatProposalReviewFeedback(
+  review: ProposalReview | null | undefined,
+): string | null {
+  if (!review || review.rejected.length === 0) {
+    return null;
+  }
+  const rejected = review.rejected.map(({ type, path, fromPath }) =>
+    fromPath ? `- ${type} ${fromPath} -> ${path}` : `- ${type} ${path}`,
+  );
+  return [
+    "The user approved only some of the changes above. These were rejected and not applied:",
+    ...rejected,
+  ].join("\n");
+}
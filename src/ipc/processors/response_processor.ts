@@ -14,17 +14,27 @@ import {
   gitRemove,
   gitAddAll,
   getGitUncommittedFiles,
+  getCurrentCommitHash,
+  assertGitBranchCheckedOut,
   isGitStatusClean,
 } from "/src/ipc/utils/git_utils.ts";
 import {
-  getBlazeWriteTags,
-  getBlazeRenameTags,
-  getBlazeDeleteTags,
-  getBlazeAddDependencyTags,
+  getBlazeActions,
+  getBlazePatchTags,
   getBlazeSearchReplaceTags,
 } from "/src/ipc/utils/blaze_tag_parser.ts";
+import { filterBlazeActions } from "/src/shared/blaze_tags.ts";
 import { applySearchReplace } from "/src/core/main/ipc/processors/search_replace_processor.ts";
+import { applyUnifiedPatch } from "/src/core/main/ipc/processors/patch_processor.ts";
 import { FileUploadsState } from "/src/ipc/utils/file_uploads_state.ts";
+import {
+  rollBackFileSnapshot,
+  stageFileActions,
+  takeFileSnapshot,
+  type FileSnapshot,
+} from "/src/ipc/processors/staged_apply.ts";
+import type { ApplyActionReport } from "/src/lib/schemas.ts";
+import { updateCodeSearchIndex } from "/src/utils/code_search_index.ts";
 
 const readFile = fs.promises.readFile;
 const logger = log.scope("response_processor");
@@ -63,6 +73,78 @@ function toErrorString(error: unknown): string {
   }
 }
 
+const DEPENDENCY_MANIFEST_FILES = [
+  "package.json",
+  "pnpm-lock.yaml",
+  "package-lock.json",
+];
+
+/**
+ * Error returned when a response cannot be applied; search-replace and patch
+ * failures keep the wording the edit retry loop looks for.
+ */
+function formatStagingFailures(failures: ApplyActionReport[]): string {
+  const describe = (type: ApplyActionReport["type"]) =>
+    failures
+      .filter((failure) => failure.type === type)
+      .map(({ path, error }) => `${path}: ${error}`)
+      .join(" | ");
+  const parts: string[] = [];
+  const searchReplaceFailures = describe("search-replace");
+  if (searchReplaceFailures) {
+    parts.push(
+      `Failed to apply search-replace edits: ${searchReplaceFailures}`,
+    );
+  }
+  const patchFailures = describe("patch");
+  if (patchFailures) {
+    parts.push(`Failed to apply patch edits: ${patchFailures}`);
+  }
+  const writeFailures = describe("write");
+  if (writeFailures) {
+    parts.push(`Failed to write files: ${writeFailures}`);
+  }
+  return `${parts.join(" | ")}. No changes were applied.`;
+}
+
+/** Final status of the actions that passed staging. */
+function settleStagedReports(
+  reports: ApplyActionReport[],
+  status: "applied" | "not-applied",
+): ApplyActionReport[] {
+  return reports.map((report) =>
+    report.status === "staged" ? { ...report, status } : report,
+  );
+}
+
+/**
+ * Resets the workspace to `sourceCommitHash` after a failed apply, so no
+ * partial change survives. Failures are reported in `errors` instead of
+ * replacing the original error.
+ */
+async function rollBackFileActions(
+  appPath: string,
+  snapshot: FileSnapshot,
+  sourceCommitHash: string,
+  errors: Output[],
+) {
+  const filepaths = [...snapshot.keys()];
+  try {
+    await rollBackFileSnapshot({ appPath, snapshot, sourceCommitHash });
+    logger.log(`Rolled back ${filepaths.length} file(s) after failed apply`);
+    errors.push({
+      message: "No changes were applied",
+      error: `Restored ${filepaths.join(", ")} after a failed apply`,
+    });
+  } catch (error) {
+    logger.error("Failed to roll back files after failed apply:", error);
+    errors.push({
+      message: `Failed to roll back ${filepaths.join(", ")}`,
+      error,
+    });
+  }
+}
+
 export async function dryRunSearchReplace({
   fullResponse,
   appPath,
@@ -104,6 +186,36 @@ export async function dryRunSearchReplace({
       });
     }
   }
+  for (const tag of getBlazePatchTags(fullResponse)) {
+    const filePath = tag.path;
+    const fullFilePath = safeJoin(appPath, filePath);
+    try {
+      if (!fs.existsSync(fullFilePath)) {
+        issues.push({
+          filePath,
+          error: `Patch target file does not exist: ${filePath}`,
+        });
+        continue;
+      }
+
+      const original = await readFile(fullFilePath, "utf8");
+      const result = applyUnifiedPatch(original, tag.content);
+      if (!result.success) {
+        issues.push({
+          filePath,
+          error: "Unable to apply patch to file because: " + result.error,
+        });
+        logger.warn(
+          `Unable to apply patch to file ${filePath} because: ${result.error}. Patch content:\n${tag.content}`,
+        );
+      }
+    } catch (error) {
+      issues.push({
+        filePath,
+        error: error?.toString() ?? "Unknown error",
+      });
+    }
+  }
   return issues;
 }
 
@@ -122,6 +234,8 @@ export async function processFullResponseActions(
   error?: string;
   extraFiles?: string[];
   extraFilesError?: string;
+  /** Outcome of every file action, also saved on the message. */
+  actionReports?: ApplyActionReport[];
 }> {
   const fileUploadsState = FileUploadsState.getInstance();
   const fileUploadsMap = fileUploadsState.getFileUploadsForChat(chatId);
@@ -150,15 +264,24 @@ export async function processFullResponseActions(
   let hasChanges = false;
 
   const errors: Output[] = [];
-  const searchReplaceFailures: { filePath: string; error: string }[] = [];
+  let actionReports: ApplyActionReport[] | undefined;
 
   try {
-    // Extract all tags
-    const blazeWriteTags = getBlazeWriteTags(fullResponse);
-    const blazeRenameTags = getBlazeRenameTags(fullResponse);
-    const blazeDeletePaths = getBlazeDeleteTags(fullResponse);
-    const blazeSearchReplaceTags = getBlazeSearchReplaceTags(fullResponse);
-    const blazeAddDependencyPackages = getBlazeAddDependencyTags(fullResponse);
+    // Chats apply to the branch they were created on
+    if (chatWithApp.branch) {
+      await assertGitBranchCheckedOut({
+        path: appPath,
+        branch: chatWithApp.branch,
+      });
+    }
+
+    // Extract all actions in one pass over the response
+    const actions = getBlazeActions(fullResponse);
+    const blazeRenameTags = filterBlazeActions(actions, "rename");
+    const blazeAddDependencyPackages = filterBlazeActions(
+      actions,
+      "add-dependency",
+    ).flatMap((action) => action.packages);
 
     const message = await db.query.messages.findFirst({
       where: and(
@@ -173,196 +296,174 @@ export async function processFullResponseActions(
       return {};
     }
 
-    // TODO: Handle add dependency tags
-    if (blazeAddDependencyPackages.length > 0) {
-      try {
-        await executeAddDependency({
-          packages: blazeAddDependencyPackages,
-          message: message,
-          appPath,
-        });
-      } catch (error) {
-        errors.push({
-          message: `Failed to add dependencies: ${blazeAddDependencyPackages.join(
-            ", ",
-          )}`,
-          error: error,
-        });
-      }
-      writtenFiles.push("package.json");
-      const pnpmFilename = "pnpm-lock.yaml";
-      if (fs.existsSync(safeJoin(appPath, pnpmFilename))) {
-        writtenFiles.push(pnpmFilename);
-      }
-      const packageLockFilename = "package-lock.json";
-      if (fs.existsSync(safeJoin(appPath, packageLockFilename))) {
-        writtenFiles.push(packageLockFilename);
+    // Validate every file change against an in-memory overlay first, so a
+    // failing action leaves the working tree untouched.
+    const staged = await stageFileActions({
+      appPath,
+      actions,
+      fileUploads: fileUploadsMap,
+    });
+    for (const report of staged.reports) {
+      if (report.status === "skipped" && report.error) {
+        logger.warn(report.error);
       }
     }
-
-    //////////////////////
-    // File operations //
-    // Do it in this order:
-    // 1. Deletes
-    // 2. Renames
-    // 3. Writes
-    //
-    // Why?
-    // - Deleting first avoids path conflicts before the other operations.
-    // - LLMs like to rename and then edit the same file.
-    //////////////////////
-
-    // Process all file deletions
-    for (const filePath of blazeDeletePaths) {
-      const fullFilePath = safeJoin(appPath, filePath);
-
-      // Delete the file if it exists
-      if (fs.existsSync(fullFilePath)) {
-        if (fs.lstatSync(fullFilePath).isDirectory()) {
-          fs.rmdirSync(fullFilePath, { recursive: true });
-        } else {
-          fs.unlinkSync(fullFilePath);
-        }
-        logger.log(`Successfully deleted file: ${fullFilePath}`);
-        deletedFiles.push(filePath);
-
-        // Remove the file from git
-        try {
-          await gitRemove({ path: appPath, filepath: filePath });
-        } catch (error) {
-          logger.warn(`Failed to git remove deleted file ${filePath}:`, error);
-          // Continue even if remove fails as the file was still deleted
-        }
-      } else {
-        logger.warn(`File to delete does not exist: ${fullFilePath}`);
+    if (staged.failures.length > 0) {
+      for (const failure of staged.failures) {
+        errors.push({
+          message: `Failed to apply ${failure.type} to ${failure.path}`,
+          error: failure.error,
+        });
       }
+      const error = formatStagingFailures(staged.failures);
+      logger.warn(error);
+      actionReports = settleStagedReports(staged.reports, "not-applied");
+      return {
+        updatedFiles: false,
+        error,
+        actionReports,
+      };
     }
 
-    // Process all file renames
-    for (const tag of blazeRenameTags) {
-      const fromPath = safeJoin(appPath, tag.from);
-      const toPath = safeJoin(appPath, tag.to);
-
-      // Ensure target directory exists
-      const dirPath = path.dirname(toPath);
-      fs.mkdirSync(dirPath, { recursive: true });
-
-      // Rename the file
-      if (fs.existsSync(fromPath)) {
-        fs.renameSync(fromPath, toPath);
-        logger.log(`Successfully renamed file: ${fromPath} -> ${toPath}`);
-        renamedFiles.push(tag.to);
+    // Messages saved before source commits were recorded roll back to the
+    // commit the apply started from.
+    const sourceCommitHash =
+      message.sourceCommitHash ??
+      (await getCurrentCommitHash({ path: appPath }));
+    const snapshot = await takeFileSnapshot(appPath, [
+      ...staged.operations.flatMap((operation) =>
+        operation.type === "rename"
+          ? [operation.from, operation.to]
+          : [operation.path],
+      ),
+      ...(blazeAddDependencyPackages.length > 0
+        ? DEPENDENCY_MANIFEST_FILES
+        : []),
+    ]);
+    let isCommitted = false;
+    let commitMessage = "";
+    let commitHash: string | undefined;
 
-        // Add the new file and remove the old one from git
-        await gitAdd({ path: appPath, filepath: tag.to });
+    try {
+      if (blazeAddDependencyPackages.length > 0) {
         try {
-          await gitRemove({ path: appPath, filepath: tag.from });
+          await executeAddDependency({
+            packages: blazeAddDependencyPackages,
+            message: message,
+            appPath,
+          });
         } catch (error) {
-          logger.warn(`Failed to git remove old file ${tag.from}:`, error);
-          // Continue even if remove fails as the file was still renamed
+          errors.push({
+            message: `Failed to add dependencies: ${blazeAddDependencyPackages.join(
+              ", ",
+            )}`,
+            error: error,
+          });
+          throw error;
         }
-      } else {
-        logger.warn(`Source file for rename does not exist: ${fromPath}`);
-      }
-    }
-
-    // Process all search-replace edits
-    for (const tag of blazeSearchReplaceTags) {
-      const filePath = tag.path;
-      const fullFilePath = safeJoin(appPath, filePath);
-
-      try {
-        if (!fs.existsSync(fullFilePath)) {
-          const error = `Search-replace target file does not exist: ${filePath}`;
-          searchReplaceFailures.push({ filePath, error });
-          logger.warn(error);
-          continue;
-        }
-        const original = await readFile(fullFilePath, "utf8");
-        const result = applySearchReplace(original, tag.content);
-        if (!result.success || typeof result.content !== "string") {
-          const error = `Failed to apply search-replace to ${filePath}: ${result.error ?? "unknown"}`;
-          searchReplaceFailures.push({ filePath, error });
-          logger.warn(error);
-          continue;
+        for (const filename of DEPENDENCY_MANIFEST_FILES) {
+          if (
+            filename === "package.json" ||
+            fs.existsSync(safeJoin(appPath, filename))
+          ) {
+            writtenFiles.push(filename);
+          }
         }
-        // Write modified content
-        fs.writeFileSync(fullFilePath, result.content);
-        writtenFiles.push(filePath);
-      } catch (error) {
-        searchReplaceFailures.push({
-          filePath,
-          error: `Error applying search-replace to ${filePath}: ${error?.toString() ?? "Unknown error"}`,
-        });
-        errors.push({
-          message: `Error applying search-replace to ${filePath}`,
-          error: error,
-        });
       }
-    }
 
-    // Process all file writes
-    for (const tag of blazeWriteTags) {
-      const filePath = tag.path;
-      let content: string | Buffer = tag.content;
-      const fullFilePath = safeJoin(appPath, filePath);
-
-      // Check if content (stripped of whitespace) exactly matches a file ID and replace with actual file content
-      if (fileUploadsMap) {
-        const trimmedContent = tag.content.trim();
-        const fileInfo = fileUploadsMap.get(trimmedContent);
-        if (fileInfo) {
-          try {
-            const fileContent = await readFile(fileInfo.filePath);
-            content = fileContent;
-            logger.log(
-              `Replaced file ID ${trimmedContent} with content from ${fileInfo.originalName}`,
-            );
-          } catch (error) {
-            logger.error(
-              `Failed to read uploaded file ${fileInfo.originalName}:`,
-              error,
-            );
-            errors.push({
-              message: `Failed to read uploaded file: ${fileInfo.originalName}`,
-              error: error,
-            });
+      //////////////////////
+      // File operations //
+      // They come staged in this order:
+      // 1. Deletes
+      // 2. Renames
+      // 3. Edits (search-replace, then patches)
+      // 4. Writes
+      //
+      // Why?
+      // - Deleting first avoids path conflicts before the other operations.
+      // - LLMs like to rename and then edit the same file.
+      //////////////////////
+      for (const operation of staged.operations) {
+        switch (operation.type) {
+          case "delete": {
+            const fullFilePath = safeJoin(appPath, operation.path);
+            if (fs.lstatSync(fullFilePath).isDirectory()) {
+              fs.rmdirSync(fullFilePath, { recursive: true });
+            } else {
+              fs.unlinkSync(fullFilePath);
+            }
+            logger.log(`Successfully deleted file: ${fullFilePath}`);
+            deletedFiles.push(operation.path);
+
+            // Remove the file from git
+            try {
+              await gitRemove({ path: appPath, filepath: operation.path });
+            } catch (error) {
+              logger.warn(
+                `Failed to git remove deleted file ${operation.path}:`,
+                error,
+              );
+              // Continue even if remove fails as the file was still deleted
+            }
+            break;
+          }
+          case "rename": {
+            const fromPath = safeJoin(appPath, operation.from);
+            const toPath = safeJoin(appPath, operation.to);
+
+            // Ensure target directory exists
+            fs.mkdirSync(path.dirname(toPath), { recursive: true });
+            fs.renameSync(fromPath, toPath);
+            logger.log(`Successfully renamed file: ${fromPath} -> ${toPath}`);
+            renamedFiles.push(operation.to);
+
+            // Add the new file and remove the old one from git
+            await gitAdd({ path: appPath, filepath: operation.to });
+            try {
+              await gitRemove({ path: appPath, filepath: operation.from });
+            } catch (error) {
+              logger.warn(
+                `Failed to git remove old file ${operation.from}:`,
+                error,
+              );
+              // Continue even if remove fails as the file was still renamed
+            }
+            break;
+          }
+          case "edit":
+          case "write": {
+            const fullFilePath = safeJoin(appPath, operation.path);
+            if (operation.type === "write") {
+              fs.mkdirSync(path.dirname(fullFilePath), { recursive: true });
+            }
+            fs.writeFileSync(fullFilePath, operation.content);
+            logger.log(`Successfully wrote file: ${fullFilePath}`);
+            writtenFiles.push(operation.path);
+            break;
           }
         }
       }
 
-      // Ensure directory exists
-      const dirPath = path.dirname(fullFilePath);
-      fs.mkdirSync(dirPath, { recursive: true });
-
-      // Write file content
-      fs.writeFileSync(fullFilePath, content);
-      logger.log(`Successfully wrote file: ${fullFilePath}`);
-      writtenFiles.push(filePath);
-    }
-
-    // If we have any file changes, commit them all at once
-    hasChanges =
-      writtenFiles.length > 0 ||
-      renamedFiles.length > 0 ||
-      deletedFiles.length > 0 ||
-      blazeAddDependencyPackages.length > 0;
-
-    let uncommittedFiles: string[] = [];
-    let extraFilesError: string | undefined;
-
-    if (hasChanges) {
-      // Stage all written files
-      for (const file of writtenFiles) {
-        await gitAdd({ path: appPath, filepath: file });
-      }
+      // If we have any file changes, commit them all at once
+      hasChanges =
+        writtenFiles.length > 0 ||
+        renamedFiles.length > 0 ||
+        deletedFiles.length > 0 ||
+        blazeAddDependencyPackages.length > 0;
+
+      if (hasChanges) {
+        // Stage all written files
+        for (const file of writtenFiles) {
+          await gitAdd({ path: appPath, filepath: file });
+        }
 
-      const isCleanAfterApply = await isGitStatusClean({ path: appPath });
-      if (isCleanAfterApply) {
-        logger.info(
-          "No git changes detected after applying AI response, skipping commit",
-        );
-        hasChanges = false;
+        const isCleanAfterApply = await isGitStatusClean({ path: appPath });
+        if (isCleanAfterApply) {
+          logger.info(
+            "No git changes detected after applying AI response, skipping commit",
+          );
+          hasChanges = false;
+        }
       }
 
       if (!hasChanges) {
@@ -383,66 +484,73 @@ export async function processFullResponseActions(
             `added ${blazeAddDependencyPackages.join(", ")} package(s)`,
           );
 
-        let message = chatSummary
+        commitMessage = chatSummary
           ? `[blaze] ${chatSummary} - ${changes.join(", ")}`
           : `[blaze] ${changes.join(", ")}`;
         // Use chat summary, if provided, or default for commit message
-        let commitHash = await gitCommit({
+        commitHash = await gitCommit({
           path: appPath,
-          message,
+          message: commitMessage,
         });
         logger.log(`Successfully committed changes: ${changes.join(", ")}`);
+      }
+      isCommitted = true;
+    } finally {
+      actionReports = settleStagedReports(
+        staged.reports,
+        isCommitted ? "applied" : "not-applied",
+      );
+      if (!isCommitted) {
+        await rollBackFileActions(appPath, snapshot, sourceCommitHash, errors);
+      }
+    }
 
-        // Check for any uncommitted changes after the commit
-        uncommittedFiles = await getGitUncommittedFiles({ path: appPath });
-
-        if (uncommittedFiles.length > 0) {
-          // Stage all changes
-          await gitAddAll({ path: appPath });
-          try {
-            commitHash = await gitCommit({
-              path: appPath,
-              message: message + " + extra files edited outside of Blaze",
-              amend: true,
-            });
-            logger.log(
-              `Amend commit with changes outside of blaze: ${uncommittedFiles.join(", ")}`,
-            );
-          } catch (error) {
-            // Just log, but don't throw an error because the user can still
-            // commit these changes outside of Blaze if needed.
-            logger.error(
-              `Failed to commit changes outside of blaze: ${uncommittedFiles.join(
-                ", ",
-              )}`,
-            );
-            extraFilesError = (error as any).toString();
-          }
-        }
+    let uncommittedFiles: string[] = [];
+    let extraFilesError: string | undefined;
 
-        // Save the commit hash to the message
-        await db
-          .update(messages)
-          .set({
-            commitHash: commitHash,
-          })
-          .where(eq(messages.id, messageId));
+    if (hasChanges && commitHash) {
+      // Check for any uncommitted changes after the commit
+      uncommittedFiles = await getGitUncommittedFiles({ path: appPath });
+
+      if (uncommittedFiles.length > 0) {
+        // Stage all changes
+        await gitAddAll({ path: appPath });
+        try {
+          commitHash = await gitCommit({
+            path: appPath,
+            message: commitMessage + " + extra files edited outside of Blaze",
+            amend: true,
+          });
+          logger.log(
+            `Amend commit with changes outside of blaze: ${uncommittedFiles.join(", ")}`,
+          );
+        } catch (error) {
+          // Just log, but don't throw an error because the user can still
+          // commit these changes outside of Blaze if needed.
+          logger.error(
+            `Failed to commit changes outside of blaze: ${uncommittedFiles.join(
+              ", ",
+            )}`,
+          );
+          extraFilesError = (error as any).toString();
+        }
       }
-    }
 
-    if (!hasChanges && searchReplaceFailures.length > 0) {
-      const searchReplaceError = `Failed to apply search-replace edits: ${searchReplaceFailures
-        .map(({ filePath, error }) => `${filePath}: ${error}`)
-        .join(" | ")}`;
-      errors.push({
-        message: "Search-replace apply failed",
-        error: searchReplaceError,
+      // Save the commit hash to the message
+      await db
+        .update(messages)
+        .set({
+          commitHash: commitHash,
+        })
+        .where(eq(messages.id, messageId));
+
+      await updateCodeSearchIndex(appPath, {
+        changedPaths: [...writtenFiles, ...renamedFiles, ...uncommittedFiles],
+        deletedPaths: [
+          ...deletedFiles,
+          ...blazeRenameTags.map((tag) => tag.from),
+        ],
       });
-      logger.warn(searchReplaceError);
-      return {
-        updatedFiles: false,
-        error: searchReplaceError,
-      };
     }
 
     logger.log("mark as approved: hasChanges", hasChanges);
@@ -458,11 +566,19 @@ export async function processFullResponseActions(
       updatedFiles: hasChanges,
       extraFiles: uncommittedFiles.length > 0 ? uncommittedFiles : undefined,
       extraFilesError,
+      actionReports: actionReports.length > 0 ? actionReports : undefined,
     };
   } catch (error: unknown) {
     logger.error("Error processing files:", error);
-    return { error: (error as any).toString() };
+    return { error: (error as any).toString(), actionReports };
   } finally {
+    if (actionReports && actionReports.length > 0) {
+      await db
+        .update(messages)
+        .set({ applyReport: actionReports })
+        .where(eq(messages.id, messageId));
+    }
+
     const appendedParts: string[] = [];
 
     if (errors.length > 0) {
@@ -0,0 +1,271 @@
+import fs from "node:fs";
+import path from "node:path";
+import { AsyncVirtualFileSystem } from "/shared/VirtualFilesystem.ts";
+import { safeJoin } from "/src/ipc/utils/path_utils.ts";
+import { applySearchReplace } from "/src/core/main/ipc/processors/search_replace_processor.ts";
+import { applyUnifiedPatch } from "/src/core/main/ipc/processors/patch_processor.ts";
+import {
+  filterBlazeActions,
+  type BlazeAction,
+} from "/src/shared/blaze_tags.ts";
+import type { FileUploadInfo } from "/src/ipc/utils/file_uploads_state.ts";
+import {
+  getGitUncommittedFiles,
+  gitResetFiles,
+  gitResetHard,
+} from "/src/ipc/utils/git_utils.ts";
+import type { ApplyActionReport } from "/src/lib/schemas.ts";
+
+const readFile = fs.promises.readFile;
+
+type FileAction = Extract<
+  BlazeAction,
+  { type: "write" | "search-replace" | "patch" | "rename" | "delete" }
+>;
+
+/** A file operation that passed validation, in apply order. */
+export type StagedFileOperation =
+  | { type: "delete"; path: string }
+  | { type: "rename"; from: string; to: string }
+  | { type: "edit"; path: string; content: string }
+  | { type: "write"; path: string; content: string | Buffer };
+
+export interface StagedFileActions {
+  operations: StagedFileOperation[];
+  reports: ApplyActionReport[];
+  /** Reports of the actions that would fail; nothing may be applied then. */
+  failures: ApplyActionReport[];
+}
+
+/**
+ * Overlay over the app directory that records staged changes without
+ * touching the disk.
+ */
+class StagingFileSystem extends AsyncVirtualFileSystem {
+  stageWrite(filePath: string, content: string) {
+    this.writeFile(filePath, content);
+  }
+
+  stageDelete(filePath: string) {
+    this.deleteFile(filePath);
+  }
+
+  async stageRename(from: string, to: string) {
+    const content = await this.readFile(from);
+    this.deleteFile(from);
+    if (content !== undefined) {
+      this.writeFile(to, content);
+    }
+  }
+}
+
+function getActionPath(action: FileAction): string {
+  return action.type === "rename" ? action.to : action.path;
+}
+
+/**
+ * Runs the file actions of a response against an in-memory overlay of the app
+ * and returns the operations to apply, or the actions that would fail.
+ * Actions run in the order `processFullResponseActions` applies them:
+ * deletes, renames, search-replace edits, patches and full writes.
+ */
+export async function stageFileActions({
+  appPath,
+  actions,
+  fileUploads,
+}: {
+  appPath: string;
+  actions: BlazeAction[];
+  /** Uploaded files by id; a write whose content is an id gets the file. */
+  fileUploads?: Map<string, FileUploadInfo>;
+}): Promise<StagedFileActions> {
+  const overlay = new StagingFileSystem(appPath, {
+    fileExists: async (filePath) => fs.existsSync(safeJoin(appPath, filePath)),
+    readFile: async (filePath) => {
+      try {
+        return await readFile(safeJoin(appPath, filePath), "utf8");
+      } catch {
+        // e.g. a directory
+        return undefined;
+      }
+    },
+  });
+  const operations: StagedFileOperation[] = [];
+  const reports: ApplyActionReport[] = [];
+  const report = (
+    action: FileAction,
+    status: "staged" | "skipped" | "failed",
+    error?: string,
+  ) => {
+    reports.push({
+      type: action.type,
+      path: getActionPath(action),
+      fromPath: action.type === "rename" ? action.from : undefined,
+      status,
+      error,
+    });
+  };
+
+  for (const action of filterBlazeActions(actions, "delete")) {
+    if (!(await overlay.fileExists(action.path))) {
+      report(
+        action,
+        "skipped",
+        `File to delete does not exist: ${action.path}`,
+      );
+      continue;
+    }
+    overlay.stageDelete(action.path);
+    operations.push({ type: "delete", path: action.path });
+    report(action, "staged");
+  }
+
+  for (const action of filterBlazeActions(actions, "rename")) {
+    if (!(await overlay.fileExists(action.from))) {
+      report(
+        action,
+        "skipped",
+        `Source file for rename does not exist: ${action.from}`,
+      );
+      continue;
+    }
+    await overlay.stageRename(action.from, action.to);
+    operations.push({ type: "rename", from: action.from, to: action.to });
+    report(action, "staged");
+  }
+
+  const writePaths = new Set(
+    filterBlazeActions(actions, "write").map((action) => action.path),
+  );
+  for (const action of [
+    ...filterBlazeActions(actions, "search-replace"),
+    ...filterBlazeActions(actions, "patch"),
+  ]) {
+    const label = action.type === "patch" ? "patch" : "search-replace";
+    const original = await overlay.readFile(action.path);
+    let error: string | undefined;
+    if (original === undefined) {
+      error = `${action.type === "patch" ? "Patch" : "Search-replace"} target file does not exist: ${action.path}`;
+    } else {
+      const result =
+        action.type === "patch"
+          ? applyUnifiedPatch(original, action.content)
+          : applySearchReplace(original, action.content);
+      if (result.success && typeof result.content === "string") {
+        overlay.stageWrite(action.path, result.content);
+        operations.push({
+          type: "edit",
+          path: action.path,
+          content: result.content,
+        });
+        report(action, "staged");
+        continue;
+      }
+      error = `Failed to apply ${label} to ${action.path}: ${result.error ?? "unknown"}`;
+    }
+    // A full write of the same file replaces whatever the edit would do.
+    report(action, writePaths.has(action.path) ? "skipped" : "failed", error);
+  }
+
+  for (const action of filterBlazeActions(actions, "write")) {
+    let content: string | Buffer = action.content;
+    const fileInfo = fileUploads?.get(action.content.trim());
+    if (fileInfo) {
+      try {
+        content = await readFile(fileInfo.filePath);
+      } catch (error) {
+        report(
+          action,
+          "failed",
+          `Failed to read uploaded file ${fileInfo.originalName}: ${String(error)}`,
+        );
+        continue;
+      }
+    }
+    if (typeof content === "string") {
+      overlay.stageWrite(action.path, content);
+    }
+    operations.push({ type: "write", path: action.path, content });
+    report(action, "staged");
+  }
+
+  return {
+    operations,
+    reports,
+    failures: reports.filter((entry) => entry.status === "failed"),
+  };
+}
+
+/** Contents of files before an apply; `null` marks a missing file. */
+export type FileSnapshot = Map<string, string | Buffer | null>;
+
+/**
+ * Reads the current contents of the given paths (directories recursively) so
+ * a failed apply can put them back with `restoreFileSnapshot`.
+ */
+export async function takeFileSnapshot(
+  appPath: string,
+  filePaths: string[],
+): Promise<FileSnapshot> {
+  const snapshot: FileSnapshot = new Map();
+  const visit = async (filePath: string) => {
+    if (snapshot.has(filePath)) {
+      return;
+    }
+    const fullFilePath = safeJoin(appPath, filePath);
+    if (!fs.existsSync(fullFilePath)) {
+      snapshot.set(filePath, null);
+      return;
+    }
+    if (fs.lstatSync(fullFilePath).isDirectory()) {
+      for (const entry of fs.readdirSync(fullFilePath)) {
+        await visit(path.posix.join(filePath, entry));
+      }
+      return;
+    }
+    snapshot.set(filePath, await readFile(fullFilePath));
+  };
+  for (const filePath of filePaths) {
+    await visit(filePath);
+  }
+  return snapshot;
+}
+
+export function restoreFileSnapshot(appPath: string, snapshot: FileSnapshot) {
+  for (const [filePath, content] of snapshot) {
+    const fullFilePath = safeJoin(appPath, filePath);
+    if (content === null) {
+      if (fs.existsSync(fullFilePath)) {
+        fs.rmSync(fullFilePath, { recursive: true, force: true });
+      }
+      continue;
+    }
+    fs.mkdirSync(path.dirname(fullFilePath), { recursive: true });
+    fs.writeFileSync(fullFilePath, content);
+  }
+}
+
+/**
+ * Undoes a failed apply and resets the workspace to `sourceCommitHash`.
+ * Restoring and unstaging the snapshotted files first leaves only the edits
+ * the user had not committed; they are set aside before the hard reset and
+ * written back on top of `sourceCommitHash` afterwards.
+ */
+export async function rollBackFileSnapshot({
+  appPath,
+  snapshot,
+  sourceCommitHash,
+}: {
+  appPath: string;
+  snapshot: FileSnapshot;
+  sourceCommitHash: string;
+}) {
+  restoreFileSnapshot(appPath, snapshot);
+  await gitResetFiles({ path: appPath, filepaths: [...snapshot.keys()] });
+  const uncommittedFiles = (await getGitUncommittedFiles({ path: appPath }))
+    // A staged rename is reported as "from -> to"
+    .flatMap((filePath) => filePath.split(" -> "));
+  const uncommittedEdits = await takeFileSnapshot(appPath, uncommittedFiles);
+  await gitResetHard({ path: appPath, targetOid: sourceCommitHash });
+  restoreFileSnapshot(appPath, uncommittedEdits);
+}
@@ -0,0 +1,73 @@
+import { computeLineDiff } from "/src/ipc/processors/proposal_diff.ts";
+import { getFileAtCommit, gitDiffFiles } from "/src/ipc/utils/git_utils.ts";
+import type { VersionDiff, VersionFileDiff } from "/src/lib/schemas.ts";
+
+function isBinaryContent(content: string): boolean {
+  return content.includes("\0");
+}
+
+/**
+ * Diffs two commits of an app file by file, optionally limited to one file.
+ * Both commits must already be resolved to hashes.
+ */
+export async function buildVersionDiff({
+  appPath,
+  from,
+  to,
+  filePath,
+}: {
+  appPath: string;
+  from: string;
+  to: string;
+  filePath?: string;
+}): Promise<VersionDiff> {
+  const changedFiles = await gitDiffFiles({
+    path: appPath,
+    from,
+    to,
+    filepath: filePath,
+  });
+
+  const files = await Promise.all(
+    changedFiles.map(async (file): Promise<VersionFileDiff> => {
+      const [before, after] = await Promise.all([
+        file.status === "added"
+          ? null
+          : getFileAtCommit({
+              path: appPath,
+              filePath: file.fromPath ?? file.path,
+              commitHash: from,
+            }),
+        file.status === "deleted"
+          ? null
+          : getFileAtCommit({
+              path: appPath,
+              filePath: file.path,
+              commitHash: to,
+            }),
+      ]);
+      const binary =
+        isBinaryContent(before ?? "") || isBinaryContent(after ?? "");
+      const hunks = binary ? [] : computeLineDiff(before ?? "", after ?? "");
+      const lines = hunks.flatMap((hunk) => hunk.lines);
+      return {
+        ...file,
+        additions: lines.filter((line) => line.type === "add").length,
+        deletions: lines.filter((line) => line.type === "remove").length,
+        binary,
+        hunks,
+      };
+    }),
+  );
+
+  return {
+    from,
+    to,
+    files,
+    stats: {
+      filesChanged: files.length,
+      additions: files.reduce((total, file) => total + file.additions, 0),
+      deletions: files.reduce((total, file) => total + file.deletions, 0),
+    },
+  };
+}
@@ -15,6 +15,8 @@ export interface ModelOption {
   tagColor?: string;
   maxOutputTokens?: number;
   contextWindow?: number;
+  /** Accepts images in messages, e.g. screenshots from agent tools. */
+  supportsImageInput?: boolean;
 }
 
 export const GPT_5_2_MODEL_NAME = "gpt-5.2";
@@ -26,6 +28,7 @@ export const MODEL_OPTIONS: Record<string, ModelOption[]> = {
     // https://platform.openai.com/docs/models/gpt-5.1
     {
       name: GPT_5_2_MODEL_NAME,
+      supportsImageInput: true,
       displayName: "GPT 5.2",
       description: "OpenAI's latest model",
       // Technically it's 128k but OpenAI errors if you set max_tokens instead of max_completion_tokens
@@ -38,6 +41,7 @@ export const MODEL_OPTIONS: Record<string, ModelOption[]> = {
     // https://platform.openai.com/docs/models/gpt-5.1
     {
       name: "gpt-5.1",
+      supportsImageInput: true,
       displayName: "GPT 5.1",
       description:
         "OpenAI's flagship model- smarter, faster, and more conversational",
@@ -51,6 +55,7 @@ export const MODEL_OPTIONS: Record<string, ModelOption[]> = {
     // https://platform.openai.com/docs/models/gpt-5.1-codex
     {
       name: "gpt-5.1-codex",
+      supportsImageInput: true,
       displayName: "GPT 5.1 Codex",
       description: "OpenAI's advanced coding workflows",
       // Technically it's 128k but OpenAI errors if you set max_tokens instead of max_completion_tokens
@@ -63,6 +68,7 @@ export const MODEL_OPTIONS: Record<string, ModelOption[]> = {
     // https://platform.openai.com/docs/models/gpt-5.1-codex-mini
     {
       name: "gpt-5.1-codex-mini",
+      supportsImageInput: true,
       displayName: "GPT 5.1 Codex Mini",
       description: "OpenAI's compact and efficient coding model",
       // Technically it's 128k but OpenAI errors if you set max_tokens instead of max_completion_tokens
@@ -76,6 +82,7 @@ export const MODEL_OPTIONS: Record<string, ModelOption[]> = {
     // https://platform.openai.com/docs/models/gpt-5
     {
       name: "gpt-5",
+      supportsImageInput: true,
       displayName: "GPT 5",
       description: "OpenAI's flagship model",
       // Technically it's 128k but OpenAI errors if you set max_tokens instead of max_completion_tokens
@@ -88,6 +95,7 @@ export const MODEL_OPTIONS: Record<string, ModelOption[]> = {
     // https://platform.openai.com/docs/models/gpt-5-codex
     {
       name: "gpt-5-codex",
+      supportsImageInput: true,
       displayName: "GPT 5 Codex",
       description: "OpenAI's flagship model optimized for coding",
       // Technically it's 128k but OpenAI errors if you set max_tokens instead of max_completion_tokens
@@ -100,6 +108,7 @@ export const MODEL_OPTIONS: Record<string, ModelOption[]> = {
     // https://platform.openai.com/docs/models/gpt-5-mini
     {
       name: "gpt-5-mini",
+      supportsImageInput: true,
       displayName: "GPT 5 Mini",
       description: "OpenAI's lightweight, but intelligent model",
       // Technically it's 128k but OpenAI errors if you set max_tokens instead of max_completion_tokens
@@ -114,6 +123,7 @@ export const MODEL_OPTIONS: Record<string, ModelOption[]> = {
   anthropic: [
     {
       name: "claude-opus-4-5",
+      supportsImageInput: true,
       displayName: "Claude Opus 4.5",
       description:
         "Anthropic's best model for coding (note: this model is very expensive!)",
@@ -125,6 +135,7 @@ export const MODEL_OPTIONS: Record<string, ModelOption[]> = {
     },
     {
       name: SONNET_4_5,
+      supportsImageInput: true,
       displayName: "Claude Sonnet 4.5",
       description:
         "Anthropic's best model for coding (note: >200k tokens is very expensive!)",
@@ -136,6 +147,7 @@ export const MODEL_OPTIONS: Record<string, ModelOption[]> = {
     },
     {
       name: "claude-sonnet-4-20250514",
+      supportsImageInput: true,
       displayName: "Claude Sonnet 4",
       description: "Excellent coder (note: >200k tokens is very expensive!)",
       // Set to 32k since context window is 1M tokens
@@ -149,6 +161,7 @@ export const MODEL_OPTIONS: Record<string, ModelOption[]> = {
     // https://ai.google.dev/gemini-api/docs/models#gemini-3-pro
     {
       name: "gemini-3-pro-preview",
+      supportsImageInput: true,
       displayName: "Gemini 3 Pro (Preview)",
       description: "Google's latest Gemini model",
       // See Flash 2.5 comment below (go 1 below just to be safe, even though it seems OK now).
@@ -162,6 +175,7 @@ export const MODEL_OPTIONS: Record<string, ModelOption[]> = {
     // https://ai.google.dev/gemini-api/docs/models#gemini-3-pro
     {
       name: GEMINI_3_FLASH,
+      supportsImageInput: true,
       displayName: "Gemini 3 Flash (Preview)",
       description: "Powerful coding model at a good price",
       // See Flash 2.5 comment below (go 1 below just to be safe, even though it seems OK now).
@@ -175,6 +189,7 @@ export const MODEL_OPTIONS: Record<string, ModelOption[]> = {
     // https://ai.google.dev/gemini-api/docs/models#gemini-2.5-pro-preview-03-25
     {
       name: "gemini-2.5-pro",
+      supportsImageInput: true,
       displayName: "Gemini 2.5 Pro",
       description: "Google's Gemini 2.5 Pro model",
       // See Flash 2.5 comment below (go 1 below just to be safe, even though it seems OK now).
@@ -187,6 +202,7 @@ export const MODEL_OPTIONS: Record<string, ModelOption[]> = {
     // https://ai.google.dev/gemini-api/docs/models#gemini-2.5-flash-preview
     {
       name: "gemini-flash-latest",
+      supportsImageInput: true,
       displayName: "Gemini 2.5 Flash",
       description: "Google's Gemini 2.5 Flash model (free tier available)",
       // Weirdly for Vertex AI, the output token limit is *exclusive* of the stated limit.
@@ -201,6 +217,7 @@ export const MODEL_OPTIONS: Record<string, ModelOption[]> = {
     // Vertex Gemini 2.5 Pro
     {
       name: "gemini-2.5-pro",
+      supportsImageInput: true,
       displayName: "Gemini 2.5 Pro",
       description: "Vertex Gemini 2.5 Pro",
       maxOutputTokens: 65_536 - 1,
@@ -210,6 +227,7 @@ export const MODEL_OPTIONS: Record<string, ModelOption[]> = {
     // Vertex Gemini 2.5 Flash
     {
       name: "gemini-flash-latest",
+      supportsImageInput: true,
       displayName: "Gemini 2.5 Flash",
       description: "Vertex Gemini 2.5 Flash",
       maxOutputTokens: 65_536 - 1,
@@ -321,6 +339,7 @@ export const MODEL_OPTIONS: Record<string, ModelOption[]> = {
   azure: [
     {
       name: "gpt-5.1",
+      supportsImageInput: true,
       displayName: "GPT-5.1",
       description: "Azure OpenAI GPT-5.1 model",
       // See OpenAI comment above
@@ -330,6 +349,7 @@ export const MODEL_OPTIONS: Record<string, ModelOption[]> = {
     },
     {
       name: "gpt-5.1-codex",
+      supportsImageInput: true,
       displayName: "GPT-5.1 Codex",
       description: "Azure OpenAI GPT-5.1 Codex model",
       // See OpenAI comment above
@@ -339,6 +359,7 @@ export const MODEL_OPTIONS: Record<string, ModelOption[]> = {
     },
     {
       name: "gpt-5.1-codex-mini",
+      supportsImageInput: true,
       displayName: "GPT-5.1 Codex Mini",
       description: "Azure OpenAI GPT-5.1 Codex Mini model",
       // See OpenAI comment above
@@ -348,6 +369,7 @@ export const MODEL_OPTIONS: Record<string, ModelOption[]> = {
     },
     {
       name: "gpt-5-codex",
+      supportsImageInput: true,
       displayName: "GPT-5 Codex",
       description: "Azure OpenAI GPT-5 Codex model",
       // See OpenAI comment above
@@ -357,6 +379,7 @@ export const MODEL_OPTIONS: Record<string, ModelOption[]> = {
     },
     {
       name: "gpt-5",
+      supportsImageInput: true,
       displayName: "GPT-5",
       description: "Azure OpenAI GPT-5 model with reasoning capabilities",
       // See OpenAI comment above
@@ -366,6 +389,7 @@ export const MODEL_OPTIONS: Record<string, ModelOption[]> = {
     },
     {
       name: "gpt-5-mini",
+      supportsImageInput: true,
       displayName: "GPT-5 Mini",
       description: "Azure OpenAI GPT-5 Mini model",
       // See OpenAI comment above
@@ -375,6 +399,7 @@ export const MODEL_OPTIONS: Record<string, ModelOption[]> = {
     },
     {
       name: "gpt-5-nano",
+      supportsImageInput: true,
       displayName: "GPT-5 Nano",
       description: "Azure OpenAI GPT-5 Nano model",
       // See OpenAI comment above
@@ -384,6 +409,7 @@ export const MODEL_OPTIONS: Record<string, ModelOption[]> = {
     },
     {
       name: "gpt-5-chat",
+      supportsImageInput: true,
       displayName: "GPT-5 Chat",
       description: "Azure OpenAI GPT-5 Chat model",
       // See OpenAI comment above
@@ -405,6 +431,7 @@ export const MODEL_OPTIONS: Record<string, ModelOption[]> = {
     },
     {
       name: "grok-4",
+      supportsImageInput: true,
       displayName: "Grok 4",
       description: "Most capable coding model",
       maxOutputTokens: 32_000,
@@ -425,6 +452,7 @@ export const MODEL_OPTIONS: Record<string, ModelOption[]> = {
   bedrock: [
     {
       name: "us.anthropic.claude-sonnet-4-5-20250929-v1:0",
+      supportsImageInput: true,
       displayName: "Claude 4.5 Sonnet",
       description:
         "Anthropic's best model for coding (note: >200k tokens is very expensive!)",
@@ -434,6 +462,7 @@ export const MODEL_OPTIONS: Record<string, ModelOption[]> = {
     },
     {
       name: "us.anthropic.claude-sonnet-4-20250514-v1:0",
+      supportsImageInput: true,
       displayName: "Claude 4 Sonnet",
       description: "Excellent coder (note: >200k tokens is very expensive!)",
       maxOutputTokens: 32_000,
@@ -4,25 +4,54 @@ import {
   language_models as languageModelsSchema,
 } from "/src/db/schema.ts";
 import type { LanguageModelProvider, LanguageModel } from "../ipc_types";
-import { eq } from "drizzle-orm";
+import { and, eq, isNull, or } from "drizzle-orm";
 import {
   LOCAL_PROVIDERS,
   CLOUD_PROVIDERS,
   MODEL_OPTIONS,
   PROVIDER_TO_ENV_VAR,
 } from "./language_model_constants";
+import { decryptSecret } from "../utils/secret_crypto";
+
+export interface LanguageModelProviderScope {
+  organizationId: string | null;
+  workspaceId: string | null;
+}
+
+function customProviderScopeCondition(scope: LanguageModelProviderScope) {
+  // Providers created before multitenancy have no tenant and stay visible.
+  const legacyCondition = and(
+    isNull(languageModelProvidersSchema.organizationId),
+    isNull(languageModelProvidersSchema.workspaceId),
+  );
+  if (!scope.organizationId || !scope.workspaceId) {
+    return legacyCondition;
+  }
+  return or(
+    and(
+      eq(languageModelProvidersSchema.organizationId, scope.organizationId),
+      eq(languageModelProvidersSchema.workspaceId, scope.workspaceId),
+    ),
+    legacyCondition,
+  );
+}
+
 /**
  * Fetches language model providers from both the database (custom) and hardcoded constants (cloud),
  * merging them with custom providers taking precedence.
+ * @param scope When given, only custom providers of that workspace (and legacy unscoped ones) are returned.
  * @returns A promise that resolves to an array of LanguageModelProvider objects.
  */
-export async function getLanguageModelProviders(): Promise<
-  LanguageModelProvider[]
-> {
+export async function getLanguageModelProviders(
+  scope?: LanguageModelProviderScope,
+): Promise<LanguageModelProvider[]> {
   // Fetch custom providers from the database
-  const customProvidersDb = await db
-    .select()
-    .from(languageModelProvidersSchema);
+  const customProvidersDb = scope
+    ? await db
+        .select()
+        .from(languageModelProvidersSchema)
+        .where(customProviderScopeCondition(scope))
+    : await db.select().from(languageModelProvidersSchema);
 
   const customProvidersMap = new Map<string, LanguageModelProvider>();
   for (const cp of customProvidersDb) {
@@ -30,11 +59,12 @@ export async function getLanguageModelProviders(): Promise<
       id: cp.id,
       name: cp.name,
       apiBaseUrl: cp.api_base_url,
-      envVarName: cp.env_var_name ?? undefined,
       trustSelfSigned: cp.trust_self_signed ?? false,
       type: "custom",
       // hasFreeTier, websiteUrl, gatewayPrefix are not in the custom DB schema
       // They will be undefined unless overridden by hardcoded values if IDs match
+      // env_var_name is ignored: a server env key must never be sent to a
+      // base URL the workspace chose, so custom providers use a stored key.
     });
   }
 
@@ -181,6 +211,20 @@ export async function getLanguageModelsByProviders(): Promise<
   return record;
 }
 
+/**
+ * Returns the decrypted API key stored for a custom provider, if any.
+ */
+export async function getStoredProviderApiKey(
+  providerId: string,
+): Promise<string | undefined> {
+  const [row] = await db
+    .select({ apiKeyEncrypted: languageModelProvidersSchema.api_key_encrypted })
+    .from(languageModelProvidersSchema)
+    .where(eq(languageModelProvidersSchema.id, providerId))
+    .limit(1);
+  return row?.apiKeyEncrypted ? decryptSecret(row.apiKeyEncrypted) : undefined;
+}
+
 export function isCustomProvider({ providerId }: { providerId: string }) {
   return providerId.startsWith(CUSTOM_PROVIDER_PREFIX);
 }
@@ -1,5 +1,5 @@
 const ACTIONABLE_BLAZE_TAG_PATTERN =
-  /<(blaze-(?:chat-summary|write|search-replace|rename|delete|add-dependency))\b[^>]*>[\s\S]*?<\/\1>/gi;
+  /<(blaze-(?:chat-summary|write|search-replace|patch|rename|delete|add-dependency))\b[^>]*>[\s\S]*?<\/\1>/gi;
 
 export function extractActionableBlazeTags(rawResponse: string): string {
   const actionableTags = rawResponse.match(ACTIONABLE_BLAZE_TAG_PATTERN);
@@ -0,0 +1,544 @@
+import path from "node:path";
+import { Readable } from "node:stream";
+import { promisify } from "node:util";
+import zlib from "node:zlib";
+
+export type ArchiveFormat = "zip" | "tar.gz";
+
+export interface ArchiveEntry {
+  /** Relative POSIX path inside the archive. */
+  path: string;
+  type: "file" | "directory";
+  data: Buffer;
+  executable: boolean;
+}
+
+export interface ArchiveLimits {
+  maxEntries: number;
+  /** Limit for the sum of the uncompressed file sizes. */
+  maxTotalBytes: number;
+}
+
+export class ArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ArchiveError";
+  }
+}
+
+const ZIP_LOCAL_FILE_HEADER = 0x04034b50;
+const ZIP_CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const ZIP_END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const ZIP_END_OF_CENTRAL_DIRECTORY_SIZE = 22;
+const ZIP_MAX_COMMENT_SIZE = 0xffff;
+const ZIP_METHOD_STORED = 0;
+const ZIP_METHOD_DEFLATE = 8;
+const ZIP_FLAG_ENCRYPTED = 0x1;
+const ZIP_MADE_BY_UNIX = 3;
+const ZIP_VERSION = 20;
+const ZIP_FLAG_UTF8_NAMES = 0x800;
+/** Zip64 is not written, so archives stay below these limits. */
+export const ZIP_MAX_ENTRIES = 0xffff;
+const ZIP_MAX_OFFSET = 0xffffffff;
+
+const TAR_BLOCK_SIZE = 512;
+
+/**
+ * Rejects absolute paths and `..` segments, so entries can only be written
+ * inside the extraction directory. Returns `null` for the archive root.
+ */
+export function normalizeArchivePath(entryPath: string): string | null {
+  const posixPath = entryPath.replace(/\\/g, "/");
+  if (posixPath.startsWith("/") || /^[a-zA-Z]:/.test(posixPath)) {
+    throw new ArchiveError(`Archive entry has an absolute path: ${entryPath}`);
+  }
+  if (posixPath.split("/").includes("..")) {
+    throw new ArchiveError(`Archive entry leaves the archive: ${entryPath}`);
+  }
+  const normalized = path.posix.normalize(posixPath).replace(/\/+$/, "");
+  return normalized === "." || normalized === "" ? null : normalized;
+}
+
+class EntryCollector {
+  readonly entries: ArchiveEntry[] = [];
+  private totalBytes = 0;
+  /** Entry types by path, including the parent directories of entries. */
+  private readonly pathTypes = new Map<string, ArchiveEntry["type"]>();
+
+  constructor(private readonly limits: ArchiveLimits) {}
+
+  /** Bytes that may still be extracted, used to cap decompression. */
+  get remainingBytes(): number {
+    return this.limits.maxTotalBytes - this.totalBytes;
+  }
+
+  add(entryPath: string, entry: Omit<ArchiveEntry, "path">) {
+    const normalized = normalizeArchivePath(entryPath);
+    if (normalized === null) {
+      return;
+    }
+    if (this.entries.length >= this.limits.maxEntries) {
+      throw new ArchiveError(
+        `Archive has more than ${this.limits.maxEntries} entries`,
+      );
+    }
+    this.totalBytes += entry.data.length;
+    if (this.totalBytes > this.limits.maxTotalBytes) {
+      throw this.tooLargeError();
+    }
+    this.claimPath(normalized, entry.type);
+    this.entries.push({ path: normalized, ...entry });
+  }
+
+  /** Rejects a path that is a file for one entry and a directory for another. */
+  private claimPath(entryPath: string, type: ArchiveEntry["type"]) {
+    const segments = entryPath.split("/");
+    for (let index = 1; index <= segments.length; index++) {
+      const claimedPath = segments.slice(0, index).join("/");
+      const claimedType = index === segments.length ? type : "directory";
+      const existingType = this.pathTypes.get(claimedPath);
+      if (existingType !== undefined && existingType !== claimedType) {
+        throw new ArchiveError(
+          `Archive has both a file and a directory at ${claimedPath}`,
+        );
+      }
+      this.pathTypes.set(claimedPath, claimedType);
+    }
+  }
+
+  tooLargeError() {
+    return new ArchiveError(
+      `Archive content is larger than ${this.limits.maxTotalBytes} bytes`,
+    );
+  }
+}
+
+function isOutputLimitError(error: unknown): boolean {
+  return (
+    error instanceof RangeError ||
+    (error as { code?: unknown } | null)?.code === "ERR_BUFFER_TOO_LARGE"
+  );
+}
+
+function findZipEndOfCentralDirectory(data: Buffer): number {
+  const lowestOffset = Math.max(
+    0,
+    data.length - ZIP_END_OF_CENTRAL_DIRECTORY_SIZE - ZIP_MAX_COMMENT_SIZE,
+  );
+  for (
+    let offset = data.length - ZIP_END_OF_CENTRAL_DIRECTORY_SIZE;
+    offset >= lowestOffset;
+    offset--
+  ) {
+    if (data.readUInt32LE(offset) === ZIP_END_OF_CENTRAL_DIRECTORY) {
+      return offset;
+    }
+  }
+  throw new ArchiveError("Not a zip archive");
+}
+
+function readZipEntries(data: Buffer, collector: EntryCollector) {
+  if (data.length < ZIP_END_OF_CENTRAL_DIRECTORY_SIZE) {
+    throw new ArchiveError("Not a zip archive");
+  }
+  const endOffset = findZipEndOfCentralDirectory(data);
+  const entryCount = data.readUInt16LE(endOffset + 10);
+  let offset = data.readUInt32LE(endOffset + 16);
+  if (entryCount === 0xffff || offset === 0xffffffff) {
+    throw new ArchiveError("Zip64 archives are not supported");
+  }
+
+  for (let index = 0; index < entryCount; index++) {
+    if (
+      offset + 46 > data.length ||
+      data.readUInt32LE(offset) !== ZIP_CENTRAL_DIRECTORY_HEADER
+    ) {
+      throw new ArchiveError("Corrupted zip central directory");
+    }
+    const hostSystem = data.readUInt16LE(offset + 4) >> 8;
+    const flags = data.readUInt16LE(offset + 8);
+    const method = data.readUInt16LE(offset + 10);
+    const compressedSize = data.readUInt32LE(offset + 20);
+    const uncompressedSize = data.readUInt32LE(offset + 24);
+    const nameLength = data.readUInt16LE(offset + 28);
+    const extraLength = data.readUInt16LE(offset + 30);
+    const commentLength = data.readUInt16LE(offset + 32);
+    const externalAttributes = data.readUInt32LE(offset + 38);
+    const localHeaderOffset = data.readUInt32LE(offset + 42);
+    const name = data.toString("utf8", offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith("/")) {
+      collector.add(name, {
+        type: "directory",
+        data: Buffer.alloc(0),
+        executable: false,
+      });
+      continue;
+    }
+    if (flags & ZIP_FLAG_ENCRYPTED) {
+      throw new ArchiveError(`Zip entry ${name} is encrypted`);
+    }
+    if (uncompressedSize > collector.remainingBytes) {
+      throw collector.tooLargeError();
+    }
+    if (
+      localHeaderOffset + 30 > data.length ||
+      data.readUInt32LE(localHeaderOffset) !== ZIP_LOCAL_FILE_HEADER
+    ) {
+      throw new ArchiveError(`Corrupted zip entry ${name}`);
+    }
+    const dataOffset =
+      localHeaderOffset +
+      30 +
+      data.readUInt16LE(localHeaderOffset + 26) +
+      data.readUInt16LE(localHeaderOffset + 28);
+    const compressed = data.subarray(dataOffset, dataOffset + compressedSize);
+
+    let content: Buffer;
+    if (method === ZIP_METHOD_STORED) {
+      content = compressed;
+    } else if (method === ZIP_METHOD_DEFLATE) {
+      try {
+        content = zlib.inflateRawSync(compressed, {
+          maxOutputLength: Math.max(1, collector.remainingBytes),
+        });
+      } catch (error) {
+        if (isOutputLimitError(error)) {
+          throw collector.tooLargeError();
+        }
+        throw new ArchiveError(`Corrupted zip entry ${name}`);
+      }
+    } else {
+      throw new ArchiveError(
+        `Zip entry ${name} uses unsupported compression method ${method}`,
+      );
+    }
+
+    // Symlinks (S_IFLNK) are skipped, they could point outside the app.
+    const unixMode = externalAttributes >>> 16;
+    if (hostSystem === ZIP_MADE_BY_UNIX && (unixMode & 0o170000) === 0o120000) {
+      continue;
+    }
+    collector.add(name, {
+      type: "file",
+      data: content,
+      executable: hostSystem === ZIP_MADE_BY_UNIX && (unixMode & 0o111) !== 0,
+    });
+  }
+}
+
+function readTarString(block: Buffer, start: number, length: number): string {
+  const field = block.subarray(start, start + length);
+  const end = field.indexOf(0);
+  return field.toString("utf8", 0, end === -1 ? field.length : end);
+}
+
+function readTarNumber(block: Buffer, start: number, length: number): number {
+  const value = readTarString(block, start, length).trim();
+  return value ? parseInt(value, 8) : 0;
+}
+
+/** Reads the `path` record of a pax extended header. */
+function readPaxPath(data: Buffer): string | null {
+  const records = data.toString("utf8");
+  let offset = 0;
+  while (offset < records.length) {
+    const spaceIndex = records.indexOf(" ", offset);
+    const recordLength = parseInt(records.slice(offset, spaceIndex), 10);
+    if (spaceIndex === -1 || !Number.isFinite(recordLength)) {
+      break;
+    }
+    const record = records.slice(spaceIndex + 1, offset + recordLength - 1);
+    if (record.startsWith("path=")) {
+      return record.slice("path=".length);
+    }
+    offset += recordLength;
+  }
+  return null;
+}
+
+function readTarGzEntries(data: Buffer, collector: EntryCollector) {
+  let tar: Buffer;
+  try {
+    // Headers and padding take extra space on top of the file contents.
+    tar = zlib.gunzipSync(data, {
+      maxOutputLength: collector.remainingBytes * 2 + 1024 * 1024,
+    });
+  } catch (error) {
+    if (isOutputLimitError(error)) {
+      throw collector.tooLargeError();
+    }
+    throw new ArchiveError("Not a gzip-compressed tar archive");
+  }
+
+  let longPath: string | null = null;
+  let offset = 0;
+  while (offset + TAR_BLOCK_SIZE <= tar.length) {
+    const header = tar.subarray(offset, offset + TAR_BLOCK_SIZE);
+    if (header.every((byte) => byte === 0)) {
+      break;
+    }
+    const size = readTarNumber(header, 124, 12);
+    const typeFlag = String.fromCharCode(header[156] || 0x30);
+    const dataStart = offset + TAR_BLOCK_SIZE;
+    const content = tar.subarray(dataStart, dataStart + size);
+    if (content.length !== size) {
+      throw new ArchiveError("Truncated tar archive");
+    }
+    offset = dataStart + Math.ceil(size / TAR_BLOCK_SIZE) * TAR_BLOCK_SIZE;
+
+    if (typeFlag === "x") {
+      longPath = readPaxPath(content) ?? longPath;
+      continue;
+    }
+    if (typeFlag === "L") {
+      longPath = readTarString(content, 0, content.length);
+      continue;
+    }
+    if (typeFlag === "g") {
+      continue;
+    }
+
+    const prefix = readTarString(header, 345, 155);
+    const name = readTarString(header, 0, 100);
+    const entryPath = longPath ?? (prefix ? `${prefix}/${name}` : name);
+    longPath = null;
+
+    if (typeFlag === "5") {
+      collector.add(entryPath, {
+        type: "directory",
+        data: Buffer.alloc(0),
+        executable: false,
+      });
+    } else if (typeFlag === "0" || typeFlag === "7") {
+      collector.add(entryPath, {
+        type: "file",
+        data: Buffer.from(content),
+        executable: (readTarNumber(header, 100, 8) & 0o111) !== 0,
+      });
+    }
+    // Links and special files are skipped, they could point outside the app.
+  }
+}
+
+/**
+ * Reads all entries of a zip or tar.gz archive into memory, enforcing the
+ * entry count and uncompressed size limits while decompressing.
+ */
+export function readArchiveEntries(
+  data: Buffer,
+  format: ArchiveFormat,
+  limits: ArchiveLimits,
+): ArchiveEntry[] {
+  const collector = new EntryCollector(limits);
+  if (format === "zip") {
+    readZipEntries(data, collector);
+  } else {
+    readTarGzEntries(data, collector);
+  }
+  return collector.entries;
+}
+
+/** An archive entry that is read only when the archive reaches it. */
+export interface ArchiveSourceFile {
+  path: string;
+  executable: boolean;
+  read: () => Promise<Buffer>;
+}
+
+function toDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time:
+      (date.getHours() << 11) |
+      (date.getMinutes() << 5) |
+      Math.floor(date.getSeconds() / 2),
+    date:
+      ((Math.max(date.getFullYear(), 1980) - 1980) << 9) |
+      ((date.getMonth() + 1) << 5) |
+      date.getDate(),
+  };
+}
+
+const deflateRaw = promisify(zlib.deflateRaw);
+
+async function* generateZip(
+  files: AsyncIterable<ArchiveSourceFile> | Iterable<ArchiveSourceFile>,
+  modifiedAt: Date,
+): AsyncGenerator<Buffer> {
+  const dosDateTime = toDosDateTime(modifiedAt);
+  const centralDirectory: Buffer[] = [];
+  let offset = 0;
+
+  for await (const file of files) {
+    if (centralDirectory.length >= ZIP_MAX_ENTRIES) {
+      throw new ArchiveError(
+        `Zip archives hold at most ${ZIP_MAX_ENTRIES} files`,
+      );
+    }
+    const name = Buffer.from(file.path, "utf8");
+    const content = await file.read();
+    // Runs on the libuv thread pool instead of blocking the event loop.
+    const deflated = await deflateRaw(content);
+    const isDeflated = deflated.length < content.length;
+    const data = isDeflated ? deflated : content;
+    const crc = zlib.crc32(content);
+
+    const localHeader = Buffer.alloc(30);
+    localHeader.writeUInt32LE(ZIP_LOCAL_FILE_HEADER, 0);
+    localHeader.writeUInt16LE(ZIP_VERSION, 4);
+    localHeader.writeUInt16LE(ZIP_FLAG_UTF8_NAMES, 6);
+    localHeader.writeUInt16LE(
+      isDeflated ? ZIP_METHOD_DEFLATE : ZIP_METHOD_STORED,
+      8,
+    );
+    localHeader.writeUInt16LE(dosDateTime.time, 10);
+    localHeader.writeUInt16LE(dosDateTime.date, 12);
+    localHeader.writeUInt32LE(crc, 14);
+    localHeader.writeUInt32LE(data.length, 18);
+    localHeader.writeUInt32LE(content.length, 22);
+    localHeader.writeUInt16LE(name.length, 26);
+
+    const centralHeader = Buffer.alloc(46);
+    centralHeader.writeUInt32LE(ZIP_CENTRAL_DIRECTORY_HEADER, 0);
+    centralHeader.writeUInt16LE((ZIP_MADE_BY_UNIX << 8) | ZIP_VERSION, 4);
+    localHeader.copy(centralHeader, 6, 4, 30);
+    const unixMode = 0o100000 | (file.executable ? 0o755 : 0o644);
+    centralHeader.writeUInt32LE(unixMode * 0x10000, 38);
+    centralHeader.writeUInt32LE(offset, 42);
+    centralDirectory.push(centralHeader, name);
+
+    yield Buffer.concat([localHeader, name]);
+    yield data;
+    offset += localHeader.length + name.length + data.length;
+    if (offset > ZIP_MAX_OFFSET) {
+      throw new ArchiveError("Zip archives are limited to 4 GB");
+    }
+  }
+
+  const centralDirectoryData = Buffer.concat(centralDirectory);
+  const end = Buffer.alloc(ZIP_END_OF_CENTRAL_DIRECTORY_SIZE);
+  end.writeUInt32LE(ZIP_END_OF_CENTRAL_DIRECTORY, 0);
+  end.writeUInt16LE(centralDirectory.length / 2, 8);
+  end.writeUInt16LE(centralDirectory.length / 2, 10);
+  end.writeUInt32LE(centralDirectoryData.length, 12);
+  end.writeUInt32LE(offset, 16);
+  yield centralDirectoryData;
+  yield end;
+}
+
+function writeTarString(
+  block: Buffer,
+  value: string,
+  start: number,
+  length: number,
+) {
+  block.write(value, start, length, "utf8");
+}
+
+function writeTarNumber(
+  block: Buffer,
+  value: number,
+  start: number,
+  length: number,
+) {
+  writeTarString(
+    block,
+    `${value.toString(8).padStart(length - 1, "0")}\0`,
+    start,
+    length,
+  );
+}
+
+function createTarHeader(params: {
+  name: string;
+  size: number;
+  mode: number;
+  mtime: number;
+  typeFlag: string;
+}): Buffer {
+  const header = Buffer.alloc(TAR_BLOCK_SIZE);
+  writeTarString(header, params.name, 0, 100);
+  writeTarNumber(header, params.mode, 100, 8);
+  writeTarNumber(header, 0, 108, 8);
+  writeTarNumber(header, 0, 116, 8);
+  writeTarNumber(header, params.size, 124, 12);
+  writeTarNumber(header, params.mtime, 136, 12);
+  header.fill(" ", 148, 156);
+  writeTarString(header, params.typeFlag, 156, 1);
+  writeTarString(header, "ustar\0", 257, 6);
+  writeTarString(header, "00", 263, 2);
+  const checksum = header.reduce((sum, byte) => sum + byte, 0);
+  writeTarString(header, `${checksum.toString(8).padStart(6, "0")}\0 `, 148, 8);
+  return header;
+}
+
+/** A pax `path` record, whose length prefix counts itself. */
+function createPaxPathRecord(entryPath: string): Buffer {
+  const record = ` path=${entryPath}\n`;
+  const recordBytes = Buffer.byteLength(record);
+  let length = recordBytes + String(recordBytes).length;
+  if (String(length).length !== String(recordBytes).length) {
+    length = recordBytes + String(length).length;
+  }
+  return Buffer.from(`${length}${record}`, "utf8");
+}
+
+function tarPadding(size: number): Buffer {
+  return Buffer.alloc(
+    (TAR_BLOCK_SIZE - (size % TAR_BLOCK_SIZE)) % TAR_BLOCK_SIZE,
+  );
+}
+
+async function* generateTar(
+  files: AsyncIterable<ArchiveSourceFile> | Iterable<ArchiveSourceFile>,
+  modifiedAt: Date,
+): AsyncGenerator<Buffer> {
+  const mtime = Math.floor(modifiedAt.getTime() / 1000);
+  for await (const file of files) {
+    const content = await file.read();
+    let name = file.path;
+    if (Buffer.byteLength(name) > 100) {
+      // Long paths go into a pax extended header before the entry.
+      const paxRecord = createPaxPathRecord(file.path);
+      yield createTarHeader({
+        name: "PaxHeader",
+        size: paxRecord.length,
+        mode: 0o644,
+        mtime,
+        typeFlag: "x",
+      });
+      yield paxRecord;
+      yield tarPadding(paxRecord.length);
+      name = Buffer.from(file.path).subarray(0, 100).toString("utf8");
+    }
+    yield createTarHeader({
+      name,
+      size: content.length,
+      mode: file.executable ? 0o755 : 0o644,
+      mtime,
+      typeFlag: "0",
+    });
+    yield content;
+    yield tarPadding(content.length);
+  }
+  yield Buffer.alloc(TAR_BLOCK_SIZE * 2);
+}
+
+/**
+ * Streams a zip or tar.gz archive of `files`, reading one file at a time.
+ * Entry count and size limits of zip fail the stream.
+ */
+export function createArchiveStream(
+  files: AsyncIterable<ArchiveSourceFile> | Iterable<ArchiveSourceFile>,
+  format: ArchiveFormat,
+  modifiedAt = new Date(),
+): Readable {
+  if (format === "zip") {
+    return Readable.from(generateZip(files, modifiedAt));
+  }
+  const tar = Readable.from(generateTar(files, modifiedAt));
+  const gzip = zlib.createGzip();
+  tar.on("error", (error) => gzip.destroy(error));
+  return tar.pipe(gzip);
+}
@@ -20,3 +20,14 @@ export async function findLanguageModel(
 
   return models.find((m) => m.apiName === model.name);
 }
+
+/** Custom models carry no capability metadata and count as text-only. */
+export async function modelSupportsImageInput(
+  model: LargeLanguageModel,
+): Promise<boolean> {
+  const languageModel = await findLanguageModel(model);
+  return (
+    languageModel?.type !== "custom" &&
+    languageModel?.supportsImageInput === true
+  );
+}
@@ -16,7 +16,11 @@ import type {
 import { getEnvVar } from "./read_env";
 import { log } from "@/lib/logger";
 import { FREE_OPENROUTER_MODEL_NAMES } from "../shared/language_model_constants";
-import { getLanguageModelProviders } from "../shared/language_model_helpers";
+import {
+  getLanguageModelProviders,
+  getStoredProviderApiKey,
+  type LanguageModelProviderScope,
+} from "../shared/language_model_helpers";
 import { LanguageModelProvider } from "../ipc_types";
 import {
   createBlazeEngine,
@@ -144,13 +148,14 @@ const logger = log.scope("getModelClient");
 export async function getModelClient(
   model: LargeLanguageModel,
   settings: UserSettings,
+  scope?: LanguageModelProviderScope,
   // files?: File[],
 ): Promise<{
   modelClient: ModelClient;
   isEngineEnabled?: boolean;
   isSmartContextEnabled?: boolean;
 }> {
-  const allProviders = await getLanguageModelProviders();
+  const allProviders = await getLanguageModelProviders(scope);
 
   const blazeApiKey = settings.providerSettings?.auto?.apiKey?.value;
 
@@ -270,7 +275,11 @@ export async function getModelClient(
       isEngineEnabled: false,
     };
   }
-  return getRegularModelClient(model, settings, providerConfig);
+  const storedApiKey =
+    providerConfig.type === "custom"
+      ? await getStoredProviderApiKey(providerConfig.id)
+      : undefined;
+  return getRegularModelClient(model, settings, providerConfig, storedApiKey);
 }
 
 function getProModelClient({
@@ -292,6 +301,7 @@ function getRegularModelClient(
   model: LargeLanguageModel,
   settings: UserSettings,
   providerConfig: LanguageModelProvider,
+  storedApiKey?: string,
 ): {
   modelClient: ModelClient;
   backupModelClients: ModelClient[];
@@ -299,6 +309,7 @@ function getRegularModelClient(
   // Get API key for the specific provider
   const apiKey =
     settings.providerSettings?.[model.provider]?.apiKey?.value ||
+    storedApiKey ||
     (providerConfig.envVarName
       ? getEnvVar(providerConfig.envVarName)
       : undefined);
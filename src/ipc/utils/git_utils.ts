@@ -24,6 +24,7 @@ const logger = log.scope("git_utils");
 import type {
   GitBaseParams,
   GitFileParams,
+  GitFilesParams,
   GitCheckoutParams,
   GitBranchRenameParams,
   GitCloneParams,
@@ -32,14 +33,22 @@ import type {
   GitFileAtCommitParams,
   GitSetRemoteUrlParams,
   GitStageToRevertParams,
+  GitResetHardParams,
   GitInitParams,
   GitPushParams,
   GitCommit,
   GitFetchParams,
   GitPullParams,
+  GitRemoteParams,
+  GitAheadBehindParams,
   GitMergeParams,
   GitCreateBranchParams,
   GitDeleteBranchParams,
+  GitSwitchBranchParams,
+  GitDiffParams,
+  GitChangedFile,
+  GitTreeParams,
+  GitTreeFile,
 } from "/src/ipc/git_types.ts";
 
 const GIT_WORKDIR_MISSING_MESSAGE =
@@ -137,6 +146,27 @@ export async function withGitAuthor(args: string[]): Promise<string[]> {
   ];
 }
 
+/**
+ * Prepends git config args that authenticate native git with an access
+ * token, the same way `onAuth` does for isomorphic-git. Stored credential
+ * helpers are disabled so a missing or wrong token fails instead of prompting.
+ */
+function withAccessToken(args: string[], accessToken?: string): string[] {
+  if (!accessToken) {
+    return ["-c", "credential.helper=", ...args];
+  }
+  const basic = Buffer.from(`${accessToken}:x-oauth-basic`).toString("base64");
+  return [
+    "-c",
+    "credential.helper=",
+    "-c",
+    `http.extraHeader=Authorization: Basic ${basic}`,
+    ...args,
+  ];
+}
+
+const NO_TERMINAL_PROMPT_ENV = { GIT_TERMINAL_PROMPT: "0" };
+
 /**
  * Adds a directory to git's global safe.directory list.
  * This is required on Windows when git operations are performed on directories
@@ -420,6 +450,61 @@ export async function gitReset({ path }: GitBaseParams): Promise<void> {
   }
 }
 
+/**
+ * Resets the index entries of the given files to HEAD, keeping the working
+ * directory as it is. Files missing from HEAD are dropped from the index.
+ */
+export async function gitResetFiles({
+  path,
+  filepaths,
+}: GitFilesParams): Promise<void> {
+  if (filepaths.length === 0) {
+    return;
+  }
+  const settings = readSettings();
+  if (settings.enableNativeGit) {
+    await execOrThrow(
+      ["reset", "-q", "HEAD", "--", ...filepaths],
+      path,
+      "Failed to reset staged files",
+    );
+  } else {
+    for (const filepath of filepaths) {
+      await git.resetIndex({ fs, dir: path, filepath });
+    }
+  }
+}
+
+/**
+ * Moves the current branch (or a detached HEAD) to `targetOid` and makes the
+ * index and tracked files match it. Untracked files are left alone.
+ */
+export async function gitResetHard({
+  path,
+  targetOid,
+}: GitResetHardParams): Promise<void> {
+  const settings = readSettings();
+  if (settings.enableNativeGit) {
+    await execOrThrow(
+      ["reset", "-q", "--hard", targetOid],
+      path,
+      `Failed to reset to commit '${targetOid}'`,
+    );
+    return;
+  }
+  const branch = await git.currentBranch({ fs, dir: path });
+  if (branch) {
+    await git.writeRef({
+      fs,
+      dir: path,
+      ref: `refs/heads/${branch}`,
+      value: targetOid,
+      force: true,
+    });
+  }
+  await git.checkout({ fs, dir: path, ref: branch ?? targetOid, force: true });
+}
+
 export async function gitInit({
   path,
   ref = "main",
@@ -608,23 +693,143 @@ export async function getFileAtCommit({
   }
 }
 
+/** Like `getFileAtCommit`, but keeps binary contents intact. */
+export async function getFileBufferAtCommit({
+  path,
+  filePath,
+  commitHash,
+}: GitFileAtCommitParams): Promise<Buffer | null> {
+  const settings = readSettings();
+  if (settings.enableNativeGit) {
+    const result = await exec(["show", `${commitHash}:${filePath}`], path, {
+      encoding: "buffer",
+    });
+    return result.exitCode === 0 ? result.stdout : null;
+  }
+  try {
+    const { blob } = await git.readBlob({
+      fs,
+      dir: path,
+      oid: commitHash,
+      filepath: filePath,
+    });
+    return Buffer.from(blob);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Files of a commit with their sizes. Symlinks and submodules are left out.
+ */
+export async function gitListTreeFiles({
+  path,
+  ref,
+}: GitTreeParams): Promise<GitTreeFile[]> {
+  const settings = readSettings();
+  if (settings.enableNativeGit) {
+    const result = await exec(["ls-tree", "-r", "-l", "-z", ref], path);
+    if (result.exitCode !== 0) {
+      throw new Error(
+        `Failed to list files of ${ref}: ${result.stderr.trim() || result.stdout.trim()}`,
+      );
+    }
+    // Parse output:
+    // e.g. "100644 blob <oid>     120\tsrc/App.tsx\0"
+    return result.stdout
+      .split("\0")
+      .filter((line) => line.length)
+      .flatMap((line) => {
+        const tabIndex = line.indexOf("\t");
+        const [mode, type, , size] = line.slice(0, tabIndex).split(/\s+/);
+        if (type !== "blob" || mode === "120000") {
+          return [];
+        }
+        return [
+          {
+            path: line.slice(tabIndex + 1),
+            size: Number(size),
+            executable: mode === "100755",
+          },
+        ];
+      });
+  }
+
+  const files: GitTreeFile[] = [];
+  await git.walk({
+    fs,
+    dir: path,
+    trees: [git.TREE({ ref })],
+    map: async (filepath, [entry]) => {
+      if (filepath === "." || !entry) {
+        return true;
+      }
+      const type = await entry.type();
+      if (type === "tree") {
+        return true;
+      }
+      const mode = await entry.mode();
+      if (type !== "blob" || mode === 0o120000) {
+        return null;
+      }
+      const content = await entry.content();
+      files.push({
+        path: filepath,
+        size: content?.length ?? 0,
+        executable: (mode & 0o111) !== 0,
+      });
+      return null;
+    },
+  });
+  return files;
+}
+
+/** Tracked and untracked files of the working tree that are not ignored. */
+export async function gitListWorkingTreeFiles({
+  path,
+}: GitBaseParams): Promise<string[]> {
+  const settings = readSettings();
+  if (settings.enableNativeGit) {
+    const result = await exec(
+      ["ls-files", "-z", "--cached", "--others", "--exclude-standard"],
+      path,
+    );
+    if (result.exitCode !== 0) {
+      throw new Error(
+        `Failed to list files: ${result.stderr.trim() || result.stdout.trim()}`,
+      );
+    }
+    return [
+      ...new Set(result.stdout.split("\0").filter((file) => file.length)),
+    ];
+  }
+  const matrix = await git.statusMatrix({ fs, dir: path });
+  return matrix
+    .filter(([, , workdirStatus]) => workdirStatus !== 0)
+    .map(([filepath]) => filepath);
+}
+
 export async function gitListBranches({
   path,
 }: GitBaseParams): Promise<string[]> {
   const settings = readSettings();
 
   if (settings.enableNativeGit) {
-    const result = await exec(["branch", "--list"], path);
+    // The format skips the "(HEAD detached at ...)" line of `git branch`
+    const result = await exec(
+      ["branch", "--list", "--format=%(refname:short)"],
+      path,
+    );
 
     if (result.exitCode !== 0) {
       throw new Error(result.stderr.toString());
     }
     // Parse output:
-    // e.g. "* main\n  feature/login"
+    // e.g. "main\nfeature/login"
     return result.stdout
       .toString()
       .split("\n")
-      .map((line) => line.replace("*", "").trim())
+      .map((line) => line.trim())
       .filter((line) => line.length > 0);
   } else {
     return await git.listBranches({
@@ -837,13 +1042,17 @@ export async function gitPush({
 
   if (settings.enableNativeGit) {
     try {
-      const args = ["push", "origin", `${targetBranch}:${targetBranch}`];
+      const args = ["push"];
       if (forceWithLease) {
         args.push("--force-with-lease");
       } else if (force) {
         args.push("--force");
       }
-      const result = await exec(args, path);
+      // `--` keeps a branch name from being read as an option.
+      args.push("--", "origin", `${targetBranch}:${targetBranch}`);
+      const result = await exec(withAccessToken(args, accessToken), path, {
+        env: NO_TERMINAL_PROMPT_ENV,
+      });
       if (result.exitCode !== 0) {
         const errorMsg = result.stderr.toString() || result.stdout.toString();
         throw new Error(`Git push failed: ${errorMsg}`);
@@ -977,17 +1186,19 @@ export async function gitCurrentBranch({
 export async function gitLog({
   path,
   depth = 100_000,
+  filepath,
 }: GitLogParams): Promise<GitCommit[]> {
   const settings = readSettings();
 
   if (settings.enableNativeGit) {
-    return await gitLogNative(path, depth);
+    return await gitLogNative(path, depth, filepath);
   } else {
     // isomorphic-git fallback: this already returns the same structure
     return await git.log({
       fs,
       dir: path,
       depth,
+      ...(filepath ? { filepath, follow: true } : {}),
     });
   }
 }
@@ -1024,6 +1235,7 @@ export async function gitIsIgnored({
 export async function gitLogNative(
   path: string,
   depth = 100_000,
+  filepath?: string,
 ): Promise<GitCommit[]> {
   // Use git log with custom format to get all data in a single process
   // Format: %H = commit hash, %at = author timestamp (unix), %B = raw body (message)
@@ -1033,7 +1245,9 @@ export async function gitLogNative(
     "--max-count",
     String(depth),
     "--format=%H%x00%at%x00%B%x00---END-COMMIT---",
+    ...(filepath ? ["--follow"] : []),
     "HEAD",
+    ...(filepath ? ["--", filepath] : []),
   ];
 
   const logResult = await exec(logArgs, path);
@@ -1075,6 +1289,99 @@ export async function gitLogNative(
   return entries;
 }
 
+/**
+ * Files that differ between two commits. Native git detects renames;
+ * isomorphic-git reports them as a delete and an add.
+ */
+export async function gitDiffFiles({
+  path,
+  from,
+  to,
+  filepath,
+}: GitDiffParams): Promise<GitChangedFile[]> {
+  const settings = readSettings();
+  if (settings.enableNativeGit) {
+    const result = await exec(
+      [
+        "diff",
+        "--name-status",
+        "-M",
+        "-z",
+        from,
+        to,
+        ...(filepath ? ["--", filepath] : []),
+      ],
+      path,
+    );
+    if (result.exitCode !== 0) {
+      throw new Error(
+        `Failed to diff ${from} and ${to}: ${result.stderr.trim() || result.stdout.trim()}`,
+      );
+    }
+    // Parse output:
+    // e.g. "M\0src/App.tsx\0R087\0src/a.ts\0src/b.ts\0"
+    const fields = result.stdout.split("\0").filter((field) => field.length);
+    const files: GitChangedFile[] = [];
+    for (let index = 0; index < fields.length; ) {
+      const code = fields[index][0];
+      if (code === "R" || code === "C") {
+        files.push({
+          status: code === "R" ? "renamed" : "added",
+          path: fields[index + 2],
+          ...(code === "R" ? { fromPath: fields[index + 1] } : {}),
+        });
+        index += 3;
+        continue;
+      }
+      files.push({
+        status: code === "A" ? "added" : code === "D" ? "deleted" : "modified",
+        path: fields[index + 1],
+      });
+      index += 2;
+    }
+    return files;
+  }
+
+  const files: GitChangedFile[] = [];
+  await git.walk({
+    fs,
+    dir: path,
+    trees: [git.TREE({ ref: from }), git.TREE({ ref: to })],
+    map: async (filepathInTree, [before, after]) => {
+      if (filepathInTree === ".") {
+        return true;
+      }
+      if (
+        filepath &&
+        filepathInTree !== filepath &&
+        !filepath.startsWith(`${filepathInTree}/`)
+      ) {
+        return null;
+      }
+      const [beforeType, afterType] = await Promise.all([
+        before?.type(),
+        after?.type(),
+      ]);
+      if (beforeType === "tree" || afterType === "tree") {
+        return true;
+      }
+      const [beforeOid, afterOid] = await Promise.all([
+        beforeType === "blob" ? before?.oid() : undefined,
+        afterType === "blob" ? after?.oid() : undefined,
+      ]);
+      if (beforeOid === afterOid) {
+        return null;
+      }
+      files.push({
+        status: !beforeOid ? "added" : !afterOid ? "deleted" : "modified",
+        path: filepathInTree,
+      });
+      return null;
+    },
+  });
+  return files.sort((a, b) => a.path.localeCompare(b.path));
+}
+
 export async function gitFetch({
   path,
   remote = "origin",
@@ -1082,7 +1389,16 @@ export async function gitFetch({
 }: GitFetchParams): Promise<void> {
   const settings = readSettings();
   if (settings.enableNativeGit) {
-    await execOrThrow(["fetch", remote], path, "Failed to fetch from remote");
+    const result = await exec(
+      withAccessToken(["fetch", remote], accessToken),
+      path,
+      { env: NO_TERMINAL_PROMPT_ENV },
+    );
+    if (result.exitCode !== 0) {
+      throw new Error(
+        `Failed to fetch from remote. ${result.stderr.trim() || result.stdout.trim()}`,
+      );
+    }
   } else {
     await git.fetch({
       fs,
@@ -1099,6 +1415,80 @@ export async function gitFetch({
   }
 }
 
+export async function gitGetRemoteUrl({
+  path,
+  remote = "origin",
+}: GitRemoteParams): Promise<string | null> {
+  const settings = readSettings();
+  if (settings.enableNativeGit) {
+    const result = await exec(["remote", "get-url", remote], path);
+    // Exit code 2 means the remote does not exist
+    if (result.exitCode === 2) {
+      return null;
+    }
+    if (result.exitCode !== 0) {
+      throw new Error(
+        `Failed to read remote URL: ${result.stderr.trim() || result.stdout.trim()}`,
+      );
+    }
+    return result.stdout.trim() || null;
+  }
+  const url = await git.getConfig({
+    fs,
+    dir: path,
+    path: `remote.${remote}.url`,
+  });
+  return typeof url === "string" && url.length > 0 ? url : null;
+}
+
+/**
+ * Counts commits of the local branch missing from its remote-tracking branch
+ * (`ahead`) and the other way round (`behind`), as of the last fetch. Without
+ * a remote-tracking branch every local commit is ahead.
+ */
+export async function gitAheadBehind({
+  path,
+  remote = "origin",
+  branch,
+}: GitAheadBehindParams): Promise<{ ahead: number; behind: number }> {
+  const remoteRef = `refs/remotes/${remote}/${branch}`;
+  const settings = readSettings();
+  if (settings.enableNativeGit) {
+    const hasRemoteRef =
+      (await exec(["rev-parse", "--verify", "--quiet", remoteRef], path))
+        .exitCode === 0;
+    const args = hasRemoteRef
+      ? ["rev-list", "--left-right", "--count", `${branch}...${remoteRef}`]
+      : ["rev-list", "--count", branch];
+    const result = await exec(args, path);
+    if (result.exitCode !== 0) {
+      throw new Error(
+        `Failed to compare with ${remote}/${branch}: ${result.stderr.trim()}`,
+      );
+    }
+    const [ahead, behind = 0] = result.stdout.trim().split(/\s+/).map(Number);
+    return { ahead, behind };
+  }
+
+  const listOids = async (ref: string) => {
+    try {
+      const commits = await git.log({ fs, dir: path, ref });
+      return new Set(commits.map((commit) => commit.oid));
+    } catch (error: any) {
+      if (error?.code === "NotFoundError") {
+        return new Set<string>();
+      }
+      throw error;
+    }
+  };
+  const local = await listOids(branch);
+  const tracked = await listOids(remoteRef);
+  return {
+    ahead: [...local].filter((oid) => !tracked.has(oid)).length,
+    behind: [...tracked].filter((oid) => !local.has(oid)).length,
+  };
+}
+
 // Custom error function for git conflicts
 export function GitConflictError(message: string): Error {
   const error = new Error(message);
@@ -1118,6 +1508,8 @@ export function GitStateError(message: string, code: string): Error {
 export const GIT_ERROR_CODES = {
   MERGE_IN_PROGRESS: "MERGE_IN_PROGRESS",
   REBASE_IN_PROGRESS: "REBASE_IN_PROGRESS",
+  UNCOMMITTED_CHANGES: "UNCOMMITTED_CHANGES",
+  BRANCH_MISMATCH: "BRANCH_MISMATCH",
 } as const;
 
 function hasGitConflictState({ path }: GitBaseParams): boolean {
@@ -1135,16 +1527,21 @@ export async function gitPull({
   if (settings.enableNativeGit) {
     // Use withGitAuthor since pull may need to create merge commits
     // and requires user.name and user.email
-    const pullArgs = await withGitAuthor([
-      "-c",
-      "credential.helper=",
-      "pull",
-      "--rebase=false",
-      remote,
-      branch,
-    ]);
+    const pullArgs = await withGitAuthor(
+      withAccessToken(
+        ["pull", "--rebase=false", "--", remote, branch],
+        accessToken,
+      ),
+    );
     try {
-      await execOrThrow(pullArgs, path, "Failed to pull from remote");
+      const result = await exec(pullArgs, path, {
+        env: NO_TERMINAL_PROMPT_ENV,
+      });
+      if (result.exitCode !== 0) {
+        throw new Error(
+          `Failed to pull from remote. ${result.stderr.trim() || result.stdout.trim()}`,
+        );
+      }
     } catch (error: any) {
       // Check git state files to detect conflicts instead of parsing error messages
       if (hasGitConflictState({ path })) {
@@ -1287,6 +1684,59 @@ export async function gitDeleteBranch({
   }
 }
 
+/**
+ * Checks out `branch` unless it is already current. Refuses to switch while a
+ * merge or rebase is in progress or the working tree has changes, so no work
+ * is carried over to the other branch.
+ */
+export async function gitSwitchBranch({
+  path,
+  branch,
+}: GitSwitchBranchParams): Promise<void> {
+  if ((await gitCurrentBranch({ path })) === branch) {
+    return;
+  }
+  if (isGitMergeInProgress({ path })) {
+    throw GitStateError(
+      `Cannot switch to branch ${branch} while a merge is in progress`,
+      GIT_ERROR_CODES.MERGE_IN_PROGRESS,
+    );
+  }
+  if (isGitRebaseInProgress({ path })) {
+    throw GitStateError(
+      `Cannot switch to branch ${branch} while a rebase is in progress`,
+      GIT_ERROR_CODES.REBASE_IN_PROGRESS,
+    );
+  }
+  if (!(await isGitStatusClean({ path }))) {
+    throw GitStateError(
+      `Cannot switch to branch ${branch} with uncommitted changes`,
+      GIT_ERROR_CODES.UNCOMMITTED_CHANGES,
+    );
+  }
+  await gitCheckout({ path, ref: branch });
+}
+
+/**
+ * Throws unless `branch` is checked out. All chats of an app share one working
+ * tree, so work bound to a branch never switches to it on its own.
+ */
+export async function assertGitBranchCheckedOut({
+  path,
+  branch,
+}: GitSwitchBranchParams): Promise<void> {
+  const currentBranch = await gitCurrentBranch({ path });
+  if (currentBranch === branch) {
+    return;
+  }
+  throw GitStateError(
+    `This chat works on branch ${branch}, but the app is on ${
+      currentBranch ? `branch ${currentBranch}` : "a detached HEAD"
+    }. Switch the app to branch ${branch} first.`,
+    GIT_ERROR_CODES.BRANCH_MISMATCH,
+  );
+}
+
 export async function gitGetMergeConflicts({
   path,
 }: GitBaseParams): Promise<string[]> {
@@ -1,5 +1,6 @@
 import { log } from "/src/lib/logger.ts";
 import { extractActionableBlazeTags } from "/src/ipc/utils/actionable_blaze_tags.ts";
+import type { ApplyActionReport } from "/src/lib/schemas.ts";
 
 const logger = log.scope("manual_apply_self_heal");
 
@@ -23,6 +24,8 @@ export type ApplyProcessResult = {
   error?: string;
   extraFiles?: string[];
   extraFilesError?: string;
+  /** Outcome of every file action, also saved on the message. */
+  actionReports?: ApplyActionReport[];
 };
 
 export type ManualApplyAttemptStrategy =
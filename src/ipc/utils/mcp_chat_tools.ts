@@ -0,0 +1,251 @@
+import type { MCPClient } from "@ai-sdk/mcp";
+import type { ToolExecutionOptions, ToolSet } from "ai";
+import { and, eq } from "drizzle-orm";
+import { db } from "/src/db/index.ts";
+import { mcpServers } from "/src/db/schema.ts";
+import { isMcpStdioTransportEnabled } from "/src/http/feature_flags.ts";
+import { log } from "/src/lib/logger.ts";
+import { requireMcpToolConsent } from "/src/ipc/utils/mcp_consent.ts";
+import { mcpManager } from "/src/ipc/utils/mcp_manager.ts";
+import {
+  buildMcpToolKey,
+  parseMcpToolKey,
+  sanitizeMcpName,
+} from "/src/ipc/utils/mcp_tool_utils.ts";
+import { safeSend } from "/src/ipc/utils/safe_sender.ts";
+import type { ServerEventSink } from "/src/ipc/utils/server_event_sink.ts";
+
+const logger = log.scope("mcp_chat_tools");
+
+export const MCP_TOOL_CALL_TIMEOUT_MS = 30_000;
+export const MCP_MAX_TOOL_CALLS_PER_TURN = 10;
+const MCP_INPUT_PREVIEW_MAX_CHARS = 500;
+const MCP_TOOL_OUTPUT_MAX_CHARS = 4000;
+
+/** Server-side event the chat transports turn into audit entries. */
+export const MCP_TOOL_CALL_EVENT = "mcp:tool-call";
+
+export type McpToolCallStatus =
+  | "success"
+  | "error"
+  | "timeout"
+  | "declined"
+  | "limit_reached";
+
+export interface McpToolCallReport {
+  chatId: number;
+  serverId: number;
+  serverName: string;
+  toolName: string;
+  status: McpToolCallStatus;
+  durationMs: number;
+  error?: string;
+}
+
+class McpToolCallTimeoutError extends Error {
+  constructor(toolName: string, timeoutMs: number) {
+    super(`MCP tool ${toolName} timed out after ${timeoutMs}ms`);
+    this.name = "McpToolCallTimeoutError";
+  }
+}
+
+function buildInputPreview(input: unknown): string {
+  const serialized =
+    typeof input === "string" ? input : (JSON.stringify(input) ?? "");
+  return serialized.slice(0, MCP_INPUT_PREVIEW_MAX_CHARS);
+}
+
+export function formatMcpToolOutput(output: unknown): string {
+  const content = (output as { content?: unknown } | null)?.content;
+  if (Array.isArray(content)) {
+    const texts = content
+      .filter(
+        (item): item is { type: "text"; text: string } =>
+          item?.type === "text" && typeof item.text === "string",
+      )
+      .map((item) => item.text);
+    if (texts.length > 0) {
+      return texts.join("\n");
+    }
+  }
+  if (typeof output === "string") {
+    return output;
+  }
+  return JSON.stringify(output, null, 2) ?? "";
+}
+
+/**
+ * Renders an MCP tool call or result as a chat block. Tool output is
+ * untrusted, so `<blaze` tags in it are neutralized with a look-alike
+ * character to keep them from forming action tags.
+ */
+export function buildMcpToolBlock(
+  tag: "blaze-mcp-tool-call" | "blaze-mcp-tool-result",
+  toolKey: string,
+  body: string,
+  isError = false,
+): string {
+  const { serverName, toolName } = parseMcpToolKey(toolKey);
+  const statusAttr = isError ? ' status="error"' : "";
+  const truncated =
+    body.length > MCP_TOOL_OUTPUT_MAX_CHARS
+      ? `${body.slice(0, MCP_TOOL_OUTPUT_MAX_CHARS)}\n...[truncated]`
+      : body;
+  const escaped = truncated
+    .replace(/<blaze/g, "＜blaze")
+    .replace(/<\/blaze/g, "＜/blaze");
+  return `\n<${tag} server="${serverName}" tool="${toolName}"${statusAttr}>\n${escaped}\n</${tag}>\n`;
+}
+
+async function executeWithTimeout(
+  run: (abortSignal: AbortSignal) => unknown,
+  params: { toolName: string; timeoutMs: number; abortSignal?: AbortSignal },
+): Promise<unknown> {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(params.abortSignal?.reason);
+  params.abortSignal?.addEventListener("abort", onAbort, { once: true });
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    return await Promise.race([
+      Promise.resolve(run(controller.signal)),
+      new Promise<never>((_resolve, reject) => {
+        timer = setTimeout(() => {
+          const error = new McpToolCallTimeoutError(
+            params.toolName,
+            params.timeoutMs,
+          );
+          controller.abort(error);
+          reject(error);
+        }, params.timeoutMs);
+      }),
+    ]);
+  } finally {
+    clearTimeout(timer);
+    params.abortSignal?.removeEventListener("abort", onAbort);
+  }
+}
+
+/**
+ * Builds the tool set of every enabled MCP server in the workspace. Each call
+ * asks for consent over the chat stream, is bounded by a timeout and counts
+ * against a per-turn limit. Servers that fail to connect are skipped so MCP
+ * problems never break the chat itself.
+ */
+export async function buildMcpChatToolSet(params: {
+  eventSink: ServerEventSink;
+  chatId: number;
+  organizationId: string;
+  workspaceId: string;
+  abortSignal: AbortSignal;
+  timeoutMs?: number;
+  maxToolCalls?: number;
+}): Promise<ToolSet> {
+  const timeoutMs = params.timeoutMs ?? MCP_TOOL_CALL_TIMEOUT_MS;
+  const maxToolCalls = params.maxToolCalls ?? MCP_MAX_TOOL_CALLS_PER_TURN;
+  const servers = await db
+    .select()
+    .from(mcpServers)
+    .where(
+      and(
+        eq(mcpServers.organizationId, params.organizationId),
+        eq(mcpServers.workspaceId, params.workspaceId),
+        eq(mcpServers.enabled, true),
+      ),
+    );
+
+  let toolCallCount = 0;
+  const toolSet: ToolSet = {};
+
+  for (const server of servers) {
+    if (server.transport === "stdio" && !isMcpStdioTransportEnabled()) {
+      continue;
+    }
+
+    let serverTools: Awaited<ReturnType<MCPClient["tools"]>>;
+    try {
+      const client = await mcpManager.getClient(server.id);
+      serverTools = await client.tools();
+    } catch (error) {
+      logger.warn(`Skipping MCP server ${server.id} for chat tools`, error);
+      mcpManager.dispose(server.id);
+      continue;
+    }
+
+    for (const [toolName, mcpTool] of Object.entries(serverTools)) {
+      const key = buildMcpToolKey(
+        sanitizeMcpName(server.name),
+        sanitizeMcpName(toolName),
+      );
+      const report = (
+        status: McpToolCallStatus,
+        startedAt: number,
+        error?: unknown,
+      ) => {
+        safeSend(params.eventSink, MCP_TOOL_CALL_EVENT, {
+          chatId: params.chatId,
+          serverId: server.id,
+          serverName: server.name,
+          toolName,
+          status,
+          durationMs: Date.now() - startedAt,
+          ...(error === undefined
+            ? {}
+            : {
+                error: error instanceof Error ? error.message : String(error),
+              }),
+        } satisfies McpToolCallReport);
+      };
+
+      toolSet[key] = {
+        ...mcpTool,
+        execute: async (input: unknown, options: ToolExecutionOptions) => {
+          const startedAt = Date.now();
+          if (toolCallCount >= maxToolCalls) {
+            report("limit_reached", startedAt);
+            throw new Error(
+              `MCP tool call limit reached (${maxToolCalls} per response)`,
+            );
+          }
+          toolCallCount += 1;
+
+          const allowed = await requireMcpToolConsent(params.eventSink, {
+            serverId: server.id,
+            serverName: server.name,
+            toolName,
+            toolDescription: mcpTool.description ?? null,
+            inputPreview: buildInputPreview(input),
+            chatId: params.chatId,
+            abortSignal: params.abortSignal,
+          });
+          if (!allowed) {
+            report("declined", startedAt);
+            throw new Error(`User declined running MCP tool ${toolName}`);
+          }
+
+          try {
+            const result = await executeWithTimeout(
+              (abortSignal) =>
+                mcpTool.execute(input, { ...options, abortSignal }),
+              {
+                toolName,
+                timeoutMs,
+                abortSignal: options.abortSignal ?? params.abortSignal,
+              },
+            );
+            report("success", startedAt);
+            return result;
+          } catch (error) {
+            report(
+              error instanceof McpToolCallTimeoutError ? "timeout" : "error",
+              startedAt,
+              error,
+            );
+            throw error;
+          }
+        },
+      };
+    }
+  }
+
+  return toolSet;
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { resolveConsent, waitForConsent } from "./mcp_consent";
+
+describe("mcp consent resolution", () => {
+  it("resolves a pending request once", async () => {
+    const decision = waitForConsent("req-1", { chatId: 7 });
+
+    expect(resolveConsent("req-1", "accept-once", { chatId: 7 })).toBe(true);
+    await expect(decision).resolves.toBe("accept-once");
+    expect(resolveConsent("req-1", "decline", { chatId: 7 })).toBe(false);
+  });
+
+  it("ignores responses for another chat", async () => {
+    const decision = waitForConsent("req-2", { chatId: 7 });
+
+    expect(resolveConsent("req-2", "accept-always", { chatId: 8 })).toBe(false);
+    expect(resolveConsent("req-2", "accept-always", { chatId: 7 })).toBe(true);
+    await expect(decision).resolves.toBe("accept-always");
+  });
+
+  it("declines when the stream is aborted", async () => {
+    const controller = new AbortController();
+    const decision = waitForConsent("req-3", {
+      chatId: 7,
+      abortSignal: controller.signal,
+    });
+
+    controller.abort();
+
+    await expect(decision).resolves.toBe("decline");
+    expect(resolveConsent("req-3", "accept-once")).toBe(false);
+  });
+});
@@ -7,28 +7,56 @@ import type { ServerEventSink } from "/src/ipc/utils/server_event_sink.ts";
 
 export type Consent = "ask" | "always" | "denied";
 
-const pendingConsentResolvers = new Map<
-  string,
-  (d: "accept-once" | "accept-always" | "decline") => void
->();
+export type ConsentDecision = "accept-once" | "accept-always" | "decline";
+
+interface PendingConsent {
+  chatId?: number;
+  resolve: (decision: ConsentDecision) => void;
+}
+
+const pendingConsentResolvers = new Map<string, PendingConsent>();
 
 export function waitForConsent(
   requestId: string,
-): Promise<"accept-once" | "accept-always" | "decline"> {
+  options?: { chatId?: number; abortSignal?: AbortSignal },
+): Promise<ConsentDecision> {
   return new Promise((resolve) => {
-    pendingConsentResolvers.set(requestId, resolve);
+    if (options?.abortSignal?.aborted) {
+      resolve("decline");
+      return;
+    }
+    // An aborted stream declines the call so the tool never waits forever.
+    const onAbort = () => resolveConsent(requestId, "decline");
+    options?.abortSignal?.addEventListener("abort", onAbort, { once: true });
+    pendingConsentResolvers.set(requestId, {
+      chatId: options?.chatId,
+      resolve: (decision) => {
+        options?.abortSignal?.removeEventListener("abort", onAbort);
+        resolve(decision);
+      },
+    });
   });
 }
 
+/**
+ * Resolves a pending consent request. When `chatId` is given the request must
+ * belong to that chat. Returns false when no matching request is pending.
+ */
 export function resolveConsent(
   requestId: string,
-  decision: "accept-once" | "accept-always" | "decline",
-) {
-  const resolver = pendingConsentResolvers.get(requestId);
-  if (resolver) {
-    pendingConsentResolvers.delete(requestId);
-    resolver(decision);
+  decision: ConsentDecision,
+  options?: { chatId?: number },
+): boolean {
+  const pending = pendingConsentResolvers.get(requestId);
+  if (!pending) {
+    return false;
   }
+  if (options?.chatId !== undefined && pending.chatId !== options.chatId) {
+    return false;
+  }
+  pendingConsentResolvers.delete(requestId);
+  pending.resolve(decision);
+  return true;
 }
 
 export async function getStoredConsent(
@@ -85,6 +113,8 @@ export async function requireMcpToolConsent(
     toolName: string;
     toolDescription?: string | null;
     inputPreview?: string | null;
+    chatId?: number;
+    abortSignal?: AbortSignal;
   },
 ): Promise<boolean> {
   const current = await getStoredConsent(params.serverId, params.toolName);
@@ -92,12 +122,16 @@ export async function requireMcpToolConsent(
   if (current === "denied") return false;
 
   // Ask renderer for a decision via event bridge
+  const { abortSignal, ...request } = params;
   const requestId = `${params.serverId}:${params.toolName}:${crypto.randomUUID()}`;
   safeSend(eventSink, "mcp:tool-consent-request", {
     requestId,
-    ...params,
+    ...request,
+  });
+  const response = await waitForConsent(requestId, {
+    chatId: params.chatId,
+    abortSignal,
   });
-  const response = await waitForConsent(requestId);
 
   if (response === "accept-always") {
     await setStoredConsent(params.serverId, params.toolName, "always");
@@ -0,0 +1,50 @@
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  decryptSecret,
+  encryptSecret,
+  isSecretEncryptionConfigured,
+} from "./secret_crypto";
+
+describe("secret_crypto", () => {
+  afterEach(() => {
+    delete process.env.BLAZE_SECRETS_KEY;
+  });
+
+  it("round-trips a secret without storing the plaintext", () => {
+    process.env.BLAZE_SECRETS_KEY = "test-secrets-key";
+    const encrypted = encryptSecret("sk-live-123");
+
+    expect(encrypted.startsWith("v1:")).toBe(true);
+    expect(encrypted).not.toContain("sk-live-123");
+    expect(decryptSecret(encrypted)).toBe("sk-live-123");
+  });
+
+  it("uses a fresh IV for every encryption", () => {
+    process.env.BLAZE_SECRETS_KEY = "test-secrets-key";
+
+    expect(encryptSecret("same")).not.toBe(encryptSecret("same"));
+  });
+
+  it("rejects ciphertext encrypted with another key", () => {
+    process.env.BLAZE_SECRETS_KEY = "first-key";
+    const encrypted = encryptSecret("sk-live-123");
+    process.env.BLAZE_SECRETS_KEY = "second-key";
+
+    expect(() => decryptSecret(encrypted)).toThrow();
+  });
+
+  it("refuses to encrypt when no secrets key is configured", () => {
+    expect(isSecretEncryptionConfigured()).toBe(false);
+    expect(() => encryptSecret("sk-live-123")).toThrow(
+      "BLAZE_SECRETS_KEY is not configured",
+    );
+  });
+
+  it("rejects unknown payload formats", () => {
+    process.env.BLAZE_SECRETS_KEY = "test-secrets-key";
+
+    expect(() => decryptSecret("plain-text-key")).toThrow(
+      "Unsupported encrypted secret format",
+    );
+  });
+});
@@ -0,0 +1,76 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  randomBytes,
+} from "node:crypto";
+import { getEnvVar } from "/src/ipc/utils/read_env.ts";
+
+const SECRETS_KEY_ENV_VAR = "BLAZE_SECRETS_KEY";
+const SECRET_FORMAT_VERSION = "v1";
+const IV_LENGTH_BYTES = 12;
+
+function readConfig(name: string): string | undefined {
+  return process.env[name] ?? getEnvVar(name);
+}
+
+function resolveSecretsKey(): Buffer | null {
+  const raw = readConfig(SECRETS_KEY_ENV_VAR)?.trim();
+  if (!raw) {
+    return null;
+  }
+  // Any passphrase works; hashing normalizes it to an AES-256 key.
+  return createHash("sha256").update(raw, "utf8").digest();
+}
+
+export function isSecretEncryptionConfigured(): boolean {
+  return resolveSecretsKey() !== null;
+}
+
+/**
+ * Encrypts a secret with AES-256-GCM using `BLAZE_SECRETS_KEY`.
+ * Output format: `v1:<iv>:<auth tag>:<ciphertext>` (base64 parts).
+ */
+export function encryptSecret(plaintext: string): string {
+  const key = resolveSecretsKey();
+  if (!key) {
+    throw new Error(`${SECRETS_KEY_ENV_VAR} is not configured`);
+  }
+
+  const iv = randomBytes(IV_LENGTH_BYTES);
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  const ciphertext = Buffer.concat([
+    cipher.update(plaintext, "utf8"),
+    cipher.final(),
+  ]);
+  return [
+    SECRET_FORMAT_VERSION,
+    iv.toString("base64"),
+    cipher.getAuthTag().toString("base64"),
+    ciphertext.toString("base64"),
+  ].join(":");
+}
+
+export function decryptSecret(payload: string): string {
+  const key = resolveSecretsKey();
+  if (!key) {
+    throw new Error(`${SECRETS_KEY_ENV_VAR} is not configured`);
+  }
+
+  const parts = payload.split(":");
+  if (parts.length !== 4 || parts[0] !== SECRET_FORMAT_VERSION) {
+    throw new Error("Unsupported encrypted secret format");
+  }
+
+  const [, ivBase64, tagBase64, ciphertextBase64] = parts;
+  const decipher = createDecipheriv(
+    "aes-256-gcm",
+    key,
+    Buffer.from(ivBase64, "base64"),
+  );
+  decipher.setAuthTag(Buffer.from(tagBase64, "base64"));
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertextBase64, "base64")),
+    decipher.final(),
+  ]).toString("utf8");
+}
@@ -0,0 +1,84 @@
+import type { LanguageModelUsage } from "ai";
+import { describe, expect, it } from "vitest";
+import {
+  addLanguageModelUsage,
+  computeTokenCostMicroUsd,
+  createEmptyTokenUsage,
+} from "./token_cost";
+
+function createUsage(
+  inputTokens: number,
+  outputTokens: number,
+  cacheReadTokens?: number,
+): LanguageModelUsage {
+  return {
+    inputTokens,
+    outputTokens,
+    totalTokens: inputTokens + outputTokens,
+    inputTokenDetails: {
+      noCacheTokens: undefined,
+      cacheReadTokens,
+      cacheWriteTokens: undefined,
+    },
+    outputTokenDetails: {
+      textTokens: undefined,
+      reasoningTokens: undefined,
+    },
+  };
+}
+
+describe("addLanguageModelUsage", () => {
+  it("sums input, output and cached tokens across model calls", () => {
+    const first = addLanguageModelUsage(
+      createEmptyTokenUsage(),
+      createUsage(1000, 200, 600),
+    );
+    const total = addLanguageModelUsage(first, createUsage(1500, 300));
+
+    expect(total).toEqual({
+      inputTokens: 2500,
+      outputTokens: 500,
+      cachedInputTokens: 600,
+    });
+    expect(addLanguageModelUsage(total, undefined)).toBe(total);
+  });
+});
+
+describe("computeTokenCostMicroUsd", () => {
+  const usage = {
+    inputTokens: 10_000,
+    outputTokens: 2_000,
+    cachedInputTokens: 4_000,
+  };
+
+  it("prices cached input separately from fresh input", () => {
+    expect(
+      computeTokenCostMicroUsd(usage, {
+        inputPricePerMillionTokens: 1.25,
+        outputPricePerMillionTokens: 10,
+        cachedInputPricePerMillionTokens: 0.125,
+      }),
+    ).toBe(6_000 * 1.25 + 4_000 * 0.125 + 2_000 * 10);
+  });
+
+  it("falls back to the input price for cached tokens", () => {
+    expect(
+      computeTokenCostMicroUsd(usage, {
+        inputPricePerMillionTokens: 3,
+        outputPricePerMillionTokens: 15,
+        cachedInputPricePerMillionTokens: null,
+      }),
+    ).toBe(10_000 * 3 + 2_000 * 15);
+  });
+
+  it("returns null for models without prices", () => {
+    expect(computeTokenCostMicroUsd(usage, null)).toBeNull();
+    expect(
+      computeTokenCostMicroUsd(usage, {
+        inputPricePerMillionTokens: null,
+        outputPricePerMillionTokens: null,
+        cachedInputPricePerMillionTokens: 0.1,
+      }),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,98 @@
+import type { LanguageModelUsage } from "ai";
+import { and, eq, or } from "drizzle-orm";
+import { db } from "/src/db/index.ts";
+import { language_models } from "/src/db/schema.ts";
+
+export interface TokenUsageBreakdown {
+  inputTokens: number;
+  outputTokens: number;
+  /** Part of `inputTokens` that was served from the provider cache. */
+  cachedInputTokens: number;
+}
+
+export interface ModelTokenPrices {
+  inputPricePerMillionTokens: number | null;
+  outputPricePerMillionTokens: number | null;
+  cachedInputPricePerMillionTokens: number | null;
+}
+
+export function createEmptyTokenUsage(): TokenUsageBreakdown {
+  return { inputTokens: 0, outputTokens: 0, cachedInputTokens: 0 };
+}
+
+export function addLanguageModelUsage(
+  total: TokenUsageBreakdown,
+  usage: LanguageModelUsage | undefined,
+): TokenUsageBreakdown {
+  if (!usage) {
+    return total;
+  }
+  return {
+    inputTokens: total.inputTokens + (usage.inputTokens ?? 0),
+    outputTokens: total.outputTokens + (usage.outputTokens ?? 0),
+    cachedInputTokens:
+      total.cachedInputTokens + (usage.inputTokenDetails?.cacheReadTokens ?? 0),
+  };
+}
+
+/**
+ * Prices are USD per million tokens, so a token costs exactly `price`
+ * micro-dollars. Returns null when the model has no prices configured.
+ */
+export function computeTokenCostMicroUsd(
+  usage: TokenUsageBreakdown,
+  prices: ModelTokenPrices | null,
+): number | null {
+  if (
+    !prices ||
+    (prices.inputPricePerMillionTokens === null &&
+      prices.outputPricePerMillionTokens === null)
+  ) {
+    return null;
+  }
+  const inputPrice = prices.inputPricePerMillionTokens ?? 0;
+  const cachedInputPrice =
+    prices.cachedInputPricePerMillionTokens ?? inputPrice;
+  const cachedInputTokens = Math.min(
+    usage.cachedInputTokens,
+    usage.inputTokens,
+  );
+  return Math.round(
+    (usage.inputTokens - cachedInputTokens) * inputPrice +
+      cachedInputTokens * cachedInputPrice +
+      usage.outputTokens * (prices.outputPricePerMillionTokens ?? 0),
+  );
+}
+
+/** Looks up the price table of a model configured for the workspace. */
+export async function getModelTokenPrices(params: {
+  organizationId: string | null;
+  workspaceId: string | null;
+  provider: string;
+  apiName: string;
+}): Promise<ModelTokenPrices | null> {
+  if (!params.organizationId || !params.workspaceId) {
+    return null;
+  }
+  const [row] = await db
+    .select({
+      inputPricePerMillionTokens: language_models.inputPricePerMillionTokens,
+      outputPricePerMillionTokens: language_models.outputPricePerMillionTokens,
+      cachedInputPricePerMillionTokens:
+        language_models.cachedInputPricePerMillionTokens,
+    })
+    .from(language_models)
+    .where(
+      and(
+        eq(language_models.organizationId, params.organizationId),
+        eq(language_models.workspaceId, params.workspaceId),
+        eq(language_models.apiName, params.apiName),
+        or(
+          eq(language_models.builtinProviderId, params.provider),
+          eq(language_models.customProviderId, params.provider),
+        ),
+      ),
+    )
+    .limit(1);
+  return row ?? null;
+}
@@ -1,4 +1,5 @@
 import {
+  AUTH_SESSION_TOKEN_STORAGE_KEY,
   AUTH_TOKEN_STORAGE_KEY,
   DEV_USER_EMAIL_STORAGE_KEY,
   DEV_USER_NAME_STORAGE_KEY,
@@ -7,6 +8,7 @@ import {
 
 const AUTH_STORAGE_KEYS = [
   AUTH_TOKEN_STORAGE_KEY,
+  AUTH_SESSION_TOKEN_STORAGE_KEY,
   DEV_USER_SUB_STORAGE_KEY,
   DEV_USER_EMAIL_STORAGE_KEY,
   DEV_USER_NAME_STORAGE_KEY,
@@ -33,6 +35,18 @@ export function hasStoredAuthContext(
   return AUTH_STORAGE_KEYS.some((key) => hasNonEmptyValue(targetStorage, key));
 }
 
+export function getStoredAuthSessionToken(
+  storage?: Pick<Storage, "getItem"> | null,
+): string | null {
+  const targetStorage =
+    storage ?? (typeof window !== "undefined" ? window.localStorage : null);
+  if (!targetStorage || typeof targetStorage.getItem !== "function") {
+    return null;
+  }
+
+  return targetStorage.getItem(AUTH_SESSION_TOKEN_STORAGE_KEY)?.trim() || null;
+}
+
 export function clearStoredAuthContext(
   storage?: Pick<Storage, "removeItem"> | null,
 ) {
@@ -16,7 +16,9 @@ export interface OAuth2PublicConfig {
 export interface OAuth2TokenExchangeResult {
   accessToken: string | null;
   idToken: string | null;
-  refreshToken: string | null;
+  /** Opaque handle of the server-side session that keeps the refresh token. */
+  sessionToken: string | null;
+  sessionExpiresAt: string | null;
   tokenType: string | null;
   expiresIn: number | null;
   scope: string | null;
@@ -145,7 +145,7 @@ export type RegularProviderSetting = z.infer<
 export type AzureProviderSetting = z.infer<typeof AzureProviderSettingSchema>;
 export type VertexProviderSetting = z.infer<typeof VertexProviderSettingSchema>;
 
-export const ChatModeSchema = z.enum(["build", "ask"]);
+export const ChatModeSchema = z.enum(["build", "ask", "agent"]);
 export type ChatMode = z.infer<typeof ChatModeSchema>;
 
 export const GlobPathSchema = z.object({
@@ -266,12 +266,82 @@ export interface FileChange {
   type: "write" | "rename" | "delete";
 }
 
+export interface ProposalDiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: { type: "context" | "add" | "remove"; text: string }[];
+}
+
+export interface ProposalFileDiff {
+  /** Position of the action in the message, e.g. `action-2`. */
+  actionId: string;
+  type: "write" | "search-replace" | "patch" | "rename" | "delete";
+  path: string;
+  /** Source path of a rename. */
+  fromPath?: string;
+  status: "added" | "modified" | "deleted" | "renamed" | "unchanged";
+  hunks: ProposalDiffHunk[];
+  /** Set when the action would fail to apply to the current files. */
+  error?: string;
+}
+
+export interface VersionFileDiff {
+  path: string;
+  /** Source path of a rename. */
+  fromPath?: string;
+  status: "added" | "modified" | "deleted" | "renamed";
+  additions: number;
+  deletions: number;
+  /** Binary files come without hunks. */
+  binary: boolean;
+  hunks: ProposalDiffHunk[];
+}
+
+/** Changes between two versions (commits) of an app. */
+export interface VersionDiff {
+  from: string;
+  to: string;
+  files: VersionFileDiff[];
+  stats: { filesChanged: number; additions: number; deletions: number };
+}
+
+/** A file change of a proposal, as recorded by a (partial) approval. */
+export interface ProposalReviewAction {
+  actionId: string;
+  type: ProposalFileDiff["type"];
+  path: string;
+  fromPath?: string;
+}
+
+export interface ProposalReview {
+  accepted: ProposalReviewAction[];
+  rejected: ProposalReviewAction[];
+}
+
+/**
+ * Outcome of one file action of an applied response. `staged` only exists
+ * while validating; `not-applied` marks a valid action that was dropped or
+ * rolled back because another step of the apply failed.
+ */
+export interface ApplyActionReport {
+  type: "write" | "search-replace" | "patch" | "rename" | "delete";
+  path: string;
+  /** Source path of a rename. */
+  fromPath?: string;
+  status: "staged" | "applied" | "not-applied" | "skipped" | "failed";
+  error?: string;
+}
+
 export interface CodeProposal {
   type: "code-proposal";
   title: string;
   securityRisks: SecurityRisk[];
   filesChanged: FileChange[];
   packagesAdded: string[];
+  /** Changes against the current working tree, in apply order. */
+  fileDiffs?: ProposalFileDiff[];
 }
 
 export interface ProposalResult {
@@ -5,6 +5,20 @@ export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
 
+/**
+ * Formats a micro-dollar amount as USD. Sub-dollar amounts keep four
+ * decimals so that the cost of a single chat turn stays visible.
+ */
+export function formatMicroUsd(microUsd: number, locale?: string): string {
+  const usd = microUsd / 1_000_000;
+  return new Intl.NumberFormat(locale, {
+    style: "currency",
+    currency: "USD",
+    minimumFractionDigits: 2,
+    maximumFractionDigits: Math.abs(usd) < 1 ? 4 : 2,
+  }).format(usd);
+}
+
 /**
  * Generates a cute app name.
  */
@@ -2,7 +2,9 @@ import fs from "node:fs";
 import path from "node:path";
 import { getUserDataPath } from "/src/paths/paths.ts";
 import {
+  ChatModeSchema,
   UserSettingsSchema,
+  type ChatMode,
   type UserSettings,
   Secret,
   VertexProviderSetting,
@@ -41,8 +43,11 @@ const DEFAULT_SETTINGS: UserSettings = {
 
 const SETTINGS_FILE = "user-settings.json";
 
-function normalizeChatModeForHttpOnly(value: unknown): "build" | "ask" {
-  return value === "ask" ? "ask" : "build";
+function normalizeChatModeForHttpOnly(value: unknown): ChatMode {
+  if (value === "local-agent") {
+    return "agent";
+  }
+  return ChatModeSchema.safeParse(value).data ?? "build";
 }
 
 function normalizeLegacyChatModes(
@@ -0,0 +1,351 @@
+import { useState, type FormEvent } from "react";
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { useNavigate } from "@tanstack/react-router";
+import { ArrowLeft, Download } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useI18n } from "@/contexts/I18nContext";
+import { useActiveOrganization } from "@/hooks/useActiveOrganization";
+import { getIntlLocaleCode } from "@/i18n/date_locale";
+import { IpcClient } from "@/ipc/ipc_client";
+import type {
+  AuditEventFilters,
+  AuditEventPage,
+  AuditExportFormat,
+} from "@/ipc/ipc_types";
+
+const AUDIT_PAGE_SIZE = 50;
+
+interface AuditFilterDraft {
+  actorUserId: string;
+  action: string;
+  resourceType: string;
+  from: string;
+  to: string;
+}
+
+const EMPTY_FILTER_DRAFT: AuditFilterDraft = {
+  actorUserId: "",
+  action: "",
+  resourceType: "",
+  from: "",
+  to: "",
+};
+
+/** `datetime-local` inputs carry local time without a zone. */
+function toIsoTimestamp(value: string): string | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+export function toAuditEventFilters(
+  draft: AuditFilterDraft,
+): AuditEventFilters {
+  return {
+    actorUserId: draft.actorUserId.trim() || undefined,
+    action: draft.action.trim() || undefined,
+    resourceType: draft.resourceType.trim() || undefined,
+    from: toIsoTimestamp(draft.from),
+    to: toIsoTimestamp(draft.to),
+  };
+}
+
+function downloadTextFile(fileName: string, contentType: string, text: string) {
+  const url = URL.createObjectURL(new Blob([text], { type: contentType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export default function AuditPage() {
+  const { t, language } = useI18n();
+  const navigate = useNavigate();
+  const { organization, isAdmin, isLoading } = useActiveOrganization();
+  const [draft, setDraft] = useState<AuditFilterDraft>(EMPTY_FILTER_DRAFT);
+  const [filters, setFilters] = useState<AuditEventFilters>({});
+  const [exportingFormat, setExportingFormat] =
+    useState<AuditExportFormat | null>(null);
+  const orgId = organization?.id;
+
+  const eventsQuery = useInfiniteQuery<AuditEventPage, Error>({
+    queryKey: ["audit-events", orgId, filters],
+    enabled: Boolean(orgId) && isAdmin,
+    initialPageParam: undefined as string | undefined,
+    queryFn: async ({ pageParam }) => {
+      return IpcClient.getInstance().listAuditEvents({
+        ...filters,
+        orgId,
+        cursor: pageParam as string | undefined,
+        limit: AUDIT_PAGE_SIZE,
+      });
+    },
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    meta: { showErrorToast: false },
+  });
+
+  const events = eventsQuery.data?.pages.flatMap((page) => page.events) ?? [];
+  const dateFormatter = new Intl.DateTimeFormat(getIntlLocaleCode(language), {
+    dateStyle: "short",
+    timeStyle: "medium",
+  });
+
+  const updateDraft = (key: keyof AuditFilterDraft, value: string) => {
+    setDraft((current) => ({ ...current, [key]: value }));
+  };
+
+  const handleApplyFilters = (event: FormEvent) => {
+    event.preventDefault();
+    setFilters(toAuditEventFilters(draft));
+  };
+
+  const handleResetFilters = () => {
+    setDraft(EMPTY_FILTER_DRAFT);
+    setFilters({});
+  };
+
+  const handleExport = async (format: AuditExportFormat) => {
+    setExportingFormat(format);
+    try {
+      const text = await IpcClient.getInstance().exportAuditEvents({
+        ...filters,
+        orgId,
+        format,
+      });
+      const date = new Date().toISOString().slice(0, 10);
+      downloadTextFile(
+        `audit-events-${date}.${format}`,
+        format === "csv" ? "text/csv" : "application/x-ndjson",
+        text,
+      );
+    } catch (error) {
+      toast.error(
+        error instanceof Error && error.message
+          ? error.message
+          : t("audit.error.exportFailed"),
+      );
+    } finally {
+      setExportingFormat(null);
+    }
+  };
+
+  const renderBody = () => {
+    if (isLoading) {
+      return (
+        <p className="text-sm text-muted-foreground">{t("audit.loading")}</p>
+      );
+    }
+    if (!isAdmin) {
+      return (
+        <p className="text-sm text-muted-foreground">{t("audit.forbidden")}</p>
+      );
+    }
+    if (eventsQuery.isLoading) {
+      return (
+        <p className="text-sm text-muted-foreground">{t("audit.loading")}</p>
+      );
+    }
+    if (eventsQuery.isError) {
+      return (
+        <p className="text-sm text-destructive">
+          {eventsQuery.error?.message || t("audit.failed")}
+        </p>
+      );
+    }
+    if (events.length === 0) {
+      return (
+        <p className="text-sm text-muted-foreground">{t("audit.empty")}</p>
+      );
+    }
+
+    return (
+      <>
+        <div className="overflow-x-auto rounded-lg border border-border/80">
+          <table className="w-full text-left text-xs">
+            <thead className="bg-muted/50 text-muted-foreground">
+              <tr>
+                <th className="px-3 py-2 font-medium">
+                  {t("audit.column.time")}
+                </th>
+                <th className="px-3 py-2 font-medium">
+                  {t("audit.column.actor")}
+                </th>
+                <th className="px-3 py-2 font-medium">
+                  {t("audit.column.action")}
+                </th>
+                <th className="px-3 py-2 font-medium">
+                  {t("audit.column.resource")}
+                </th>
+                <th className="px-3 py-2 font-medium">
+                  {t("audit.column.metadata")}
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {events.map((event) => (
+                <tr key={event.id} className="border-t border-border/60">
+                  <td className="whitespace-nowrap px-3 py-2">
+                    {dateFormatter.format(new Date(event.createdAt))}
+                  </td>
+                  <td className="px-3 py-2">
+                    {event.actorEmail ||
+                      event.actorDisplayName ||
+                      event.actorUserId ||
+                      t("audit.actor.system")}
+                  </td>
+                  <td className="px-3 py-2 font-mono">{event.action}</td>
+                  <td className="px-3 py-2">
+                    {event.resourceId
+                      ? `${event.resourceType}:${event.resourceId}`
+                      : event.resourceType}
+                  </td>
+                  <td className="max-w-xs truncate px-3 py-2 font-mono text-muted-foreground">
+                    {event.metadata ? JSON.stringify(event.metadata) : ""}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        {eventsQuery.hasNextPage && (
+          <Button
+            variant="outline"
+            className="mt-3"
+            disabled={eventsQuery.isFetchingNextPage}
+            onClick={() => void eventsQuery.fetchNextPage()}
+          >
+            {eventsQuery.isFetchingNextPage
+              ? t("audit.button.loadingMore")
+              : t("audit.button.loadMore")}
+          </Button>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <div className="mx-auto flex w-full max-w-6xl flex-col gap-4 p-6">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <Button
+            variant="ghost"
+            size="icon"
+            aria-label={t("audit.aria.back")}
+            onClick={() => void navigate({ to: "/" })}
+          >
+            <ArrowLeft size={16} />
+          </Button>
+          <div>
+            <h1 className="text-lg font-semibold">{t("audit.title")}</h1>
+            {organization && (
+              <p className="text-xs text-muted-foreground">
+                {organization.name}
+              </p>
+            )}
+          </div>
+        </div>
+        {isAdmin && (
+          <div className="flex gap-2">
+            {(["csv", "jsonl"] as const).map((format) => (
+              <Button
+                key={format}
+                variant="outline"
+                size="sm"
+                disabled={exportingFormat !== null}
+                onClick={() => void handleExport(format)}
+              >
+                <Download size={14} />
+                {exportingFormat === format
+                  ? t("audit.button.exporting")
+                  : t("audit.button.export", {
+                      format: format.toUpperCase(),
+                    })}
+              </Button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {isAdmin && (
+        <form
+          onSubmit={handleApplyFilters}
+          className="grid grid-cols-1 gap-3 rounded-lg border border-border/80 p-3 md:grid-cols-5"
+        >
+          <div className="flex flex-col gap-1">
+            <Label htmlFor="audit-filter-actor">
+              {t("audit.filter.actor")}
+            </Label>
+            <Input
+              id="audit-filter-actor"
+              value={draft.actorUserId}
+              onChange={(event) =>
+                updateDraft("actorUserId", event.target.value)
+              }
+            />
+          </div>
+          <div className="flex flex-col gap-1">
+            <Label htmlFor="audit-filter-action">
+              {t("audit.filter.action")}
+            </Label>
+            <Input
+              id="audit-filter-action"
+              value={draft.action}
+              onChange={(event) => updateDraft("action", event.target.value)}
+            />
+          </div>
+          <div className="flex flex-col gap-1">
+            <Label htmlFor="audit-filter-resource">
+              {t("audit.filter.resourceType")}
+            </Label>
+            <Input
+              id="audit-filter-resource"
+              value={draft.resourceType}
+              onChange={(event) =>
+                updateDraft("resourceType", event.target.value)
+              }
+            />
+          </div>
+          <div className="flex flex-col gap-1">
+            <Label htmlFor="audit-filter-from">{t("audit.filter.from")}</Label>
+            <Input
+              id="audit-filter-from"
+              type="datetime-local"
+              value={draft.from}
+              onChange={(event) => updateDraft("from", event.target.value)}
+            />
+          </div>
+          <div className="flex flex-col gap-1">
+            <Label htmlFor="audit-filter-to">{t("audit.filter.to")}</Label>
+            <Input
+              id="audit-filter-to"
+              type="datetime-local"
+              value={draft.to}
+              onChange={(event) => updateDraft("to", event.target.value)}
+            />
+          </div>
+          <div className="flex gap-2 md:col-span-5">
+            <Button type="submit" size="sm">
+              {t("audit.button.apply")}
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={handleResetFilters}
+            >
+              {t("audit.button.reset")}
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {renderBody()}
+    </div>
+  );
+}
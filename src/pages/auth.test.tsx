@@ -5,6 +5,7 @@ import { I18nProvider, UI_LANGUAGE_STORAGE_KEY } from "@/contexts/I18nContext";
 import {
   AUTH_REDIRECT_REASON_SESSION_EXPIRED,
   AUTH_REDIRECT_REASON_STORAGE_KEY,
+  AUTH_SESSION_TOKEN_STORAGE_KEY,
   AUTH_TOKEN_STORAGE_KEY,
   DEV_USER_EMAIL_STORAGE_KEY,
   DEV_USER_NAME_STORAGE_KEY,
@@ -330,7 +331,8 @@ describe("AuthPage", () => {
               accessToken:
                 "eyJhbGciOiJub25lIn0.eyJzdWIiOiJvYXV0aC11c2VyIiwiZW1haWwiOiJvYXV0aEBleGFtcGxlLmNvbSIsIm5hbWUiOiJPQXV0aCBVc2VyIn0.sig",
               idToken: null,
-              refreshToken: null,
+              sessionToken: "session-token",
+              sessionExpiresAt: "2026-11-18T00:00:00.000Z",
               tokenType: "Bearer",
               expiresIn: 3600,
               scope: "openid profile email",
@@ -343,6 +345,9 @@ describe("AuthPage", () => {
 
     await waitFor(() => {
       expect(window.localStorage.getItem(AUTH_TOKEN_STORAGE_KEY)).toBeTruthy();
+      expect(window.localStorage.getItem(AUTH_SESSION_TOKEN_STORAGE_KEY)).toBe(
+        "session-token",
+      );
       expect(window.localStorage.getItem(DEV_USER_SUB_STORAGE_KEY)).toBe(
         "oauth-user",
       );
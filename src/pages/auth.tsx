@@ -45,6 +45,7 @@ import {
 import {
   AUTH_REDIRECT_REASON_SESSION_EXPIRED,
   AUTH_REDIRECT_REASON_STORAGE_KEY,
+  AUTH_SESSION_TOKEN_STORAGE_KEY,
   AUTH_TOKEN_STORAGE_KEY,
   DEV_USER_EMAIL_STORAGE_KEY,
   DEV_USER_NAME_STORAGE_KEY,
@@ -62,6 +63,7 @@ interface StoredAuthValues {
   email: string;
   name: string;
   sub: string;
+  sessionToken?: string;
 }
 
 interface ApiResponseEnvelope<T> {
@@ -97,6 +99,8 @@ function saveStoredValue(key: string, value: string) {
 
 function saveAuthValues(values: StoredAuthValues) {
   saveStoredValue(AUTH_TOKEN_STORAGE_KEY, values.token);
+  // A manually entered token has no server-side session to refresh it.
+  saveStoredValue(AUTH_SESSION_TOKEN_STORAGE_KEY, values.sessionToken ?? "");
   saveStoredValue(DEV_USER_SUB_STORAGE_KEY, values.sub);
   saveStoredValue(DEV_USER_EMAIL_STORAGE_KEY, values.email);
   saveStoredValue(DEV_USER_NAME_STORAGE_KEY, values.name);
@@ -222,6 +226,7 @@ export default function AuthPage() {
       email: nextEmail,
       name: nextName,
       sub: nextSub,
+      sessionToken: overrides.sessionToken,
     });
 
     queryClient.clear();
@@ -366,6 +371,7 @@ export default function AuthPage() {
         email: nextEmail,
         name: nextName,
         sub: nextSub,
+        sessionToken: exchangeResult.sessionToken ?? "",
       });
       setToken(savedValues.token);
       setEmail(savedValues.email);
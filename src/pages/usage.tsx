@@ -0,0 +1,833 @@
+import { useEffect, useState, type FormEvent } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useNavigate } from "@tanstack/react-router";
+import { ArrowLeft } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useI18n } from "@/contexts/I18nContext";
+import { useActiveOrganization } from "@/hooks/useActiveOrganization";
+import { getIntlLocaleCode } from "@/i18n/date_locale";
+import { IpcClient } from "@/ipc/ipc_client";
+import type {
+  BudgetStatus,
+  OrganizationQuota,
+  UsageReport,
+  UsageTotals,
+  UserSoftQuota,
+} from "@/ipc/ipc_types";
+import { cn, formatMicroUsd } from "@/lib/utils";
+
+const REPORT_RANGE_DAYS = [7, 30, 90] as const;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MICRO_USD_PER_USD = 1_000_000;
+
+type ReportRangeDays = (typeof REPORT_RANGE_DAYS)[number];
+
+function UsageBar({ used, limit }: { used: number; limit: number | null }) {
+  const ratio = limit && limit > 0 ? Math.min(used / limit, 1) : 0;
+  return (
+    <div className="h-1.5 w-full overflow-hidden rounded-full bg-muted">
+      <div
+        className={cn(
+          "h-full rounded-full",
+          ratio >= 1
+            ? "bg-destructive"
+            : ratio >= 0.8
+              ? "bg-amber-500"
+              : "bg-primary",
+        )}
+        style={{ width: `${Math.round(ratio * 100)}%` }}
+      />
+    </div>
+  );
+}
+
+function parseLimitInput(value: string): number | undefined {
+  const parsed = Number(value);
+  return value.trim() && Number.isInteger(parsed) && parsed >= 0
+    ? parsed
+    : undefined;
+}
+
+/** Returns micro-dollars, null for an empty input and undefined if invalid. */
+function parseUsdInput(value: string): number | null | undefined {
+  if (!value.trim()) {
+    return null;
+  }
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0
+    ? Math.round(parsed * MICRO_USD_PER_USD)
+    : undefined;
+}
+
+const BUDGET_STATUS_CLASS_NAMES: Record<BudgetStatus, string> = {
+  none: "text-muted-foreground",
+  ok: "text-muted-foreground",
+  warning: "text-amber-600",
+  exhausted: "text-destructive",
+};
+
+function BudgetForm({
+  quota,
+  orgId,
+  formatCost,
+}: {
+  quota: OrganizationQuota;
+  orgId: string;
+  formatCost: (microUsd: number) => string;
+}) {
+  const { t } = useI18n();
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState({
+    monthlyBudgetUsd:
+      quota.monthlyBudgetMicroUsd === null
+        ? ""
+        : String(quota.monthlyBudgetMicroUsd / MICRO_USD_PER_USD),
+    budgetWarningThresholdPercent: String(quota.budgetWarningThresholdPercent),
+    budgetExhaustedAction: quota.budgetExhaustedAction,
+    downgradeProvider: quota.budgetDowngradeModel?.provider ?? "",
+    downgradeModel: quota.budgetDowngradeModel?.name ?? "",
+  });
+
+  const updateMutation = useMutation<OrganizationQuota, Error>({
+    mutationFn: async () => {
+      const monthlyBudgetMicroUsd = parseUsdInput(draft.monthlyBudgetUsd);
+      if (monthlyBudgetMicroUsd === undefined) {
+        throw new Error(t("usage.budget.error.invalidAmount"));
+      }
+      const hasDowngradeModel = Boolean(
+        draft.downgradeProvider.trim() && draft.downgradeModel.trim(),
+      );
+      if (draft.budgetExhaustedAction === "downgrade" && !hasDowngradeModel) {
+        throw new Error(t("usage.budget.error.downgradeModelRequired"));
+      }
+      return IpcClient.getInstance().updateOrganizationQuota({
+        orgId,
+        monthlyBudgetMicroUsd,
+        budgetWarningThresholdPercent: parseLimitInput(
+          draft.budgetWarningThresholdPercent,
+        ),
+        budgetExhaustedAction: draft.budgetExhaustedAction,
+        budgetDowngradeModel: hasDowngradeModel
+          ? {
+              provider: draft.downgradeProvider.trim(),
+              name: draft.downgradeModel.trim(),
+            }
+          : null,
+      });
+    },
+    onSuccess: (next) => {
+      queryClient.setQueryData(["usage", "org-quota", orgId], next);
+      toast.success(t("usage.budget.saved"));
+    },
+    onError: (error) => {
+      toast.error(error.message || t("usage.error.saveFailed"));
+    },
+  });
+
+  const updateDraft = (key: keyof typeof draft, value: string) => {
+    setDraft((current) => ({ ...current, [key]: value }));
+  };
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    updateMutation.mutate();
+  };
+
+  const { budgetUsage } = quota;
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="grid grid-cols-1 gap-3 rounded-lg border border-border/80 p-3 md:grid-cols-3"
+    >
+      <div className="flex flex-col gap-1 md:col-span-3">
+        <div
+          data-testid="usage-budget-status"
+          className={cn(
+            "text-xs",
+            BUDGET_STATUS_CLASS_NAMES[budgetUsage.status],
+          )}
+        >
+          {t(`usage.budget.status.${budgetUsage.status}`, {
+            spent: formatCost(budgetUsage.spentMicroUsd),
+            budget: formatCost(quota.monthlyBudgetMicroUsd ?? 0),
+          })}
+        </div>
+        {quota.monthlyBudgetMicroUsd !== null && (
+          <UsageBar
+            used={budgetUsage.spentMicroUsd}
+            limit={quota.monthlyBudgetMicroUsd}
+          />
+        )}
+      </div>
+      <div className="flex flex-col gap-1">
+        <Label htmlFor="usage-budget-amount">{t("usage.budget.amount")}</Label>
+        <Input
+          id="usage-budget-amount"
+          type="number"
+          min={0}
+          step="0.01"
+          placeholder={t("usage.budget.noBudget")}
+          value={draft.monthlyBudgetUsd}
+          onChange={(event) =>
+            updateDraft("monthlyBudgetUsd", event.target.value)
+          }
+        />
+      </div>
+      <div className="flex flex-col gap-1">
+        <Label htmlFor="usage-budget-threshold">
+          {t("usage.budget.warningThreshold")}
+        </Label>
+        <Input
+          id="usage-budget-threshold"
+          type="number"
+          min={1}
+          max={100}
+          value={draft.budgetWarningThresholdPercent}
+          onChange={(event) =>
+            updateDraft("budgetWarningThresholdPercent", event.target.value)
+          }
+        />
+      </div>
+      <div className="flex flex-col gap-1">
+        <Label htmlFor="usage-budget-action">
+          {t("usage.budget.exhaustedAction")}
+        </Label>
+        <select
+          id="usage-budget-action"
+          value={draft.budgetExhaustedAction}
+          onChange={(event) =>
+            updateDraft("budgetExhaustedAction", event.target.value)
+          }
+          className="h-9 rounded-md border border-input bg-background px-2 text-sm"
+        >
+          <option value="block">{t("usage.budget.action.block")}</option>
+          <option value="downgrade">
+            {t("usage.budget.action.downgrade")}
+          </option>
+        </select>
+      </div>
+      {draft.budgetExhaustedAction === "downgrade" && (
+        <>
+          <div className="flex flex-col gap-1">
+            <Label htmlFor="usage-budget-downgrade-provider">
+              {t("usage.budget.downgradeProvider")}
+            </Label>
+            <Input
+              id="usage-budget-downgrade-provider"
+              value={draft.downgradeProvider}
+              onChange={(event) =>
+                updateDraft("downgradeProvider", event.target.value)
+              }
+            />
+          </div>
+          <div className="flex flex-col gap-1">
+            <Label htmlFor="usage-budget-downgrade-model">
+              {t("usage.budget.downgradeModel")}
+            </Label>
+            <Input
+              id="usage-budget-downgrade-model"
+              value={draft.downgradeModel}
+              onChange={(event) =>
+                updateDraft("downgradeModel", event.target.value)
+              }
+            />
+          </div>
+        </>
+      )}
+      <div className="md:col-span-3">
+        <Button type="submit" size="sm" disabled={updateMutation.isPending}>
+          {t("usage.button.save")}
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+function SoftQuotaRow({
+  quota,
+  orgId,
+  formatNumber,
+}: {
+  quota: UserSoftQuota;
+  orgId: string;
+  formatNumber: (value: number) => string;
+}) {
+  const { t } = useI18n();
+  const queryClient = useQueryClient();
+  const [requestsLimit, setRequestsLimit] = useState(
+    quota.requestsPerDaySoftLimit?.toString() ?? "",
+  );
+  const [tokensLimit, setTokensLimit] = useState(
+    quota.tokensPerDaySoftLimit?.toString() ?? "",
+  );
+
+  useEffect(() => {
+    setRequestsLimit(quota.requestsPerDaySoftLimit?.toString() ?? "");
+    setTokensLimit(quota.tokensPerDaySoftLimit?.toString() ?? "");
+  }, [quota.requestsPerDaySoftLimit, quota.tokensPerDaySoftLimit]);
+
+  const onSuccess = async () => {
+    await queryClient.invalidateQueries({
+      queryKey: ["usage", "soft-quotas", orgId],
+    });
+  };
+  const onError = (error: Error) => {
+    toast.error(error.message || t("usage.error.saveFailed"));
+  };
+
+  const saveMutation = useMutation<void, Error>({
+    mutationFn: async () => {
+      const requestsPerDaySoftLimit = parseLimitInput(requestsLimit);
+      const tokensPerDaySoftLimit = parseLimitInput(tokensLimit);
+      if (
+        requestsPerDaySoftLimit === undefined &&
+        tokensPerDaySoftLimit === undefined
+      ) {
+        throw new Error(t("usage.error.limitRequired"));
+      }
+      await IpcClient.getInstance().updateUserSoftQuota({
+        orgId,
+        userId: quota.userId,
+        requestsPerDaySoftLimit,
+        tokensPerDaySoftLimit,
+      });
+    },
+    onSuccess,
+    onError,
+  });
+  const clearMutation = useMutation<void, Error>({
+    mutationFn: async () => {
+      await IpcClient.getInstance().removeUserSoftQuota({
+        orgId,
+        userId: quota.userId,
+      });
+    },
+    onSuccess,
+    onError,
+  });
+  const hasSoftLimit =
+    quota.requestsPerDaySoftLimit !== null ||
+    quota.tokensPerDaySoftLimit !== null;
+  const isPending = saveMutation.isPending || clearMutation.isPending;
+
+  return (
+    <tr className="border-t border-border/60 align-top">
+      <td className="px-3 py-2">
+        <div>{quota.displayName || quota.email}</div>
+        <div className="text-muted-foreground">{quota.email}</div>
+      </td>
+      <td className="px-3 py-2">
+        <div className="mb-1">
+          {formatNumber(quota.usageToday.requests)}
+          {quota.requestsPerDaySoftLimit !== null &&
+            ` / ${formatNumber(quota.requestsPerDaySoftLimit)}`}
+        </div>
+        <UsageBar
+          used={quota.usageToday.requests}
+          limit={quota.requestsPerDaySoftLimit}
+        />
+        <Input
+          className="mt-2 h-7 text-xs"
+          type="number"
+          min={0}
+          placeholder={t("usage.softLimits.noLimit")}
+          aria-label={t("usage.softLimits.aria.requests", {
+            email: quota.email,
+          })}
+          value={requestsLimit}
+          onChange={(event) => setRequestsLimit(event.target.value)}
+        />
+      </td>
+      <td className="px-3 py-2">
+        <div className="mb-1">
+          {formatNumber(quota.usageToday.tokens)}
+          {quota.tokensPerDaySoftLimit !== null &&
+            ` / ${formatNumber(quota.tokensPerDaySoftLimit)}`}
+        </div>
+        <UsageBar
+          used={quota.usageToday.tokens}
+          limit={quota.tokensPerDaySoftLimit}
+        />
+        <Input
+          className="mt-2 h-7 text-xs"
+          type="number"
+          min={0}
+          placeholder={t("usage.softLimits.noLimit")}
+          aria-label={t("usage.softLimits.aria.tokens", {
+            email: quota.email,
+          })}
+          value={tokensLimit}
+          onChange={(event) => setTokensLimit(event.target.value)}
+        />
+      </td>
+      <td className="px-3 py-2">
+        <div className="flex flex-col gap-1">
+          <Button
+            size="sm"
+            disabled={isPending}
+            onClick={() => saveMutation.mutate()}
+          >
+            {t("usage.button.save")}
+          </Button>
+          {hasSoftLimit && (
+            <Button
+              size="sm"
+              variant="ghost"
+              disabled={isPending}
+              onClick={() => clearMutation.mutate()}
+            >
+              {t("usage.button.clear")}
+            </Button>
+          )}
+        </div>
+      </td>
+    </tr>
+  );
+}
+
+function HardLimitsForm({
+  quota,
+  orgId,
+  formatNumber,
+}: {
+  quota: OrganizationQuota;
+  orgId: string;
+  formatNumber: (value: number) => string;
+}) {
+  const { t } = useI18n();
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState({
+    requestsPerDayHardLimit: String(quota.requestsPerDayHardLimit),
+    tokensPerDayHardLimit: String(quota.tokensPerDayHardLimit),
+    concurrentPreviewJobsHardLimit: String(
+      quota.concurrentPreviewJobsHardLimit,
+    ),
+  });
+
+  const updateMutation = useMutation<OrganizationQuota, Error>({
+    mutationFn: async () => {
+      return IpcClient.getInstance().updateOrganizationQuota({
+        orgId,
+        requestsPerDayHardLimit: parseLimitInput(draft.requestsPerDayHardLimit),
+        tokensPerDayHardLimit: parseLimitInput(draft.tokensPerDayHardLimit),
+        concurrentPreviewJobsHardLimit: parseLimitInput(
+          draft.concurrentPreviewJobsHardLimit,
+        ),
+      });
+    },
+    onSuccess: (next) => {
+      queryClient.setQueryData(["usage", "org-quota", orgId], next);
+      toast.success(t("usage.hardLimits.saved"));
+    },
+    onError: (error) => {
+      toast.error(error.message || t("usage.error.saveFailed"));
+    },
+  });
+
+  const fields = [
+    {
+      key: "requestsPerDayHardLimit",
+      label: t("usage.metric.requests"),
+      used: quota.usageToday.requests,
+      usedMessage: "usage.hardLimits.usedToday",
+      limit: quota.requestsPerDayHardLimit,
+    },
+    {
+      key: "tokensPerDayHardLimit",
+      label: t("usage.metric.tokens"),
+      used: quota.usageToday.tokens,
+      usedMessage: "usage.hardLimits.usedToday",
+      limit: quota.tokensPerDayHardLimit,
+    },
+    {
+      key: "concurrentPreviewJobsHardLimit",
+      label: t("usage.metric.runningPreviews"),
+      used: quota.runningPreviewJobs,
+      usedMessage: "usage.hardLimits.runningNow",
+      limit: quota.concurrentPreviewJobsHardLimit,
+    },
+  ] as const;
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    updateMutation.mutate();
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="grid grid-cols-1 gap-3 rounded-lg border border-border/80 p-3 md:grid-cols-3"
+    >
+      {fields.map((field) => (
+        <div key={field.key} className="flex flex-col gap-1">
+          <Label htmlFor={`usage-hard-limit-${field.key}`}>{field.label}</Label>
+          <div className="text-xs text-muted-foreground">
+            {t(field.usedMessage, {
+              used: formatNumber(field.used),
+              limit: formatNumber(field.limit),
+            })}
+          </div>
+          <UsageBar used={field.used} limit={field.limit} />
+          <Input
+            id={`usage-hard-limit-${field.key}`}
+            type="number"
+            min={0}
+            value={draft[field.key]}
+            onChange={(event) =>
+              setDraft((current) => ({
+                ...current,
+                [field.key]: event.target.value,
+              }))
+            }
+          />
+        </div>
+      ))}
+      <div className="md:col-span-3">
+        <Button type="submit" size="sm" disabled={updateMutation.isPending}>
+          {t("usage.button.save")}
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+function BreakdownTable({
+  title,
+  rows,
+  formatNumber,
+  formatCost,
+}: {
+  title: string;
+  rows: Array<UsageTotals & { label: string; key: string }>;
+  formatNumber: (value: number) => string;
+  formatCost: (microUsd: number) => string;
+}) {
+  const { t } = useI18n();
+  return (
+    <div className="rounded-lg border border-border/80">
+      <div className="border-b border-border/60 px-3 py-2 text-sm font-medium">
+        {title}
+      </div>
+      {rows.length === 0 ? (
+        <p className="px-3 py-2 text-xs text-muted-foreground">
+          {t("usage.report.empty")}
+        </p>
+      ) : (
+        <table className="w-full text-left text-xs">
+          <thead className="text-muted-foreground">
+            <tr>
+              <th className="px-3 py-1.5 font-medium" />
+              <th className="px-3 py-1.5 text-right font-medium">
+                {t("usage.metric.requests")}
+              </th>
+              <th className="px-3 py-1.5 text-right font-medium">
+                {t("usage.metric.tokens")}
+              </th>
+              <th className="px-3 py-1.5 text-right font-medium">
+                {t("usage.metric.cost")}
+              </th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr key={row.key} className="border-t border-border/60">
+                <td className="truncate px-3 py-1.5">{row.label}</td>
+                <td className="px-3 py-1.5 text-right">
+                  {formatNumber(row.requests)}
+                </td>
+                <td className="px-3 py-1.5 text-right">
+                  {formatNumber(row.tokens)}
+                </td>
+                <td className="px-3 py-1.5 text-right">
+                  {formatCost(row.costMicroUsd)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+export default function UsagePage() {
+  const { t, language } = useI18n();
+  const navigate = useNavigate();
+  const { organization, isAdmin, isLoading } = useActiveOrganization();
+  const [rangeDays, setRangeDays] = useState<ReportRangeDays>(30);
+  const orgId = organization?.id ?? "";
+  const enabled = Boolean(orgId) && isAdmin;
+  const numberFormatter = new Intl.NumberFormat(getIntlLocaleCode(language));
+  const formatNumber = (value: number) => numberFormatter.format(value);
+  const formatCost = (microUsd: number) =>
+    formatMicroUsd(microUsd, getIntlLocaleCode(language));
+
+  const quotaQuery = useQuery<OrganizationQuota, Error>({
+    queryKey: ["usage", "org-quota", orgId],
+    enabled,
+    queryFn: async () => IpcClient.getInstance().getOrganizationQuota(orgId),
+    meta: { showErrorToast: false },
+  });
+  const softQuotasQuery = useQuery<UserSoftQuota[], Error>({
+    queryKey: ["usage", "soft-quotas", orgId],
+    enabled,
+    queryFn: async () => IpcClient.getInstance().listUserSoftQuotas(orgId),
+    meta: { showErrorToast: false },
+  });
+  const reportQuery = useQuery<UsageReport, Error>({
+    queryKey: ["usage", "report", orgId, rangeDays],
+    enabled,
+    queryFn: async () => {
+      const now = Date.now();
+      return IpcClient.getInstance().getUsageReport({
+        orgId,
+        from: new Date(now - rangeDays * DAY_MS).toISOString(),
+        to: new Date(now).toISOString(),
+      });
+    },
+    meta: { showErrorToast: false },
+  });
+
+  const renderStatus = (query: {
+    isLoading: boolean;
+    isError: boolean;
+    error: Error | null;
+  }) => {
+    if (query.isLoading) {
+      return (
+        <p className="text-sm text-muted-foreground">{t("usage.loading")}</p>
+      );
+    }
+    if (query.isError) {
+      return (
+        <p className="text-sm text-destructive">
+          {query.error?.message || t("usage.failed")}
+        </p>
+      );
+    }
+    return null;
+  };
+
+  const report = reportQuery.data;
+  const maxDailyTokens = Math.max(
+    1,
+    ...(report?.daily.map((day) => day.tokens) ?? []),
+  );
+
+  return (
+    <div className="mx-auto flex w-full max-w-6xl flex-col gap-6 p-6">
+      <div className="flex items-center gap-2">
+        <Button
+          variant="ghost"
+          size="icon"
+          aria-label={t("usage.aria.back")}
+          onClick={() => void navigate({ to: "/" })}
+        >
+          <ArrowLeft size={16} />
+        </Button>
+        <div>
+          <h1 className="text-lg font-semibold">{t("usage.title")}</h1>
+          {organization && (
+            <p className="text-xs text-muted-foreground">{organization.name}</p>
+          )}
+        </div>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">{t("usage.loading")}</p>
+      ) : !isAdmin ? (
+        <p className="text-sm text-muted-foreground">{t("usage.forbidden")}</p>
+      ) : (
+        <>
+          <section className="flex flex-col gap-2">
+            <h2 className="text-sm font-semibold">
+              {t("usage.hardLimits.title")}
+            </h2>
+            {renderStatus(quotaQuery) ??
+              (quotaQuery.data && (
+                <HardLimitsForm
+                  key={`${quotaQuery.data.requestsPerDayHardLimit}:${quotaQuery.data.tokensPerDayHardLimit}:${quotaQuery.data.concurrentPreviewJobsHardLimit}`}
+                  quota={quotaQuery.data}
+                  orgId={orgId}
+                  formatNumber={formatNumber}
+                />
+              ))}
+          </section>
+
+          <section className="flex flex-col gap-2">
+            <h2 className="text-sm font-semibold">{t("usage.budget.title")}</h2>
+            {renderStatus(quotaQuery) ??
+              (quotaQuery.data && (
+                <BudgetForm
+                  key={JSON.stringify([
+                    quotaQuery.data.monthlyBudgetMicroUsd,
+                    quotaQuery.data.budgetWarningThresholdPercent,
+                    quotaQuery.data.budgetExhaustedAction,
+                    quotaQuery.data.budgetDowngradeModel,
+                  ])}
+                  quota={quotaQuery.data}
+                  orgId={orgId}
+                  formatCost={formatCost}
+                />
+              ))}
+          </section>
+
+          <section className="flex flex-col gap-2">
+            <h2 className="text-sm font-semibold">
+              {t("usage.softLimits.title")}
+            </h2>
+            {renderStatus(softQuotasQuery) ?? (
+              <div className="overflow-x-auto rounded-lg border border-border/80">
+                <table className="w-full text-left text-xs">
+                  <thead className="bg-muted/50 text-muted-foreground">
+                    <tr>
+                      <th className="px-3 py-2 font-medium">
+                        {t("usage.softLimits.column.member")}
+                      </th>
+                      <th className="px-3 py-2 font-medium">
+                        {t("usage.softLimits.column.requests")}
+                      </th>
+                      <th className="px-3 py-2 font-medium">
+                        {t("usage.softLimits.column.tokens")}
+                      </th>
+                      <th className="px-3 py-2 font-medium" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {(softQuotasQuery.data ?? []).map((quota) => (
+                      <SoftQuotaRow
+                        key={quota.userId}
+                        quota={quota}
+                        orgId={orgId}
+                        formatNumber={formatNumber}
+                      />
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </section>
+
+          <section className="flex flex-col gap-3">
+            <div className="flex items-center justify-between gap-2">
+              <h2 className="text-sm font-semibold">
+                {t("usage.report.title")}
+              </h2>
+              <div className="flex gap-1">
+                {REPORT_RANGE_DAYS.map((days) => (
+                  <Button
+                    key={days}
+                    size="sm"
+                    variant={days === rangeDays ? "secondary" : "ghost"}
+                    onClick={() => setRangeDays(days)}
+                  >
+                    {t("usage.report.range", { days })}
+                  </Button>
+                ))}
+              </div>
+            </div>
+            {renderStatus(reportQuery) ??
+              (report && (
+                <>
+                  <div className="grid grid-cols-1 gap-3 md:grid-cols-4">
+                    {(
+                      [
+                        ["requests", formatNumber(report.totals.requests)],
+                        ["tokens", formatNumber(report.totals.tokens)],
+                        [
+                          "previewJobs",
+                          formatNumber(report.totals.previewStarts),
+                        ],
+                        ["cost", formatCost(report.totals.costMicroUsd)],
+                      ] as const
+                    ).map(([metric, value]) => (
+                      <div
+                        key={metric}
+                        className="rounded-lg border border-border/80 p-3"
+                      >
+                        <div className="text-xs text-muted-foreground">
+                          {t(`usage.metric.${metric}`)}
+                        </div>
+                        <div className="text-lg font-semibold">{value}</div>
+                      </div>
+                    ))}
+                  </div>
+
+                  <div className="rounded-lg border border-border/80 p-3">
+                    <div className="mb-2 text-sm font-medium">
+                      {t("usage.report.daily")}
+                    </div>
+                    {report.daily.length === 0 ? (
+                      <p className="text-xs text-muted-foreground">
+                        {t("usage.report.empty")}
+                      </p>
+                    ) : (
+                      <div className="flex flex-col gap-1">
+                        {report.daily.map((day) => (
+                          <div
+                            key={day.date}
+                            className="grid grid-cols-[6rem_1fr_8rem] items-center gap-2 text-xs"
+                          >
+                            <span className="text-muted-foreground">
+                              {day.date}
+                            </span>
+                            <UsageBar
+                              used={day.tokens}
+                              limit={maxDailyTokens}
+                            />
+                            <span className="text-right">
+                              {t("usage.report.dailyValue", {
+                                requests: formatNumber(day.requests),
+                                tokens: formatNumber(day.tokens),
+                              })}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
+                    <BreakdownTable
+                      title={t("usage.report.byUser")}
+                      formatNumber={formatNumber}
+                      formatCost={formatCost}
+                      rows={report.byUser.map((row) => ({
+                        ...row,
+                        key: row.userId,
+                        label: row.email || row.displayName || row.userId,
+                      }))}
+                    />
+                    <BreakdownTable
+                      title={t("usage.report.byWorkspace")}
+                      formatNumber={formatNumber}
+                      formatCost={formatCost}
+                      rows={report.byWorkspace.map((row) => ({
+                        ...row,
+                        key: row.workspaceId,
+                        label: row.name || row.workspaceId,
+                      }))}
+                    />
+                    <BreakdownTable
+                      title={t("usage.report.byModel")}
+                      formatNumber={formatNumber}
+                      formatCost={formatCost}
+                      rows={report.byModel.map((row) => ({
+                        ...row,
+                        key: row.model ?? "",
+                        label: row.model || t("usage.report.unknownModel"),
+                      }))}
+                    />
+                  </div>
+                </>
+              ))}
+          </section>
+        </>
+      )}
+    </div>
+  );
+}
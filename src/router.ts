@@ -2,8 +2,15 @@ import { createRouter } from "@tanstack/react-router";
 import { rootRoute } from "./routes/root";
 import { homeRoute } from "./routes/home";
 import { authRoute } from "./routes/auth";
+import { auditRoute } from "./routes/audit";
+import { usageRoute } from "./routes/usage";
 
-const routeTree = rootRoute.addChildren([homeRoute, authRoute]);
+const routeTree = rootRoute.addChildren([
+  homeRoute,
+  authRoute,
+  auditRoute,
+  usageRoute,
+]);
 
 // src/components/NotFoundRedirect.tsx
 import * as React from "react";
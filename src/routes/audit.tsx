@@ -0,0 +1,15 @@
+import { createRoute, redirect } from "@tanstack/react-router";
+import { rootRoute } from "./root";
+import AuditPage from "@/pages/audit";
+import { hasStoredAuthContext } from "@/lib/auth_storage";
+
+export const auditRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: "/audit",
+  beforeLoad: () => {
+    if (!hasStoredAuthContext()) {
+      throw redirect({ to: "/auth", replace: true });
+    }
+  },
+  component: AuditPage,
+});
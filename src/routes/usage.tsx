@@ -0,0 +1,15 @@
+import { createRoute, redirect } from "@tanstack/react-router";
+import { rootRoute } from "./root";
+import UsagePage from "@/pages/usage";
+import { hasStoredAuthContext } from "@/lib/auth_storage";
+
+export const usageRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: "/usage",
+  beforeLoad: () => {
+    if (!hasStoredAuthContext()) {
+      throw redirect({ to: "/auth", replace: true });
+    }
+  },
+  component: UsagePage,
+});
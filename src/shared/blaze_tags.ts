@@ -0,0 +1,751 @@
+import { normalizePath } from "../../shared/normalizePath";
+
+/**
+ * Incremental tokenizer for the `<blaze-*>` markup in model responses.
+ *
+ * Grammar:
+ * - A tag name is `blaze-` followed by letters, digits and dashes (case
+ *   insensitive), plus any `extraTagNames` such as `think`.
+ * - Attribute values may be double-quoted, single-quoted or unquoted, in any
+ *   order. Quoted values may contain `>` and the delimiter escaped as `\"`
+ *   (or `\'`); `&quot;`, `&apos;`, `&#39;`, `&lt;`, `&gt;` and `&amp;` are
+ *   decoded. `<tag ... />` is an element without content.
+ * - Tags do not nest: everything up to the matching closing tag is raw
+ *   content. For tags holding file content (`blaze-write`,
+ *   `blaze-search-replace`, `blaze-patch`) a closing tag only counts when it
+ *   is followed by whitespace, `<` or the end of input, so code such as
+ *   `"</blaze-write>"` stays part of the file.
+ * - Malformed attributes are skipped and reported; a closing tag without an
+ *   opening tag is dropped and reported. An opening tag still open at the end
+ *   of input yields an element with `closed: false`.
+ *
+ * Feed chunks with `write()` while streaming and call `end()` once the
+ * response is complete. Input that could still turn into a tag or a closing
+ * tag is held back until the next chunk decides it.
+ */
+
+export interface BlazeTagPosition {
+  offset: number;
+  /** 1-based */
+  line: number;
+  /** 1-based */
+  column: number;
+}
+
+export type BlazeTagParseErrorCode =
+  | "INVALID_ATTRIBUTE"
+  | "DUPLICATE_ATTRIBUTE"
+  | "UNTERMINATED_OPEN_TAG"
+  | "UNEXPECTED_CLOSING_TAG"
+  | "UNCLOSED_TAG"
+  | "MISSING_ATTRIBUTE";
+
+export interface BlazeTagParseError {
+  code: BlazeTagParseErrorCode;
+  message: string;
+  tagName: string;
+  position: BlazeTagPosition;
+}
+
+export interface BlazeElement {
+  /** Lowercase tag name, e.g. `blaze-write`. */
+  name: string;
+  attributes: Record<string, string>;
+  content: string;
+  /** False when the input ended before the closing tag. */
+  closed: boolean;
+  /** Offset of the opening `<`. */
+  start: number;
+  /** Offset just past the closing tag (or the end of input). */
+  end: number;
+}
+
+export type BlazeTagEvent =
+  | { type: "text"; text: string }
+  | {
+      type: "tag-open";
+      name: string;
+      attributes: Record<string, string>;
+      start: number;
+    }
+  | { type: "tag-content"; name: string; text: string }
+  | { type: "tag-close"; element: BlazeElement }
+  | { type: "error"; error: BlazeTagParseError };
+
+export interface BlazeTagTokenizerOptions {
+  /** Non-`blaze-` tags to treat as markup as well, e.g. `["think"]`. */
+  extraTagNames?: readonly string[];
+}
+
+const BLAZE_TAG_PREFIX = "blaze-";
+const FILE_CONTENT_TAGS = new Set([
+  "blaze-write",
+  "blaze-search-replace",
+  "blaze-patch",
+]);
+// An opening tag longer than this is treated as text; it keeps a stray `<`
+// with an unterminated quote from swallowing the rest of the response.
+const MAX_OPEN_TAG_LENGTH = 4096;
+
+const TAG_NAME_PATTERN = /^[A-Za-z][A-Za-z0-9-]*/;
+const ATTRIBUTE_NAME_PATTERN = /^[^\s"'<>/=]+/;
+const UNQUOTED_VALUE_PATTERN = /^[^\s"'<>`=]+/;
+const WHITESPACE_PATTERN = /\s/;
+
+export function decodeBlazeEntities(value: string): string {
+  return value
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#39;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&");
+}
+
+type TagScanResult =
+  | { kind: "incomplete" }
+  | { kind: "text" }
+  | { kind: "close"; name: string; length: number }
+  | {
+      kind: "open";
+      name: string;
+      attributes: Record<string, string>;
+      selfClosing: boolean;
+      length: number;
+      errors: Array<{
+        code: BlazeTagParseErrorCode;
+        message: string;
+        index: number;
+      }>;
+    };
+
+function skipWhitespace(input: string, index: number): number {
+  while (index < input.length && WHITESPACE_PATTERN.test(input[index])) {
+    index++;
+  }
+  return index;
+}
+
+export class BlazeTagTokenizer {
+  private buffer = "";
+  /** Position of `buffer[0]` in the whole input. */
+  private bufferPosition: BlazeTagPosition = { offset: 0, line: 1, column: 1 };
+  private current: {
+    name: string;
+    attributes: Record<string, string>;
+    content: string;
+    start: BlazeTagPosition;
+  } | null = null;
+  private ended = false;
+  private readonly extraTagNames: readonly string[];
+
+  constructor(options: BlazeTagTokenizerOptions = {}) {
+    this.extraTagNames = (options.extraTagNames ?? []).map((name) =>
+      name.toLowerCase(),
+    );
+  }
+
+  write(chunk: string): BlazeTagEvent[] {
+    if (this.ended) {
+      throw new Error("Cannot write to a tokenizer after end()");
+    }
+    this.buffer += chunk;
+    const events: BlazeTagEvent[] = [];
+    this.drain(events);
+    return events;
+  }
+
+  end(): BlazeTagEvent[] {
+    const events: BlazeTagEvent[] = [];
+    if (this.ended) {
+      return events;
+    }
+    this.ended = true;
+    this.drain(events);
+    if (this.current) {
+      const { name, attributes, content, start } = this.current;
+      this.current = null;
+      events.push({
+        type: "error",
+        error: {
+          code: "UNCLOSED_TAG",
+          message: `<${name}> is not closed`,
+          tagName: name,
+          position: start,
+        },
+      });
+      events.push({
+        type: "tag-close",
+        element: {
+          name,
+          attributes,
+          content,
+          closed: false,
+          start: start.offset,
+          end: this.bufferPosition.offset,
+        },
+      });
+    }
+    return events;
+  }
+
+  private drain(events: BlazeTagEvent[]) {
+    while (this.buffer.length > 0) {
+      const progressed = this.current
+        ? this.readContent(events)
+        : this.readText(events);
+      if (!progressed) {
+        return;
+      }
+    }
+  }
+
+  private isTagName(name: string): boolean {
+    return (
+      (name.startsWith(BLAZE_TAG_PREFIX) &&
+        name.length > BLAZE_TAG_PREFIX.length) ||
+      this.extraTagNames.includes(name)
+    );
+  }
+
+  private couldBecomeTagName(prefix: string): boolean {
+    return (
+      BLAZE_TAG_PREFIX.startsWith(prefix) ||
+      prefix.startsWith(BLAZE_TAG_PREFIX) ||
+      this.extraTagNames.some((name) => name.startsWith(prefix))
+    );
+  }
+
+  private positionAt(index: number): BlazeTagPosition {
+    let { line, column } = this.bufferPosition;
+    for (let i = 0; i < index; i++) {
+      if (this.buffer[i] === "\n") {
+        line++;
+        column = 1;
+      } else {
+        column++;
+      }
+    }
+    return { offset: this.bufferPosition.offset + index, line, column };
+  }
+
+  private consume(length: number): string {
+    const consumed = this.buffer.slice(0, length);
+    this.bufferPosition = this.positionAt(length);
+    this.buffer = this.buffer.slice(length);
+    return consumed;
+  }
+
+  private readText(events: BlazeTagEvent[]): boolean {
+    const tagStart = this.buffer.indexOf("<");
+    if (tagStart !== 0) {
+      const length = tagStart === -1 ? this.buffer.length : tagStart;
+      events.push({ type: "text", text: this.consume(length) });
+      return true;
+    }
+
+    const scan = this.scanTag(this.buffer.slice(0, MAX_OPEN_TAG_LENGTH));
+    switch (scan.kind) {
+      case "incomplete": {
+        if (!this.ended && this.buffer.length < MAX_OPEN_TAG_LENGTH) {
+          return false;
+        }
+        const name =
+          TAG_NAME_PATTERN.exec(this.buffer.slice(1))?.[0].toLowerCase() ?? "";
+        events.push({
+          type: "error",
+          error: {
+            code: "UNTERMINATED_OPEN_TAG",
+            message: `<${name}> opening tag is not terminated`,
+            tagName: name,
+            position: this.positionAt(0),
+          },
+        });
+        events.push({ type: "text", text: this.consume(1) });
+        return true;
+      }
+      case "text":
+        events.push({ type: "text", text: this.consume(1) });
+        return true;
+      case "close":
+        events.push({
+          type: "error",
+          error: {
+            code: "UNEXPECTED_CLOSING_TAG",
+            message: `</${scan.name}> has no matching opening tag`,
+            tagName: scan.name,
+            position: this.positionAt(0),
+          },
+        });
+        this.consume(scan.length);
+        return true;
+      case "open": {
+        for (const error of scan.errors) {
+          events.push({
+            type: "error",
+            error: {
+              code: error.code,
+              message: error.message,
+              tagName: scan.name,
+              position: this.positionAt(error.index),
+            },
+          });
+        }
+        const start = this.positionAt(0);
+        this.consume(scan.length);
+        events.push({
+          type: "tag-open",
+          name: scan.name,
+          attributes: scan.attributes,
+          start: start.offset,
+        });
+        if (scan.selfClosing) {
+          events.push({
+            type: "tag-close",
+            element: {
+              name: scan.name,
+              attributes: scan.attributes,
+              content: "",
+              closed: true,
+              start: start.offset,
+              end: this.bufferPosition.offset,
+            },
+          });
+        } else {
+          this.current = {
+            name: scan.name,
+            attributes: scan.attributes,
+            content: "",
+            start,
+          };
+        }
+        return true;
+      }
+    }
+  }
+
+  /** Scans the tag at the start of `input` (a `<`). */
+  private scanTag(input: string): TagScanResult {
+    let index = 1;
+    const isClosing = input[index] === "/";
+    if (isClosing) {
+      index++;
+    }
+    const rawName = TAG_NAME_PATTERN.exec(input.slice(index))?.[0] ?? "";
+    const name = rawName.toLowerCase();
+    index += rawName.length;
+    if (index >= input.length) {
+      return this.couldBecomeTagName(name)
+        ? { kind: "incomplete" }
+        : { kind: "text" };
+    }
+    if (!this.isTagName(name)) {
+      return { kind: "text" };
+    }
+    const next = input[index];
+    if (!WHITESPACE_PATTERN.test(next) && next !== ">" && next !== "/") {
+      return { kind: "text" };
+    }
+
+    if (isClosing) {
+      index = skipWhitespace(input, index);
+      if (index >= input.length) {
+        return { kind: "incomplete" };
+      }
+      return input[index] === ">"
+        ? { kind: "close", name, length: index + 1 }
+        : { kind: "text" };
+    }
+
+    const attributes: Record<string, string> = {};
+    const errors: Extract<TagScanResult, { kind: "open" }>["errors"] = [];
+    while (true) {
+      index = skipWhitespace(input, index);
+      if (index >= input.length) {
+        return { kind: "incomplete" };
+      }
+      const char = input[index];
+      if (char === ">") {
+        return {
+          kind: "open",
+          name,
+          attributes,
+          selfClosing: false,
+          length: index + 1,
+          errors,
+        };
+      }
+      if (char === "/") {
+        if (index + 1 >= input.length) {
+          return { kind: "incomplete" };
+        }
+        if (input[index + 1] === ">") {
+          return {
+            kind: "open",
+            name,
+            attributes,
+            selfClosing: true,
+            length: index + 2,
+            errors,
+          };
+        }
+      }
+
+      const attributeName = ATTRIBUTE_NAME_PATTERN.exec(input.slice(index));
+      if (!attributeName) {
+        errors.push({
+          code: "INVALID_ATTRIBUTE",
+          message: `Unexpected "${char}" in <${name}>`,
+          index,
+        });
+        // A stray quoted string is skipped as a whole so its `>` or closing
+        // quote does not produce further errors.
+        if (char === '"' || char === "'") {
+          const closingQuote = input.indexOf(char, index + 1);
+          if (closingQuote === -1) {
+            return { kind: "incomplete" };
+          }
+          index = closingQuote + 1;
+        } else {
+          index++;
+        }
+        continue;
+      }
+      const attributeIndex = index;
+      const key = attributeName[0].toLowerCase();
+      index = skipWhitespace(input, index + attributeName[0].length);
+      if (index >= input.length) {
+        return { kind: "incomplete" };
+      }
+
+      let value = "";
+      if (input[index] === "=") {
+        index = skipWhitespace(input, index + 1);
+        if (index >= input.length) {
+          return { kind: "incomplete" };
+        }
+        const quote = input[index];
+        if (quote === '"' || quote === "'") {
+          let end = index + 1;
+          let raw = "";
+          while (end < input.length && input[end] !== quote) {
+            if (input[end] === "\\" && input[end + 1] === quote) {
+              raw += quote;
+              end += 2;
+            } else {
+              raw += input[end];
+              end++;
+            }
+          }
+          if (end >= input.length) {
+            return { kind: "incomplete" };
+          }
+          value = decodeBlazeEntities(raw);
+          index = end + 1;
+        } else {
+          const unquoted = UNQUOTED_VALUE_PATTERN.exec(input.slice(index));
+          if (!unquoted) {
+            errors.push({
+              code: "INVALID_ATTRIBUTE",
+              message: `Attribute "${key}" of <${name}> has no value`,
+              index: attributeIndex,
+            });
+            continue;
+          }
+          index += unquoted[0].length;
+          if (index >= input.length) {
+            return { kind: "incomplete" };
+          }
+          value = decodeBlazeEntities(unquoted[0]);
+        }
+      }
+
+      if (Object.prototype.hasOwnProperty.call(attributes, key)) {
+        errors.push({
+          code: "DUPLICATE_ATTRIBUTE",
+          message: `Attribute "${key}" is repeated in <${name}>`,
+          index: attributeIndex,
+        });
+        continue;
+      }
+      attributes[key] = value;
+    }
+  }
+
+  private readContent(events: BlazeTagEvent[]): boolean {
+    const current = this.current!;
+    const input = this.buffer;
+    const closingPattern = new RegExp(`</${current.name}`, "gi");
+    const needsBoundary = FILE_CONTENT_TAGS.has(current.name);
+
+    let match: RegExpExecArray | null;
+    while ((match = closingPattern.exec(input)) !== null) {
+      const candidate = match.index;
+      let index = skipWhitespace(input, closingPattern.lastIndex);
+      if (index >= input.length && !this.ended) {
+        this.emitContent(events, candidate);
+        return false;
+      }
+      if (input[index] !== ">") {
+        closingPattern.lastIndex = candidate + 1;
+        continue;
+      }
+      index++;
+      if (needsBoundary) {
+        if (index >= input.length && !this.ended) {
+          this.emitContent(events, candidate);
+          return false;
+        }
+        const next = input[index];
+        if (
+          next !== undefined &&
+          next !== "<" &&
+          !WHITESPACE_PATTERN.test(next)
+        ) {
+          closingPattern.lastIndex = candidate + 1;
+          continue;
+        }
+      }
+
+      this.emitContent(events, candidate);
+      this.consume(index - candidate);
+      this.current = null;
+      events.push({
+        type: "tag-close",
+        element: {
+          name: current.name,
+          attributes: current.attributes,
+          content: current.content,
+          closed: true,
+          start: current.start.offset,
+          end: this.bufferPosition.offset,
+        },
+      });
+      return true;
+    }
+
+    // Hold back a trailing "</blaze-..." that the next chunk may complete.
+    let keepFrom = input.length;
+    const lastTagStart = input.lastIndexOf("<");
+    if (
+      !this.ended &&
+      lastTagStart !== -1 &&
+      `</${current.name}`.startsWith(input.slice(lastTagStart).toLowerCase())
+    ) {
+      keepFrom = lastTagStart;
+    }
+    this.emitContent(events, keepFrom);
+    return false;
+  }
+
+  private emitContent(events: BlazeTagEvent[], length: number) {
+    if (length <= 0) {
+      return;
+    }
+    const text = this.consume(length);
+    this.current!.content += text;
+    events.push({ type: "tag-content", name: this.current!.name, text });
+  }
+}
+
+export interface ParsedBlazeMarkup {
+  /** The response with all markup removed. */
+  text: string;
+  elements: BlazeElement[];
+  errors: BlazeTagParseError[];
+}
+
+/** Tokenizes a complete (or partially streamed) response in one go. */
+export function parseBlazeMarkup(
+  input: string,
+  options?: BlazeTagTokenizerOptions,
+): ParsedBlazeMarkup {
+  const tokenizer = new BlazeTagTokenizer(options);
+  const result: ParsedBlazeMarkup = { text: "", elements: [], errors: [] };
+  for (const event of [...tokenizer.write(input), ...tokenizer.end()]) {
+    if (event.type === "text") {
+      result.text += event.text;
+    } else if (event.type === "tag-close") {
+      result.elements.push(event.element);
+    } else if (event.type === "error") {
+      result.errors.push(event.error);
+    }
+  }
+  return result;
+}
+
+// ============================================================================
+// Actions
+// ============================================================================
+
+export type BlazeAction =
+  | { type: "write"; path: string; content: string; description?: string }
+  | {
+      type: "search-replace";
+      path: string;
+      content: string;
+      description?: string;
+    }
+  | { type: "patch"; path: string; content: string; description?: string }
+  | { type: "rename"; from: string; to: string }
+  | { type: "delete"; path: string }
+  | { type: "add-dependency"; packages: string[] }
+  | { type: "chat-summary"; summary: string };
+
+export type BlazeActionType = BlazeAction["type"];
+
+const FILE_EDIT_ACTION_TYPES = {
+  "blaze-write": "write",
+  "blaze-search-replace": "search-replace",
+  "blaze-patch": "patch",
+} as const;
+
+/** Drops the markdown code fence models sometimes wrap file content in. */
+function stripCodeFence(content: string): string {
+  const lines = content.trim().split("\n");
+  if (lines[0]?.startsWith("```")) {
+    lines.shift();
+  }
+  if (lines[lines.length - 1]?.startsWith("```")) {
+    lines.pop();
+  }
+  return lines.join("\n");
+}
+
+function missingAttribute(
+  element: BlazeElement,
+  attribute: string,
+  input: string,
+): BlazeTagParseError {
+  const before = input.slice(0, element.start);
+  const lastNewline = before.lastIndexOf("\n");
+  return {
+    code: "MISSING_ATTRIBUTE",
+    message: `<${element.name}> is missing the "${attribute}" attribute`,
+    tagName: element.name,
+    position: {
+      offset: element.start,
+      line: before.split("\n").length,
+      column: element.start - lastNewline,
+    },
+  };
+}
+
+/**
+ * Maps a closed element to the action it describes. Returns an error for
+ * action tags that lack a required attribute and `null` for other tags.
+ */
+export function toBlazeAction(
+  element: BlazeElement,
+  input = "",
+): BlazeAction | BlazeTagParseError | null {
+  const { attributes } = element;
+  switch (element.name) {
+    case "blaze-write":
+    case "blaze-search-replace":
+    case "blaze-patch":
+      if (!attributes.path) {
+        return missingAttribute(element, "path", input);
+      }
+      return {
+        type: FILE_EDIT_ACTION_TYPES[element.name],
+        path: normalizePath(attributes.path),
+        content: stripCodeFence(element.content),
+        description: attributes.description || undefined,
+      };
+    case "blaze-rename":
+      if (!attributes.from || !attributes.to) {
+        return missingAttribute(
+          element,
+          attributes.from ? "to" : "from",
+          input,
+        );
+      }
+      return {
+        type: "rename",
+        from: normalizePath(attributes.from),
+        to: normalizePath(attributes.to),
+      };
+    case "blaze-delete":
+      if (!attributes.path) {
+        return missingAttribute(element, "path", input);
+      }
+      return { type: "delete", path: normalizePath(attributes.path) };
+    case "blaze-add-dependency":
+      if (!attributes.packages) {
+        return missingAttribute(element, "packages", input);
+      }
+      return {
+        type: "add-dependency",
+        packages: attributes.packages.split(/\s+/).filter(Boolean),
+      };
+    case "blaze-chat-summary": {
+      const summary = element.content.trim();
+      return summary ? { type: "chat-summary", summary } : null;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Parses the actions of a response in document order. Tags that are still
+ * open at the end of the input describe incomplete changes and are skipped.
+ */
+export function parseBlazeActions(input: string): {
+  actions: BlazeAction[];
+  errors: BlazeTagParseError[];
+} {
+  const { elements, errors } = parseBlazeMarkup(input);
+  const actions: BlazeAction[] = [];
+  for (const element of elements) {
+    if (!element.closed) {
+      continue;
+    }
+    const action = toBlazeAction(element, input);
+    if (action && "code" in action) {
+      errors.push(action);
+    } else if (action) {
+      actions.push(action);
+    }
+  }
+  return { actions, errors };
+}
+
+/**
+ * Returns the response without the markup of the actions `shouldRemove`
+ * selects. `index` is the position of the action in `parseBlazeActions`.
+ */
+export function removeBlazeActions(
+  input: string,
+  shouldRemove: (action: BlazeAction, index: number) => boolean,
+): string {
+  const { elements } = parseBlazeMarkup(input);
+  let output = "";
+  let cursor = 0;
+  let index = 0;
+  for (const element of elements) {
+    if (!element.closed) {
+      continue;
+    }
+    const action = toBlazeAction(element);
+    if (!action || "code" in action) {
+      continue;
+    }
+    if (shouldRemove(action, index++)) {
+      output += input.slice(cursor, element.start);
+      cursor = element.end;
+    }
+  }
+  return output + input.slice(cursor);
+}
+
+export function filterBlazeActions<T extends BlazeActionType>(
+  actions: readonly BlazeAction[],
+  type: T,
+): Extract<BlazeAction, { type: T }>[] {
+  return actions.filter(
+    (action): action is Extract<BlazeAction, { type: T }> =>
+      action.type === type,
+  );
+}
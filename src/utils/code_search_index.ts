@@ -0,0 +1,414 @@
+import { createHash } from "node:crypto";
+import fsAsync from "node:fs/promises";
+import path from "node:path";
+import { log } from "@/lib/logger";
+import {
+  OMITTED_FILE_CONTENT,
+  extractCodebase,
+  isExtractableCodebasePath,
+  type CodebaseFile,
+} from "./codebase";
+
+const logger = log.scope("utils/code_search_index");
+
+// BM25 parameters
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// Query terms that name a declared symbol or appear in the file path say more
+// about a file than a passing mention in its body.
+const SYMBOL_BOOST = 3;
+const PATH_BOOST = 2;
+
+// Generated or minified files can be huge; their tail adds little signal.
+const MAX_INDEXED_CHARS = 200_000;
+
+const DEFAULT_SEARCH_LIMIT = 10;
+
+// Indexes live for the whole process, so only the most recently used apps
+// keep theirs; the others are rebuilt on their next search.
+const MAX_INDEXED_APPS = 16;
+
+// Writes that do not go through agent tools or commits (e.g. a revert or a
+// script) are picked up once an index is this old.
+const CODE_SEARCH_INDEX_MAX_AGE_MS = 60_000;
+
+const STOP_WORDS = new Set([
+  "an",
+  "and",
+  "are",
+  "as",
+  "async",
+  "await",
+  "be",
+  "by",
+  "const",
+  "default",
+  "do",
+  "else",
+  "export",
+  "for",
+  "from",
+  "if",
+  "import",
+  "in",
+  "is",
+  "it",
+  "let",
+  "new",
+  "null",
+  "of",
+  "on",
+  "or",
+  "return",
+  "the",
+  "this",
+  "to",
+  "true",
+  "false",
+  "undefined",
+  "var",
+  "with",
+]);
+
+const SYMBOL_PATTERNS = [
+  /\b(?:function|class|interface|type|enum|def)\s+([A-Za-z_$][\w$]*)/g,
+  /\b(?:const|let|var)\s+([A-Za-z_$][\w$]*)\s*[=:]/g,
+];
+
+interface IndexedFile {
+  /** Detects unchanged files without keeping their content in memory. */
+  contentHash: string;
+  termFrequencies: Map<string, number>;
+  length: number;
+  symbols: string[];
+  symbolTerms: Set<string>;
+  pathTerms: Set<string>;
+}
+
+interface AppCodeIndex {
+  files: Map<string, IndexedFile>;
+  documentFrequencies: Map<string, number>;
+  totalLength: number;
+  /** When the index was last rebuilt from the full codebase. */
+  syncedAt: number;
+  /** Set when files changed in ways the index did not see. */
+  stale: boolean;
+}
+
+export interface CodeSearchMatch {
+  path: string;
+  score: number;
+  /** Declared symbols of the file that matched the query. */
+  symbols: string[];
+}
+
+/** In least recently used order, so the first entry is evicted first. */
+const appIndexes = new Map<string, AppCodeIndex>();
+
+/**
+ * Splits text into lowercase search terms. Identifiers are split on camel
+ * case as well, and compound identifiers are kept whole too, so both
+ * `useAuth` and `auth` find `useAuthSession`.
+ */
+export function tokenizeCode(text: string): string[] {
+  const tokens: string[] = [];
+  for (const word of text.match(/[A-Za-z0-9]+/g) ?? []) {
+    const parts = word
+      .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+      .replace(/([A-Z]+)([A-Z][a-z])/g, "$1 $2")
+      .split(" ");
+    if (parts.length > 1) {
+      tokens.push(word.toLowerCase());
+    }
+    for (const part of parts) {
+      const term = part.toLowerCase();
+      if (term.length >= 2 && !STOP_WORDS.has(term)) {
+        tokens.push(term);
+      }
+    }
+  }
+  return tokens;
+}
+
+/** Names of functions, classes, types and variables declared in a file. */
+export function extractSymbols(content: string): string[] {
+  const symbols = new Set<string>();
+  for (const pattern of SYMBOL_PATTERNS) {
+    for (const match of content.matchAll(pattern)) {
+      symbols.add(match[1]);
+    }
+  }
+  return [...symbols];
+}
+
+function hashContent(content: string): string {
+  return createHash("sha1").update(content).digest("hex");
+}
+
+function indexFile(filePath: string, content: string): IndexedFile {
+  const text =
+    content === OMITTED_FILE_CONTENT ? "" : content.slice(0, MAX_INDEXED_CHARS);
+  const pathTerms = new Set(tokenizeCode(filePath));
+  const termFrequencies = new Map<string, number>();
+  const tokens = [...tokenizeCode(text), ...pathTerms];
+  for (const token of tokens) {
+    termFrequencies.set(token, (termFrequencies.get(token) ?? 0) + 1);
+  }
+  const symbols = extractSymbols(text);
+  return {
+    contentHash: hashContent(content),
+    termFrequencies,
+    length: tokens.length,
+    symbols,
+    symbolTerms: new Set(symbols.flatMap((symbol) => tokenizeCode(symbol))),
+    pathTerms,
+  };
+}
+
+function removeFromIndex(index: AppCodeIndex, filePath: string) {
+  const entry = index.files.get(filePath);
+  if (!entry) {
+    return;
+  }
+  index.files.delete(filePath);
+  index.totalLength -= entry.length;
+  for (const term of entry.termFrequencies.keys()) {
+    const count = (index.documentFrequencies.get(term) ?? 1) - 1;
+    if (count <= 0) {
+      index.documentFrequencies.delete(term);
+    } else {
+      index.documentFrequencies.set(term, count);
+    }
+  }
+}
+
+function addToIndex(index: AppCodeIndex, filePath: string, content: string) {
+  if (index.files.get(filePath)?.contentHash === hashContent(content)) {
+    return;
+  }
+  removeFromIndex(index, filePath);
+  const entry = indexFile(filePath, content);
+  index.files.set(filePath, entry);
+  index.totalLength += entry.length;
+  for (const term of entry.termFrequencies.keys()) {
+    index.documentFrequencies.set(
+      term,
+      (index.documentFrequencies.get(term) ?? 0) + 1,
+    );
+  }
+}
+
+function getIndex(appPath: string): AppCodeIndex | undefined {
+  const index = appIndexes.get(appPath);
+  if (index) {
+    // Re-inserting moves the app to the most recently used end.
+    appIndexes.delete(appPath);
+    appIndexes.set(appPath, index);
+  }
+  return index;
+}
+
+function getOrCreateIndex(appPath: string): AppCodeIndex {
+  let index = getIndex(appPath);
+  if (!index) {
+    index = {
+      files: new Map(),
+      documentFrequencies: new Map(),
+      totalLength: 0,
+      syncedAt: 0,
+      stale: true,
+    };
+    appIndexes.set(appPath, index);
+    for (const leastRecentlyUsed of appIndexes.keys()) {
+      if (appIndexes.size <= MAX_INDEXED_APPS) {
+        break;
+      }
+      appIndexes.delete(leastRecentlyUsed);
+    }
+  }
+  return index;
+}
+
+/**
+ * Brings the app index in line with a fresh `extractCodebase` result. Only
+ * files whose content changed are re-tokenized.
+ */
+export function syncCodeSearchIndex(appPath: string, files: CodebaseFile[]) {
+  const index = getOrCreateIndex(appPath);
+  const seen = new Set<string>();
+  for (const file of files) {
+    seen.add(file.path);
+    addToIndex(index, file.path, file.content);
+  }
+  for (const filePath of index.files.keys()) {
+    if (!seen.has(filePath)) {
+      removeFromIndex(index, filePath);
+    }
+  }
+  index.syncedAt = Date.now();
+  index.stale = false;
+}
+
+/** Makes the next search rebuild the app index from the codebase. */
+export function markCodeSearchIndexStale(appPath: string) {
+  const index = appIndexes.get(appPath);
+  if (index) {
+    index.stale = true;
+  }
+}
+
+/**
+ * Applies the files touched by a commit to the app index. Apps that were
+ * never searched have no index yet and are skipped; they get indexed in
+ * full on their first search.
+ */
+export async function updateCodeSearchIndex(
+  appPath: string,
+  changes: { changedPaths: string[]; deletedPaths: string[] },
+): Promise<void> {
+  const index = getIndex(appPath);
+  if (!index) {
+    return;
+  }
+  for (const filePath of changes.deletedPaths) {
+    removeFromIndex(index, filePath);
+  }
+  for (const filePath of changes.changedPaths) {
+    if (!isExtractableCodebasePath(filePath)) {
+      continue;
+    }
+    try {
+      const content = await fsAsync.readFile(
+        path.join(appPath, filePath),
+        "utf-8",
+      );
+      addToIndex(index, filePath, content);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        removeFromIndex(index, filePath);
+      } else {
+        logger.warn(`Failed to index ${filePath}`, error);
+      }
+    }
+  }
+}
+
+/** Ranks the indexed files of an app against a query with BM25. */
+export function rankIndexedFiles(
+  appPath: string,
+  query: string,
+  limit = DEFAULT_SEARCH_LIMIT,
+): CodeSearchMatch[] {
+  const index = getIndex(appPath);
+  const queryTerms = [...new Set(tokenizeCode(query))];
+  if (!index || index.files.size === 0 || queryTerms.length === 0) {
+    return [];
+  }
+
+  const fileCount = index.files.size;
+  const averageLength = index.totalLength / fileCount || 1;
+  const matches: CodeSearchMatch[] = [];
+
+  for (const [filePath, entry] of index.files) {
+    let score = 0;
+    for (const term of queryTerms) {
+      const frequency = entry.termFrequencies.get(term);
+      if (!frequency) {
+        continue;
+      }
+      const documentFrequency = index.documentFrequencies.get(term) ?? 0;
+      const idf = Math.log(
+        1 + (fileCount - documentFrequency + 0.5) / (documentFrequency + 0.5),
+      );
+      const normalizedFrequency =
+        (frequency * (BM25_K1 + 1)) /
+        (frequency +
+          BM25_K1 * (1 - BM25_B + (BM25_B * entry.length) / averageLength));
+      score +=
+        idf *
+        (normalizedFrequency +
+          (entry.symbolTerms.has(term) ? SYMBOL_BOOST : 0) +
+          (entry.pathTerms.has(term) ? PATH_BOOST : 0));
+    }
+    if (score > 0) {
+      matches.push({
+        path: filePath,
+        score,
+        symbols: entry.symbols.filter((symbol) =>
+          tokenizeCode(symbol).some((term) => queryTerms.includes(term)),
+        ),
+      });
+    }
+  }
+
+  return matches
+    .sort((a, b) => b.score - a.score || a.path.localeCompare(b.path))
+    .slice(0, limit);
+}
+
+/**
+ * Searches the current files of an app. The index is rebuilt from the
+ * codebase only when it is missing, stale or older than the max age.
+ */
+export async function searchCodebase(
+  appPath: string,
+  query: string,
+  limit = DEFAULT_SEARCH_LIMIT,
+): Promise<CodeSearchMatch[]> {
+  const index = getIndex(appPath);
+  if (
+    !index ||
+    index.stale ||
+    Date.now() - index.syncedAt > CODE_SEARCH_INDEX_MAX_AGE_MS
+  ) {
+    const { files } = await extractCodebase({
+      appPath,
+      chatContext: {
+        contextPaths: [],
+        smartContextAutoIncludes: [],
+        excludePaths: [],
+      },
+    });
+    syncCodeSearchIndex(appPath, files);
+  }
+  return rankIndexedFiles(appPath, query, limit);
+}
+
+/**
+ * Narrows an extracted codebase down to `maxFiles` files, most relevant to
+ * the prompt first. Remaining slots go to the most recently modified files.
+ * Focused and auto-included files are always kept, and the original order is
+ * preserved so prompt caching still works.
+ */
+export function selectSmartContextFiles(params: {
+  appPath: string;
+  files: CodebaseFile[];
+  query: string;
+  maxFiles: number;
+}): CodebaseFile[] {
+  syncCodeSearchIndex(params.appPath, params.files);
+  const selected = new Set(
+    rankIndexedFiles(params.appPath, params.query, params.maxFiles).map(
+      (match) => match.path,
+    ),
+  );
+  // `extractCodebase` sorts files oldest first.
+  for (let i = params.files.length - 1; i >= 0; i--) {
+    if (selected.size >= params.maxFiles) {
+      break;
+    }
+    selected.add(params.files[i].path);
+  }
+  return params.files.filter(
+    (file) => file.force || file.focused || selected.has(file.path),
+  );
+}
+
+export function clearCodeSearchIndex(appPath?: string) {
+  if (appPath) {
+    appIndexes.delete(appPath);
+  } else {
+    appIndexes.clear();
+  }
+}
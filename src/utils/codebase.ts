@@ -309,7 +309,7 @@ async function collectFiles(dir: string, baseDir: string): Promise<string[]> {
   return files;
 }
 
-const OMITTED_FILE_CONTENT = "// File contents excluded from context";
+export const OMITTED_FILE_CONTENT = "// File contents excluded from context";
 
 /**
  * Check if file contents should be read based on extension and inclusion rules
@@ -362,6 +362,24 @@ function shouldReadFileContentsForSmartContext({
   );
 }
 
+/**
+ * Whether a file written outside `extractCodebase` (e.g. by a commit) would
+ * be part of the extracted codebase with its contents.
+ */
+export function isExtractableCodebasePath(normalizedRelativePath: string) {
+  const segments = normalizedRelativePath.split("/");
+  if (segments.some((segment) => EXCLUDED_DIRS.includes(segment))) {
+    return false;
+  }
+  if (EXCLUDED_FILES.includes(segments[segments.length - 1])) {
+    return false;
+  }
+  return shouldReadFileContentsForSmartContext({
+    filePath: normalizedRelativePath,
+    normalizedRelativePath,
+  });
+}
+
 /**
  * Format a file for inclusion in the codebase extract
  */
@@ -621,6 +639,22 @@ export async function extractCodebase({
   };
 }
 
+/**
+ * Formats already extracted files the same way `extractCodebase` formats
+ * its output, e.g. after narrowing them down to a subset.
+ */
+export function formatCodebaseFiles(files: CodebaseFile[]): string {
+  return files
+    .map(
+      (file) => `<blaze-file path="${file.path}">
+${file.content}
+</blaze-file>
+
+`,
+    )
+    .join("");
+}
+
 /**
  * Sort files by their modification timestamp (oldest first)
  */
@@ -64,12 +64,14 @@ function ipcHttpGatewayPlugin(): Plugin {
       const { createChatStreamMiddleware } = chatStreamModule;
       const { attachChatWsServer } = chatWsServerModule;
       const { createApiV1Middleware } = apiV1Module;
-      const { invokeIpcChannelOverHttp } = ipcGatewayModule;
+      const { invokeIpcChannelOverHttp, readUserSettingsForScope } =
+        ipcGatewayModule;
       const chatStreamMiddleware = createChatStreamMiddleware({
         loadChatStreamHandlers: () =>
           server.ssrLoadModule(
             path.resolve(__dirname, "src/ipc/handlers/chat_stream_handlers.ts"),
           ),
+        readUserSettingsForScope,
       });
       const wsServerHandle = server.httpServer
         ? attachChatWsServer({
@@ -81,6 +83,7 @@ function ipcHttpGatewayPlugin(): Plugin {
                   "src/ipc/handlers/chat_stream_handlers.ts",
                 ),
               ),
+            readUserSettingsForScope,
           })
         : null;
       const apiMiddleware = createApiV1Middleware(invokeIpcChannelOverHttp);